@@ -1,15 +1,71 @@
-import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
 import App from './App';
+import { logout, DEMO_PASSWORD } from './services';
+
+async function signIn(username: string) {
+  fireEvent.change(await screen.findByLabelText('Username'), { target: { value: username } });
+  fireEvent.change(screen.getByLabelText('Password'), { target: { value: DEMO_PASSWORD } });
+  fireEvent.click(screen.getByRole('button', { name: 'Sign In' }));
+  await screen.findByText('Total Patients', {}, { timeout: 5000 });
+}
 
 describe('App', () => {
-  it('renders the application header', () => {
+  beforeEach(() => {
+    logout();
+  });
+
+  it('renders the application header', async () => {
     render(<App />);
     expect(screen.getByText('Discharge Flow')).toBeInTheDocument();
+    await screen.findByRole('heading', { name: 'Sign In' });
   });
 
-  it('renders the subtitle', () => {
+  it('renders the subtitle', async () => {
     render(<App />);
     expect(screen.getByText('Hospital discharge task management')).toBeInTheDocument();
+    await screen.findByRole('heading', { name: 'Sign In' });
+  });
+
+  it('shows the dashboard and the user after signing in', async () => {
+    render(<App />);
+    await signIn('admin');
+
+    expect(screen.getByText('Admin User (Admin)')).toBeInTheDocument();
+  });
+
+  it('returns to sign-in after signing out', async () => {
+    render(<App />);
+    await signIn('admin');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign Out' }));
+
+    expect(await screen.findByRole('heading', { name: 'Sign In' })).toBeInTheDocument();
+    expect(screen.queryByRole('navigation', { name: 'Main' })).not.toBeInTheDocument();
+  });
+
+  it('navigates to the task rules screen', async () => {
+    render(<App />);
+    await signIn('admin');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Task Rules' }));
+
+    expect(await screen.findByRole('heading', { name: 'Task Rules' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Task Rules' })).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('navigates to the audit log', async () => {
+    render(<App />);
+    await signIn('admin');
+    fireEvent.click(screen.getByRole('button', { name: 'Audit Log' }));
+
+    expect(await screen.findByRole('heading', { name: 'Audit Log' })).toBeInTheDocument();
+  });
+
+  it('hides the audit log from roles that cannot view it', async () => {
+    render(<App />);
+    await signIn('maria.lopez');
+
+    expect(screen.queryByRole('button', { name: 'Audit Log' })).not.toBeInTheDocument();
   });
 });
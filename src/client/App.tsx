@@ -1,14 +1,96 @@
-import { Dashboard } from './views';
+import { useCallback, useState, type ReactNode } from 'react';
+import {
+  Dashboard,
+  TaskListView,
+  TaskRulesView,
+  AuditLogView,
+  PatientImportView,
+  DataExportView,
+  LoginView,
+} from './views';
+import { Button, StatusMessage } from './components';
+import { AuthContext, useAsyncData, useRepository } from './hooks';
+import { hasPermission, ROLE_LABELS } from '@shared/auth';
+import type { Permission } from '@shared/types';
+
+type AppView = 'dashboard' | 'tasks' | 'rules' | 'audit' | 'import' | 'data';
+
+const NAV_ITEMS: { value: AppView; label: string; permission?: Permission }[] = [
+  { value: 'dashboard', label: 'Dashboard' },
+  { value: 'tasks', label: 'Tasks' },
+  { value: 'rules', label: 'Task Rules' },
+  { value: 'audit', label: 'Audit Log', permission: 'audit.view' },
+  { value: 'import', label: 'Import Patients', permission: 'patients.import' },
+  { value: 'data', label: 'Export & Backup', permission: 'data.export' },
+];
 
 function App() {
+  const repository = useRepository();
+  const [view, setView] = useState<AppView>('dashboard');
+  const loadUser = useCallback(() => repository.getCurrentUser(), [repository]);
+  const { data: user, error, loading, reload } = useAsyncData(loadUser);
+
+  const handleSignIn = () => {
+    setView('dashboard');
+    reload();
+  };
+
+  const handleSignOut = useCallback(() => {
+    repository.logout().finally(reload);
+  }, [repository, reload]);
+
+  let content: ReactNode;
+  if (loading) {
+    content = <StatusMessage variant="loading" message="Loading..." />;
+  } else if (user === undefined) {
+    content = <StatusMessage variant="error" message={`Failed to check sign-in: ${error?.message}`} onRetry={reload} />;
+  } else if (user === null) {
+    content = <LoginView onSignIn={handleSignIn} />;
+  } else {
+    content = (
+      <AuthContext.Provider value={{ user, logout: handleSignOut }}>
+        {view === 'dashboard' && <Dashboard />}
+        {view === 'tasks' && <TaskListView />}
+        {view === 'rules' && <TaskRulesView />}
+        {view === 'audit' && <AuditLogView />}
+        {view === 'import' && <PatientImportView />}
+        {view === 'data' && <DataExportView />}
+      </AuthContext.Provider>
+    );
+  }
+
+  const navItems = user
+    ? NAV_ITEMS.filter(item => !item.permission || hasPermission(user.role, item.permission))
+    : [];
+
   return (
     <div className="app">
       <header className="app-header">
         <h1>Discharge Flow</h1>
         <p>Hospital discharge task management</p>
+        {user && (
+          <div className="app-header__user">
+            <span>{user.displayName} ({ROLE_LABELS[user.role]})</span>
+            <Button variant="ghost" size="sm" onClick={handleSignOut}>Sign Out</Button>
+          </div>
+        )}
+        {navItems.length > 0 && (
+          <nav className="app-nav" aria-label="Main">
+            {navItems.map(item => (
+              <button
+                key={item.value}
+                className={`app-nav__item ${view === item.value ? 'app-nav__item--active' : ''}`.trim()}
+                aria-current={view === item.value ? 'page' : undefined}
+                onClick={() => setView(item.value)}
+              >
+                {item.label}
+              </button>
+            ))}
+          </nav>
+        )}
       </header>
       <main className="app-main">
-        <Dashboard />
+        {content}
       </main>
     </div>
   );
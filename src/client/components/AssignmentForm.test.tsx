@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AssignmentForm } from './AssignmentForm';
+import type { User } from '@shared/types';
+
+const staff: User[] = [
+  { id: 'nurse-1', displayName: 'Nurse One', role: 'nurse', languages: ['English', 'Spanish'] },
+  { id: 'nurse-2', displayName: 'Nurse Two', role: 'nurse' },
+];
+
+describe('AssignmentForm', () => {
+  it('lists staff with their languages', () => {
+    render(<AssignmentForm staff={staff} onAssign={vi.fn()} onCancel={vi.fn()} />);
+    expect(screen.getByRole('option', { name: 'Nurse One (English, Spanish)' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Unassigned' })).toBeInTheDocument();
+  });
+
+  it('assigns unowned work without a reason', () => {
+    const onAssign = vi.fn();
+    render(<AssignmentForm staff={staff} onAssign={onAssign} onCancel={vi.fn()} />);
+
+    expect(screen.queryByLabelText('Reason for change')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Assign to'), { target: { value: 'nurse-2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Assignment' }));
+
+    expect(onAssign).toHaveBeenCalledWith('nurse-2', undefined);
+  });
+
+  it('requires a reason to take work from its owner', () => {
+    const onAssign = vi.fn();
+    render(<AssignmentForm staff={staff} currentAssignee="nurse-1" onAssign={onAssign} onCancel={vi.fn()} />);
+
+    const save = screen.getByRole('button', { name: 'Save Assignment' });
+    fireEvent.change(screen.getByLabelText('Assign to'), { target: { value: '' } });
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Reason for change'), { target: { value: 'On leave' } });
+    fireEvent.click(save);
+
+    expect(onAssign).toHaveBeenCalledWith(null, 'On leave');
+  });
+});
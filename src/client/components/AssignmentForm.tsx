@@ -0,0 +1,76 @@
+import { HTMLAttributes, FormEvent, useState } from 'react';
+import { Button } from './Button';
+import type { User } from '@shared/types';
+
+interface AssignmentFormProps extends Omit<HTMLAttributes<HTMLFormElement>, 'children' | 'onSubmit'> {
+  staff: User[];
+  /** The current owner's ID; taking the work from them needs a reason. */
+  currentAssignee?: string;
+  onAssign: (assignedTo: string | null, reason?: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Format a staff member for a picker, e.g. "Maria Lopez (English, Spanish)".
+ */
+function formatStaffOption(member: User): string {
+  return member.languages?.length ? `${member.displayName} (${member.languages.join(', ')})` : member.displayName;
+}
+
+/**
+ * Pick an owner (or none) for a task or a patient's tasks. A reason is asked
+ * for, and required, when the work already has an owner.
+ */
+export function AssignmentForm({
+  staff,
+  currentAssignee,
+  onAssign,
+  onCancel,
+  className = '',
+  ...props
+}: AssignmentFormProps) {
+  const [assignedTo, setAssignedTo] = useState(currentAssignee ?? '');
+  const [reason, setReason] = useState('');
+
+  const needsReason = Boolean(currentAssignee);
+  const unchanged = assignedTo === (currentAssignee ?? '');
+  const canSave = !unchanged && (!needsReason || reason.trim() !== '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onAssign(assignedTo || null, reason.trim() || undefined);
+  };
+
+  return (
+    <form className={`assignment-form ${className}`.trim()} onSubmit={handleSubmit} {...props}>
+      <label className="assignment-form__field">
+        <span className="assignment-form__label">Assign to</span>
+        <select className="assignment-form__input" value={assignedTo} onChange={(e) => setAssignedTo(e.target.value)}>
+          <option value="">Unassigned</option>
+          {staff.map(member => (
+            <option key={member.id} value={member.id}>{formatStaffOption(member)}</option>
+          ))}
+        </select>
+      </label>
+      {needsReason && (
+        <label className="assignment-form__field">
+          <span className="assignment-form__label">Reason for change</span>
+          <input
+            className="assignment-form__input"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Covering a day off"
+          />
+        </label>
+      )}
+      <div className="assignment-form__actions">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" disabled={!canSave}>
+          Save Assignment
+        </Button>
+      </div>
+    </form>
+  );
+}
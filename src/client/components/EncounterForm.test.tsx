@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AdmissionForm, DischargeForm } from './EncounterForm';
+
+describe('AdmissionForm', () => {
+  it('records the admission date and trimmed diagnosis', () => {
+    const onSave = vi.fn();
+    render(<AdmissionForm onSave={onSave} onCancel={vi.fn()} />);
+
+    const save = screen.getByRole('button', { name: 'Record Readmission' });
+    fireEvent.change(screen.getByLabelText('Admission date'), { target: { value: '2026-01-20' } });
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Diagnosis'), { target: { value: ' Sepsis ' } });
+    fireEvent.click(save);
+
+    expect(onSave).toHaveBeenCalledWith({ admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' });
+  });
+});
+
+describe('DischargeForm', () => {
+  it('sends no time when it is left empty', () => {
+    const onSave = vi.fn();
+    render(<DischargeForm onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Discharge date'), { target: { value: '2026-01-24' } });
+    fireEvent.change(screen.getByLabelText('Disposition'), { target: { value: 'Skilled nursing facility' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Record Discharge' }));
+
+    expect(onSave).toHaveBeenCalledWith({
+      dischargeDate: '2026-01-24',
+      dischargeTime: null,
+      dischargeDisposition: 'Skilled nursing facility',
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { HTMLAttributes, FormEvent, useState } from 'react';
+import { Button } from './Button';
+import { DISCHARGE_DISPOSITIONS } from '@shared/types';
+import type { AdmissionInput, DischargeDisposition, DischargeInput } from '@shared/types';
+
+type EncounterFormProps<T> = Omit<HTMLAttributes<HTMLFormElement>, 'children' | 'onSubmit'> & {
+  onSave: (input: T) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Record a readmission: the admission date and the diagnosis for the new stay.
+ */
+export function AdmissionForm({ onSave, onCancel, className = '', ...props }: EncounterFormProps<AdmissionInput>) {
+  const [admissionDate, setAdmissionDate] = useState('');
+  const [primaryDiagnosis, setPrimaryDiagnosis] = useState('');
+
+  const canSave = admissionDate !== '' && primaryDiagnosis.trim() !== '';
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({ admissionDate, primaryDiagnosis: primaryDiagnosis.trim() });
+  };
+
+  return (
+    <form className={`encounter-form ${className}`.trim()} onSubmit={handleSubmit} {...props}>
+      <label className="encounter-form__field">
+        <span className="encounter-form__label">Admission date</span>
+        <input
+          type="date"
+          className="encounter-form__input"
+          value={admissionDate}
+          onChange={(e) => setAdmissionDate(e.target.value)}
+        />
+      </label>
+      <label className="encounter-form__field">
+        <span className="encounter-form__label">Diagnosis</span>
+        <input
+          className="encounter-form__input"
+          value={primaryDiagnosis}
+          onChange={(e) => setPrimaryDiagnosis(e.target.value)}
+        />
+      </label>
+      <div className="encounter-form__actions">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" disabled={!canSave}>
+          Record Readmission
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Record the discharge that ends a stay. The time may be left empty.
+ */
+export function DischargeForm({ onSave, onCancel, className = '', ...props }: EncounterFormProps<DischargeInput>) {
+  const [dischargeDate, setDischargeDate] = useState('');
+  const [dischargeTime, setDischargeTime] = useState('');
+  const [dischargeDisposition, setDischargeDisposition] = useState<DischargeDisposition>(DISCHARGE_DISPOSITIONS[0]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({ dischargeDate, dischargeTime: dischargeTime || null, dischargeDisposition });
+  };
+
+  return (
+    <form className={`encounter-form ${className}`.trim()} onSubmit={handleSubmit} {...props}>
+      <label className="encounter-form__field">
+        <span className="encounter-form__label">Discharge date</span>
+        <input
+          type="date"
+          className="encounter-form__input"
+          value={dischargeDate}
+          onChange={(e) => setDischargeDate(e.target.value)}
+        />
+      </label>
+      <label className="encounter-form__field">
+        <span className="encounter-form__label">Discharge time</span>
+        <input
+          type="time"
+          className="encounter-form__input"
+          value={dischargeTime}
+          onChange={(e) => setDischargeTime(e.target.value)}
+        />
+      </label>
+      <label className="encounter-form__field">
+        <span className="encounter-form__label">Disposition</span>
+        <select
+          className="encounter-form__input"
+          value={dischargeDisposition}
+          onChange={(e) => setDischargeDisposition(e.target.value as DischargeDisposition)}
+        >
+          {DISCHARGE_DISPOSITIONS.map(value => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+      </label>
+      <div className="encounter-form__actions">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" disabled={dischargeDate === ''}>
+          Record Discharge
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { EncounterTimeline } from './EncounterTimeline';
+import { TASK_RULES } from '@shared/types';
+import type { Encounter, Task } from '@shared/types';
+
+const first: Encounter = {
+  id: 'MRN001-1',
+  patientId: 'MRN001',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  dischargeDisposition: 'Home',
+  primaryDiagnosis: 'Pneumonia',
+};
+
+const readmission: Encounter = {
+  ...first,
+  id: 'MRN001-2',
+  admissionDate: '2026-01-20',
+  dischargeDate: null,
+  dischargeTime: null,
+  dischargeDisposition: null,
+  primaryDiagnosis: 'Sepsis',
+};
+
+const tasks: Task[] = [{
+  id: 'task-1',
+  patientId: 'MRN001',
+  type: 'contact_patient',
+  status: 'cancelled',
+  dueStart: new Date('2026-01-14T15:00:00Z'),
+  dueEnd: new Date('2026-01-15T15:00:00Z'),
+}];
+
+describe('EncounterTimeline', () => {
+  it('lists encounters newest first with their tasks', () => {
+    render(<EncounterTimeline encounters={[first, readmission]} tasks={tasks} rules={TASK_RULES} />);
+
+    const [current, earlier] = screen.getAllByRole('listitem').filter((item) => item.parentElement?.tagName === 'OL');
+    expect(within(current).getByText('Encounter 2')).toBeInTheDocument();
+    expect(within(current).getByText('Current')).toBeInTheDocument();
+    expect(within(current).getByText('In hospital')).toBeInTheDocument();
+    expect(within(current).getByText('Tasks are created when the patient is discharged.')).toBeInTheDocument();
+
+    expect(within(earlier).getByText('Discharged 2026-01-14 10:00 to Home')).toBeInTheDocument();
+    expect(within(earlier).getByText('Cancelled')).toBeInTheDocument();
+  });
+});
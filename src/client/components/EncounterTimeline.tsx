@@ -0,0 +1,72 @@
+import { HTMLAttributes } from 'react';
+import { Badge } from './Badge';
+import { TaskStatusBadge } from './TaskStatusBadge';
+import { getTaskTypeLabel } from '@shared/taskRules';
+import { getEncounterTasks, isInHospital } from '@shared/encounters';
+import type { Encounter, Task, TaskRule } from '@shared/types';
+
+interface EncounterTimelineProps extends Omit<HTMLAttributes<HTMLOListElement>, 'children'> {
+  /** Oldest first, as the repository returns them; the last is the current one. */
+  encounters: Encounter[];
+  /** The patient's tasks, from every encounter. */
+  tasks: Task[];
+  /** The active task rules, used to name each task's type. */
+  rules: TaskRule[];
+}
+
+/**
+ * Describe how an encounter ended, e.g. "Discharged 2026-01-14 10:00 to Home".
+ */
+function formatDischarge(encounter: Encounter): string {
+  if (isInHospital(encounter)) {
+    return 'In hospital';
+  }
+  const time = encounter.dischargeTime ? ` ${encounter.dischargeTime}` : '';
+  return `Discharged ${encounter.dischargeDate}${time} to ${encounter.dischargeDisposition}`;
+}
+
+/**
+ * A patient's hospital stays, newest first, each with the tasks that followed
+ * its discharge.
+ */
+export function EncounterTimeline({ encounters, tasks, rules, className = '', ...props }: EncounterTimelineProps) {
+  const current = encounters[encounters.length - 1];
+
+  return (
+    <ol className={`encounter-timeline ${className}`.trim()} {...props}>
+      {[...encounters].reverse().map(encounter => {
+        const number = encounters.indexOf(encounter) + 1;
+        const encounterTasks = getEncounterTasks(tasks, encounter);
+        return (
+          <li key={encounter.id} className="encounter-timeline__item">
+            <div className="encounter-timeline__header">
+              <span className="encounter-timeline__title">Encounter {number}</span>
+              {encounter === current && (
+                <Badge variant={isInHospital(encounter) ? 'warning' : 'info'}>Current</Badge>
+              )}
+            </div>
+            <div className="encounter-timeline__meta">
+              <span>Admitted {encounter.admissionDate}</span>
+              <span>{formatDischarge(encounter)}</span>
+              <span>{encounter.primaryDiagnosis}</span>
+            </div>
+            {encounterTasks.length > 0 ? (
+              <ul className="encounter-timeline__tasks">
+                {encounterTasks.map(task => (
+                  <li key={task.id} className="encounter-timeline__task">
+                    <span>{getTaskTypeLabel(task.type, rules)}</span>
+                    <TaskStatusBadge status={task.status} />
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="encounter-timeline__empty">
+                {isInHospital(encounter) ? 'Tasks are created when the patient is discharged.' : 'No tasks.'}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
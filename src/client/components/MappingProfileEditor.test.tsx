@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MappingProfileEditor } from './MappingProfileEditor';
+import { STANDARD_MAPPING_PROFILE } from '@shared/patientMapping';
+import type { PatientMappingProfile } from '@shared/types';
+
+const EHR_PROFILE: PatientMappingProfile = {
+  id: 'ehr',
+  name: 'EHR export',
+  columns: { patientId: 'MRN' },
+  valueSynonyms: { riskLevel: { '4': 'Very High' } },
+};
+
+describe('MappingProfileEditor', () => {
+  it('saves a new profile named by the user, from the standard profile', () => {
+    const onSave = vi.fn();
+    render(
+      <MappingProfileEditor profile={STANDARD_MAPPING_PROFILE} headers={['MRN']} onSave={onSave} onCancel={vi.fn()} />
+    );
+
+    const save = screen.getByRole('button', { name: 'Save Profile' });
+    expect(save).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Profile name'), { target: { value: 'Epic Export' } });
+    fireEvent.change(screen.getByLabelText('Source column for patient_id'), { target: { value: 'MRN' } });
+    fireEvent.change(screen.getByLabelText('Disposition synonyms'), {
+      target: { value: 'SNF-LT = Skilled nursing facility\n\nHOME/SELF=Home' },
+    });
+    fireEvent.click(save);
+
+    expect(onSave).toHaveBeenCalledWith({
+      id: 'epic-export',
+      name: 'Epic Export',
+      columns: { patientId: 'MRN' },
+      valueSynonyms: { dischargeDisposition: { 'SNF-LT': 'Skilled nursing facility', 'HOME/SELF': 'Home' } },
+    });
+  });
+
+  it('keeps the ID of a saved profile and reports every edit', () => {
+    const onChange = vi.fn();
+    const onSave = vi.fn();
+    render(<MappingProfileEditor profile={EHR_PROFILE} headers={[]} onChange={onChange} onSave={onSave} onCancel={vi.fn()} />);
+
+    expect(screen.getByLabelText('Risk level synonyms')).toHaveValue('4 = Very High');
+    fireEvent.change(screen.getByLabelText('Profile name'), { target: { value: 'Renamed' } });
+    fireEvent.change(screen.getByLabelText('Delimiter'), { target: { value: ';' } });
+    fireEvent.change(screen.getByLabelText('Source column for patient_id'), { target: { value: '' } });
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      id: 'ehr',
+      name: 'Renamed',
+      delimiter: ';',
+      columns: {},
+      valueSynonyms: { riskLevel: { '4': 'Very High' } },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Profile' }));
+    expect(onSave).toHaveBeenCalledWith(onChange.mock.lastCall?.[0]);
+  });
+});
@@ -0,0 +1,180 @@
+import { HTMLAttributes, FormEvent, useEffect, useId, useMemo, useState } from 'react';
+import { Button } from './Button';
+import {
+  PATIENT_CSV_COLUMNS,
+  PATIENT_FIELD_VALUES,
+  REQUIRED_PATIENT_FIELDS,
+  STANDARD_MAPPING_PROFILE,
+} from '@shared/patientMapping';
+import type { Patient, PatientMappingProfile, PatientValueSynonymField } from '@shared/types';
+
+const PATIENT_FIELDS = Object.keys(PATIENT_CSV_COLUMNS) as (keyof Patient)[];
+
+const SYNONYM_LABELS: Record<PatientValueSynonymField, string> = {
+  dischargeDisposition: 'Disposition synonyms',
+  riskLevel: 'Risk level synonyms',
+  gender: 'Gender synonyms',
+};
+
+type MappingProfileEditorProps = Omit<HTMLAttributes<HTMLFormElement>, 'children' | 'onSubmit' | 'onChange'> & {
+  profile: PatientMappingProfile;
+  headers: string[];              // Columns of the file being imported, offered as suggestions
+  onChange?: (draft: PatientMappingProfile) => void;
+  onSave: (profile: PatientMappingProfile) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Turn a profile name into an ID, e.g. "Epic Export" → "epic-export".
+ */
+function toProfileId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Show synonyms as one "source = value" per line.
+ */
+function formatSynonyms(synonyms: Record<string, string> = {}): string {
+  return Object.entries(synonyms).map(([source, target]) => `${source} = ${target}`).join('\n');
+}
+
+/**
+ * Read "source = value" lines, skipping blank ones. A line without a value is
+ * kept so validation can point it out.
+ */
+function parseSynonyms(text: string): Record<string, string> {
+  const synonyms: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const [source, ...target] = line.split('=');
+    if (source.trim() !== '') {
+      synonyms[source.trim()] = target.join('=').trim();
+    }
+  }
+  return synonyms;
+}
+
+/**
+ * Edit a patient CSV mapping profile: the source column for each patient
+ * field and the source system's spellings of coded values. Every edit is
+ * passed to onChange so the import preview can follow along.
+ *
+ * Editing the standard profile saves a new profile named by the user.
+ */
+export function MappingProfileEditor({
+  profile,
+  headers,
+  onChange,
+  onSave,
+  onCancel,
+  className = '',
+  ...props
+}: MappingProfileEditorProps) {
+  const headerListId = useId();
+  const isNew = profile.id === STANDARD_MAPPING_PROFILE.id;
+  const [name, setName] = useState(isNew ? '' : profile.name);
+  const [delimiter, setDelimiter] = useState(profile.delimiter ?? '');
+  const [columns, setColumns] = useState<Partial<Record<keyof Patient, string>>>(profile.columns);
+  const [synonymText, setSynonymText] = useState<Record<PatientValueSynonymField, string>>({
+    dischargeDisposition: formatSynonyms(profile.valueSynonyms.dischargeDisposition),
+    riskLevel: formatSynonyms(profile.valueSynonyms.riskLevel),
+    gender: formatSynonyms(profile.valueSynonyms.gender),
+  });
+
+  const draft = useMemo<PatientMappingProfile>(() => {
+    const mapped = Object.entries(columns)
+      .map(([field, source]) => [field, source?.trim() ?? ''])
+      .filter(([, source]) => source !== '');
+    const valueSynonyms = Object.fromEntries(
+      (Object.keys(synonymText) as PatientValueSynonymField[])
+        .map((field) => [field, parseSynonyms(synonymText[field])])
+        .filter(([, synonyms]) => Object.keys(synonyms).length > 0)
+    );
+    return {
+      id: isNew ? toProfileId(name) : profile.id,
+      name: name.trim(),
+      ...(delimiter ? { delimiter } : {}),
+      columns: Object.fromEntries(mapped),
+      valueSynonyms,
+    };
+  }, [isNew, profile.id, name, delimiter, columns, synonymText]);
+
+  useEffect(() => {
+    onChange?.(draft);
+  }, [draft, onChange]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <form className={`mapping-profile-editor ${className}`.trim()} onSubmit={handleSubmit} {...props}>
+      <div className="mapping-profile-editor__row">
+        <label className="mapping-profile-editor__field">
+          <span className="mapping-profile-editor__label">Profile name</span>
+          <input
+            className="mapping-profile-editor__input"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </label>
+        <label className="mapping-profile-editor__field">
+          <span className="mapping-profile-editor__label">Delimiter</span>
+          <input
+            className="mapping-profile-editor__input mapping-profile-editor__input--short"
+            value={delimiter}
+            maxLength={1}
+            placeholder=","
+            onChange={(e) => setDelimiter(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <datalist id={headerListId}>
+        {headers.map((header) => <option key={header} value={header} />)}
+      </datalist>
+      <div className="mapping-profile-editor__columns">
+        {PATIENT_FIELDS.map((field) => (
+          <label key={field} className="mapping-profile-editor__field">
+            <span className="mapping-profile-editor__label">
+              {PATIENT_CSV_COLUMNS[field]}
+              {REQUIRED_PATIENT_FIELDS.includes(field) && ' *'}
+            </span>
+            <input
+              className="mapping-profile-editor__input"
+              aria-label={`Source column for ${PATIENT_CSV_COLUMNS[field]}`}
+              list={headerListId}
+              value={columns[field] ?? ''}
+              placeholder={PATIENT_CSV_COLUMNS[field]}
+              onChange={(e) => setColumns((prev) => ({ ...prev, [field]: e.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="mapping-profile-editor__row">
+        {(Object.keys(SYNONYM_LABELS) as PatientValueSynonymField[]).map((field) => (
+          <label key={field} className="mapping-profile-editor__field mapping-profile-editor__field--wide">
+            <span className="mapping-profile-editor__label">{SYNONYM_LABELS[field]}</span>
+            <textarea
+              className="mapping-profile-editor__input"
+              rows={3}
+              value={synonymText[field]}
+              placeholder={`Source value = ${PATIENT_FIELD_VALUES[field][0]}`}
+              onChange={(e) => setSynonymText((prev) => ({ ...prev, [field]: e.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="mapping-profile-editor__actions">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" disabled={draft.name === ''}>
+          Save Profile
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { NoteThread } from './NoteThread';
+import type { TaskNote } from '@shared/types';
+
+const note: TaskNote = {
+  id: 'note-1',
+  text: 'Left voicemail',
+  author: 'Nurse Smith',
+  createdAt: new Date('2024-01-15T10:00:00'),
+};
+
+describe('NoteThread', () => {
+  it('renders notes in order with their authors', () => {
+    const second: TaskNote = { ...note, id: 'note-2', text: 'Patient called back', author: 'Nurse Jones' };
+    render(<NoteThread notes={[note, second]} />);
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('Nurse Smith');
+    expect(items[0]).toHaveTextContent('Left voicemail');
+    expect(items[1]).toHaveTextContent('Patient called back');
+  });
+
+  it('shows an empty message', () => {
+    render(<NoteThread notes={[]} emptyMessage="Nothing here" />);
+    expect(screen.getByText('Nothing here')).toBeInTheDocument();
+  });
+
+  it('labels notes with their source', () => {
+    render(<NoteThread notes={[note]} sources={{ 'note-1': 'Contact Patient' }} />);
+    expect(screen.getByText('Contact Patient')).toBeInTheDocument();
+  });
+
+  it('adds a note and clears the input', () => {
+    const onAdd = vi.fn();
+    render(<NoteThread notes={[]} onAdd={onAdd} />);
+
+    const input = screen.getByLabelText('Add a note');
+    expect(screen.getByRole('button', { name: 'Add Note' })).toBeDisabled();
+
+    fireEvent.change(input, { target: { value: 'Pharmacy closed' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Note' }));
+
+    expect(onAdd).toHaveBeenCalledWith('Pharmacy closed');
+    expect(input).toHaveValue('');
+  });
+
+  it('edits a note in place', () => {
+    const onEdit = vi.fn();
+    render(<NoteThread notes={[note]} onEdit={onEdit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+    fireEvent.change(screen.getByLabelText('Edit note'), { target: { value: 'Left two voicemails' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(onEdit).toHaveBeenCalledWith('note-1', 'Left two voicemails');
+  });
+
+  it('shows earlier versions of an edited note', () => {
+    const edited: TaskNote = {
+      ...note,
+      text: 'Left two voicemails',
+      changes: [{ action: 'edited', changedAt: new Date('2024-01-15T11:00:00'), changedBy: 'Nurse Smith', previousText: 'Left voicemail' }],
+    };
+    render(<NoteThread notes={[edited]} />);
+
+    expect(screen.getByText('(edited)')).toBeInTheDocument();
+    expect(screen.getByText('Earlier versions (1)')).toBeInTheDocument();
+    expect(screen.getByText('Left voicemail')).toBeInTheDocument();
+  });
+
+  it('requires a reason to redact', () => {
+    const onRedact = vi.fn();
+    render(<NoteThread notes={[note]} onRedact={onRedact} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Redact' }));
+    const buttons = screen.getAllByRole('button', { name: 'Redact' });
+    const confirm = buttons[buttons.length - 1];
+    expect(confirm).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Reason for redaction'), { target: { value: 'Wrong patient' } });
+    fireEvent.click(confirm);
+
+    expect(onRedact).toHaveBeenCalledWith('note-1', 'Wrong patient');
+  });
+
+  it('shows who redacted a note and offers no actions on it', () => {
+    const redacted: TaskNote = {
+      ...note,
+      text: '',
+      redacted: true,
+      changes: [{ action: 'redacted', changedAt: new Date('2024-01-15T12:00:00'), changedBy: 'Supervisor', reason: 'Wrong patient' }],
+    };
+    render(<NoteThread notes={[redacted]} onEdit={vi.fn()} onRedact={vi.fn()} />);
+
+    expect(screen.getByText(/Redacted by Supervisor/)).toHaveTextContent('Wrong patient');
+    expect(screen.queryByRole('button', { name: 'Edit' })).not.toBeInTheDocument();
+  });
+
+  it('offers Edit only on notes the user may edit', () => {
+    const other: TaskNote = { ...note, id: 'note-2', author: 'Nurse Jones' };
+    render(
+      <NoteThread
+        notes={[note, other]}
+        onEdit={vi.fn()}
+        onRedact={vi.fn()}
+        canEditNote={(n) => n.author === 'Nurse Smith'}
+      />
+    );
+
+    expect(screen.getAllByRole('button', { name: 'Edit' })).toHaveLength(1);
+    expect(screen.getAllByRole('button', { name: 'Redact' })).toHaveLength(2);
+  });
+
+  it('marks notes migrated from the old format', () => {
+    render(<NoteThread notes={[{ ...note, author: 'Unknown', legacy: true }]} />);
+    expect(screen.getByText('Earlier note')).toHaveAttribute('title', expect.stringContaining('not kept'));
+  });
+});
@@ -0,0 +1,209 @@
+import { HTMLAttributes, FormEvent, useState } from 'react';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { DEFAULT_TIME_ZONE } from '@shared/types';
+import type { TaskNote } from '@shared/types';
+
+interface NoteThreadProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  notes: TaskNote[];
+  onAdd?: (text: string) => void;
+  onEdit?: (noteId: string, text: string) => void;
+  onRedact?: (noteId: string, reason: string) => void;
+  /** Whether the Edit action is offered on a note (defaults to every note). */
+  canEditNote?: (note: TaskNote) => boolean;
+  /** Label shown on each note, keyed by note ID (e.g. the task a note belongs to). */
+  sources?: Record<string, string>;
+  emptyMessage?: string;
+  /** The facility's time zone, in which times are shown (defaults to DEFAULT_TIME_ZONE). */
+  timeZone?: string;
+}
+
+function formatDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+  }).format(date);
+}
+
+/**
+ * An append-only thread of notes. Edited notes keep their earlier versions
+ * behind a disclosure; redacted notes show who redacted them and why.
+ */
+export function NoteThread({
+  notes,
+  onAdd,
+  onEdit,
+  onRedact,
+  canEditNote = () => true,
+  sources,
+  emptyMessage = 'No notes yet.',
+  timeZone = DEFAULT_TIME_ZONE,
+  className = '',
+  ...props
+}: NoteThreadProps) {
+  const [newText, setNewText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [redactingId, setRedactingId] = useState<string | null>(null);
+  const [redactReason, setRedactReason] = useState('');
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    onAdd?.(newText);
+    setNewText('');
+  };
+
+  const startEdit = (note: TaskNote) => {
+    setRedactingId(null);
+    setEditingId(note.id);
+    setEditText(note.text);
+  };
+
+  const startRedact = (note: TaskNote) => {
+    setEditingId(null);
+    setRedactingId(note.id);
+    setRedactReason('');
+  };
+
+  const handleEdit = (e: FormEvent) => {
+    e.preventDefault();
+    if (editingId) {
+      onEdit?.(editingId, editText);
+    }
+    setEditingId(null);
+  };
+
+  const handleRedact = (e: FormEvent) => {
+    e.preventDefault();
+    if (redactingId) {
+      onRedact?.(redactingId, redactReason);
+    }
+    setRedactingId(null);
+  };
+
+  return (
+    <div className={`note-thread ${className}`.trim()} {...props}>
+      {notes.length === 0 ? (
+        <p className="note-thread__empty">{emptyMessage}</p>
+      ) : (
+        <ol className="note-thread__list">
+          {notes.map(note => {
+            const edits = (note.changes ?? []).filter(change => change.action === 'edited');
+            const redaction = note.changes?.find(change => change.action === 'redacted');
+
+            return (
+              <li key={note.id} className="note-thread__item">
+                <div className="note-thread__meta">
+                  {sources?.[note.id] && <Badge variant="info">{sources[note.id]}</Badge>}
+                  {note.legacy ? (
+                    <span
+                      className="note-thread__author"
+                      title="Recorded before note history; author and time were not kept"
+                    >
+                      Earlier note
+                    </span>
+                  ) : (
+                    <>
+                      <span className="note-thread__author">{note.author}</span>
+                      <span className="note-thread__time">{formatDate(note.createdAt, timeZone)}</span>
+                    </>
+                  )}
+                  {edits.length > 0 && !note.redacted && <span className="note-thread__edited">(edited)</span>}
+                </div>
+
+                {redaction ? (
+                  <p className="note-thread__redacted">
+                    Redacted by {redaction.changedBy} on {formatDate(redaction.changedAt, timeZone)}: {redaction.reason}
+                  </p>
+                ) : editingId === note.id ? (
+                  <form className="note-thread__form" onSubmit={handleEdit}>
+                    <textarea
+                      className="note-thread__input"
+                      aria-label="Edit note"
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={2}
+                    />
+                    <div className="note-thread__actions">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                      <Button type="submit" variant="primary" size="sm" disabled={editText.trim() === ''}>Save</Button>
+                    </div>
+                  </form>
+                ) : (
+                  <p className="note-thread__text">{note.text}</p>
+                )}
+
+                {redactingId === note.id && (
+                  <form className="note-thread__form" onSubmit={handleRedact}>
+                    <input
+                      className="note-thread__input"
+                      aria-label="Reason for redaction"
+                      placeholder="Reason for redaction"
+                      value={redactReason}
+                      onChange={(e) => setRedactReason(e.target.value)}
+                    />
+                    <div className="note-thread__actions">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setRedactingId(null)}>Cancel</Button>
+                      <Button type="submit" variant="danger" size="sm" disabled={redactReason.trim() === ''}>
+                        Redact
+                      </Button>
+                    </div>
+                  </form>
+                )}
+
+                {edits.length > 0 && !note.redacted && (
+                  <details className="note-thread__history">
+                    <summary>Earlier versions ({edits.length})</summary>
+                    <ul>
+                      {edits.map(change => (
+                        <li key={change.changedAt.toISOString()}>
+                          <span className="note-thread__text">{change.previousText}</span>
+                          <span className="note-thread__time">
+                            {' '}— replaced by {change.changedBy}, {formatDate(change.changedAt, timeZone)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+
+                {!note.redacted && editingId !== note.id && redactingId !== note.id &&
+                  ((onEdit && canEditNote(note)) || onRedact) && (
+                  <div className="note-thread__actions">
+                    {onEdit && canEditNote(note) && (
+                      <Button variant="ghost" size="sm" onClick={() => startEdit(note)}>Edit</Button>
+                    )}
+                    {onRedact && (
+                      <Button variant="ghost" size="sm" onClick={() => startRedact(note)}>Redact</Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {onAdd && (
+        <form className="note-thread__form" onSubmit={handleAdd}>
+          <textarea
+            className="note-thread__input"
+            aria-label="Add a note"
+            placeholder="Add a note"
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            rows={2}
+          />
+          <div className="note-thread__actions">
+            <Button type="submit" variant="secondary" size="sm" disabled={newText.trim() === ''}>
+              Add Note
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
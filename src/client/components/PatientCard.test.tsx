@@ -56,8 +56,7 @@ describe('PatientCard', () => {
 
   it('renders discharge date', () => {
     render(<PatientCard patient={basePatient} />);
-    // Check that a date is rendered (could be Jan 4 or Jan 5 depending on timezone)
-    expect(screen.getByText(/Jan \d/)).toBeInTheDocument();
+    expect(screen.getByText('Jan 5')).toBeInTheDocument();
   });
 
   it('renders discharge disposition', () => {
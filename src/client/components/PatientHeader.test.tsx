@@ -57,8 +57,7 @@ describe('PatientHeader', () => {
 
   it('renders discharge date', () => {
     render(<PatientHeader patient={basePatient} />);
-    // Check that a date is rendered (could be Jan 4 or Jan 5 depending on timezone)
-    expect(screen.getByText(/Jan \d, 2024/)).toBeInTheDocument();
+    expect(screen.getByText(/Jan 5, 2024/)).toBeInTheDocument();
   });
 
   it('renders discharge disposition', () => {
@@ -13,9 +13,12 @@ const riskLevelVariantMap: Record<RiskLevel, BadgeVariant> = {
   'Very High': 'danger',
 };
 
+// Discharge dates are already the facility's calendar date ("YYYY-MM-DD", read
+// as UTC midnight), so they are shown in UTC rather than shifted into a zone
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr);
   return new Intl.DateTimeFormat('en-US', {
+    timeZone: 'UTC',
     month: 'short',
     day: 'numeric',
     year: 'numeric',
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { StatusChangeForm } from './StatusChangeForm';
+
+describe('StatusChangeForm', () => {
+  it('closes a task with the chosen status and reason', () => {
+    const onSave = vi.fn();
+    render(<StatusChangeForm mode="close" onSave={onSave} onCancel={vi.fn()} />);
+
+    const save = screen.getByRole('button', { name: 'Close Task' });
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Change to'), { target: { value: 'not_applicable' } });
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'not_indicated' } });
+    fireEvent.click(save);
+
+    expect(onSave).toHaveBeenCalledWith({ action: 'not_applicable', reason: 'not_indicated', note: undefined });
+  });
+
+  it('requires a note when the reason is Other', () => {
+    const onSave = vi.fn();
+    render(<StatusChangeForm mode="close" onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'other' } });
+    const save = screen.getByRole('button', { name: 'Close Task' });
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Note (required)'), { target: { value: ' Moved abroad ' } });
+    fireEvent.click(save);
+
+    expect(onSave).toHaveBeenCalledWith({ action: 'cancelled', reason: 'other', note: 'Moved abroad' });
+  });
+
+  it('offers only reopen reasons when reopening', () => {
+    const onSave = vi.fn();
+    render(<StatusChangeForm mode="reopen" onSave={onSave} onCancel={vi.fn()} />);
+
+    expect(screen.queryByLabelText('Change to')).not.toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: 'Patient readmitted' })).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'completed_in_error' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Reopen Task' }));
+
+    expect(onSave).toHaveBeenCalledWith({ action: 'reopened', reason: 'completed_in_error', note: undefined });
+  });
+});
@@ -0,0 +1,90 @@
+import { HTMLAttributes, FormEvent, useState } from 'react';
+import { Button } from './Button';
+import { TASK_STATUS_CHANGE_REASON_LABELS, getStatusChangeReasons } from '@shared/taskEngine';
+import type { TaskStatusChangeAction, TaskStatusChangeInput, TaskStatusChangeReason } from '@shared/types';
+
+/**
+ * A status change as entered in the form; the caller records who made it.
+ */
+export type TaskStatusChangeDraft = Omit<TaskStatusChangeInput, 'changedBy'>;
+
+interface StatusChangeFormProps extends Omit<HTMLAttributes<HTMLFormElement>, 'children' | 'onSubmit'> {
+  /** 'close' offers cancelling or marking not applicable; 'reopen' reopens. */
+  mode: 'close' | 'reopen';
+  onSave: (change: TaskStatusChangeDraft) => void;
+  onCancel: () => void;
+}
+
+const CLOSE_ACTION_LABELS: Partial<Record<TaskStatusChangeAction, string>> = {
+  cancelled: 'Cancelled',
+  not_applicable: 'Not applicable',
+};
+
+/**
+ * Close a task (cancel it or mark it not applicable) or reopen it. A reason
+ * code is required, and a note too when the reason is "Other".
+ */
+export function StatusChangeForm({ mode, onSave, onCancel, className = '', ...props }: StatusChangeFormProps) {
+  const [action, setAction] = useState<TaskStatusChangeAction>(mode === 'reopen' ? 'reopened' : 'cancelled');
+  const [reason, setReason] = useState<TaskStatusChangeReason | ''>('');
+  const [note, setNote] = useState('');
+
+  const reasons = getStatusChangeReasons(action);
+  const needsNote = reason === 'other';
+  const canSave = reason !== '' && (!needsNote || note.trim() !== '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (reason !== '') {
+      onSave({ action, reason, note: note.trim() || undefined });
+    }
+  };
+
+  return (
+    <form className={`status-change-form ${className}`.trim()} onSubmit={handleSubmit} {...props}>
+      {mode === 'close' && (
+        <label className="status-change-form__field">
+          <span className="status-change-form__label">Change to</span>
+          <select
+            className="status-change-form__input"
+            value={action}
+            onChange={(e) => setAction(e.target.value as TaskStatusChangeAction)}
+          >
+            {Object.entries(CLOSE_ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="status-change-form__field">
+        <span className="status-change-form__label">Reason</span>
+        <select
+          className="status-change-form__input"
+          value={reason}
+          onChange={(e) => setReason(e.target.value as TaskStatusChangeReason | '')}
+        >
+          <option value="">Choose a reason</option>
+          {reasons.map(value => (
+            <option key={value} value={value}>{TASK_STATUS_CHANGE_REASON_LABELS[value]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="status-change-form__field">
+        <span className="status-change-form__label">{needsNote ? 'Note (required)' : 'Note'}</span>
+        <input
+          className="status-change-form__input"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+      </label>
+      <div className="status-change-form__actions">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" disabled={!canSave}>
+          {mode === 'reopen' ? 'Reopen Task' : 'Close Task'}
+        </Button>
+      </div>
+    </form>
+  );
+}
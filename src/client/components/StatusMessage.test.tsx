@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { StatusMessage } from './StatusMessage';
+
+describe('StatusMessage', () => {
+  it('renders a loading message with status role', () => {
+    render(<StatusMessage variant="loading" message="Loading tasks..." />);
+    expect(screen.getByRole('status')).toHaveTextContent('Loading tasks...');
+  });
+
+  it('renders an error message with alert role', () => {
+    render(<StatusMessage variant="error" message="Failed to load" />);
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to load');
+  });
+
+  it('applies the variant class', () => {
+    const { container } = render(<StatusMessage variant="error" message="Oops" />);
+    expect(container.firstChild).toHaveClass('status-message', 'status-message--error');
+  });
+
+  it('renders retry button for errors when onRetry is provided', () => {
+    const onRetry = vi.fn();
+    render(<StatusMessage variant="error" message="Oops" onRetry={onRetry} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not render retry button while loading', () => {
+    render(<StatusMessage variant="loading" message="Loading..." onRetry={() => {}} />);
+    expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument();
+  });
+});
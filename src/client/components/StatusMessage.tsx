@@ -0,0 +1,32 @@
+import { HTMLAttributes } from 'react';
+import { Card, CardBody } from './Card';
+import { Button } from './Button';
+
+type StatusMessageVariant = 'loading' | 'error';
+
+interface StatusMessageProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  variant: StatusMessageVariant;
+  message: string;
+  onRetry?: () => void;
+}
+
+export function StatusMessage({ variant, message, onRetry, className = '', ...props }: StatusMessageProps) {
+  return (
+    <Card
+      className={`status-message status-message--${variant} ${className}`.trim()}
+      role={variant === 'error' ? 'alert' : 'status'}
+      {...props}
+    >
+      <CardBody>
+        <div className="status-message__body">
+          <p className="status-message__text">{message}</p>
+          {variant === 'error' && onRetry && (
+            <Button variant="secondary" size="sm" onClick={onRetry}>
+              Retry
+            </Button>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
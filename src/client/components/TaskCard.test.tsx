@@ -1,7 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { TaskCard } from './TaskCard';
-import type { Task } from '@shared/types';
+import { TASK_RULES } from '@shared/types';
+import type { Task, ContactAttempt } from '@shared/types';
 
 const baseTask: Task = {
   id: 'task-1',
@@ -14,78 +15,265 @@ const baseTask: Task = {
 
 describe('TaskCard', () => {
   it('renders task type label', () => {
-    render(<TaskCard task={baseTask} />);
+    render(<TaskCard rules={TASK_RULES} task={baseTask} />);
     expect(screen.getByText('Contact Patient')).toBeInTheDocument();
   });
 
+  it('renders a title-cased label for custom rule types', () => {
+    render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, type: 'pharmacy_review' }} />);
+    expect(screen.getByText('Pharmacy Review')).toBeInTheDocument();
+  });
+
+  it('names the task type from the given rules', () => {
+    const rules = TASK_RULES.map(rule =>
+      rule.type === 'contact_patient' ? { ...rule, label: 'Welcome Home Call' } : rule
+    );
+    render(<TaskCard rules={rules} task={baseTask} />);
+    expect(screen.getByText('Welcome Home Call')).toBeInTheDocument();
+  });
+
+  it('flags tasks whose discharge time was unknown', () => {
+    render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, dischargeTimeUnknown: true }} />);
+    expect(screen.getByText('Time unknown')).toHaveAttribute('title', expect.stringContaining('midnight'));
+  });
+
+  it('does not flag tasks with a known discharge time', () => {
+    render(<TaskCard rules={TASK_RULES} task={baseTask} />);
+    expect(screen.queryByText('Time unknown')).not.toBeInTheDocument();
+  });
+
+  it('shows due times in the facility time zone', () => {
+    const task = { ...baseTask, dueStart: new Date('2024-01-15T14:00:00Z'), dueEnd: new Date('2024-01-16T02:00:00Z') };
+    render(<TaskCard rules={TASK_RULES} task={task} timeZone="Asia/Tokyo" />);
+    expect(screen.getByText('Jan 15, 11:00 PM - Jan 16, 11:00 AM')).toBeInTheDocument();
+  });
+
   it('renders task status badge', () => {
-    render(<TaskCard task={baseTask} />);
+    render(<TaskCard rules={TASK_RULES} task={baseTask} />);
     expect(screen.getByText('Pending')).toBeInTheDocument();
   });
 
   it('renders due date range', () => {
-    render(<TaskCard task={baseTask} />);
+    render(<TaskCard rules={TASK_RULES} task={baseTask} />);
     expect(screen.getByText('Due:')).toBeInTheDocument();
   });
 
   it('renders medication reconciliation type', () => {
     const task: Task = { ...baseTask, type: 'medication_reconciliation' };
-    render(<TaskCard task={task} />);
+    render(<TaskCard rules={TASK_RULES} task={task} />);
     expect(screen.getByText('Medication Reconciliation')).toBeInTheDocument();
   });
 
   it('renders followup scheduling type', () => {
     const task: Task = { ...baseTask, type: 'followup_scheduling' };
-    render(<TaskCard task={task} />);
+    render(<TaskCard rules={TASK_RULES} task={task} />);
     expect(screen.getByText('Confirm Followup Scheduling')).toBeInTheDocument();
   });
 
   it('renders facility handoff type', () => {
     const task: Task = { ...baseTask, type: 'facility_handoff' };
-    render(<TaskCard task={task} />);
+    render(<TaskCard rules={TASK_RULES} task={task} />);
     expect(screen.getByText('Facility Handoff Confirmation')).toBeInTheDocument();
   });
 
   it('renders checkin call type', () => {
     const task: Task = { ...baseTask, type: 'checkin_call' };
-    render(<TaskCard task={task} />);
+    render(<TaskCard rules={TASK_RULES} task={task} />);
     expect(screen.getByText('48hr Check-in Call')).toBeInTheDocument();
   });
 
   it('shows complete button for pending tasks', () => {
     const onComplete = vi.fn();
-    render(<TaskCard task={baseTask} onComplete={onComplete} />);
+    render(<TaskCard rules={TASK_RULES} task={baseTask} onComplete={onComplete} />);
     expect(screen.getByRole('button', { name: 'Mark Complete' })).toBeInTheDocument();
   });
 
   it('shows complete button for overdue tasks', () => {
     const task: Task = { ...baseTask, status: 'overdue' };
     const onComplete = vi.fn();
-    render(<TaskCard task={task} onComplete={onComplete} />);
+    render(<TaskCard rules={TASK_RULES} task={task} onComplete={onComplete} />);
     expect(screen.getByRole('button', { name: 'Mark Complete' })).toBeInTheDocument();
   });
 
   it('does not show complete button for completed tasks', () => {
     const task: Task = { ...baseTask, status: 'completed' };
     const onComplete = vi.fn();
-    render(<TaskCard task={task} onComplete={onComplete} />);
+    render(<TaskCard rules={TASK_RULES} task={task} onComplete={onComplete} />);
     expect(screen.queryByRole('button', { name: 'Mark Complete' })).not.toBeInTheDocument();
   });
 
   it('does not show complete button for upcoming tasks', () => {
     const task: Task = { ...baseTask, status: 'upcoming' };
     const onComplete = vi.fn();
-    render(<TaskCard task={task} onComplete={onComplete} />);
+    render(<TaskCard rules={TASK_RULES} task={task} onComplete={onComplete} />);
     expect(screen.queryByRole('button', { name: 'Mark Complete' })).not.toBeInTheDocument();
   });
 
   it('calls onComplete with task id when button is clicked', () => {
     const onComplete = vi.fn();
-    render(<TaskCard task={baseTask} onComplete={onComplete} />);
+    render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, type: 'medication_reconciliation' }} onComplete={onComplete} />);
     fireEvent.click(screen.getByRole('button', { name: 'Mark Complete' }));
     expect(onComplete).toHaveBeenCalledWith('task-1');
   });
 
+  describe('contact attempts', () => {
+    const reachedAttempt: ContactAttempt = {
+      id: 'attempt-1',
+      attemptedAt: new Date('2024-01-15T10:00:00'),
+      channel: 'phone',
+      destination: '555-0100',
+      outcome: 'reached',
+      attemptedBy: 'Nurse Smith',
+    };
+
+    it('disables completion of an outreach task until the patient is reached', () => {
+      const onComplete = vi.fn();
+      render(<TaskCard rules={TASK_RULES} task={baseTask} onComplete={onComplete} />);
+
+      const button = screen.getByRole('button', { name: 'Mark Complete' });
+      expect(button).toBeDisabled();
+      expect(button).toHaveAttribute('title', expect.stringContaining('successful contact'));
+    });
+
+    it('enables completion once a successful contact is logged', () => {
+      const onComplete = vi.fn();
+      render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, contactAttempts: [reachedAttempt] }} onComplete={onComplete} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Mark Complete' }));
+      expect(onComplete).toHaveBeenCalledWith('task-1');
+    });
+
+    it('lists the contact history', () => {
+      const voicemail: ContactAttempt = { ...reachedAttempt, id: 'attempt-0', outcome: 'voicemail', notes: 'Left callback number' };
+      render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, contactAttempts: [voicemail, reachedAttempt] }} />);
+
+      expect(screen.getByText('Contact attempts:')).toBeInTheDocument();
+      expect(screen.getByText('Left voicemail')).toBeInTheDocument();
+      expect(screen.getByText('Reached')).toBeInTheDocument();
+      expect(screen.getByText('Left callback number')).toBeInTheDocument();
+      expect(screen.getAllByText('by Nurse Smith')).toHaveLength(2);
+    });
+
+    it('logs an attempt with the default destination', () => {
+      const onLogContact = vi.fn();
+      render(<TaskCard rules={TASK_RULES} task={baseTask} onLogContact={onLogContact} defaultDestination="555-0100" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Log Attempt' }));
+      expect(screen.getByLabelText('Number or email')).toHaveValue('555-0100');
+      fireEvent.change(screen.getByLabelText('Outcome'), { target: { value: 'no_answer' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save Attempt' }));
+
+      expect(onLogContact).toHaveBeenCalledWith('task-1', {
+        channel: 'phone',
+        destination: '555-0100',
+        outcome: 'no_answer',
+      });
+      expect(screen.queryByRole('button', { name: 'Save Attempt' })).not.toBeInTheDocument();
+    });
+
+    it('does not offer logging on non-outreach or completed tasks', () => {
+      const onLogContact = vi.fn();
+      const { rerender } = render(
+        <TaskCard rules={TASK_RULES} task={{ ...baseTask, type: 'medication_reconciliation' }} onLogContact={onLogContact} />
+      );
+      expect(screen.queryByRole('button', { name: 'Log Attempt' })).not.toBeInTheDocument();
+
+      rerender(<TaskCard rules={TASK_RULES} task={{ ...baseTask, status: 'completed' }} onLogContact={onLogContact} />);
+      expect(screen.queryByRole('button', { name: 'Log Attempt' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('assignment', () => {
+    const staff = [{ id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' as const }];
+
+    it('shows the owner by name, or that the task is unassigned', () => {
+      const { rerender } = render(<TaskCard rules={TASK_RULES} task={baseTask} staff={staff} />);
+      expect(screen.getByText('Unassigned')).toBeInTheDocument();
+
+      rerender(<TaskCard rules={TASK_RULES} task={{ ...baseTask, assignedTo: 'nurse-1', assignmentReason: 'Speaks Spanish' }} staff={staff} />);
+      expect(screen.getByText('Nurse One')).toBeInTheDocument();
+      expect(screen.getByText(/Speaks Spanish/)).toBeInTheDocument();
+    });
+
+    it('assigns the task with its id', () => {
+      const onAssign = vi.fn();
+      render(<TaskCard rules={TASK_RULES} task={baseTask} staff={staff} onAssign={onAssign} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Assign' }));
+      fireEvent.change(screen.getByLabelText('Assign to'), { target: { value: 'nurse-1' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save Assignment' }));
+
+      expect(onAssign).toHaveBeenCalledWith('task-1', 'nurse-1', undefined);
+    });
+
+    it('does not offer assignment on completed tasks', () => {
+      render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, status: 'completed' }} onAssign={vi.fn()} />);
+      expect(screen.queryByRole('button', { name: 'Assign' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('closing and reopening', () => {
+    const cancellation = {
+      action: 'cancelled' as const,
+      reason: 'readmitted' as const,
+      note: 'Back in ED',
+      fromStatus: 'pending' as const,
+      changedAt: new Date('2024-01-15T10:00:00'),
+      changedBy: 'Nurse Smith',
+    };
+
+    it('closes an open task with its id', () => {
+      const onCloseTask = vi.fn();
+      render(<TaskCard rules={TASK_RULES} task={baseTask} onCloseTask={onCloseTask} onReopen={vi.fn()} />);
+
+      expect(screen.queryByRole('button', { name: 'Reopen' })).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Close Task' }));
+      fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'opted_out' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Close Task' }));
+
+      expect(onCloseTask).toHaveBeenCalledWith('task-1', { action: 'cancelled', reason: 'opted_out', note: undefined });
+    });
+
+    it('shows why a task was closed and offers to reopen it', () => {
+      const onReopen = vi.fn();
+      const task: Task = { ...baseTask, status: 'cancelled', statusChanges: [cancellation] };
+      render(<TaskCard rules={TASK_RULES} task={task} onCloseTask={vi.fn()} onReopen={onReopen} onAssign={vi.fn()} />);
+
+      expect(screen.getByText('Cancelled')).toBeInTheDocument();
+      expect(screen.getByText('Patient readmitted')).toBeInTheDocument();
+      expect(screen.getByText('(Back in ED)')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Assign' })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Reopen' }));
+      fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'closed_in_error' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Reopen Task' }));
+
+      expect(onReopen).toHaveBeenCalledWith('task-1', { action: 'reopened', reason: 'closed_in_error', note: undefined });
+    });
+
+    it('shows that an open task was reopened', () => {
+      const reopening = { ...cancellation, action: 'reopened' as const, reason: 'closed_in_error' as const, note: undefined };
+      render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, statusChanges: [cancellation, reopening] }} />);
+
+      expect(screen.getByText('Reopened:')).toBeInTheDocument();
+      expect(screen.getByText('Closed in error')).toBeInTheDocument();
+      expect(screen.queryByText('Patient readmitted')).not.toBeInTheDocument();
+    });
+  });
+
+  it('shows the latest escalation level on open tasks only', () => {
+    const escalations = [
+      { level: 1, notify: 'assignee' as const, recipients: [], escalatedAt: new Date('2026-01-15T04:00:00') },
+      { level: 2, notify: 'charge_nurse' as const, recipients: [], escalatedAt: new Date('2026-01-15T10:00:00') },
+    ];
+    const { rerender } = render(<TaskCard rules={TASK_RULES} task={{ ...baseTask, escalations }} />);
+    expect(screen.getByText('Level 2')).toBeInTheDocument();
+    expect(screen.getByText('Charge nurse')).toBeInTheDocument();
+
+    rerender(<TaskCard rules={TASK_RULES} task={{ ...baseTask, status: 'completed', escalations }} />);
+    expect(screen.queryByText('Level 2')).not.toBeInTheDocument();
+  });
+
   it('shows completed info when task is completed', () => {
     const task: Task = {
       ...baseTask,
@@ -93,20 +281,39 @@ describe('TaskCard', () => {
       completedAt: new Date('2024-01-15T14:30:00'),
       completedBy: 'John Doe',
     };
-    render(<TaskCard task={task} />);
+    render(<TaskCard rules={TASK_RULES} task={task} />);
     expect(screen.getByText('Completed:')).toBeInTheDocument();
     expect(screen.getByText(/by John Doe/)).toBeInTheDocument();
   });
 
-  it('shows notes when present', () => {
-    const task: Task = { ...baseTask, notes: 'Called patient, left voicemail' };
-    render(<TaskCard task={task} />);
+  it('shows the note thread when notes are present', () => {
+    const task: Task = {
+      ...baseTask,
+      notes: [{ id: 'note-1', text: 'Called patient, left voicemail', author: 'Nurse Smith', createdAt: new Date('2024-01-15T10:00:00') }],
+    };
+    render(<TaskCard rules={TASK_RULES} task={task} />);
     expect(screen.getByText('Notes:')).toBeInTheDocument();
     expect(screen.getByText('Called patient, left voicemail')).toBeInTheDocument();
+    expect(screen.getByText('Nurse Smith')).toBeInTheDocument();
+  });
+
+  it('adds a note with the task id', () => {
+    const onAddNote = vi.fn();
+    render(<TaskCard rules={TASK_RULES} task={baseTask} onAddNote={onAddNote} />);
+
+    fireEvent.change(screen.getByLabelText('Add a note'), { target: { value: 'Pharmacy closed' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Note' }));
+
+    expect(onAddNote).toHaveBeenCalledWith('task-1', 'Pharmacy closed');
+  });
+
+  it('hides the notes section when there are no notes and no add handler', () => {
+    render(<TaskCard rules={TASK_RULES} task={baseTask} />);
+    expect(screen.queryByText('Notes:')).not.toBeInTheDocument();
   });
 
   it('accepts custom className', () => {
-    render(<TaskCard task={baseTask} className="custom-class" data-testid="task-card" />);
+    render(<TaskCard rules={TASK_RULES} task={baseTask} className="custom-class" data-testid="task-card" />);
     expect(screen.getByTestId('task-card')).toHaveClass('task-card', 'custom-class');
   });
 });
@@ -1,39 +1,150 @@
-import { HTMLAttributes } from 'react';
+import { HTMLAttributes, FormEvent, useState } from 'react';
 import { Card, CardHeader, CardBody, CardFooter } from './Card';
 import { Button } from './Button';
+import { Badge } from './Badge';
 import { TaskStatusBadge } from './TaskStatusBadge';
-import type { Task, TaskType } from '@shared/types';
+import { NoteThread } from './NoteThread';
+import { AssignmentForm } from './AssignmentForm';
+import { StatusChangeForm } from './StatusChangeForm';
+import type { TaskStatusChangeDraft } from './StatusChangeForm';
+import { getTaskTypeLabel } from '@shared/taskRules';
+import { isOutreachTask, hasSuccessfulContact, isOpenTask, TASK_STATUS_CHANGE_REASON_LABELS } from '@shared/taskEngine';
+import { ESCALATION_RECIPIENT_LABELS } from '@shared/escalation';
+import { CONTACT_CHANNELS, CONTACT_OUTCOMES, DEFAULT_TIME_ZONE } from '@shared/types';
+import type {
+  Task,
+  TaskNote,
+  TaskRule,
+  TaskStatusChange,
+  ContactAttemptInput,
+  ContactChannel,
+  ContactOutcome,
+  User,
+} from '@shared/types';
+
+/**
+ * A contact attempt as entered on the card; the caller records who made it.
+ */
+export type ContactAttemptDraft = Omit<ContactAttemptInput, 'attemptedBy'>;
 
 interface TaskCardProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
   task: Task;
+  /** The active task rules, used to name the task's type. */
+  rules: TaskRule[];
+  /** The facility's time zone, in which times are shown (defaults to DEFAULT_TIME_ZONE). */
+  timeZone?: string;
   onComplete?: (taskId: string) => void;
+  onLogContact?: (taskId: string, attempt: ContactAttemptDraft) => void;
+  onAddNote?: (taskId: string, text: string) => void;
+  onEditNote?: (taskId: string, noteId: string, text: string) => void;
+  onRedactNote?: (taskId: string, noteId: string, reason: string) => void;
+  onAssign?: (taskId: string, assignedTo: string | null, reason?: string) => void;
+  /** Offered on open tasks: cancel or mark not applicable. */
+  onCloseTask?: (taskId: string, change: TaskStatusChangeDraft) => void;
+  /** Offered on completed and closed tasks. */
+  onReopen?: (taskId: string, change: TaskStatusChangeDraft) => void;
+  /** Staff who can be given the task; also used to show the owner's name. */
+  staff?: User[];
+  /** Whether the Edit action is offered on a note (defaults to every note). */
+  canEditNote?: (note: TaskNote) => boolean;
+  /** Prefills the destination when logging an attempt (e.g. the patient's phone). */
+  defaultDestination?: string;
 }
 
-const taskTypeLabels: Record<TaskType, string> = {
-  contact_patient: 'Contact Patient',
-  medication_reconciliation: 'Medication Reconciliation',
-  followup_scheduling: 'Confirm Followup Scheduling',
-  facility_handoff: 'Facility Handoff Confirmation',
-  checkin_call: '48hr Check-in Call',
+const CHANNEL_LABELS: Record<ContactChannel, string> = {
+  phone: 'Phone',
+  sms: 'SMS',
+  email: 'Email',
+};
+
+const OUTCOME_LABELS: Record<ContactOutcome, string> = {
+  reached: 'Reached',
+  voicemail: 'Left voicemail',
+  no_answer: 'No answer',
+  wrong_number: 'Wrong number',
+  refused: 'Refused',
 };
 
-function formatDate(date: Date): string {
+const STATUS_CHANGE_LABELS: Record<TaskStatusChange['action'], string> = {
+  cancelled: 'Cancelled:',
+  not_applicable: 'Not applicable:',
+  reopened: 'Reopened:',
+};
+
+function formatDate(date: Date, timeZone: string): string {
   return new Intl.DateTimeFormat('en-US', {
     month: 'short',
     day: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
+    timeZone,
   }).format(date);
 }
 
-export function TaskCard({ task, onComplete, className = '', ...props }: TaskCardProps) {
+export function TaskCard({
+  task,
+  rules,
+  timeZone = DEFAULT_TIME_ZONE,
+  onComplete,
+  onLogContact,
+  onAddNote,
+  onEditNote,
+  onRedactNote,
+  onAssign,
+  onCloseTask,
+  onReopen,
+  staff = [],
+  canEditNote,
+  defaultDestination = '',
+  className = '',
+  ...props
+}: TaskCardProps) {
+  const [logging, setLogging] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+  const [changingStatus, setChangingStatus] = useState(false);
+  const [channel, setChannel] = useState<ContactChannel>('phone');
+  const [outcome, setOutcome] = useState<ContactOutcome>('reached');
+  const [destination, setDestination] = useState(defaultDestination);
+
   const isCompletable = task.status === 'pending' || task.status === 'overdue';
+  const isOutreach = isOutreachTask(task);
+  const needsContact = isOutreach && !hasSuccessfulContact(task);
+  const attempts = task.contactAttempts ?? [];
+  const notes = task.notes ?? [];
+  const isOpen = isOpenTask(task);
+  const canLogContact = isOutreach && onLogContact && isOpen;
+  const canAssign = onAssign && isOpen;
+  const onChangeStatus = isOpen ? onCloseTask : onReopen;
+  const showFooter = (isCompletable && onComplete) || canLogContact || canAssign || onChangeStatus;
+  const assignee = staff.find(member => member.id === task.assignedTo);
+  const assigneeName = task.assignedTo && (assignee?.displayName ?? task.assignedTo);
+  const escalation = isOpen ? task.escalations?.[task.escalations.length - 1] : undefined;
+  // The latest close or reopen, while it still explains the task's status
+  const latestChange = task.statusChanges?.[task.statusChanges.length - 1];
+  const explainsStatus = latestChange?.action === 'reopened' ? isOpen : latestChange?.action === task.status;
+  const statusChange = explainsStatus ? latestChange : undefined;
+
+  const handleLogSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onLogContact?.(task.id, { channel, destination, outcome });
+    setLogging(false);
+  };
+
+  const handleAssign = (assignedTo: string | null, reason?: string) => {
+    onAssign?.(task.id, assignedTo, reason);
+    setAssigning(false);
+  };
+
+  const handleChangeStatus = (change: TaskStatusChangeDraft) => {
+    onChangeStatus?.(task.id, change);
+    setChangingStatus(false);
+  };
 
   return (
     <Card className={`task-card ${className}`.trim()} {...props}>
       <CardHeader>
         <div className="task-card__header">
-          <span className="task-card__type">{taskTypeLabels[task.type]}</span>
+          <span className="task-card__type">{getTaskTypeLabel(task.type, rules)}</span>
           <TaskStatusBadge status={task.status} />
         </div>
       </CardHeader>
@@ -42,35 +153,177 @@ export function TaskCard({ task, onComplete, className = '', ...props }: TaskCar
           <div className="task-card__due">
             <span className="task-card__label">Due:</span>
             <span className="task-card__value">
-              {formatDate(task.dueStart)} - {formatDate(task.dueEnd)}
+              {formatDate(task.dueStart, timeZone)} - {formatDate(task.dueEnd, timeZone)}
             </span>
+            {task.dischargeTimeUnknown && (
+              <Badge
+                variant="warning"
+                className="task-card__time-unknown"
+                title="Discharge time was not recorded; the window assumes midnight on the discharge date"
+              >
+                Time unknown
+              </Badge>
+            )}
           </div>
+          {(assigneeName || isOpen) && (
+            <div className="task-card__assignee">
+              <span className="task-card__label">Assigned to:</span>
+              <span className="task-card__value">{assigneeName || 'Unassigned'}</span>
+              {task.assignmentReason && (
+                <span className="task-card__by"> ({task.assignmentReason})</span>
+              )}
+            </div>
+          )}
+          {escalation && (
+            <div className="task-card__escalation">
+              <span className="task-card__label">Escalated:</span>
+              <Badge variant="danger">Level {escalation.level}</Badge>
+              <span className="task-card__value">{ESCALATION_RECIPIENT_LABELS[escalation.notify]}</span>
+              <span className="task-card__by"> {formatDate(escalation.escalatedAt, timeZone)}</span>
+            </div>
+          )}
           {task.completedAt && (
             <div className="task-card__completed">
               <span className="task-card__label">Completed:</span>
-              <span className="task-card__value">{formatDate(task.completedAt)}</span>
+              <span className="task-card__value">{formatDate(task.completedAt, timeZone)}</span>
               {task.completedBy && (
                 <span className="task-card__by"> by {task.completedBy}</span>
               )}
             </div>
           )}
-          {task.notes && (
+          {statusChange && (
+            <div className="task-card__status-change">
+              <span className="task-card__label">{STATUS_CHANGE_LABELS[statusChange.action]}</span>
+              <span className="task-card__value">{TASK_STATUS_CHANGE_REASON_LABELS[statusChange.reason]}</span>
+              {statusChange.note && <span className="task-card__value">({statusChange.note})</span>}
+              <span className="task-card__by">
+                {formatDate(statusChange.changedAt, timeZone)} by {statusChange.changedBy}
+              </span>
+            </div>
+          )}
+          {attempts.length > 0 && (
+            <div className="task-card__contacts">
+              <span className="task-card__label">Contact attempts:</span>
+              <ul className="task-card__contact-list">
+                {attempts.map(attempt => (
+                  <li key={attempt.id} className="task-card__contact">
+                    <span className="task-card__value">
+                      {formatDate(attempt.attemptedAt, timeZone)} · {CHANNEL_LABELS[attempt.channel]} {attempt.destination}
+                    </span>
+                    <Badge variant={attempt.outcome === 'reached' ? 'success' : 'default'}>
+                      {OUTCOME_LABELS[attempt.outcome]}
+                    </Badge>
+                    <span className="task-card__by">by {attempt.attemptedBy}</span>
+                    {attempt.notes && <span className="task-card__contact-notes">{attempt.notes}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {(notes.length > 0 || onAddNote) && (
             <div className="task-card__notes">
               <span className="task-card__label">Notes:</span>
-              <span className="task-card__value">{task.notes}</span>
+              <NoteThread
+                notes={notes}
+                onAdd={onAddNote && ((text) => onAddNote(task.id, text))}
+                onEdit={onEditNote && ((noteId, text) => onEditNote(task.id, noteId, text))}
+                onRedact={onRedactNote && ((noteId, reason) => onRedactNote(task.id, noteId, reason))}
+                canEditNote={canEditNote}
+                timeZone={timeZone}
+              />
             </div>
           )}
         </div>
       </CardBody>
-      {isCompletable && onComplete && (
+      {showFooter && (
         <CardFooter>
-          <Button
-            variant="primary"
-            size="sm"
-            onClick={() => onComplete(task.id)}
-          >
-            Mark Complete
-          </Button>
+          {changingStatus ? (
+            <StatusChangeForm
+              mode={isOpen ? 'close' : 'reopen'}
+              onSave={handleChangeStatus}
+              onCancel={() => setChangingStatus(false)}
+            />
+          ) : assigning ? (
+            <AssignmentForm
+              staff={staff}
+              currentAssignee={task.assignedTo}
+              onAssign={handleAssign}
+              onCancel={() => setAssigning(false)}
+            />
+          ) : logging ? (
+            <form className="task-card__contact-form" onSubmit={handleLogSubmit}>
+              <label className="task-card__field">
+                <span className="task-card__label">Channel</span>
+                <select
+                  className="task-card__input"
+                  value={channel}
+                  onChange={(e) => setChannel(e.target.value as ContactChannel)}
+                >
+                  {CONTACT_CHANNELS.map(value => (
+                    <option key={value} value={value}>{CHANNEL_LABELS[value]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="task-card__field">
+                <span className="task-card__label">Number or email</span>
+                <input
+                  className="task-card__input"
+                  value={destination}
+                  onChange={(e) => setDestination(e.target.value)}
+                  required
+                />
+              </label>
+              <label className="task-card__field">
+                <span className="task-card__label">Outcome</span>
+                <select
+                  className="task-card__input"
+                  value={outcome}
+                  onChange={(e) => setOutcome(e.target.value as ContactOutcome)}
+                >
+                  {CONTACT_OUTCOMES.map(value => (
+                    <option key={value} value={value}>{OUTCOME_LABELS[value]}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="task-card__actions">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setLogging(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="primary" size="sm">
+                  Save Attempt
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div className="task-card__actions">
+              {onChangeStatus && (
+                <Button variant="ghost" size="sm" onClick={() => setChangingStatus(true)}>
+                  {isOpen ? 'Close Task' : 'Reopen'}
+                </Button>
+              )}
+              {canAssign && (
+                <Button variant="ghost" size="sm" onClick={() => setAssigning(true)}>
+                  {task.assignedTo ? 'Reassign' : 'Assign'}
+                </Button>
+              )}
+              {canLogContact && (
+                <Button variant="secondary" size="sm" onClick={() => setLogging(true)}>
+                  Log Attempt
+                </Button>
+              )}
+              {isCompletable && onComplete && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => onComplete(task.id)}
+                  disabled={needsContact}
+                  title={needsContact ? 'Log a successful contact before completing this task' : undefined}
+                >
+                  Mark Complete
+                </Button>
+              )}
+            </div>
+          )}
         </CardFooter>
       )}
     </Card>
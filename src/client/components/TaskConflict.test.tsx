@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TaskConflict } from './TaskConflict';
+import { TASK_RULES } from '@shared/types';
+import type { Task } from '@shared/types';
+
+const task: Task = {
+  id: 'task-1',
+  patientId: 'patient-1',
+  type: 'contact_patient',
+  status: 'pending',
+  dueStart: new Date('2024-01-15T09:00:00'),
+  dueEnd: new Date('2024-01-15T17:00:00'),
+};
+
+const staff = [{ id: 'nurse-2', displayName: 'Nurse Two', role: 'nurse' as const }];
+
+describe('TaskConflict', () => {
+  it('lists what the other change did, by name', () => {
+    const current: Task = {
+      ...task,
+      version: 3,
+      status: 'completed',
+      completedAt: new Date('2024-01-15T12:00:00'),
+      completedBy: 'nurse-2',
+      assignedTo: 'nurse-2',
+      contactAttempts: [{
+        id: 'attempt-1',
+        attemptedAt: new Date('2024-01-15T11:00:00'),
+        channel: 'phone',
+        destination: '555-0100',
+        outcome: 'no_answer',
+        attemptedBy: 'nurse-9',
+      }],
+    };
+    render(
+      <TaskConflict rules={TASK_RULES} task={task} current={current} message="Could not add note" staff={staff} onRetry={vi.fn()} onDismiss={vi.fn()} />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not add note: Contact Patient was changed by someone else first.');
+    expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+      'Completed by Nurse Two',
+      'nurse-9 logged a contact attempt (no answer)',
+      'Assigned to Nurse Two',
+    ]);
+  });
+
+  it('describes note edits and redactions', () => {
+    const note = { id: 'note-1', text: 'Original', author: 'nurse-2', createdAt: new Date('2024-01-15T10:00:00') };
+    const other = { ...note, id: 'note-2', text: 'Other' };
+    const current: Task = {
+      ...task,
+      notes: [{ ...note, text: 'Revised' }, { ...other, text: '', redacted: true }],
+    };
+    render(
+      <TaskConflict
+        rules={TASK_RULES}
+        task={{ ...task, notes: [note, other] }}
+        current={current}
+        message="Could not complete task"
+        staff={staff}
+        onRetry={vi.fn()}
+        onDismiss={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Nurse Two edited a note: "Revised"')).toBeInTheDocument();
+    expect(screen.getByText('A note by Nurse Two was redacted')).toBeInTheDocument();
+  });
+
+  it('offers to apply the change again or discard it', () => {
+    const onRetry = vi.fn();
+    const onDismiss = vi.fn();
+    render(
+      <TaskConflict rules={TASK_RULES} task={task} current={{ ...task, version: 1 }} message="Could not complete task" onRetry={onRetry} onDismiss={onDismiss} />
+    );
+
+    expect(screen.getByText('The task was updated')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Apply My Change Again' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Discard My Change' }));
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+});
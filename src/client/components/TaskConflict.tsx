@@ -0,0 +1,112 @@
+import { HTMLAttributes } from 'react';
+import { Card, CardBody } from './Card';
+import { Button } from './Button';
+import { getTaskTypeLabel } from '@shared/taskRules';
+import { TASK_STATUS_CHANGE_REASON_LABELS } from '@shared/taskEngine';
+import type { Task, TaskRule, TaskStatusChangeAction, User } from '@shared/types';
+
+interface TaskConflictProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  /** The copy of the task the refused change was based on. */
+  task: Task;
+  /** The task as it is now. */
+  current: Task;
+  /** What could not be done, e.g. "Could not complete task". */
+  message: string;
+  /** The active task rules, used to name the task's type. */
+  rules: TaskRule[];
+  /** Used to show people by name. */
+  staff?: User[];
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_CHANGE_DESCRIPTIONS: Record<TaskStatusChangeAction, string> = {
+  cancelled: 'Cancelled',
+  not_applicable: 'Marked not applicable',
+  reopened: 'Reopened',
+};
+
+/**
+ * List, in plain words, what changed on a task between two copies of it.
+ */
+function describeChanges(task: Task, current: Task, nameOf: (userId?: string) => string): string[] {
+  const changes: string[] = [];
+
+  if (current.completedAt && !task.completedAt) {
+    changes.push(`Completed by ${nameOf(current.completedBy)}`);
+  }
+
+  for (const change of (current.statusChanges ?? []).slice(task.statusChanges?.length ?? 0)) {
+    const reason = TASK_STATUS_CHANGE_REASON_LABELS[change.reason];
+    changes.push(`${STATUS_CHANGE_DESCRIPTIONS[change.action]} by ${nameOf(change.changedBy)} (${reason})`);
+  }
+
+  const notes = new Map((task.notes ?? []).map((note) => [note.id, note]));
+  for (const note of current.notes ?? []) {
+    const previous = notes.get(note.id);
+    if (!previous) {
+      changes.push(note.redacted
+        ? `${nameOf(note.author)} added a note (since redacted)`
+        : `${nameOf(note.author)} added a note: "${note.text}"`);
+    } else if (note.redacted && !previous.redacted) {
+      changes.push(`A note by ${nameOf(note.author)} was redacted`);
+    } else if (note.text !== previous.text) {
+      changes.push(`${nameOf(note.author)} edited a note: "${note.text}"`);
+    }
+  }
+
+  for (const attempt of (current.contactAttempts ?? []).slice(task.contactAttempts?.length ?? 0)) {
+    changes.push(`${nameOf(attempt.attemptedBy)} logged a contact attempt (${attempt.outcome.replace('_', ' ')})`);
+  }
+
+  if (current.assignedTo !== task.assignedTo) {
+    changes.push(current.assignedTo ? `Assigned to ${nameOf(current.assignedTo)}` : 'Unassigned');
+  }
+
+  for (const escalation of (current.escalations ?? []).slice(task.escalations?.length ?? 0)) {
+    changes.push(`Escalated to level ${escalation.level}`);
+  }
+
+  return changes.length > 0 ? changes : ['The task was updated'];
+}
+
+/**
+ * Explains that a change was refused because someone else changed the task
+ * first, shows what they changed, and offers to apply the change again on top.
+ */
+export function TaskConflict({
+  task,
+  current,
+  message,
+  rules,
+  staff = [],
+  onRetry,
+  onDismiss,
+  className = '',
+  ...props
+}: TaskConflictProps) {
+  const nameOf = (userId?: string) => staff.find((member) => member.id === userId)?.displayName ?? userId ?? 'Someone';
+
+  return (
+    <Card className={`task-conflict ${className}`.trim()} role="alert" {...props}>
+      <CardBody>
+        <p className="task-conflict__title">
+          {message}: {getTaskTypeLabel(current.type, rules)} was changed by someone else first.
+        </p>
+        <ul className="task-conflict__changes">
+          {describeChanges(task, current, nameOf).map((change) => (
+            <li key={change}>{change}</li>
+          ))}
+        </ul>
+        <div className="task-conflict__actions">
+          <Button variant="primary" size="sm" onClick={onRetry}>
+            Apply My Change Again
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onDismiss}>
+            Discard My Change
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -43,6 +43,16 @@ describe('TaskStatusBadge', () => {
     expect(screen.getByTestId('badge')).toHaveClass('badge--info');
   });
 
+  it('renders closed statuses with the default variant', () => {
+    const { rerender } = render(<TaskStatusBadge status="cancelled" data-testid="badge" />);
+    expect(screen.getByText('Cancelled')).toBeInTheDocument();
+    expect(screen.getByTestId('badge')).toHaveClass('badge--default');
+
+    rerender(<TaskStatusBadge status="not_applicable" data-testid="badge" />);
+    expect(screen.getByText('Not Applicable')).toBeInTheDocument();
+    expect(screen.getByTestId('badge')).toHaveClass('badge--default');
+  });
+
   it('accepts custom className', () => {
     render(<TaskStatusBadge status="pending" className="custom-class" data-testid="badge" />);
     expect(screen.getByTestId('badge')).toHaveClass('custom-class');
@@ -1,5 +1,6 @@
 import { HTMLAttributes } from 'react';
 import { Badge, BadgeVariant } from './Badge';
+import { TASK_STATUS_LABELS } from '@shared/taskEngine';
 import type { TaskStatus } from '@shared/types';
 
 interface TaskStatusBadgeProps extends Omit<HTMLAttributes<HTMLSpanElement>, 'children'> {
@@ -11,19 +12,14 @@ const statusVariantMap: Record<TaskStatus, BadgeVariant> = {
   completed: 'success',
   overdue: 'danger',
   upcoming: 'info',
-};
-
-const statusLabelMap: Record<TaskStatus, string> = {
-  pending: 'Pending',
-  completed: 'Completed',
-  overdue: 'Overdue',
-  upcoming: 'Upcoming',
+  cancelled: 'default',
+  not_applicable: 'default',
 };
 
 export function TaskStatusBadge({ status, className = '', ...props }: TaskStatusBadgeProps) {
   return (
     <Badge variant={statusVariantMap[status]} className={className} {...props}>
-      {statusLabelMap[status]}
+      {TASK_STATUS_LABELS[status]}
     </Badge>
   );
 }
@@ -3,6 +3,14 @@ export { Card, CardHeader, CardBody, CardFooter } from './Card';
 export { Badge, type BadgeVariant } from './Badge';
 export { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from './Table';
 export { TaskStatusBadge } from './TaskStatusBadge';
-export { TaskCard } from './TaskCard';
+export { TaskCard, type ContactAttemptDraft } from './TaskCard';
+export { NoteThread } from './NoteThread';
+export { AssignmentForm } from './AssignmentForm';
+export { StatusChangeForm, type TaskStatusChangeDraft } from './StatusChangeForm';
+export { AdmissionForm, DischargeForm } from './EncounterForm';
+export { EncounterTimeline } from './EncounterTimeline';
+export { MappingProfileEditor } from './MappingProfileEditor';
 export { PatientHeader } from './PatientHeader';
 export { PatientCard } from './PatientCard';
+export { StatusMessage } from './StatusMessage';
+export { TaskConflict } from './TaskConflict';
@@ -1,2 +1,6 @@
 // Custom React hooks
 // Export hooks from this file as they are created
+export { RepositoryContext, useRepository } from './useRepository';
+export { useAsyncData, type AsyncData } from './useAsyncData';
+export { AuthContext, useAuth, type Auth, type AuthState } from './useAuth';
+export { useLiveUpdates, useLiveData } from './useLiveUpdates';
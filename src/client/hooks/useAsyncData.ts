@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface AsyncDataState<T> {
+  data: T | undefined;
+  error: Error | null;
+}
+
+export interface AsyncData<T> {
+  data: T | undefined;
+  error: Error | null;
+  loading: boolean;               // True until the first load settles
+  reload: () => void;             // Re-run the loader, keeping current data on screen
+}
+
+/**
+ * Load data asynchronously and track loading and error state.
+ * The loader should be memoized (useCallback) so it only re-runs when its inputs change.
+ */
+export function useAsyncData<T>(loader: () => Promise<T>): AsyncData<T> {
+  const [state, setState] = useState<AsyncDataState<T>>({ data: undefined, error: null });
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loader().then(
+      (data) => {
+        if (!cancelled) setState({ data, error: null });
+      },
+      (error: unknown) => {
+        if (!cancelled) {
+          setState((prev) => ({
+            data: prev.data,
+            error: error instanceof Error ? error : new Error(String(error)),
+          }));
+        }
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loader, reloadToken]);
+
+  const reload = useCallback(() => {
+    setState((prev) => ({ ...prev, error: null }));
+    setReloadToken((token) => token + 1);
+  }, []);
+
+  return {
+    data: state.data,
+    error: state.error,
+    loading: state.data === undefined && state.error === null,
+    reload,
+  };
+}
@@ -0,0 +1,32 @@
+import { createContext, useContext } from 'react';
+import { hasPermission } from '@shared/auth';
+import type { Permission, User } from '@shared/types';
+
+export interface AuthState {
+  user: User;
+  logout: () => void;
+}
+
+export interface Auth extends AuthState {
+  can: (permission: Permission) => boolean;
+}
+
+/**
+ * Provides the signed-in user to views. The app renders views only once
+ * someone has signed in, so there is no default.
+ */
+export const AuthContext = createContext<AuthState | null>(null);
+
+/**
+ * Get the signed-in user and check their permissions.
+ */
+export function useAuth(): Auth {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used inside an AuthContext provider');
+  }
+  return {
+    ...auth,
+    can: (permission) => hasPermission(auth.user.role, permission),
+  };
+}
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import type { LiveUpdate } from '@shared/types';
+import { useAsyncData, type AsyncData } from './useAsyncData';
+import { useRepository } from './useRepository';
+
+/**
+ * Call a listener with each live update while the component is mounted.
+ * The listener may change between renders without resubscribing.
+ */
+export function useLiveUpdates(listener: (update: LiveUpdate) => void): void {
+  const repository = useRepository();
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => repository.subscribe((update) => listenerRef.current(update)), [repository]);
+}
+
+/**
+ * Like useAsyncData, but reloads whenever a live update arrives so changes made
+ * elsewhere (and statuses that change with time) show without a refresh.
+ */
+export function useLiveData<T>(loader: () => Promise<T>): AsyncData<T> {
+  const result = useAsyncData(loader);
+  useLiveUpdates(result.reload);
+  return result;
+}
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+import { defaultRepository, type DischargeRepository } from '../services/repository';
+
+/**
+ * Provides the active data repository to views.
+ * Defaults to the build-time data source; wrap in a Provider to override (e.g. in tests).
+ */
+export const RepositoryContext = createContext<DischargeRepository>(defaultRepository);
+
+/**
+ * Get the active data repository.
+ */
+export function useRepository(): DischargeRepository {
+  return useContext(RepositoryContext);
+}
@@ -0,0 +1,452 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createApiRepository, ApiError } from './apiRepository';
+import { TaskRuleValidationError } from '@shared/taskRules';
+import { TaskConflictError } from '@shared/taskEngine';
+import { MappingProfileValidationError } from '@shared/patientMapping';
+import { BackupValidationError } from '@shared/backup';
+import { DEFAULT_TASK_RULE_SET } from '@shared/types';
+
+const taskJson = {
+  id: 'task-1',
+  patientId: 'MRN001',
+  type: 'contact_patient',
+  status: 'pending',
+  dueStart: '2026-01-14T10:00:00.000Z',
+  dueEnd: '2026-01-15T10:00:00.000Z',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('API repository', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('should fetch tasks and revive dates', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse([taskJson]));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const tasks = await repository.getAllTasks();
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks', expect.any(Object));
+    expect(tasks[0].dueStart).toBeInstanceOf(Date);
+    expect(tasks[0].dueEnd.toISOString()).toBe('2026-01-15T10:00:00.000Z');
+    expect(tasks[0].completedAt).toBeUndefined();
+  });
+
+  it('should filter tasks by patient via query string', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse([]));
+    const repository = createApiRepository('/api', fetchFn);
+
+    await repository.getTasksByPatientId('MRN 1');
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks?patientId=MRN%201', expect.any(Object));
+  });
+
+  it('should strip tasks from the single patient response', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse({ patientId: 'MRN001', patientName: 'John', tasks: [taskJson] }));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const patient = await repository.getPatientById('MRN001');
+
+    expect(patient).toEqual({ patientId: 'MRN001', patientName: 'John' });
+  });
+
+  it('should return null for a missing patient', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse({ error: 'not found' }, 404));
+    const repository = createApiRepository('/api', fetchFn);
+
+    expect(await repository.getPatientById('nope')).toBeNull();
+  });
+
+  it('should PATCH to complete a task', async () => {
+    const fetchFn = vi.fn(async () =>
+      jsonResponse({ ...taskJson, status: 'completed', completedAt: '2026-01-14T12:00:00.000Z', completedBy: 'nurse' })
+    );
+    const repository = createApiRepository('/api', fetchFn);
+
+    const task = await repository.completeTask('task-1', 'nurse');
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks/task-1', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'completed' }),
+    }));
+    expect(task?.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should POST notes and revive their timestamps', async () => {
+    const note = { id: 'note-1', text: 'Called', author: 'nurse', createdAt: '2026-01-14T11:00:00.000Z' };
+    const fetchFn = vi.fn(async () => jsonResponse({ ...taskJson, notes: [note] }, 201));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const task = await repository.addTaskNote('task-1', 'Called', 'nurse');
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks/task-1/notes', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ text: 'Called' }),
+    }));
+    expect(task?.notes?.[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should edit and redact notes by ID', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse(taskJson));
+    const repository = createApiRepository('/api', fetchFn);
+
+    await repository.editTaskNote('task-1', 'note-1', 'Revised', 'nurse');
+    await repository.redactTaskNote('task-1', 'note-1', 'supervisor', 'Wrong chart');
+
+    expect(fetchFn).toHaveBeenNthCalledWith(1, '/api/tasks/task-1/notes/note-1', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ text: 'Revised' }),
+    }));
+    expect(fetchFn).toHaveBeenNthCalledWith(2, '/api/tasks/task-1/notes/note-1/redact', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ reason: 'Wrong chart' }),
+    }));
+  });
+
+  it('should POST contact attempts and revive their timestamps', async () => {
+    const attempt = {
+      id: 'attempt-1',
+      attemptedAt: '2026-01-14T11:00:00.000Z',
+      channel: 'phone',
+      destination: '555-0100',
+      outcome: 'reached',
+      attemptedBy: 'nurse',
+    };
+    const fetchFn = vi.fn(async () => jsonResponse({ ...taskJson, contactAttempts: [attempt] }, 201));
+    const repository = createApiRepository('/api', fetchFn);
+    const input = { channel: 'phone', destination: '555-0100', outcome: 'reached' } as const;
+
+    const task = await repository.logContactAttempt('task-1', { ...input, attemptedBy: 'nurse' });
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks/task-1/contact-attempts', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify(input),
+    }));
+    expect(task?.contactAttempts?.[0].attemptedAt).toBeInstanceOf(Date);
+  });
+
+  it('should POST status changes and revive their timestamps', async () => {
+    const change = {
+      action: 'cancelled',
+      reason: 'readmitted',
+      fromStatus: 'pending',
+      changedAt: '2026-01-14T11:00:00.000Z',
+      changedBy: 'nurse',
+    };
+    const fetchFn = vi.fn(async () => jsonResponse({ ...taskJson, status: 'cancelled', statusChanges: [change] }, 201));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const task = await repository.changeTaskStatus('task-1', { action: 'cancelled', reason: 'readmitted', changedBy: 'nurse' });
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks/task-1/status-changes', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ action: 'cancelled', reason: 'readmitted' }),
+    }));
+    expect(task?.statusChanges?.[0].changedAt).toBeInstanceOf(Date);
+  });
+
+  it('should PUT assignments and revive the assignment time', async () => {
+    const assigned = { ...taskJson, assignedTo: 'nurse-2', assignedAt: '2026-01-14T11:00:00.000Z' };
+    const fetchFn = vi.fn(async () => jsonResponse(assigned))
+      .mockImplementationOnce(async () => jsonResponse(assigned))
+      .mockImplementationOnce(async () => jsonResponse([assigned]));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const task = await repository.assignTask('task-1', 'nurse-2', 'supervisor', 'Covering');
+    await repository.assignPatientTasks('MRN001', null, 'supervisor', 'Discharged elsewhere');
+
+    expect(task?.assignedAt).toBeInstanceOf(Date);
+    expect(fetchFn).toHaveBeenNthCalledWith(1, '/api/tasks/task-1/assignee', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ assignedTo: 'nurse-2', reason: 'Covering' }),
+    }));
+    expect(fetchFn).toHaveBeenNthCalledWith(2, '/api/patients/MRN001/assignee', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ assignedTo: null, reason: 'Discharged elsewhere' }),
+    }));
+  });
+
+  it('should POST the auto-assign strategy', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse([taskJson]));
+    const repository = createApiRepository('/api', fetchFn);
+
+    await repository.autoAssignTasks('round_robin', 'supervisor');
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks/auto-assign', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ strategy: 'round_robin' }),
+    }));
+  });
+
+  it('should POST readmissions and discharges to the patient\'s encounters', async () => {
+    const encounter = {
+      id: 'MRN001-2',
+      patientId: 'MRN001',
+      admissionDate: '2026-01-20',
+      dischargeDate: null,
+      dischargeTime: null,
+      dischargeDisposition: null,
+      primaryDiagnosis: 'Sepsis',
+    };
+    const fetchFn = vi.fn(async () => jsonResponse(encounter, 201));
+    const repository = createApiRepository('/api', fetchFn);
+
+    await repository.recordAdmission('MRN001', { admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' }, 'nurse');
+    await repository.recordDischarge(
+      'MRN001',
+      'MRN001-2',
+      { dischargeDate: '2026-01-24', dischargeTime: null, dischargeDisposition: 'Home' },
+      'nurse'
+    );
+
+    expect(fetchFn).toHaveBeenNthCalledWith(1, '/api/patients/MRN001/encounters', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' }),
+    }));
+    expect(fetchFn).toHaveBeenNthCalledWith(2, '/api/patients/MRN001/encounters/MRN001-2/discharge', expect.objectContaining({
+      method: 'POST',
+    }));
+  });
+
+  it('should POST patient CSVs as text', async () => {
+    const summary = { added: ['MRN002'], updated: [], unchanged: ['MRN001'], skippedRows: [] };
+    const fetchFn = vi.fn(async () => jsonResponse(summary));
+    const repository = createApiRepository('/api', fetchFn);
+    const csv = 'patient_id,patient_name\nMRN001,Test';
+
+    expect(await repository.importPatients(csv, 'supervisor')).toEqual(summary);
+    expect(fetchFn).toHaveBeenCalledWith('/api/patients/import', expect.objectContaining({
+      method: 'POST',
+      body: csv,
+      headers: expect.objectContaining({ 'Content-Type': 'text/csv' }),
+    }));
+
+    await repository.importPatients(csv, 'supervisor', 'ehr export');
+    expect(fetchFn).toHaveBeenLastCalledWith('/api/patients/import?profile=ehr%20export', expect.any(Object));
+  });
+
+  it('should save mapping profiles and surface validation details as MappingProfileValidationError', async () => {
+    const profile = { id: 'ehr', name: 'EHR export', columns: {}, valueSynonyms: {} };
+    const fetchFn = vi.fn(async () => jsonResponse(profile))
+      .mockResolvedValueOnce(jsonResponse(profile))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Invalid mapping profile', details: ['name: must be a non-empty string'] }, 400));
+    const repository = createApiRepository('/api', fetchFn);
+
+    expect(await repository.saveMappingProfile(profile)).toEqual(profile);
+    expect(fetchFn).toHaveBeenCalledWith('/api/mapping-profiles/ehr', expect.objectContaining({ method: 'PUT' }));
+
+    const error = await repository.saveMappingProfile({ ...profile, name: '' }).catch((e) => e);
+    expect(error).toBeInstanceOf(MappingProfileValidationError);
+    expect(error.errors).toEqual(['name: must be a non-empty string']);
+  });
+
+  it('should POST backups to restore and surface validation details as BackupValidationError', async () => {
+    const summary = { patients: 1, tasks: 0, encounters: 0, mappingProfiles: 0, auditEntries: 0 };
+    const fetchFn = vi.fn(async () => jsonResponse(summary))
+      .mockResolvedValueOnce(jsonResponse(summary))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Invalid backup', details: ['format: must be "discharge-flow-backup"'] }, 400));
+    const repository = createApiRepository('/api', fetchFn);
+    const backup = {
+      format: 'discharge-flow-backup' as const,
+      version: 1,
+      exportedAt: '2026-02-01T12:00:00.000Z',
+      patients: [],
+      tasks: [],
+      encounters: [],
+      ruleSet: DEFAULT_TASK_RULE_SET,
+      mappingProfiles: [],
+      auditLog: [],
+    };
+
+    expect(await repository.restoreBackup(backup, 'admin')).toEqual(summary);
+    expect(fetchFn).toHaveBeenCalledWith('/api/backup', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify(backup),
+    }));
+
+    const error = await repository.restoreBackup(backup, 'admin').catch((e) => e);
+    expect(error).toBeInstanceOf(BackupValidationError);
+    expect(error.errors).toEqual(['format: must be "discharge-flow-backup"']);
+  });
+
+  it('should fetch escalated tasks and revive escalation times', async () => {
+    const escalation = { level: 1, notify: 'assignee', recipients: ['nurse-1'], escalatedAt: '2026-01-15T04:00:00.000Z' };
+    const fetchFn = vi.fn(async () => jsonResponse([{ ...taskJson, escalations: [escalation] }]));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const [task] = await repository.getEscalatedTasks();
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks/escalated', expect.any(Object));
+    expect(task.escalations?.[0].escalatedAt).toEqual(new Date('2026-01-15T04:00:00.000Z'));
+  });
+
+  it('should return null when completing a missing task', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse({ error: 'not found' }, 404));
+    const repository = createApiRepository('/api', fetchFn);
+
+    expect(await repository.completeTask('missing')).toBeNull();
+  });
+
+  it('should throw ApiError with the server message on conflict', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse({ error: 'Cannot complete a task before its window opens' }, 409));
+    const repository = createApiRepository('/api', fetchFn);
+
+    await expect(repository.completeTask('task-1')).rejects.toMatchObject({
+      name: 'ApiError',
+      status: 409,
+      message: 'Cannot complete a task before its window opens',
+    });
+  });
+
+  it('should send the expected version and throw TaskConflictError with the current task', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse({
+      error: 'Task was changed by someone else (now version 3, expected 2)',
+      task: { ...taskJson, version: 3, assignedTo: 'nurse-2', assignedAt: '2026-01-14T11:00:00.000Z' },
+    }, 412));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const error = await repository.completeTask('task-1', 'nurse-1', 2).catch((e: unknown) => e);
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/tasks/task-1', expect.objectContaining({
+      headers: expect.objectContaining({ 'If-Match': '"2"' }),
+    }));
+    expect(error).toBeInstanceOf(TaskConflictError);
+    expect((error as TaskConflictError).task).toMatchObject({ version: 3, assignedTo: 'nurse-2' });
+    expect((error as TaskConflictError).task.assignedAt).toBeInstanceOf(Date);
+  });
+
+  it('should wrap network failures in ApiError', async () => {
+    const fetchFn = vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    const repository = createApiRepository('/api', fetchFn);
+
+    const error = await repository.getAllPatients().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(0);
+    expect(error.message).toBe('Unable to reach server: Failed to fetch');
+  });
+
+  it('should fetch dashboard stats', async () => {
+    const stats = { totalPatients: 2, pendingTasks: 1, overdueTasks: 0, completedToday: 0, urgentTasks: 1 };
+    const fetchFn = vi.fn(async () => jsonResponse(stats));
+    const repository = createApiRepository('/api', fetchFn);
+
+    expect(await repository.getDashboardStats()).toEqual(stats);
+  });
+
+  it('should PUT task rules and return the saved version', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse({ ...DEFAULT_TASK_RULE_SET, version: 2 }));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const saved = await repository.saveTaskRuleSet(DEFAULT_TASK_RULE_SET, 'admin');
+
+    expect(saved.version).toBe(2);
+    expect(fetchFn).toHaveBeenCalledWith('/api/rules', expect.objectContaining({ method: 'PUT' }));
+  });
+
+  it('should surface rule validation details as TaskRuleValidationError', async () => {
+    const fetchFn = vi.fn(async () =>
+      jsonResponse({ error: 'Invalid task rules', details: ['rules: must be a non-empty array'] }, 400)
+    );
+    const repository = createApiRepository('/api', fetchFn);
+
+    const error = await repository.saveTaskRuleSet({ version: 1, rules: [] }, 'admin').catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskRuleValidationError);
+    expect(error.errors).toEqual(['rules: must be a non-empty array']);
+  });
+
+  it('should fetch the audit log with filters and revive timestamps', async () => {
+    const entry = {
+      id: 'audit_1',
+      at: '2026-01-14T12:00:00.000Z',
+      actor: 'nurse-1',
+      action: 'task.completed',
+      entityType: 'task',
+      entityId: 'task-1',
+      patientId: 'MRN001',
+    };
+    const fetchFn = vi.fn(async () => jsonResponse([entry]));
+    const repository = createApiRepository('/api', fetchFn);
+
+    const entries = await repository.getAuditLog({ patientId: 'MRN001', action: 'task.completed' });
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/audit?patientId=MRN001&action=task.completed', expect.any(Object));
+    expect(entries[0].at).toBeInstanceOf(Date);
+  });
+
+  it('should stream live updates until unsubscribed', async () => {
+    const tick = { type: 'tick', at: '2026-01-14T12:00:00.000Z' };
+    const fetchFn = vi.fn(async () => new Response(`retry: 5000\n\nevent: tick\ndata: ${JSON.stringify(tick)}\n\n`));
+    const repository = createApiRepository('/api', fetchFn);
+    const listener = vi.fn();
+
+    const unsubscribe = repository.subscribe(listener);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ type: 'tick', at: new Date(tick.at) }));
+    unsubscribe();
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/live', expect.objectContaining({
+      headers: expect.objectContaining({ Accept: 'text/event-stream' }),
+    }));
+  });
+
+  describe('sign-in', () => {
+    const user = { id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' };
+
+    it('should send the session token after signing in', async () => {
+      const fetchFn = vi.fn(async (url: string) =>
+        url.endsWith('/auth/login') ? jsonResponse({ token: 'abc123', user }) : jsonResponse([])
+      );
+      const repository = createApiRepository('/api', fetchFn as typeof fetch);
+
+      expect(await repository.login('nurse-1', 'secret-password')).toEqual(user);
+      await repository.getAllPatients();
+
+      expect(fetchFn).toHaveBeenLastCalledWith('/api/patients', expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer abc123' }),
+      }));
+    });
+
+    it('should reject wrong credentials', async () => {
+      const fetchFn = vi.fn(async () => jsonResponse({ error: 'Invalid username or password' }, 401));
+      const repository = createApiRepository('/api', fetchFn);
+
+      await expect(repository.login('nurse-1', 'wrong')).rejects.toMatchObject({
+        status: 401,
+        message: 'Invalid username or password',
+      });
+    });
+
+    it('should report no user without a token or when the session has expired', async () => {
+      const fetchFn = vi.fn(async () => jsonResponse({ error: 'Sign in required' }, 401));
+      const repository = createApiRepository('/api', fetchFn);
+
+      expect(await repository.getCurrentUser()).toBeNull();
+      expect(fetchFn).not.toHaveBeenCalled();
+
+      sessionStorage.setItem('discharge_flow_token', 'expired');
+      expect(await repository.getCurrentUser()).toBeNull();
+      expect(sessionStorage.getItem('discharge_flow_token')).toBeNull();
+    });
+
+    it('should forget the token on logout', async () => {
+      sessionStorage.setItem('discharge_flow_token', 'abc123');
+      const fetchFn = vi.fn(async () => new Response(null, { status: 204 }));
+      const repository = createApiRepository('/api', fetchFn);
+
+      await repository.logout();
+
+      expect(fetchFn).toHaveBeenCalledWith('/api/auth/logout', expect.objectContaining({ method: 'POST' }));
+      expect(sessionStorage.getItem('discharge_flow_token')).toBeNull();
+    });
+  });
+});
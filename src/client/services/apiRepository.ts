@@ -0,0 +1,366 @@
+import type {
+  AuditQuery,
+  BackupRestoreSummary,
+  DashboardStats,
+  Encounter,
+  LiveUpdate,
+  Patient,
+  PatientImportSummary,
+  PatientMappingProfile,
+  PatientWithTasks,
+  Task,
+  TaskRuleSet,
+  User,
+} from '@shared/types';
+import { TaskConflictError, deserializeTask, formatTaskEtag } from '@shared/taskEngine';
+import type { StoredTask } from '@shared/taskEngine';
+import { deserializeAuditEntry } from '@shared/audit';
+import type { StoredAuditEntry } from '@shared/audit';
+import { TaskRuleValidationError } from '@shared/taskRules';
+import { MappingProfileValidationError } from '@shared/patientMapping';
+import { BackupValidationError } from '@shared/backup';
+import type { DataBackup } from '@shared/backup';
+import { deserializeLiveUpdate } from '@shared/liveUpdates';
+import type { DischargeRepository } from './repository';
+
+/**
+ * Error returned by the API server (non-2xx response or network failure).
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly details?: string[];
+
+  constructor(message: string, status: number, details?: string[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Build the query string for an audit log request.
+ */
+function formatAuditQuery(query: AuditQuery): string {
+  const params = new URLSearchParams();
+  if (query.patientId) params.set('patientId', query.patientId);
+  if (query.actor) params.set('actor', query.actor);
+  if (query.action) params.set('action', query.action);
+  if (query.from) params.set('from', query.from.toISOString());
+  if (query.to) params.set('to', query.to.toISOString());
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+// The session token lives for the browser tab, like the server-side session
+const TOKEN_STORAGE_KEY = 'discharge_flow_token';
+
+// How long to wait before reconnecting a dropped live update stream
+const LIVE_RETRY_MS = 5000;
+
+/**
+ * Split complete server-sent events off the front of a buffer. Returns the
+ * data of each event and the incomplete remainder.
+ */
+function takeServerSentEvents(buffer: string): { data: string[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const data = blocks
+    .map((block) => block
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.replace(/^data: ?/, ''))
+      .join('\n'))
+    .filter((eventData) => eventData !== '');
+  return { data, rest };
+}
+
+/**
+ * Wait for a delay, or until the signal aborts.
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Repository backed by the shared API server.
+ *
+ * The server stamps the signed-in user on every change, so actor arguments
+ * are not sent.
+ *
+ * @param baseUrl - API root (defaults to /api, proxied to the server by Vite in development)
+ * @param fetchFn - fetch implementation, injectable for tests
+ */
+export function createApiRepository(baseUrl: string = '/api', fetchFn: typeof fetch = fetch): DischargeRepository {
+  async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    const token = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    let response: Response;
+    try {
+      response = await fetchFn(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...init?.headers,
+        },
+      });
+    } catch (error) {
+      throw new ApiError(`Unable to reach server: ${(error as Error).message}`, 0);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as
+        { error?: string; details?: string[]; task?: StoredTask } | null;
+      // A change based on an out-of-date task comes back with the task as it is now
+      if (response.status === 412 && body?.task) {
+        throw new TaskConflictError(body.error ?? 'Task was changed by someone else', deserializeTask(body.task));
+      }
+      throw new ApiError(body?.error ?? `Request failed with status ${response.status}`, response.status, body?.details);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Read the live update stream until it ends, calling the listener with each
+   * update. Throws if the stream cannot be opened.
+   */
+  async function readLiveUpdates(listener: (update: LiveUpdate) => void, signal: AbortSignal): Promise<void> {
+    const token = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    const response = await fetchFn(`${baseUrl}/live`, {
+      headers: { Accept: 'text/event-stream', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new ApiError(`Live updates failed with status ${response.status}`, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      const { data, rest } = takeServerSentEvents(buffer + decoder.decode(value, { stream: true }));
+      buffer = rest;
+      data.map(deserializeLiveUpdate).forEach((update) => listener(update));
+    }
+  }
+
+  /**
+   * Like request, but resolves to null when the resource does not exist.
+   */
+  async function requestOrNull<T>(path: string, init?: RequestInit): Promise<T | null> {
+    try {
+      return await request<T>(path, init);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a change to a task (or one of its sub-resources) and revive the updated task.
+   */
+  const sendTask = async (
+    method: 'PATCH' | 'POST' | 'PUT',
+    taskId: string,
+    subPath: string,
+    body: Record<string, unknown>,
+    expectedVersion?: number
+  ): Promise<Task | null> => {
+    const task = await requestOrNull<StoredTask>(`/tasks/${encodeURIComponent(taskId)}${subPath}`, {
+      method,
+      body: JSON.stringify(body),
+      headers: expectedVersion === undefined ? undefined : { 'If-Match': formatTaskEtag(expectedVersion) },
+    });
+    return task ? deserializeTask(task) : null;
+  };
+
+  return {
+    login: async (username, password) => {
+      const { token, user } = await request<{ token: string; user: User }>('/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ username, password }),
+      });
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+      return user;
+    },
+
+    logout: async () => {
+      try {
+        await request<void>('/auth/logout', { method: 'POST' });
+      } finally {
+        sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      }
+    },
+
+    getCurrentUser: async () => {
+      if (!sessionStorage.getItem(TOKEN_STORAGE_KEY)) {
+        return null;
+      }
+      try {
+        return await request<User>('/auth/me');
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 401) {
+          sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    getAllPatients: () => request<Patient[]>('/patients'),
+
+    getPatientById: async (patientId) => {
+      const patient = await requestOrNull<PatientWithTasks>(`/patients/${encodeURIComponent(patientId)}`);
+      if (!patient) {
+        return null;
+      }
+      const { tasks: _tasks, encounters: _encounters, ...rest } = patient;
+      return rest;
+    },
+
+    importPatients: (csv, _importedBy, profileId) =>
+      request<PatientImportSummary>(
+        `/patients/import${profileId ? `?profile=${encodeURIComponent(profileId)}` : ''}`,
+        { method: 'POST', body: csv, headers: { 'Content-Type': 'text/csv' } }
+      ),
+
+    getMappingProfiles: () => request<PatientMappingProfile[]>('/mapping-profiles'),
+
+    saveMappingProfile: async (profile) => {
+      try {
+        return await request<PatientMappingProfile>(`/mapping-profiles/${encodeURIComponent(profile.id)}`, {
+          method: 'PUT',
+          body: JSON.stringify(profile),
+        });
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 400 && error.details) {
+          throw new MappingProfileValidationError(error.details);
+        }
+        throw error;
+      }
+    },
+
+    deleteMappingProfile: (profileId) =>
+      request<void>(`/mapping-profiles/${encodeURIComponent(profileId)}`, { method: 'DELETE' }),
+
+    getAllTasks: async () => (await request<StoredTask[]>('/tasks')).map(deserializeTask),
+
+    getTasksByPatientId: async (patientId) =>
+      (await request<StoredTask[]>(`/tasks?patientId=${encodeURIComponent(patientId)}`)).map(deserializeTask),
+
+    completeTask: (taskId, _completedBy, expectedVersion) =>
+      sendTask('PATCH', taskId, '', { status: 'completed' }, expectedVersion),
+
+    changeTaskStatus: (taskId, { changedBy: _changedBy, ...input }, expectedVersion) =>
+      sendTask('POST', taskId, '/status-changes', input, expectedVersion),
+
+    addTaskNote: (taskId, text, _author, expectedVersion) =>
+      sendTask('POST', taskId, '/notes', { text }, expectedVersion),
+
+    editTaskNote: (taskId, noteId, text, _editedBy, expectedVersion) =>
+      sendTask('PATCH', taskId, `/notes/${encodeURIComponent(noteId)}`, { text }, expectedVersion),
+
+    redactTaskNote: (taskId, noteId, _redactedBy, reason, expectedVersion) =>
+      sendTask('POST', taskId, `/notes/${encodeURIComponent(noteId)}/redact`, { reason }, expectedVersion),
+
+    logContactAttempt: (taskId, { attemptedBy: _attemptedBy, ...input }, expectedVersion) =>
+      sendTask('POST', taskId, '/contact-attempts', input, expectedVersion),
+
+    getAssignableStaff: () => request<User[]>('/staff'),
+
+    assignTask: (taskId, assignedTo, _assignedBy, reason, expectedVersion) =>
+      sendTask('PUT', taskId, '/assignee', { assignedTo, reason }, expectedVersion),
+
+    assignPatientTasks: async (patientId, assignedTo, _assignedBy, reason) =>
+      (await request<StoredTask[]>(`/patients/${encodeURIComponent(patientId)}/assignee`, {
+        method: 'PUT',
+        body: JSON.stringify({ assignedTo, reason }),
+      })).map(deserializeTask),
+
+    autoAssignTasks: async (strategy) =>
+      (await request<StoredTask[]>('/tasks/auto-assign', {
+        method: 'POST',
+        body: JSON.stringify({ strategy }),
+      })).map(deserializeTask),
+
+    getEncounters: async (patientId) =>
+      (await requestOrNull<Encounter[]>(`/patients/${encodeURIComponent(patientId)}/encounters`)) ?? [],
+
+    recordAdmission: (patientId, input) =>
+      requestOrNull<Encounter>(`/patients/${encodeURIComponent(patientId)}/encounters`, {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+
+    recordDischarge: (patientId, encounterId, input) =>
+      requestOrNull<Encounter>(
+        `/patients/${encodeURIComponent(patientId)}/encounters/${encodeURIComponent(encounterId)}/discharge`,
+        { method: 'POST', body: JSON.stringify(input) }
+      ),
+
+    getEscalatedTasks: async () => (await request<StoredTask[]>('/tasks/escalated')).map(deserializeTask),
+
+    getDashboardStats: () => request<DashboardStats>('/dashboard/stats'),
+
+    getTaskRuleSet: () => request<TaskRuleSet>('/rules'),
+
+    saveTaskRuleSet: async (ruleSet) => {
+      try {
+        return await request<TaskRuleSet>('/rules', { method: 'PUT', body: JSON.stringify(ruleSet) });
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 400 && error.details) {
+          throw new TaskRuleValidationError(error.details);
+        }
+        throw error;
+      }
+    },
+
+    getAuditLog: async (query = {}) =>
+      (await request<StoredAuditEntry[]>(`/audit${formatAuditQuery(query)}`)).map(deserializeAuditEntry),
+
+    exportBackup: () => request<DataBackup>('/backup'),
+
+    restoreBackup: async (backup) => {
+      try {
+        return await request<BackupRestoreSummary>('/backup', { method: 'POST', body: JSON.stringify(backup) });
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 400 && error.details) {
+          throw new BackupValidationError(error.details);
+        }
+        throw error;
+      }
+    },
+
+    subscribe: (listener) => {
+      const controller = new AbortController();
+      const connect = async () => {
+        while (!controller.signal.aborted) {
+          try {
+            await readLiveUpdates(listener, controller.signal);
+          } catch {
+            // Dropped or refused; try again after a pause
+          }
+          await wait(LIVE_RETRY_MS, controller.signal);
+        }
+      };
+      void connect();
+      return () => controller.abort();
+    },
+  };
+}
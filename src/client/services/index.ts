@@ -2,17 +2,45 @@
 export {
   initializeDatabase,
   resetDatabase,
+  login,
+  logout,
+  getCurrentUser,
   getAllPatients,
   getPatientById,
   searchPatientsByName,
+  importPatients,
+  getMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
   getAllTasks,
   getTasksByPatientId,
   getTasksByStatus,
   getUrgentTasks,
   getOverdueTasks,
   completeTask,
+  changeTaskStatus,
   addTaskNote,
+  editTaskNote,
+  redactTaskNote,
+  logContactAttempt,
+  getAssignableStaff,
+  assignTask,
+  assignPatientTasks,
+  autoAssignTasks,
+  getEncounters,
+  recordAdmission,
+  recordDischarge,
   getDashboardStats,
+  getTaskRuleSet,
+  saveTaskRuleSet,
+  getAuditLog,
+  exportBackup,
+  restoreBackup,
 } from './patientService';
 
-export { SEED_PATIENTS } from './seedData';
+export { SEED_PATIENTS, SEED_USERS, DEMO_PASSWORD } from './seedData';
+
+export { createRepository, defaultRepository, DATA_SOURCE } from './repository';
+export type { DischargeRepository, DataSource } from './repository';
+export { createLocalStorageRepository } from './localStorageRepository';
+export { createApiRepository, ApiError } from './apiRepository';
@@ -0,0 +1,111 @@
+import type { DischargeRepository } from './repository';
+import {
+  login,
+  logout,
+  getCurrentUser,
+  getAllPatients,
+  getPatientById,
+  importPatients,
+  getMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  getAllTasks,
+  getTasksByPatientId,
+  completeTask,
+  changeTaskStatus,
+  addTaskNote,
+  editTaskNote,
+  redactTaskNote,
+  logContactAttempt,
+  getAssignableStaff,
+  assignTask,
+  assignPatientTasks,
+  autoAssignTasks,
+  getEncounters,
+  recordAdmission,
+  recordDischarge,
+  escalateDueTasks,
+  getEscalatedTasks,
+  getDashboardStats,
+  getTaskRuleSet,
+  saveTaskRuleSet,
+  getAuditLog,
+  watchAuditLog,
+  exportBackup,
+  restoreBackup,
+} from './patientService';
+import { LIVE_TICK_INTERVAL_MS, createChangeUpdate } from '@shared/liveUpdates';
+
+/**
+ * Repository backed by the browser's localStorage (offline / demo mode).
+ * Wraps the synchronous patientService functions in promises. There is no
+ * scheduler in the browser, so due escalations fire when tasks are read, and
+ * live updates are changes made in other tabs plus periodic ticks.
+ */
+export function createLocalStorageRepository(): DischargeRepository {
+  return {
+    login: async (username, password) => {
+      const user = await login(username, password);
+      if (!user) {
+        throw new Error('Invalid username or password');
+      }
+      return user;
+    },
+    logout: async () => logout(),
+    getCurrentUser: async () => getCurrentUser(),
+    getAllPatients: async () => getAllPatients(),
+    getPatientById: async (patientId) => getPatientById(patientId),
+    importPatients: async (csv, importedBy, profileId) => importPatients(csv, importedBy, profileId),
+    getMappingProfiles: async () => getMappingProfiles(),
+    saveMappingProfile: async (profile) => saveMappingProfile(profile),
+    deleteMappingProfile: async (profileId) => {
+      if (!deleteMappingProfile(profileId)) {
+        throw new Error(`Mapping profile '${profileId}' not found`);
+      }
+    },
+    getAllTasks: async () => {
+      escalateDueTasks();
+      return getAllTasks();
+    },
+    getTasksByPatientId: async (patientId) => {
+      escalateDueTasks();
+      return getTasksByPatientId(patientId);
+    },
+    completeTask: async (taskId, completedBy, expectedVersion) => completeTask(taskId, completedBy, expectedVersion),
+    changeTaskStatus: async (taskId, input, expectedVersion) => changeTaskStatus(taskId, input, expectedVersion),
+    addTaskNote: async (taskId, text, author, expectedVersion) => addTaskNote(taskId, text, author, expectedVersion),
+    editTaskNote: async (taskId, noteId, text, editedBy, expectedVersion) =>
+      editTaskNote(taskId, noteId, text, editedBy, expectedVersion),
+    redactTaskNote: async (taskId, noteId, redactedBy, reason, expectedVersion) =>
+      redactTaskNote(taskId, noteId, redactedBy, reason, expectedVersion),
+    logContactAttempt: async (taskId, input, expectedVersion) => logContactAttempt(taskId, input, expectedVersion),
+    getAssignableStaff: async () => getAssignableStaff(),
+    assignTask: async (taskId, assignedTo, assignedBy, reason, expectedVersion) =>
+      assignTask(taskId, assignedTo, assignedBy, reason, expectedVersion),
+    assignPatientTasks: async (patientId, assignedTo, assignedBy, reason) =>
+      assignPatientTasks(patientId, assignedTo, assignedBy, reason),
+    autoAssignTasks: async (strategy, assignedBy) => autoAssignTasks(strategy, assignedBy),
+    getEncounters: async (patientId) => getEncounters(patientId),
+    recordAdmission: async (patientId, input, recordedBy) => recordAdmission(patientId, input, recordedBy),
+    recordDischarge: async (patientId, encounterId, input, recordedBy) =>
+      recordDischarge(patientId, encounterId, input, recordedBy),
+    getEscalatedTasks: async () => {
+      escalateDueTasks();
+      return getEscalatedTasks();
+    },
+    getDashboardStats: async () => getDashboardStats(),
+    getTaskRuleSet: async () => getTaskRuleSet(),
+    saveTaskRuleSet: async (ruleSet, savedBy) => saveTaskRuleSet(ruleSet, savedBy),
+    getAuditLog: async (query) => getAuditLog(query),
+    exportBackup: async () => exportBackup(),
+    restoreBackup: async (backup, restoredBy) => restoreBackup(backup, restoredBy),
+    subscribe: (listener) => {
+      const stopWatching = watchAuditLog((entry) => listener(createChangeUpdate(entry)));
+      const timer = setInterval(() => listener({ type: 'tick', at: new Date() }), LIVE_TICK_INTERVAL_MS);
+      return () => {
+        stopWatching();
+        clearInterval(timer);
+      };
+    },
+  };
+}
@@ -1,17 +1,49 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   initializeDatabase,
   resetDatabase,
   getAllPatients,
   getPatientById,
   searchPatientsByName,
+  importPatients,
+  getMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
   getAllTasks,
   getTasksByPatientId,
   completeTask,
+  changeTaskStatus,
   addTaskNote,
+  editTaskNote,
+  redactTaskNote,
+  logContactAttempt,
   getDashboardStats,
+  getTaskRuleSet,
+  saveTaskRuleSet,
+  getAuditLog,
+  watchAuditLog,
+  login,
+  logout,
+  getCurrentUser,
+  getAssignableStaff,
+  assignTask,
+  assignPatientTasks,
+  autoAssignTasks,
+  escalateDueTasks,
+  getEscalatedTasks,
+  getEncounters,
+  recordAdmission,
+  recordDischarge,
+  exportBackup,
+  restoreBackup,
 } from './patientService';
-import { SEED_PATIENTS } from './seedData';
+import { SEED_PATIENTS, DEMO_PASSWORD } from './seedData';
+import { DEFAULT_TASK_RULE_SET, TASK_RULES } from '../../shared/types';
+import type { Patient } from '../../shared/types';
+import { TaskRuleValidationError } from '../../shared/taskRules';
+import { TaskConflictError } from '../../shared/taskEngine';
+import { MappingProfileValidationError } from '../../shared/patientMapping';
+import { BackupValidationError } from '../../shared/backup';
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -61,9 +93,9 @@ describe('Patient Service', () => {
       initializeDatabase();
 
       // Complete a task to modify state
-      const tasks = getAllTasks();
-      if (tasks.length > 0) {
-        completeTask(tasks[0].id, 'test-user');
+      const task = getAllTasks().find((t) => t.type === 'medication_reconciliation');
+      if (task) {
+        completeTask(task.id, 'test-user');
       }
 
       // Reset
@@ -76,6 +108,29 @@ describe('Patient Service', () => {
     });
   });
 
+  describe('Sign-in', () => {
+    it('should sign in a demo user and remember them', async () => {
+      const user = await login('maria.lopez', DEMO_PASSWORD);
+
+      expect(user).toEqual({
+        id: 'maria.lopez', displayName: 'Maria Lopez', role: 'nurse', languages: ['English', 'Spanish'],
+      });
+      expect(getCurrentUser()).toEqual(user);
+    });
+
+    it('should refuse a wrong password or unknown user', async () => {
+      expect(await login('maria.lopez', 'wrong-password')).toBeNull();
+      expect(await login('nobody', DEMO_PASSWORD)).toBeNull();
+      expect(getCurrentUser()).toBeNull();
+    });
+
+    it('should forget the user on logout', async () => {
+      await login('admin', DEMO_PASSWORD);
+      logout();
+      expect(getCurrentUser()).toBeNull();
+    });
+  });
+
   describe('Patient Operations', () => {
     beforeEach(() => {
       initializeDatabase();
@@ -163,8 +218,7 @@ describe('Patient Service', () => {
     });
 
     it('completeTask should mark task as completed', () => {
-      const tasks = getAllTasks();
-      const taskToComplete = tasks[0];
+      const taskToComplete = getAllTasks().find((t) => t.type === 'medication_reconciliation')!;
 
       const result = completeTask(taskToComplete.id, 'test-user');
 
@@ -174,19 +228,333 @@ describe('Patient Service', () => {
       expect(result?.completedAt).toBeInstanceOf(Date);
     });
 
+    it('completeTask should refuse a task whose window has not opened', () => {
+      const stored = JSON.parse(localStorage.getItem('discharge_flow_tasks')!);
+      const future = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      stored[0].dueStart = future.toISOString();
+      stored[0].dueEnd = new Date(future.getTime() + 24 * 60 * 60 * 1000).toISOString();
+      localStorage.setItem('discharge_flow_tasks', JSON.stringify(stored));
+
+      expect(() => completeTask(stored[0].id, 'test-user')).toThrow(
+        'Cannot complete a task before its window opens'
+      );
+      expect(getAllTasks()[0].status).toBe('upcoming');
+    });
+
+    it('completeTask should refuse an already completed task', () => {
+      const task = getAllTasks().find((t) => t.type === 'medication_reconciliation')!;
+      completeTask(task.id, 'test-user');
+
+      expect(() => completeTask(task.id, 'other-user')).toThrow('Task is already completed');
+    });
+
     it('completeTask should return null for non-existent task', () => {
       const result = completeTask('non-existent-id');
       expect(result).toBeNull();
     });
 
-    it('addTaskNote should add note to task', () => {
+    it('completeTask should require a successful contact on outreach tasks', () => {
+      const task = getAllTasks().find((t) => t.type === 'contact_patient')!;
+
+      expect(() => completeTask(task.id, 'test-user')).toThrow(
+        'Log a successful contact attempt before completing this task'
+      );
+
+      logContactAttempt(task.id, { channel: 'phone', destination: '555-0100', outcome: 'reached', attemptedBy: 'test-user' });
+      expect(completeTask(task.id, 'test-user')?.status).toBe('completed');
+    });
+
+    it('logContactAttempt should store the attempt on the task', () => {
+      const task = getAllTasks().find((t) => t.type === 'contact_patient')!;
+
+      const result = logContactAttempt(task.id, {
+        channel: 'sms', destination: ' 555-0100 ', outcome: 'no_answer', attemptedBy: 'test-user',
+      });
+
+      expect(result?.contactAttempts).toHaveLength(1);
+      expect(getAllTasks().find((t) => t.id === task.id)?.contactAttempts?.[0]).toMatchObject({
+        channel: 'sms',
+        destination: '555-0100',
+        outcome: 'no_answer',
+      });
+    });
+
+    it('logContactAttempt should reject invalid input and non-outreach tasks', () => {
+      const outreach = getAllTasks().find((t) => t.type === 'contact_patient')!;
+      const other = getAllTasks().find((t) => t.type === 'medication_reconciliation')!;
+      const input = { channel: 'phone', destination: '555-0100', outcome: 'reached', attemptedBy: 'test-user' } as const;
+
+      expect(() => logContactAttempt(outreach.id, { ...input, destination: '' })).toThrow(
+        'destination must be the number or email address used'
+      );
+      expect(() => logContactAttempt(other.id, input)).toThrow('Contact attempts can only be logged on outreach tasks');
+      expect(logContactAttempt('non-existent-id', input)).toBeNull();
+    });
+
+    it('addTaskNote should append notes to the task thread', () => {
+      const task = getAllTasks()[0];
+
+      addTaskNote(task.id, 'First note', 'test-user');
+      const result = addTaskNote(task.id, 'Second note', 'other-user');
+
+      expect(result?.notes?.map((n) => n.text)).toEqual(['First note', 'Second note']);
+      expect(result?.notes?.[1].author).toBe('other-user');
+      expect(getAllTasks()[0].notes).toHaveLength(2);
+    });
+
+    it('editTaskNote and redactTaskNote should keep the trail', () => {
+      const task = getAllTasks()[0];
+      const noteId = addTaskNote(task.id, 'Original', 'test-user')!.notes![0].id;
+
+      const edited = editTaskNote(task.id, noteId, 'Revised', 'test-user');
+      expect(edited?.notes?.[0].changes?.[0].previousText).toBe('Original');
+
+      const redacted = redactTaskNote(task.id, noteId, 'supervisor', 'Wrong patient');
+      expect(redacted?.notes?.[0]).toMatchObject({ text: '', redacted: true });
+      expect(localStorage.getItem('discharge_flow_tasks')).not.toContain('Original');
+
+      expect(() => editTaskNote(task.id, noteId, 'Again', 'test-user')).toThrow('Note has been redacted');
+    });
+
+    it('should refuse a change based on an out-of-date copy of the task', () => {
+      const task = getAllTasks()[0];
+      addTaskNote(task.id, 'From another tab', 'nurse-2', 0);
+
+      try {
+        addTaskNote(task.id, 'Stale', 'nurse-1', 0);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(TaskConflictError);
+        expect((error as TaskConflictError).task.notes?.map((n) => n.text)).toEqual(['From another tab']);
+      }
+      expect(addTaskNote(task.id, 'Retried', 'nurse-1', 1)?.version).toBe(2);
+    });
+
+    it('changeTaskStatus should close a task, audit it, and leave it out of open counts', () => {
+      const task = getAllTasks().find((t) => t.status === 'pending' || t.status === 'overdue')!;
+      const before = getDashboardStats();
+
+      const closed = changeTaskStatus(task.id, { action: 'cancelled', reason: 'deceased', changedBy: 'nurse-1' });
+
+      expect(closed?.status).toBe('cancelled');
+      expect(getAllTasks().find((t) => t.id === task.id)?.status).toBe('cancelled');
+      const after = getDashboardStats();
+      expect(after.closedTasks).toBe(before.closedTasks + 1);
+      expect(after.pendingTasks + after.overdueTasks).toBe(before.pendingTasks + before.overdueTasks - 1);
+      expect(getAuditLog({ action: 'task.closed' })[0]).toMatchObject({
+        actor: 'nurse-1',
+        after: { status: 'cancelled', reason: 'deceased' },
+      });
+
+      const reopened = changeTaskStatus(task.id, { action: 'reopened', reason: 'closed_in_error', changedBy: 'nurse-2' });
+      expect(reopened?.status).toBe(task.status);
+      expect(getAuditLog({ action: 'task.reopened' })).toHaveLength(1);
+    });
+
+    it('changeTaskStatus should refuse a change without a valid reason', () => {
+      const task = getAllTasks()[0];
+
+      expect(() => changeTaskStatus(task.id, { action: 'not_applicable', reason: 'other', changedBy: 'nurse-1' }))
+        .toThrow('A note is required when the reason is "other"');
+    });
+
+    it('should migrate single-string notes saved before note history', () => {
+      const stored = JSON.parse(localStorage.getItem('discharge_flow_tasks')!);
+      stored[0].notes = 'Legacy note';
+      localStorage.setItem('discharge_flow_tasks', JSON.stringify(stored));
+
+      const result = addTaskNote(stored[0].id, 'New note', 'test-user');
+
+      expect(result?.notes?.map((n) => n.text)).toEqual(['Legacy note', 'New note']);
+      expect(result?.notes?.[0].legacy).toBe(true);
+    });
+  });
+
+  describe('Task Assignment', () => {
+    beforeEach(() => {
+      initializeDatabase();
+    });
+
+    it('getAssignableStaff should list only assistants and nurses', () => {
+      expect(getAssignableStaff().map((u) => u.id)).toEqual(['maria.lopez', 'james.wu', 'grace.kim']);
+    });
+
+    it('assignTask should record the owner and require a reason to reassign', () => {
+      const task = getAllTasks().find((t) => t.status !== 'completed')!;
+
+      expect(assignTask(task.id, 'maria.lopez', 'supervisor')?.assignedTo).toBe('maria.lopez');
+      expect(() => assignTask(task.id, 'james.wu', 'supervisor')).toThrow('A reason is required');
+      expect(assignTask(task.id, 'james.wu', 'supervisor', 'Covering')?.assignmentReason).toBe('Covering');
+      expect(assignTask('missing', 'james.wu', 'supervisor')).toBeNull();
+
+      expect(getAuditLog({ action: 'task.assigned' })[0]).toMatchObject({
+        actor: 'supervisor',
+        before: { assignedTo: 'maria.lopez' },
+        after: { assignedTo: 'james.wu', reason: 'Covering' },
+      });
+    });
+
+    it("assignPatientTasks should give all of a patient's open tasks to one owner", () => {
+      const patientId = SEED_PATIENTS[0].patientId;
+      const assigned = assignPatientTasks(patientId, 'grace.kim', 'supervisor');
+
+      expect(assigned.length).toBeGreaterThan(0);
+      const openTasks = getTasksByPatientId(patientId).filter((t) => t.status !== 'completed');
+      expect(openTasks.every((t) => t.assignedTo === 'grace.kim')).toBe(true);
+    });
+
+    it('autoAssignTasks should leave no open task unassigned', () => {
+      expect(getDashboardStats().unassignedTasks).toBeGreaterThan(0);
+
+      const assigned = autoAssignTasks('language', 'supervisor');
+
+      expect(assigned[0].assignmentReason).toBe('Auto-assigned: Preferred language');
+      expect(getDashboardStats().unassignedTasks).toBe(0);
+    });
+  });
+
+  describe('Task Escalation', () => {
+    beforeEach(() => {
+      initializeDatabase();
+    });
+
+    it('escalateDueTasks should fire due tiers once and audit them as the system', () => {
+      const latestDue = Math.max(...getAllTasks().map((t) => t.dueEnd.getTime()));
+      const now = new Date(latestDue + 24 * 60 * 60 * 1000);
+
+      const escalated = escalateDueTasks(now);
+
+      expect(escalated.length).toBe(getAllTasks().filter((t) => t.status !== 'completed').length);
+      expect(escalated.every((t) => t.escalations?.length === 3)).toBe(true);
+      expect(escalateDueTasks(now)).toEqual([]);
+      expect(getEscalatedTasks()).toHaveLength(escalated.length);
+      expect(getAuditLog({ action: 'task.escalated' })[0].actor).toBe('system');
+    });
+  });
+
+  describe('Encounters', () => {
+    const patientId = 'MRN8472';
+
+    beforeEach(() => {
+      initializeDatabase();
+    });
+
+    it('recordAdmission should start an encounter and cancel open tasks', () => {
+      const encounter = recordAdmission(patientId, { admissionDate: '2026-02-01', primaryDiagnosis: 'Sepsis' }, 'nurse');
+
+      expect(encounter?.id).toBe('MRN8472-2');
+      expect(getEncounters(patientId).map((e) => e.id)).toEqual(['MRN8472-1', 'MRN8472-2']);
+      const open = getTasksByPatientId(patientId).filter((t) => t.status === 'pending' || t.status === 'overdue');
+      expect(open).toEqual([]);
+      expect(getAuditLog({ action: 'encounter.admitted' })[0].actor).toBe('nurse');
+      expect(() => recordAdmission(patientId, { admissionDate: '2026-02-02', primaryDiagnosis: 'Sepsis' }, 'nurse'))
+        .toThrow('Patient is still admitted (since 2026-02-01)');
+      expect(recordAdmission('missing', { admissionDate: '2026-02-01', primaryDiagnosis: 'Sepsis' }, 'nurse')).toBeNull();
+    });
+
+    it('recordDischarge should generate tasks for the new encounter', () => {
+      recordAdmission(patientId, { admissionDate: '2026-02-01', primaryDiagnosis: 'Sepsis' }, 'nurse');
+
+      recordDischarge(
+        patientId,
+        'MRN8472-2',
+        { dischargeDate: '2026-02-05', dischargeTime: '11:00', dischargeDisposition: 'Home' },
+        'nurse'
+      );
+
+      const generated = getTasksByPatientId(patientId).filter((t) => t.encounterId === 'MRN8472-2');
+      expect(generated.length).toBeGreaterThan(0);
+      expect(generated.every((t) => t.status !== 'cancelled')).toBe(true);
+      expect(getEncounters(patientId)[1].dischargeDate).toBe('2026-02-05');
+    });
+  });
+
+  describe('Patient Import', () => {
+    const HEADER = 'patient_id,patient_name,dob,gender,phone,email,preferred_language,admission_date,discharge_date,' +
+      'discharge_time,length_of_stay,primary_diagnosis,discharge_disposition,discharge_medications,allergies,' +
+      'attending_physician,pcp_name,pcp_phone,readmission_risk_score,fall_risk,notes';
+
+    // One CSV row for a patient, in HEADER order
+    const toCsvRow = (p: Patient) => [
+      p.patientId, p.patientName, p.dob, p.gender, p.phone, p.email, p.preferredLanguage, p.admissionDate,
+      p.dischargeDate, p.dischargeTime, p.lengthOfStay, p.primaryDiagnosis, p.dischargeDisposition,
+      p.dischargeMedications, p.allergies, p.attendingPhysician, p.pcpName, p.pcpPhone, p.readmissionRiskScore,
+      p.fallRisk, p.notes,
+    ].map((value) => `"${value ?? ''}"`).join(',');
+
+    beforeEach(() => {
+      initializeDatabase();
+    });
+
+    it('should add new patients with tasks and reconcile updated patients', () => {
+      const existing = SEED_PATIENTS.find((p) => p.patientId === 'MRN8472')!;
+      const csv = [
+        HEADER,
+        toCsvRow({ ...existing, dischargeDisposition: 'Skilled nursing facility' }),
+        toCsvRow({ ...existing, patientId: 'MRN0001', patientName: 'New Patient' }),
+        'MRN0002,Missing columns',
+      ].join('\n');
+
+      expect(importPatients(csv, 'supervisor')).toEqual({
+        added: ['MRN0001'],
+        updated: ['MRN8472'],
+        unchanged: [],
+        skippedRows: [4],
+      });
+      expect(getAllPatients()).toHaveLength(SEED_PATIENTS.length + 1);
+      expect(getPatientById('MRN8472')?.dischargeDisposition).toBe('Skilled nursing facility');
+      expect(getTasksByPatientId('MRN0001').length).toBeGreaterThan(0);
+      expect(getTasksByPatientId('MRN8472').map((t) => t.type)).toContain('facility_handoff');
+      expect(getAuditLog({ action: 'patient.imported' }).map((e) => [e.entityId, e.actor])).toEqual([
+        ['MRN8472', 'supervisor'],
+        ['MRN0001', 'supervisor'],
+      ]);
+    });
+
+    it('should change nothing for patients imported unchanged', () => {
       const tasks = getAllTasks();
-      const task = tasks[0];
 
-      const result = addTaskNote(task.id, 'Test note');
+      const summary = importPatients([HEADER, toCsvRow(SEED_PATIENTS[0])].join('\n'), 'supervisor');
 
-      expect(result).not.toBeNull();
-      expect(result?.notes).toBe('Test note');
+      expect(summary.unchanged).toEqual([SEED_PATIENTS[0].patientId]);
+      expect(getAllTasks()).toEqual(tasks);
+      expect(getAuditLog()).toEqual([]);
+    });
+
+    it('should refuse a file without data rows', () => {
+      expect(() => importPatients(HEADER, 'supervisor')).toThrow('CSV must have a header row and at least one data row');
+    });
+
+    it('should save, replace and delete mapping profiles, keeping the standard one first', () => {
+      const profile = { id: 'ehr', name: 'EHR export', columns: { patientId: 'MRN' }, valueSynonyms: {} };
+      saveMappingProfile(profile);
+      saveMappingProfile({ ...profile, columns: { patientId: 'Patient MRN' } });
+
+      expect(getMappingProfiles().map((p) => [p.id, p.columns.patientId])).toEqual([
+        ['standard', undefined],
+        ['ehr', 'Patient MRN'],
+      ]);
+      expect(() => saveMappingProfile({ ...profile, name: '' })).toThrow(MappingProfileValidationError);
+      expect(deleteMappingProfile('ehr')).toBe(true);
+      expect(deleteMappingProfile('standard')).toBe(false);
+      expect(getMappingProfiles().map((p) => p.id)).toEqual(['standard']);
+    });
+
+    it('should import with a saved mapping profile', () => {
+      saveMappingProfile({
+        id: 'ehr',
+        name: 'EHR export',
+        columns: { patientId: 'MRN', dischargeDisposition: 'Disposition', readmissionRiskScore: 'Risk' },
+        valueSynonyms: { riskLevel: { '1': 'Low' } },
+      });
+      const csv = 'MRN,Patient Name,Discharge Date,Disposition,Risk\nMRN0001,New Patient,2026-01-14,HHA,1';
+
+      expect(importPatients(csv, 'supervisor', 'ehr').added).toEqual(['MRN0001']);
+      expect(getPatientById('MRN0001')).toMatchObject({
+        dischargeDisposition: 'Home with home health',
+        readmissionRiskScore: 'Low',
+      });
+      expect(() => importPatients(csv, 'supervisor', 'missing')).toThrow("Mapping profile 'missing' not found");
     });
   });
 
@@ -208,7 +576,9 @@ describe('Patient Service', () => {
     it('getDashboardStats should update after completing task', () => {
       const statsBefore = getDashboardStats();
       const tasks = getAllTasks();
-      const pendingTask = tasks.find((t) => t.status === 'pending' || t.status === 'overdue');
+      const pendingTask = tasks.find(
+        (t) => t.type === 'medication_reconciliation' && (t.status === 'pending' || t.status === 'overdue')
+      );
 
       if (pendingTask) {
         completeTask(pendingTask.id);
@@ -218,6 +588,190 @@ describe('Patient Service', () => {
     });
   });
 
+  describe('Audit Log', () => {
+    beforeEach(() => {
+      initializeDatabase();
+    });
+
+    it('should record task changes with their actor, newest first', () => {
+      const task = getAllTasks().find((t) => t.type === 'contact_patient')!;
+
+      logContactAttempt(task.id, { channel: 'phone', destination: '555-0100', outcome: 'reached', attemptedBy: 'nurse-1' });
+      completeTask(task.id, 'nurse-2');
+
+      const entries = getAuditLog();
+      expect(entries.map((e) => e.action)).toEqual(['task.completed', 'task.contact_logged']);
+      expect(entries[0]).toMatchObject({
+        actor: 'nurse-2',
+        entityId: task.id,
+        patientId: task.patientId,
+        before: { status: task.status },
+        after: { status: 'completed', completedBy: 'nurse-2' },
+      });
+      expect(entries[0].at).toBeInstanceOf(Date);
+    });
+
+    it('should filter entries by patient and actor', () => {
+      const [first, second] = getAllTasks().filter((t, i, all) => all.findIndex((o) => o.patientId === t.patientId) === i);
+      addTaskNote(first.id, 'Note A', 'nurse-1');
+      addTaskNote(second.id, 'Note B', 'nurse-2');
+
+      expect(getAuditLog({ patientId: second.patientId }).map((e) => e.entityId)).toEqual([second.id]);
+      expect(getAuditLog({ actor: 'nurse-1' }).map((e) => e.entityId)).toEqual([first.id]);
+    });
+
+    it('should not keep the text of a note once it is redacted', () => {
+      const task = getAllTasks()[0];
+      const noteId = addTaskNote(task.id, 'Wrong patient: diabetic', 'nurse-1')!.notes![0].id;
+      editTaskNote(task.id, noteId, 'Wrong patient: diabetic, on insulin', 'nurse-1');
+      redactTaskNote(task.id, noteId, 'supervisor', 'Charted on the wrong patient');
+
+      const entries = getAuditLog();
+      expect(entries.map((e) => e.action)).toEqual(['task.note_redacted', 'task.note_edited', 'task.note_added']);
+      expect(JSON.stringify(entries)).not.toContain('diabetic');
+      expect(JSON.stringify(exportBackup().auditLog)).not.toContain('diabetic');
+    });
+
+    it('should not record refused or unchanged updates', () => {
+      const task = getAllTasks()[0];
+      const noteId = addTaskNote(task.id, 'Same', 'nurse-1')!.notes![0].id;
+
+      editTaskNote(task.id, noteId, 'Same', 'nurse-1');
+      expect(() => redactTaskNote(task.id, noteId, 'supervisor', ' ')).toThrow();
+
+      expect(getAuditLog().map((e) => e.action)).toEqual(['task.note_added']);
+    });
+
+    it('watchAuditLog should report entries recorded in another tab', () => {
+      const listener = vi.fn();
+      const stopWatching = watchAuditLog(listener);
+      const oldValue = localStorage.getItem('discharge_flow_audit');
+      addTaskNote(getAllTasks()[0].id, 'From another tab', 'nurse-1');
+      const storageEvent = () => new StorageEvent('storage', {
+        key: 'discharge_flow_audit',
+        oldValue,
+        newValue: localStorage.getItem('discharge_flow_audit'),
+      });
+
+      window.dispatchEvent(storageEvent());
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toMatchObject({ action: 'task.note_added', actor: 'nurse-1' });
+
+      stopWatching();
+      window.dispatchEvent(storageEvent());
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('resetDatabase should clear the audit log', () => {
+      addTaskNote(getAllTasks()[0].id, 'Note', 'nurse-1');
+      resetDatabase();
+      expect(getAuditLog()).toEqual([]);
+    });
+  });
+
+  describe('Task Rules', () => {
+    it('getTaskRuleSet should return the defaults until rules are saved', () => {
+      expect(getTaskRuleSet()).toEqual(DEFAULT_TASK_RULE_SET);
+    });
+
+    it('saveTaskRuleSet should store rules with the next version', () => {
+      const saved = saveTaskRuleSet({ version: 1, rules: TASK_RULES.slice(0, 1) }, 'admin');
+
+      expect(saved.version).toBe(2);
+      expect(getTaskRuleSet()).toEqual(saved);
+      expect(getAuditLog({ action: 'rules.updated' })[0]).toMatchObject({
+        actor: 'admin',
+        before: { version: 1 },
+        after: { version: 2 },
+      });
+    });
+
+    it('saveTaskRuleSet should cancel open tasks the new rules no longer call for', () => {
+      const ids = getAllTasks()
+        .filter((t) => t.type === 'medication_reconciliation' && t.status !== 'completed')
+        .map((t) => t.id);
+      saveTaskRuleSet({ version: 1, rules: TASK_RULES.filter((r) => r.type !== 'medication_reconciliation') }, 'admin');
+
+      expect(ids.length).toBeGreaterThan(0);
+      expect(ids.map((id) => getAllTasks().find((t) => t.id === id)?.status)).toEqual(ids.map(() => 'cancelled'));
+      expect(getAuditLog({ action: 'task.closed' }).every((e) => e.actor === 'admin')).toBe(true);
+    });
+
+    it('saveTaskRuleSet should reject invalid rules', () => {
+      expect(() => saveTaskRuleSet({ version: 1, rules: [] }, 'admin')).toThrow(TaskRuleValidationError);
+      expect(getTaskRuleSet()).toEqual(DEFAULT_TASK_RULE_SET);
+    });
+
+    it('saveTaskRuleSet should reject a stale version', () => {
+      saveTaskRuleSet({ version: 1, rules: TASK_RULES }, 'admin');
+      expect(() => saveTaskRuleSet({ version: 1, rules: TASK_RULES }, 'admin')).toThrow(/changed by someone else/);
+    });
+
+    it('should generate seed tasks from saved rules', () => {
+      saveTaskRuleSet({ version: 1, rules: TASK_RULES.filter((r) => r.type === 'contact_patient') }, 'admin');
+      localStorage.removeItem('discharge_flow_initialized');
+      initializeDatabase();
+
+      expect(getAllTasks()).toHaveLength(SEED_PATIENTS.length);
+      expect(getAllTasks().every((t) => t.type === 'contact_patient')).toBe(true);
+    });
+
+    it('resetDatabase should restore the default rules', () => {
+      saveTaskRuleSet({ version: 1, rules: TASK_RULES.slice(0, 1) }, 'admin');
+      resetDatabase();
+      expect(getTaskRuleSet()).toEqual(DEFAULT_TASK_RULE_SET);
+    });
+  });
+
+  describe('Backup and Restore', () => {
+    beforeEach(() => {
+      initializeDatabase();
+    });
+
+    it('should put back everything that was backed up', () => {
+      const task = getAllTasks()[0];
+      addTaskNote(task.id, 'Before the backup', 'nurse-1');
+      saveMappingProfile({ id: 'ehr', name: 'EHR export', columns: { patientId: 'MRN' }, valueSynonyms: {} });
+      const backup = JSON.parse(JSON.stringify(exportBackup()));
+      const tasks = getAllTasks();
+
+      addTaskNote(task.id, 'After the backup', 'nurse-2');
+      deleteMappingProfile('ehr');
+      resetDatabase();
+      const summary = restoreBackup(backup, 'admin');
+
+      expect(summary).toEqual({
+        patients: SEED_PATIENTS.length,
+        tasks: tasks.length,
+        encounters: 0,
+        mappingProfiles: 1,
+        auditEntries: 1,
+      });
+      expect(getAllPatients()).toEqual(SEED_PATIENTS);
+      expect(getAllTasks()).toEqual(tasks);
+      expect(getMappingProfiles().map((p) => p.id)).toEqual(['standard', 'ehr']);
+      expect(getTaskRuleSet()).toEqual({ ...DEFAULT_TASK_RULE_SET, version: 2 });
+      expect(getAuditLog().map((e) => e.action)).toEqual(['data.restored', 'task.note_added']);
+      expect(getAuditLog()[0]).toMatchObject({ actor: 'admin', entityType: 'dataset', after: summary });
+    });
+
+    it('should add only the audit entries it does not have', () => {
+      addTaskNote(getAllTasks()[0].id, 'Note', 'nurse-1');
+
+      expect(restoreBackup(exportBackup(), 'admin').auditEntries).toBe(0);
+      expect(getAuditLog().map((e) => e.action)).toEqual(['data.restored', 'task.note_added']);
+    });
+
+    it('should leave everything as it was when the backup is invalid', () => {
+      const backup = exportBackup();
+      const tasks = getAllTasks();
+
+      expect(() => restoreBackup({ ...backup, patients: [] }, 'admin')).toThrow(BackupValidationError);
+      expect(getAllTasks()).toEqual(tasks);
+      expect(getAuditLog()).toEqual([]);
+    });
+  });
+
   describe('Task Status Calculation', () => {
     beforeEach(() => {
       initializeDatabase();
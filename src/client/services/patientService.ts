@@ -1,76 +1,109 @@
-import { Patient, Task, TaskStatus, TASK_RULES } from '../../shared/types';
-import { SEED_PATIENTS } from './seedData';
+import {
+  AdmissionInput,
+  AuditAction,
+  AuditEntry,
+  AuditQuery,
+  AssignmentStrategy,
+  BackupRestoreSummary,
+  ContactAttemptInput,
+  DashboardStats,
+  DischargeInput,
+  Encounter,
+  Patient,
+  PatientImportSummary,
+  PatientMappingProfile,
+  Task,
+  TaskRuleSet,
+  TaskAssignment,
+  TaskStatus,
+  TaskStatusChangeInput,
+  User,
+  DEFAULT_TASK_RULE_SET,
+  DEFAULT_WORKING_CALENDAR,
+} from '../../shared/types';
+import {
+  generateTasksForPatients,
+  addTasksToCollection,
+  updateTaskStatuses,
+  getUrgentTasks as filterUrgentTasks,
+  getTasksCompletedToday,
+  getClosedTasks,
+  completeTaskInCollection,
+  changeTaskStatusInCollection,
+  createTaskNote,
+  addNoteToTaskInCollection,
+  editNoteInCollection,
+  redactNoteInCollection,
+  createContactAttempt,
+  logContactAttemptInCollection,
+  validateContactAttemptInput,
+  assignTasksInCollection,
+  escalateTasksInCollection,
+  rescheduleTasksInCollection,
+  serializeTasksForStorage,
+  deserializeTasksFromStorage,
+  TaskConflictError,
+} from '../../shared/taskEngine';
+import { parseTaskRuleSet } from '../../shared/taskRules';
+import {
+  StoredAuditEntry,
+  auditBackupRestore,
+  auditEncounterChange,
+  auditPatientImport,
+  auditRuleSetUpdate,
+  auditTaskChange,
+  serializeAuditEntry,
+  deserializeAuditEntry,
+  queryAuditEntries,
+} from '../../shared/audit';
+import { toUser, verifyPassword } from '../../shared/auth';
+import {
+  ASSIGNMENT_STRATEGY_LABELS,
+  countUnassignedTasks,
+  isAssignableStaff,
+  planAutoAssignment,
+  planPatientAssignment,
+} from '../../shared/assignment';
+import { getEscalatedTasks as findEscalatedTasks, planEscalations } from '../../shared/escalation';
+import {
+  admitPatientInCollection,
+  dischargePatientInCollection,
+  generateTasksForEncounter,
+  getPatientEncounters,
+  planReadmissionClosures,
+} from '../../shared/encounters';
+import { planTaskReconciliation } from '../../shared/reconciliation';
+import { mergePatients } from '../../shared/patientImport';
+import { STANDARD_MAPPING_PROFILE, parseMappingProfile } from '../../shared/patientMapping';
+import { toZonedDateKey } from '../../shared/timeZone';
+import { DataBackup, createBackup, parseBackup } from '../../shared/backup';
+import { previewPatientCSV } from '../../shared/patientCsv';
+import { SEED_PATIENTS, SEED_USERS } from './seedData';
 
 const STORAGE_KEYS = {
   PATIENTS: 'discharge_flow_patients',
   TASKS: 'discharge_flow_tasks',
   INITIALIZED: 'discharge_flow_initialized',
+  TASK_RULES: 'discharge_flow_task_rules',
+  AUDIT: 'discharge_flow_audit',
+  SESSION: 'discharge_flow_session',
+  ENCOUNTERS: 'discharge_flow_encounters',
+  MAPPING_PROFILES: 'discharge_flow_mapping_profiles',
 };
 
 /**
- * Generate a unique ID for tasks
+ * Read raw tasks from localStorage (stored status, no time-based recalculation)
  */
-function generateTaskId(): string {
-  return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+function loadStoredTasks(): Task[] {
+  const data = localStorage.getItem(STORAGE_KEYS.TASKS);
+  return data ? deserializeTasksFromStorage(data) : [];
 }
 
 /**
- * Calculate the discharge datetime from patient data
+ * Write tasks to localStorage
  */
-function getDischargeDateTime(patient: Patient): Date {
-  const dateStr = patient.dischargeDate;
-  const timeStr = patient.dischargeTime || '00:00';
-  return new Date(`${dateStr}T${timeStr}:00`);
-}
-
-/**
- * Generate tasks for a patient based on task rules
- */
-function generateTasksForPatient(patient: Patient): Task[] {
-  const dischargeDateTime = getDischargeDateTime(patient);
-  const tasks: Task[] = [];
-
-  for (const rule of TASK_RULES) {
-    // Check if this task applies to this patient
-    if (!rule.condition(patient)) {
-      continue;
-    }
-
-    const dueStart = new Date(dischargeDateTime.getTime() + rule.windowStartHours * 60 * 60 * 1000);
-    const dueEnd = new Date(dischargeDateTime.getTime() + rule.windowEndHours * 60 * 60 * 1000);
-
-    tasks.push({
-      id: generateTaskId(),
-      patientId: patient.patientId,
-      type: rule.type,
-      status: 'pending',
-      dueStart,
-      dueEnd,
-    });
-  }
-
-  return tasks;
-}
-
-/**
- * Calculate the current status of a task based on time
- */
-function calculateTaskStatus(task: Task): TaskStatus {
-  if (task.status === 'completed') {
-    return 'completed';
-  }
-
-  const now = new Date();
-  const dueStart = new Date(task.dueStart);
-  const dueEnd = new Date(task.dueEnd);
-
-  if (now < dueStart) {
-    return 'upcoming';
-  } else if (now > dueEnd) {
-    return 'overdue';
-  } else {
-    return 'pending';
-  }
+function saveTasks(tasks: Task[]): void {
+  localStorage.setItem(STORAGE_KEYS.TASKS, serializeTasksForStorage(tasks));
 }
 
 /**
@@ -83,13 +116,9 @@ export function initializeDatabase(): void {
     // Store seed patients
     localStorage.setItem(STORAGE_KEYS.PATIENTS, JSON.stringify(SEED_PATIENTS));
 
-    // Generate tasks for each patient
-    const allTasks: Task[] = [];
-    for (const patient of SEED_PATIENTS) {
-      const tasks = generateTasksForPatient(patient);
-      allTasks.push(...tasks);
-    }
-    localStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(allTasks));
+    // Generate tasks for each patient from the active rules
+    const { rules, calendar } = getTaskRuleSet();
+    saveTasks(generateTasksForPatients(SEED_PATIENTS, rules, calendar));
 
     // Mark as initialized
     localStorage.setItem(STORAGE_KEYS.INITIALIZED, 'true');
@@ -103,9 +132,46 @@ export function resetDatabase(): void {
   localStorage.removeItem(STORAGE_KEYS.PATIENTS);
   localStorage.removeItem(STORAGE_KEYS.TASKS);
   localStorage.removeItem(STORAGE_KEYS.INITIALIZED);
+  localStorage.removeItem(STORAGE_KEYS.TASK_RULES);
+  localStorage.removeItem(STORAGE_KEYS.AUDIT);
+  localStorage.removeItem(STORAGE_KEYS.ENCOUNTERS);
+  localStorage.removeItem(STORAGE_KEYS.MAPPING_PROFILES);
   initializeDatabase();
 }
 
+// =============================================================================
+// Sign-in
+// =============================================================================
+
+/**
+ * Sign in as one of the seeded demo users.
+ * Resolves to the user, or null if the username or password is wrong.
+ */
+export async function login(username: string, password: string): Promise<User | null> {
+  const user = SEED_USERS.find((u) => u.id === username.trim());
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+  localStorage.setItem(STORAGE_KEYS.SESSION, user.id);
+  return toUser(user);
+}
+
+/**
+ * Sign out the current user.
+ */
+export function logout(): void {
+  localStorage.removeItem(STORAGE_KEYS.SESSION);
+}
+
+/**
+ * Get the signed-in user, or null if nobody is signed in.
+ */
+export function getCurrentUser(): User | null {
+  const userId = localStorage.getItem(STORAGE_KEYS.SESSION);
+  const user = SEED_USERS.find((u) => u.id === userId);
+  return user ? toUser(user) : null;
+}
+
 // =============================================================================
 // Patient Operations
 // =============================================================================
@@ -136,6 +202,128 @@ export function searchPatientsByName(query: string): Patient[] {
   return patients.filter((p) => p.patientName.toLowerCase().includes(lowerQuery));
 }
 
+// =============================================================================
+// Patient Import
+// =============================================================================
+
+/**
+ * Get the patient CSV mapping profiles, the standard profile first, then
+ * saved profiles by name.
+ */
+export function getMappingProfiles(): PatientMappingProfile[] {
+  const data = localStorage.getItem(STORAGE_KEYS.MAPPING_PROFILES);
+  const saved = data ? (JSON.parse(data) as unknown[]).map(parseMappingProfile) : [];
+  return [STANDARD_MAPPING_PROFILE, ...saved];
+}
+
+/**
+ * Save a mapping profile, replacing any saved profile with the same ID.
+ * Throws MappingProfileValidationError if invalid.
+ */
+export function saveMappingProfile(profile: PatientMappingProfile): PatientMappingProfile {
+  parseMappingProfile(profile);
+  const saved = getMappingProfiles()
+    .filter((p) => p.id !== STANDARD_MAPPING_PROFILE.id && p.id !== profile.id)
+    .concat(profile)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(STORAGE_KEYS.MAPPING_PROFILES, JSON.stringify(saved));
+  return profile;
+}
+
+/**
+ * Delete a saved mapping profile. Returns false if there is no such profile.
+ */
+export function deleteMappingProfile(profileId: string): boolean {
+  const profiles = getMappingProfiles();
+  if (profileId === STANDARD_MAPPING_PROFILE.id || !profiles.some((p) => p.id === profileId)) {
+    return false;
+  }
+  const saved = profiles.filter((p) => p.id !== STANDARD_MAPPING_PROFILE.id && p.id !== profileId);
+  localStorage.setItem(STORAGE_KEYS.MAPPING_PROFILES, JSON.stringify(saved));
+  return true;
+}
+
+/**
+ * Import patients from a CSV, read with the given mapping profile. Rows with
+ * errors are skipped and the rest merged into the stored patients by MRN; new
+ * patients get tasks from the active rules, and updated patients' tasks are
+ * reconciled with their new details. Throws if the profile does not exist or
+ * the file has no usable rows at all.
+ */
+export function importPatients(
+  csv: string,
+  importedBy: string,
+  profileId: string = STANDARD_MAPPING_PROFILE.id
+): PatientImportSummary {
+  const profile = getMappingProfiles().find((p) => p.id === profileId);
+  if (!profile) {
+    throw new Error(`Mapping profile '${profileId}' not found`);
+  }
+  const now = new Date();
+  const { timeZone } = getTaskRuleSet().calendar ?? DEFAULT_WORKING_CALENDAR;
+  const preview = previewPatientCSV(csv, profile, toZonedDateKey(now, timeZone));
+  if (preview.errors.length > 0) {
+    throw new Error(preview.errors[0]);
+  }
+
+  const imported = preview.rows.flatMap((row) => (row.patient ? [row.patient] : []));
+  const { patients, result } = mergePatients(getAllPatients(), imported);
+  localStorage.setItem(STORAGE_KEYS.PATIENTS, JSON.stringify(patients));
+
+  for (const patient of result.added) {
+    appendAuditEntry(auditPatientImport(undefined, patient, importedBy, now));
+    reconcileStoredTasks(patient, importedBy, now);
+  }
+  for (const { before, after } of result.updated) {
+    appendAuditEntry(auditPatientImport(before, after, importedBy, now));
+    reconcileStoredTasks(after, importedBy, now);
+  }
+
+  return {
+    added: result.added.map((p) => p.patientId),
+    updated: result.updated.map(({ after }) => after.patientId),
+    unchanged: result.unchanged.map((p) => p.patientId),
+    skippedRows: preview.rows.filter((row) => !row.patient).map((row) => row.rowNumber),
+  };
+}
+
+/**
+ * Bring a patient's stored tasks in line with their current details and the
+ * active rules (see planTaskReconciliation), auditing reschedules and
+ * cancellations.
+ */
+function reconcileStoredTasks(patient: Patient, actor: string, now: Date): void {
+  const { rules, calendar } = getTaskRuleSet();
+  const encounters = getPatientEncounters(patient, loadEncounters());
+  const plan = planTaskReconciliation(
+    loadStoredTasks(),
+    patient,
+    encounters[encounters.length - 1],
+    actor,
+    rules,
+    calendar
+  );
+
+  if (plan.add.length > 0) {
+    saveTasks(addTasksToCollection(loadStoredTasks(), plan.add).tasks);
+  }
+  if (plan.reschedule.length > 0) {
+    const tasks = loadStoredTasks();
+    const { tasks: updatedTasks, result } = rescheduleTasksInCollection(tasks, plan.reschedule);
+    if (!result.success || !result.tasks) {
+      throw new Error(result.error);
+    }
+    saveTasks(updatedTasks);
+    for (const task of updateTaskStatuses(result.tasks, now)) {
+      const before = updateTaskStatuses(tasks.filter((t) => t.id === task.id), now)[0];
+      appendAuditEntry(auditTaskChange('task.rescheduled', before, task, actor, now));
+    }
+  }
+  for (const { taskId, change } of plan.cancel) {
+    updateStoredTask(taskId, 'task.closed', actor, (tasks) => changeTaskStatusInCollection(tasks, taskId, change, now));
+  }
+}
+
 // =============================================================================
 // Task Operations
 // =============================================================================
@@ -145,21 +333,7 @@ export function searchPatientsByName(query: string): Patient[] {
  */
 export function getAllTasks(): Task[] {
   initializeDatabase();
-  const data = localStorage.getItem(STORAGE_KEYS.TASKS);
-  const tasks: Task[] = data ? JSON.parse(data) : [];
-
-  // Update status based on current time and convert date strings back to Date objects
-  return tasks.map((task) => ({
-    ...task,
-    dueStart: new Date(task.dueStart),
-    dueEnd: new Date(task.dueEnd),
-    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
-    status: calculateTaskStatus({
-      ...task,
-      dueStart: new Date(task.dueStart),
-      dueEnd: new Date(task.dueEnd),
-    }),
-  }));
+  return updateTaskStatuses(loadStoredTasks());
 }
 
 /**
@@ -182,15 +356,7 @@ export function getTasksByStatus(status: TaskStatus): Task[] {
  * Get urgent tasks (due within specified hours, default 4)
  */
 export function getUrgentTasks(hoursThreshold: number = 4): Task[] {
-  const tasks = getAllTasks();
-  const now = new Date();
-  const threshold = new Date(now.getTime() + hoursThreshold * 60 * 60 * 1000);
-
-  return tasks.filter((t) => {
-    if (t.status === 'completed') return false;
-    const dueEnd = new Date(t.dueEnd);
-    return dueEnd <= threshold && dueEnd >= now;
-  });
+  return filterUrgentTasks(getAllTasks(), hoursThreshold);
 }
 
 /**
@@ -201,60 +367,454 @@ export function getOverdueTasks(): Task[] {
 }
 
 /**
- * Mark a task as completed
+ * Throw the error for a refused update: a TaskConflictError if the task had
+ * changed since the expected version (e.g. in another tab), otherwise the
+ * engine's error.
  */
-export function completeTask(taskId: string, completedBy?: string): Task | null {
-  const data = localStorage.getItem(STORAGE_KEYS.TASKS);
-  const tasks: Task[] = data ? JSON.parse(data) : [];
+function throwRefusal(result: { error?: string; conflict?: Task }): never {
+  if (result.conflict) {
+    throw new TaskConflictError(result.error ?? 'Task was changed by someone else', updateTaskStatuses([result.conflict])[0]);
+  }
+  throw new Error(result.error);
+}
 
-  const taskIndex = tasks.findIndex((t) => t.id === taskId);
-  if (taskIndex === -1) {
+/**
+ * Apply an engine update to one stored task, save the result and record it in
+ * the audit log. Returns null if the task does not exist; throws with the
+ * engine's error if the update is refused.
+ */
+function updateStoredTask(
+  taskId: string,
+  action: AuditAction,
+  actor: string | undefined,
+  update: (tasks: Task[]) => { tasks: Task[]; result: { success: boolean; task?: Task; error?: string; conflict?: Task } }
+): Task | null {
+  const tasks = loadStoredTasks();
+  const before = tasks.find((t) => t.id === taskId);
+  if (!before) {
     return null;
   }
 
-  tasks[taskIndex] = {
-    ...tasks[taskIndex],
-    status: 'completed',
-    completedAt: new Date(),
-    completedBy,
-  };
+  const { tasks: updatedTasks, result } = update(tasks);
+  if (!result.success || !result.task) {
+    throwRefusal(result);
+  }
 
-  localStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(tasks));
+  saveTasks(updatedTasks);
+  const updated = updateTaskStatuses([result.task])[0];
+  // An update that changed nothing (e.g. saving a note unedited) is not recorded
+  if (JSON.stringify(result.task) !== JSON.stringify(before)) {
+    appendAuditEntry(auditTaskChange(action, updateTaskStatuses([before])[0], updated, actor));
+  }
+  return updated;
+}
 
-  // Return the updated task with proper Date objects
-  return {
-    ...tasks[taskIndex],
-    dueStart: new Date(tasks[taskIndex].dueStart),
-    dueEnd: new Date(tasks[taskIndex].dueEnd),
-    completedAt: new Date(tasks[taskIndex].completedAt!),
-  };
+/**
+ * Mark a task as completed.
+ * Returns null if the task does not exist; throws if the task cannot be
+ * completed in its current status (e.g. its window has not opened yet).
+ *
+ * Like every task change, it throws a TaskConflictError if expectedVersion is
+ * given and the task has changed since.
+ */
+export function completeTask(taskId: string, completedBy?: string, expectedVersion?: number): Task | null {
+  return updateStoredTask(taskId, 'task.completed', completedBy, (tasks) =>
+    completeTaskInCollection(tasks, taskId, completedBy, new Date(), expectedVersion));
 }
 
 /**
- * Add a note to a task
+ * Cancel a task, mark it not applicable, or reopen it, giving a reason.
+ * Returns null if the task does not exist; throws if the change is invalid
+ * or not allowed from the task's status (e.g. reopening an open task).
  */
-export function addTaskNote(taskId: string, note: string): Task | null {
-  const data = localStorage.getItem(STORAGE_KEYS.TASKS);
-  const tasks: Task[] = data ? JSON.parse(data) : [];
+export function changeTaskStatus(taskId: string, input: TaskStatusChangeInput, expectedVersion?: number): Task | null {
+  const action = input.action === 'reopened' ? 'task.reopened' : 'task.closed';
+  return updateStoredTask(taskId, action, input.changedBy, (tasks) =>
+    changeTaskStatusInCollection(tasks, taskId, input, new Date(), expectedVersion));
+}
 
-  const taskIndex = tasks.findIndex((t) => t.id === taskId);
-  if (taskIndex === -1) {
+/**
+ * Append a note to a task's thread.
+ * Returns null if the task does not exist; throws if the note is empty.
+ */
+export function addTaskNote(taskId: string, text: string, author: string, expectedVersion?: number): Task | null {
+  return updateStoredTask(taskId, 'task.note_added', author, (tasks) =>
+    addNoteToTaskInCollection(tasks, taskId, createTaskNote(text, author), expectedVersion));
+}
+
+/**
+ * Edit a note, keeping its previous text in the change trail.
+ * Returns null if the task does not exist; throws if the note is missing or redacted.
+ */
+export function editTaskNote(
+  taskId: string,
+  noteId: string,
+  text: string,
+  editedBy: string,
+  expectedVersion?: number
+): Task | null {
+  return updateStoredTask(taskId, 'task.note_edited', editedBy, (tasks) =>
+    editNoteInCollection(tasks, taskId, noteId, text, editedBy, new Date(), expectedVersion));
+}
+
+/**
+ * Redact a note's text, recording who redacted it and why.
+ * Returns null if the task does not exist; throws if the note is missing or already redacted.
+ */
+export function redactTaskNote(
+  taskId: string,
+  noteId: string,
+  redactedBy: string,
+  reason: string,
+  expectedVersion?: number
+): Task | null {
+  return updateStoredTask(taskId, 'task.note_redacted', redactedBy, (tasks) =>
+    redactNoteInCollection(tasks, taskId, noteId, redactedBy, reason, new Date(), expectedVersion));
+}
+
+/**
+ * Log a contact attempt on an outreach task.
+ * Returns null if the task does not exist; throws if the attempt is invalid
+ * or cannot be logged on the task (e.g. it is already completed).
+ */
+export function logContactAttempt(taskId: string, input: ContactAttemptInput, expectedVersion?: number): Task | null {
+  const validationError = validateContactAttemptInput(input);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+  return updateStoredTask(taskId, 'task.contact_logged', input.attemptedBy, (tasks) =>
+    logContactAttemptInCollection(tasks, taskId, createContactAttempt(input), expectedVersion));
+}
+
+// =============================================================================
+// Task Assignment
+// =============================================================================
+
+/**
+ * Get the demo users who can be given tasks.
+ */
+export function getAssignableStaff(): User[] {
+  return SEED_USERS.map(toUser).filter(isAssignableStaff);
+}
+
+/**
+ * Apply assignments, save them and record each in the audit log.
+ * Throws with the engine's error if any assignment is refused (none are saved).
+ */
+function applyAssignments(assignments: TaskAssignment[], assignedBy: string, reason?: string): Task[] {
+  const tasks = loadStoredTasks();
+  const { tasks: updatedTasks, result } = assignTasksInCollection(tasks, assignments, reason);
+  if (!result.success || !result.tasks) {
+    throwRefusal(result);
+  }
+
+  saveTasks(updatedTasks);
+  const assigned = updateTaskStatuses(result.tasks);
+  for (const task of assigned) {
+    const before = updateTaskStatuses(tasks.filter((t) => t.id === task.id))[0];
+    appendAuditEntry(auditTaskChange('task.assigned', before, task, assignedBy));
+  }
+  return assigned;
+}
+
+/**
+ * Assign, reassign or unassign (null) a task.
+ * Returns null if the task does not exist; throws if the assignment is refused
+ * (e.g. taking the task from someone without a reason).
+ */
+export function assignTask(
+  taskId: string,
+  assignedTo: string | null,
+  assignedBy: string,
+  reason?: string,
+  expectedVersion?: number
+): Task | null {
+  if (!loadStoredTasks().some((t) => t.id === taskId)) {
+    return null;
+  }
+  return applyAssignments([{ taskId, assignedTo, expectedVersion }], assignedBy, reason)[0];
+}
+
+/**
+ * Give all of a patient's open tasks to one owner (or unassign them with null).
+ * Returns the changed tasks; throws if any assignment is refused.
+ */
+export function assignPatientTasks(
+  patientId: string,
+  assignedTo: string | null,
+  assignedBy: string,
+  reason?: string
+): Task[] {
+  return applyAssignments(planPatientAssignment(loadStoredTasks(), patientId, assignedTo), assignedBy, reason);
+}
+
+/**
+ * Assign every open, unassigned task using a strategy. Returns the assigned tasks.
+ */
+export function autoAssignTasks(strategy: AssignmentStrategy, assignedBy: string): Task[] {
+  const assignments = planAutoAssignment(getAllTasks(), getAllPatients(), getAssignableStaff(), strategy);
+  return applyAssignments(assignments, assignedBy, `Auto-assigned: ${ASSIGNMENT_STRATEGY_LABELS[strategy]}`);
+}
+
+// =============================================================================
+// Encounters
+// =============================================================================
+
+/**
+ * Read recorded readmissions (for all patients) from localStorage
+ */
+function loadEncounters(): Encounter[] {
+  const data = localStorage.getItem(STORAGE_KEYS.ENCOUNTERS);
+  return data ? JSON.parse(data) : [];
+}
+
+function saveEncounters(encounters: Encounter[]): void {
+  localStorage.setItem(STORAGE_KEYS.ENCOUNTERS, JSON.stringify(encounters));
+}
+
+/**
+ * Get a patient's encounters, oldest first (empty if the patient does not exist).
+ */
+export function getEncounters(patientId: string): Encounter[] {
+  const patient = getPatientById(patientId);
+  return patient ? getPatientEncounters(patient, loadEncounters()) : [];
+}
+
+/**
+ * Record a readmission and cancel the patient's open tasks.
+ * Returns null if the patient does not exist; throws if the admission is
+ * invalid or the patient is still admitted.
+ */
+export function recordAdmission(patientId: string, input: AdmissionInput, recordedBy: string): Encounter | null {
+  const patient = getPatientById(patientId);
+  if (!patient) {
     return null;
   }
 
-  tasks[taskIndex] = {
-    ...tasks[taskIndex],
-    notes: note,
+  const now = new Date();
+  const { encounters, result } = admitPatientInCollection(loadEncounters(), patient, input);
+  if (!result.success || !result.encounter) {
+    throw new Error(result.error);
+  }
+  saveEncounters(encounters);
+  appendAuditEntry(auditEncounterChange('encounter.admitted', result.encounter, recordedBy, now));
+
+  for (const { taskId, change } of planReadmissionClosures(getAllTasks(), result.encounter, recordedBy)) {
+    updateStoredTask(taskId, 'task.closed', recordedBy, (tasks) =>
+      changeTaskStatusInCollection(tasks, taskId, change, now));
+  }
+  return result.encounter;
+}
+
+/**
+ * Record the discharge ending a patient's current encounter and generate its
+ * tasks from the active rules.
+ * Returns null if the patient does not exist; throws if the discharge is
+ * invalid or the encounter is not the one the patient is admitted for.
+ */
+export function recordDischarge(
+  patientId: string,
+  encounterId: string,
+  input: DischargeInput,
+  recordedBy: string
+): Encounter | null {
+  const patient = getPatientById(patientId);
+  if (!patient) {
+    return null;
+  }
+
+  const { encounters, result } = dischargePatientInCollection(loadEncounters(), patient, encounterId, input);
+  if (!result.success || !result.encounter) {
+    throw new Error(result.error);
+  }
+  saveEncounters(encounters);
+
+  const { rules, calendar } = getTaskRuleSet();
+  const generated = generateTasksForEncounter(patient, result.encounter, rules, calendar);
+  saveTasks(addTasksToCollection(loadStoredTasks(), generated).tasks);
+  appendAuditEntry(auditEncounterChange('encounter.discharged', result.encounter, recordedBy));
+  return result.encounter;
+}
+
+// =============================================================================
+// Task Escalation
+// =============================================================================
+
+/**
+ * Actor recorded on escalations, which no one performs by hand.
+ */
+const ESCALATION_ACTOR = 'system';
+
+/**
+ * Fire every escalation tier that is due, save it and record each escalated
+ * task in the audit log. Demo mode has no scheduler, so this runs whenever
+ * tasks are read through the repository. Returns the escalated tasks.
+ */
+export function escalateDueTasks(now: Date = new Date()): Task[] {
+  initializeDatabase();
+  const tasks = loadStoredTasks();
+  const plans = planEscalations(
+    updateTaskStatuses(tasks, now),
+    getAllPatients(),
+    SEED_USERS.map(toUser),
+    getTaskRuleSet().escalations ?? [],
+    now
+  );
+  if (plans.length === 0) {
+    return [];
+  }
+
+  const { tasks: updatedTasks, result } = escalateTasksInCollection(tasks, plans);
+  if (!result.success || !result.tasks) {
+    throw new Error(result.error);
+  }
+
+  saveTasks(updatedTasks);
+  const escalated = updateTaskStatuses(result.tasks, now);
+  for (const task of escalated) {
+    const before = updateTaskStatuses(tasks.filter((t) => t.id === task.id), now)[0];
+    appendAuditEntry(auditTaskChange('task.escalated', before, task, ESCALATION_ACTOR, now));
+  }
+  return escalated;
+}
+
+/**
+ * Get open escalated tasks, highest level first.
+ */
+export function getEscalatedTasks(): Task[] {
+  return findEscalatedTasks(getAllTasks());
+}
+
+// =============================================================================
+// Audit Log
+// =============================================================================
+
+function loadAuditEntries(): AuditEntry[] {
+  const data = localStorage.getItem(STORAGE_KEYS.AUDIT);
+  return data ? (JSON.parse(data) as StoredAuditEntry[]).map(deserializeAuditEntry) : [];
+}
+
+function appendAuditEntry(entry: AuditEntry): void {
+  const entries = [...loadAuditEntries(), entry];
+  localStorage.setItem(STORAGE_KEYS.AUDIT, JSON.stringify(entries.map(serializeAuditEntry)));
+}
+
+/**
+ * Call a listener with each audit entry recorded in another tab (the browser
+ * raises storage events only in the other tabs). Returns a function that
+ * stops watching.
+ */
+export function watchAuditLog(listener: (entry: AuditEntry) => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEYS.AUDIT || !event.newValue) {
+      return;
+    }
+    const previousCount = event.oldValue ? (JSON.parse(event.oldValue) as StoredAuditEntry[]).length : 0;
+    const entries = JSON.parse(event.newValue) as StoredAuditEntry[];
+    entries.slice(previousCount).forEach((entry) => listener(deserializeAuditEntry(entry)));
   };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
 
-  localStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(tasks));
+/**
+ * Get audit entries matching a query, newest first.
+ */
+export function getAuditLog(query: AuditQuery = {}): AuditEntry[] {
+  return queryAuditEntries(loadAuditEntries(), query);
+}
 
-  return {
-    ...tasks[taskIndex],
-    dueStart: new Date(tasks[taskIndex].dueStart),
-    dueEnd: new Date(tasks[taskIndex].dueEnd),
-    completedAt: tasks[taskIndex].completedAt ? new Date(tasks[taskIndex].completedAt) : undefined,
+// =============================================================================
+// Task Rules
+// =============================================================================
+
+/**
+ * Get the active task rule set (built-in defaults until one is saved)
+ */
+export function getTaskRuleSet(): TaskRuleSet {
+  const data = localStorage.getItem(STORAGE_KEYS.TASK_RULES);
+  return data ? parseTaskRuleSet(JSON.parse(data)) : DEFAULT_TASK_RULE_SET;
+}
+
+/**
+ * Save an edited rule set. The edit must be based on the current version;
+ * throws TaskRuleValidationError if invalid, or Error if the version is stale.
+ * Every patient's tasks are then reconciled against the new rules, on behalf
+ * of savedBy. An omitted calendar or escalations list keeps the current one.
+ */
+export function saveTaskRuleSet(ruleSet: TaskRuleSet, savedBy: string, now: Date = new Date()): TaskRuleSet {
+  const current = getTaskRuleSet();
+  parseTaskRuleSet(ruleSet);
+  if (ruleSet.version !== current.version) {
+    throw new Error(`Rules were changed by someone else (version ${current.version}); reload and try again`);
+  }
+
+  const saved = {
+    version: current.version + 1,
+    rules: ruleSet.rules,
+    calendar: ruleSet.calendar ?? current.calendar,
+    escalations: ruleSet.escalations ?? current.escalations,
   };
+  localStorage.setItem(STORAGE_KEYS.TASK_RULES, JSON.stringify(saved));
+  appendAuditEntry(auditRuleSetUpdate(current, saved, savedBy, now));
+  for (const patient of getAllPatients()) {
+    reconcileStoredTasks(patient, savedBy, now);
+  }
+  return saved;
+}
+
+// =============================================================================
+// Backup and Restore
+// =============================================================================
+
+/**
+ * Back up everything in localStorage except the demo users and the session.
+ */
+export function exportBackup(now: Date = new Date()): DataBackup {
+  return createBackup(
+    {
+      patients: getAllPatients(),
+      tasks: loadStoredTasks(),
+      encounters: loadEncounters(),
+      ruleSet: getTaskRuleSet(),
+      mappingProfiles: getMappingProfiles().filter((p) => p.id !== STANDARD_MAPPING_PROFILE.id),
+      auditLog: loadAuditEntries(),
+    },
+    now
+  );
+}
+
+/**
+ * Replace the patients, tasks, encounters, rules and mapping profiles with a
+ * backup's. The restored rules get the next version number so open editors
+ * see them as changed. The audit log is append-only: the backup's entries it
+ * does not have yet are added, and the restore itself is audited. Throws
+ * BackupValidationError if the backup is invalid, leaving everything as it was.
+ */
+export function restoreBackup(backup: DataBackup, restoredBy: string, now: Date = new Date()): BackupRestoreSummary {
+  const data = parseBackup(backup);
+  const current = getTaskRuleSet();
+
+  localStorage.setItem(STORAGE_KEYS.PATIENTS, JSON.stringify(data.patients));
+  saveTasks(data.tasks);
+  saveEncounters(data.encounters);
+  localStorage.setItem(STORAGE_KEYS.TASK_RULES, JSON.stringify({ ...data.ruleSet, version: current.version + 1 }));
+  localStorage.setItem(STORAGE_KEYS.MAPPING_PROFILES, JSON.stringify(data.mappingProfiles));
+  localStorage.setItem(STORAGE_KEYS.INITIALIZED, 'true');
+
+  const entries = loadAuditEntries();
+  const known = new Set(entries.map((entry) => entry.id));
+  const added = data.auditLog.filter((entry) => !known.has(entry.id));
+  const summary: BackupRestoreSummary = {
+    patients: data.patients.length,
+    tasks: data.tasks.length,
+    encounters: data.encounters.length,
+    mappingProfiles: data.mappingProfiles.length,
+    auditEntries: added.length,
+  };
+  const restored = auditBackupRestore(data.exportedAt, summary, restoredBy, now);
+  localStorage.setItem(STORAGE_KEYS.AUDIT, JSON.stringify([...entries, ...added, restored].map(serializeAuditEntry)));
+  return summary;
 }
 
 // =============================================================================
@@ -264,27 +824,18 @@ export function addTaskNote(taskId: string, note: string): Task | null {
 /**
  * Get dashboard statistics
  */
-export function getDashboardStats(): {
-  totalPatients: number;
-  pendingTasks: number;
-  overdueTasks: number;
-  completedToday: number;
-  urgentTasks: number;
-} {
+export function getDashboardStats(): DashboardStats {
   const patients = getAllPatients();
   const tasks = getAllTasks();
-  const now = new Date();
-  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const { timeZone } = getTaskRuleSet().calendar ?? DEFAULT_WORKING_CALENDAR;
 
   return {
     totalPatients: patients.length,
     pendingTasks: tasks.filter((t) => t.status === 'pending').length,
     overdueTasks: tasks.filter((t) => t.status === 'overdue').length,
-    completedToday: tasks.filter((t) => {
-      if (t.status !== 'completed' || !t.completedAt) return false;
-      const completedAt = new Date(t.completedAt);
-      return completedAt >= startOfDay;
-    }).length,
-    urgentTasks: getUrgentTasks().length,
+    completedToday: getTasksCompletedToday(tasks, new Date(), timeZone).length,
+    closedTasks: getClosedTasks(tasks).length,
+    urgentTasks: filterUrgentTasks(tasks).length,
+    unassignedTasks: countUnassignedTasks(tasks),
   };
 }
@@ -0,0 +1,145 @@
+import type {
+  AdmissionInput,
+  AuditEntry,
+  AuditQuery,
+  AssignmentStrategy,
+  BackupRestoreSummary,
+  ContactAttemptInput,
+  DashboardStats,
+  DischargeInput,
+  Encounter,
+  LiveUpdate,
+  Patient,
+  PatientImportSummary,
+  PatientMappingProfile,
+  Task,
+  TaskRuleSet,
+  TaskStatusChangeInput,
+  User,
+} from '@shared/types';
+import type { DataBackup } from '@shared/backup';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { createApiRepository } from './apiRepository';
+
+/**
+ * Data-access interface for the client.
+ *
+ * Views talk to this instead of a concrete store so the same UI can run
+ * offline against localStorage (demo mode) or against the shared API server.
+ */
+export interface DischargeRepository {
+  /** Rejects when the username or password is wrong. */
+  login(username: string, password: string): Promise<User>;
+  logout(): Promise<void>;
+  /** The signed-in user, or null if the session is missing or expired. */
+  getCurrentUser(): Promise<User | null>;
+  getAllPatients(): Promise<Patient[]>;
+  getPatientById(patientId: string): Promise<Patient | null>;
+  /**
+   * Imports the valid rows of a patient CSV read with a mapping profile
+   * (default: standard), merging by MRN and generating or reconciling tasks;
+   * rejects when the profile does not exist or the file has no usable rows.
+   */
+  importPatients(csv: string, importedBy: string, profileId?: string): Promise<PatientImportSummary>;
+  /** Mapping profiles, the built-in standard profile first. */
+  getMappingProfiles(): Promise<PatientMappingProfile[]>;
+  /** Rejects with MappingProfileValidationError when the profile is invalid. */
+  saveMappingProfile(profile: PatientMappingProfile): Promise<PatientMappingProfile>;
+  /** Rejects when there is no saved profile with that ID. */
+  deleteMappingProfile(profileId: string): Promise<void>;
+  getAllTasks(): Promise<Task[]>;
+  getTasksByPatientId(patientId: string): Promise<Task[]>;
+  /**
+   * Task changes take the version of the task they were based on, and reject
+   * with TaskConflictError (carrying the current task) if it has changed since.
+   */
+  completeTask(taskId: string, completedBy?: string, expectedVersion?: number): Promise<Task | null>;
+  /** Cancels, marks not applicable or reopens; rejects when the reason is missing or the change is not allowed. */
+  changeTaskStatus(taskId: string, input: TaskStatusChangeInput, expectedVersion?: number): Promise<Task | null>;
+  addTaskNote(taskId: string, text: string, author: string, expectedVersion?: number): Promise<Task | null>;
+  /** Rejects when the note is missing or redacted. */
+  editTaskNote(
+    taskId: string,
+    noteId: string,
+    text: string,
+    editedBy: string,
+    expectedVersion?: number
+  ): Promise<Task | null>;
+  redactTaskNote(
+    taskId: string,
+    noteId: string,
+    redactedBy: string,
+    reason: string,
+    expectedVersion?: number
+  ): Promise<Task | null>;
+  /** Rejects when the attempt is invalid or the task does not accept attempts. */
+  logContactAttempt(taskId: string, input: ContactAttemptInput, expectedVersion?: number): Promise<Task | null>;
+  /** Users who can be given tasks. */
+  getAssignableStaff(): Promise<User[]>;
+  /** Rejects when the assignment is refused, e.g. reassigning without a reason. */
+  assignTask(
+    taskId: string,
+    assignedTo: string | null,
+    assignedBy: string,
+    reason?: string,
+    expectedVersion?: number
+  ): Promise<Task | null>;
+  /** Gives all of a patient's open tasks to one owner; resolves to the changed tasks. */
+  assignPatientTasks(patientId: string, assignedTo: string | null, assignedBy: string, reason?: string): Promise<Task[]>;
+  /** Assigns every open, unassigned task; resolves to the assigned tasks. */
+  autoAssignTasks(strategy: AssignmentStrategy, assignedBy: string): Promise<Task[]>;
+  /** The patient's encounters, oldest first; the last is the current one. */
+  getEncounters(patientId: string): Promise<Encounter[]>;
+  /** Records a readmission and cancels the patient's open tasks; rejects while the patient is still admitted. */
+  recordAdmission(patientId: string, input: AdmissionInput, recordedBy: string): Promise<Encounter | null>;
+  /** Records the discharge ending the current encounter and generates its tasks. */
+  recordDischarge(
+    patientId: string,
+    encounterId: string,
+    input: DischargeInput,
+    recordedBy: string
+  ): Promise<Encounter | null>;
+  /** Open tasks that have escalated, highest level first. */
+  getEscalatedTasks(): Promise<Task[]>;
+  getDashboardStats(): Promise<DashboardStats>;
+  getTaskRuleSet(): Promise<TaskRuleSet>;
+  /**
+   * Reconciles every patient's open tasks against the saved rules; rejects
+   * with TaskRuleValidationError when the rules are invalid.
+   */
+  saveTaskRuleSet(ruleSet: TaskRuleSet, savedBy: string): Promise<TaskRuleSet>;
+  /** Audit entries matching the query, newest first. */
+  getAuditLog(query?: AuditQuery): Promise<AuditEntry[]>;
+  /** The whole dataset except users and sessions, for download as JSON. */
+  exportBackup(): Promise<DataBackup>;
+  /**
+   * Replaces the dataset with a backup's, keeping the audit log and adding
+   * the backup's entries it lacks; rejects with BackupValidationError when
+   * the backup is invalid.
+   */
+  restoreBackup(backup: DataBackup, restoredBy: string): Promise<BackupRestoreSummary>;
+  /**
+   * Call a listener with changes made elsewhere, timed task events and
+   * periodic ticks. Returns a function that stops listening.
+   */
+  subscribe(listener: (update: LiveUpdate) => void): () => void;
+}
+
+export type DataSource = 'local' | 'api';
+
+/**
+ * Create a repository for the given data source.
+ */
+export function createRepository(source: DataSource, apiBaseUrl?: string): DischargeRepository {
+  return source === 'api' ? createApiRepository(apiBaseUrl) : createLocalStorageRepository();
+}
+
+/**
+ * Data source selected at build time via VITE_DATA_SOURCE (defaults to localStorage).
+ */
+export const DATA_SOURCE: DataSource = import.meta.env.VITE_DATA_SOURCE === 'api' ? 'api' : 'local';
+
+/**
+ * Repository used when no RepositoryContext provider overrides it.
+ */
+export const defaultRepository = createRepository(DATA_SOURCE, import.meta.env.VITE_API_BASE_URL);
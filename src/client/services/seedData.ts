@@ -1,4 +1,5 @@
 import { Patient } from '../../shared/types';
+import type { StoredUser } from '../../shared/auth';
 
 /**
  * Initial patient data seeded from patient_data.csv
@@ -82,7 +83,7 @@ export const SEED_PATIENTS: Patient[] = [
     phone: '555-0104',
     email: 'rtaylor@email.com',
     preferredLanguage: 'English',
-    admissionDate: '2026-01-12',
+    admissionDate: '2026-01-03',
     dischargeDate: '2026-01-06',
     dischargeTime: '09:00',
     lengthOfStay: 3,
@@ -351,3 +352,49 @@ export const SEED_PATIENTS: Patient[] = [
     notes: 'Holter monitor placed',
   },
 ];
+
+/**
+ * Demo-mode password for every seeded user (offline demo only; the API server
+ * has its own users).
+ */
+export const DEMO_PASSWORD = 'discharge-demo';
+
+/**
+ * Staff accounts seeded for demo mode: one per role, plus a second assistant
+ * so assignment has a team to share work across.
+ */
+export const SEED_USERS: StoredUser[] = [
+  {
+    id: 'admin',
+    displayName: 'Admin User',
+    role: 'admin',
+    passwordHash: 'pbkdf2_sha256$100000$2bca1006053bf753a9dda657d6437267$f2313d5ac7875b63aa31e5246a7f8b91eb41298fe689537c2990dc3bcb3cb68a',
+  },
+  {
+    id: 'sarah.chen',
+    displayName: 'Sarah Chen',
+    role: 'supervisor',
+    passwordHash: 'pbkdf2_sha256$100000$8bbd0690a5cc71f301cbe4568a251b76$986bc6001f4dc2a22ebbc86ff3cd06440453d5a8079cf15e800a69fbc005720e',
+  },
+  {
+    id: 'maria.lopez',
+    displayName: 'Maria Lopez',
+    role: 'nurse',
+    languages: ['English', 'Spanish'],
+    passwordHash: 'pbkdf2_sha256$100000$a435f0e8b7f055a2e495502aa40bfb69$3872f4a9f265959f1d84d2fa1b1ec5c2ed2c9cb06675b2837a127e1dab8e118a',
+  },
+  {
+    id: 'james.wu',
+    displayName: 'James Wu',
+    role: 'assistant',
+    languages: ['English', 'Mandarin'],
+    passwordHash: 'pbkdf2_sha256$100000$63382b3ad6ae2617af8bc1ca1a942538$0d465540a5bad318421edcbccbd9a56c5224960c325f4e21d543ceb8675aeb27',
+  },
+  {
+    id: 'grace.kim',
+    displayName: 'Grace Kim',
+    role: 'assistant',
+    languages: ['English', 'Korean'],
+    passwordHash: 'pbkdf2_sha256$100000$6305dde69d2aaed99ba9b4ebc3b027b0$1ac3dd95ea009626df1bb1803cdfb7d4d2b702c19e8803d3e035299041cee49a',
+  },
+];
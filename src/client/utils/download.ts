@@ -0,0 +1,11 @@
+/**
+ * Save text or binary content as a file through the browser's download prompt.
+ */
+export function downloadFile(filename: string, content: string | Uint8Array<ArrayBuffer>, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
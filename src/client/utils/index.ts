@@ -1 +1,3 @@
-export { parsePatientCSV } from './csvParser';
+export { downloadFile } from './download';
+export { readFileAsText } from './readFile';
+export { createXlsxWorkbook, XLSX_MIME_TYPE } from './xlsx';
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createXlsxWorkbook } from './xlsx';
+
+/**
+ * Read the files out of an uncompressed zip, in order.
+ */
+function readZip(zip: Uint8Array): Map<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    expect(view.getUint16(offset + 8, true)).toBe(0);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+    files.set(decoder.decode(zip.subarray(offset + 30, start)), decoder.decode(zip.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('createXlsxWorkbook', () => {
+  it('should write a workbook with a sheet per table', () => {
+    const files = readZip(createXlsxWorkbook([
+      { name: 'Tasks', table: { columns: ['Task', 'Attempts'], rows: [['Contact Patient', 2]] } },
+      { name: 'Patients', table: { columns: ['patient_id'], rows: [] } },
+    ]));
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Tasks" sheetId="1" r:id="rId1"/>');
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Patients" sheetId="2" r:id="rId2"/>');
+    expect(files.get('xl/worksheets/sheet1.xml')).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Contact Patient</t></is></c>' +
+      '<c r="B2"><v>2</v></c></row>'
+    );
+  });
+
+  it('should make the header row bold and keep text as written', () => {
+    const sheet = readZip(createXlsxWorkbook([
+      { name: 'Notes', table: { columns: ['Note'], rows: [['Dr. <Lee> & "team"\nnext line\u0007']] } },
+    ])).get('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr">');
+    expect(sheet).toContain('Dr. &lt;Lee&gt; &amp; &quot;team&quot;\nnext line</t>');
+  });
+
+  it('should name columns past Z with two letters', () => {
+    const columns = Array.from({ length: 28 }, (_, i) => `c${i}`);
+    const sheet = readZip(createXlsxWorkbook([{ name: 'Wide', table: { columns, rows: [] } }]))
+      .get('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<c r="Z1"');
+    expect(sheet).toContain('<c r="AB1"');
+  });
+
+  it('should refuse sheet names Excel does not accept', () => {
+    expect(() => createXlsxWorkbook([{ name: 'Tasks/Patients', table: { columns: [], rows: [] } }]))
+      .toThrow('Invalid sheet name "Tasks/Patients"');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AuditLogView } from './AuditLogView';
+import { RepositoryContext } from '../hooks/useRepository';
+import type { DischargeRepository } from '../services/repository';
+import { DEFAULT_TASK_RULE_SET } from '@shared/types';
+import type { AuditEntry, Patient, User } from '@shared/types';
+import { STANDARD_MAPPING_PROFILE } from '@shared/patientMapping';
+import { createBackup } from '@shared/backup';
+
+const SUPERVISOR: User = { id: 'supervisor', displayName: 'Supervisor', role: 'supervisor' };
+
+const patient = { patientId: 'MRN001', patientName: 'John Smith' } as Patient;
+
+const mockEntries: AuditEntry[] = [
+  {
+    id: 'audit_2',
+    at: new Date('2026-01-14T13:00:00Z'),
+    actor: 'nurse-2',
+    action: 'task.completed',
+    entityType: 'task',
+    entityId: 'task-1',
+    patientId: 'MRN001',
+    before: { status: 'pending' },
+    after: { status: 'completed', completedBy: 'nurse-2' },
+  },
+  {
+    id: 'audit_1',
+    at: new Date('2026-01-14T12:00:00Z'),
+    actor: 'nurse-1',
+    action: 'task.note_added',
+    entityType: 'task',
+    entityId: 'task-1',
+    patientId: 'MRN001',
+    after: { noteId: 'note-1', length: 14 },
+  },
+];
+
+const createRepository = (overrides: Partial<DischargeRepository> = {}): DischargeRepository => ({
+  getAllPatients: vi.fn(async () => [patient]),
+  getPatientById: vi.fn(async () => null),
+  importPatients: vi.fn(async () => ({ added: [], updated: [], unchanged: [], skippedRows: [] })),
+  getMappingProfiles: vi.fn(async () => [STANDARD_MAPPING_PROFILE]),
+  saveMappingProfile: vi.fn(async (profile) => profile),
+  deleteMappingProfile: vi.fn(async () => {}),
+  getAllTasks: vi.fn(async () => []),
+  getTasksByPatientId: vi.fn(async () => []),
+  completeTask: vi.fn(async () => null),
+  changeTaskStatus: vi.fn(async () => null),
+  addTaskNote: vi.fn(async () => null),
+  editTaskNote: vi.fn(async () => null),
+  redactTaskNote: vi.fn(async () => null),
+  logContactAttempt: vi.fn(async () => null),
+  getAssignableStaff: vi.fn(async () => []),
+  assignTask: vi.fn(async () => null),
+  assignPatientTasks: vi.fn(async () => []),
+  autoAssignTasks: vi.fn(async () => []),
+  getEncounters: vi.fn(async () => []),
+  recordAdmission: vi.fn(async () => null),
+  recordDischarge: vi.fn(async () => null),
+  getEscalatedTasks: vi.fn(async () => []),
+  getDashboardStats: vi.fn(async () => ({
+    totalPatients: 0, pendingTasks: 0, overdueTasks: 0, completedToday: 0, urgentTasks: 0,
+    unassignedTasks: 0, closedTasks: 0,
+  })),
+  getTaskRuleSet: vi.fn(async () => DEFAULT_TASK_RULE_SET),
+  saveTaskRuleSet: vi.fn(async (ruleSet) => ruleSet),
+  login: vi.fn(async () => SUPERVISOR),
+  logout: vi.fn(async () => {}),
+  getCurrentUser: vi.fn(async () => SUPERVISOR),
+  getAuditLog: vi.fn(async () => mockEntries),
+  exportBackup: vi.fn(async () => createBackup({
+    patients: [], tasks: [], encounters: [], ruleSet: DEFAULT_TASK_RULE_SET, mappingProfiles: [], auditLog: [],
+  })),
+  restoreBackup: vi.fn(async () => ({ patients: 0, tasks: 0, encounters: 0, mappingProfiles: 0, auditEntries: 0 })),
+  subscribe: vi.fn(() => () => {}),
+  ...overrides,
+});
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+async function renderAuditLogView(repository: DischargeRepository) {
+  render(
+    <RepositoryContext.Provider value={repository}>
+      <AuditLogView />
+    </RepositoryContext.Provider>
+  );
+  await screen.findByRole('heading', { name: 'Audit Log' });
+}
+
+describe('AuditLogView', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lists entries with their user, action and change', async () => {
+    await renderAuditLogView(createRepository());
+
+    expect(screen.getByText('Completed task', { selector: 'td' })).toBeInTheDocument();
+    expect(screen.getByText('nurse-1')).toBeInTheDocument();
+    expect(screen.getAllByText('John Smith', { selector: 'td' })).toHaveLength(2);
+    expect(screen.getByText('status: pending → completed; completedBy: nurse-2')).toBeInTheDocument();
+    expect(screen.getByText('noteId: note-1; length: 14')).toBeInTheDocument();
+  });
+
+  it('queries by patient, user and action', async () => {
+    const getAuditLog = vi.fn(async () => mockEntries);
+    await renderAuditLogView(createRepository({ getAuditLog }));
+    await screen.findByRole('option', { name: 'John Smith (MRN001)' });
+
+    fireEvent.change(screen.getByLabelText('Patient'), { target: { value: 'MRN001' } });
+    fireEvent.change(screen.getByLabelText('User'), { target: { value: 'nurse-2' } });
+    fireEvent.change(screen.getByLabelText('Action'), { target: { value: 'task.completed' } });
+
+    await vi.waitFor(() => expect(getAuditLog).toHaveBeenLastCalledWith({
+      patientId: 'MRN001',
+      actor: 'nurse-2',
+      action: 'task.completed',
+    }));
+  });
+
+  it('shows a message when nothing matches', async () => {
+    await renderAuditLogView(createRepository({ getAuditLog: vi.fn(async () => []) }));
+
+    expect(screen.getByText('No audit entries match the current filters.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export CSV' })).toBeDisabled();
+  });
+
+  it('exports the listed entries as CSV', async () => {
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:audit');
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    await renderAuditLogView(createRepository());
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export CSV' }));
+
+    const csv = await readBlob(createObjectURL.mock.calls[0][0]);
+    expect(csv.split('\r\n')).toHaveLength(4);
+    expect(csv).toContain('nurse-2,task.completed');
+    expect(click).toHaveBeenCalled();
+    click.mockRestore();
+  });
+
+  it('shows an error with retry when loading fails', async () => {
+    const getAuditLog = vi.fn()
+      .mockRejectedValueOnce(new Error('Server unavailable'))
+      .mockResolvedValue(mockEntries);
+    render(
+      <RepositoryContext.Provider value={createRepository({ getAuditLog })}>
+        <AuditLogView />
+      </RepositoryContext.Provider>
+    );
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load audit log: Server unavailable');
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText('Completed task', { selector: 'td' })).toBeInTheDocument();
+  });
+});
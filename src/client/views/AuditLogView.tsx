@@ -0,0 +1,169 @@
+import { useState, useMemo, useCallback } from 'react';
+import { Card, CardHeader, CardBody } from '../components/Card';
+import { Button } from '../components/Button';
+import { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from '../components/Table';
+import { StatusMessage } from '../components/StatusMessage';
+import { useAsyncData } from '../hooks/useAsyncData';
+import { useRepository } from '../hooks/useRepository';
+import { downloadFile } from '../utils/download';
+import { AUDIT_ACTION_LABELS, formatAuditEntriesAsCsv, serializeAuditEntry } from '@shared/audit';
+import { AUDIT_ACTIONS } from '@shared/types';
+import type { AuditAction, AuditEntry, AuditQuery, Patient } from '@shared/types';
+
+const EMPTY_PATIENTS: Patient[] = [];
+
+function formatDateTime(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Summarize changed values, e.g. "status: pending → completed".
+ */
+function formatChange(entry: AuditEntry): string {
+  const keys = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+  return keys
+    .filter(key => entry.after?.[key] !== undefined || entry.before?.[key] !== undefined)
+    .map(key => {
+      const before = entry.before?.[key];
+      const after = entry.after?.[key];
+      if (before === undefined) return `${key}: ${String(after)}`;
+      if (after === undefined || before === after) return `${key}: ${String(before)}`;
+      return `${key}: ${String(before)} → ${String(after)}`;
+    })
+    .join('; ');
+}
+
+/**
+ * Read-only view of the audit trail, filterable by patient, user and action.
+ */
+export function AuditLogView() {
+  const repository = useRepository();
+  const [patientId, setPatientId] = useState('');
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+
+  const query = useMemo<AuditQuery>(() => ({
+    patientId: patientId || undefined,
+    actor: actor.trim() || undefined,
+    action: action || undefined,
+  }), [patientId, actor, action]);
+
+  const loadEntries = useCallback(() => repository.getAuditLog(query), [repository, query]);
+  const loadPatients = useCallback(() => repository.getAllPatients(), [repository]);
+  const { data: entries, error, loading, reload } = useAsyncData(loadEntries);
+  const { data: patients = EMPTY_PATIENTS } = useAsyncData(loadPatients);
+
+  const patientNames = useMemo(
+    () => new Map(patients.map(patient => [patient.patientId, patient.patientName])),
+    [patients]
+  );
+
+  if (loading) {
+    return <StatusMessage variant="loading" message="Loading audit log..." />;
+  }
+
+  if (!entries) {
+    return (
+      <StatusMessage
+        variant="error"
+        message={`Failed to load audit log: ${error?.message}`}
+        onRetry={reload}
+      />
+    );
+  }
+
+  const handleExportCsv = () => {
+    downloadFile('audit-log.csv', formatAuditEntriesAsCsv(entries), 'text/csv');
+  };
+
+  const handleExportJson = () => {
+    downloadFile('audit-log.json', JSON.stringify(entries.map(serializeAuditEntry), null, 2), 'application/json');
+  };
+
+  return (
+    <div className="audit-log-view">
+      {error && (
+        <StatusMessage variant="error" message={`Failed to refresh audit log: ${error.message}`} onRetry={reload} />
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="audit-log-view__header">
+            <h2 className="audit-log-view__title">Audit Log</h2>
+            <div className="audit-log-view__actions">
+              <Button variant="secondary" size="sm" onClick={handleExportCsv} disabled={entries.length === 0}>
+                Export CSV
+              </Button>
+              <Button variant="secondary" size="sm" onClick={handleExportJson} disabled={entries.length === 0}>
+                Export JSON
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardBody>
+          <div className="audit-log-view__filters">
+            <label className="audit-log-view__filter">
+              <span className="audit-log-view__filter-label">Patient</span>
+              <select value={patientId} onChange={(e) => setPatientId(e.target.value)}>
+                <option value="">All Patients</option>
+                {patients.map(patient => (
+                  <option key={patient.patientId} value={patient.patientId}>
+                    {patient.patientName} ({patient.patientId})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="audit-log-view__filter">
+              <span className="audit-log-view__filter-label">User</span>
+              <input value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Any user" />
+            </label>
+            <label className="audit-log-view__filter">
+              <span className="audit-log-view__filter-label">Action</span>
+              <select value={action} onChange={(e) => setAction(e.target.value as AuditAction | '')}>
+                <option value="">All Actions</option>
+                {AUDIT_ACTIONS.map(value => (
+                  <option key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="audit-log-view__empty">No audit entries match the current filters.</p>
+          ) : (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableHeader>Time</TableHeader>
+                  <TableHeader>User</TableHeader>
+                  <TableHeader>Action</TableHeader>
+                  <TableHeader>Patient</TableHeader>
+                  <TableHeader>Record</TableHeader>
+                  <TableHeader>Change</TableHeader>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{formatDateTime(entry.at)}</TableCell>
+                    <TableCell>{entry.actor}</TableCell>
+                    <TableCell>{AUDIT_ACTION_LABELS[entry.action]}</TableCell>
+                    <TableCell>{patientNames.get(entry.patientId) ?? entry.patientId}</TableCell>
+                    <TableCell><code>{entry.entityId}</code></TableCell>
+                    <TableCell className="audit-log-view__change">{formatChange(entry)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
@@ -1,41 +1,136 @@
-import { useState } from 'react';
-import { Card, CardBody, Badge, PatientCard, TaskCard } from '../components';
+import { useCallback, useState } from 'react';
 import {
-  getAllPatients,
-  getAllTasks,
-  getDashboardStats,
-  initializeDatabase,
-  completeTask,
-  getTasksByPatientId,
-} from '../services';
-import type { Patient, Task } from '@shared/types';
-
-interface DashboardStats {
-  totalPatients: number;
-  pendingTasks: number;
-  overdueTasks: number;
-  completedToday: number;
-  urgentTasks: number;
-}
+  Card,
+  CardBody,
+  Badge,
+  Button,
+  PatientCard,
+  TaskCard,
+  NoteThread,
+  AssignmentForm,
+  AdmissionForm,
+  DischargeForm,
+  EncounterTimeline,
+  StatusMessage,
+} from '../components';
+import type { ContactAttemptDraft } from '../components';
+import { useAuth, useLiveData, useRepository } from '../hooks';
+import { canEditNote } from '@shared/auth';
+import { isOutreachTask, hasSuccessfulContact, isOpenTask } from '@shared/taskEngine';
+import { getTaskTypeLabel } from '@shared/taskRules';
+import { ESCALATION_RECIPIENT_LABELS } from '@shared/escalation';
+import { getFirstEncounter, isInHospital } from '@shared/encounters';
+import { DEFAULT_WORKING_CALENDAR } from '@shared/types';
+import type { AdmissionInput, DischargeInput, Encounter, Patient } from '@shared/types';
 
-// Initialize database on module load
-initializeDatabase();
+function formatDate(date: Date, timeZone: string, withTime: boolean = false): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'numeric',
+    day: 'numeric',
+    year: 'numeric',
+    ...(withTime && { hour: 'numeric', minute: '2-digit' }),
+    timeZone,
+  }).format(date);
+}
 
 export function Dashboard() {
-  const [patients, setPatients] = useState<Patient[]>(() => getAllPatients());
-  const [tasks, setTasks] = useState<Task[]>(() => getAllTasks());
-  const [stats, setStats] = useState<DashboardStats>(() => getDashboardStats());
+  const repository = useRepository();
+  const { user, can } = useAuth();
+  const loadData = useCallback(
+    () => Promise.all([
+      repository.getAllPatients(),
+      repository.getAllTasks(),
+      repository.getDashboardStats(),
+      repository.getAssignableStaff(),
+      repository.getEscalatedTasks(),
+      repository.getTaskRuleSet(),
+    ]),
+    [repository]
+  );
+  const { data, error, loading, reload } = useLiveData(loadData);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [assigningPatient, setAssigningPatient] = useState(false);
+  const [recordingEncounter, setRecordingEncounter] = useState(false);
+  const selectedPatientId = selectedPatient?.patientId;
+  const loadEncounters = useCallback(
+    (): Promise<Encounter[]> => (selectedPatientId ? repository.getEncounters(selectedPatientId) : Promise.resolve([])),
+    [repository, selectedPatientId]
+  );
+  const { data: encounters, reload: reloadEncounters } = useLiveData(loadEncounters);
+
+  if (loading) {
+    return <StatusMessage variant="loading" message="Loading dashboard..." />;
+  }
+
+  if (!data) {
+    return (
+      <StatusMessage
+        variant="error"
+        message={`Failed to load dashboard: ${error?.message}`}
+        onRetry={reload}
+      />
+    );
+  }
+
+  const [patients, tasks, stats, staff, escalatedTasks, ruleSet] = data;
+  const { timeZone } = ruleSet.calendar ?? DEFAULT_WORKING_CALENDAR;
+
+  /**
+   * Run a task change, show its error if it is refused, then refresh.
+   */
+  const runTaskAction = async (action: () => Promise<unknown>, failure: string) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(`${failure}: ${(err as Error).message}`);
+    }
+    reload();
+  };
+
+  const handleCompleteTask = (taskId: string) =>
+    runTaskAction(() => repository.completeTask(taskId, user.id), 'Could not complete task');
+
+  const handleLogContact = (taskId: string, attempt: ContactAttemptDraft) =>
+    runTaskAction(
+      () => repository.logContactAttempt(taskId, { ...attempt, attemptedBy: user.id }),
+      'Could not log contact attempt'
+    );
+
+  const handleAddNote = (taskId: string, text: string) =>
+    runTaskAction(() => repository.addTaskNote(taskId, text, user.id), 'Could not add note');
+
+  const handleEditNote = (taskId: string, noteId: string, text: string) =>
+    runTaskAction(() => repository.editTaskNote(taskId, noteId, text, user.id), 'Could not edit note');
+
+  const handleRedactNote = (taskId: string, noteId: string, reason: string) =>
+    runTaskAction(() => repository.redactTaskNote(taskId, noteId, user.id, reason), 'Could not redact note');
 
-  const refreshData = () => {
-    setPatients(getAllPatients());
-    setTasks(getAllTasks());
-    setStats(getDashboardStats());
+  const handleAssignTask = (taskId: string, assignedTo: string | null, reason?: string) =>
+    runTaskAction(() => repository.assignTask(taskId, assignedTo, user.id, reason), 'Could not assign task');
+
+  const handleAssignPatient = (patientId: string, assignedTo: string | null, reason?: string) => {
+    setAssigningPatient(false);
+    return runTaskAction(
+      () => repository.assignPatientTasks(patientId, assignedTo, user.id, reason),
+      'Could not assign patient'
+    );
   };
 
-  const handleCompleteTask = (taskId: string) => {
-    completeTask(taskId, 'Current User');
-    refreshData();
+  const handleRecordAdmission = async (patientId: string, input: AdmissionInput) => {
+    setRecordingEncounter(false);
+    await runTaskAction(() => repository.recordAdmission(patientId, input, user.id), 'Could not record readmission');
+    reloadEncounters();
+  };
+
+  const handleRecordDischarge = async (patientId: string, encounterId: string, input: DischargeInput) => {
+    setRecordingEncounter(false);
+    await runTaskAction(
+      () => repository.recordDischarge(patientId, encounterId, input, user.id),
+      'Could not record discharge'
+    );
+    reloadEncounters();
   };
 
   const handleViewPatient = (patientId: string) => {
@@ -45,8 +140,12 @@ export function Dashboard() {
 
   const handleBackToList = () => {
     setSelectedPatient(null);
+    setAssigningPatient(false);
+    setRecordingEncounter(false);
   };
 
+  const getStaffName = (userId: string) => staff.find(member => member.id === userId)?.displayName ?? userId;
+
   // Get urgent tasks (overdue or due soon), sorted by due date
   const urgentTasks = tasks
     .filter(t => t.status === 'overdue' || t.status === 'pending')
@@ -63,10 +162,27 @@ export function Dashboard() {
 
   // Patient detail view
   if (selectedPatient) {
-    const patientTasks = getTasksByPatientId(selectedPatient.patientId);
+    const patientTasks = tasks.filter(t => t.patientId === selectedPatient.patientId);
+    // Every note on the patient's tasks, oldest first, labelled with its task
+    const noteSources: Record<string, string> = {};
+    const patientNotes = patientTasks
+      .flatMap(task => (task.notes ?? []).map(note => {
+        noteSources[note.id] = getTaskTypeLabel(task.type, ruleSet.rules);
+        return note;
+      }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const owners = [...new Set(patientTasks.filter(isOpenTask).map(task => task.assignedTo))];
+    const currentOwner = owners.find(Boolean);
+    // Until the patient's encounters load, show the stay in the patient record
+    const patientEncounters = encounters?.[0]?.patientId === selectedPatient.patientId
+      ? encounters
+      : [getFirstEncounter(selectedPatient)];
+    const currentEncounter = patientEncounters[patientEncounters.length - 1];
+    const inHospital = isInHospital(currentEncounter);
 
     return (
       <div className="dashboard">
+        {actionError && <StatusMessage variant="error" message={actionError} />}
         <button className="button button--ghost button--sm mb-4" onClick={handleBackToList}>
           &larr; Back to Dashboard
         </button>
@@ -81,6 +197,7 @@ export function Dashboard() {
               }>
                 {selectedPatient.readmissionRiskScore} Risk
               </Badge>
+              {inHospital && <Badge variant="warning">In Hospital</Badge>}
             </div>
           </div>
           <div className="patient-header__details">
@@ -88,27 +205,115 @@ export function Dashboard() {
               <span className="patient-header__label">MRN:</span> {selectedPatient.patientId}
             </span>
             <span className="patient-header__detail">
-              <span className="patient-header__label">Diagnosis:</span> {selectedPatient.primaryDiagnosis}
-            </span>
-            <span className="patient-header__detail">
-              <span className="patient-header__label">Disposition:</span> {selectedPatient.dischargeDisposition}
+              <span className="patient-header__label">Diagnosis:</span> {currentEncounter.primaryDiagnosis}
             </span>
+            {inHospital ? (
+              <span className="patient-header__detail">
+                <span className="patient-header__label">Readmitted:</span> {currentEncounter.admissionDate}
+              </span>
+            ) : (
+              <>
+                <span className="patient-header__detail">
+                  <span className="patient-header__label">Disposition:</span> {currentEncounter.dischargeDisposition}
+                </span>
+                <span className="patient-header__detail">
+                  <span className="patient-header__label">Discharge Date:</span> {currentEncounter.dischargeDate}
+                </span>
+              </>
+            )}
             <span className="patient-header__detail">
-              <span className="patient-header__label">Discharge Date:</span> {selectedPatient.dischargeDate}
+              <span className="patient-header__label">Assigned To:</span>{' '}
+              {owners.length > 1 ? 'Several staff' : currentOwner ? getStaffName(currentOwner) : 'Unassigned'}
             </span>
           </div>
         </div>
 
+        {can('task.assign') && (
+          <div className="dashboard__assignment">
+            {assigningPatient ? (
+              <Card>
+                <CardBody>
+                  <AssignmentForm
+                    staff={staff}
+                    currentAssignee={currentOwner}
+                    onAssign={(assignedTo, reason) => handleAssignPatient(selectedPatient.patientId, assignedTo, reason)}
+                    onCancel={() => setAssigningPatient(false)}
+                  />
+                </CardBody>
+              </Card>
+            ) : (
+              <Button variant="secondary" size="sm" onClick={() => setAssigningPatient(true)}>
+                Assign Patient
+              </Button>
+            )}
+          </div>
+        )}
+
+        {can('encounter.record') && (
+          <div className="dashboard__encounter">
+            {recordingEncounter ? (
+              <Card>
+                <CardBody>
+                  {inHospital ? (
+                    <DischargeForm
+                      onSave={(input) => handleRecordDischarge(selectedPatient.patientId, currentEncounter.id, input)}
+                      onCancel={() => setRecordingEncounter(false)}
+                    />
+                  ) : (
+                    <AdmissionForm
+                      onSave={(input) => handleRecordAdmission(selectedPatient.patientId, input)}
+                      onCancel={() => setRecordingEncounter(false)}
+                    />
+                  )}
+                </CardBody>
+              </Card>
+            ) : (
+              <Button variant="secondary" size="sm" onClick={() => setRecordingEncounter(true)}>
+                {inHospital ? 'Record Discharge' : 'Record Readmission'}
+              </Button>
+            )}
+          </div>
+        )}
+
         <h3 className="text-lg font-semibold mb-4">Tasks</h3>
         <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
           {patientTasks.map(task => (
             <TaskCard
               key={task.id}
               task={task}
-              onComplete={handleCompleteTask}
+              rules={ruleSet.rules}
+              timeZone={timeZone}
+              onComplete={can('task.complete') ? handleCompleteTask : undefined}
+              onLogContact={can('task.contact') ? handleLogContact : undefined}
+              onAddNote={can('task.note') ? handleAddNote : undefined}
+              onEditNote={can('task.note') ? handleEditNote : undefined}
+              onRedactNote={can('task.note_redact') ? handleRedactNote : undefined}
+              onAssign={can('task.assign') ? handleAssignTask : undefined}
+              staff={staff}
+              canEditNote={(note) => canEditNote(user, note)}
+              defaultDestination={selectedPatient.phone ?? undefined}
             />
           ))}
         </div>
+
+        <h3 className="text-lg font-semibold mt-4 mb-4">Timeline</h3>
+        <Card>
+          <CardBody>
+            <EncounterTimeline encounters={patientEncounters} tasks={patientTasks} rules={ruleSet.rules} />
+          </CardBody>
+        </Card>
+
+        <h3 className="text-lg font-semibold mt-4 mb-4">Notes</h3>
+        <Card>
+          <CardBody>
+            <NoteThread
+              notes={patientNotes}
+              sources={noteSources}
+              timeZone={timeZone}
+              emptyMessage="No notes on this patient's tasks yet."
+            />
+          </CardBody>
+        </Card>
       </div>
     );
   }
@@ -116,8 +321,13 @@ export function Dashboard() {
   // Dashboard view
   return (
     <div className="dashboard">
+      {error && (
+        <StatusMessage variant="error" message={`Failed to refresh: ${error.message}`} onRetry={reload} />
+      )}
+      {actionError && <StatusMessage variant="error" message={actionError} />}
+
       {/* Stats Cards */}
-      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-8">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-6 mb-8">
         <Card>
           <CardBody>
             <div className="stat-card">
@@ -150,8 +360,60 @@ export function Dashboard() {
             </div>
           </CardBody>
         </Card>
+        <Card>
+          <CardBody>
+            <div className="stat-card">
+              <span className="stat-card__value">{stats.unassignedTasks}</span>
+              <span className="stat-card__label">Unassigned Tasks</span>
+            </div>
+          </CardBody>
+        </Card>
+        <Card>
+          <CardBody>
+            <div className="stat-card">
+              <span className="stat-card__value">{stats.closedTasks}</span>
+              <span className="stat-card__label">Closed Tasks</span>
+            </div>
+          </CardBody>
+        </Card>
       </div>
 
+      {/* Escalations */}
+      {escalatedTasks.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Escalations</h2>
+          <div className="task-list">
+            {escalatedTasks.map(task => {
+              const patient = patients.find(p => p.patientId === task.patientId);
+              const latest = task.escalations![task.escalations!.length - 1];
+              return (
+                <div key={task.id} className="task-list__item">
+                  <div className="task-list__content">
+                    <div className="task-list__header">
+                      <span className="task-list__type">{getTaskTypeLabel(task.type, ruleSet.rules)}</span>
+                      <Badge variant="danger">Level {latest.level}</Badge>
+                    </div>
+                    <div className="task-list__meta">
+                      <span className="task-list__patient">{patient?.patientName}</span>
+                      <span>
+                        {ESCALATION_RECIPIENT_LABELS[latest.notify]}
+                        {latest.recipients.length > 0 && `: ${latest.recipients.map(getStaffName).join(', ')}`}
+                      </span>
+                      <span className="task-list__due">Escalated: {formatDate(latest.escalatedAt, timeZone, true)}</span>
+                    </div>
+                  </div>
+                  {patient && (
+                    <Button variant="ghost" size="sm" onClick={() => handleViewPatient(patient.patientId)}>
+                      View Patient
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       {/* Urgent Tasks */}
       {urgentTasks.length > 0 && (
         <section className="mb-8">
@@ -159,11 +421,14 @@ export function Dashboard() {
           <div className="task-list">
             {urgentTasks.map(task => {
               const patient = patients.find(p => p.patientId === task.patientId);
+              const needsContact = isOutreachTask(task) && !hasSuccessfulContact(task);
               return (
                 <div key={task.id} className="task-list__item">
                   <button
                     className="task-list__checkbox"
                     onClick={() => handleCompleteTask(task.id)}
+                    disabled={needsContact || !can('task.complete')}
+                    title={needsContact ? 'Log a successful contact before completing this task' : undefined}
                     aria-label="Mark task complete"
                   />
                   <div className="task-list__content">
@@ -175,7 +440,7 @@ export function Dashboard() {
                     </div>
                     <div className="task-list__meta">
                       <span className="task-list__patient">{patient?.patientName}</span>
-                      <span className="task-list__due">Due: {new Date(task.dueEnd).toLocaleDateString()}</span>
+                      <span className="task-list__due">Due: {formatDate(task.dueEnd, timeZone)}</span>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DataExportView } from './DataExportView';
+import { RepositoryContext } from '../hooks/useRepository';
+import { AuthContext } from '../hooks/useAuth';
+import type { DischargeRepository } from '../services/repository';
+import { DEFAULT_TASK_RULE_SET } from '@shared/types';
+import type { Patient, User } from '@shared/types';
+import { STANDARD_MAPPING_PROFILE } from '@shared/patientMapping';
+import { createBackup } from '@shared/backup';
+
+const SUPERVISOR: User = { id: 'supervisor', displayName: 'Supervisor', role: 'supervisor' };
+const ADMIN: User = { id: 'admin', displayName: 'Admin', role: 'admin' };
+
+const patient: Patient = {
+  patientId: 'MRN001',
+  patientName: 'John Doe',
+  dob: '1960-05-15',
+  gender: 'M',
+  phone: null,
+  email: null,
+  preferredLanguage: 'English',
+  admissionDate: '2026-01-01',
+  dischargeDate: '2026-01-05',
+  dischargeTime: '10:30',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Heart failure',
+  dischargeDisposition: 'Home',
+  dischargeMedications: 'Med A',
+  allergies: null,
+  attendingPhysician: 'Dr. Smith',
+  pcpName: null,
+  pcpPhone: null,
+  readmissionRiskScore: 'High',
+  fallRisk: null,
+  notes: null,
+};
+
+const BACKUP = createBackup({
+  patients: [patient],
+  tasks: [],
+  encounters: [],
+  ruleSet: DEFAULT_TASK_RULE_SET,
+  mappingProfiles: [],
+  auditLog: [],
+}, new Date('2026-02-01T12:00:00Z'));
+
+const createRepository = (overrides: Partial<DischargeRepository> = {}): DischargeRepository => ({
+  getAllPatients: vi.fn(async () => [patient]),
+  getPatientById: vi.fn(async () => null),
+  importPatients: vi.fn(async () => ({ added: [], updated: [], unchanged: [], skippedRows: [] })),
+  getMappingProfiles: vi.fn(async () => [STANDARD_MAPPING_PROFILE]),
+  saveMappingProfile: vi.fn(async (profile) => profile),
+  deleteMappingProfile: vi.fn(async () => {}),
+  getAllTasks: vi.fn(async () => []),
+  getTasksByPatientId: vi.fn(async () => []),
+  completeTask: vi.fn(async () => null),
+  changeTaskStatus: vi.fn(async () => null),
+  addTaskNote: vi.fn(async () => null),
+  editTaskNote: vi.fn(async () => null),
+  redactTaskNote: vi.fn(async () => null),
+  logContactAttempt: vi.fn(async () => null),
+  getAssignableStaff: vi.fn(async () => []),
+  assignTask: vi.fn(async () => null),
+  assignPatientTasks: vi.fn(async () => []),
+  autoAssignTasks: vi.fn(async () => []),
+  getEncounters: vi.fn(async () => []),
+  recordAdmission: vi.fn(async () => null),
+  recordDischarge: vi.fn(async () => null),
+  getEscalatedTasks: vi.fn(async () => []),
+  getDashboardStats: vi.fn(async () => ({
+    totalPatients: 0, pendingTasks: 0, overdueTasks: 0, completedToday: 0, urgentTasks: 0,
+    unassignedTasks: 0, closedTasks: 0,
+  })),
+  getTaskRuleSet: vi.fn(async () => DEFAULT_TASK_RULE_SET),
+  saveTaskRuleSet: vi.fn(async (ruleSet) => ruleSet),
+  login: vi.fn(async () => ADMIN),
+  logout: vi.fn(async () => {}),
+  getCurrentUser: vi.fn(async () => ADMIN),
+  getAuditLog: vi.fn(async () => []),
+  exportBackup: vi.fn(async () => BACKUP),
+  restoreBackup: vi.fn(async () => ({ patients: 1, tasks: 0, encounters: 0, mappingProfiles: 0, auditEntries: 2 })),
+  subscribe: vi.fn(() => () => {}),
+  ...overrides,
+});
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+async function renderDataExportView(repository: DischargeRepository, user: User = ADMIN) {
+  render(
+    <AuthContext.Provider value={{ user, logout: vi.fn() }}>
+      <RepositoryContext.Provider value={repository}>
+        <DataExportView />
+      </RepositoryContext.Provider>
+    </AuthContext.Provider>
+  );
+  await screen.findByRole('heading', { name: 'Export Patients' });
+}
+
+function chooseBackup(content: string, name = 'backup.json') {
+  const file = new File([content], name, { type: 'application/json' });
+  fireEvent.change(screen.getByLabelText('Backup file'), { target: { files: [file] } });
+}
+
+/**
+ * Stub out the browser download and collect what was saved.
+ */
+function captureDownloads() {
+  const createObjectURL = vi.fn((_blob: Blob) => 'blob:export');
+  vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+  const names: string[] = [];
+  vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+    names.push(this.download);
+  });
+  return { names, read: (i: number) => readBlob(createObjectURL.mock.calls[i][0]) };
+}
+
+describe('DataExportView', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('exports the patient roster under the standard import columns', async () => {
+    const downloads = captureDownloads();
+    await renderDataExportView(createRepository(), SUPERVISOR);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export CSV' }));
+
+    expect(downloads.names).toEqual(['patients.csv']);
+    const lines = (await downloads.read(0)).split('\r\n');
+    expect(lines[0]).toMatch(/^patient_id,patient_name,dob,/);
+    expect(lines[1]).toMatch(/^MRN001,John Doe,1960-05-15,/);
+  });
+
+  it('downloads a backup but offers restore only to admins', async () => {
+    const downloads = captureDownloads();
+    const repository = createRepository();
+    await renderDataExportView(repository, SUPERVISOR);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download Backup' }));
+
+    await vi.waitFor(() => expect(downloads.names).toEqual(['discharge-flow-backup-2026-02-01.json']));
+    expect(JSON.parse(await downloads.read(0))).toEqual(BACKUP);
+    expect(screen.queryByLabelText('Backup file')).not.toBeInTheDocument();
+  });
+
+  it('checks a backup, then restores it as the signed-in user', async () => {
+    const repository = createRepository();
+    await renderDataExportView(repository);
+
+    chooseBackup(JSON.stringify(BACKUP));
+    expect(await screen.findByText(/1 patient, 0 tasks, 0 readmissions, 0 mapping profiles and 0 audit entries/))
+      .toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Replace Data with Backup' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      'Restored: 1 patient, 0 tasks, 0 readmissions, 0 mapping profiles; 2 audit entries added.'
+    );
+    expect(repository.restoreBackup).toHaveBeenCalledWith(BACKUP, 'admin');
+  });
+
+  it('lists every problem with an invalid backup and does not offer to restore it', async () => {
+    const repository = createRepository();
+    await renderDataExportView(repository);
+
+    chooseBackup(JSON.stringify({ ...BACKUP, encounters: [{ id: 'E1', patientId: 'MRN999' }] }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'backup.json cannot be restored:encounters[0].patientId: no patient "MRN999" in the backup'
+    );
+    expect(screen.queryByRole('button', { name: 'Replace Data with Backup' })).not.toBeInTheDocument();
+
+    chooseBackup('not json');
+    expect(await screen.findByText(/^Not a JSON file/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,236 @@
+import { useState, useCallback, type ChangeEvent } from 'react';
+import { Card, CardHeader, CardBody, CardFooter } from '../components/Card';
+import { Button } from '../components/Button';
+import { StatusMessage } from '../components/StatusMessage';
+import { useAsyncData } from '../hooks/useAsyncData';
+import { useAuth } from '../hooks/useAuth';
+import { useRepository } from '../hooks/useRepository';
+import { downloadFile } from '../utils/download';
+import { readFileAsText } from '../utils/readFile';
+import { XLSX_MIME_TYPE, createXlsxWorkbook } from '../utils/xlsx';
+import { formatExportTableAsCsv, formatPatientsForExport } from '@shared/dataExport';
+import { BackupValidationError, validateBackup, type DataBackup } from '@shared/backup';
+import type { BackupRestoreSummary } from '@shared/types';
+
+function formatCount(n: number, one: string, many: string): string {
+  return `${n} ${n === 1 ? one : many}`;
+}
+
+/**
+ * Summarize what a backup holds, e.g. "12 patients, 40 tasks, 1 readmission, 0 mapping profiles".
+ */
+function formatContents(counts: Omit<BackupRestoreSummary, 'auditEntries'>): string {
+  return [
+    formatCount(counts.patients, 'patient', 'patients'),
+    formatCount(counts.tasks, 'task', 'tasks'),
+    formatCount(counts.encounters, 'readmission', 'readmissions'),
+    formatCount(counts.mappingProfiles, 'mapping profile', 'mapping profiles'),
+  ].join(', ');
+}
+
+/**
+ * Read a chosen backup file and check it, without restoring anything.
+ */
+async function readBackupFile(file: File): Promise<{ backup?: DataBackup; errors: string[] }> {
+  let value: unknown;
+  try {
+    value = JSON.parse(await readFileAsText(file));
+  } catch (err) {
+    return { errors: [`Not a JSON file: ${(err as Error).message}`] };
+  }
+  const errors = validateBackup(value);
+  return errors.length > 0 ? { errors } : { backup: value as DataBackup, errors };
+}
+
+/**
+ * Export the patient roster as CSV or XLSX, download a JSON backup of the
+ * whole dataset, and (for admins) restore one. A backup is checked in full
+ * before the restore button is offered.
+ */
+export function DataExportView() {
+  const repository = useRepository();
+  const { user, can } = useAuth();
+  const loadPatients = useCallback(() => repository.getAllPatients(), [repository]);
+  const { data: patients, error, loading, reload } = useAsyncData(loadPatients);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [file, setFile] = useState<{ name: string; backup?: DataBackup; errors: string[] } | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([]);
+  const [summary, setSummary] = useState<BackupRestoreSummary | null>(null);
+
+  if (loading) {
+    return <StatusMessage variant="loading" message="Loading patients..." />;
+  }
+
+  if (!patients) {
+    return (
+      <StatusMessage
+        variant="error"
+        message={`Failed to load patients: ${error?.message}`}
+        onRetry={reload}
+      />
+    );
+  }
+
+  const handleExportPatients = (format: 'csv' | 'xlsx') => {
+    const table = formatPatientsForExport(patients);
+    if (format === 'csv') {
+      downloadFile('patients.csv', formatExportTableAsCsv(table), 'text/csv');
+    } else {
+      downloadFile('patients.xlsx', createXlsxWorkbook([{ name: 'Patients', table }]), XLSX_MIME_TYPE);
+    }
+  };
+
+  const handleDownloadBackup = async () => {
+    setActionError(null);
+    try {
+      const backup = await repository.exportBackup();
+      downloadFile(
+        `discharge-flow-backup-${backup.exportedAt.slice(0, 10)}.json`,
+        JSON.stringify(backup, null, 2),
+        'application/json'
+      );
+    } catch (err) {
+      setActionError(`Could not download a backup: ${(err as Error).message}`);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    setRestoreErrors([]);
+    setSummary(null);
+    setFile(chosen ? { name: chosen.name, ...await readBackupFile(chosen) } : null);
+  };
+
+  const handleRestore = async () => {
+    if (!file?.backup) {
+      return;
+    }
+    setRestoring(true);
+    setRestoreErrors([]);
+    try {
+      setSummary(await repository.restoreBackup(file.backup, user.id));
+      setFile(null);
+      reload();
+    } catch (err) {
+      setRestoreErrors(err instanceof BackupValidationError ? err.errors : [(err as Error).message]);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="data-export-view">
+      {actionError && <StatusMessage variant="error" message={actionError} />}
+
+      <Card>
+        <CardHeader>
+          <h2 className="data-export-view__title">Export Patients</h2>
+        </CardHeader>
+        <CardBody>
+          <p className="data-export-view__hint">
+            The roster uses the standard import columns, so the CSV can be imported again as it is.
+            To export tasks, filter the task list and use its export buttons.
+          </p>
+          <div className="data-export-view__actions">
+            <span className="data-export-view__counts">{patients.length} patients</span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleExportPatients('csv')}
+              disabled={patients.length === 0}
+            >
+              Export CSV
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleExportPatients('xlsx')}
+              disabled={patients.length === 0}
+            >
+              Export XLSX
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h2 className="data-export-view__title">Backup</h2>
+        </CardHeader>
+        <CardBody>
+          <p className="data-export-view__hint">
+            A backup holds the patients, tasks, readmissions, task rules, mapping profiles and audit
+            log as one JSON file. Users and passwords are not included.
+          </p>
+          <div className="data-export-view__actions">
+            <Button variant="secondary" size="sm" onClick={handleDownloadBackup}>Download Backup</Button>
+          </div>
+
+          {can('data.restore') && (
+            <div className="data-export-view__restore">
+              <p className="data-export-view__hint">
+                Restoring replaces the patients, tasks, readmissions, rules and mapping profiles with the
+                backup&apos;s. The audit log is kept: entries in the backup that it lacks are added, and
+                the restore itself is recorded.
+              </p>
+              <label className="data-export-view__file">
+                <span className="data-export-view__file-label">Backup file</span>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleFileChange}
+                  disabled={restoring}
+                />
+              </label>
+
+              {summary && (
+                <p className="data-export-view__result" role="status">
+                  Restored: {formatContents(summary)};{' '}
+                  {formatCount(summary.auditEntries, 'audit entry', 'audit entries')} added.
+                </p>
+              )}
+              {file && file.errors.length > 0 && (
+                <div className="data-export-view__errors" role="alert">
+                  <p className="data-export-view__errors-title">{file.name} cannot be restored:</p>
+                  <ul>
+                    {file.errors.map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                </div>
+              )}
+              {restoreErrors.length > 0 && (
+                <div className="data-export-view__errors" role="alert">
+                  <p className="data-export-view__errors-title">The backup was not restored:</p>
+                  <ul>
+                    {restoreErrors.map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                </div>
+              )}
+              {file?.backup && (
+                <p className="data-export-view__preview">
+                  {file.name}, taken {new Date(file.backup.exportedAt).toLocaleString()}:{' '}
+                  {formatContents({
+                    patients: file.backup.patients.length,
+                    tasks: file.backup.tasks.length,
+                    encounters: file.backup.encounters.length,
+                    mappingProfiles: file.backup.mappingProfiles.length,
+                  })}{' '}
+                  and {formatCount(file.backup.auditLog.length, 'audit entry', 'audit entries')}.
+                </p>
+              )}
+            </div>
+          )}
+        </CardBody>
+        {file?.backup && (
+          <CardFooter>
+            <div className="data-export-view__actions">
+              <Button variant="danger" size="sm" onClick={handleRestore} disabled={restoring}>
+                {restoring ? 'Restoring...' : 'Replace Data with Backup'}
+              </Button>
+            </div>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
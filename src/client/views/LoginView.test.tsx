@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { LoginView } from './LoginView';
+import { RepositoryContext } from '../hooks/useRepository';
+import { createLocalStorageRepository } from '../services/localStorageRepository';
+import type { DischargeRepository } from '../services/repository';
+import type { User } from '@shared/types';
+
+const NURSE: User = { id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' };
+
+function renderLoginView(login: DischargeRepository['login'], onSignIn = vi.fn(), showDemoUsers = false) {
+  const repository = { ...createLocalStorageRepository(), login };
+  render(
+    <RepositoryContext.Provider value={repository}>
+      <LoginView onSignIn={onSignIn} showDemoUsers={showDemoUsers} />
+    </RepositoryContext.Provider>
+  );
+  return onSignIn;
+}
+
+function submit(username: string, password: string) {
+  fireEvent.change(screen.getByLabelText('Username'), { target: { value: username } });
+  fireEvent.change(screen.getByLabelText('Password'), { target: { value: password } });
+  fireEvent.click(screen.getByRole('button', { name: 'Sign In' }));
+}
+
+describe('LoginView', () => {
+  it('signs in with the entered credentials', async () => {
+    const login = vi.fn(async () => NURSE);
+    const onSignIn = renderLoginView(login);
+
+    submit('nurse-1', 'secret-password');
+
+    await vi.waitFor(() => expect(onSignIn).toHaveBeenCalledWith(NURSE));
+    expect(login).toHaveBeenCalledWith('nurse-1', 'secret-password');
+  });
+
+  it('shows the error when sign-in fails', async () => {
+    renderLoginView(vi.fn(async () => {
+      throw new Error('Invalid username or password');
+    }));
+
+    submit('nurse-1', 'wrong');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid username or password');
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeEnabled();
+  });
+
+  it('disables sign-in until both fields are filled', () => {
+    renderLoginView(vi.fn());
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeDisabled();
+  });
+
+  it('lists the demo accounts when asked', () => {
+    renderLoginView(vi.fn(), vi.fn(), true);
+    expect(screen.getByText('maria.lopez')).toBeInTheDocument();
+    expect(screen.getByText(/Demo accounts/)).toHaveTextContent('discharge-demo');
+  });
+});
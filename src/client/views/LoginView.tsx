@@ -0,0 +1,83 @@
+import { useState, FormEvent } from 'react';
+import { Card, CardHeader, CardBody } from '../components/Card';
+import { Button } from '../components/Button';
+import { useRepository } from '../hooks/useRepository';
+import { DATA_SOURCE } from '../services/repository';
+import { SEED_USERS, DEMO_PASSWORD } from '../services/seedData';
+import { ROLE_LABELS } from '@shared/auth';
+import type { User } from '@shared/types';
+
+interface LoginViewProps {
+  onSignIn: (user: User) => void;
+  /** List the demo accounts (local mode only, where they are the only users). */
+  showDemoUsers?: boolean;
+}
+
+export function LoginView({ onSignIn, showDemoUsers = DATA_SOURCE === 'local' }: LoginViewProps) {
+  const repository = useRepository();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSigningIn(true);
+    try {
+      onSignIn(await repository.login(username, password));
+    } catch (err) {
+      setError((err as Error).message);
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="login-view">
+      <Card>
+        <CardHeader>
+          <h2 className="login-view__title">Sign In</h2>
+        </CardHeader>
+        <CardBody>
+          <form className="login-view__form" onSubmit={handleSubmit}>
+            {error && <p className="login-view__error" role="alert">{error}</p>}
+            <label className="login-view__field">
+              <span className="login-view__label">Username</span>
+              <input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
+            </label>
+            <label className="login-view__field">
+              <span className="login-view__label">Password</span>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </label>
+            <Button type="submit" variant="primary" disabled={signingIn || !username || !password}>
+              {signingIn ? 'Signing in...' : 'Sign In'}
+            </Button>
+          </form>
+
+          {showDemoUsers && (
+            <div className="login-view__demo">
+              <p>Demo accounts (password <code>{DEMO_PASSWORD}</code>):</p>
+              <ul>
+                {SEED_USERS.map(user => (
+                  <li key={user.id}>
+                    <code>{user.id}</code> — {user.displayName}, {ROLE_LABELS[user.role]}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PatientImportView } from './PatientImportView';
+import { RepositoryContext } from '../hooks/useRepository';
+import { AuthContext } from '../hooks/useAuth';
+import type { DischargeRepository } from '../services/repository';
+import { DEFAULT_TASK_RULE_SET } from '@shared/types';
+import type { Patient, PatientMappingProfile, User } from '@shared/types';
+import { MappingProfileValidationError, STANDARD_MAPPING_PROFILE } from '@shared/patientMapping';
+import { createBackup } from '@shared/backup';
+
+const SUPERVISOR: User = { id: 'supervisor', displayName: 'Supervisor', role: 'supervisor' };
+
+const HEADER = 'patient_id,patient_name,dob,gender,phone,email,preferred_language,admission_date,discharge_date,' +
+  'discharge_time,length_of_stay,primary_diagnosis,discharge_disposition,discharge_medications,allergies,' +
+  'attending_physician,pcp_name,pcp_phone,readmission_risk_score,fall_risk,notes';
+const CSV = [
+  HEADER,
+  'MRN001,John Doe,1960-05-15,M,,,English,2026-01-01,2026-01-05,10:30,4,Heart failure,Home,Med A,,Dr. Smith,,,High,,',
+  'MRN002,Jane Smith,1975-08-20,F,,,Spanish,2026-01-02,2026-01-06,,4,Pneumonia,Home,Med B,,Dr. Brown,,,Low,,',
+  'MRN003,Bad Row,1975-08-20,F,,,Spanish,2026-01-02,2026-01-06,,4,Pneumonia,Hospice,Med B,,Dr. Brown,,,Unknown,,',
+].join('\n');
+
+const EHR_PROFILE: PatientMappingProfile = {
+  id: 'ehr',
+  name: 'EHR export',
+  columns: { patientId: 'MRN', dischargeDisposition: 'Disposition', readmissionRiskScore: 'Risk' },
+  valueSynonyms: { riskLevel: { '4': 'Very High' } },
+};
+const EHR_CSV = 'MRN,Patient Name,Discharge Date,Disposition,Risk\nE100,Ann Lee,2026-01-05,SNF,4\nE101,Bo Chan,2026-01-06,Hospice,9';
+
+const createRepository = (overrides: Partial<DischargeRepository> = {}): DischargeRepository => ({
+  getAllPatients: vi.fn(async () => [{ patientId: 'MRN001' } as Patient]),
+  getPatientById: vi.fn(async () => null),
+  importPatients: vi.fn(async () => ({ added: ['MRN002'], updated: ['MRN001'], unchanged: [], skippedRows: [4] })),
+  getMappingProfiles: vi.fn(async () => [STANDARD_MAPPING_PROFILE, EHR_PROFILE]),
+  saveMappingProfile: vi.fn(async (profile) => profile),
+  deleteMappingProfile: vi.fn(async () => {}),
+  getAllTasks: vi.fn(async () => []),
+  getTasksByPatientId: vi.fn(async () => []),
+  completeTask: vi.fn(async () => null),
+  changeTaskStatus: vi.fn(async () => null),
+  addTaskNote: vi.fn(async () => null),
+  editTaskNote: vi.fn(async () => null),
+  redactTaskNote: vi.fn(async () => null),
+  logContactAttempt: vi.fn(async () => null),
+  getAssignableStaff: vi.fn(async () => []),
+  assignTask: vi.fn(async () => null),
+  assignPatientTasks: vi.fn(async () => []),
+  autoAssignTasks: vi.fn(async () => []),
+  getEncounters: vi.fn(async () => []),
+  recordAdmission: vi.fn(async () => null),
+  recordDischarge: vi.fn(async () => null),
+  getEscalatedTasks: vi.fn(async () => []),
+  getDashboardStats: vi.fn(async () => ({
+    totalPatients: 0, pendingTasks: 0, overdueTasks: 0, completedToday: 0, urgentTasks: 0,
+    unassignedTasks: 0, closedTasks: 0,
+  })),
+  getTaskRuleSet: vi.fn(async () => DEFAULT_TASK_RULE_SET),
+  saveTaskRuleSet: vi.fn(async (ruleSet) => ({ ...ruleSet, version: ruleSet.version + 1 })),
+  login: vi.fn(async () => SUPERVISOR),
+  logout: vi.fn(async () => {}),
+  getCurrentUser: vi.fn(async () => SUPERVISOR),
+  getAuditLog: vi.fn(async () => []),
+  exportBackup: vi.fn(async () => createBackup({
+    patients: [], tasks: [], encounters: [], ruleSet: DEFAULT_TASK_RULE_SET, mappingProfiles: [], auditLog: [],
+  })),
+  restoreBackup: vi.fn(async () => ({ patients: 0, tasks: 0, encounters: 0, mappingProfiles: 0, auditEntries: 0 })),
+  subscribe: vi.fn(() => () => {}),
+  ...overrides,
+});
+
+async function renderPatientImportView(repository: DischargeRepository) {
+  render(
+    <AuthContext.Provider value={{ user: SUPERVISOR, logout: vi.fn() }}>
+      <RepositoryContext.Provider value={repository}>
+        <PatientImportView />
+      </RepositoryContext.Provider>
+    </AuthContext.Provider>
+  );
+  await screen.findByRole('heading', { name: 'Import Patients' });
+}
+
+function chooseFile(content: string, name = 'patients.csv') {
+  const file = new File([content], name, { type: 'text/csv' });
+  fireEvent.change(screen.getByLabelText('Patient CSV'), { target: { files: [file] } });
+}
+
+describe('PatientImportView', () => {
+  it('previews every row with its status and errors before importing', async () => {
+    const repository = createRepository();
+    await renderPatientImportView(repository);
+
+    chooseFile(CSV);
+
+    expect(await screen.findByText('Update')).toBeInTheDocument();
+    expect(screen.getByText('New')).toBeInTheDocument();
+    expect(screen.getByText('Error')).toBeInTheDocument();
+    expect(screen.getByText(/Invalid discharge disposition: "Hospice"/)).toBeInTheDocument();
+    expect(screen.getByText(/Invalid risk level: "Unknown"/)).toBeInTheDocument();
+    expect(screen.getByText('2 valid, 1 with errors')).toBeInTheDocument();
+    expect(repository.importPatients).not.toHaveBeenCalled();
+  });
+
+  it('shows warnings without stopping the row from being imported', async () => {
+    const repository = createRepository();
+    await renderPatientImportView(repository);
+
+    chooseFile(CSV.replace('2026-01-01,2026-01-05,10:30,4', '2026-01-01,2026-01-05,10:30,6'));
+
+    expect(await screen.findByText(
+      'Warning: Length of stay 6 does not match the admission and discharge dates (4 days)'
+    )).toHaveClass('patient-import-view__issue--warning');
+    expect(screen.getByText('Update')).toBeInTheDocument();
+    expect(screen.getByText('2 valid, 1 with errors; 1 valid with warnings')).toBeInTheDocument();
+  });
+
+  it('imports the file as the signed-in user and reports what happened', async () => {
+    const repository = createRepository();
+    await renderPatientImportView(repository);
+
+    chooseFile(CSV);
+    fireEvent.click(await screen.findByRole('button', { name: 'Import 2 Valid Rows' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      'Imported: 1 added, 1 updated, 0 unchanged; 1 row skipped (4).'
+    );
+    expect(repository.importPatients).toHaveBeenCalledWith(CSV, 'supervisor', 'standard');
+  });
+
+  it('explains why a file cannot be imported', async () => {
+    await renderPatientImportView(createRepository());
+
+    chooseFile(HEADER, 'empty.csv');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'empty.csv cannot be imported:CSV must have a header row and at least one data row'
+    );
+    expect(screen.queryByRole('button', { name: /Import/ })).not.toBeInTheDocument();
+  });
+
+  it('reads the file with the chosen mapping profile and imports with it', async () => {
+    const repository = createRepository();
+    await renderPatientImportView(repository);
+
+    chooseFile(EHR_CSV);
+    expect(await screen.findByText('Missing column "discharge_disposition" for discharge_disposition'))
+      .toBeInTheDocument();
+    fireEvent.change(await screen.findByLabelText('Mapping profile'), { target: { value: 'ehr' } });
+
+    expect(await screen.findByText('1 valid, 1 with errors; 1 valid with warnings')).toBeInTheDocument();
+    expect(screen.getByText('Ann Lee')).toBeInTheDocument();
+    expect(screen.getByText(/Invalid risk level: "9"/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 Valid Row' }));
+
+    await screen.findByRole('status');
+    expect(repository.importPatients).toHaveBeenCalledWith(EHR_CSV, 'supervisor', 'ehr');
+  });
+
+  it('previews edits to a profile and saves them before importing', async () => {
+    let saved = EHR_PROFILE;
+    const repository = createRepository({
+      getMappingProfiles: vi.fn(async () => [STANDARD_MAPPING_PROFILE, saved]),
+      saveMappingProfile: vi.fn(async (profile) => (saved = profile)),
+    });
+    await renderPatientImportView(repository);
+
+    chooseFile(EHR_CSV);
+    fireEvent.change(await screen.findByLabelText('Mapping profile'), { target: { value: 'ehr' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Profile' }));
+    fireEvent.change(screen.getByLabelText('Risk level synonyms'), { target: { value: '4 = Very High\n9 = High' } });
+    fireEvent.change(screen.getByLabelText('Disposition synonyms'), { target: { value: 'Hospice = Home' } });
+
+    expect(await screen.findByText(/2 valid, 0 with errors/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Import 2 Valid Rows' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Save Profile' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Import 2 Valid Rows' })).toBeEnabled());
+    expect(repository.saveMappingProfile).toHaveBeenCalledWith({
+      ...EHR_PROFILE,
+      valueSynonyms: { dischargeDisposition: { Hospice: 'Home' }, riskLevel: { '4': 'Very High', '9': 'High' } },
+    });
+  });
+
+  it('shows why a profile was not saved', async () => {
+    const repository = createRepository({
+      saveMappingProfile: vi.fn(async () => {
+        throw new MappingProfileValidationError(['columns.patientName: column "MRN" is already mapped to patientId']);
+      }),
+    });
+    await renderPatientImportView(repository);
+
+    fireEvent.click(screen.getByRole('button', { name: 'New Profile' }));
+    fireEvent.change(screen.getByLabelText('Profile name'), { target: { value: 'Broken' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Profile' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('column "MRN" is already mapped to patientId');
+  });
+});
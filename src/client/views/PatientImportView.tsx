@@ -0,0 +1,289 @@
+import { useState, useMemo, useCallback, type ChangeEvent } from 'react';
+import { Card, CardHeader, CardBody, CardFooter } from '../components/Card';
+import { Button } from '../components/Button';
+import { Badge } from '../components/Badge';
+import { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from '../components/Table';
+import { MappingProfileEditor } from '../components/MappingProfileEditor';
+import { useAsyncData } from '../hooks/useAsyncData';
+import { useAuth } from '../hooks/useAuth';
+import { useRepository } from '../hooks/useRepository';
+import { readFileAsText } from '../utils/readFile';
+import { previewPatientCSV, type PatientCsvRow } from '@shared/patientCsv';
+import { MappingProfileValidationError, STANDARD_MAPPING_PROFILE, resolvePatientColumns } from '@shared/patientMapping';
+import type { Patient, PatientImportSummary, PatientMappingProfile } from '@shared/types';
+
+const EMPTY_PATIENTS: Patient[] = [];
+const DEFAULT_PROFILES = [STANDARD_MAPPING_PROFILE];
+
+/**
+ * Summarize an import, e.g. "2 added, 1 updated, 0 unchanged; 1 row skipped".
+ */
+function formatSummary({ added, updated, unchanged, skippedRows }: PatientImportSummary): string {
+  const counts = `${added.length} added, ${updated.length} updated, ${unchanged.length} unchanged`;
+  if (skippedRows.length === 0) {
+    return counts;
+  }
+  return `${counts}; ${skippedRows.length} ${skippedRows.length === 1 ? 'row' : 'rows'} skipped ` +
+    `(${skippedRows.join(', ')})`;
+}
+
+/**
+ * The MRN and name a row was meant to have, even when it failed to parse.
+ */
+function describeRow(
+  row: PatientCsvRow,
+  columns: Partial<Record<keyof Patient, number>>
+): { patientId: string; patientName: string } {
+  const value = (field: keyof Patient) => (columns[field] === undefined ? '' : row.values[columns[field]!] ?? '');
+  return {
+    patientId: row.patient?.patientId ?? value('patientId'),
+    patientName: row.patient?.patientName ?? value('patientName'),
+  };
+}
+
+/**
+ * Upload a patient CSV, check every row before anything is saved, and import
+ * the valid rows. Existing patients are matched by MRN and updated.
+ *
+ * Files from other systems are read through a saved mapping profile; editing
+ * a profile updates the preview as you type.
+ */
+export function PatientImportView() {
+  const repository = useRepository();
+  const { user } = useAuth();
+  const loadPatients = useCallback(() => repository.getAllPatients(), [repository]);
+  const { data: patients = EMPTY_PATIENTS, reload: reloadPatients } = useAsyncData(loadPatients);
+  const loadProfiles = useCallback(() => repository.getMappingProfiles(), [repository]);
+  const { data: profiles = DEFAULT_PROFILES, reload: reloadProfiles } = useAsyncData(loadProfiles);
+  const [profileId, setProfileId] = useState(STANDARD_MAPPING_PROFILE.id);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<PatientMappingProfile | null>(null);
+  const [profileErrors, setProfileErrors] = useState<string[]>([]);
+  const [file, setFile] = useState<{ name: string; csv: string } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<PatientImportSummary | null>(null);
+
+  const selectedProfile = profiles.find(profile => profile.id === profileId) ?? STANDARD_MAPPING_PROFILE;
+  const activeProfile = editing && draft ? draft : selectedProfile;
+  const preview = useMemo(() => (file ? previewPatientCSV(file.csv, activeProfile) : null), [file, activeProfile]);
+  const columns = useMemo(
+    () => (preview ? resolvePatientColumns(preview.headers, activeProfile).columns : {}),
+    [preview, activeProfile]
+  );
+  const existingIds = useMemo(() => new Set(patients.map(patient => patient.patientId)), [patients]);
+  const validCount = preview?.rows.filter(row => row.patient).length ?? 0;
+  const invalidCount = (preview?.rows.length ?? 0) - validCount;
+  const warningCount = preview?.rows
+    .filter(row => row.patient && row.issues.some(issue => issue.severity === 'warning')).length ?? 0;
+
+  const stopEditing = () => {
+    setEditing(false);
+    setDraft(null);
+    setProfileErrors([]);
+  };
+
+  const handleSaveProfile = async (profile: PatientMappingProfile) => {
+    try {
+      const saved = await repository.saveMappingProfile(profile);
+      stopEditing();
+      setProfileId(saved.id);
+      reloadProfiles();
+    } catch (err) {
+      setProfileErrors(err instanceof MappingProfileValidationError ? err.errors : [(err as Error).message]);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    try {
+      await repository.deleteMappingProfile(profileId);
+      setProfileId(STANDARD_MAPPING_PROFILE.id);
+      reloadProfiles();
+    } catch (err) {
+      setProfileErrors([(err as Error).message]);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    setImportError(null);
+    setSummary(null);
+    if (!chosen) {
+      setFile(null);
+      return;
+    }
+    try {
+      setFile({ name: chosen.name, csv: await readFileAsText(chosen) });
+    } catch (err) {
+      setFile(null);
+      setImportError(`Could not read ${chosen.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) {
+      return;
+    }
+    setImporting(true);
+    setImportError(null);
+    try {
+      setSummary(await repository.importPatients(file.csv, user.id, selectedProfile.id));
+      setFile(null);
+      reloadPatients();
+    } catch (err) {
+      setImportError((err as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="patient-import-view">
+      <Card>
+        <CardHeader>
+          <h2 className="patient-import-view__title">Import Patients</h2>
+        </CardHeader>
+        <CardBody>
+          <p className="patient-import-view__hint">
+            Choose a patient CSV to check it. Nothing is saved until you import; rows with errors are
+            skipped, while rows with only warnings (such as a length of stay that does not match the
+            dates) are imported. Patients already on file (matched by MRN) are updated and their tasks brought in
+            line with the new details; new patients get tasks from the active rules. For files from
+            another system, choose or create a mapping profile that says which column holds each field
+            and how coded values such as dispositions are spelled.
+          </p>
+          <label className="patient-import-view__file">
+            <span className="patient-import-view__file-label">Patient CSV</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={importing} />
+          </label>
+          <div className="patient-import-view__profile">
+            <label className="patient-import-view__profile-field">
+              <span className="patient-import-view__file-label">Mapping profile</span>
+              <select
+                value={profileId}
+                onChange={(e) => setProfileId(e.target.value)}
+                disabled={editing || importing}
+              >
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </label>
+            {!editing && (
+              <Button variant="secondary" size="sm" onClick={() => setEditing(true)}>
+                {selectedProfile.id === STANDARD_MAPPING_PROFILE.id ? 'New Profile' : 'Edit Profile'}
+              </Button>
+            )}
+            {!editing && selectedProfile.id !== STANDARD_MAPPING_PROFILE.id && (
+              <Button variant="ghost" size="sm" onClick={handleDeleteProfile}>Delete Profile</Button>
+            )}
+          </div>
+          {profileErrors.length > 0 && (
+            <div className="patient-import-view__errors" role="alert">
+              <p className="patient-import-view__errors-title">The mapping profile was not saved:</p>
+              <ul>
+                {profileErrors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+          {editing && (
+            <div className="patient-import-view__editor">
+              <MappingProfileEditor
+                key={selectedProfile.id}
+                profile={selectedProfile}
+                headers={preview?.headers ?? []}
+                onChange={setDraft}
+                onSave={handleSaveProfile}
+                onCancel={stopEditing}
+              />
+            </div>
+          )}
+
+          {summary && (
+            <p className="patient-import-view__result" role="status">Imported: {formatSummary(summary)}.</p>
+          )}
+          {importError && (
+            <div className="patient-import-view__errors" role="alert">
+              <p className="patient-import-view__errors-title">Patients were not imported:</p>
+              <p>{importError}</p>
+            </div>
+          )}
+          {file && preview && preview.errors.length > 0 && (
+            <div className="patient-import-view__errors" role="alert">
+              <p className="patient-import-view__errors-title">{file.name} cannot be imported:</p>
+              <ul>
+                {preview.errors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {preview && preview.rows.length > 0 && (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableHeader>Row</TableHeader>
+                  <TableHeader>MRN</TableHeader>
+                  <TableHeader>Name</TableHeader>
+                  <TableHeader>Status</TableHeader>
+                  <TableHeader>Problems</TableHeader>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.rows.map(row => {
+                  const { patientId, patientName } = describeRow(row, columns);
+                  return (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell><code>{patientId}</code></TableCell>
+                      <TableCell>{patientName}</TableCell>
+                      <TableCell>
+                        {!row.patient
+                          ? <Badge variant="danger">Error</Badge>
+                          : existingIds.has(row.patient.patientId)
+                            ? <Badge variant="info">Update</Badge>
+                            : <Badge variant="success">New</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {row.issues.length > 0 && (
+                          <ul className="patient-import-view__issues">
+                            {row.issues.map(issue => (
+                              <li
+                                key={issue.message}
+                                className={`patient-import-view__issue patient-import-view__issue--${issue.severity}`}
+                              >
+                                {issue.severity === 'warning' && 'Warning: '}{issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardBody>
+        {preview && preview.rows.length > 0 && (
+          <CardFooter>
+            <div className="patient-import-view__actions">
+              <span className="patient-import-view__counts">
+                {validCount} valid, {invalidCount} with errors
+                {warningCount > 0 && `; ${warningCount} valid with warnings`}
+                {editing && ' (save the profile to import)'}
+              </span>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleImport}
+                disabled={validCount === 0 || importing || editing}
+              >
+                {importing ? 'Importing...' : `Import ${validCount} Valid ${validCount === 1 ? 'Row' : 'Rows'}`}
+              </Button>
+            </div>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
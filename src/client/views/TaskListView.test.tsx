@@ -1,7 +1,26 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ReactNode } from 'react';
+import { act, render, screen, fireEvent, within } from '@testing-library/react';
 import { TaskListView } from './TaskListView';
-import type { Task, Patient } from '@shared/types';
+import { RepositoryContext } from '../hooks/useRepository';
+import { AuthContext } from '../hooks/useAuth';
+import type { DischargeRepository } from '../services/repository';
+import type { LiveUpdate, Task, Patient, User } from '@shared/types';
+import { DEFAULT_TASK_RULE_SET } from '@shared/types';
+import { TaskConflictError } from '@shared/taskEngine';
+import { STANDARD_MAPPING_PROFILE } from '@shared/patientMapping';
+import { createBackup } from '@shared/backup';
+
+const NURSE: User = { id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' };
+const SUPERVISOR: User = { id: 'supervisor', displayName: 'Supervisor', role: 'supervisor' };
+
+function SignedIn({ children }: { children: ReactNode }) {
+  return <AuthContext.Provider value={{ user: NURSE, logout: vi.fn() }}>{children}</AuthContext.Provider>;
+}
+
+function SignedInAsSupervisor({ children }: { children: ReactNode }) {
+  return <AuthContext.Provider value={{ user: SUPERVISOR, logout: vi.fn() }}>{children}</AuthContext.Provider>;
+}
 
 const mockTasks: Task[] = [
   {
@@ -19,6 +38,7 @@ const mockTasks: Task[] = [
     status: 'pending',
     dueStart: new Date('2024-01-15T09:00:00'),
     dueEnd: new Date('2024-01-16T09:00:00'),
+    assignedTo: 'nurse-1',
   },
   {
     id: 'task-3',
@@ -92,6 +112,10 @@ const mockPatients: Patient[] = [
 vi.mock('../services/patientService', () => ({
   getAllTasks: vi.fn(() => mockTasks),
   getAllPatients: vi.fn(() => mockPatients),
+  getAssignableStaff: vi.fn(() => [NURSE]),
+  getTaskRuleSet: vi.fn(() => DEFAULT_TASK_RULE_SET),
+  escalateDueTasks: vi.fn(() => []),
+  watchAuditLog: vi.fn(() => () => {}),
   completeTask: vi.fn((taskId: string) => {
     const task = mockTasks.find(t => t.id === taskId);
     if (task) {
@@ -101,54 +125,246 @@ vi.mock('../services/patientService', () => ({
   }),
 }));
 
+const createRepository = (overrides: Partial<DischargeRepository>): DischargeRepository => ({
+  getAllPatients: vi.fn(async () => mockPatients),
+  getPatientById: vi.fn(async () => null),
+  importPatients: vi.fn(async () => ({ added: [], updated: [], unchanged: [], skippedRows: [] })),
+  getMappingProfiles: vi.fn(async () => [STANDARD_MAPPING_PROFILE]),
+  saveMappingProfile: vi.fn(async (profile) => profile),
+  deleteMappingProfile: vi.fn(async () => {}),
+  getAllTasks: vi.fn(async () => mockTasks),
+  getTasksByPatientId: vi.fn(async () => []),
+  completeTask: vi.fn(async () => null),
+  changeTaskStatus: vi.fn(async () => null),
+  addTaskNote: vi.fn(async () => null),
+  editTaskNote: vi.fn(async () => null),
+  redactTaskNote: vi.fn(async () => null),
+  logContactAttempt: vi.fn(async () => null),
+  getAssignableStaff: vi.fn(async () => [NURSE]),
+  assignTask: vi.fn(async () => null),
+  assignPatientTasks: vi.fn(async () => []),
+  autoAssignTasks: vi.fn(async () => []),
+  getEncounters: vi.fn(async () => []),
+  recordAdmission: vi.fn(async () => null),
+  recordDischarge: vi.fn(async () => null),
+  getEscalatedTasks: vi.fn(async () => []),
+  getDashboardStats: vi.fn(async () => ({
+    totalPatients: 0, pendingTasks: 0, overdueTasks: 0, completedToday: 0, urgentTasks: 0,
+    unassignedTasks: 0, closedTasks: 0,
+  })),
+  getTaskRuleSet: vi.fn(async () => DEFAULT_TASK_RULE_SET),
+  saveTaskRuleSet: vi.fn(async (ruleSet) => ruleSet),
+  login: vi.fn(async () => NURSE),
+  logout: vi.fn(async () => {}),
+  getCurrentUser: vi.fn(async () => NURSE),
+  getAuditLog: vi.fn(async () => []),
+  exportBackup: vi.fn(async () => createBackup({
+    patients: [], tasks: [], encounters: [], ruleSet: DEFAULT_TASK_RULE_SET, mappingProfiles: [], auditLog: [],
+  })),
+  restoreBackup: vi.fn(async () => ({ patients: 0, tasks: 0, encounters: 0, mappingProfiles: 0, auditEntries: 0 })),
+  subscribe: vi.fn(() => () => {}),
+  ...overrides,
+});
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+async function renderTaskListView() {
+  render(<TaskListView />, { wrapper: SignedIn });
+  await screen.findByRole('heading', { name: 'Tasks' });
+}
+
 describe('TaskListView', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
+  describe('loading and errors', () => {
+    it('shows a loading message before data arrives', async () => {
+      render(<TaskListView />, { wrapper: SignedIn });
+      expect(screen.getByRole('status')).toHaveTextContent('Loading tasks...');
+      await screen.findByRole('heading', { name: 'Tasks' });
+    });
+
+    it('shows an error with retry when loading fails', async () => {
+      const getAllTasks = vi.fn()
+        .mockRejectedValueOnce(new Error('Server unavailable'))
+        .mockResolvedValue(mockTasks);
+      const repository = createRepository({ getAllTasks });
+
+      render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedIn }
+      );
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load tasks: Server unavailable');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+      expect(await screen.findByText(/Showing 4 of 4 tasks/)).toBeInTheDocument();
+    });
+
+    it('shows an error when completing a task fails', async () => {
+      const completeTask = vi.fn(async () => {
+        throw new Error('Cannot complete a task before its window opens');
+      });
+      const repository = createRepository({ completeTask });
+
+      render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedIn }
+      );
+
+      const buttons = await screen.findAllByRole('button', { name: 'Mark Complete' });
+      fireEvent.click(buttons.find(button => !button.hasAttribute('disabled'))!);
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(
+        'Could not complete task: Cannot complete a task before its window opens'
+      );
+      expect(completeTask).toHaveBeenCalledWith(expect.any(String), 'nurse-1', 0);
+    });
+  });
+
+  describe('live updates', () => {
+    it('reloads when a change arrives and unsubscribes on unmount', async () => {
+      let listener: (update: LiveUpdate) => void = () => {};
+      const unsubscribe = vi.fn();
+      const getAllTasks = vi.fn()
+        .mockResolvedValueOnce(mockTasks.slice(0, 1))
+        .mockResolvedValue(mockTasks);
+      const repository = createRepository({
+        getAllTasks,
+        subscribe: vi.fn((next) => {
+          listener = next;
+          return unsubscribe;
+        }),
+      });
+
+      const { unmount } = render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedIn }
+      );
+      expect(await screen.findByText(/Showing 1 of 1 tasks/)).toBeInTheDocument();
+
+      act(() => listener({
+        type: 'change', action: 'task.completed', entityType: 'task', entityId: 'task-2', patientId: 'MRN001', at: new Date(),
+      }));
+      expect(await screen.findByText(/Showing 4 of 4 tasks/)).toBeInTheDocument();
+
+      unmount();
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
+
+  describe('contact attempts', () => {
+    it('logs an attempt against the patient phone number', async () => {
+      const logContactAttempt = vi.fn(async () => null);
+      const repository = createRepository({ logContactAttempt });
+
+      render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedIn }
+      );
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Log Attempt' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Save Attempt' }));
+
+      await vi.waitFor(() => expect(logContactAttempt).toHaveBeenCalledWith('task-1', {
+        channel: 'phone',
+        destination: '555-0100',
+        outcome: 'reached',
+        attemptedBy: 'nurse-1',
+      }, 0));
+    });
+  });
+
+  describe('conflicts', () => {
+    it('shows what changed first and applies the change again on the new version', async () => {
+      const current: Task = {
+        ...mockTasks[1],
+        version: 1,
+        notes: [{ id: 'note-1', text: 'Pharmacy called back', author: 'nurse-1', createdAt: new Date() }],
+      };
+      const completeTask = vi.fn()
+        .mockRejectedValueOnce(new TaskConflictError('Task was changed by someone else', current))
+        .mockResolvedValue(null);
+      const repository = createRepository({ completeTask });
+
+      render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedIn }
+      );
+
+      const buttons = await screen.findAllByRole('button', { name: 'Mark Complete' });
+      fireEvent.click(buttons.find(button => !button.hasAttribute('disabled'))!);
+
+      expect(await screen.findByText('Nurse One added a note: "Pharmacy called back"')).toBeInTheDocument();
+      expect(screen.getByRole('alert')).toHaveTextContent('Could not complete task');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Apply My Change Again' }));
+      await vi.waitFor(() => expect(completeTask).toHaveBeenLastCalledWith(current.id, 'nurse-1', 1));
+      expect(screen.queryByText(/Pharmacy called back/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('rendering', () => {
-    it('renders the title', () => {
-      render(<TaskListView />);
+    it('renders the title', async () => {
+      await renderTaskListView();
       expect(screen.getByRole('heading', { name: 'Tasks' })).toBeInTheDocument();
     });
 
-    it('renders task count badges', () => {
-      render(<TaskListView />);
+    it('renders task count badges', async () => {
+      await renderTaskListView();
       expect(screen.getByText('1 Overdue')).toBeInTheDocument();
       expect(screen.getByText('1 Pending')).toBeInTheDocument();
       expect(screen.getByText('1 Upcoming')).toBeInTheDocument();
       expect(screen.getByText('1 Completed')).toBeInTheDocument();
+      expect(screen.getByText('0 Closed')).toBeInTheDocument();
     });
 
-    it('renders all tasks', () => {
-      render(<TaskListView />);
+    it('renders all tasks', async () => {
+      await renderTaskListView();
       expect(screen.getByText(/Showing 4 of 4 tasks/)).toBeInTheDocument();
     });
 
-    it('renders patient information with tasks', () => {
-      render(<TaskListView />);
+    it('renders patient information with tasks', async () => {
+      await renderTaskListView();
       expect(screen.getAllByText('John Doe').length).toBeGreaterThan(0);
       expect(screen.getAllByText('Jane Smith').length).toBeGreaterThan(0);
     });
 
-    it('renders patient MRN', () => {
-      render(<TaskListView />);
+    it('renders patient MRN', async () => {
+      await renderTaskListView();
       expect(screen.getAllByText(/MRN: MRN001/).length).toBeGreaterThan(0);
       expect(screen.getAllByText(/MRN: MRN002/).length).toBeGreaterThan(0);
     });
   });
 
   describe('filters', () => {
-    it('renders filter dropdowns', () => {
-      render(<TaskListView />);
+    it('renders filter dropdowns', async () => {
+      await renderTaskListView();
       expect(screen.getByLabelText('Status')).toBeInTheDocument();
       expect(screen.getByLabelText('Task Type')).toBeInTheDocument();
       expect(screen.getByLabelText('Due Date')).toBeInTheDocument();
       expect(screen.getByLabelText('Sort By')).toBeInTheDocument();
     });
 
-    it('filters by status', () => {
-      render(<TaskListView />);
+    it('filters by status', async () => {
+      await renderTaskListView();
       const statusSelect = screen.getByLabelText('Status');
 
       fireEvent.change(statusSelect, { target: { value: 'overdue' } });
@@ -157,8 +373,8 @@ describe('TaskListView', () => {
       expect(screen.getByText('Overdue', { selector: '.badge' })).toBeInTheDocument();
     });
 
-    it('filters by task type', () => {
-      render(<TaskListView />);
+    it('filters by task type', async () => {
+      await renderTaskListView();
       const typeSelect = screen.getByLabelText('Task Type');
 
       fireEvent.change(typeSelect, { target: { value: 'medication_reconciliation' } });
@@ -167,8 +383,56 @@ describe('TaskListView', () => {
       expect(screen.getByText('Medication Reconciliation', { selector: '.task-card__type' })).toBeInTheDocument();
     });
 
-    it('shows empty state when no tasks match filters', () => {
-      render(<TaskListView />);
+    it('filters by due day in the facility time zone', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-15T03:00:00Z'));   // 22:00 on the 14th in New York
+      const tasks = [
+        { ...mockTasks[1], id: 'due-tonight', dueEnd: new Date('2026-01-15T04:30:00Z') },
+        { ...mockTasks[2], id: 'due-tomorrow', dueEnd: new Date('2026-01-15T06:00:00Z') },
+      ];
+      const calendar = { ...DEFAULT_TASK_RULE_SET.calendar!, timeZone: 'America/New_York' };
+      try {
+        render(
+          <RepositoryContext.Provider value={createRepository({
+            getAllTasks: vi.fn(async () => tasks),
+            getTaskRuleSet: vi.fn(async () => ({ ...DEFAULT_TASK_RULE_SET, calendar })),
+          })}>
+            <TaskListView />
+          </RepositoryContext.Provider>,
+          { wrapper: SignedIn }
+        );
+        const dueDateSelect = await screen.findByLabelText('Due Date');
+
+        fireEvent.change(dueDateSelect, { target: { value: 'today' } });
+        expect(screen.getByText(/Showing 1 of 2 tasks/)).toBeInTheDocument();
+        expect(screen.getByText('Medication Reconciliation', { selector: '.task-card__type' })).toBeInTheDocument();
+
+        fireEvent.change(dueDateSelect, { target: { value: 'tomorrow' } });
+        expect(screen.getByText(/Showing 1 of 2 tasks/)).toBeInTheDocument();
+        expect(screen.getByText('Confirm Followup Scheduling', { selector: '.task-card__type' })).toBeInTheDocument();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('names task types from the active rules', async () => {
+      const rules = DEFAULT_TASK_RULE_SET.rules.map(rule =>
+        rule.type === 'medication_reconciliation' ? { ...rule, label: 'Pharmacist Med Review' } : rule
+      );
+      render(
+        <RepositoryContext.Provider
+          value={createRepository({ getTaskRuleSet: vi.fn(async () => ({ ...DEFAULT_TASK_RULE_SET, rules })) })}
+        >
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedIn }
+      );
+
+      expect(await screen.findByText('Pharmacist Med Review', { selector: '.task-card__type' })).toBeInTheDocument();
+    });
+
+    it('shows empty state when no tasks match filters', async () => {
+      await renderTaskListView();
       const statusSelect = screen.getByLabelText('Status');
       const typeSelect = screen.getByLabelText('Task Type');
 
@@ -179,8 +443,8 @@ describe('TaskListView', () => {
       expect(screen.getByText('No tasks match the current filters.')).toBeInTheDocument();
     });
 
-    it('shows clear filters button when filters are active', () => {
-      render(<TaskListView />);
+    it('shows clear filters button when filters are active', async () => {
+      await renderTaskListView();
 
       expect(screen.queryByRole('button', { name: 'Clear Filters' })).not.toBeInTheDocument();
 
@@ -190,8 +454,8 @@ describe('TaskListView', () => {
       expect(screen.getByRole('button', { name: 'Clear Filters' })).toBeInTheDocument();
     });
 
-    it('clears filters when clear button is clicked', () => {
-      render(<TaskListView />);
+    it('clears filters when clear button is clicked', async () => {
+      await renderTaskListView();
       const statusSelect = screen.getByLabelText('Status');
 
       fireEvent.change(statusSelect, { target: { value: 'pending' } });
@@ -202,15 +466,124 @@ describe('TaskListView', () => {
     });
   });
 
+  describe('assignment', () => {
+    it('filters to my tasks or unassigned tasks', async () => {
+      await renderTaskListView();
+      const assigneeSelect = screen.getByLabelText('Assigned To');
+
+      fireEvent.change(assigneeSelect, { target: { value: 'mine' } });
+      expect(screen.getByText(/Showing 1 of 4 tasks/)).toBeInTheDocument();
+      expect(screen.getByText('Nurse One')).toBeInTheDocument();
+
+      fireEvent.change(assigneeSelect, { target: { value: 'unassigned' } });
+      expect(screen.getByText(/Showing 3 of 4 tasks/)).toBeInTheDocument();
+    });
+
+    it('offers assignment only to users with the permission', async () => {
+      await renderTaskListView();
+      expect(screen.queryByRole('button', { name: 'Auto-Assign' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Assign' })).not.toBeInTheDocument();
+    });
+
+    it('auto-assigns with the chosen strategy', async () => {
+      const autoAssignTasks = vi.fn(async () => []);
+      const repository = createRepository({ autoAssignTasks });
+
+      render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedInAsSupervisor }
+      );
+
+      fireEvent.change(await screen.findByLabelText('Auto-assign unassigned tasks by'), { target: { value: 'language' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Auto-Assign' }));
+
+      await vi.waitFor(() => expect(autoAssignTasks).toHaveBeenCalledWith('language', 'supervisor'));
+    });
+
+    it('reassigns a task with a reason', async () => {
+      const assignTask = vi.fn(async () => null);
+      const repository = createRepository({ assignTask });
+
+      render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedInAsSupervisor }
+      );
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Reassign' }));
+      fireEvent.change(screen.getByLabelText('Assign to'), { target: { value: '' } });
+      fireEvent.change(screen.getByLabelText('Reason for change'), { target: { value: 'On leave' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save Assignment' }));
+
+      await vi.waitFor(() => expect(assignTask).toHaveBeenCalledWith('task-2', null, 'supervisor', 'On leave', 0));
+    });
+  });
+
+  describe('closing and reopening', () => {
+    const renderWith = async (repository: DischargeRepository) => {
+      render(
+        <RepositoryContext.Provider value={repository}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedIn }
+      );
+      await screen.findByRole('heading', { name: 'Tasks' });
+    };
+
+    it('cancels a task with a reason as the signed-in user', async () => {
+      const changeTaskStatus = vi.fn(async () => null);
+      await renderWith(createRepository({ changeTaskStatus }));
+
+      // Sorted by urgency, so the overdue task comes first
+      fireEvent.click(screen.getAllByRole('button', { name: 'Close Task' })[0]);
+      const reason = screen.getByLabelText('Reason');
+      fireEvent.change(reason, { target: { value: 'readmitted' } });
+      fireEvent.click(within(reason.closest('form')!).getByRole('button', { name: 'Close Task' }));
+
+      await vi.waitFor(() => expect(changeTaskStatus).toHaveBeenCalledWith(
+        'task-1',
+        { action: 'cancelled', reason: 'readmitted', note: undefined, changedBy: 'nurse-1' },
+        0
+      ));
+    });
+
+    it('reopens a completed task and shows a refusal', async () => {
+      const changeTaskStatus = vi.fn(async () => {
+        throw new Error('Cannot reopen a task that is pending');
+      });
+      await renderWith(createRepository({ changeTaskStatus }));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Reopen' }));
+      fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'completed_in_error' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Reopen Task' }));
+
+      expect(await screen.findByText('Could not reopen task: Cannot reopen a task that is pending')).toBeInTheDocument();
+      expect(changeTaskStatus).toHaveBeenCalledWith('task-4', expect.objectContaining({ action: 'reopened' }), 0);
+    });
+
+    it('filters to cancelled tasks', async () => {
+      const cancelled: Task = { ...mockTasks[0], id: 'task-5', status: 'cancelled' };
+      await renderWith(createRepository({ getAllTasks: vi.fn(async () => [...mockTasks, cancelled]) }));
+
+      expect(screen.getByText('1 Closed')).toBeInTheDocument();
+      expect(screen.getByText('1 Overdue')).toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'cancelled' } });
+      expect(screen.getByText(/Showing 1 of 5 tasks/)).toBeInTheDocument();
+    });
+  });
+
   describe('sorting', () => {
-    it('defaults to sorting by urgency', () => {
-      render(<TaskListView />);
+    it('defaults to sorting by urgency', async () => {
+      await renderTaskListView();
       const sortSelect = screen.getByLabelText('Sort By') as HTMLSelectElement;
       expect(sortSelect.value).toBe('urgency');
     });
 
-    it('can change sort option', () => {
-      render(<TaskListView />);
+    it('can change sort option', async () => {
+      await renderTaskListView();
       const sortSelect = screen.getByLabelText('Sort By');
 
       fireEvent.change(sortSelect, { target: { value: 'type' } });
@@ -218,9 +591,42 @@ describe('TaskListView', () => {
     });
   });
 
+  describe('exporting', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('exports the listed tasks as CSV with readable names', async () => {
+      const createObjectURL = vi.fn((_blob: Blob) => 'blob:tasks');
+      vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(
+        <RepositoryContext.Provider value={createRepository({})}>
+          <TaskListView />
+        </RepositoryContext.Provider>,
+        { wrapper: SignedInAsSupervisor }
+      );
+
+      fireEvent.change(await screen.findByLabelText('Status'), { target: { value: 'completed' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Export CSV' }));
+
+      await vi.waitFor(() => expect(click).toHaveBeenCalled());
+      const lines = (await readBlob(createObjectURL.mock.calls[0][0])).split('\r\n');
+      expect(lines[0]).toMatch(/^Task ID,MRN,Patient,Task,Status,/);
+      expect(lines[1]).toMatch(/^task-4,MRN002,Jane Smith,48hr Check-in Call,Completed,/);
+      expect(lines).toHaveLength(3);
+      click.mockRestore();
+    });
+
+    it('offers exports only to users with the permission', async () => {
+      await renderTaskListView();
+      expect(screen.queryByRole('button', { name: 'Export CSV' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('task completion', () => {
-    it('renders mark complete button for pending tasks', () => {
-      render(<TaskListView />);
+    it('renders mark complete button for pending tasks', async () => {
+      await renderTaskListView();
       const completeButtons = screen.getAllByRole('button', { name: 'Mark Complete' });
       expect(completeButtons.length).toBeGreaterThan(0);
     });
@@ -3,8 +3,23 @@ import { Card, CardHeader, CardBody } from '../components/Card';
 import { Button } from '../components/Button';
 import { Badge } from '../components/Badge';
 import { TaskCard } from '../components/TaskCard';
-import { getAllTasks, getAllPatients, completeTask } from '../services/patientService';
-import type { Task, TaskStatus, TaskType, Patient } from '@shared/types';
+import type { ContactAttemptDraft } from '../components/TaskCard';
+import type { TaskStatusChangeDraft } from '../components/StatusChangeForm';
+import { StatusMessage } from '../components/StatusMessage';
+import { TaskConflict } from '../components/TaskConflict';
+import { useLiveData } from '../hooks/useLiveUpdates';
+import { useRepository } from '../hooks/useRepository';
+import { useAuth } from '../hooks/useAuth';
+import { downloadFile } from '../utils/download';
+import { XLSX_MIME_TYPE, createXlsxWorkbook } from '../utils/xlsx';
+import { canEditNote } from '@shared/auth';
+import { TaskConflictError, getTaskVersion } from '@shared/taskEngine';
+import { getTaskTypeLabel } from '@shared/taskRules';
+import { ASSIGNMENT_STRATEGY_LABELS } from '@shared/assignment';
+import { formatExportTableAsCsv, formatTasksForExport } from '@shared/dataExport';
+import { getZonedStartOfDay } from '@shared/timeZone';
+import { ASSIGNMENT_STRATEGIES, DEFAULT_WORKING_CALENDAR } from '@shared/types';
+import type { AssignmentStrategy, Task, TaskRule, TaskStatus, TaskType, Patient, User } from '@shared/types';
 
 type SortOption = 'urgency' | 'dueDate' | 'status' | 'type';
 
@@ -12,6 +27,7 @@ interface Filters {
   status: TaskStatus | 'all';
   taskType: TaskType | 'all';
   dueDateRange: 'all' | 'today' | 'tomorrow' | 'week' | 'overdue';
+  assignee: 'all' | 'mine' | 'unassigned';
 }
 
 const STATUS_OPTIONS: { value: TaskStatus | 'all'; label: string }[] = [
@@ -20,6 +36,8 @@ const STATUS_OPTIONS: { value: TaskStatus | 'all'; label: string }[] = [
   { value: 'pending', label: 'Pending' },
   { value: 'upcoming', label: 'Upcoming' },
   { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'not_applicable', label: 'Not Applicable' },
 ];
 
 const TASK_TYPE_OPTIONS: { value: TaskType | 'all'; label: string }[] = [
@@ -39,6 +57,19 @@ const DUE_DATE_OPTIONS: { value: Filters['dueDateRange']; label: string }[] = [
   { value: 'week', label: 'Due This Week' },
 ];
 
+const ASSIGNEE_OPTIONS: { value: Filters['assignee']; label: string }[] = [
+  { value: 'all', label: 'Everyone' },
+  { value: 'mine', label: 'My Tasks' },
+  { value: 'unassigned', label: 'Unassigned' },
+];
+
+const DEFAULT_FILTERS: Filters = {
+  status: 'all',
+  taskType: 'all',
+  dueDateRange: 'all',
+  assignee: 'all',
+};
+
 const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'urgency', label: 'Urgency' },
   { value: 'dueDate', label: 'Due Date' },
@@ -52,16 +83,19 @@ function getStatusPriority(status: TaskStatus): number {
     case 'pending': return 1;
     case 'upcoming': return 2;
     case 'completed': return 3;
-    default: return 4;
+    case 'cancelled': return 4;
+    case 'not_applicable': return 4;
+    default: return 5;
   }
 }
 
-function isDateInRange(date: Date, range: Filters['dueDateRange']): boolean {
+// Days run from midnight to midnight in the facility's time zone, not the browser's
+function isDateInRange(date: Date, range: Filters['dueDateRange'], timeZone: string): boolean {
   const now = new Date();
-  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const endOfToday = new Date(startOfToday.getTime() + 24 * 60 * 60 * 1000 - 1);
-  const endOfTomorrow = new Date(startOfToday.getTime() + 2 * 24 * 60 * 60 * 1000 - 1);
-  const endOfWeek = new Date(startOfToday.getTime() + 7 * 24 * 60 * 60 * 1000 - 1);
+  const startOfToday = getZonedStartOfDay(now, timeZone);
+  const startOfTomorrow = getZonedStartOfDay(now, timeZone, 1);
+  const startOfDayAfterTomorrow = getZonedStartOfDay(now, timeZone, 2);
+  const startOfNextWeek = getZonedStartOfDay(now, timeZone, 7);
 
   switch (range) {
     case 'all':
@@ -69,25 +103,54 @@ function isDateInRange(date: Date, range: Filters['dueDateRange']): boolean {
     case 'overdue':
       return date < now;
     case 'today':
-      return date >= startOfToday && date <= endOfToday;
+      return date >= startOfToday && date < startOfTomorrow;
     case 'tomorrow':
-      return date > endOfToday && date <= endOfTomorrow;
+      return date >= startOfTomorrow && date < startOfDayAfterTomorrow;
     case 'week':
-      return date >= startOfToday && date <= endOfWeek;
+      return date >= startOfToday && date < startOfNextWeek;
     default:
       return true;
   }
 }
 
+/**
+ * A task change refused because someone else changed the task first.
+ */
+interface PendingConflict {
+  task: Task;                     // The copy the change was based on
+  current: Task;
+  failure: string;
+  change: (expectedVersion?: number) => Promise<unknown>;
+}
+
+const EMPTY_TASKS: Task[] = [];
+const EMPTY_PATIENTS: Patient[] = [];
+const EMPTY_STAFF: User[] = [];
+const EMPTY_RULES: TaskRule[] = [];
+
 export function TaskListView() {
-  const [tasks, setTasks] = useState<Task[]>(() => getAllTasks());
-  const [patients] = useState<Patient[]>(() => getAllPatients());
-  const [filters, setFilters] = useState<Filters>({
-    status: 'all',
-    taskType: 'all',
-    dueDateRange: 'all',
-  });
+  const repository = useRepository();
+  const { user, can } = useAuth();
+  const loadData = useCallback(
+    () => Promise.all([
+      repository.getAllTasks(),
+      repository.getAllPatients(),
+      repository.getAssignableStaff(),
+      repository.getTaskRuleSet(),
+    ]),
+    [repository]
+  );
+  const { data, error, loading, reload } = useLiveData(loadData);
+  const tasks = data?.[0] ?? EMPTY_TASKS;
+  const patients = data?.[1] ?? EMPTY_PATIENTS;
+  const staff = data?.[2] ?? EMPTY_STAFF;
+  const rules = data?.[3].rules ?? EMPTY_RULES;
+  const timeZone = (data?.[3].calendar ?? DEFAULT_WORKING_CALENDAR).timeZone;
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
   const [sortBy, setSortBy] = useState<SortOption>('urgency');
+  const [strategy, setStrategy] = useState<AssignmentStrategy>('round_robin');
 
   const patientMap = useMemo(() => {
     const map = new Map<string, Patient>();
@@ -97,6 +160,16 @@ export function TaskListView() {
     return map;
   }, [patients]);
 
+  // Built-in types plus any custom rule types present in the loaded tasks
+  const taskTypeOptions = useMemo(() => {
+    const known = new Set(TASK_TYPE_OPTIONS.map(opt => opt.value));
+    const extra = [...new Set(tasks.map(task => task.type))]
+      .filter(type => !known.has(type))
+      .sort()
+      .map(type => ({ value: type, label: getTaskTypeLabel(type, rules) }));
+    return [...TASK_TYPE_OPTIONS, ...extra];
+  }, [tasks, rules]);
+
   const filteredAndSortedTasks = useMemo(() => {
     let result = [...tasks];
 
@@ -112,14 +185,21 @@ export function TaskListView() {
 
     // Apply due date range filter
     if (filters.dueDateRange !== 'all') {
-      result = result.filter(task => isDateInRange(task.dueEnd, filters.dueDateRange));
+      result = result.filter(task => isDateInRange(task.dueEnd, filters.dueDateRange, timeZone));
+    }
+
+    // Apply assignee filter
+    if (filters.assignee === 'mine') {
+      result = result.filter(task => task.assignedTo === user.id);
+    } else if (filters.assignee === 'unassigned') {
+      result = result.filter(task => !task.assignedTo);
     }
 
     // Sort tasks
     result.sort((a, b) => {
       switch (sortBy) {
         case 'urgency': {
-          // First by status priority (overdue > pending > upcoming > completed)
+          // First by status priority (overdue > pending > upcoming > completed > closed)
           const statusDiff = getStatusPriority(a.status) - getStatusPriority(b.status);
           if (statusDiff !== 0) return statusDiff;
           // Then by due end date (earliest first)
@@ -137,41 +217,175 @@ export function TaskListView() {
     });
 
     return result;
-  }, [tasks, filters, sortBy]);
+  }, [tasks, filters, sortBy, user.id, timeZone]);
 
-  const handleCompleteTask = useCallback((taskId: string) => {
-    const updatedTask = completeTask(taskId);
-    if (updatedTask) {
-      setTasks(getAllTasks());
+  /**
+   * Run a task change, show its error if it is refused, then refresh.
+   */
+  const runTaskAction = useCallback(async (action: () => Promise<unknown>, failure: string) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(`${failure}: ${(err as Error).message}`);
     }
-  }, []);
+    reload();
+  }, [reload]);
+
+  /**
+   * Run a change to one task, based on the given copy of it. If someone else
+   * changed the task first, hold on to the change so it can be applied again.
+   */
+  const runTaskChange = useCallback((
+    task: Task | undefined,
+    change: (expectedVersion?: number) => Promise<unknown>,
+    failure: string
+  ) => {
+    setConflict(null);
+    return runTaskAction(async () => {
+      try {
+        await change(task && getTaskVersion(task));
+      } catch (err) {
+        if (!(err instanceof TaskConflictError) || !task) {
+          throw err;
+        }
+        setConflict({ task, current: err.task, failure, change });
+      }
+    }, failure);
+  }, [runTaskAction]);
+
+  const findTask = useCallback((taskId: string) => tasks.find(task => task.id === taskId), [tasks]);
+
+  const handleCompleteTask = useCallback((taskId: string) =>
+    runTaskChange(
+      findTask(taskId),
+      (version) => repository.completeTask(taskId, user.id, version),
+      'Could not complete task'
+    ),
+  [repository, runTaskChange, findTask, user.id]);
+
+  const handleChangeStatus = useCallback((taskId: string, change: TaskStatusChangeDraft) =>
+    runTaskChange(
+      findTask(taskId),
+      (version) => repository.changeTaskStatus(taskId, { ...change, changedBy: user.id }, version),
+      change.action === 'reopened' ? 'Could not reopen task' : 'Could not close task'
+    ),
+  [repository, runTaskChange, findTask, user.id]);
+
+  const handleLogContact = useCallback((taskId: string, attempt: ContactAttemptDraft) =>
+    runTaskChange(
+      findTask(taskId),
+      (version) => repository.logContactAttempt(taskId, { ...attempt, attemptedBy: user.id }, version),
+      'Could not log contact attempt'
+    ),
+  [repository, runTaskChange, findTask, user.id]);
+
+  const handleAddNote = useCallback((taskId: string, text: string) =>
+    runTaskChange(
+      findTask(taskId),
+      (version) => repository.addTaskNote(taskId, text, user.id, version),
+      'Could not add note'
+    ),
+  [repository, runTaskChange, findTask, user.id]);
+
+  const handleEditNote = useCallback((taskId: string, noteId: string, text: string) =>
+    runTaskChange(
+      findTask(taskId),
+      (version) => repository.editTaskNote(taskId, noteId, text, user.id, version),
+      'Could not edit note'
+    ),
+  [repository, runTaskChange, findTask, user.id]);
+
+  const handleRedactNote = useCallback((taskId: string, noteId: string, reason: string) =>
+    runTaskChange(
+      findTask(taskId),
+      (version) => repository.redactTaskNote(taskId, noteId, user.id, reason, version),
+      'Could not redact note'
+    ),
+  [repository, runTaskChange, findTask, user.id]);
+
+  const handleAssign = useCallback((taskId: string, assignedTo: string | null, reason?: string) =>
+    runTaskChange(
+      findTask(taskId),
+      (version) => repository.assignTask(taskId, assignedTo, user.id, reason, version),
+      'Could not assign task'
+    ),
+  [repository, runTaskChange, findTask, user.id]);
+
+  // Applies the held change on top of the version that beat it
+  const handleRetryConflict = useCallback(() => {
+    if (conflict) {
+      void runTaskChange(conflict.current, conflict.change, conflict.failure);
+    }
+  }, [conflict, runTaskChange]);
+
+  const handleAutoAssign = useCallback(() =>
+    runTaskAction(() => repository.autoAssignTasks(strategy, user.id), 'Could not auto-assign tasks'),
+  [repository, runTaskAction, strategy, user.id]);
+
+  // Exports the tasks as listed, with task names and times from the current rules
+  const handleExport = useCallback((format: 'csv' | 'xlsx') => {
+    const table = formatTasksForExport(filteredAndSortedTasks, patients, { timeZone, rules, staff });
+    if (format === 'csv') {
+      downloadFile('tasks.csv', formatExportTableAsCsv(table), 'text/csv');
+    } else {
+      downloadFile('tasks.xlsx', createXlsxWorkbook([{ name: 'Tasks', table }]), XLSX_MIME_TYPE);
+    }
+  }, [filteredAndSortedTasks, patients, timeZone, rules, staff]);
 
   const handleFilterChange = useCallback(<K extends keyof Filters>(key: K, value: Filters[K]) => {
     setFilters(prev => ({ ...prev, [key]: value }));
   }, []);
 
   const handleClearFilters = useCallback(() => {
-    setFilters({
-      status: 'all',
-      taskType: 'all',
-      dueDateRange: 'all',
-    });
+    setFilters(DEFAULT_FILTERS);
   }, []);
 
   const hasActiveFilters = filters.status !== 'all' ||
     filters.taskType !== 'all' ||
-    filters.dueDateRange !== 'all';
+    filters.dueDateRange !== 'all' ||
+    filters.assignee !== 'all';
 
   const taskCounts = useMemo(() => {
-    const counts = { overdue: 0, pending: 0, upcoming: 0, completed: 0 };
+    const counts = { overdue: 0, pending: 0, upcoming: 0, completed: 0, cancelled: 0, not_applicable: 0 };
     for (const task of tasks) {
       counts[task.status]++;
     }
     return counts;
   }, [tasks]);
 
+  if (loading) {
+    return <StatusMessage variant="loading" message="Loading tasks..." />;
+  }
+
+  if (!data) {
+    return (
+      <StatusMessage
+        variant="error"
+        message={`Failed to load tasks: ${error?.message}`}
+        onRetry={reload}
+      />
+    );
+  }
+
   return (
     <div className="task-list-view">
+      {error && (
+        <StatusMessage variant="error" message={`Failed to refresh tasks: ${error.message}`} onRetry={reload} />
+      )}
+      {actionError && <StatusMessage variant="error" message={actionError} />}
+      {conflict && (
+        <TaskConflict
+          task={conflict.task}
+          current={conflict.current}
+          message={conflict.failure}
+          rules={rules}
+          staff={staff}
+          onRetry={handleRetryConflict}
+          onDismiss={() => setConflict(null)}
+        />
+      )}
+
       <Card className="task-list-view__filters">
         <CardHeader>
           <div className="task-list-view__filters-header">
@@ -181,6 +395,7 @@ export function TaskListView() {
               <Badge variant="warning">{taskCounts.pending} Pending</Badge>
               <Badge variant="info">{taskCounts.upcoming} Upcoming</Badge>
               <Badge variant="success">{taskCounts.completed} Completed</Badge>
+              <Badge>{taskCounts.cancelled + taskCounts.not_applicable} Closed</Badge>
             </div>
           </div>
         </CardHeader>
@@ -212,7 +427,7 @@ export function TaskListView() {
                 value={filters.taskType}
                 onChange={(e) => handleFilterChange('taskType', e.target.value as TaskType | 'all')}
               >
-                {TASK_TYPE_OPTIONS.map(opt => (
+                {taskTypeOptions.map(opt => (
                   <option key={opt.value} value={opt.value}>{opt.label}</option>
                 ))}
               </select>
@@ -234,6 +449,22 @@ export function TaskListView() {
               </select>
             </div>
 
+            <div className="task-list-view__filter-group">
+              <label className="task-list-view__filter-label" htmlFor="assignee-filter">
+                Assigned To
+              </label>
+              <select
+                id="assignee-filter"
+                className="task-list-view__select"
+                value={filters.assignee}
+                onChange={(e) => handleFilterChange('assignee', e.target.value as Filters['assignee'])}
+              >
+                {ASSIGNEE_OPTIONS.map(opt => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="task-list-view__filter-group">
               <label className="task-list-view__filter-label" htmlFor="sort-select">
                 Sort By
@@ -261,13 +492,56 @@ export function TaskListView() {
               </Button>
             )}
           </div>
+
+          {can('task.assign') && (
+            <div className="task-list-view__auto-assign">
+              <label className="task-list-view__filter-label" htmlFor="strategy-select">
+                Auto-assign unassigned tasks by
+              </label>
+              <select
+                id="strategy-select"
+                className="task-list-view__select"
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value as AssignmentStrategy)}
+              >
+                {ASSIGNMENT_STRATEGIES.map(value => (
+                  <option key={value} value={value}>{ASSIGNMENT_STRATEGY_LABELS[value]}</option>
+                ))}
+              </select>
+              <Button variant="secondary" size="sm" onClick={handleAutoAssign}>
+                Auto-Assign
+              </Button>
+            </div>
+          )}
         </CardBody>
       </Card>
 
       <div className="task-list-view__results">
-        <p className="task-list-view__result-count">
-          Showing {filteredAndSortedTasks.length} of {tasks.length} tasks
-        </p>
+        <div className="task-list-view__results-header">
+          <p className="task-list-view__result-count">
+            Showing {filteredAndSortedTasks.length} of {tasks.length} tasks
+          </p>
+          {can('data.export') && (
+            <div className="task-list-view__export">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleExport('csv')}
+                disabled={filteredAndSortedTasks.length === 0}
+              >
+                Export CSV
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleExport('xlsx')}
+                disabled={filteredAndSortedTasks.length === 0}
+              >
+                Export XLSX
+              </Button>
+            </div>
+          )}
+        </div>
 
         {filteredAndSortedTasks.length === 0 ? (
           <Card className="task-list-view__empty">
@@ -291,7 +565,19 @@ export function TaskListView() {
                   )}
                   <TaskCard
                     task={task}
-                    onComplete={handleCompleteTask}
+                    rules={rules}
+                    timeZone={timeZone}
+                    onComplete={can('task.complete') ? handleCompleteTask : undefined}
+                    onLogContact={can('task.contact') ? handleLogContact : undefined}
+                    onAddNote={can('task.note') ? handleAddNote : undefined}
+                    onEditNote={can('task.note') ? handleEditNote : undefined}
+                    onRedactNote={can('task.note_redact') ? handleRedactNote : undefined}
+                    onAssign={can('task.assign') ? handleAssign : undefined}
+                    onCloseTask={can('task.close') ? handleChangeStatus : undefined}
+                    onReopen={can('task.reopen') ? handleChangeStatus : undefined}
+                    staff={staff}
+                    canEditNote={(note) => canEditNote(user, note)}
+                    defaultDestination={patient?.phone ?? undefined}
                   />
                 </div>
               );
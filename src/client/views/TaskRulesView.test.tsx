@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TaskRulesView } from './TaskRulesView';
+import { RepositoryContext } from '../hooks/useRepository';
+import { AuthContext } from '../hooks/useAuth';
+import type { DischargeRepository } from '../services/repository';
+import { TaskRuleValidationError } from '@shared/taskRules';
+import { DEFAULT_TASK_RULE_SET, DEFAULT_WORKING_CALENDAR, TASK_RULES } from '@shared/types';
+import type { User } from '@shared/types';
+import { STANDARD_MAPPING_PROFILE } from '@shared/patientMapping';
+import { createBackup } from '@shared/backup';
+
+const ADMIN: User = { id: 'admin', displayName: 'Admin User', role: 'admin' };
+const NURSE: User = { id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' };
+
+const createRepository = (overrides: Partial<DischargeRepository> = {}): DischargeRepository => ({
+  getAllPatients: vi.fn(async () => []),
+  getPatientById: vi.fn(async () => null),
+  importPatients: vi.fn(async () => ({ added: [], updated: [], unchanged: [], skippedRows: [] })),
+  getMappingProfiles: vi.fn(async () => [STANDARD_MAPPING_PROFILE]),
+  saveMappingProfile: vi.fn(async (profile) => profile),
+  deleteMappingProfile: vi.fn(async () => {}),
+  getAllTasks: vi.fn(async () => []),
+  getTasksByPatientId: vi.fn(async () => []),
+  completeTask: vi.fn(async () => null),
+  changeTaskStatus: vi.fn(async () => null),
+  addTaskNote: vi.fn(async () => null),
+  editTaskNote: vi.fn(async () => null),
+  redactTaskNote: vi.fn(async () => null),
+  logContactAttempt: vi.fn(async () => null),
+  getAssignableStaff: vi.fn(async () => []),
+  assignTask: vi.fn(async () => null),
+  assignPatientTasks: vi.fn(async () => []),
+  autoAssignTasks: vi.fn(async () => []),
+  getEncounters: vi.fn(async () => []),
+  recordAdmission: vi.fn(async () => null),
+  recordDischarge: vi.fn(async () => null),
+  getEscalatedTasks: vi.fn(async () => []),
+  getDashboardStats: vi.fn(async () => ({
+    totalPatients: 0, pendingTasks: 0, overdueTasks: 0, completedToday: 0, urgentTasks: 0,
+    unassignedTasks: 0, closedTasks: 0,
+  })),
+  getTaskRuleSet: vi.fn(async () => DEFAULT_TASK_RULE_SET),
+  saveTaskRuleSet: vi.fn(async (ruleSet) => ({ ...ruleSet, version: ruleSet.version + 1 })),
+  login: vi.fn(async () => ADMIN),
+  logout: vi.fn(async () => {}),
+  getCurrentUser: vi.fn(async () => ADMIN),
+  getAuditLog: vi.fn(async () => []),
+  exportBackup: vi.fn(async () => createBackup({
+    patients: [], tasks: [], encounters: [], ruleSet: DEFAULT_TASK_RULE_SET, mappingProfiles: [], auditLog: [],
+  })),
+  restoreBackup: vi.fn(async () => ({ patients: 0, tasks: 0, encounters: 0, mappingProfiles: 0, auditEntries: 0 })),
+  subscribe: vi.fn(() => () => {}),
+  ...overrides,
+});
+
+async function renderTaskRulesView(repository: DischargeRepository, user: User = ADMIN) {
+  render(
+    <AuthContext.Provider value={{ user, logout: vi.fn() }}>
+      <RepositoryContext.Provider value={repository}>
+        <TaskRulesView />
+      </RepositoryContext.Provider>
+    </AuthContext.Provider>
+  );
+  await screen.findByRole('heading', { name: 'Task Rules' });
+}
+
+function editRules(value: string) {
+  fireEvent.change(screen.getByLabelText('Edit Rules (JSON)'), { target: { value } });
+}
+
+describe('TaskRulesView', () => {
+  it('lists the active rules with their conditions', async () => {
+    await renderTaskRulesView(createRepository());
+
+    expect(screen.getByText('Version 1')).toBeInTheDocument();
+    expect(screen.getByText('Facility Handoff Confirmation')).toBeInTheDocument();
+    expect(screen.getByText('Disposition: Skilled nursing facility')).toBeInTheDocument();
+    expect(screen.getAllByText('All patients')).toHaveLength(3);
+  });
+
+  it('shows the working calendar and how each window is counted', async () => {
+    const repository = createRepository({
+      getTaskRuleSet: vi.fn(async () => ({
+        version: 3,
+        rules: [{ ...TASK_RULES[0], windowMode: 'business' as const }],
+        calendar: { ...DEFAULT_WORKING_CALENDAR, holidays: ['2026-12-25'] },
+      })),
+    });
+    await renderTaskRulesView(repository);
+
+    expect(screen.getByText('Business hours', { selector: 'td' })).toBeInTheDocument();
+    expect(screen.getByText('Mon, Tue, Wed, Thu, Fri 08:00–17:00')).toBeInTheDocument();
+    expect(screen.getByText('2026-12-25')).toBeInTheDocument();
+  });
+
+  it('lists escalation tiers in the order they fire', async () => {
+    const repository = createRepository({
+      getTaskRuleSet: vi.fn(async () => DEFAULT_TASK_RULE_SET),
+    });
+    await renderTaskRulesView(repository);
+
+    expect(screen.getByText('All other tasks')).toBeInTheDocument();
+    expect(screen.getByText(
+      'Assigned staff at 50% of window → Charge nurse when due → Supervisor 4h after due'
+    )).toBeInTheDocument();
+  });
+
+  it('shows the rules read-only to users who cannot edit them', async () => {
+    await renderTaskRulesView(createRepository(), NURSE);
+
+    expect(screen.getByText('Facility Handoff Confirmation')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Edit Rules (JSON)')).not.toBeInTheDocument();
+  });
+
+  it('disables saving until the rules are edited', async () => {
+    await renderTaskRulesView(createRepository());
+    expect(screen.getByRole('button', { name: 'Save Rules' })).toBeDisabled();
+  });
+
+  it('saves edited rules against the loaded version', async () => {
+    const repository = createRepository();
+    await renderTaskRulesView(repository);
+
+    editRules(JSON.stringify({ calendar: DEFAULT_WORKING_CALENDAR, rules: TASK_RULES.slice(0, 2) }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Rules' }));
+
+    expect(await screen.findByText('Saved version 2.')).toBeInTheDocument();
+    expect(repository.saveTaskRuleSet).toHaveBeenCalledWith({
+      version: 1,
+      calendar: DEFAULT_WORKING_CALENDAR,
+      rules: TASK_RULES.slice(0, 2),
+    }, ADMIN.id);
+  });
+
+  it('reports invalid JSON without saving', async () => {
+    const repository = createRepository();
+    await renderTaskRulesView(repository);
+
+    editRules('[{');
+    fireEvent.click(screen.getByRole('button', { name: 'Save Rules' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid JSON');
+    expect(repository.saveTaskRuleSet).not.toHaveBeenCalled();
+  });
+
+  it('lists every validation error', async () => {
+    const repository = createRepository({
+      saveTaskRuleSet: vi.fn(async () => {
+        throw new TaskRuleValidationError([
+          'rules[0].label: must be a non-empty string',
+          'rules[0].windowEndHours: must be greater than windowStartHours',
+        ]);
+      }),
+    });
+    await renderTaskRulesView(repository);
+
+    editRules('[]');
+    fireEvent.click(screen.getByRole('button', { name: 'Save Rules' }));
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent('rules[0].label: must be a non-empty string');
+    expect(alert).toHaveTextContent('rules[0].windowEndHours: must be greater than windowStartHours');
+  });
+});
@@ -0,0 +1,239 @@
+import { useState, useCallback } from 'react';
+import { Card, CardHeader, CardBody, CardFooter } from '../components/Card';
+import { Button } from '../components/Button';
+import { Badge } from '../components/Badge';
+import { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from '../components/Table';
+import { StatusMessage } from '../components/StatusMessage';
+import { useAsyncData } from '../hooks/useAsyncData';
+import { useRepository } from '../hooks/useRepository';
+import { useAuth } from '../hooks/useAuth';
+import { TaskRuleValidationError, getTaskTypeLabel } from '@shared/taskRules';
+import { ESCALATION_RECIPIENT_LABELS } from '@shared/escalation';
+import { DEFAULT_WORKING_CALENDAR } from '@shared/types';
+import type { EscalationPolicy, EscalationTier, TaskRuleConditions, TaskRuleSet, WorkingCalendar } from '@shared/types';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Summarize a rule's conditions for the rules table.
+ */
+function formatConditions(conditions: TaskRuleConditions): string {
+  const parts: string[] = [];
+  if (conditions.dischargeDisposition) parts.push(`Disposition: ${conditions.dischargeDisposition.join(', ')}`);
+  if (conditions.readmissionRiskScore) parts.push(`Readmission risk: ${conditions.readmissionRiskScore.join(', ')}`);
+  if (conditions.fallRisk) parts.push(`Fall risk: ${conditions.fallRisk.join(', ')}`);
+  if (conditions.diagnosisKeywords) parts.push(`Diagnosis: ${conditions.diagnosisKeywords.join(', ')}`);
+  if (conditions.minAge !== undefined) parts.push(`Age ≥ ${conditions.minAge}`);
+  if (conditions.maxAge !== undefined) parts.push(`Age ≤ ${conditions.maxAge}`);
+  if (conditions.preferredLanguage) parts.push(`Language: ${conditions.preferredLanguage.join(', ')}`);
+  return parts.length > 0 ? parts.join('; ') : 'All patients';
+}
+
+/**
+ * Summarize the working calendar, e.g. "Mon, Tue, Wed, Thu, Fri 08:00–17:00".
+ */
+function formatCalendar(calendar: WorkingCalendar): string {
+  const days = [...calendar.workdays].sort((a, b) => a - b).map(day => DAY_NAMES[day]).join(', ');
+  return `${days} ${calendar.openTime}–${calendar.closeTime}`;
+}
+
+/**
+ * Summarize which tasks an escalation policy covers.
+ */
+function formatEscalationScope(policy: EscalationPolicy, ruleSet: TaskRuleSet): string {
+  const parts: string[] = [];
+  if (policy.taskTypes) parts.push(policy.taskTypes.map(type => getTaskTypeLabel(type, ruleSet.rules)).join(', '));
+  if (policy.readmissionRiskScore) parts.push(`Readmission risk: ${policy.readmissionRiskScore.join(', ')}`);
+  return parts.length > 0 ? parts.join('; ') : 'All other tasks';
+}
+
+/**
+ * Summarize when a tier fires and who it notifies, e.g. "Charge nurse 4h after due".
+ */
+function formatEscalationTier(tier: EscalationTier): string {
+  const when = tier.windowPercent !== undefined
+    ? `at ${tier.windowPercent}% of window`
+    : tier.hoursAfterDue ? `${tier.hoursAfterDue}h after due` : 'when due';
+  return `${ESCALATION_RECIPIENT_LABELS[tier.notify]} ${when}`;
+}
+
+/**
+ * Editable JSON for a rule set. The version is managed by the server, so it is left out.
+ */
+function formatRuleSet(ruleSet: TaskRuleSet): string {
+  const { calendar = DEFAULT_WORKING_CALENDAR, rules, escalations = [] } = ruleSet;
+  return JSON.stringify({ calendar, rules, escalations }, null, 2);
+}
+
+export function TaskRulesView() {
+  const repository = useRepository();
+  const { user, can } = useAuth();
+  const loadRules = useCallback(() => repository.getTaskRuleSet(), [repository]);
+  const { data: ruleSet, error, loading, reload } = useAsyncData(loadRules);
+  // null until the user edits, so the editor always starts from the loaded rules
+  const [draft, setDraft] = useState<string | null>(null);
+  const [saveErrors, setSaveErrors] = useState<string[]>([]);
+  const [savedVersion, setSavedVersion] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (loading) {
+    return <StatusMessage variant="loading" message="Loading task rules..." />;
+  }
+
+  if (!ruleSet) {
+    return (
+      <StatusMessage
+        variant="error"
+        message={`Failed to load task rules: ${error?.message}`}
+        onRetry={reload}
+      />
+    );
+  }
+
+  const editorValue = draft ?? formatRuleSet(ruleSet);
+  const calendar = ruleSet.calendar ?? DEFAULT_WORKING_CALENDAR;
+
+  const handleSave = async () => {
+    setSaveErrors([]);
+    setSavedVersion(null);
+
+    let edited: unknown;
+    try {
+      edited = JSON.parse(editorValue);
+    } catch (err) {
+      setSaveErrors([`Invalid JSON: ${(err as Error).message}`]);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await repository.saveTaskRuleSet(
+        { ...(edited as TaskRuleSet), version: ruleSet.version },
+        user.id
+      );
+      setDraft(null);
+      setSavedVersion(saved.version);
+      reload();
+    } catch (err) {
+      setSaveErrors(err instanceof TaskRuleValidationError ? err.errors : [(err as Error).message]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    setDraft(null);
+    setSaveErrors([]);
+  };
+
+  return (
+    <div className="task-rules-view">
+      {error && (
+        <StatusMessage variant="error" message={`Failed to refresh task rules: ${error.message}`} onRetry={reload} />
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="task-rules-view__header">
+            <h2 className="task-rules-view__title">Task Rules</h2>
+            <Badge variant="info">Version {ruleSet.version}</Badge>
+          </div>
+        </CardHeader>
+        <CardBody>
+          <p className="task-rules-view__hint">
+            Rules decide which tasks are generated for a discharged patient and when each task is due.
+            Changes apply to tasks generated after saving; existing tasks are not changed.
+          </p>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeader>Task</TableHeader>
+                <TableHeader>Type</TableHeader>
+                <TableHeader>Window (hours after discharge)</TableHeader>
+                <TableHeader>Counts</TableHeader>
+                <TableHeader>Applies to</TableHeader>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {ruleSet.rules.map(rule => (
+                <TableRow key={rule.type}>
+                  <TableCell>{rule.label}</TableCell>
+                  <TableCell><code>{rule.type}</code></TableCell>
+                  <TableCell>{rule.windowStartHours} – {rule.windowEndHours}</TableCell>
+                  <TableCell>{rule.windowMode === 'business' ? 'Business hours' : 'Calendar hours'}</TableCell>
+                  <TableCell>{formatConditions(rule.conditions)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <dl className="task-rules-view__calendar">
+            <dt>Business hours</dt>
+            <dd>{formatCalendar(calendar)}</dd>
+            <dt>Holidays</dt>
+            <dd>{calendar.holidays.length > 0 ? calendar.holidays.join(', ') : 'None'}</dd>
+          </dl>
+          <h3 className="task-rules-view__subtitle">Escalations</h3>
+          {ruleSet.escalations && ruleSet.escalations.length > 0 ? (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableHeader>Applies to</TableHeader>
+                  <TableHeader>Tiers (in order)</TableHeader>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {ruleSet.escalations.map((policy, i) => (
+                  <TableRow key={i}>
+                    <TableCell>{formatEscalationScope(policy, ruleSet)}</TableCell>
+                    <TableCell>{policy.tiers.map(formatEscalationTier).join(' → ')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="task-rules-view__hint">Tasks are not escalated.</p>
+          )}
+        </CardBody>
+      </Card>
+
+      {can('rules.edit') && (
+        <Card>
+          <CardHeader>
+            <label className="task-rules-view__title" htmlFor="task-rules-editor">Edit Rules (JSON)</label>
+          </CardHeader>
+          <CardBody>
+            {saveErrors.length > 0 && (
+              <div className="task-rules-view__errors" role="alert">
+                <p className="task-rules-view__errors-title">Rules were not saved:</p>
+                <ul>
+                  {saveErrors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              </div>
+            )}
+            {savedVersion !== null && (
+              <p className="task-rules-view__saved" role="status">Saved version {savedVersion}.</p>
+            )}
+            <textarea
+              id="task-rules-editor"
+              className="task-rules-view__editor"
+              value={editorValue}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              rows={20}
+            />
+          </CardBody>
+          <CardFooter>
+            <div className="task-rules-view__actions">
+              <Button variant="ghost" size="sm" onClick={handleDiscard} disabled={draft === null || saving}>
+                Discard Changes
+              </Button>
+              <Button variant="primary" size="sm" onClick={handleSave} disabled={draft === null || saving}>
+                {saving ? 'Saving...' : 'Save Rules'}
+              </Button>
+            </div>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,7 @@
 export { Dashboard } from './Dashboard';
 export { TaskListView } from './TaskListView';
+export { TaskRulesView } from './TaskRulesView';
+export { AuditLogView } from './AuditLogView';
+export { PatientImportView } from './PatientImportView';
+export { DataExportView } from './DataExportView';
+export { LoginView } from './LoginView';
@@ -0,0 +1,1064 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  AuditEntry,
+  DashboardStats,
+  Encounter,
+  Patient,
+  PatientImportSummary,
+  PatientMappingProfile,
+  PatientWithTasks,
+  Task,
+  TaskRuleSet,
+  TASK_RULES,
+  User,
+} from '../shared/types';
+import { StoredUser, hashPassword } from '../shared/auth';
+import { createApp } from './app';
+import { TaskStore } from './services/taskStateManager';
+import { TaskRuleStore } from './services/taskRuleStore';
+import { EncounterStore } from './services/encounterStore';
+import { PatientStore } from './services/patientStore';
+import { MappingProfileStore } from './services/mappingProfileStore';
+import { AuditLog } from './services/auditLog';
+import { UserStore } from './services/userStore';
+import { SessionStore } from './services/sessionStore';
+import { LiveUpdateHub } from './services/liveUpdates';
+
+const createTestPatient = (overrides: Partial<Patient> = {}): Patient => ({
+  patientId: 'MRN0001',
+  patientName: 'Test Patient',
+  dob: '1960-01-01',
+  gender: 'M',
+  phone: '555-0000',
+  email: null,
+  preferredLanguage: 'English',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Pneumonia',
+  dischargeDisposition: 'Home',
+  dischargeMedications: 'Amoxicillin',
+  allergies: null,
+  attendingPhysician: 'Dr. Smith',
+  pcpName: null,
+  pcpPhone: null,
+  readmissionRiskScore: 'Low',
+  fallRisk: null,
+  notes: null,
+  ...overrides,
+});
+
+const HOUR = 60 * 60 * 1000;
+
+const USERS: User[] = [
+  { id: 'assistant-1', displayName: 'Assistant One', role: 'assistant' },
+  { id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' },
+  { id: 'nurse-2', displayName: 'Nurse Two', role: 'nurse' },
+  { id: 'supervisor', displayName: 'Supervisor', role: 'supervisor' },
+  { id: 'admin', displayName: 'Admin', role: 'admin' },
+];
+const PASSWORD = 'test-password';
+
+const readJson = <T>(res: Response): Promise<T> => res.json() as Promise<T>;
+
+describe('API server', () => {
+  let server: Server;
+  let baseUrl: string;
+  let taskStore: TaskStore;
+  let sessions: SessionStore;
+  let liveUpdates: LiveUpdateHub;
+  let storedUsers: StoredUser[];
+
+  beforeAll(async () => {
+    const passwordHash = await hashPassword(PASSWORD, 1000);
+    storedUsers = USERS.map((user) => ({ ...user, passwordHash }));
+  });
+
+  beforeEach(async () => {
+    const now = Date.now();
+    const patients = [
+      createTestPatient(),
+      createTestPatient({ patientId: 'MRN0002', patientName: 'Jane Smith' }),
+    ];
+    const tasks: Task[] = [
+      {
+        id: 'task_open',
+        patientId: 'MRN0001',
+        type: 'contact_patient',
+        status: 'pending',
+        dueStart: new Date(now - HOUR),
+        dueEnd: new Date(now + 2 * HOUR),
+      },
+      {
+        id: 'task_overdue',
+        patientId: 'MRN0001',
+        type: 'medication_reconciliation',
+        status: 'pending',
+        dueStart: new Date(now - 48 * HOUR),
+        dueEnd: new Date(now - HOUR),
+      },
+      {
+        id: 'task_upcoming',
+        patientId: 'MRN0002',
+        type: 'checkin_call',
+        status: 'pending',
+        dueStart: new Date(now + 24 * HOUR),
+        dueEnd: new Date(now + 48 * HOUR),
+      },
+    ];
+    taskStore = new TaskStore(tasks);
+
+    sessions = new SessionStore();
+    const auditLog = new AuditLog();
+    liveUpdates = new LiveUpdateHub();
+    liveUpdates.watchAuditLog(auditLog);
+
+    const app = createApp({
+      patients,
+      patientStore: new PatientStore(),
+      mappingProfiles: new MappingProfileStore(),
+      taskStore,
+      encounterStore: new EncounterStore(),
+      ruleStore: new TaskRuleStore(),
+      auditLog,
+      userStore: new UserStore(undefined, storedUsers),
+      sessions,
+      liveUpdates,
+    });
+    server = await new Promise<Server>((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Requests are signed in as the given user: reads as an admin, changes as a nurse by default
+  const authorization = (userId: string) => ({ Authorization: `Bearer ${sessions.create(userId)}` });
+  const get = (path: string, userId = 'admin') => fetch(`${baseUrl}${path}`, { headers: authorization(userId) });
+  const send = (method: string, path: string, body: unknown, userId = 'nurse-1') =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...authorization(userId) },
+      body: JSON.stringify(body),
+    });
+  const patch = (path: string, body: unknown, userId?: string) => send('PATCH', path, body, userId);
+  const logAttempt = (taskId: string, overrides: Record<string, unknown> = {}, userId?: string) =>
+    send('POST', `/tasks/${taskId}/contact-attempts`, {
+      channel: 'phone',
+      destination: '555-1234',
+      outcome: 'reached',
+      ...overrides,
+    }, userId);
+
+  describe('GET /api/patients', () => {
+    it('should list all patients', async () => {
+      const res = await get(`/patients`);
+      const body = await readJson<Patient[]>(res);
+
+      expect(res.status).toBe(200);
+      expect(body).toHaveLength(2);
+    });
+
+    it('should filter patients by name', async () => {
+      const res = await get(`/patients?q=jane`);
+      const body = await readJson<Patient[]>(res);
+
+      expect(body).toHaveLength(1);
+      expect(body[0].patientId).toBe('MRN0002');
+    });
+  });
+
+  describe('GET /api/patients/:id', () => {
+    it('should return the patient with their tasks', async () => {
+      const res = await get(`/patients/MRN0001`);
+      const body = await readJson<PatientWithTasks>(res);
+
+      expect(res.status).toBe(200);
+      expect(body.patientName).toBe('Test Patient');
+      expect(body.tasks.map((t) => t.id)).toEqual(['task_open', 'task_overdue']);
+      expect(body.encounters.map((e) => e.id)).toEqual(['MRN0001-1']);
+    });
+
+    it('should return 404 for unknown patient', async () => {
+      const res = await get(`/patients/UNKNOWN`);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('patient encounters', () => {
+    const admit = (body: unknown, userId?: string) => send('POST', '/patients/MRN0001/encounters', body, userId);
+    const discharge = (encounterId: string, body: unknown) =>
+      send('POST', `/patients/MRN0001/encounters/${encounterId}/discharge`, body);
+
+    it('should cancel open tasks when a readmission is recorded', async () => {
+      const res = await admit({ admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' });
+
+      expect(res.status).toBe(201);
+      expect(await readJson<Encounter>(res)).toMatchObject({ id: 'MRN0001-2', dischargeDate: null });
+      const tasks = await readJson<Task[]>(await get('/tasks?patientId=MRN0001'));
+      expect(tasks.map((t) => t.status)).toEqual(['cancelled', 'cancelled']);
+      expect(tasks[0].statusChanges?.[0]).toMatchObject({ reason: 'readmitted', changedBy: 'nurse-1' });
+
+      const entries = await readJson<AuditEntry[]>(await get('/audit?patientId=MRN0001'));
+      expect(entries.map((e) => e.action).sort()).toEqual(['encounter.admitted', 'task.closed', 'task.closed']);
+    });
+
+    it('should generate tasks for the new discharge', async () => {
+      await admit({ admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' });
+
+      const res = await discharge('MRN0001-2', {
+        dischargeDate: '2026-01-24',
+        dischargeTime: '09:00',
+        dischargeDisposition: 'Skilled nursing facility',
+      });
+
+      expect(res.status).toBe(200);
+      const tasks = await readJson<Task[]>(await get('/tasks?patientId=MRN0001'));
+      const generated = tasks.filter((t) => t.encounterId === 'MRN0001-2');
+      expect(generated.map((t) => t.type)).toContain('facility_handoff');
+      expect(new Date(generated[0].dueStart)).toEqual(new Date('2026-01-24T14:00:00Z'));
+
+      const encounters = await readJson<Encounter[]>(await get('/patients/MRN0001/encounters'));
+      expect(encounters.map((e) => e.dischargeDate)).toEqual(['2026-01-14', '2026-01-24']);
+    });
+
+    it('should refuse a readmission while the patient is admitted', async () => {
+      await admit({ admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' });
+
+      const res = await admit({ admissionDate: '2026-01-21', primaryDiagnosis: 'Sepsis' });
+
+      expect(res.status).toBe(409);
+      expect((await readJson<{ error: string }>(res)).error).toBe('Patient is still admitted (since 2026-01-20)');
+    });
+
+    it('should validate encounters and need encounter.record', async () => {
+      expect((await admit({ admissionDate: 'yesterday', primaryDiagnosis: 'Sepsis' })).status).toBe(400);
+      expect((await admit({ admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' }, 'assistant-1')).status).toBe(403);
+      expect((await send('POST', '/patients/UNKNOWN/encounters', { admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' }))
+        .status).toBe(404);
+      expect((await discharge('MRN0001-1', { dischargeDate: '2026-01-24', dischargeTime: null, dischargeDisposition: 'Home' }))
+        .status).toBe(409);
+    });
+  });
+
+  describe('POST /api/patients/import', () => {
+    const HEADER = 'patient_id,patient_name,dob,gender,phone,email,preferred_language,admission_date,discharge_date,' +
+      'discharge_time,length_of_stay,primary_diagnosis,discharge_disposition,discharge_medications,allergies,' +
+      'attending_physician,pcp_name,pcp_phone,readmission_risk_score,fall_risk,notes';
+    const CSV = [
+      HEADER,
+      'MRN0003,New Patient,1970-02-02,F,555-0003,,English,2026-01-10,2026-01-14,10:00,4,Pneumonia,Home,Med,,Dr. A,,,Low,,',
+      'MRN0002,Jane Smith,1960-01-01,M,555-0000,,English,2026-01-10,2026-01-14,10:00,4,Pneumonia,Home,Amoxicillin,,' +
+        'Dr. Smith,,,High,,',
+      'MRN0004,Bad Row,1970-02-02,F,,,English,2026-01-10,2026-01-14,,4,Pneumonia,Hospice,Med,,Dr. A,,,Low,,',
+    ].join('\n');
+    const importCsv = (body: string, userId = 'supervisor', contentType = 'text/csv') =>
+      fetch(`${baseUrl}/patients/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': contentType, ...authorization(userId) },
+        body,
+      });
+
+    it('should import valid rows, merge by MRN and generate tasks for new patients', async () => {
+      const res = await importCsv(CSV);
+
+      expect(res.status).toBe(200);
+      expect(await readJson<PatientImportSummary>(res)).toEqual({
+        added: ['MRN0003'],
+        updated: ['MRN0002'],
+        unchanged: [],
+        skippedRows: [4],
+      });
+      const patients = await readJson<Patient[]>(await get('/patients'));
+      expect(patients.map((p) => [p.patientId, p.readmissionRiskScore])).toEqual([
+        ['MRN0001', 'Low'],
+        ['MRN0002', 'High'],
+        ['MRN0003', 'Low'],
+      ]);
+      const tasks = await readJson<Task[]>(await get('/tasks?patientId=MRN0003'));
+      expect(tasks.map((t) => t.type)).toEqual(['contact_patient', 'medication_reconciliation', 'followup_scheduling']);
+
+      const entries = await readJson<AuditEntry[]>(await get('/audit?action=patient.imported'));
+      expect(entries.map((e) => [e.entityId, e.actor]).sort()).toEqual([['MRN0002', 'supervisor'], ['MRN0003', 'supervisor']]);
+      expect(entries.find((e) => e.entityId === 'MRN0002')?.after).toEqual({ readmissionRiskScore: 'High' });
+    });
+
+    it('should change nothing when the same file is imported again', async () => {
+      await importCsv(CSV);
+
+      expect(await readJson<PatientImportSummary>(await importCsv(CSV))).toMatchObject({
+        added: [],
+        updated: [],
+        unchanged: ['MRN0003', 'MRN0002'],
+      });
+    });
+
+    it('should refuse unusable files and need patients.import', async () => {
+      expect((await importCsv(HEADER)).status).toBe(400);
+      expect((await importCsv(JSON.stringify({ csv: CSV }), 'supervisor', 'application/json')).status).toBe(415);
+      expect((await importCsv(CSV, 'nurse-1')).status).toBe(403);
+    });
+
+    it('should read the file with the chosen mapping profile', async () => {
+      await send('PUT', '/mapping-profiles/ehr', {
+        id: 'ehr',
+        name: 'EHR export',
+        columns: { patientId: 'MRN', dischargeDisposition: 'Disposition', readmissionRiskScore: 'Risk' },
+        valueSynonyms: { riskLevel: { '4': 'Very High' } },
+      }, 'supervisor');
+      const csv = 'MRN,Patient Name,Discharge Date,Disposition,Risk\nMRN0005,Ehr Patient,2026-01-14,SNF,4';
+
+      const res = await fetch(`${baseUrl}/patients/import?profile=ehr`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv', ...authorization('supervisor') },
+        body: csv,
+      });
+
+      expect(await readJson<PatientImportSummary>(res)).toMatchObject({ added: ['MRN0005'], skippedRows: [] });
+      expect(await readJson<Patient>(await get('/patients/MRN0005'))).toMatchObject({
+        dischargeDisposition: 'Skilled nursing facility',
+        readmissionRiskScore: 'Very High',
+      });
+      const unknown = await fetch(`${baseUrl}/patients/import?profile=missing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv', ...authorization('supervisor') },
+        body: csv,
+      });
+      expect(unknown.status).toBe(400);
+    });
+  });
+
+  describe('/api/mapping-profiles', () => {
+    const PROFILE = { id: 'ehr', name: 'EHR export', columns: { patientId: 'MRN' }, valueSynonyms: {} };
+
+    it('should save, list and delete profiles', async () => {
+      expect((await send('PUT', '/mapping-profiles/ehr', PROFILE, 'supervisor')).status).toBe(200);
+
+      const profiles = await readJson<PatientMappingProfile[]>(await get('/mapping-profiles', 'supervisor'));
+      expect(profiles.map((p) => p.id)).toEqual(['standard', 'ehr']);
+
+      expect((await send('DELETE', '/mapping-profiles/ehr', undefined, 'supervisor')).status).toBe(204);
+      expect((await send('DELETE', '/mapping-profiles/ehr', undefined, 'supervisor')).status).toBe(404);
+    });
+
+    it('should reject invalid profiles with every problem found', async () => {
+      const res = await send('PUT', '/mapping-profiles/ehr', { ...PROFILE, name: '', columns: { age: 'Age' } }, 'supervisor');
+
+      expect(res.status).toBe(400);
+      expect(await readJson<{ details: string[] }>(res)).toEqual({
+        error: 'Invalid mapping profile',
+        details: ['name: must be a non-empty string', 'columns.age: not a patient field'],
+      });
+      expect((await send('PUT', '/mapping-profiles/other', PROFILE, 'supervisor')).status).toBe(400);
+    });
+
+    it('should need patients.import', async () => {
+      expect((await get('/mapping-profiles', 'nurse-1')).status).toBe(403);
+      expect((await send('PUT', '/mapping-profiles/ehr', PROFILE)).status).toBe(403);
+    });
+  });
+
+  describe('/api/backup', () => {
+    it('should put back the dataset as it was backed up, keeping the audit log', async () => {
+      await send('POST', '/tasks/task_open/notes', { text: 'Left voicemail' });
+      const backupRes = await get('/backup');
+      const backup = await readJson<{ tasks: Task[]; auditLog: AuditEntry[] }>(backupRes);
+      expect(backupRes.headers.get('content-disposition')).toMatch(/discharge-flow-backup-\d{4}-\d{2}-\d{2}\.json/);
+      expect(backup.tasks).toHaveLength(3);
+
+      await send('POST', '/tasks/task_open/notes', { text: 'Patient called back' });
+      await send('PUT', '/mapping-profiles/ehr', { id: 'ehr', name: 'EHR', columns: {}, valueSynonyms: {} }, 'supervisor');
+      const res = await send('POST', '/backup', backup, 'admin');
+
+      expect(res.status).toBe(200);
+      expect(await readJson(res)).toEqual({ patients: 2, tasks: 3, encounters: 0, mappingProfiles: 0, auditEntries: 0 });
+      const task = await readJson<Task>(await get('/tasks/task_open'));
+      expect(task.notes?.map((n) => n.text)).toEqual(['Left voicemail']);
+      expect(await readJson<PatientMappingProfile[]>(await get('/mapping-profiles'))).toHaveLength(1);
+      expect((await readJson<TaskRuleSet>(await get('/rules'))).version).toBe(2);
+      const audit = await readJson<AuditEntry[]>(await get('/audit'));
+      expect(audit.map((e) => e.action)).toEqual(['data.restored', 'task.note_added', 'task.note_added']);
+      expect(audit[0]).toMatchObject({ actor: 'admin', entityType: 'dataset' });
+    });
+
+    it('should reject an invalid backup with every problem found', async () => {
+      const backup = await readJson<{ tasks: Task[] }>(await get('/backup'));
+      const res = await send('POST', '/backup', { ...backup, tasks: [{ ...backup.tasks[0], patientId: 'MRN9999' }] }, 'admin');
+
+      expect(res.status).toBe(400);
+      expect(await readJson(res)).toEqual({
+        error: 'Invalid backup',
+        details: ['tasks[0].patientId: no patient "MRN9999" in the backup'],
+      });
+      expect(await readJson<Task[]>(await get('/tasks'))).toHaveLength(3);
+    });
+
+    it('should need data.export to back up and data.restore to restore', async () => {
+      const backup = await readJson(await get('/backup', 'supervisor'));
+
+      expect((await get('/backup', 'nurse-1')).status).toBe(403);
+      expect((await send('POST', '/backup', backup, 'supervisor')).status).toBe(403);
+    });
+  });
+
+  describe('GET /api/tasks', () => {
+    it('should list tasks with recalculated status', async () => {
+      const res = await get(`/tasks`);
+      const body = await readJson<Task[]>(res);
+
+      expect(body.map((t) => [t.id, t.status])).toEqual([
+        ['task_open', 'pending'],
+        ['task_overdue', 'overdue'],
+        ['task_upcoming', 'upcoming'],
+      ]);
+    });
+
+    it('should filter by status, type and patient', async () => {
+      const byStatus = await readJson<Task[]>(await get(`/tasks?status=overdue`));
+      const byType = await readJson<Task[]>(await get(`/tasks?type=checkin_call`));
+      const byPatient = await readJson<Task[]>(await get(`/tasks?patientId=MRN0002`));
+
+      expect(byStatus.map((t) => t.id)).toEqual(['task_overdue']);
+      expect(byType.map((t) => t.id)).toEqual(['task_upcoming']);
+      expect(byPatient.map((t) => t.id)).toEqual(['task_upcoming']);
+    });
+
+    it('should reject an invalid status filter', async () => {
+      const res = await get(`/tasks?status=bogus`);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/tasks/urgent', () => {
+    it('should return open tasks due within 4 hours', async () => {
+      const body = await readJson<Task[]>(await get(`/tasks/urgent`));
+      expect(body.map((t) => t.id)).toEqual(['task_open']);
+    });
+  });
+
+  describe('GET /api/tasks/escalated', () => {
+    it('should return open escalated tasks, highest level first', async () => {
+      const escalation = (level: number) => ({ level, notify: 'assignee' as const, recipients: [], escalatedAt: new Date() });
+      taskStore.escalateTasks([
+        { taskId: 'task_open', escalations: [escalation(1)] },
+        { taskId: 'task_overdue', escalations: [escalation(1), escalation(2)] },
+      ]);
+
+      const body = await readJson<Task[]>(await get(`/tasks/escalated`));
+
+      expect(body.map((t) => [t.id, t.escalations?.length])).toEqual([['task_overdue', 2], ['task_open', 1]]);
+    });
+  });
+
+  describe('PATCH /api/tasks/:id', () => {
+    it('should complete a pending task as the signed-in user', async () => {
+      await logAttempt('task_open');
+      const res = await patch('/tasks/task_open', { status: 'completed', completedBy: 'someone-else' });
+      const body = await readJson<Task>(res);
+
+      expect(res.status).toBe(200);
+      expect(body.status).toBe('completed');
+      expect(body.completedBy).toBe('nurse-1');
+      expect(taskStore.getTaskById('task_open')?.status).toBe('completed');
+    });
+
+    it('should refuse to complete an outreach task before a successful contact', async () => {
+      await logAttempt('task_open', { outcome: 'voicemail' });
+      const res = await patch('/tasks/task_open', { status: 'completed' });
+      const body = await readJson<{ error: string }>(res);
+
+      expect(res.status).toBe(409);
+      expect(body.error).toBe('Log a successful contact attempt before completing this task');
+    });
+
+    it('should refuse to complete an upcoming task', async () => {
+      const res = await patch('/tasks/task_upcoming', { status: 'completed' });
+      const body = await readJson<{ error: string }>(res);
+
+      expect(res.status).toBe(409);
+      expect(body.error).toBe('Cannot complete a task before its window opens');
+    });
+
+    it('should refuse to overwrite notes', async () => {
+      const res = await patch('/tasks/task_upcoming', { notes: 'Left voicemail' });
+      const body = await readJson<{ error: string }>(res);
+
+      expect(res.status).toBe(400);
+      expect(body.error).toContain('append-only');
+    });
+
+    it('should return 404 for unknown task', async () => {
+      const res = await patch('/tasks/missing', { status: 'completed' });
+      expect(res.status).toBe(404);
+    });
+
+    it('should reject unsupported status values', async () => {
+      const res = await patch('/tasks/task_open', { status: 'overdue' });
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject malformed JSON', async () => {
+      const res = await fetch(`${baseUrl}/tasks/task_open`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...authorization('nurse-1') },
+        body: '{not json',
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/tasks/:id/status-changes', () => {
+    const changeStatus = (taskId: string, body: unknown, userId?: string) =>
+      send('POST', `/tasks/${taskId}/status-changes`, body, userId);
+
+    it('should cancel a task with a reason and audit it', async () => {
+      const res = await changeStatus('task_overdue', { action: 'cancelled', reason: 'readmitted', changedBy: 'someone' });
+      const body = await readJson<Task>(res);
+
+      expect(res.status).toBe(201);
+      expect(body.status).toBe('cancelled');
+      expect(body.statusChanges?.[0]).toMatchObject({ reason: 'readmitted', fromStatus: 'overdue', changedBy: 'nurse-1' });
+
+      const [entry] = await readJson<AuditEntry[]>(await get('/audit?action=task.closed'));
+      expect(entry).toMatchObject({
+        actor: 'nurse-1',
+        entityId: 'task_overdue',
+        before: { status: 'overdue' },
+        after: { status: 'cancelled', reason: 'readmitted' },
+      });
+    });
+
+    it('should reopen a closed task to its window status', async () => {
+      await changeStatus('task_overdue', { action: 'not_applicable', reason: 'not_indicated' });
+
+      const res = await changeStatus('task_overdue', { action: 'reopened', reason: 'closed_in_error' }, 'nurse-2');
+
+      expect(res.status).toBe(201);
+      expect((await readJson<Task>(res)).status).toBe('overdue');
+      expect((await get('/audit?action=task.reopened')).status).toBe(200);
+    });
+
+    it('should need task.close to close and task.reopen to reopen', async () => {
+      const close = await changeStatus('task_open', { action: 'cancelled', reason: 'opted_out' }, 'assistant-1');
+      expect(close.status).toBe(403);
+      expect((await readJson<{ error: string }>(close)).error).toBe('Assistant role does not have permission task.close');
+
+      await patch('/tasks/task_overdue', { status: 'completed' });
+      const reopen = await changeStatus('task_overdue', { action: 'reopened', reason: 'needs_follow_up' }, 'assistant-1');
+      expect(reopen.status).toBe(403);
+    });
+
+    it('should reject a missing reason code or a bare "other"', async () => {
+      expect((await changeStatus('task_open', { action: 'cancelled' })).status).toBe(400);
+      expect((await changeStatus('task_open', { action: 'cancelled', reason: 'other' })).status).toBe(400);
+      expect((await changeStatus('task_open', { action: 'completed', reason: 'other', note: 'Done' })).status).toBe(400);
+    });
+
+    it('should refuse changes not allowed from the current status', async () => {
+      const res = await changeStatus('task_open', { action: 'reopened', reason: 'needs_follow_up' });
+
+      expect(res.status).toBe(409);
+      expect((await readJson<{ error: string }>(res)).error).toBe('Cannot reopen a task that is pending');
+    });
+
+    it('should leave closed tasks out of overdue counts and filter them by status', async () => {
+      await changeStatus('task_overdue', { action: 'cancelled', reason: 'transferred' });
+
+      const stats = await readJson<DashboardStats>(await get('/dashboard/stats'));
+      expect(stats).toMatchObject({ overdueTasks: 0, closedTasks: 1 });
+      expect(await readJson<Task[]>(await get('/tasks?status=cancelled'))).toHaveLength(1);
+    });
+  });
+
+  describe('conditional task changes', () => {
+    const sendIfMatch = (method: string, path: string, body: unknown, etag: string) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'If-Match': etag, ...authorization('nurse-1') },
+        body: JSON.stringify(body),
+      });
+
+    it('should tag tasks with their version and bump it on each change', async () => {
+      expect((await get('/tasks/task_upcoming')).headers.get('ETag')).toBe('"0"');
+
+      const res = await sendIfMatch('POST', '/tasks/task_upcoming/notes', { text: 'Left voicemail' }, '"0"');
+      expect(res.status).toBe(201);
+      expect(res.headers.get('ETag')).toBe('"1"');
+      expect((await readJson<Task>(res)).version).toBe(1);
+    });
+
+    it('should refuse a change based on a stale version and return the current task', async () => {
+      await send('POST', '/tasks/task_overdue/notes', { text: 'Pharmacy called back' }, 'nurse-2');
+
+      const res = await sendIfMatch('PATCH', '/tasks/task_overdue', { status: 'completed' }, '"0"');
+      const body = await readJson<{ error: string; task: Task }>(res);
+
+      expect(res.status).toBe(412);
+      expect(body.error).toBe('Task was changed by someone else (now version 1, expected 0)');
+      expect(body.task.notes?.[0].text).toBe('Pharmacy called back');
+      expect(body.task.status).toBe('overdue');
+      expect(taskStore.getTaskById('task_overdue')?.completedAt).toBeUndefined();
+    });
+
+    it('should refuse a stale assignment', async () => {
+      await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nurse-2' }, 'supervisor');
+
+      const res = await fetch(`${baseUrl}/tasks/task_open/assignee`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'If-Match': '"0"', ...authorization('supervisor') },
+        body: JSON.stringify({ assignedTo: 'nurse-1', reason: 'Covering' }),
+      });
+
+      expect(res.status).toBe(412);
+      expect(taskStore.getTaskById('task_open')?.assignedTo).toBe('nurse-2');
+    });
+
+    it('should reject a malformed If-Match header', async () => {
+      const res = await sendIfMatch('PATCH', '/tasks/task_overdue', { status: 'completed' }, 'version-1');
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('task notes', () => {
+    const addNote = (taskId: string, body: Record<string, unknown>, userId?: string) =>
+      send('POST', `/tasks/${taskId}/notes`, body, userId);
+
+    it('should append notes to the thread', async () => {
+      await addNote('task_upcoming', { text: 'Left voicemail' });
+      const res = await addNote('task_upcoming', { text: 'Patient called back' }, 'nurse-2');
+      const body = await readJson<Task>(res);
+
+      expect(res.status).toBe(201);
+      expect(body.notes?.map((n) => n.text)).toEqual(['Left voicemail', 'Patient called back']);
+      expect(body.notes?.[1].author).toBe('nurse-2');
+      expect(typeof body.notes?.[1].createdAt).toBe('string');
+    });
+
+    it('should reject a note without text', async () => {
+      expect((await addNote('task_upcoming', { text: ' ' })).status).toBe(400);
+      expect((await addNote('task_upcoming', {})).status).toBe(400);
+    });
+
+    it('should return 404 when adding a note to an unknown task', async () => {
+      const res = await addNote('missing', { text: 'Hi' });
+      expect(res.status).toBe(404);
+    });
+
+    it('should edit a note and keep the previous text', async () => {
+      const created = await readJson<Task>(await addNote('task_upcoming', { text: 'Pharmacy closed' }));
+      const noteId = created.notes![0].id;
+
+      const res = await send('PATCH', `/tasks/task_upcoming/notes/${noteId}`, { text: 'Pharmacy closed until Monday' });
+      const body = await readJson<Task>(res);
+
+      expect(res.status).toBe(200);
+      expect(body.notes?.[0].text).toBe('Pharmacy closed until Monday');
+      expect(body.notes?.[0].changes?.[0]).toMatchObject({ action: 'edited', previousText: 'Pharmacy closed' });
+    });
+
+    it('should redact a note and refuse later edits', async () => {
+      const created = await readJson<Task>(await addNote('task_upcoming', { text: 'Wrong chart' }));
+      const noteId = created.notes![0].id;
+
+      const res = await send(
+        'POST',
+        `/tasks/task_upcoming/notes/${noteId}/redact`,
+        { reason: 'Entered on wrong patient' },
+        'supervisor'
+      );
+      const body = await readJson<Task>(res);
+
+      expect(res.status).toBe(200);
+      expect(body.notes?.[0]).toMatchObject({ text: '', redacted: true });
+
+      const edit = await send('PATCH', `/tasks/task_upcoming/notes/${noteId}`, { text: 'Again' });
+      expect(edit.status).toBe(409);
+    });
+
+    it("should refuse to edit another user's note", async () => {
+      const created = await readJson<Task>(await addNote('task_upcoming', { text: 'Mine' }));
+      const res = await send('PATCH', `/tasks/task_upcoming/notes/${created.notes![0].id}`, { text: 'Yours' }, 'nurse-2');
+
+      expect(res.status).toBe(403);
+      expect(taskStore.getTaskById('task_upcoming')?.notes?.[0].text).toBe('Mine');
+    });
+
+    it('should refuse redaction by a role without permission', async () => {
+      const created = await readJson<Task>(await addNote('task_upcoming', { text: 'Note' }));
+      const res = await send('POST', `/tasks/task_upcoming/notes/${created.notes![0].id}/redact`, { reason: 'Oops' });
+      expect(res.status).toBe(403);
+    });
+
+    it('should require a reason to redact', async () => {
+      const created = await readJson<Task>(await addNote('task_upcoming', { text: 'Note' }));
+      const res = await send('POST', `/tasks/task_upcoming/notes/${created.notes![0].id}/redact`, {}, 'supervisor');
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown note', async () => {
+      const res = await send('PATCH', '/tasks/task_upcoming/notes/missing', { text: 'x' });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/tasks/:id/contact-attempts', () => {
+    it('should log an attempt and return the updated task', async () => {
+      const res = await logAttempt('task_open', { outcome: 'no_answer', notes: 'Rang 10 times' });
+      const body = await readJson<Task>(res);
+
+      expect(res.status).toBe(201);
+      expect(body.contactAttempts).toHaveLength(1);
+      expect(body.contactAttempts?.[0]).toMatchObject({
+        channel: 'phone',
+        destination: '555-1234',
+        outcome: 'no_answer',
+        attemptedBy: 'nurse-1',
+        notes: 'Rang 10 times',
+      });
+      expect(typeof body.contactAttempts?.[0].attemptedAt).toBe('string');
+    });
+
+    it('should reject an invalid outcome', async () => {
+      const res = await logAttempt('task_open', { outcome: 'busy' });
+      const body = await readJson<{ error: string }>(res);
+
+      expect(res.status).toBe(400);
+      expect(body.error).toContain('outcome must be one of');
+    });
+
+    it('should refuse attempts on non-outreach tasks', async () => {
+      const res = await logAttempt('task_overdue');
+      expect(res.status).toBe(409);
+    });
+
+    it('should return 404 for an unknown task', async () => {
+      const res = await logAttempt('missing');
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/audit', () => {
+    const getAudit = async (query = '') => readJson<AuditEntry[]>(await get(`/audit${query}`));
+
+    it('should record each task change with its actor, newest first', async () => {
+      await logAttempt('task_open');
+      await patch('/tasks/task_open', { status: 'completed' }, 'nurse-2');
+      await send('POST', '/tasks/task_upcoming/notes', { text: 'Left voicemail' });
+
+      const entries = await getAudit();
+
+      expect(entries.map((e) => e.action)).toEqual(['task.note_added', 'task.completed', 'task.contact_logged']);
+      expect(entries[1]).toMatchObject({
+        actor: 'nurse-2',
+        entityType: 'task',
+        entityId: 'task_open',
+        patientId: 'MRN0001',
+        before: { status: 'pending' },
+        after: { status: 'completed', completedBy: 'nurse-2' },
+      });
+      expect(entries[0].after).toEqual({ noteId: expect.any(String), length: 'Left voicemail'.length });
+    });
+
+    it('should not record refused changes', async () => {
+      await patch('/tasks/task_upcoming', { status: 'completed' });
+      expect(await getAudit()).toEqual([]);
+    });
+
+    it('should filter by patient, actor and action', async () => {
+      await logAttempt('task_open');
+      await logAttempt('task_upcoming', {}, 'nurse-2');
+
+      expect((await getAudit('?patientId=MRN0002')).map((e) => e.entityId)).toEqual(['task_upcoming']);
+      expect((await getAudit('?actor=nurse-1')).map((e) => e.entityId)).toEqual(['task_open']);
+      expect(await getAudit('?action=task.completed')).toEqual([]);
+    });
+
+    it('should only be readable by supervisors and admins', async () => {
+      expect((await get('/audit', 'nurse-1')).status).toBe(403);
+      expect((await get('/audit', 'supervisor')).status).toBe(200);
+    });
+
+    it('should reject an unknown action or invalid date', async () => {
+      expect((await get(`/audit?action=task.deleted`)).status).toBe(400);
+      expect((await get(`/audit?from=yesterday`)).status).toBe(400);
+    });
+
+    it('should export entries as CSV', async () => {
+      await logAttempt('task_open');
+      const res = await get(`/audit?format=csv`);
+      const lines = (await res.text()).trim().split('\r\n');
+
+      expect(res.headers.get('content-type')).toContain('text/csv');
+      expect(res.headers.get('content-disposition')).toContain('audit-log.csv');
+      expect(lines[0]).toBe('at,actor,action,entityType,entityId,patientId,before,after');
+      expect(lines[1]).toContain(',nurse-1,task.contact_logged,task,task_open,MRN0001,');
+    });
+  });
+
+  describe('task assignment', () => {
+    it('should assign a task and record it in the audit log', async () => {
+      const res = await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nurse-1' }, 'supervisor');
+      const task = await readJson<Task>(res);
+
+      expect(res.status).toBe(200);
+      expect(task.assignedTo).toBe('nurse-1');
+      expect(task.assignedAt).toBeDefined();
+
+      const entries = await readJson<AuditEntry[]>(await get('/audit?action=task.assigned'));
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ actor: 'supervisor', entityId: 'task_open', after: { assignedTo: 'nurse-1' } });
+    });
+
+    it('should require a reason to reassign', async () => {
+      await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nurse-1' }, 'supervisor');
+
+      const refused = await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nurse-2' }, 'supervisor');
+      expect(refused.status).toBe(409);
+      expect((await readJson<{ error: string }>(refused)).error).toMatch(/reason/);
+
+      const res = await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nurse-2', reason: 'Covering' }, 'supervisor');
+      expect((await readJson<Task>(res)).assignmentReason).toBe('Covering');
+    });
+
+    it('should reject unknown users and tasks', async () => {
+      expect((await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nobody' }, 'supervisor')).status).toBe(400);
+      expect((await send('PUT', '/tasks/nope/assignee', { assignedTo: 'nurse-1' }, 'supervisor')).status).toBe(404);
+    });
+
+    it('should refuse users without the assign permission', async () => {
+      expect((await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nurse-1' })).status).toBe(403);
+    });
+
+    it("should assign all of a patient's open tasks", async () => {
+      const res = await send('PUT', '/patients/MRN0001/assignee', { assignedTo: 'nurse-2' }, 'supervisor');
+      const tasks = await readJson<Task[]>(res);
+
+      expect(tasks.map((t) => t.id).sort()).toEqual(['task_open', 'task_overdue']);
+      expect((await send('PUT', '/patients/MRN9999/assignee', { assignedTo: 'nurse-2' }, 'supervisor')).status).toBe(404);
+    });
+
+    it('should filter tasks by owner', async () => {
+      await send('PUT', '/tasks/task_open/assignee', { assignedTo: 'nurse-1' }, 'supervisor');
+
+      const mine = await readJson<Task[]>(await get('/tasks?assignedTo=nurse-1'));
+      const unassigned = await readJson<Task[]>(await get('/tasks?assignedTo=unassigned'));
+
+      expect(mine.map((t) => t.id)).toEqual(['task_open']);
+      expect(unassigned.map((t) => t.id).sort()).toEqual(['task_overdue', 'task_upcoming']);
+    });
+
+    it('should auto-assign every open task, keeping each patient with one owner', async () => {
+      const res = await send('POST', '/tasks/auto-assign', { strategy: 'caseload' }, 'supervisor');
+      const tasks = await readJson<Task[]>(res);
+
+      expect(tasks).toHaveLength(3);
+      const owners = new Map(tasks.map((t) => [t.id, t.assignedTo]));
+      expect(owners.get('task_open')).toBe(owners.get('task_overdue'));
+      expect(owners.get('task_upcoming')).not.toBe(owners.get('task_open'));
+      expect(tasks[0].assignmentReason).toBe('Auto-assigned: Lightest caseload');
+    });
+
+    it('should reject an unknown strategy', async () => {
+      expect((await send('POST', '/tasks/auto-assign', { strategy: 'random' }, 'supervisor')).status).toBe(400);
+    });
+
+    it('should list the staff who can be given tasks', async () => {
+      const staff = await readJson<User[]>(await get('/staff'));
+      expect(staff.map((u) => u.id)).toEqual(['assistant-1', 'nurse-1', 'nurse-2']);
+    });
+  });
+
+  describe('GET /api/dashboard/stats', () => {
+    it('should return dashboard statistics', async () => {
+      await logAttempt('task_open');
+      await patch('/tasks/task_open', { status: 'completed' });
+      const body = await readJson<DashboardStats>(await get(`/dashboard/stats`));
+
+      expect(body).toEqual({
+        totalPatients: 2,
+        pendingTasks: 0,
+        overdueTasks: 1,
+        completedToday: 1,
+        closedTasks: 0,
+        urgentTasks: 0,
+        unassignedTasks: 2,
+      });
+    });
+  });
+
+  describe('GET /api/live', () => {
+    it('should stream changes as server-sent events', async () => {
+      const controller = new AbortController();
+      const res = await fetch(`${baseUrl}/live`, { headers: authorization('nurse-1'), signal: controller.signal });
+      expect(res.headers.get('content-type')).toBe('text/event-stream');
+      await vi.waitFor(() => expect(liveUpdates.getListenerCount()).toBe(1));
+
+      await send('POST', '/tasks/task_open/notes', { text: 'Called back' });
+      liveUpdates.publish({ type: 'tick', at: new Date('2026-01-14T12:00:00Z') });
+
+      const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let received = '';
+      while (!received.includes('event: tick')) {
+        received += (await reader.read()).value;
+      }
+      controller.abort();
+
+      expect(received).toContain('retry: 5000');
+      expect(received).toContain('event: change\ndata: {"type":"change","action":"task.note_added"');
+      expect(received).toContain('"entityId":"task_open"');
+      expect(received).toContain('event: tick\ndata: {"type":"tick","at":"2026-01-14T12:00:00.000Z"}');
+    });
+
+    it('should require a signed-in user', async () => {
+      const res = await fetch(`${baseUrl}/live`);
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('/api/rules', () => {
+    it('should return the active rule set', async () => {
+      const body = await readJson<TaskRuleSet>(await get(`/rules`));
+
+      expect(body.version).toBe(1);
+      expect(body.rules.map((r) => r.type)).toEqual(TASK_RULES.map((r) => r.type));
+    });
+
+    it('should save a valid rule set and bump the version', async () => {
+      const rules = [
+        ...TASK_RULES,
+        { type: 'followup_visit', label: '7-day Follow-up Visit', windowStartHours: 0, windowEndHours: 168, conditions: {} },
+      ];
+      const res = await send('PUT', '/rules', { version: 1, rules }, 'admin');
+      const body = await readJson<TaskRuleSet>(res);
+
+      expect(res.status).toBe(200);
+      expect(body.version).toBe(2);
+      expect(body.rules).toHaveLength(6);
+    });
+
+    it('should audit the replaced rule set', async () => {
+      await send('PUT', '/rules', { version: 1, rules: TASK_RULES }, 'admin');
+
+      const [entry] = await readJson<AuditEntry[]>(await get('/audit?action=rules.updated'));
+      expect(entry).toMatchObject({
+        actor: 'admin',
+        entityType: 'rules',
+        before: { version: 1 },
+        after: { version: 2 },
+      });
+    });
+
+    it('should reconcile open tasks against the saved rules on behalf of the admin', async () => {
+      const rules = TASK_RULES.filter((r) => r.type !== 'medication_reconciliation');
+      await send('PUT', '/rules', { version: 1, rules }, 'admin');
+
+      const task = await readJson<Task>(await get('/tasks/task_overdue'));
+      expect(task.status).toBe('cancelled');
+      const entries = await readJson<AuditEntry[]>(await get('/audit?action=task.closed'));
+      expect(entries.find((e) => e.entityId === 'task_overdue')).toMatchObject({ actor: 'admin' });
+    });
+
+    it('should reject invalid rules with every validation error', async () => {
+      const res = await send('PUT', '/rules', {
+        version: 1,
+        rules: [{ type: 'Bad Type', label: '', windowStartHours: 10, windowEndHours: 5, conditions: {} }],
+      }, 'admin');
+      const body = await readJson<{ error: string; details: string[] }>(res);
+
+      expect(res.status).toBe(400);
+      expect(body.details).toEqual([
+        'rules[0].type: must be a snake_case identifier',
+        'rules[0].label: must be a non-empty string',
+        'rules[0].windowEndHours: must be greater than windowStartHours',
+      ]);
+    });
+
+    it('should reject edits based on a stale version', async () => {
+      await send('PUT', '/rules', { version: 1, rules: TASK_RULES }, 'admin');
+      const res = await send('PUT', '/rules', { version: 1, rules: TASK_RULES }, 'admin');
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should only let admins change the rules', async () => {
+      const res = await send('PUT', '/rules', { version: 1, rules: TASK_RULES }, 'supervisor');
+      const body = await readJson<{ error: string }>(res);
+
+      expect(res.status).toBe(403);
+      expect(body.error).toBe('Supervisor role does not have permission rules.edit');
+    });
+  });
+
+  describe('/api/auth', () => {
+    const login = (username: string, password: string) =>
+      fetch(`${baseUrl}/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+
+    it('should sign in and use the returned token', async () => {
+      const res = await login('nurse-1', PASSWORD);
+      const { token, user } = await readJson<{ token: string; user: User }>(res);
+
+      expect(res.status).toBe(200);
+      expect(user).toEqual(USERS[1]);
+      expect(user).not.toHaveProperty('passwordHash');
+
+      const me = await fetch(`${baseUrl}/auth/me`, { headers: { Authorization: `Bearer ${token}` } });
+      expect(await readJson<User>(me)).toEqual(USERS[1]);
+    });
+
+    it('should reject a wrong password or unknown user', async () => {
+      expect((await login('nurse-1', 'wrong-password')).status).toBe(401);
+      expect((await login('nobody', PASSWORD)).status).toBe(401);
+    });
+
+    it('should require a signed-in user for every other route', async () => {
+      expect((await fetch(`${baseUrl}/patients`)).status).toBe(401);
+      expect((await fetch(`${baseUrl}/tasks`, { headers: { Authorization: 'Bearer forged' } })).status).toBe(401);
+    });
+
+    it('should end the session on logout', async () => {
+      const { token } = await readJson<{ token: string }>(await login('nurse-1', PASSWORD));
+      const headers = { Authorization: `Bearer ${token}` };
+
+      expect((await fetch(`${baseUrl}/auth/logout`, { method: 'POST', headers })).status).toBe(204);
+      expect((await fetch(`${baseUrl}/auth/me`, { headers })).status).toBe(401);
+    });
+  });
+
+  describe('/api/users', () => {
+    it('should let admins list and add users', async () => {
+      const res = await send('POST', '/users', {
+        id: 'new.nurse', displayName: 'New Nurse', role: 'nurse', password: 'long-password',
+      }, 'admin');
+
+      expect(res.status).toBe(201);
+      expect((await readJson<User[]>(await get('/users'))).map((u) => u.id)).toContain('new.nurse');
+    });
+
+    it('should reject duplicate or invalid users', async () => {
+      const user = { id: 'nurse-1', displayName: 'Dup', role: 'nurse', password: 'long-password' };
+      expect((await send('POST', '/users', user, 'admin')).status).toBe(409);
+      expect((await send('POST', '/users', { ...user, id: 'x.y', role: 'doctor' }, 'admin')).status).toBe(400);
+    });
+
+    it('should refuse other roles', async () => {
+      expect((await get('/users', 'supervisor')).status).toBe(403);
+    });
+  });
+
+  it('should return 404 JSON for unknown API routes', async () => {
+    const res = await get(`/nope`);
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Not found' });
+  });
+});
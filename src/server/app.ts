@@ -0,0 +1,34 @@
+import express, { ErrorRequestHandler, Express } from 'express';
+import { ServerContext } from './context';
+import { createApiRouter } from './routes';
+
+const BACKUP_SIZE_LIMIT = '50mb';
+
+/**
+ * Create the Express application.
+ * Kept separate from index.ts so tests can build an app around their own context.
+ */
+export function createApp(context: ServerContext): Express {
+  const app = express();
+
+  // A backup holds the whole dataset, so it may be far larger than other requests
+  app.use('/api/backup', express.json({ limit: BACKUP_SIZE_LIMIT }));
+  app.use(express.json());
+  app.use('/api', createApiRouter(context));
+
+  app.use('/api', (_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+    const status = typeof err?.status === 'number' ? err.status : 500;
+    const message = status < 500 && err instanceof Error ? err.message : 'Internal server error';
+    if (status >= 500) {
+      console.error(err);
+    }
+    res.status(status).json({ error: message });
+  };
+  app.use(errorHandler);
+
+  return app;
+}
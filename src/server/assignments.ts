@@ -0,0 +1,61 @@
+import { Response } from 'express';
+import { Task, TaskAssignment } from '../shared/types';
+import { updateTaskStatuses } from '../shared/taskEngine';
+import { auditTaskChange } from '../shared/audit';
+import { ServerContext } from './context';
+import { getCurrentUser } from './auth';
+import { sendRefusal } from './taskVersions';
+
+interface AssigneeBody {
+  assignedTo?: unknown;
+  reason?: unknown;
+}
+
+/**
+ * Validate an assignment request body: assignedTo must be an existing user's
+ * ID or null, and reason (needed to take a task from someone) a string.
+ * Sends a 400 and returns undefined if it is invalid.
+ */
+export function parseAssigneeBody(
+  context: ServerContext,
+  body: unknown,
+  res: Response
+): { assignedTo: string | null; reason?: string } | undefined {
+  const { assignedTo, reason } = (body ?? {}) as AssigneeBody;
+  if (assignedTo !== null && (typeof assignedTo !== 'string' || !context.userStore.getUser(assignedTo))) {
+    res.status(400).json({ error: 'assignedTo must be the ID of an existing user, or null to unassign' });
+    return undefined;
+  }
+  if (reason !== undefined && typeof reason !== 'string') {
+    res.status(400).json({ error: 'reason must be a string' });
+    return undefined;
+  }
+  return { assignedTo, reason };
+}
+
+/**
+ * Apply assignments and record each changed task in the audit log. Sends a
+ * 409 (or a 412 if a task has changed since its expected version) and returns
+ * undefined if any assignment is refused.
+ */
+export function applyAssignments(
+  context: ServerContext,
+  assignments: TaskAssignment[],
+  reason: string | undefined,
+  res: Response
+): Task[] | undefined {
+  const actor = getCurrentUser(res).id;
+  const before = new Map(assignments.map(({ taskId }) => [taskId, context.taskStore.getTaskById(taskId) as Task]));
+  const result = context.taskStore.assignTasks(assignments, reason);
+  if (!result.success || !result.tasks) {
+    sendRefusal(res, result);
+    return undefined;
+  }
+
+  const assigned = updateTaskStatuses(result.tasks);
+  for (const task of assigned) {
+    const [previous] = updateTaskStatuses([before.get(task.id)!]);
+    context.auditLog.record(auditTaskChange('task.assigned', previous, task, actor));
+  }
+  return assigned;
+}
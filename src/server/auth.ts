@@ -0,0 +1,62 @@
+import { RequestHandler, Request, Response } from 'express';
+import { Permission, User } from '../shared/types';
+import { hasPermission, ROLE_LABELS } from '../shared/auth';
+import { ServerContext } from './context';
+
+/**
+ * Read the bearer token from a request's Authorization header.
+ */
+export function getBearerToken(req: Request): string | undefined {
+  const match = /^Bearer (\S+)$/.exec(req.get('authorization') ?? '');
+  return match?.[1];
+}
+
+/**
+ * Get the signed-in user for a request that has passed requireUser.
+ */
+export function getCurrentUser(res: Response): User {
+  return res.locals.user as User;
+}
+
+/**
+ * Reject requests without a valid session (401), and make the signed-in user
+ * available to later handlers via getCurrentUser.
+ */
+export function requireUser(context: ServerContext): RequestHandler {
+  return (req, res, next) => {
+    const token = getBearerToken(req);
+    const userId = token && context.sessions.getUserId(token);
+    const user = userId ? context.userStore.getUser(userId) : undefined;
+    if (!user) {
+      res.status(401).json({ error: 'Sign in required' });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  };
+}
+
+/**
+ * Check that the signed-in user's role grants a permission, sending a 403 if
+ * not. For routes where the permission needed depends on the request.
+ */
+export function checkPermission(res: Response, permission: Permission): boolean {
+  const user = getCurrentUser(res);
+  if (!hasPermission(user.role, permission)) {
+    res.status(403).json({ error: `${ROLE_LABELS[user.role]} role does not have permission ${permission}` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Reject requests from users whose role lacks a permission (403).
+ * Typed with string params so the route handlers after it keep `req.params.id: string`.
+ */
+export function requirePermission(permission: Permission): RequestHandler<Record<string, string>> {
+  return (_req, res, next) => {
+    if (checkPermission(res, permission)) {
+      next();
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import { Patient } from '../shared/types';
+import { TaskStore } from './services/taskStateManager';
+import { TaskRuleStore } from './services/taskRuleStore';
+import { EncounterStore } from './services/encounterStore';
+import { PatientStore } from './services/patientStore';
+import { MappingProfileStore } from './services/mappingProfileStore';
+import { AuditLog } from './services/auditLog';
+import { UserStore } from './services/userStore';
+import { SessionStore } from './services/sessionStore';
+import { LiveUpdateHub } from './services/liveUpdates';
+
+/**
+ * Shared state handed to every route module.
+ */
+export interface ServerContext {
+  patients: Patient[];
+  patientStore: PatientStore;
+  mappingProfiles: MappingProfileStore;
+  taskStore: TaskStore;
+  encounterStore: EncounterStore;
+  ruleStore: TaskRuleStore;
+  auditLog: AuditLog;
+  userStore: UserStore;
+  sessions: SessionStore;
+  liveUpdates: LiveUpdateHub;
+}
@@ -0,0 +1,97 @@
+import path from 'node:path';
+import { createApp } from './app';
+import { ServerContext } from './context';
+import { loadPatientsFromCsv } from './services/patientLoader';
+import { generateTasksForPatients } from '../shared/taskEngine';
+import { mergePatients } from '../shared/patientImport';
+import { PersistentTaskStore } from './services/persistentTaskStore';
+import { TaskRuleStore } from './services/taskRuleStore';
+import { EncounterStore } from './services/encounterStore';
+import { PatientStore } from './services/patientStore';
+import { MappingProfileStore } from './services/mappingProfileStore';
+import { randomBytes } from 'node:crypto';
+import { AuditLog } from './services/auditLog';
+import { UserStore } from './services/userStore';
+import { SessionStore } from './services/sessionStore';
+import { EscalationScheduler } from './services/escalationScheduler';
+import { TaskEventScheduler } from './services/taskEventScheduler';
+import { LiveUpdateHub } from './services/liveUpdates';
+import { reconcileAllTasks } from './services/taskReconciler';
+
+const PORT = Number(process.env.PORT) || 3001;
+const DATA_FILE = process.env.PATIENT_DATA_FILE || path.resolve(process.cwd(), 'data/patient_data.csv');
+const RULES_FILE = process.env.TASK_RULES_FILE || path.resolve(process.cwd(), 'data/task_rules.json');
+const STORE_DIR = process.env.TASK_STORE_DIR || path.resolve(process.cwd(), 'data/store');
+const USERS_FILE = process.env.USERS_FILE || path.resolve(process.cwd(), 'data/users.json');
+const ESCALATION_INTERVAL_MS = Number(process.env.ESCALATION_INTERVAL_MS) || 60 * 1000;
+
+async function main(): Promise<void> {
+  // Patients imported through the API are kept apart from the data file and win over it
+  const patientStore = PatientStore.open(path.join(STORE_DIR, 'patients.json'));
+  const { patients } = mergePatients(await loadPatientsFromCsv(DATA_FILE), patientStore.getImportedPatients());
+  const ruleStore = TaskRuleStore.open(RULES_FILE);
+  const taskStore = PersistentTaskStore.open(STORE_DIR, () => {
+    const { rules, calendar } = ruleStore.getRuleSet();
+    return generateTasksForPatients(patients, rules, calendar);
+  });
+  const encounterStore = EncounterStore.open(path.join(STORE_DIR, 'encounters.json'));
+  const auditLog = AuditLog.open(path.join(STORE_DIR, 'audit.jsonl'));
+  const userStore = UserStore.open(USERS_FILE);
+  if (userStore.getUserCount() === 0) {
+    await createInitialAdmin(userStore);
+  }
+
+  const liveUpdates = new LiveUpdateHub();
+  const context: ServerContext = {
+    patients,
+    patientStore,
+    mappingProfiles: MappingProfileStore.open(path.join(STORE_DIR, 'mapping-profiles.json')),
+    taskStore,
+    encounterStore,
+    ruleStore,
+    auditLog,
+    userStore,
+    sessions: new SessionStore(),
+    liveUpdates,
+  };
+  // The patient file or the rules may have changed since the tasks were generated
+  const reconciled = reconcileAllTasks(context);
+  const app = createApp(context);
+  new EscalationScheduler(context).start(ESCALATION_INTERVAL_MS);
+  const taskEvents = TaskEventScheduler.open(path.join(STORE_DIR, 'task-events.jsonl'), taskStore);
+  liveUpdates.watchAuditLog(auditLog);
+  liveUpdates.watchTaskEvents(taskEvents);
+  liveUpdates.startTicks();
+  taskEvents.start();
+
+  app.listen(PORT, () => {
+    console.log(`Discharge Flow API listening on http://localhost:${PORT}`);
+    console.log(`Using task rules version ${ruleStore.getRuleSet().version} from ${RULES_FILE}`);
+    console.log(`Loaded ${patients.length} patients and ${taskStore.getTaskCount()} tasks (store: ${STORE_DIR})`);
+    console.log(
+      `Reconciled tasks: ${reconciled.added} added, ${reconciled.rescheduled} rescheduled, ` +
+      `${reconciled.cancelled} cancelled`
+    );
+  });
+}
+
+/**
+ * Create the first admin so someone can sign in and add other users.
+ * Uses ADMIN_PASSWORD if set, otherwise generates a password and prints it once.
+ */
+async function createInitialAdmin(userStore: UserStore): Promise<void> {
+  const password = process.env.ADMIN_PASSWORD || randomBytes(12).toString('base64url');
+  const result = await userStore.createUser({ id: 'admin', displayName: 'Administrator', role: 'admin', password });
+  if (!result.success) {
+    throw new Error(`Could not create the initial admin: ${result.error}`);
+  }
+  console.log(`Created user 'admin' in ${USERS_FILE}`);
+  if (!process.env.ADMIN_PASSWORD) {
+    console.log(`Initial admin password (shown once): ${password}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { AuditAction, AuditQuery, AUDIT_ACTIONS } from '../../shared/types';
+import { ServerContext } from '../context';
+import { formatAuditEntriesAsCsv } from '../../shared/audit';
+import { requirePermission } from '../auth';
+
+/**
+ * Parse an optional ISO date query parameter, or return null if it is invalid.
+ */
+function parseDateParam(value: unknown): Date | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Audit log routes.
+ *
+ * GET /api/audit   - List audit entries, newest first (filterable by ?patientId=, ?actor=,
+ *                    ?action=, ?from=, ?to=; ?format=csv downloads them as CSV). Supervisors and admins only
+ */
+export function createAuditRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('audit.view'), (req, res) => {
+    const { patientId, actor, action, format } = req.query;
+
+    if (action !== undefined && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      res.status(400).json({ error: `Invalid action filter: "${action}". Expected one of: ${AUDIT_ACTIONS.join(', ')}` });
+      return;
+    }
+    if (format !== undefined && format !== 'json' && format !== 'csv') {
+      res.status(400).json({ error: `Invalid format: "${format}". Expected json or csv` });
+      return;
+    }
+
+    const from = parseDateParam(req.query.from);
+    const to = parseDateParam(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'from and to must be ISO 8601 dates' });
+      return;
+    }
+
+    const query: AuditQuery = {
+      patientId: typeof patientId === 'string' ? patientId : undefined,
+      actor: typeof actor === 'string' ? actor : undefined,
+      action: action as AuditAction | undefined,
+      from,
+      to,
+    };
+    const entries = context.auditLog.query(query);
+
+    if (format === 'csv') {
+      res.type('text/csv');
+      res.attachment('audit-log.csv');
+      res.send(formatAuditEntriesAsCsv(entries));
+      return;
+    }
+    res.json(entries);
+  });
+
+  return router;
+}
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { ServerContext } from '../context';
+import { getBearerToken, getCurrentUser, requireUser } from '../auth';
+
+interface LoginBody {
+  username?: unknown;
+  password?: unknown;
+}
+
+/**
+ * Sign-in routes.
+ *
+ * POST /api/auth/login    - Sign in with username and password; returns a bearer token and the user
+ * POST /api/auth/logout   - End the current session
+ * GET  /api/auth/me       - Get the signed-in user
+ */
+export function createAuthRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.post('/login', async (req, res) => {
+    const { username, password } = (req.body ?? {}) as LoginBody;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      res.status(400).json({ error: 'username and password are required' });
+      return;
+    }
+
+    const user = await context.userStore.authenticate(username.trim(), password);
+    if (!user) {
+      res.status(401).json({ error: 'Invalid username or password' });
+      return;
+    }
+
+    res.json({ token: context.sessions.create(user.id), user });
+  });
+
+  router.post('/logout', requireUser(context), (req, res) => {
+    context.sessions.revoke(getBearerToken(req) as string);
+    res.status(204).end();
+  });
+
+  router.get('/me', requireUser(context), (_req, res) => {
+    res.json(getCurrentUser(res));
+  });
+
+  return router;
+}
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { BackupRestoreSummary } from '../../shared/types';
+import { ServerContext } from '../context';
+import { getCurrentUser, requirePermission } from '../auth';
+import { auditBackupRestore } from '../../shared/audit';
+import { BackupValidationError, ParsedBackup, createBackup, parseBackup } from '../../shared/backup';
+import { STANDARD_MAPPING_PROFILE } from '../../shared/patientMapping';
+
+/**
+ * Backup routes.
+ *
+ * GET /api/backup  - Download the whole dataset (except users and sessions) as JSON
+ * POST /api/backup - Replace the dataset with a backup (body: the backup; admins only)
+ */
+export function createBackupRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('data.export'), (_req, res) => {
+    const now = new Date();
+    const backup = createBackup({
+      patients: context.patients,
+      tasks: context.taskStore.getAllTasks(now),
+      encounters: context.encounterStore.getAllEncounters(),
+      ruleSet: context.ruleStore.getRuleSet(),
+      mappingProfiles: context.mappingProfiles.getProfiles().filter((p) => p.id !== STANDARD_MAPPING_PROFILE.id),
+      // Oldest first, the order they were recorded in
+      auditLog: context.auditLog.query().reverse(),
+    }, now);
+    res.attachment(`discharge-flow-backup-${backup.exportedAt.slice(0, 10)}.json`);
+    res.json(backup);
+  });
+
+  router.post('/', requirePermission('data.restore'), (req, res) => {
+    let data: ParsedBackup;
+    try {
+      data = parseBackup(req.body);
+    } catch (error) {
+      if (error instanceof BackupValidationError) {
+        res.status(400).json({ error: 'Invalid backup', details: error.errors });
+        return;
+      }
+      throw error;
+    }
+
+    // The audit log is append-only: the backup's entries it lacks are added
+    // and nothing is removed
+    context.patients = data.patients;
+    context.patientStore.restore(data.patients);
+    context.taskStore.setTasks(data.tasks);
+    context.encounterStore.restore(data.encounters);
+    context.ruleStore.restore(data.ruleSet);
+    context.mappingProfiles.restore(data.mappingProfiles);
+    const summary: BackupRestoreSummary = {
+      patients: data.patients.length,
+      tasks: data.tasks.length,
+      encounters: data.encounters.length,
+      mappingProfiles: data.mappingProfiles.length,
+      auditEntries: context.auditLog.restore(data.auditLog),
+    };
+    context.auditLog.record(auditBackupRestore(data.exportedAt, summary, getCurrentUser(res).id));
+    res.json(summary);
+  });
+
+  return router;
+}
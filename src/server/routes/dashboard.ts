@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { DEFAULT_WORKING_CALENDAR } from '../../shared/types';
+import { ServerContext } from '../context';
+import { calculateDashboardStats } from '../services/dashboardStats';
+
+/**
+ * Dashboard routes.
+ *
+ * GET /api/dashboard/stats - Summary statistics for the dashboard
+ */
+export function createDashboardRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.get('/stats', (_req, res) => {
+    const now = new Date();
+    const { timeZone } = context.ruleStore.getRuleSet().calendar ?? DEFAULT_WORKING_CALENDAR;
+    res.json(calculateDashboardStats(context.patients, context.taskStore.getAllTasks(now), now, timeZone));
+  });
+
+  return router;
+}
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { ServerContext } from '../context';
+import { createPatientRoutes } from './patients';
+import { createTaskRoutes } from './tasks';
+import { createDashboardRoutes } from './dashboard';
+import { createRuleRoutes } from './rules';
+import { createAuditRoutes } from './audit';
+import { createAuthRoutes } from './auth';
+import { createUserRoutes } from './users';
+import { createStaffRoutes } from './staff';
+import { createLiveRoutes } from './live';
+import { createMappingProfileRoutes } from './mappingProfiles';
+import { createBackupRoutes } from './backup';
+import { requireUser } from '../auth';
+
+/**
+ * Mount all API routes under a single router.
+ * Everything except signing in requires a signed-in user.
+ */
+export function createApiRouter(context: ServerContext): Router {
+  const router = Router();
+
+  router.use('/auth', createAuthRoutes(context));
+  router.use(requireUser(context));
+
+  router.use('/patients', createPatientRoutes(context));
+  router.use('/mapping-profiles', createMappingProfileRoutes(context));
+  router.use('/tasks', createTaskRoutes(context));
+  router.use('/dashboard', createDashboardRoutes(context));
+  router.use('/rules', createRuleRoutes(context));
+  router.use('/audit', createAuditRoutes(context));
+  router.use('/users', createUserRoutes(context));
+  router.use('/staff', createStaffRoutes(context));
+  router.use('/live', createLiveRoutes(context));
+  router.use('/backup', createBackupRoutes(context));
+
+  return router;
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ServerContext } from '../context';
+import { formatServerSentEvent } from '../../shared/liveUpdates';
+
+/**
+ * Live update routes.
+ *
+ * GET /api/live   - Server-sent event stream of changes (`change`), timed task events
+ *                   (`task_event`) and periodic ticks (`tick`); each event's data is JSON
+ */
+export function createLiveRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    // Ask the browser to reconnect after 5 seconds if the stream drops
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = context.liveUpdates.subscribe((update) => {
+      res.write(formatServerSentEvent(update));
+    });
+    req.on('close', unsubscribe);
+  });
+
+  return router;
+}
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { ServerContext } from '../context';
+import { requirePermission } from '../auth';
+
+/**
+ * Patient CSV mapping profile routes (patient importers only).
+ *
+ * GET /api/mapping-profiles        - List profiles, the built-in standard profile first
+ * PUT /api/mapping-profiles/:id    - Create or replace a profile (body: the profile; its id must match)
+ * DELETE /api/mapping-profiles/:id - Delete a saved profile
+ */
+export function createMappingProfileRoutes(context: ServerContext): Router {
+  const router = Router();
+  router.use(requirePermission('patients.import'));
+
+  router.get('/', (_req, res) => {
+    res.json(context.mappingProfiles.getProfiles());
+  });
+
+  router.put('/:id', (req, res) => {
+    if (req.body?.id !== req.params.id) {
+      res.status(400).json({ error: 'Profile id must match the URL' });
+      return;
+    }
+    const result = context.mappingProfiles.saveProfile(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error, details: result.validationErrors });
+      return;
+    }
+    res.json(result.profile);
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!context.mappingProfiles.deleteProfile(req.params.id)) {
+      res.status(404).json({ error: `Mapping profile '${req.params.id}' not found` });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,220 @@
+import express, { Router, Response } from 'express';
+import {
+  AdmissionInput,
+  DischargeInput,
+  Patient,
+  PatientImportSummary,
+  PatientWithTasks,
+  DEFAULT_WORKING_CALENDAR,
+} from '../../shared/types';
+import { ServerContext } from '../context';
+import { getCurrentUser, requirePermission } from '../auth';
+import { applyAssignments, parseAssigneeBody } from '../assignments';
+import { planPatientAssignment } from '../../shared/assignment';
+import { auditEncounterChange, auditPatientImport, auditTaskChange } from '../../shared/audit';
+import { mergePatients } from '../../shared/patientImport';
+import { STANDARD_MAPPING_PROFILE } from '../../shared/patientMapping';
+import { toZonedDateKey } from '../../shared/timeZone';
+import { previewPatientCSV } from '../../shared/patientCsv';
+import { reconcilePatientTasks } from '../services/taskReconciler';
+import { updateTaskStatuses } from '../../shared/taskEngine';
+import {
+  generateTasksForEncounter,
+  planReadmissionClosures,
+  validateAdmissionInput,
+  validateDischargeInput,
+} from '../../shared/encounters';
+
+// Largest patient CSV accepted by the import
+const IMPORT_SIZE_LIMIT = '5mb';
+
+/**
+ * Patient routes.
+ *
+ * GET /api/patients        - List all patients (optional ?q= name search)
+ * POST /api/patients/import - Import patients from a CSV (body: the file as text/csv), read with
+ *                             the mapping profile named by ?profile= (default: standard); rows with
+ *                             errors are skipped (warnings are not), the rest merged by MRN. Generates tasks for new
+ *                             patients and reconciles updated patients' tasks
+ * GET /api/patients/:id    - Get a single patient with their tasks
+ * PUT /api/patients/:id/assignee - Give all of the patient's open tasks to one owner
+ *                                  (body: assignedTo, reason); returns the changed tasks
+ * GET /api/patients/:id/encounters - The patient's encounters, oldest first
+ * POST /api/patients/:id/encounters - Record a readmission (body: admissionDate, primaryDiagnosis);
+ *                                     cancels the patient's open tasks
+ * POST /api/patients/:id/encounters/:encounterId/discharge - Record the discharge ending the current
+ *                                     encounter (body: dischargeDate, dischargeTime, dischargeDisposition);
+ *                                     generates its tasks from the active rules
+ */
+export function createPatientRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  /**
+   * Find a patient, sending a 404 if they do not exist.
+   */
+  const findPatient = (patientId: string, res: Response): Patient | undefined => {
+    const patient = context.patients.find((p) => p.patientId === patientId);
+    if (!patient) {
+      res.status(404).json({ error: `Patient with ID '${patientId}' not found` });
+    }
+    return patient;
+  };
+
+  router.get('/', (req, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.toLowerCase() : '';
+    const patients = query
+      ? context.patients.filter((p) => p.patientName.toLowerCase().includes(query))
+      : context.patients;
+    res.json(patients);
+  });
+
+  router.post(
+    '/import',
+    requirePermission('patients.import'),
+    express.text({ type: 'text/csv', limit: IMPORT_SIZE_LIMIT }),
+    (req, res) => {
+      if (typeof req.body !== 'string') {
+        res.status(415).json({ error: 'Patient CSV must be sent as text/csv' });
+        return;
+      }
+      const profileId = typeof req.query.profile === 'string' ? req.query.profile : STANDARD_MAPPING_PROFILE.id;
+      const profile = context.mappingProfiles.getProfile(profileId);
+      if (!profile) {
+        res.status(400).json({ error: `Mapping profile '${profileId}' not found` });
+        return;
+      }
+      // Dates are checked against the facility's today
+      const now = new Date();
+      const { timeZone } = context.ruleStore.getRuleSet().calendar ?? DEFAULT_WORKING_CALENDAR;
+      const preview = previewPatientCSV(req.body, profile, toZonedDateKey(now, timeZone));
+      if (preview.errors.length > 0) {
+        res.status(400).json({ error: preview.errors[0] });
+        return;
+      }
+
+      const imported = preview.rows.flatMap((row) => (row.patient ? [row.patient] : []));
+      const { patients, result } = mergePatients(context.patients, imported);
+      context.patientStore.recordImport([...result.added, ...result.updated.map(({ after }) => after)]);
+      context.patients = patients;
+
+      const actor = getCurrentUser(res).id;
+      for (const patient of result.added) {
+        context.auditLog.record(auditPatientImport(undefined, patient, actor, now));
+        reconcilePatientTasks(context, patient, now, actor);
+      }
+      for (const { before, after } of result.updated) {
+        context.auditLog.record(auditPatientImport(before, after, actor, now));
+        reconcilePatientTasks(context, after, now, actor);
+      }
+
+      const summary: PatientImportSummary = {
+        added: result.added.map((p) => p.patientId),
+        updated: result.updated.map(({ after }) => after.patientId),
+        unchanged: result.unchanged.map((p) => p.patientId),
+        skippedRows: preview.rows.filter((row) => !row.patient).map((row) => row.rowNumber),
+      };
+      res.json(summary);
+    }
+  );
+
+  router.get('/:id', (req, res) => {
+    const patient = findPatient(req.params.id, res);
+    if (!patient) {
+      return;
+    }
+
+    const body: PatientWithTasks = {
+      ...patient,
+      tasks: context.taskStore.getTasksByPatientId(patient.patientId),
+      encounters: context.encounterStore.getEncounters(patient),
+    };
+    res.json(body);
+  });
+
+  router.put('/:id/assignee', requirePermission('task.assign'), (req, res) => {
+    const body = parseAssigneeBody(context, req.body, res);
+    if (!body) {
+      return;
+    }
+    if (!context.patients.some((p) => p.patientId === req.params.id)) {
+      res.status(404).json({ error: `Patient with ID '${req.params.id}' not found` });
+      return;
+    }
+
+    const assignments = planPatientAssignment(context.taskStore.getAllTasks(), req.params.id, body.assignedTo);
+    const assigned = applyAssignments(context, assignments, body.reason, res);
+    if (assigned) {
+      res.json(assigned);
+    }
+  });
+
+  router.get('/:id/encounters', (req, res) => {
+    const patient = findPatient(req.params.id, res);
+    if (patient) {
+      res.json(context.encounterStore.getEncounters(patient));
+    }
+  });
+
+  router.post('/:id/encounters', requirePermission('encounter.record'), (req, res) => {
+    const validationError = validateAdmissionInput(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+    const patient = findPatient(req.params.id, res);
+    if (!patient) {
+      return;
+    }
+
+    const { admissionDate, primaryDiagnosis } = req.body as AdmissionInput;
+    const result = context.encounterStore.admit(patient, { admissionDate, primaryDiagnosis });
+    if (!result.success || !result.encounter) {
+      res.status(409).json({ error: result.error });
+      return;
+    }
+
+    const actor = getCurrentUser(res).id;
+    context.auditLog.record(auditEncounterChange('encounter.admitted', result.encounter, actor));
+    // Tasks for the previous discharge no longer apply once the patient is back in hospital
+    const now = new Date();
+    for (const { taskId, change } of planReadmissionClosures(context.taskStore.getAllTasks(now), result.encounter, actor)) {
+      const before = context.taskStore.getTaskById(taskId)!;
+      const closed = context.taskStore.changeTaskStatus(taskId, change, now);
+      if (closed.task) {
+        const [current, updated] = updateTaskStatuses([before, closed.task], now);
+        context.auditLog.record(auditTaskChange('task.closed', current, updated, actor, now));
+      }
+    }
+    res.status(201).json(result.encounter);
+  });
+
+  router.post('/:id/encounters/:encounterId/discharge', requirePermission('encounter.record'), (req, res) => {
+    const validationError = validateDischargeInput(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+    const patient = findPatient(req.params.id, res);
+    if (!patient) {
+      return;
+    }
+
+    const { dischargeDate, dischargeTime, dischargeDisposition } = req.body as DischargeInput;
+    const result = context.encounterStore.discharge(patient, req.params.encounterId, {
+      dischargeDate,
+      dischargeTime,
+      dischargeDisposition,
+    });
+    if (!result.success || !result.encounter) {
+      res.status(409).json({ error: result.error });
+      return;
+    }
+
+    const { rules, calendar } = context.ruleStore.getRuleSet();
+    context.taskStore.addTasks(generateTasksForEncounter(patient, result.encounter, rules, calendar));
+    context.auditLog.record(auditEncounterChange('encounter.discharged', result.encounter, getCurrentUser(res).id));
+    res.json(result.encounter);
+  });
+
+  return router;
+}
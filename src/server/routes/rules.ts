@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { ServerContext } from '../context';
+import { getCurrentUser, requirePermission } from '../auth';
+import { auditRuleSetUpdate } from '../../shared/audit';
+import { reconcileAllTasks } from '../services/taskReconciler';
+
+/**
+ * Task rule routes.
+ *
+ * GET /api/rules   - Get the active task rule set
+ * PUT /api/rules   - Replace the rule set (body.version must match the current version; admins only)
+ *                    and reconcile every patient's tasks against it (audited)
+ */
+export function createRuleRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(context.ruleStore.getRuleSet());
+  });
+
+  router.put('/', requirePermission('rules.edit'), (req, res) => {
+    const previous = context.ruleStore.getRuleSet();
+    const result = context.ruleStore.update(req.body);
+    if (!result.success || !result.ruleSet) {
+      const status = result.conflict ? 409 : 400;
+      res.status(status).json({ error: result.error, details: result.validationErrors });
+      return;
+    }
+    const now = new Date();
+    const actor = getCurrentUser(res).id;
+    context.auditLog.record(auditRuleSetUpdate(previous, result.ruleSet, actor, now));
+    reconcileAllTasks(context, now, actor);
+    res.json(result.ruleSet);
+  });
+
+  return router;
+}
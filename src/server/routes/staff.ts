@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { ServerContext } from '../context';
+import { isAssignableStaff } from '../../shared/assignment';
+
+/**
+ * Staff routes.
+ *
+ * GET /api/staff   - Users who can be given tasks, with the languages they speak
+ */
+export function createStaffRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(context.userStore.listUsers().filter(isAssignableStaff));
+  });
+
+  return router;
+}
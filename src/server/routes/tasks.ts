@@ -0,0 +1,414 @@
+import { Router, Response } from 'express';
+import {
+  AuditAction,
+  AssignmentStrategy,
+  ContactAttemptInput,
+  Task,
+  TaskNote,
+  TaskStatus,
+  TaskStatusChangeInput,
+  ASSIGNMENT_STRATEGIES,
+  TASK_STATUSES,
+} from '../../shared/types';
+import { ServerContext } from '../context';
+import { checkPermission, getCurrentUser, requirePermission } from '../auth';
+import {
+  formatTaskEtag,
+  getTaskVersion,
+  getUrgentTasks,
+  updateTaskStatuses,
+  validateContactAttemptInput,
+  validateRequiredText,
+  validateTaskStatusChangeInput,
+} from '../../shared/taskEngine';
+import { auditTaskChange } from '../../shared/audit';
+import { ASSIGNMENT_STRATEGY_LABELS, isAssignableStaff, planAutoAssignment } from '../../shared/assignment';
+import { getEscalatedTasks } from '../../shared/escalation';
+import { applyAssignments, parseAssigneeBody } from '../assignments';
+import { parseIfMatch, sendRefusal } from '../taskVersions';
+
+interface TaskPatchBody {
+  status?: unknown;
+  notes?: unknown;
+}
+
+interface NoteBody {
+  text?: unknown;
+  reason?: unknown;
+}
+
+/**
+ * Task routes.
+ *
+ * GET   /api/tasks                           - List tasks (filterable by ?status=, ?type=, ?patientId=,
+ *                                              ?assignedTo= a user ID or "unassigned")
+ * GET   /api/tasks/urgent                    - Open tasks due within ?hours= (default 4)
+ * GET   /api/tasks/escalated                 - Open escalated tasks, highest level first
+ * POST  /api/tasks/auto-assign               - Assign every open, unassigned task (body: strategy)
+ * GET   /api/tasks/:id                       - Get a single task
+ * PATCH /api/tasks/:id                       - Complete a task
+ * POST  /api/tasks/:id/status-changes        - Cancel, mark not applicable or reopen (body: action, reason, note)
+ * POST  /api/tasks/:id/notes                 - Append a note to the task's thread
+ * PATCH /api/tasks/:id/notes/:noteId         - Edit a note (the previous text is kept)
+ * POST  /api/tasks/:id/notes/:noteId/redact  - Redact a note, giving a reason
+ * POST  /api/tasks/:id/contact-attempts      - Log a contact attempt on an outreach task
+ * PUT   /api/tasks/:id/assignee              - Assign, reassign or unassign (body: assignedTo, reason)
+ *
+ * Changes are attributed to the signed-in user and need the matching permission;
+ * only a note's author can edit it. Every successful change is recorded in the audit log.
+ *
+ * Single tasks are sent with an ETag of their version. A change sent with If-Match
+ * is refused with a 412 (and the current task) if the task has changed since.
+ */
+export function createTaskRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  /**
+   * Find one of a task's notes, sending a 404 if the task or note does not exist.
+   */
+  const findNote = (taskId: string, noteId: string, res: Response): TaskNote | undefined => {
+    const task = context.taskStore.getTaskById(taskId);
+    if (!task) {
+      res.status(404).json({ error: `Task with ID '${taskId}' not found` });
+      return undefined;
+    }
+    const note = task.notes?.find((n) => n.id === noteId);
+    if (!note) {
+      res.status(404).json({ error: `Note with ID '${noteId}' not found` });
+    }
+    return note;
+  };
+
+  /**
+   * Record a successful task change in the audit log, with statuses as they
+   * stood at the time of the change.
+   */
+  const recordChange = (action: AuditAction, before: Task, after: Task | undefined, actor: string): void => {
+    if (after) {
+      const [current, updated] = updateTaskStatuses([before, after]);
+      context.auditLog.record(auditTaskChange(action, current, updated, actor));
+    }
+  };
+
+  /**
+   * Send a task with its current status, tagged with its version.
+   */
+  const sendTask = (taskId: string, res: Response, status: number = 200): void => {
+    const task = context.taskStore.getAllTasks().find((t) => t.id === taskId) as Task;
+    res.status(status).set('ETag', formatTaskEtag(getTaskVersion(task))).json(task);
+  };
+
+  router.get('/', (req, res) => {
+    const { status, type, patientId, assignedTo } = req.query;
+
+    if (status !== undefined && !TASK_STATUSES.includes(status as TaskStatus)) {
+      res.status(400).json({ error: `Invalid status filter: "${status}". Expected one of: ${TASK_STATUSES.join(', ')}` });
+      return;
+    }
+    if (type !== undefined && typeof type !== 'string') {
+      res.status(400).json({ error: 'Invalid type filter: expected a single task type' });
+      return;
+    }
+
+    let tasks = context.taskStore.getAllTasks();
+    if (status !== undefined) {
+      tasks = tasks.filter((t) => t.status === status);
+    }
+    if (type !== undefined) {
+      tasks = tasks.filter((t) => t.type === type);
+    }
+    if (typeof patientId === 'string') {
+      tasks = tasks.filter((t) => t.patientId === patientId);
+    }
+    if (typeof assignedTo === 'string') {
+      tasks = tasks.filter((t) => (assignedTo === 'unassigned' ? !t.assignedTo : t.assignedTo === assignedTo));
+    }
+
+    res.json(tasks);
+  });
+
+  router.get('/urgent', (req, res) => {
+    const hours = req.query.hours === undefined ? 4 : Number(req.query.hours);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      res.status(400).json({ error: `Invalid hours: "${req.query.hours}". Expected a positive number` });
+      return;
+    }
+
+    const now = new Date();
+    res.json(getUrgentTasks(context.taskStore.getAllTasks(now), hours, now));
+  });
+
+  router.get('/escalated', (_req, res) => {
+    res.json(getEscalatedTasks(context.taskStore.getAllTasks()));
+  });
+
+  router.post('/auto-assign', requirePermission('task.assign'), (req, res) => {
+    const { strategy } = (req.body ?? {}) as { strategy?: unknown };
+    if (!ASSIGNMENT_STRATEGIES.includes(strategy as AssignmentStrategy)) {
+      res.status(400).json({ error: `strategy must be one of: ${ASSIGNMENT_STRATEGIES.join(', ')}` });
+      return;
+    }
+
+    const staff = context.userStore.listUsers().filter(isAssignableStaff);
+    const assignments = planAutoAssignment(
+      context.taskStore.getAllTasks(),
+      context.patients,
+      staff,
+      strategy as AssignmentStrategy
+    );
+    const reason = `Auto-assigned: ${ASSIGNMENT_STRATEGY_LABELS[strategy as AssignmentStrategy]}`;
+    const assigned = applyAssignments(context, assignments, reason, res);
+    if (assigned) {
+      res.json(assigned);
+    }
+  });
+
+  router.get('/:id', (req, res) => {
+    const task = context.taskStore.getAllTasks().find((t) => t.id === req.params.id);
+    if (!task) {
+      res.status(404).json({ error: `Task with ID '${req.params.id}' not found` });
+      return;
+    }
+    res.set('ETag', formatTaskEtag(getTaskVersion(task))).json(task);
+  });
+
+  router.patch('/:id', requirePermission('task.complete'), (req, res) => {
+    const { status, notes } = (req.body ?? {}) as TaskPatchBody;
+
+    if (status !== undefined && status !== 'completed') {
+      res.status(400).json({
+        error: `Invalid status: "${status}". Only "completed" can be set here; ` +
+          'cancel, mark not applicable or reopen with POST /api/tasks/:id/status-changes',
+      });
+      return;
+    }
+    if (notes !== undefined) {
+      res.status(400).json({ error: 'Notes are append-only; add one with POST /api/tasks/:id/notes' });
+      return;
+    }
+    if (status === undefined) {
+      res.status(400).json({ error: 'Request body must include status' });
+      return;
+    }
+
+    const precondition = parseIfMatch(req, res);
+    if (!precondition) {
+      return;
+    }
+    const before = context.taskStore.getTaskById(req.params.id);
+    if (!before) {
+      res.status(404).json({ error: `Task with ID '${req.params.id}' not found` });
+      return;
+    }
+
+    const user = getCurrentUser(res);
+    const result = context.taskStore.completeTask(req.params.id, user.id, new Date(), precondition.expectedVersion);
+    if (!result.success) {
+      sendRefusal(res, result);
+      return;
+    }
+    recordChange('task.completed', before, result.task, user.id);
+    sendTask(req.params.id, res);
+  });
+
+  router.post('/:id/status-changes', (req, res) => {
+    const user = getCurrentUser(res);
+    const input = { ...(req.body ?? {}), changedBy: user.id } as TaskStatusChangeInput;
+    const validationError = validateTaskStatusChangeInput(input);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+    // Closing and reopening are restricted separately
+    if (!checkPermission(res, input.action === 'reopened' ? 'task.reopen' : 'task.close')) {
+      return;
+    }
+
+    const precondition = parseIfMatch(req, res);
+    if (!precondition) {
+      return;
+    }
+    const before = context.taskStore.getTaskById(req.params.id);
+    if (!before) {
+      res.status(404).json({ error: `Task with ID '${req.params.id}' not found` });
+      return;
+    }
+
+    const { action, reason, note } = input;
+    const result = context.taskStore.changeTaskStatus(
+      req.params.id,
+      { action, reason, note, changedBy: user.id },
+      new Date(),
+      precondition.expectedVersion
+    );
+    if (!result.success) {
+      sendRefusal(res, result);
+      return;
+    }
+    recordChange(action === 'reopened' ? 'task.reopened' : 'task.closed', before, result.task, user.id);
+    sendTask(req.params.id, res, 201);
+  });
+
+  router.post('/:id/notes', requirePermission('task.note'), (req, res) => {
+    const { text } = (req.body ?? {}) as NoteBody;
+    const validationError = validateRequiredText(text, 'text');
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const precondition = parseIfMatch(req, res);
+    if (!precondition) {
+      return;
+    }
+    const before = context.taskStore.getTaskById(req.params.id);
+    if (!before) {
+      res.status(404).json({ error: `Task with ID '${req.params.id}' not found` });
+      return;
+    }
+
+    const user = getCurrentUser(res);
+    const result = context.taskStore.addTaskNote(
+      req.params.id,
+      text as string,
+      user.id,
+      new Date(),
+      precondition.expectedVersion
+    );
+    if (!result.success) {
+      sendRefusal(res, result);
+      return;
+    }
+    recordChange('task.note_added', before, result.task, user.id);
+    sendTask(req.params.id, res, 201);
+  });
+
+  router.put('/:id/assignee', requirePermission('task.assign'), (req, res) => {
+    const body = parseAssigneeBody(context, req.body, res);
+    const precondition = body && parseIfMatch(req, res);
+    if (!body || !precondition) {
+      return;
+    }
+    if (!context.taskStore.getTaskById(req.params.id)) {
+      res.status(404).json({ error: `Task with ID '${req.params.id}' not found` });
+      return;
+    }
+
+    const assignment = { taskId: req.params.id, assignedTo: body.assignedTo, ...precondition };
+    const assigned = applyAssignments(context, [assignment], body.reason, res);
+    if (assigned) {
+      res.set('ETag', formatTaskEtag(getTaskVersion(assigned[0]))).json(assigned[0]);
+    }
+  });
+
+  router.patch('/:id/notes/:noteId', requirePermission('task.note'), (req, res) => {
+    const { text } = (req.body ?? {}) as NoteBody;
+    const validationError = validateRequiredText(text, 'text');
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+    const note = findNote(req.params.id, req.params.noteId, res);
+    if (!note) {
+      return;
+    }
+
+    const user = getCurrentUser(res);
+    if (note.author !== user.id) {
+      res.status(403).json({ error: 'Only the author of a note can edit it' });
+      return;
+    }
+    const precondition = parseIfMatch(req, res);
+    if (!precondition) {
+      return;
+    }
+
+    const before = context.taskStore.getTaskById(req.params.id) as Task;
+    const result = context.taskStore.editTaskNote(
+      req.params.id,
+      req.params.noteId,
+      text as string,
+      user.id,
+      new Date(),
+      precondition.expectedVersion
+    );
+    if (!result.success) {
+      sendRefusal(res, result);
+      return;
+    }
+    // Saving unchanged text leaves the note as it was, so there is nothing to record
+    if (result.note !== note) {
+      recordChange('task.note_edited', before, result.task, user.id);
+    }
+    sendTask(req.params.id, res);
+  });
+
+  router.post('/:id/notes/:noteId/redact', requirePermission('task.note_redact'), (req, res) => {
+    const { reason } = (req.body ?? {}) as NoteBody;
+    const validationError = validateRequiredText(reason, 'reason');
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+    if (!findNote(req.params.id, req.params.noteId, res)) {
+      return;
+    }
+    const precondition = parseIfMatch(req, res);
+    if (!precondition) {
+      return;
+    }
+
+    const user = getCurrentUser(res);
+    const before = context.taskStore.getTaskById(req.params.id) as Task;
+    const result = context.taskStore.redactTaskNote(
+      req.params.id,
+      req.params.noteId,
+      user.id,
+      reason as string,
+      new Date(),
+      precondition.expectedVersion
+    );
+    if (!result.success) {
+      sendRefusal(res, result);
+      return;
+    }
+    recordChange('task.note_redacted', before, result.task, user.id);
+    sendTask(req.params.id, res);
+  });
+
+  router.post('/:id/contact-attempts', requirePermission('task.contact'), (req, res) => {
+    const user = getCurrentUser(res);
+    const input = { ...(req.body ?? {}), attemptedBy: user.id } as ContactAttemptInput;
+    const validationError = validateContactAttemptInput(input);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const precondition = parseIfMatch(req, res);
+    if (!precondition) {
+      return;
+    }
+    const before = context.taskStore.getTaskById(req.params.id);
+    if (!before) {
+      res.status(404).json({ error: `Task with ID '${req.params.id}' not found` });
+      return;
+    }
+
+    const { channel, destination, outcome, notes } = input;
+    const result = context.taskStore.logContactAttempt(
+      req.params.id,
+      { channel, destination, outcome, attemptedBy: user.id, notes },
+      new Date(),
+      precondition.expectedVersion
+    );
+    if (!result.success) {
+      sendRefusal(res, result);
+      return;
+    }
+    recordChange('task.contact_logged', before, result.task, user.id);
+    sendTask(req.params.id, res, 201);
+  });
+
+  return router;
+}
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { NewUserInput } from '../../shared/types';
+import { ServerContext } from '../context';
+import { requirePermission } from '../auth';
+
+/**
+ * User administration routes (admins only).
+ *
+ * GET  /api/users   - List users
+ * POST /api/users   - Add a user (body: id, displayName, role, password)
+ */
+export function createUserRoutes(context: ServerContext): Router {
+  const router = Router();
+
+  router.use(requirePermission('users.manage'));
+
+  router.get('/', (_req, res) => {
+    res.json(context.userStore.listUsers());
+  });
+
+  router.post('/', async (req, res) => {
+    const result = await context.userStore.createUser((req.body ?? {}) as NewUserInput);
+    if (!result.success) {
+      res.status(result.conflict ? 409 : 400).json({ error: result.error });
+      return;
+    }
+    res.status(201).json(result.user);
+  });
+
+  return router;
+}
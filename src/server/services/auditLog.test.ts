@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AuditEntry } from '../../shared/types';
+import { AuditLog } from './auditLog';
+
+const createTestEntry = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  id: 'audit_1',
+  at: new Date('2026-01-14T12:00:00Z'),
+  actor: 'nurse-1',
+  action: 'task.completed',
+  entityType: 'task',
+  entityId: 'task_1',
+  patientId: 'MRN0001',
+  before: { status: 'pending' },
+  after: { status: 'completed' },
+  ...overrides,
+});
+
+describe('AuditLog', () => {
+  let dataDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-audit-'));
+    filePath = path.join(dataDir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', () => {
+    const log = AuditLog.open(filePath);
+
+    expect(log.getEntryCount()).toBe(0);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should persist entries across reopen', () => {
+    const log = AuditLog.open(filePath);
+    log.record(createTestEntry());
+    log.record(createTestEntry({ id: 'audit_2', at: new Date('2026-01-14T13:00:00Z'), actor: 'nurse-2' }));
+
+    const reopened = AuditLog.open(filePath);
+
+    expect(reopened.query().map((e) => e.id)).toEqual(['audit_2', 'audit_1']);
+    expect(reopened.query({ actor: 'nurse-1' })[0].at).toEqual(new Date('2026-01-14T12:00:00Z'));
+  });
+
+  it('should only ever append to the file', () => {
+    const log = AuditLog.open(filePath);
+    log.record(createTestEntry());
+    const firstLine = fs.readFileSync(filePath, 'utf-8');
+
+    log.record(createTestEntry({ id: 'audit_2' }));
+
+    expect(fs.readFileSync(filePath, 'utf-8').startsWith(firstLine)).toBe(true);
+  });
+
+  it('should skip a torn final line left by a crash', () => {
+    const log = AuditLog.open(filePath);
+    log.record(createTestEntry());
+    fs.appendFileSync(filePath, '{"id":"audit_2","at":');
+
+    expect(AuditLog.open(filePath).getEntryCount()).toBe(1);
+  });
+
+  it('should keep entries in memory when no file is given', () => {
+    const log = new AuditLog();
+    log.record(createTestEntry());
+
+    expect(log.query({ patientId: 'MRN0001' })).toHaveLength(1);
+  });
+
+  it('should tell subscribers about recorded entries until they unsubscribe', () => {
+    const log = new AuditLog();
+    const received: AuditEntry[] = [];
+    const unsubscribe = log.subscribe((entry) => received.push(entry));
+
+    log.record(createTestEntry());
+    unsubscribe();
+    log.record(createTestEntry({ id: 'audit_2' }));
+
+    expect(received.map((entry) => entry.id)).toEqual(['audit_1']);
+  });
+
+  it('should restore only missing entries, durably and without telling subscribers', () => {
+    const log = AuditLog.open(filePath);
+    log.record(createTestEntry());
+    const received: AuditEntry[] = [];
+    log.subscribe((entry) => received.push(entry));
+
+    const added = log.restore([
+      createTestEntry({ at: new Date('2026-01-13T12:00:00Z') }),
+      createTestEntry({ id: 'audit_0', at: new Date('2026-01-13T12:00:00Z') }),
+    ]);
+
+    expect(added).toBe(1);
+    expect(received).toEqual([]);
+    expect(AuditLog.open(filePath).query().map((e) => e.id)).toEqual(['audit_1', 'audit_0']);
+  });
+});
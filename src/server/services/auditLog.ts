@@ -0,0 +1,93 @@
+import { AuditEntry, AuditQuery } from '../../shared/types';
+import { StoredAuditEntry, deserializeAuditEntry, serializeAuditEntry, queryAuditEntries } from '../../shared/audit';
+import { appendLineDurable, readJsonLines } from './durableFile';
+
+/**
+ * Receives each entry after it is recorded.
+ */
+export type AuditListener = (entry: AuditEntry) => void;
+
+/**
+ * Append-only audit trail, optionally backed by a JSON Lines file.
+ *
+ * Entries are fsynced to the file before they are added in memory, and there
+ * is no way to change or remove an entry once recorded. Every change is
+ * audited, so subscribers hear about every change.
+ */
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+  private listeners = new Set<AuditListener>();
+
+  constructor(private readonly filePath?: string) {}
+
+  /**
+   * Load the audit trail from its file (created on the first recorded entry).
+   */
+  static open(filePath: string): AuditLog {
+    const log = new AuditLog(filePath);
+    log.entries = readJsonLines<StoredAuditEntry>(filePath, 'audit log').map(deserializeAuditEntry);
+    return log;
+  }
+
+  /**
+   * Record an entry.
+   */
+  record(entry: AuditEntry): void {
+    if (this.filePath) {
+      appendLineDurable(this.filePath, JSON.stringify(serializeAuditEntry(entry)));
+    }
+    this.entries.push(entry);
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error(`Audit listener failed on ${entry.action} for ${entry.entityId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Add entries from a backup that are not in the log yet (by ID). Nothing
+   * is changed or removed, and subscribers are not told: these are past
+   * changes, not new ones.
+   *
+   * @returns The number of entries added
+   */
+  restore(entries: AuditEntry[]): number {
+    const known = new Set(this.entries.map((entry) => entry.id));
+    const added = entries.filter((entry) => !known.has(entry.id));
+    for (const entry of added) {
+      if (this.filePath) {
+        appendLineDurable(this.filePath, JSON.stringify(serializeAuditEntry(entry)));
+      }
+      this.entries.push(entry);
+    }
+    return added.length;
+  }
+
+  /**
+   * Call a listener with every entry recorded from now on.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: AuditListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get entries matching a query, newest first.
+   */
+  query(query: AuditQuery = {}): AuditEntry[] {
+    return queryAuditEntries(this.entries, query);
+  }
+
+  /**
+   * Get the number of recorded entries.
+   */
+  getEntryCount(): number {
+    return this.entries.length;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Source of the current time, so time-driven services can be tested
+ * without waiting on the wall clock.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * The real wall clock.
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * A clock that only moves when told to.
+ */
+export class ManualClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date) {
+    this.current = new Date(start);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(time: Date): void {
+    this.current = new Date(time);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
@@ -0,0 +1,30 @@
+import { DashboardStats, Patient, Task, DEFAULT_TIME_ZONE } from '../../shared/types';
+import {
+  getClosedTasks,
+  getOverdueTasks,
+  getPendingTasks,
+  getTasksCompletedToday,
+  getUrgentTasks,
+} from '../../shared/taskEngine';
+import { countUnassignedTasks } from '../../shared/assignment';
+
+/**
+ * Calculate dashboard statistics for a set of patients and their tasks.
+ * "Today" is the current date in the facility's time zone.
+ */
+export function calculateDashboardStats(
+  patients: Patient[],
+  tasks: Task[],
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): DashboardStats {
+  return {
+    totalPatients: patients.length,
+    pendingTasks: getPendingTasks(tasks, now).length,
+    overdueTasks: getOverdueTasks(tasks, now).length,
+    completedToday: getTasksCompletedToday(tasks, now, timeZone).length,
+    closedTasks: getClosedTasks(tasks).length,
+    urgentTasks: getUrgentTasks(tasks, 4, now).length,
+    unassignedTasks: countUnassignedTasks(tasks),
+  };
+}
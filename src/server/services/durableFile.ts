@@ -0,0 +1,75 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Write a file atomically: write to a temp file, fsync it, then rename over the target.
+ * Readers see either the old contents or the new contents, never a partial write.
+ */
+export function writeFileAtomic(filePath: string, contents: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, contents);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+  fsyncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Append a line to a file and fsync it before returning.
+ */
+export function appendLineDurable(filePath: string, line: string): void {
+  const fd = fs.openSync(filePath, 'a');
+  try {
+    fs.writeSync(fd, `${line}\n`);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read a JSON Lines file, skipping a torn trailing line left by a crash mid-append.
+ * Returns an empty list if the file does not exist.
+ *
+ * @param description - What the file holds, for the corrupt-line error message
+ */
+export function readJsonLines<T>(filePath: string, description: string): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter((line) => line.trim() !== '');
+  const entries: T[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    try {
+      entries.push(JSON.parse(lines[i]) as T);
+    } catch (error) {
+      if (i === lines.length - 1) {
+        break;
+      }
+      throw new Error(`Corrupt ${description} ${filePath} at line ${i + 1}: ${(error as Error).message}`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Flush directory metadata so a rename is durable. Not supported on every
+ * platform (e.g. Windows), so failures are ignored.
+ */
+function fsyncDirectory(dirPath: string): void {
+  try {
+    const fd = fs.openSync(dirPath, 'r');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    // Best effort only
+  }
+}
@@ -0,0 +1,55 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Patient } from '../../shared/types';
+import { EncounterStore } from './encounterStore';
+
+const PATIENT = {
+  patientId: 'MRN0001',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  dischargeDisposition: 'Home',
+  primaryDiagnosis: 'Pneumonia',
+} as Patient;
+
+describe('EncounterStore', () => {
+  let dataDir: string;
+  let encountersFile: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-encounters-'));
+    encountersFile = path.join(dataDir, 'encounters.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should persist readmissions and discharges across reopening', () => {
+    const store = EncounterStore.open(encountersFile);
+    expect(store.admit(PATIENT, { admissionDate: '2026-01-20', primaryDiagnosis: 'Sepsis' }).success).toBe(true);
+    store.discharge(PATIENT, 'MRN0001-2', {
+      dischargeDate: '2026-01-24',
+      dischargeTime: '09:00',
+      dischargeDisposition: 'Home',
+    });
+
+    const reopened = EncounterStore.open(encountersFile);
+
+    expect(reopened.getEncounterCount()).toBe(1);
+    expect(reopened.getEncounters(PATIENT).map((e) => [e.id, e.dischargeDate])).toEqual([
+      ['MRN0001-1', '2026-01-14'],
+      ['MRN0001-2', '2026-01-24'],
+    ]);
+  });
+
+  it('should not write refused changes', () => {
+    const store = EncounterStore.open(encountersFile);
+
+    expect(store.admit(PATIENT, { admissionDate: '2026-01-01', primaryDiagnosis: 'Sepsis' }).success).toBe(false);
+    expect(fs.existsSync(encountersFile)).toBe(false);
+  });
+});
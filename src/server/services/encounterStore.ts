@@ -0,0 +1,96 @@
+import fs from 'node:fs';
+import { AdmissionInput, DischargeInput, Encounter, Patient } from '../../shared/types';
+import {
+  EncounterResult,
+  admitPatientInCollection,
+  dischargePatientInCollection,
+  getPatientEncounters,
+} from '../../shared/encounters';
+import { writeFileAtomic } from './durableFile';
+
+/**
+ * Holds recorded readmissions, optionally backed by a JSON file.
+ *
+ * A patient's first encounter comes from the patient record and is not
+ * stored; only the encounters that follow it are. The file is rewritten
+ * atomically on every change.
+ */
+export class EncounterStore {
+  private encounters: Encounter[];
+
+  constructor(
+    private readonly filePath?: string,
+    initialEncounters: Encounter[] = []
+  ) {
+    this.encounters = [...initialEncounters];
+  }
+
+  /**
+   * Load readmissions from the backing file (created on the first change).
+   */
+  static open(filePath: string): EncounterStore {
+    if (!fs.existsSync(filePath)) {
+      return new EncounterStore(filePath);
+    }
+    return new EncounterStore(filePath, JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Encounter[]);
+  }
+
+  /**
+   * Get all of a patient's encounters, oldest first.
+   */
+  getEncounters(patient: Patient): Encounter[] {
+    return getPatientEncounters(patient, this.encounters);
+  }
+
+  /**
+   * Get every recorded readmission, for backups.
+   */
+  getAllEncounters(): Encounter[] {
+    return [...this.encounters];
+  }
+
+  /**
+   * Record a readmission, starting a new encounter.
+   */
+  admit(patient: Patient, input: AdmissionInput): EncounterResult {
+    const { encounters, result } = admitPatientInCollection(this.encounters, patient, input);
+    if (result.success) {
+      this.encounters = encounters;
+      this.save();
+    }
+    return result;
+  }
+
+  /**
+   * Record the discharge that ends a patient's current encounter.
+   */
+  discharge(patient: Patient, encounterId: string, input: DischargeInput): EncounterResult {
+    const { encounters, result } = dischargePatientInCollection(this.encounters, patient, encounterId, input);
+    if (result.success) {
+      this.encounters = encounters;
+      this.save();
+    }
+    return result;
+  }
+
+  /**
+   * Replace every recorded readmission with a backup's.
+   */
+  restore(encounters: Encounter[]): void {
+    this.encounters = [...encounters];
+    this.save();
+  }
+
+  /**
+   * Get the number of recorded readmissions.
+   */
+  getEncounterCount(): number {
+    return this.encounters.length;
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeFileAtomic(this.filePath, JSON.stringify(this.encounters, null, 2) + '\n');
+    }
+  }
+}
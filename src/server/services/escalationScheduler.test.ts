@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Patient, Task } from '../../shared/types';
+import { ServerContext } from '../context';
+import { ManualClock } from './clock';
+import { EscalationScheduler } from './escalationScheduler';
+import { PersistentTaskStore } from './persistentTaskStore';
+import { TaskRuleStore } from './taskRuleStore';
+import { EncounterStore } from './encounterStore';
+import { PatientStore } from './patientStore';
+import { MappingProfileStore } from './mappingProfileStore';
+import { AuditLog } from './auditLog';
+import { UserStore } from './userStore';
+import { SessionStore } from './sessionStore';
+import { LiveUpdateHub } from './liveUpdates';
+
+const HOUR = 60 * 60 * 1000;
+const DUE_START = new Date('2026-01-14T10:00:00Z');
+
+const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task_1',
+  patientId: 'MRN0001',
+  type: 'medication_reconciliation',
+  status: 'pending',
+  dueStart: DUE_START,
+  dueEnd: new Date(DUE_START.getTime() + 24 * HOUR),
+  assignedTo: 'nurse-1',
+  ...overrides,
+});
+
+const PATIENT = { patientId: 'MRN0001', readmissionRiskScore: 'Low' } as Patient;
+
+const USERS = [
+  { id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' as const, passwordHash: 'unused' },
+  { id: 'supervisor', displayName: 'Supervisor', role: 'supervisor' as const, passwordHash: 'unused' },
+];
+
+describe('EscalationScheduler', () => {
+  let dataDir: string;
+  let clock: ManualClock;
+
+  const createContext = (): ServerContext => ({
+    patients: [PATIENT],
+    patientStore: new PatientStore(),
+    mappingProfiles: new MappingProfileStore(),
+    taskStore: PersistentTaskStore.open(dataDir, () => [createTestTask()]),
+    encounterStore: new EncounterStore(),
+    ruleStore: new TaskRuleStore(),
+    auditLog: new AuditLog(),
+    userStore: new UserStore(undefined, USERS),
+    sessions: new SessionStore(),
+    liveUpdates: new LiveUpdateHub(),
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-escalation-'));
+    clock = new ManualClock(DUE_START);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should fire each tier once, when it comes due', () => {
+    const context = createContext();
+    const scheduler = new EscalationScheduler(context, clock);
+
+    // The default policy notifies the assignee at 75% of the window
+    clock.advance(17 * HOUR);
+    expect(scheduler.runOnce()).toEqual([]);
+
+    clock.advance(HOUR);
+    const [escalated] = scheduler.runOnce();
+    expect(escalated.escalations).toEqual([
+      { level: 1, notify: 'assignee', recipients: ['nurse-1'], escalatedAt: clock.now() },
+    ]);
+    expect(scheduler.runOnce()).toEqual([]);
+
+    clock.advance(6 * HOUR);
+    expect(scheduler.runOnce()[0].escalations?.map((e) => e.recipients)).toEqual([['nurse-1'], ['nurse-1']]);
+  });
+
+  it('should audit escalations as the system', () => {
+    const context = createContext();
+    clock.advance(30 * HOUR);
+
+    new EscalationScheduler(context, clock).runOnce();
+
+    expect(context.auditLog.query({ action: 'task.escalated' })).toMatchObject([{
+      actor: 'system',
+      entityId: 'task_1',
+      after: { level: 2, notify: ['assignee', 'charge_nurse'], recipients: ['nurse-1'] },
+    }]);
+  });
+
+  it('should not fire again after a restart', () => {
+    clock.advance(24 * HOUR);
+    new EscalationScheduler(createContext(), clock).runOnce();
+
+    const restarted = createContext();
+    expect(new EscalationScheduler(restarted, clock).runOnce()).toEqual([]);
+    expect(restarted.taskStore.getTaskById('task_1')?.escalations).toHaveLength(2);
+  });
+
+  it('should leave completed tasks alone', () => {
+    const context = createContext();
+    context.taskStore.completeTask('task_1', 'nurse-1', clock.now());
+    clock.advance(48 * HOUR);
+
+    expect(new EscalationScheduler(context, clock).runOnce()).toEqual([]);
+  });
+
+  it('should keep running on its interval after a run fails', () => {
+    vi.useFakeTimers();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const context = createContext();
+    const getRuleSet = vi.spyOn(context.ruleStore, 'getRuleSet').mockImplementationOnce(() => {
+      throw new Error('Rules unavailable');
+    });
+    clock.advance(48 * HOUR);
+    const scheduler = new EscalationScheduler(context, clock);
+
+    try {
+      expect(() => scheduler.start(1000)).not.toThrow();
+      expect(error).toHaveBeenCalledWith('Failed to fire escalations; retrying:', expect.any(Error));
+
+      vi.advanceTimersByTime(1000);
+      expect(getRuleSet).toHaveBeenCalledTimes(2);
+      expect(context.taskStore.getTaskById('task_1')?.escalations).toHaveLength(3);
+    } finally {
+      scheduler.stop();
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    }
+  });
+});
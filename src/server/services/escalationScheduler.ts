@@ -0,0 +1,93 @@
+import { Task } from '../../shared/types';
+import { planEscalations } from '../../shared/escalation';
+import { updateTaskStatuses } from '../../shared/taskEngine';
+import { auditTaskChange } from '../../shared/audit';
+import { ServerContext } from '../context';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Actor recorded on escalations fired by the scheduler.
+ */
+export const ESCALATION_ACTOR = 'system';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Fires escalation tiers as open tasks reach them.
+ *
+ * Each run plans the tiers that are due under the active rule set's
+ * escalation policies, records them on the tasks (journaled by a persistent
+ * store) and audits each escalated task. Fired levels are stored on the task,
+ * so a tier never fires twice, and tiers passed while the server was down
+ * fire together on the first run after it starts.
+ */
+export class EscalationScheduler {
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly context: ServerContext,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Fire every tier that is due now.
+   *
+   * @returns The escalated tasks
+   */
+  runOnce(): Task[] {
+    const { taskStore, patients, ruleStore, userStore, auditLog } = this.context;
+    const now = this.clock.now();
+    const plans = planEscalations(
+      taskStore.getAllTasks(now),
+      patients,
+      userStore.listUsers(),
+      ruleStore.getRuleSet().escalations ?? [],
+      now
+    );
+    if (plans.length === 0) {
+      return [];
+    }
+
+    const before = new Map(plans.map(({ taskId }) => [taskId, taskStore.getTaskById(taskId) as Task]));
+    const result = taskStore.escalateTasks(plans);
+    if (!result.success || !result.tasks) {
+      console.error('Failed to record escalations:', result.error);
+      return [];
+    }
+
+    const escalated = updateTaskStatuses(result.tasks, now);
+    for (const task of escalated) {
+      const [previous] = updateTaskStatuses([before.get(task.id)!], now);
+      auditLog.record(auditTaskChange('task.escalated', previous, task, ESCALATION_ACTOR, now));
+    }
+    return escalated;
+  }
+
+  /**
+   * Run now and then every intervalMs until stopped.
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    this.stop();
+    this.tick();
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop running on an interval.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private tick(): void {
+    try {
+      this.runOnce();
+    } catch (error) {
+      console.error('Failed to fire escalations; retrying:', error);
+    }
+  }
+}
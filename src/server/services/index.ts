@@ -1,43 +1,36 @@
-export {
-  // Task generation
-  generateTaskId,
-  getDischargeDateTime,
-  generateTasksForPatient,
-  generateTasksForPatients,
-  // Task status calculations
-  calculateTaskStatus,
-  isTaskOverdue,
-  getTimeRemaining,
-  getTimeRemainingFormatted,
-  updateTaskStatuses,
-  getOverdueTasks,
-  getPendingTasks,
-  getUpcomingTasks,
-  // Task status transitions
-  completeTask,
-  addTaskNote,
-  updateTask,
-  completeTaskInList,
-  addNoteToTaskInList,
-  // Task queries
-  findTaskById,
-  getTasksByPatientId,
-  getCompletedTasks,
-  getTasksCompletedInRange,
-  getTasksCompletedToday,
-} from './taskGenerator';
-
-export {
-  isValidTransition,
-  canCompleteTask,
-  completeTask,
-  addTaskNotes,
-  findTaskById,
-  completeTaskInCollection,
-  addNotesToTaskInCollection,
-  serializeTasksForStorage,
-  deserializeTasksFromStorage,
-  TaskStore,
-} from './taskStateManager';
-
-export type { TaskCompletionResult } from './taskStateManager';
+// Server-side services.
+// Task generation, status and transition rules live in the shared task engine
+// (src/shared/taskEngine.ts) and are imported from there directly.
+
+export { TaskStore } from './taskStateManager';
+
+export { PersistentTaskStore } from './persistentTaskStore';
+export type { TaskJournalEntry } from './persistentTaskStore';
+
+export { TaskRuleStore } from './taskRuleStore';
+export type { TaskRuleUpdateResult } from './taskRuleStore';
+
+export { EncounterStore } from './encounterStore';
+export { PatientStore } from './patientStore';
+export { MappingProfileStore } from './mappingProfileStore';
+export type { MappingProfileSaveResult } from './mappingProfileStore';
+
+export { AuditLog } from './auditLog';
+export type { AuditListener } from './auditLog';
+
+export { EscalationScheduler, ESCALATION_ACTOR } from './escalationScheduler';
+export { reconcileAllTasks, reconcilePatientTasks, RECONCILIATION_ACTOR } from './taskReconciler';
+export type { TaskReconciliationSummary } from './taskReconciler';
+export { TaskEventScheduler } from './taskEventScheduler';
+export type { TaskEventListener } from './taskEventScheduler';
+export { LiveUpdateHub } from './liveUpdates';
+export type { LiveUpdateListener } from './liveUpdates';
+export { ManualClock, systemClock } from './clock';
+export type { Clock } from './clock';
+
+export { UserStore } from './userStore';
+export type { UserCreateResult } from './userStore';
+export { SessionStore } from './sessionStore';
+
+export { calculateDashboardStats } from './dashboardStats';
+export { loadPatientsFromCsv } from './patientLoader';
@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LiveUpdate, Task } from '../../shared/types';
+import { LiveUpdateHub } from './liveUpdates';
+import { TaskEventScheduler } from './taskEventScheduler';
+import { TaskStore } from './taskStateManager';
+import { ManualClock } from './clock';
+
+const NOW = new Date('2026-01-14T12:00:00Z');
+
+const task: Task = {
+  id: 'task_1',
+  patientId: 'MRN0001',
+  type: 'medication_reconciliation',
+  status: 'pending',
+  dueStart: new Date('2026-01-14T10:00:00Z'),
+  dueEnd: new Date('2026-01-15T10:00:00Z'),
+};
+
+describe('LiveUpdateHub', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should publish timed task events', () => {
+    const hub = new LiveUpdateHub();
+    const received: LiveUpdate[] = [];
+    hub.subscribe((update) => received.push(update));
+    const scheduler = new TaskEventScheduler(new TaskStore([task]), new ManualClock(NOW));
+
+    hub.watchTaskEvents(scheduler);
+    scheduler.runOnce();
+
+    expect(received).toMatchObject([{ type: 'task_event', event: { type: 'task.opened', taskId: 'task_1' } }]);
+  });
+
+  it('should tick until stopped, even if a listener fails', () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const hub = new LiveUpdateHub(new ManualClock(NOW));
+    const received: LiveUpdate[] = [];
+    hub.subscribe(() => {
+      throw new Error('connection closed');
+    });
+    hub.subscribe((update) => received.push(update));
+
+    hub.startTicks(1000);
+    vi.advanceTimersByTime(2000);
+    hub.stop();
+    vi.advanceTimersByTime(2000);
+
+    expect(received).toEqual([{ type: 'tick', at: NOW }, { type: 'tick', at: NOW }]);
+  });
+});
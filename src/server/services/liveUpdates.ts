@@ -0,0 +1,94 @@
+import { LiveUpdate } from '../../shared/types';
+import { LIVE_TICK_INTERVAL_MS, createChangeUpdate } from '../../shared/liveUpdates';
+import { AuditLog } from './auditLog';
+import { TaskEventScheduler } from './taskEventScheduler';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Receives each live update as it is published.
+ */
+export type LiveUpdateListener = (update: LiveUpdate) => void;
+
+/**
+ * Fans live updates out to every open connection.
+ *
+ * Changes arrive from the audit log (every change is audited), timed events
+ * from the task event scheduler, and ticks from a timer so screens recompute
+ * time-based statuses even when nothing changes.
+ */
+export class LiveUpdateHub {
+  private listeners = new Set<LiveUpdateListener>();
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  /**
+   * Call a listener with every update published from now on.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: LiveUpdateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send an update to every listener. A failing listener (e.g. a closed
+   * connection) does not stop the others.
+   */
+  publish(update: LiveUpdate): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error(`Live update listener failed on ${update.type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Publish every change recorded in an audit log.
+   *
+   * @returns A function that stops watching
+   */
+  watchAuditLog(auditLog: AuditLog): () => void {
+    return auditLog.subscribe((entry) => this.publish(createChangeUpdate(entry)));
+  }
+
+  /**
+   * Publish every timed event a scheduler emits.
+   *
+   * @returns A function that stops watching
+   */
+  watchTaskEvents(scheduler: TaskEventScheduler): () => void {
+    return scheduler.subscribe((event) => this.publish({ type: 'task_event', event }));
+  }
+
+  /**
+   * Publish a tick every intervalMs until stopped.
+   */
+  startTicks(intervalMs: number = LIVE_TICK_INTERVAL_MS): void {
+    this.stop();
+    this.timer = setInterval(() => this.publish({ type: 'tick', at: this.clock.now() }), intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop publishing ticks.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Get the number of open connections and other listeners.
+   */
+  getListenerCount(): number {
+    return this.listeners.size;
+  }
+}
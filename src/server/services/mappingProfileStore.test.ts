@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PatientMappingProfile } from '../../shared/types';
+import { MappingProfileValidationError, STANDARD_MAPPING_PROFILE } from '../../shared/patientMapping';
+import { MappingProfileStore } from './mappingProfileStore';
+
+const createProfile = (id: string, overrides: Partial<PatientMappingProfile> = {}): PatientMappingProfile => ({
+  id,
+  name: `Profile ${id}`,
+  columns: { patientId: 'MRN' },
+  valueSynonyms: {},
+  ...overrides,
+});
+
+describe('MappingProfileStore', () => {
+  let dataDir: string;
+  let profilesFile: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-mappings-'));
+    profilesFile = path.join(dataDir, 'mapping-profiles.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should list the standard profile first, then saved profiles by name', () => {
+    const store = new MappingProfileStore();
+    store.saveProfile(createProfile('zeta', { name: 'Zeta' }));
+    store.saveProfile(createProfile('alpha', { name: 'Alpha' }));
+
+    expect(store.getProfiles().map((p) => p.id)).toEqual(['standard', 'alpha', 'zeta']);
+    expect(store.getProfile('standard')).toBe(STANDARD_MAPPING_PROFILE);
+  });
+
+  it('should persist saved, replaced and deleted profiles across reopening', () => {
+    const store = MappingProfileStore.open(profilesFile);
+    store.saveProfile(createProfile('epic'));
+    store.saveProfile(createProfile('cerner'));
+    store.saveProfile(createProfile('epic', { columns: { patientId: 'Patient MRN' } }));
+    expect(store.deleteProfile('cerner')).toBe(true);
+    expect(store.deleteProfile('cerner')).toBe(false);
+
+    const reopened = MappingProfileStore.open(profilesFile);
+
+    expect(reopened.getProfiles().map((p) => [p.id, p.columns.patientId])).toEqual([
+      ['standard', undefined],
+      ['epic', 'Patient MRN'],
+    ]);
+  });
+
+  it('should reject an invalid profile without changing anything', () => {
+    const store = MappingProfileStore.open(profilesFile);
+
+    const result = store.saveProfile({ ...STANDARD_MAPPING_PROFILE, name: '' });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Invalid mapping profile',
+      validationErrors: ['id: "standard" is built in and cannot be changed', 'name: must be a non-empty string'],
+    });
+    expect(fs.existsSync(profilesFile)).toBe(false);
+  });
+
+  it('should refuse to open a file with an invalid profile', () => {
+    fs.writeFileSync(profilesFile, JSON.stringify([createProfile('Bad Id')]));
+
+    expect(() => MappingProfileStore.open(profilesFile)).toThrow(MappingProfileValidationError);
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'node:fs';
+import { PatientMappingProfile } from '../../shared/types';
+import { STANDARD_MAPPING_PROFILE, parseMappingProfile, validateMappingProfile } from '../../shared/patientMapping';
+import { writeFileAtomic } from './durableFile';
+
+/**
+ * Result of saving a mapping profile
+ */
+export interface MappingProfileSaveResult {
+  success: boolean;
+  profile?: PatientMappingProfile;
+  error?: string;
+  validationErrors?: string[];
+}
+
+/**
+ * Holds the saved patient CSV mapping profiles, optionally backed by a JSON
+ * file. The standard profile is built in and always listed first.
+ *
+ * The file is validated on load so a bad edit fails fast at startup instead
+ * of silently importing the wrong columns.
+ */
+export class MappingProfileStore {
+  private profiles: PatientMappingProfile[];
+
+  constructor(
+    private readonly filePath?: string,
+    initialProfiles: PatientMappingProfile[] = []
+  ) {
+    this.profiles = [...initialProfiles];
+  }
+
+  /**
+   * Load profiles from the backing file (created when the first profile is saved).
+   * Throws MappingProfileValidationError if a saved profile is invalid.
+   */
+  static open(filePath: string): MappingProfileStore {
+    if (!fs.existsSync(filePath)) {
+      return new MappingProfileStore(filePath);
+    }
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as unknown[];
+    return new MappingProfileStore(filePath, saved.map(parseMappingProfile));
+  }
+
+  /**
+   * Get every profile, the standard one first, then saved ones by name.
+   */
+  getProfiles(): PatientMappingProfile[] {
+    return [STANDARD_MAPPING_PROFILE, ...this.profiles];
+  }
+
+  /**
+   * Get a profile by ID, including the standard one.
+   */
+  getProfile(id: string): PatientMappingProfile | undefined {
+    return this.getProfiles().find((profile) => profile.id === id);
+  }
+
+  /**
+   * Save a profile, replacing any saved profile with the same ID.
+   */
+  saveProfile(input: unknown): MappingProfileSaveResult {
+    const validationErrors = validateMappingProfile(input);
+    if (validationErrors.length > 0) {
+      return { success: false, error: 'Invalid mapping profile', validationErrors };
+    }
+
+    const { id, name, delimiter, columns, valueSynonyms } = input as PatientMappingProfile;
+    const profile: PatientMappingProfile = { id, name, ...(delimiter ? { delimiter } : {}), columns, valueSynonyms };
+    this.profiles = [...this.profiles.filter((p) => p.id !== id), profile]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    this.save();
+    return { success: true, profile };
+  }
+
+  /**
+   * Delete a saved profile.
+   *
+   * @returns false if there is no saved profile with that ID
+   */
+  deleteProfile(id: string): boolean {
+    if (!this.profiles.some((p) => p.id === id)) {
+      return false;
+    }
+    this.profiles = this.profiles.filter((p) => p.id !== id);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Replace every saved profile with a backup's. The profiles must already
+   * be valid (see parseBackup).
+   */
+  restore(profiles: PatientMappingProfile[]): void {
+    this.profiles = [...profiles].sort((a, b) => a.name.localeCompare(b.name));
+    this.save();
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeFileAtomic(this.filePath, JSON.stringify(this.profiles, null, 2) + '\n');
+    }
+  }
+}
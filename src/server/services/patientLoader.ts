@@ -0,0 +1,18 @@
+import { createReadStream } from 'node:fs';
+import { Patient } from '../../shared/types';
+import { CsvParser } from '../../shared/csv';
+import { parsePatientRecords } from '../../shared/patientCsv';
+
+/**
+ * Load patients from a CSV file on disk, parsing it as it is read.
+ * Throws if the file cannot be read or any row fails validation.
+ */
+export async function loadPatientsFromCsv(filePath: string): Promise<Patient[]> {
+  const parser = new CsvParser();
+  const records: string[][] = [];
+  for await (const chunk of createReadStream(filePath, { encoding: 'utf-8' })) {
+    records.push(...parser.push(chunk as string));
+  }
+  records.push(...parser.end());
+  return parsePatientRecords(records);
+}
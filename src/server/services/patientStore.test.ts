@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Patient } from '../../shared/types';
+import { PatientStore } from './patientStore';
+
+const createPatient = (patientId: string, overrides: Partial<Patient> = {}): Patient => ({
+  patientId,
+  patientName: 'Test Patient',
+  dischargeDate: '2026-01-14',
+  readmissionRiskScore: 'Low',
+  ...overrides,
+} as Patient);
+
+describe('PatientStore', () => {
+  let dataDir: string;
+  let patientsFile: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-patients-'));
+    patientsFile = path.join(dataDir, 'patients.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should persist imported patients across reopening, latest record per MRN', () => {
+    const store = PatientStore.open(patientsFile);
+    store.recordImport([createPatient('MRN0001'), createPatient('MRN0002')]);
+    store.recordImport([createPatient('MRN0001', { readmissionRiskScore: 'High' })]);
+
+    const reopened = PatientStore.open(patientsFile);
+
+    expect(reopened.getImportedPatients().map((p) => [p.patientId, p.readmissionRiskScore])).toEqual([
+      ['MRN0001', 'High'],
+      ['MRN0002', 'Low'],
+    ]);
+  });
+
+  it('should not write an import that changes nothing', () => {
+    const store = PatientStore.open(patientsFile);
+
+    store.recordImport([]);
+
+    expect(fs.existsSync(patientsFile)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+import { Patient } from '../../shared/types';
+import { mergePatients } from '../../shared/patientImport';
+import { writeFileAtomic } from './durableFile';
+
+/**
+ * Holds patients added or updated by imports, optionally backed by a JSON
+ * file, so they survive a restart.
+ *
+ * The patient data file stays as it was; at startup the imported records are
+ * merged over it by MRN. The file is rewritten atomically on every import.
+ */
+export class PatientStore {
+  private imported: Patient[];
+
+  constructor(
+    private readonly filePath?: string,
+    initialImported: Patient[] = []
+  ) {
+    this.imported = [...initialImported];
+  }
+
+  /**
+   * Load imported patients from the backing file (created on the first import).
+   */
+  static open(filePath: string): PatientStore {
+    if (!fs.existsSync(filePath)) {
+      return new PatientStore(filePath);
+    }
+    return new PatientStore(filePath, JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Patient[]);
+  }
+
+  /**
+   * Get every patient imported so far, latest record per MRN.
+   */
+  getImportedPatients(): Patient[] {
+    return [...this.imported];
+  }
+
+  /**
+   * Record imported patients, replacing earlier imports of the same MRNs.
+   */
+  recordImport(patients: Patient[]): void {
+    const { patients: imported, result } = mergePatients(this.imported, patients);
+    if (result.added.length > 0 || result.updated.length > 0) {
+      this.imported = imported;
+      this.save();
+    }
+  }
+
+  /**
+   * Replace the imported patients with a backup's. Patients in the data file
+   * but not in the backup come back at the next restart.
+   */
+  restore(patients: Patient[]): void {
+    this.imported = [...patients];
+    this.save();
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeFileAtomic(this.filePath, JSON.stringify(this.imported, null, 2) + '\n');
+    }
+  }
+}
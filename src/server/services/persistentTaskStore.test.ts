@@ -0,0 +1,338 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Task } from '../../shared/types';
+import { PersistentTaskStore } from './persistentTaskStore';
+
+const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task_test_123',
+  patientId: 'MRN0001',
+  type: 'medication_reconciliation',
+  status: 'pending',
+  dueStart: new Date('2026-01-14T10:00:00Z'),
+  dueEnd: new Date('2026-01-15T10:00:00Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-01-14T12:00:00Z');
+
+const storedNote = (id: string, text: string) => ({ id, text, author: 'nurse-1', createdAt: NOW.toISOString() });
+
+describe('PersistentTaskStore', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const snapshotPath = () => path.join(dataDir, 'tasks.json');
+  const journalPath = () => path.join(dataDir, 'tasks.journal.jsonl');
+
+  it('should seed tasks and write a snapshot when none exists', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+
+    expect(store.getTaskCount()).toBe(1);
+    expect(fs.existsSync(snapshotPath())).toBe(true);
+  });
+
+  it('should not reseed when a snapshot exists', () => {
+    PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    const reopened = PersistentTaskStore.open(dataDir, () => [
+      createTestTask({ id: 'a' }),
+      createTestTask({ id: 'b' }),
+    ]);
+
+    expect(reopened.getTaskCount()).toBe(1);
+  });
+
+  it('should persist completions across reopen', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    store.completeTask('task_test_123', 'nurse-1', NOW);
+
+    const reopened = PersistentTaskStore.open(dataDir);
+    const task = reopened.getTaskById('task_test_123');
+
+    expect(task?.status).toBe('completed');
+    expect(task?.completedBy).toBe('nurse-1');
+    expect(task?.completedAt).toEqual(NOW);
+    expect(task?.dueStart).toBeInstanceOf(Date);
+  });
+
+  it('should persist notes across reopen', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    store.addTaskNote('task_test_123', 'Left voicemail', 'nurse-1', NOW);
+    store.addTaskNote('task_test_123', 'Patient called back', 'nurse-2', NOW);
+
+    const notes = PersistentTaskStore.open(dataDir).getTaskById('task_test_123')?.notes;
+
+    expect(notes?.map((n) => n.text)).toEqual(['Left voicemail', 'Patient called back']);
+    expect(notes?.[0]).toMatchObject({ author: 'nurse-1', createdAt: NOW });
+  });
+
+  it('should persist note edits and redactions across reopen', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    const first = store.addTaskNote('task_test_123', 'Spoke to daughter', 'nurse-1', NOW).note!;
+    const second = store.addTaskNote('task_test_123', 'Wrong patient', 'nurse-1', NOW).note!;
+    store.editTaskNote('task_test_123', first.id, 'Spoke to son', 'nurse-1', NOW);
+    store.redactTaskNote('task_test_123', second.id, 'supervisor', 'Entered on wrong chart', NOW);
+
+    const notes = PersistentTaskStore.open(dataDir).getTaskById('task_test_123')?.notes;
+
+    expect(notes?.[0].text).toBe('Spoke to son');
+    expect(notes?.[0].changes?.[0]).toMatchObject({ action: 'edited', previousText: 'Spoke to daughter', changedAt: NOW });
+    expect(notes?.[1]).toMatchObject({ text: '', redacted: true });
+    expect(fs.readFileSync(snapshotPath(), 'utf-8')).not.toContain('Wrong patient');
+  });
+
+  it('should migrate single-string notes from a version 1 snapshot', () => {
+    const legacySnapshot = {
+      version: 1,
+      seq: 0,
+      tasks: [{ ...createTestTask(), dueStart: '2026-01-14T10:00:00.000Z', dueEnd: '2026-01-15T10:00:00.000Z', notes: 'Old note' }],
+    };
+    fs.writeFileSync(snapshotPath(), JSON.stringify(legacySnapshot));
+
+    const store = PersistentTaskStore.open(dataDir);
+    const snapshot = JSON.parse(fs.readFileSync(snapshotPath(), 'utf-8'));
+
+    expect(store.getTaskById('task_test_123')?.notes).toEqual([
+      expect.objectContaining({ text: 'Old note', legacy: true, author: 'Unknown' }),
+    ]);
+    expect(snapshot.version).toBe(2);
+    expect(snapshot.tasks[0].notes[0].text).toBe('Old note');
+  });
+
+  it('should persist contact attempts across reopen', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask({ type: 'contact_patient' })]);
+    store.logContactAttempt(
+      'task_test_123',
+      { channel: 'phone', destination: '555-1234', outcome: 'reached', attemptedBy: 'nurse-1' },
+      NOW
+    );
+
+    const reopened = PersistentTaskStore.open(dataDir);
+    const attempts = reopened.getTaskById('task_test_123')?.contactAttempts;
+
+    expect(attempts).toHaveLength(1);
+    expect(attempts?.[0].attemptedAt).toEqual(NOW);
+    expect(attempts?.[0].outcome).toBe('reached');
+  });
+
+  it('should persist assignments across reopen and replay them from the journal', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask(), createTestTask({ id: 'task_2' })]);
+    store.assignTasks([{ taskId: 'task_test_123', assignedTo: 'nurse-1' }], undefined, NOW);
+
+    fs.writeFileSync(
+      journalPath(),
+      JSON.stringify({
+        seq: 2,
+        op: 'assignTasks',
+        assignments: [{ taskId: 'task_2', assignedTo: 'nurse-2' }],
+        at: NOW.toISOString(),
+      }) + '\n'
+    );
+    const reopened = PersistentTaskStore.open(dataDir);
+
+    expect(reopened.getTaskById('task_test_123')).toMatchObject({ assignedTo: 'nurse-1', assignedAt: NOW });
+    expect(reopened.getTaskById('task_2')?.assignedTo).toBe('nurse-2');
+  });
+
+  it('should persist escalations across reopen and replay them from the journal', () => {
+    const escalation = { level: 1, notify: 'assignee' as const, recipients: ['nurse-1'], escalatedAt: NOW };
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask(), createTestTask({ id: 'task_2' })]);
+    store.escalateTasks([{ taskId: 'task_test_123', escalations: [escalation] }]);
+
+    fs.writeFileSync(
+      journalPath(),
+      JSON.stringify({
+        seq: 2,
+        op: 'escalateTasks',
+        plans: [{ taskId: 'task_2', escalations: [{ ...escalation, escalatedAt: NOW.toISOString() }] }],
+      }) + '\n'
+    );
+    const reopened = PersistentTaskStore.open(dataDir);
+
+    expect(reopened.getTaskById('task_test_123')?.escalations).toEqual([escalation]);
+    expect(reopened.getTaskById('task_2')?.escalations).toEqual([escalation]);
+  });
+
+  it('should persist status changes across reopen and replay them from the journal', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask(), createTestTask({ id: 'task_2' })]);
+    store.changeTaskStatus('task_test_123', { action: 'cancelled', reason: 'deceased', changedBy: 'nurse-1' }, NOW);
+
+    fs.writeFileSync(
+      journalPath(),
+      JSON.stringify({
+        seq: 2,
+        op: 'changeTaskStatus',
+        taskId: 'task_2',
+        change: { action: 'not_applicable', reason: 'other', note: 'Seen by cardiology', changedBy: 'nurse-2' },
+        at: NOW.toISOString(),
+      }) + '\n'
+    );
+    const reopened = PersistentTaskStore.open(dataDir);
+
+    expect(reopened.getTaskById('task_test_123')?.statusChanges).toEqual([
+      { action: 'cancelled', reason: 'deceased', fromStatus: 'pending', changedAt: NOW, changedBy: 'nurse-1' },
+    ]);
+    expect(reopened.getTaskById('task_2')).toMatchObject({ status: 'not_applicable', version: 1 });
+  });
+
+  it('should persist reschedules across reopen and replay them from the journal', () => {
+    const dueStart = new Date('2026-01-14T16:00:00Z');
+    const dueEnd = new Date('2026-01-15T16:00:00Z');
+    const store = PersistentTaskStore.open(dataDir, () => [
+      createTestTask({ dischargeTimeUnknown: true }),
+      createTestTask({ id: 'task_2' }),
+    ]);
+    store.rescheduleTasks([{ taskId: 'task_test_123', dueStart, dueEnd }]);
+
+    fs.writeFileSync(
+      journalPath(),
+      JSON.stringify({
+        seq: 2,
+        op: 'rescheduleTasks',
+        reschedules: [{ taskId: 'task_2', dueStart: dueStart.toISOString(), dueEnd: dueEnd.toISOString() }],
+      }) + '\n'
+    );
+    const reopened = PersistentTaskStore.open(dataDir);
+
+    expect(reopened.getTaskById('task_test_123')).toMatchObject({ dueStart, dueEnd, version: 1 });
+    expect(reopened.getTaskById('task_test_123')?.dischargeTimeUnknown).toBeUndefined();
+    expect(reopened.getTaskById('task_2')).toMatchObject({ dueStart, dueEnd, version: 1 });
+  });
+
+  it('should replay a journaled contact attempt with its original ID', () => {
+    PersistentTaskStore.open(dataDir, () => [createTestTask({ type: 'contact_patient' })]);
+    const attempt = {
+      id: 'attempt_1',
+      attemptedAt: NOW.toISOString(),
+      channel: 'phone',
+      destination: '555-1234',
+      outcome: 'reached',
+      attemptedBy: 'nurse-1',
+    };
+    fs.writeFileSync(
+      journalPath(),
+      [
+        JSON.stringify({ seq: 1, op: 'logContactAttempt', taskId: 'task_test_123', attempt }),
+        JSON.stringify({ seq: 2, op: 'completeTask', taskId: 'task_test_123', completedBy: 'nurse-1', at: NOW.toISOString() }),
+      ].join('\n') + '\n'
+    );
+
+    const task = PersistentTaskStore.open(dataDir).getTaskById('task_test_123');
+
+    expect(task?.contactAttempts?.[0].id).toBe('attempt_1');
+    expect(task?.status).toBe('completed');
+  });
+
+  it('should not journal failed mutations', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    const result = store.completeTask('missing', 'nurse-1', NOW);
+
+    expect(result.success).toBe(false);
+    expect(fs.existsSync(journalPath())).toBe(false);
+  });
+
+  it('should persist versions and refuse stale changes without journaling them', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    store.addTaskNote('task_test_123', 'Pharmacy closed', 'nurse-1', NOW, 0);
+
+    const stale = store.completeTask('task_test_123', 'nurse-2', NOW, 0);
+
+    expect(stale.conflict?.version).toBe(1);
+    expect(fs.existsSync(journalPath())).toBe(false);
+    expect(PersistentTaskStore.open(dataDir).getTaskById('task_test_123')).toMatchObject({ version: 1, status: 'pending' });
+  });
+
+  it('should replay journal entries newer than the snapshot', () => {
+    PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+
+    // Simulate a crash after the journal append but before the snapshot
+    fs.writeFileSync(
+      journalPath(),
+      [
+        JSON.stringify({ seq: 1, op: 'completeTask', taskId: 'task_test_123', completedBy: 'nurse-1', at: NOW.toISOString() }),
+        JSON.stringify({ seq: 2, op: 'addTaskNote', taskId: 'task_test_123', note: storedNote('note_1', 'Reached patient') }),
+      ].join('\n') + '\n'
+    );
+
+    const reopened = PersistentTaskStore.open(dataDir);
+    const task = reopened.getTaskById('task_test_123');
+
+    expect(task?.status).toBe('completed');
+    expect(task?.notes?.[0]).toMatchObject({ id: 'note_1', text: 'Reached patient', createdAt: NOW });
+    expect(task?.version).toBe(2);
+    expect(fs.existsSync(journalPath())).toBe(false);
+  });
+
+  it('should replay a journaled note from before note history as a legacy note', () => {
+    PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    fs.writeFileSync(
+      journalPath(),
+      JSON.stringify({ seq: 1, op: 'addTaskNotes', taskId: 'task_test_123', notes: 'Reached patient' }) + '\n'
+    );
+
+    const notes = PersistentTaskStore.open(dataDir).getTaskById('task_test_123')?.notes;
+    expect(notes).toEqual([expect.objectContaining({ text: 'Reached patient', legacy: true })]);
+  });
+
+  it('should skip journal entries already folded into the snapshot', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    store.addTaskNote('task_test_123', 'Second note', 'nurse-1', NOW);
+
+    // Simulate a crash after the snapshot rename but before the journal was removed
+    fs.writeFileSync(
+      journalPath(),
+      JSON.stringify({ seq: 1, op: 'addTaskNote', taskId: 'task_test_123', note: storedNote('stale', 'Stale note') }) + '\n'
+    );
+
+    const reopened = PersistentTaskStore.open(dataDir);
+    expect(reopened.getTaskById('task_test_123')?.notes?.map((n) => n.text)).toEqual(['Second note']);
+  });
+
+  it('should ignore a torn trailing journal line', () => {
+    PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    fs.writeFileSync(
+      journalPath(),
+      JSON.stringify({ seq: 1, op: 'addTaskNote', taskId: 'task_test_123', note: storedNote('kept', 'Kept') }) +
+        '\n{"seq":2,"op":"addT'
+    );
+
+    const reopened = PersistentTaskStore.open(dataDir);
+    expect(reopened.getTaskById('task_test_123')?.notes?.map((n) => n.text)).toEqual(['Kept']);
+  });
+
+  it('should reject a corrupt journal line in the middle', () => {
+    PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    fs.writeFileSync(
+      journalPath(),
+      'garbage\n' + JSON.stringify({ seq: 1, op: 'addTaskNotes', taskId: 'task_test_123', notes: 'x' }) + '\n'
+    );
+
+    expect(() => PersistentTaskStore.open(dataDir)).toThrow(/Corrupt task journal/);
+  });
+
+  it('should snapshot bulk mutations', () => {
+    const store = PersistentTaskStore.open(dataDir);
+    store.addTasks([createTestTask({ id: 'a' }), createTestTask({ id: 'b' })]);
+
+    expect(PersistentTaskStore.open(dataDir).getTaskCount()).toBe(2);
+
+    store.clear();
+    expect(PersistentTaskStore.open(dataDir).getTaskCount()).toBe(0);
+  });
+
+  it('should not leave temp files behind', () => {
+    const store = PersistentTaskStore.open(dataDir, () => [createTestTask()]);
+    store.completeTask('task_test_123', undefined, NOW);
+
+    expect(fs.readdirSync(dataDir)).toEqual(['tasks.json']);
+  });
+});
@@ -0,0 +1,460 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  ContactAttemptInput,
+  Task,
+  TaskAssignment,
+  TaskEscalationPlan,
+  TaskReschedule,
+  TaskStatusChangeInput,
+} from '../../shared/types';
+import {
+  TaskCompletionResult,
+  TaskStatusChangeResult,
+  TaskNoteResult,
+  ContactAttemptResult,
+  TaskAssignmentResult,
+  TaskEscalationResult,
+  TaskRescheduleResult,
+  TaskAddResult,
+  StoredTask,
+  StoredTaskNote,
+  StoredContactAttempt,
+  StoredTaskEscalation,
+  LEGACY_NOTE_AUTHOR,
+  deserializeTask,
+  deserializeTaskNote,
+  serializeTaskNote,
+  deserializeContactAttempt,
+  serializeTaskEscalation,
+  deserializeTaskEscalation,
+  createTaskNote,
+  createContactAttempt,
+  completeTaskInCollection,
+  changeTaskStatusInCollection,
+  addNoteToTaskInCollection,
+  editNoteInCollection,
+  redactNoteInCollection,
+  logContactAttemptInCollection,
+  assignTasksInCollection,
+  escalateTasksInCollection,
+  rescheduleTasksInCollection,
+} from '../../shared/taskEngine';
+import { TaskStore } from './taskStateManager';
+import { writeFileAtomic, appendLineDurable, readJsonLines } from './durableFile';
+
+const SNAPSHOT_FILE = 'tasks.json';
+const JOURNAL_FILE = 'tasks.journal.jsonl';
+const SNAPSHOT_VERSION = 2;
+// Version 1 snapshots store notes as a single string; they are migrated on load
+const SUPPORTED_SNAPSHOT_VERSIONS = [1, SNAPSHOT_VERSION];
+
+type StoredTaskReschedule = Omit<TaskReschedule, 'dueStart' | 'dueEnd'> & { dueStart: string; dueEnd: string };
+
+/**
+ * A single journaled mutation. Entries are appended (and fsynced) before the
+ * mutation is applied, so an acknowledged change survives a crash even if the
+ * snapshot that follows it never reaches disk.
+ */
+export type TaskJournalEntry =
+  | { seq: number; op: 'completeTask'; taskId: string; completedBy?: string; at: string }
+  | { seq: number; op: 'changeTaskStatus'; taskId: string; change: TaskStatusChangeInput; at: string }
+  | { seq: number; op: 'addTaskNote'; taskId: string; note: StoredTaskNote }
+  | { seq: number; op: 'editTaskNote'; taskId: string; noteId: string; text: string; editedBy: string; at: string }
+  | { seq: number; op: 'redactTaskNote'; taskId: string; noteId: string; redactedBy: string; reason: string; at: string }
+  // Written before note history; the text is replayed as a new note
+  | { seq: number; op: 'addTaskNotes'; taskId: string; notes: string }
+  | { seq: number; op: 'logContactAttempt'; taskId: string; attempt: StoredContactAttempt }
+  | { seq: number; op: 'assignTasks'; assignments: TaskAssignment[]; reason?: string; at: string }
+  | { seq: number; op: 'escalateTasks'; plans: { taskId: string; escalations: StoredTaskEscalation[] }[] }
+  | { seq: number; op: 'rescheduleTasks'; reschedules: StoredTaskReschedule[] };
+
+interface TaskSnapshot {
+  version: number;
+  seq: number;                    // Last journal sequence number folded into this snapshot
+  tasks: StoredTask[];
+}
+
+/**
+ * File-backed task store.
+ *
+ * Every completion, status change, note change, contact attempt, assignment, escalation
+ * and reschedule is first appended to an fsynced journal, then applied in memory, then
+ * folded into an atomically replaced snapshot. On open, the snapshot is loaded and any journal entries
+ * newer than it are replayed, so no acknowledged mutation is lost across
+ * restarts or crashes.
+ */
+export class PersistentTaskStore extends TaskStore {
+  private readonly snapshotPath: string;
+  private readonly journalPath: string;
+  private seq = 0;
+
+  private constructor(dataDir: string) {
+    super();
+    this.snapshotPath = path.join(dataDir, SNAPSHOT_FILE);
+    this.journalPath = path.join(dataDir, JOURNAL_FILE);
+  }
+
+  /**
+   * Open (or create) a store in the given directory.
+   *
+   * @param dataDir - Directory holding the snapshot and journal
+   * @param seed - Produces the initial tasks when no snapshot exists yet
+   */
+  static open(dataDir: string, seed: () => Task[] = () => []): PersistentTaskStore {
+    fs.mkdirSync(dataDir, { recursive: true });
+    const store = new PersistentTaskStore(dataDir);
+
+    if (fs.existsSync(store.snapshotPath)) {
+      const snapshot = JSON.parse(fs.readFileSync(store.snapshotPath, 'utf-8')) as TaskSnapshot;
+      if (!SUPPORTED_SNAPSHOT_VERSIONS.includes(snapshot.version)) {
+        throw new Error(`Unsupported task snapshot version ${snapshot.version} in ${store.snapshotPath}`);
+      }
+      store.tasks = snapshot.tasks.map(deserializeTask);
+      store.seq = snapshot.seq;
+    } else {
+      store.tasks = seed();
+    }
+
+    for (const entry of readJsonLines<TaskJournalEntry>(store.journalPath, 'task journal')) {
+      if (entry.seq > store.seq) {
+        store.replay(entry);
+        store.seq = entry.seq;
+      }
+    }
+
+    store.writeSnapshot();
+    return store;
+  }
+
+  /**
+   * Complete a task, journaling the change before acknowledging it.
+   */
+  completeTask(
+    taskId: string,
+    completedBy?: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskCompletionResult {
+    const { tasks, result } = completeTaskInCollection(this.tasks, taskId, completedBy, now, expectedVersion);
+    if (!result.success) {
+      return result;
+    }
+
+    this.appendJournal({ seq: this.seq + 1, op: 'completeTask', taskId, completedBy, at: now.toISOString() });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Close or reopen a task, journaling the change before acknowledging it.
+   */
+  changeTaskStatus(
+    taskId: string,
+    input: TaskStatusChangeInput,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskStatusChangeResult {
+    const { tasks, result } = changeTaskStatusInCollection(this.tasks, taskId, input, now, expectedVersion);
+    if (!result.success) {
+      return result;
+    }
+
+    const { action, reason, note, changedBy } = input;
+    this.appendJournal({
+      seq: this.seq + 1,
+      op: 'changeTaskStatus',
+      taskId,
+      change: { action, reason, note, changedBy },
+      at: now.toISOString(),
+    });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Append a note, journaling the change before acknowledging it.
+   */
+  addTaskNote(
+    taskId: string,
+    text: string,
+    author: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskNoteResult {
+    const note = createTaskNote(text, author, now);
+    const { tasks, result } = addNoteToTaskInCollection(this.tasks, taskId, note, expectedVersion);
+    if (!result.success) {
+      return result;
+    }
+
+    this.appendJournal({ seq: this.seq + 1, op: 'addTaskNote', taskId, note: serializeTaskNote(note) });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Edit a note, journaling the change before acknowledging it.
+   */
+  editTaskNote(
+    taskId: string,
+    noteId: string,
+    text: string,
+    editedBy: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskNoteResult {
+    const { tasks, result } = editNoteInCollection(this.tasks, taskId, noteId, text, editedBy, now, expectedVersion);
+    if (!result.success) {
+      return result;
+    }
+
+    this.appendJournal({ seq: this.seq + 1, op: 'editTaskNote', taskId, noteId, text, editedBy, at: now.toISOString() });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Redact a note, journaling the change before acknowledging it.
+   */
+  redactTaskNote(
+    taskId: string,
+    noteId: string,
+    redactedBy: string,
+    reason: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskNoteResult {
+    const { tasks, result } = redactNoteInCollection(
+      this.tasks,
+      taskId,
+      noteId,
+      redactedBy,
+      reason,
+      now,
+      expectedVersion
+    );
+    if (!result.success) {
+      return result;
+    }
+
+    this.appendJournal({
+      seq: this.seq + 1,
+      op: 'redactTaskNote',
+      taskId,
+      noteId,
+      redactedBy,
+      reason,
+      at: now.toISOString(),
+    });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Log a contact attempt, journaling the change before acknowledging it.
+   */
+  logContactAttempt(
+    taskId: string,
+    input: ContactAttemptInput,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): ContactAttemptResult {
+    const attempt = createContactAttempt(input, now);
+    const { tasks, result } = logContactAttemptInCollection(this.tasks, taskId, attempt, expectedVersion);
+    if (!result.success) {
+      return result;
+    }
+
+    this.appendJournal({
+      seq: this.seq + 1,
+      op: 'logContactAttempt',
+      taskId,
+      attempt: { ...attempt, attemptedAt: attempt.attemptedAt.toISOString() },
+    });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Change task owners, journaling the change before acknowledging it.
+   */
+  assignTasks(assignments: TaskAssignment[], reason?: string, now: Date = new Date()): TaskAssignmentResult {
+    const { tasks, result } = assignTasksInCollection(this.tasks, assignments, reason, now);
+    if (!result.success) {
+      return result;
+    }
+
+    // Versions were checked above; replay reproduces them, so they are not journaled
+    this.appendJournal({
+      seq: this.seq + 1,
+      op: 'assignTasks',
+      assignments: assignments.map(({ taskId, assignedTo }) => ({ taskId, assignedTo })),
+      reason,
+      at: now.toISOString(),
+    });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Record escalations, journaling the change before acknowledging it.
+   */
+  escalateTasks(plans: TaskEscalationPlan[]): TaskEscalationResult {
+    const { tasks, result } = escalateTasksInCollection(this.tasks, plans);
+    if (!result.success) {
+      return result;
+    }
+
+    this.appendJournal({
+      seq: this.seq + 1,
+      op: 'escalateTasks',
+      plans: plans.map(({ taskId, escalations }) => ({ taskId, escalations: escalations.map(serializeTaskEscalation) })),
+    });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  /**
+   * Move task windows, journaling the change before acknowledging it.
+   */
+  rescheduleTasks(reschedules: TaskReschedule[]): TaskRescheduleResult {
+    const { tasks, result } = rescheduleTasksInCollection(this.tasks, reschedules);
+    if (!result.success) {
+      return result;
+    }
+
+    this.appendJournal({
+      seq: this.seq + 1,
+      op: 'rescheduleTasks',
+      reschedules: reschedules.map((reschedule) => ({
+        ...reschedule,
+        dueStart: reschedule.dueStart.toISOString(),
+        dueEnd: reschedule.dueEnd.toISOString(),
+      })),
+    });
+    this.tasks = tasks;
+    this.checkpoint();
+    return result;
+  }
+
+  addTasks(newTasks: Task[]): TaskAddResult {
+    const result = super.addTasks(newTasks);
+    if (result.added.length > 0) {
+      this.writeSnapshot();
+    }
+    return result;
+  }
+
+  setTasks(tasks: Task[]): void {
+    super.setTasks(tasks);
+    this.writeSnapshot();
+  }
+
+  importFromJson(json: string): void {
+    super.importFromJson(json);
+    this.writeSnapshot();
+  }
+
+  clear(): void {
+    super.clear();
+    this.writeSnapshot();
+  }
+
+  private replay(entry: TaskJournalEntry): void {
+    switch (entry.op) {
+      case 'completeTask':
+        this.applyReplayed(completeTaskInCollection(this.tasks, entry.taskId, entry.completedBy, new Date(entry.at)));
+        break;
+      case 'changeTaskStatus':
+        this.applyReplayed(changeTaskStatusInCollection(this.tasks, entry.taskId, entry.change, new Date(entry.at)));
+        break;
+      case 'addTaskNote':
+        this.applyReplayed(addNoteToTaskInCollection(this.tasks, entry.taskId, deserializeTaskNote(entry.note)));
+        break;
+      case 'editTaskNote':
+        this.applyReplayed(
+          editNoteInCollection(this.tasks, entry.taskId, entry.noteId, entry.text, entry.editedBy, new Date(entry.at))
+        );
+        break;
+      case 'redactTaskNote':
+        this.applyReplayed(redactNoteInCollection(
+          this.tasks,
+          entry.taskId,
+          entry.noteId,
+          entry.redactedBy,
+          entry.reason,
+          new Date(entry.at)
+        ));
+        break;
+      case 'addTaskNotes': {
+        // The old entry has no author or time, so the note is flagged as legacy
+        const note = {
+          ...createTaskNote(entry.notes, LEGACY_NOTE_AUTHOR),
+          id: `note_legacy_${entry.taskId}_${entry.seq}`,
+          legacy: true,
+        };
+        this.applyReplayed(addNoteToTaskInCollection(this.tasks, entry.taskId, note));
+        break;
+      }
+      case 'logContactAttempt':
+        this.applyReplayed(
+          logContactAttemptInCollection(this.tasks, entry.taskId, deserializeContactAttempt(entry.attempt))
+        );
+        break;
+      case 'assignTasks':
+        this.applyReplayed(assignTasksInCollection(this.tasks, entry.assignments, entry.reason, new Date(entry.at)));
+        break;
+      case 'escalateTasks':
+        this.applyReplayed(escalateTasksInCollection(this.tasks, entry.plans.map(({ taskId, escalations }) =>
+          ({ taskId, escalations: escalations.map(deserializeTaskEscalation) }))));
+        break;
+      case 'rescheduleTasks':
+        this.applyReplayed(rescheduleTasksInCollection(this.tasks, entry.reschedules.map((reschedule) =>
+          ({ ...reschedule, dueStart: new Date(reschedule.dueStart), dueEnd: new Date(reschedule.dueEnd) }))));
+        break;
+    }
+  }
+
+  private applyReplayed({ tasks, result }: { tasks: Task[]; result: { success: boolean } }): void {
+    if (result.success) {
+      this.tasks = tasks;
+    }
+  }
+
+  private appendJournal(entry: TaskJournalEntry): void {
+    appendLineDurable(this.journalPath, JSON.stringify(entry));
+    this.seq = entry.seq;
+  }
+
+  /**
+   * Fold the journal into a fresh snapshot. The mutation is already durable in
+   * the journal, so a failed snapshot is logged rather than surfaced; the
+   * journal is kept and replayed on the next open.
+   */
+  private checkpoint(): void {
+    try {
+      this.writeSnapshot();
+    } catch (error) {
+      console.error('Failed to write task snapshot; journal retained for replay:', error);
+    }
+  }
+
+  private writeSnapshot(): void {
+    const snapshot = {
+      version: SNAPSHOT_VERSION,
+      seq: this.seq,
+      tasks: this.tasks,
+    };
+    writeFileAtomic(this.snapshotPath, JSON.stringify(snapshot, null, 2));
+    fs.rmSync(this.journalPath, { force: true });
+  }
+}
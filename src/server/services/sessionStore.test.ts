@@ -0,0 +1,34 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { SessionStore } from './sessionStore';
+
+const NOW = new Date('2026-01-14T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+describe('SessionStore', () => {
+  it('should resolve a token to its user', () => {
+    const sessions = new SessionStore();
+    const token = sessions.create('maria.lopez', NOW);
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(sessions.getUserId(token, NOW)).toBe('maria.lopez');
+    expect(sessions.getUserId('unknown', NOW)).toBeUndefined();
+  });
+
+  it('should expire sessions after their lifetime', () => {
+    const sessions = new SessionStore(HOUR);
+    const token = sessions.create('maria.lopez', NOW);
+
+    expect(sessions.getUserId(token, new Date(NOW.getTime() + HOUR - 1))).toBe('maria.lopez');
+    expect(sessions.getUserId(token, new Date(NOW.getTime() + HOUR))).toBeUndefined();
+  });
+
+  it('should end a revoked session', () => {
+    const sessions = new SessionStore();
+    const token = sessions.create('maria.lopez', NOW);
+
+    sessions.revoke(token);
+
+    expect(sessions.getUserId(token, NOW)).toBeUndefined();
+  });
+});
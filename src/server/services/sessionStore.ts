@@ -0,0 +1,50 @@
+import { randomBytes } from 'node:crypto';
+
+const DEFAULT_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface Session {
+  userId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Signed-in sessions, keyed by an opaque bearer token.
+ *
+ * Sessions live in memory only, so everyone signs in again after a restart.
+ */
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+
+  constructor(private readonly ttlMs: number = DEFAULT_SESSION_TTL_MS) {}
+
+  /**
+   * Start a session for a user, returning its token.
+   */
+  create(userId: string, now: Date = new Date()): string {
+    const token = randomBytes(32).toString('hex');
+    this.sessions.set(token, { userId, expiresAt: new Date(now.getTime() + this.ttlMs) });
+    return token;
+  }
+
+  /**
+   * Get the user signed in with a token, or undefined if the token is unknown or expired.
+   */
+  getUserId(token: string, now: Date = new Date()): string | undefined {
+    const session = this.sessions.get(token);
+    if (!session) {
+      return undefined;
+    }
+    if (session.expiresAt <= now) {
+      this.sessions.delete(token);
+      return undefined;
+    }
+    return session.userId;
+  }
+
+  /**
+   * End a session.
+   */
+  revoke(token: string): void {
+    this.sessions.delete(token);
+  }
+}
@@ -0,0 +1,175 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Task, TaskEvent } from '../../shared/types';
+import { ManualClock, systemClock } from './clock';
+import { TaskEventScheduler } from './taskEventScheduler';
+import { TaskStore } from './taskStateManager';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-01-14T10:00:00Z');
+
+const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task_1',
+  patientId: 'MRN0001',
+  type: 'medication_reconciliation',
+  status: 'pending',
+  dueStart: START,
+  dueEnd: new Date(START.getTime() + 24 * HOUR),
+  ...overrides,
+});
+
+describe('TaskEventScheduler', () => {
+  let dataDir: string;
+  let filePath: string;
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-events-'));
+    filePath = path.join(dataDir, 'task-events.jsonl');
+    clock = new ManualClock(new Date(START.getTime() - HOUR));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should emit each event once, as its boundary passes', () => {
+    const scheduler = new TaskEventScheduler(new TaskStore([createTestTask()]), clock);
+
+    expect(scheduler.runOnce()).toEqual([]);
+    clock.set(START);
+    expect(scheduler.runOnce()).toEqual([
+      { seq: 1, type: 'task.opened', taskId: 'task_1', patientId: 'MRN0001', at: START, emittedAt: START },
+    ]);
+    expect(scheduler.runOnce()).toEqual([]);
+
+    clock.advance(21 * HOUR);
+    expect(scheduler.runOnce().map((e) => [e.seq, e.type])).toEqual([[2, 'task.due_soon']]);
+    clock.advance(4 * HOUR);
+    expect(scheduler.runOnce().map((e) => [e.seq, e.type])).toEqual([[3, 'task.overdue']]);
+  });
+
+  it('should emit only the latest boundary when several have passed', () => {
+    const scheduler = new TaskEventScheduler(new TaskStore([createTestTask()]), clock);
+
+    clock.set(new Date(START.getTime() + 25 * HOUR));
+
+    expect(scheduler.runOnce().map((e) => [e.seq, e.type])).toEqual([[1, 'task.overdue']]);
+  });
+
+  it('should emit only overdue when a long-overdue task is reopened', () => {
+    const taskStore = new TaskStore([createTestTask()]);
+    const scheduler = new TaskEventScheduler(taskStore, clock);
+    clock.set(new Date(START.getTime() + 25 * HOUR));
+    scheduler.runOnce();
+    taskStore.changeTaskStatus('task_1', { action: 'cancelled', reason: 'duplicate', changedBy: 'nurse-1' }, clock.now());
+
+    clock.advance(48 * HOUR);
+    taskStore.changeTaskStatus('task_1', { action: 'reopened', reason: 'closed_in_error', changedBy: 'nurse-1' }, clock.now());
+
+    expect(scheduler.runOnce().map((e) => [e.seq, e.type, e.at])).toEqual([[2, 'task.overdue', clock.now()]]);
+    expect(scheduler.runOnce()).toEqual([]);
+  });
+
+  it('should tell subscribers until they unsubscribe, despite a failing listener', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const scheduler = new TaskEventScheduler(new TaskStore([createTestTask()]), clock);
+    const received: TaskEvent[] = [];
+    scheduler.subscribe(() => {
+      throw new Error('listener failed');
+    });
+    const unsubscribe = scheduler.subscribe((event) => received.push(event));
+
+    clock.set(START);
+    scheduler.runOnce();
+    unsubscribe();
+    clock.advance(24 * HOUR);
+    scheduler.runOnce();
+
+    expect(received.map((e) => e.type)).toEqual(['task.opened']);
+    expect(scheduler.getEvents(1).map((e) => e.type)).toEqual(['task.overdue']);
+  });
+
+  it('should not repeat events after a restart', () => {
+    const taskStore = new TaskStore([createTestTask()]);
+    clock.set(START);
+    TaskEventScheduler.open(filePath, taskStore, clock).runOnce();
+
+    const restarted = TaskEventScheduler.open(filePath, taskStore, clock);
+    expect(restarted.runOnce()).toEqual([]);
+    clock.advance(24 * HOUR);
+
+    expect(restarted.runOnce().map((e) => [e.seq, e.type])).toEqual([[2, 'task.overdue']]);
+  });
+
+  it('should forget superseded events and rewrite the file on open', () => {
+    const taskStore = new TaskStore([createTestTask(), createTestTask({ id: 'task_2' })]);
+    clock.set(START);
+    const scheduler = TaskEventScheduler.open(filePath, taskStore, clock);
+    scheduler.runOnce();
+    taskStore.completeTask('task_2', 'nurse-1', clock.now());
+    clock.advance(21 * HOUR);
+    scheduler.runOnce();
+
+    expect(scheduler.getEvents().map((e) => [e.taskId, e.type])).toEqual([['task_1', 'task.due_soon']]);
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(3);
+
+    const restarted = TaskEventScheduler.open(filePath, taskStore, clock);
+    expect(restarted.getEvents().map((e) => e.seq)).toEqual([3]);
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+    expect(restarted.runOnce()).toEqual([]);
+  });
+
+  it('should emit events again once a task is rescheduled, including across a restart', () => {
+    const taskStore = new TaskStore([createTestTask()]);
+    clock.set(new Date(START.getTime() + 25 * HOUR));
+    TaskEventScheduler.open(filePath, taskStore, clock).runOnce();
+
+    const dueEnd = new Date(START.getTime() + 30 * HOUR);
+    taskStore.rescheduleTasks([{ taskId: 'task_1', dueStart: START, dueEnd }]);
+    const restarted = TaskEventScheduler.open(filePath, taskStore, clock);
+    expect(restarted.runOnce().map((e) => [e.seq, e.type, e.at])).toEqual([[2, 'task.opened', START]]);
+    const dueSoon = new Date(dueEnd.getTime() - 4 * HOUR);
+    expect(restarted.getNextEventTime()).toEqual(dueSoon);
+
+    clock.set(dueSoon);
+    expect(restarted.runOnce().map((e) => [e.seq, e.type, e.at])).toEqual([[3, 'task.due_soon', dueSoon]]);
+    clock.set(dueEnd);
+    expect(restarted.runOnce().map((e) => [e.seq, e.type, e.at])).toEqual([[4, 'task.overdue', dueEnd]]);
+    expect(restarted.runOnce()).toEqual([]);
+  });
+
+  it('should not emit events for completed tasks', () => {
+    const taskStore = new TaskStore([createTestTask()]);
+    const scheduler = new TaskEventScheduler(taskStore, clock);
+    clock.set(START);
+    scheduler.runOnce();
+
+    taskStore.completeTask('task_1', 'nurse-1', clock.now());
+    clock.advance(48 * HOUR);
+
+    expect(scheduler.runOnce()).toEqual([]);
+    expect(scheduler.getNextEventTime()).toBeNull();
+    expect(scheduler.getEvents()).toEqual([]);
+  });
+
+  it('should wake at the next boundary once started', () => {
+    vi.useFakeTimers({ now: new Date(START.getTime() - 1000) });
+    const scheduler = new TaskEventScheduler(new TaskStore([createTestTask({ dueEnd: new Date(START.getTime() + HOUR) })]));
+    const received: string[] = [];
+    scheduler.subscribe((event) => received.push(event.type));
+
+    scheduler.start();
+    vi.advanceTimersByTime(1000);
+    expect(received).toEqual(['task.due_soon']);
+
+    vi.advanceTimersByTime(HOUR);
+    expect(received).toEqual(['task.due_soon', 'task.overdue']);
+    scheduler.stop();
+    expect(systemClock.now()).toEqual(new Date(START.getTime() + HOUR));
+  });
+});
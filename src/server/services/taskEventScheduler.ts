@@ -0,0 +1,179 @@
+import { Task, TaskEvent } from '../../shared/types';
+import {
+  StoredTaskEvent,
+  deserializeTaskEvent,
+  getLatestTaskEventKeys,
+  getNextTaskEventTime,
+  getTaskEventKey,
+  planTaskEvents,
+  serializeTaskEvent,
+} from '../../shared/taskEvents';
+import { TaskStore } from './taskStateManager';
+import { Clock, systemClock } from './clock';
+import { appendLineDurable, readJsonLines, writeFileAtomic } from './durableFile';
+
+/**
+ * Receives each timed event as it is emitted.
+ */
+export type TaskEventListener = (event: TaskEvent) => void;
+
+// Tasks can be added or completed between boundaries, so the scheduler never
+// sleeps longer than this before looking again
+const MAX_WAIT_MS = 60 * 1000;
+
+/**
+ * Emits `task.opened`, `task.due_soon` and `task.overdue` as tasks cross their
+ * window boundaries, waking at the next boundary rather than polling.
+ *
+ * Each event is emitted at most once per task and window: it is appended (and fsynced) to
+ * an optional JSON Lines file before listeners are told, and the file is read
+ * back on open, so a restart neither repeats events nor misses ones whose time
+ * passed while the server was down. When several boundaries have passed at
+ * once, only the latest is emitted. Completed tasks emit nothing further.
+ *
+ * Only each open task's latest event is kept, in memory and (rewritten on
+ * open) in the file; the rest can never be planned again.
+ */
+export class TaskEventScheduler {
+  private events: TaskEvent[] = [];
+  private emitted = new Set<string>();
+  private lastSeq = 0;
+  private listeners = new Set<TaskEventListener>();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly taskStore: TaskStore,
+    private readonly clock: Clock = systemClock,
+    private readonly filePath?: string
+  ) {}
+
+  /**
+   * Load emitted events from their file (created on the first event).
+   */
+  static open(filePath: string, taskStore: TaskStore, clock: Clock = systemClock): TaskEventScheduler {
+    const scheduler = new TaskEventScheduler(taskStore, clock, filePath);
+    for (const event of readJsonLines<StoredTaskEvent>(filePath, 'task event log').map(deserializeTaskEvent)) {
+      scheduler.remember(event);
+    }
+    const now = clock.now();
+    if (scheduler.prune(taskStore.getAllTasks(now), now)) {
+      const lines = scheduler.events.map((event) => `${JSON.stringify(serializeTaskEvent(event))}\n`);
+      writeFileAtomic(filePath, lines.join(''));
+    }
+    return scheduler;
+  }
+
+  /**
+   * Call a listener with every event emitted from now on.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: TaskEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the emitted events still kept, in order, optionally only those after
+   * a sequence number.
+   */
+  getEvents(afterSeq: number = 0): TaskEvent[] {
+    return this.events.filter((event) => event.seq > afterSeq);
+  }
+
+  /**
+   * Emit every event whose time has come.
+   *
+   * @returns The emitted events, oldest boundary first
+   */
+  runOnce(): TaskEvent[] {
+    const now = this.clock.now();
+    const tasks = this.taskStore.getAllTasks(now);
+    const emitted = planTaskEvents(tasks, this.emitted, now).map((planned) => {
+      const event: TaskEvent = { ...planned, seq: this.lastSeq + 1, emittedAt: now };
+      if (this.filePath) {
+        appendLineDurable(this.filePath, JSON.stringify(serializeTaskEvent(event)));
+      }
+      this.remember(event);
+      return event;
+    });
+    this.prune(tasks, now);
+
+    for (const event of emitted) {
+      for (const listener of this.listeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Task event listener failed on ${event.type} for ${event.taskId}:`, error);
+        }
+      }
+    }
+    return emitted;
+  }
+
+  /**
+   * Get when the next event is due, or null if none is pending.
+   */
+  getNextEventTime(): Date | null {
+    const now = this.clock.now();
+    return getNextTaskEventTime(this.taskStore.getAllTasks(now), this.emitted, now);
+  }
+
+  /**
+   * Run now and then at each boundary until stopped.
+   */
+  start(): void {
+    this.stop();
+    this.runOnce();
+    this.scheduleNext();
+  }
+
+  /**
+   * Stop waiting for the next boundary.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private scheduleNext(): void {
+    const next = this.getNextEventTime();
+    const wait = next ? Math.max(0, next.getTime() - this.clock.now().getTime()) : MAX_WAIT_MS;
+    this.timer = setTimeout(() => {
+      try {
+        this.runOnce();
+      } catch (error) {
+        console.error('Failed to emit task events; retrying:', error);
+      }
+      this.scheduleNext();
+    }, Math.min(wait, MAX_WAIT_MS));
+    this.timer.unref();
+  }
+
+  private remember(event: TaskEvent): void {
+    this.events.push(event);
+    this.emitted.add(getTaskEventKey(event.taskId, event.type, event.at));
+    this.lastSeq = Math.max(this.lastSeq, event.seq);
+  }
+
+  /**
+   * Forget events that can never be planned again: those on tasks that are no
+   * longer open, and those a task's later boundaries have superseded.
+   *
+   * @returns Whether any event was forgotten
+   */
+  private prune(tasks: Task[], now: Date): boolean {
+    const latest = getLatestTaskEventKeys(tasks, now);
+    const kept = this.events.filter((event) => latest.has(getTaskEventKey(event.taskId, event.type, event.at)));
+    if (kept.length === this.events.length) {
+      return false;
+    }
+    this.events = kept;
+    this.emitted = new Set(kept.map((event) => getTaskEventKey(event.taskId, event.type, event.at)));
+    return true;
+  }
+}
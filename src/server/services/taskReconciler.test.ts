@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Patient } from '../../shared/types';
+import { generateTasksForPatient } from '../../shared/taskEngine';
+import { ServerContext } from '../context';
+import { reconcileAllTasks } from './taskReconciler';
+import { TaskStore } from './taskStateManager';
+import { TaskRuleStore } from './taskRuleStore';
+import { EncounterStore } from './encounterStore';
+import { PatientStore } from './patientStore';
+import { MappingProfileStore } from './mappingProfileStore';
+import { AuditLog } from './auditLog';
+import { UserStore } from './userStore';
+import { SessionStore } from './sessionStore';
+import { LiveUpdateHub } from './liveUpdates';
+
+const PATIENT = {
+  patientId: 'MRN0001',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Pneumonia',
+  dischargeDisposition: 'Home',
+  readmissionRiskScore: 'High',
+  fallRisk: null,
+  preferredLanguage: 'English',
+  dob: '1960-01-01',
+} as Patient;
+
+const NOW = new Date('2026-01-14T16:00:00Z');
+
+describe('reconcileAllTasks', () => {
+  const createContext = (patient: Patient, generatedFor: Patient = PATIENT): ServerContext => ({
+    patients: [patient],
+    patientStore: new PatientStore(),
+    mappingProfiles: new MappingProfileStore(),
+    taskStore: new TaskStore(generateTasksForPatient(generatedFor)),
+    encounterStore: new EncounterStore(),
+    ruleStore: new TaskRuleStore(),
+    auditLog: new AuditLog(),
+    userStore: new UserStore(),
+    sessions: new SessionStore(),
+    liveUpdates: new LiveUpdateHub(),
+  });
+
+  it('should bring tasks in line with corrected patient data, once', () => {
+    const context = createContext({
+      ...PATIENT,
+      dischargeTime: '14:00',
+      dischargeDisposition: 'Skilled nursing facility',
+      readmissionRiskScore: 'Low',
+    });
+
+    expect(reconcileAllTasks(context, NOW)).toEqual({ added: 1, rescheduled: 3, cancelled: 1 });
+    expect(reconcileAllTasks(context, NOW)).toEqual({ added: 0, rescheduled: 0, cancelled: 0 });
+
+    const tasks = context.taskStore.getTasksByPatientId('MRN0001', NOW);
+    expect(tasks.find((t) => t.type === 'facility_handoff')?.dueStart).toEqual(new Date('2026-01-14T19:00:00Z'));
+    expect(tasks.find((t) => t.type === 'checkin_call')?.status).toBe('cancelled');
+  });
+
+  it('should audit reschedules and cancellations as the system', () => {
+    const context = createContext({ ...PATIENT, dischargeTime: '11:00', readmissionRiskScore: 'Low' });
+
+    reconcileAllTasks(context, NOW);
+
+    const [contactPatient] = context.auditLog.query({ action: 'task.rescheduled' }).reverse();
+    expect(contactPatient).toMatchObject({
+      actor: 'system',
+      before: { dueEnd: new Date('2026-01-15T15:00:00Z') },
+      after: { dueEnd: new Date('2026-01-15T16:00:00Z') },
+    });
+    expect(context.auditLog.query({ action: 'task.closed' })).toMatchObject([{
+      actor: 'system',
+      after: { status: 'cancelled', reason: 'not_indicated' },
+    }]);
+  });
+
+  it('should leave completed tasks alone', () => {
+    const context = createContext(PATIENT, { ...PATIENT, dischargeDisposition: 'Skilled nursing facility' });
+    const handoff = context.taskStore.getAllTasks(NOW).find((t) => t.type === 'facility_handoff')!;
+    context.taskStore.completeTask(handoff.id, 'nurse-1', NOW);
+
+    expect(reconcileAllTasks(context, NOW)).toEqual({ added: 0, rescheduled: 0, cancelled: 0 });
+    expect(context.taskStore.getTaskById(handoff.id)?.status).toBe('completed');
+  });
+});
@@ -0,0 +1,102 @@
+import { Patient, Task } from '../../shared/types';
+import { hasReconciliationChanges, planTaskReconciliation } from '../../shared/reconciliation';
+import { updateTaskStatuses } from '../../shared/taskEngine';
+import { auditTaskChange } from '../../shared/audit';
+import { ServerContext } from '../context';
+
+/**
+ * Actor recorded on changes made by reconciliation.
+ */
+export const RECONCILIATION_ACTOR = 'system';
+
+/**
+ * How many tasks a reconciliation added, rescheduled and cancelled.
+ */
+export interface TaskReconciliationSummary {
+  added: number;
+  rescheduled: number;
+  cancelled: number;
+}
+
+/**
+ * Bring a patient's tasks in line with their current data and the active
+ * rules (see planTaskReconciliation). Reschedules and cancellations are
+ * audited; reconciling again without further changes does nothing.
+ *
+ * @param actor - Recorded on the changes; the system unless someone's change prompted them
+ */
+export function reconcilePatientTasks(
+  context: ServerContext,
+  patient: Patient,
+  now: Date = new Date(),
+  actor: string = RECONCILIATION_ACTOR
+): TaskReconciliationSummary {
+  const { taskStore, encounterStore, ruleStore, auditLog } = context;
+  const { rules, calendar } = ruleStore.getRuleSet();
+  const encounters = encounterStore.getEncounters(patient);
+  const plan = planTaskReconciliation(
+    taskStore.getTasksByPatientId(patient.patientId, now),
+    patient,
+    encounters[encounters.length - 1],
+    actor,
+    rules,
+    calendar
+  );
+  const summary: TaskReconciliationSummary = { added: 0, rescheduled: 0, cancelled: 0 };
+  if (!hasReconciliationChanges(plan)) {
+    return summary;
+  }
+
+  if (plan.add.length > 0) {
+    summary.added = taskStore.addTasks(plan.add).added.length;
+  }
+
+  if (plan.reschedule.length > 0) {
+    const before = new Map(plan.reschedule.map(({ taskId }) => [taskId, taskStore.getTaskById(taskId) as Task]));
+    const result = taskStore.rescheduleTasks(plan.reschedule);
+    if (!result.success || !result.tasks) {
+      console.error(`Failed to reschedule tasks for ${patient.patientId}:`, result.error);
+    } else {
+      for (const task of updateTaskStatuses(result.tasks, now)) {
+        const [previous] = updateTaskStatuses([before.get(task.id)!], now);
+        auditLog.record(auditTaskChange('task.rescheduled', previous, task, actor, now));
+      }
+      summary.rescheduled = result.tasks.length;
+    }
+  }
+
+  for (const { taskId, change } of plan.cancel) {
+    const [before] = updateTaskStatuses([taskStore.getTaskById(taskId) as Task], now);
+    const result = taskStore.changeTaskStatus(taskId, change, now);
+    if (!result.success || !result.task) {
+      console.error(`Failed to cancel task ${taskId}:`, result.error);
+      continue;
+    }
+    auditLog.record(auditTaskChange('task.closed', before, result.task, actor, now));
+    summary.cancelled++;
+  }
+
+  return summary;
+}
+
+/**
+ * Reconcile every patient's tasks, e.g. when the server starts with a changed
+ * patient file or the rules are replaced.
+ *
+ * @param actor - Recorded on the changes; the system unless someone's change prompted them
+ * @returns The totals across all patients
+ */
+export function reconcileAllTasks(
+  context: ServerContext,
+  now: Date = new Date(),
+  actor: string = RECONCILIATION_ACTOR
+): TaskReconciliationSummary {
+  const total: TaskReconciliationSummary = { added: 0, rescheduled: 0, cancelled: 0 };
+  for (const patient of context.patients) {
+    const summary = reconcilePatientTasks(context, patient, now, actor);
+    total.added += summary.added;
+    total.rescheduled += summary.rescheduled;
+    total.cancelled += summary.cancelled;
+  }
+  return total;
+}
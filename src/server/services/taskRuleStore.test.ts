@@ -0,0 +1,103 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_TASK_RULE_SET, DEFAULT_WORKING_CALENDAR, TASK_RULES } from '../../shared/types';
+import { TaskRuleStore } from './taskRuleStore';
+
+describe('TaskRuleStore', () => {
+  let dataDir: string;
+  let rulesFile: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-rules-'));
+    rulesFile = path.join(dataDir, 'task_rules.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should write the default rules when the file does not exist', () => {
+    const store = TaskRuleStore.open(rulesFile);
+
+    expect(store.getRuleSet()).toEqual(DEFAULT_TASK_RULE_SET);
+    expect(JSON.parse(fs.readFileSync(rulesFile, 'utf-8'))).toEqual(DEFAULT_TASK_RULE_SET);
+  });
+
+  it('should load rules from an existing file', () => {
+    fs.writeFileSync(rulesFile, JSON.stringify({ version: 4, rules: [TASK_RULES[0]] }));
+
+    const store = TaskRuleStore.open(rulesFile);
+
+    expect(store.getRuleSet().version).toBe(4);
+    expect(store.getRuleSet().rules).toHaveLength(1);
+  });
+
+  it('should refuse to load an invalid file', () => {
+    fs.writeFileSync(rulesFile, JSON.stringify({ version: 1, rules: [{ ...TASK_RULES[0], windowEndHours: -1 }] }));
+
+    expect(() => TaskRuleStore.open(rulesFile)).toThrow(/rules\[0\]\.windowEndHours/);
+  });
+
+  it('should persist updates with the next version', () => {
+    const store = TaskRuleStore.open(rulesFile);
+    const result = store.update({ version: 1, rules: TASK_RULES.slice(0, 2) });
+
+    expect(result.success).toBe(true);
+    expect(result.ruleSet?.version).toBe(2);
+    expect(TaskRuleStore.open(rulesFile).getRuleSet().rules).toHaveLength(2);
+  });
+
+  it('should keep the current calendar when an update omits it', () => {
+    const calendar = { ...DEFAULT_WORKING_CALENDAR, holidays: ['2026-12-25'] };
+    const store = new TaskRuleStore(undefined, { ...DEFAULT_TASK_RULE_SET, calendar });
+
+    const result = store.update({ version: 1, rules: TASK_RULES });
+
+    expect(result.ruleSet?.calendar).toEqual(calendar);
+  });
+
+  it('should keep the current escalation policies when an update omits them', () => {
+    const store = new TaskRuleStore();
+
+    const result = store.update({ version: 1, rules: TASK_RULES });
+
+    expect(result.ruleSet?.escalations).toEqual(DEFAULT_TASK_RULE_SET.escalations);
+  });
+
+  it('should report a conflict for a stale version', () => {
+    const store = new TaskRuleStore();
+    store.update({ version: 1, rules: TASK_RULES });
+
+    const result = store.update({ version: 1, rules: TASK_RULES });
+
+    expect(result.success).toBe(false);
+    expect(result.conflict).toBe(true);
+    expect(store.getRuleSet().version).toBe(2);
+  });
+
+  it('should restore a backed-up rule set under the next version', () => {
+    const store = TaskRuleStore.open(rulesFile);
+    store.update({ version: 1, rules: TASK_RULES });
+
+    store.restore({ ...DEFAULT_TASK_RULE_SET, rules: TASK_RULES.slice(0, 1) });
+
+    expect(TaskRuleStore.open(rulesFile).getRuleSet()).toMatchObject({ version: 3, rules: TASK_RULES.slice(0, 1) });
+  });
+
+  it('should report validation errors without saving', () => {
+    const store = new TaskRuleStore();
+    const result = store.update({ version: 1, rules: [] });
+
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toEqual(['rules: must be a non-empty array']);
+    expect(store.getRuleSet()).toBe(DEFAULT_TASK_RULE_SET);
+  });
+
+  it('should ship a rule file matching the built-in defaults', () => {
+    const shipped = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../../data/task_rules.json'), 'utf-8'));
+    expect(shipped).toEqual(DEFAULT_TASK_RULE_SET);
+  });
+});
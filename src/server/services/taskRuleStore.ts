@@ -0,0 +1,101 @@
+import fs from 'node:fs';
+import { TaskRuleSet, DEFAULT_TASK_RULE_SET } from '../../shared/types';
+import { parseTaskRuleSet, validateTaskRuleSet } from '../../shared/taskRules';
+import { writeFileAtomic } from './durableFile';
+
+/**
+ * Result of a rule set update
+ */
+export interface TaskRuleUpdateResult {
+  success: boolean;
+  ruleSet?: TaskRuleSet;
+  error?: string;
+  validationErrors?: string[];
+  conflict?: boolean;             // The update was based on a stale version
+}
+
+/**
+ * Holds the active task rule set, optionally backed by a JSON file.
+ *
+ * The file is validated on load so a bad edit fails fast at startup instead
+ * of silently generating the wrong tasks.
+ */
+export class TaskRuleStore {
+  private ruleSet: TaskRuleSet;
+
+  constructor(
+    private readonly filePath?: string,
+    initialRuleSet: TaskRuleSet = DEFAULT_TASK_RULE_SET
+  ) {
+    this.ruleSet = initialRuleSet;
+  }
+
+  /**
+   * Load rules from the backing file. Writes the initial rule set if the file does not exist.
+   * Throws TaskRuleValidationError if the file contents are invalid.
+   */
+  static open(filePath: string): TaskRuleStore {
+    if (!fs.existsSync(filePath)) {
+      const store = new TaskRuleStore(filePath);
+      store.save();
+      return store;
+    }
+
+    const ruleSet = parseTaskRuleSet(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    return new TaskRuleStore(filePath, ruleSet);
+  }
+
+  /**
+   * Get the active rule set.
+   */
+  getRuleSet(): TaskRuleSet {
+    return this.ruleSet;
+  }
+
+  /**
+   * Replace the rule set. The submitted version must match the current one;
+   * the saved rule set gets the next version number. An omitted calendar or
+   * escalations list keeps the current one.
+   */
+  update(input: unknown): TaskRuleUpdateResult {
+    const validationErrors = validateTaskRuleSet(input);
+    if (validationErrors.length > 0) {
+      return { success: false, error: 'Invalid task rules', validationErrors };
+    }
+
+    const submitted = input as TaskRuleSet;
+    if (submitted.version !== this.ruleSet.version) {
+      return {
+        success: false,
+        conflict: true,
+        error: `Rules were changed by someone else (version ${this.ruleSet.version}); reload and try again`,
+      };
+    }
+
+    this.ruleSet = {
+      version: this.ruleSet.version + 1,
+      rules: submitted.rules,
+      calendar: submitted.calendar ?? this.ruleSet.calendar,
+      escalations: submitted.escalations ?? this.ruleSet.escalations,
+    };
+    this.save();
+    return { success: true, ruleSet: this.ruleSet };
+  }
+
+  /**
+   * Replace the rule set with a backup's, which must already be valid (see
+   * parseBackup). It gets the next version number so editors holding the
+   * current version see a conflict instead of overwriting it.
+   */
+  restore(ruleSet: TaskRuleSet): TaskRuleSet {
+    this.ruleSet = { ...ruleSet, version: this.ruleSet.version + 1 };
+    this.save();
+    return this.ruleSet;
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeFileAtomic(this.filePath, JSON.stringify(this.ruleSet, null, 2) + '\n');
+    }
+  }
+}
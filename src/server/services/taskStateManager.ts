@@ -1,225 +1,45 @@
-import { Task, TaskStatus } from '../../shared/types';
-import { calculateTaskStatus } from './taskGenerator';
-
-/**
- * Result of a task completion operation
- */
-export interface TaskCompletionResult {
-  success: boolean;
-  task?: Task;
-  error?: string;
-}
-
-/**
- * Valid status transitions for tasks
- */
-const VALID_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
-  upcoming: ['pending', 'overdue'], // Auto-transitions only, no manual completion from upcoming
-  pending: ['completed', 'overdue'],
-  overdue: ['completed'],
-  completed: [], // Terminal state
-};
-
-/**
- * Check if a status transition is valid.
- * Only allows completing tasks that are pending or overdue.
- */
-export function isValidTransition(fromStatus: TaskStatus, toStatus: TaskStatus): boolean {
-  return VALID_TRANSITIONS[fromStatus]?.includes(toStatus) ?? false;
-}
-
-/**
- * Check if a task can be completed based on its current status.
- */
-export function canCompleteTask(task: Task, now: Date = new Date()): boolean {
-  const currentStatus = calculateTaskStatus(task, now);
-  return currentStatus === 'pending' || currentStatus === 'overdue';
-}
-
-/**
- * Complete a task by setting its status to completed and recording metadata.
- *
- * @param task - The task to complete
- * @param completedBy - Optional identifier of who completed the task
- * @param now - Current timestamp (defaults to now, useful for testing)
- * @returns TaskCompletionResult with success status and updated task or error
- */
-export function completeTask(
-  task: Task,
-  completedBy?: string,
-  now: Date = new Date()
-): TaskCompletionResult {
-  const currentStatus = calculateTaskStatus(task, now);
-
-  // Validate the transition
-  if (currentStatus === 'completed') {
-    return {
-      success: false,
-      error: 'Task is already completed',
-    };
-  }
-
-  if (currentStatus === 'upcoming') {
-    return {
-      success: false,
-      error: 'Cannot complete a task before its window opens',
-    };
-  }
-
-  // Complete the task
-  const completedTask: Task = {
-    ...task,
-    status: 'completed',
-    completedAt: now,
-    completedBy,
-  };
-
-  return {
-    success: true,
-    task: completedTask,
-  };
-}
-
-/**
- * Add or update notes on a task.
- *
- * @param task - The task to update
- * @param notes - The notes to add
- * @returns Updated task with notes
- */
-export function addTaskNotes(task: Task, notes: string): Task {
-  return {
-    ...task,
-    notes,
-  };
-}
-
-/**
- * Find a task by ID in a collection.
- */
-export function findTaskById(tasks: Task[], taskId: string): Task | undefined {
-  return tasks.find((t) => t.id === taskId);
-}
-
-/**
- * Complete a task in a collection by ID.
- * Returns the updated collection and the completion result.
- *
- * @param tasks - Collection of tasks
- * @param taskId - ID of task to complete
- * @param completedBy - Optional identifier of who completed the task
- * @param now - Current timestamp
- * @returns Object with updated tasks array and completion result
- */
-export function completeTaskInCollection(
-  tasks: Task[],
-  taskId: string,
-  completedBy?: string,
-  now: Date = new Date()
-): { tasks: Task[]; result: TaskCompletionResult } {
-  const taskIndex = tasks.findIndex((t) => t.id === taskId);
-
-  if (taskIndex === -1) {
-    return {
-      tasks,
-      result: {
-        success: false,
-        error: `Task with ID '${taskId}' not found`,
-      },
-    };
-  }
-
-  const result = completeTask(tasks[taskIndex], completedBy, now);
-
-  if (!result.success || !result.task) {
-    return { tasks, result };
-  }
-
-  // Return new array with updated task
-  const updatedTasks = [...tasks];
-  updatedTasks[taskIndex] = result.task;
-
-  return {
-    tasks: updatedTasks,
-    result,
-  };
-}
-
-/**
- * Add notes to a task in a collection by ID.
- *
- * @param tasks - Collection of tasks
- * @param taskId - ID of task to update
- * @param notes - Notes to add
- * @returns Object with updated tasks array and success status
- */
-export function addNotesToTaskInCollection(
-  tasks: Task[],
-  taskId: string,
-  notes: string
-): { tasks: Task[]; success: boolean; error?: string } {
-  const taskIndex = tasks.findIndex((t) => t.id === taskId);
-
-  if (taskIndex === -1) {
-    return {
-      tasks,
-      success: false,
-      error: `Task with ID '${taskId}' not found`,
-    };
-  }
-
-  const updatedTasks = [...tasks];
-  updatedTasks[taskIndex] = addTaskNotes(tasks[taskIndex], notes);
-
-  return {
-    tasks: updatedTasks,
-    success: true,
-  };
-}
-
-/**
- * Serialize tasks for storage (convert Date objects to ISO strings).
- */
-export function serializeTasksForStorage(tasks: Task[]): string {
-  const serializable = tasks.map((task) => ({
-    ...task,
-    dueStart: task.dueStart instanceof Date ? task.dueStart.toISOString() : task.dueStart,
-    dueEnd: task.dueEnd instanceof Date ? task.dueEnd.toISOString() : task.dueEnd,
-    completedAt: task.completedAt instanceof Date ? task.completedAt.toISOString() : task.completedAt,
-  }));
-  return JSON.stringify(serializable, null, 2);
-}
-
-/**
- * Deserialize tasks from storage (convert ISO strings back to Date objects).
- */
-export function deserializeTasksFromStorage(json: string): Task[] {
-  const parsed = JSON.parse(json) as Array<{
-    id: string;
-    patientId: string;
-    type: Task['type'];
-    status: Task['status'];
-    dueStart: string;
-    dueEnd: string;
-    completedAt?: string;
-    completedBy?: string;
-    notes?: string;
-  }>;
-
-  return parsed.map((task) => ({
-    ...task,
-    dueStart: new Date(task.dueStart),
-    dueEnd: new Date(task.dueEnd),
-    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
-  }));
-}
+import {
+  ContactAttemptInput,
+  Task,
+  TaskAssignment,
+  TaskEscalationPlan,
+  TaskReschedule,
+  TaskStatus,
+  TaskStatusChangeInput,
+} from '../../shared/types';
+import {
+  TaskCompletionResult,
+  TaskStatusChangeResult,
+  TaskNoteResult,
+  ContactAttemptResult,
+  TaskAssignmentResult,
+  TaskEscalationResult,
+  TaskRescheduleResult,
+  TaskAddResult,
+  addTasksToCollection,
+  assignTasksInCollection,
+  escalateTasksInCollection,
+  rescheduleTasksInCollection,
+  createTaskNote,
+  addNoteToTaskInCollection,
+  editNoteInCollection,
+  redactNoteInCollection,
+  createContactAttempt,
+  logContactAttemptInCollection,
+  calculateTaskStatus,
+  findTaskById,
+  completeTaskInCollection,
+  changeTaskStatusInCollection,
+  serializeTasksForStorage,
+  deserializeTasksFromStorage,
+} from '../../shared/taskEngine';
 
 /**
  * In-memory task store for server-side state management.
  * This provides a simple interface for managing task state.
  */
 export class TaskStore {
-  private tasks: Task[] = [];
+  protected tasks: Task[] = [];
 
   constructor(initialTasks: Task[] = []) {
     this.tasks = [...initialTasks];
@@ -262,10 +82,122 @@ export class TaskStore {
   }
 
   /**
-   * Complete a task.
+   * Complete a task. Like every single-task change, it is refused (with the
+   * current task as `conflict`) if expectedVersion is given and out of date.
+   */
+  completeTask(
+    taskId: string,
+    completedBy?: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskCompletionResult {
+    const { tasks, result } = completeTaskInCollection(this.tasks, taskId, completedBy, now, expectedVersion);
+    if (result.success) {
+      this.tasks = tasks;
+    }
+    return result;
+  }
+
+  /**
+   * Cancel a task, mark it not applicable, or reopen it, giving a reason.
+   */
+  changeTaskStatus(
+    taskId: string,
+    input: TaskStatusChangeInput,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskStatusChangeResult {
+    const { tasks, result } = changeTaskStatusInCollection(this.tasks, taskId, input, now, expectedVersion);
+    if (result.success) {
+      this.tasks = tasks;
+    }
+    return result;
+  }
+
+  /**
+   * Append a note to a task's thread.
+   */
+  addTaskNote(
+    taskId: string,
+    text: string,
+    author: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskNoteResult {
+    const note = createTaskNote(text, author, now);
+    const { tasks, result } = addNoteToTaskInCollection(this.tasks, taskId, note, expectedVersion);
+    if (result.success) {
+      this.tasks = tasks;
+    }
+    return result;
+  }
+
+  /**
+   * Edit a note, keeping its previous text in the change trail.
+   */
+  editTaskNote(
+    taskId: string,
+    noteId: string,
+    text: string,
+    editedBy: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskNoteResult {
+    const { tasks, result } = editNoteInCollection(this.tasks, taskId, noteId, text, editedBy, now, expectedVersion);
+    if (result.success) {
+      this.tasks = tasks;
+    }
+    return result;
+  }
+
+  /**
+   * Redact a note's text, recording who redacted it and why.
+   */
+  redactTaskNote(
+    taskId: string,
+    noteId: string,
+    redactedBy: string,
+    reason: string,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): TaskNoteResult {
+    const { tasks, result } = redactNoteInCollection(
+      this.tasks,
+      taskId,
+      noteId,
+      redactedBy,
+      reason,
+      now,
+      expectedVersion
+    );
+    if (result.success) {
+      this.tasks = tasks;
+    }
+    return result;
+  }
+
+  /**
+   * Log a contact attempt on an outreach task.
+   */
+  logContactAttempt(
+    taskId: string,
+    input: ContactAttemptInput,
+    now: Date = new Date(),
+    expectedVersion?: number
+  ): ContactAttemptResult {
+    const attempt = createContactAttempt(input, now);
+    const { tasks, result } = logContactAttemptInCollection(this.tasks, taskId, attempt, expectedVersion);
+    if (result.success) {
+      this.tasks = tasks;
+    }
+    return result;
+  }
+
+  /**
+   * Change the owners of several tasks; all are applied or none are.
    */
-  completeTask(taskId: string, completedBy?: string, now: Date = new Date()): TaskCompletionResult {
-    const { tasks, result } = completeTaskInCollection(this.tasks, taskId, completedBy, now);
+  assignTasks(assignments: TaskAssignment[], reason?: string, now: Date = new Date()): TaskAssignmentResult {
+    const { tasks, result } = assignTasksInCollection(this.tasks, assignments, reason, now);
     if (result.success) {
       this.tasks = tasks;
     }
@@ -273,21 +205,34 @@ export class TaskStore {
   }
 
   /**
-   * Add notes to a task.
+   * Record fired escalation tiers on several tasks; all are applied or none are.
    */
-  addTaskNotes(taskId: string, notes: string): { success: boolean; error?: string } {
-    const { tasks, success, error } = addNotesToTaskInCollection(this.tasks, taskId, notes);
-    if (success) {
+  escalateTasks(plans: TaskEscalationPlan[]): TaskEscalationResult {
+    const { tasks, result } = escalateTasksInCollection(this.tasks, plans);
+    if (result.success) {
       this.tasks = tasks;
     }
-    return { success, error };
+    return result;
   }
 
   /**
-   * Add tasks to the store.
+   * Move the windows of several open tasks; all are moved or none are.
    */
-  addTasks(newTasks: Task[]): void {
-    this.tasks.push(...newTasks);
+  rescheduleTasks(reschedules: TaskReschedule[]): TaskRescheduleResult {
+    const { tasks, result } = rescheduleTasksInCollection(this.tasks, reschedules);
+    if (result.success) {
+      this.tasks = tasks;
+    }
+    return result;
+  }
+
+  /**
+   * Add tasks to the store, skipping any whose ID is already taken.
+   */
+  addTasks(newTasks: Task[]): TaskAddResult {
+    const { tasks, result } = addTasksToCollection(this.tasks, newTasks);
+    this.tasks = tasks;
+    return result;
   }
 
   /**
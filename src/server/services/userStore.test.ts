@@ -0,0 +1,55 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { UserStore } from './userStore';
+
+const nurse = { id: 'maria.lopez', displayName: 'Maria Lopez', role: 'nurse' as const, password: 'correct-password' };
+
+describe('UserStore', () => {
+  let dataDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discharge-flow-users-'));
+    filePath = path.join(dataDir, 'users.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', () => {
+    expect(UserStore.open(filePath).getUserCount()).toBe(0);
+  });
+
+  it('should create a user and authenticate with their password', async () => {
+    const store = UserStore.open(filePath);
+
+    const result = await store.createUser(nurse);
+
+    expect(result).toEqual({ success: true, user: { id: 'maria.lopez', displayName: 'Maria Lopez', role: 'nurse' } });
+    expect(await store.authenticate('maria.lopez', 'correct-password')).toEqual(result.user);
+    expect(await store.authenticate('maria.lopez', 'wrong-password')).toBeNull();
+    expect(await store.authenticate('nobody', 'correct-password')).toBeNull();
+  });
+
+  it('should store only a password hash and persist across reopen', async () => {
+    await UserStore.open(filePath).createUser(nurse);
+
+    expect(fs.readFileSync(filePath, 'utf-8')).not.toContain('correct-password');
+    const reopened = UserStore.open(filePath);
+    expect(reopened.listUsers()).toEqual([{ id: 'maria.lopez', displayName: 'Maria Lopez', role: 'nurse' }]);
+    expect(await reopened.authenticate('maria.lopez', 'correct-password')).not.toBeNull();
+  });
+
+  it('should reject invalid and duplicate users', async () => {
+    const store = UserStore.open(filePath);
+    await store.createUser(nurse);
+
+    expect(await store.createUser({ ...nurse, password: 'short' })).toMatchObject({ success: false });
+    expect(await store.createUser(nurse)).toMatchObject({ success: false, conflict: true });
+    expect(store.getUserCount()).toBe(1);
+  });
+});
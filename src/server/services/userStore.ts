@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import { NewUserInput, User } from '../../shared/types';
+import { StoredUser, hashPassword, toUser, validateNewUserInput, verifyPassword } from '../../shared/auth';
+import { writeFileAtomic } from './durableFile';
+
+/**
+ * Result of creating a user
+ */
+export interface UserCreateResult {
+  success: boolean;
+  user?: User;
+  error?: string;
+  conflict?: boolean;             // A user with the same ID already exists
+}
+
+/**
+ * Holds the users who can sign in, optionally backed by a JSON file.
+ * Passwords are only ever kept as salted hashes.
+ */
+export class UserStore {
+  private users: StoredUser[];
+
+  constructor(private readonly filePath?: string, users: StoredUser[] = []) {
+    this.users = users;
+  }
+
+  /**
+   * Load users from the backing file. Starts empty if the file does not exist.
+   */
+  static open(filePath: string): UserStore {
+    if (!fs.existsSync(filePath)) {
+      return new UserStore(filePath);
+    }
+    const { users } = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { users: StoredUser[] };
+    return new UserStore(filePath, users);
+  }
+
+  /**
+   * Check a user's password, returning the user if it matches.
+   */
+  async authenticate(userId: string, password: string): Promise<User | null> {
+    const user = this.users.find((u) => u.id === userId);
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+    return toUser(user);
+  }
+
+  /**
+   * Add a user, hashing their password.
+   */
+  async createUser(input: NewUserInput): Promise<UserCreateResult> {
+    const validationError = validateNewUserInput(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+    if (this.users.some((u) => u.id === input.id)) {
+      return { success: false, conflict: true, error: `User '${input.id}' already exists` };
+    }
+
+    const user = { ...toUser(input), displayName: input.displayName.trim() };
+    const passwordHash = await hashPassword(input.password);
+    // Checked again in case the same ID was added while hashing
+    if (this.users.some((u) => u.id === input.id)) {
+      return { success: false, conflict: true, error: `User '${input.id}' already exists` };
+    }
+
+    this.users = [...this.users, { ...user, passwordHash }];
+    this.save();
+    return { success: true, user };
+  }
+
+  /**
+   * Get a user by ID.
+   */
+  getUser(userId: string): User | undefined {
+    const user = this.users.find((u) => u.id === userId);
+    return user && toUser(user);
+  }
+
+  /**
+   * Get all users, without their password hashes.
+   */
+  listUsers(): User[] {
+    return this.users.map(toUser);
+  }
+
+  /**
+   * Get the number of users.
+   */
+  getUserCount(): number {
+    return this.users.length;
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeFileAtomic(this.filePath, JSON.stringify({ users: this.users }, null, 2) + '\n');
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { Task } from '../shared/types';
+import { parseTaskEtag, updateTaskStatuses } from '../shared/taskEngine';
+
+/**
+ * Read the task version a change was based on from its If-Match header.
+ * Without the header (or with `*`) the change is unconditional. Sends a 400
+ * and returns undefined if the header is not a task version tag.
+ */
+export function parseIfMatch(req: Request, res: Response): { expectedVersion?: number } | undefined {
+  const header = req.get('If-Match');
+  if (header === undefined || header.trim() === '*') {
+    return {};
+  }
+  const expectedVersion = parseTaskEtag(header);
+  if (expectedVersion === undefined) {
+    res.status(400).json({ error: `Invalid If-Match header: ${header}. Expected a task ETag such as "3"` });
+    return undefined;
+  }
+  return { expectedVersion };
+}
+
+/**
+ * Send a refused change: a 412 with the current task if it was refused
+ * because the task had changed since the If-Match version, otherwise a 409.
+ */
+export function sendRefusal(res: Response, result: { error?: string; conflict?: Task }): void {
+  if (result.conflict) {
+    res.status(412).json({ error: result.error, task: updateTaskStatuses([result.conflict])[0] });
+    return;
+  }
+  res.status(409).json({ error: result.error });
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { Patient, Task, User } from './types';
+import { countUnassignedTasks, getCaseloads, planAutoAssignment, planPatientAssignment } from './assignment';
+
+const MARIA: User = { id: 'maria', displayName: 'Maria', role: 'nurse', languages: ['English', 'Spanish'] };
+const JAMES: User = { id: 'james', displayName: 'James', role: 'assistant', languages: ['English'] };
+const GRACE: User = { id: 'grace', displayName: 'Grace', role: 'assistant', languages: ['English', 'Korean'] };
+const STAFF = [MARIA, JAMES, GRACE];
+
+const task = (id: string, patientId: string, hoursUntilDue: number, overrides: Partial<Task> = {}): Task => ({
+  id,
+  patientId,
+  type: 'contact_patient',
+  status: 'pending',
+  dueStart: new Date('2026-01-14T00:00:00Z'),
+  dueEnd: new Date(Date.UTC(2026, 0, 14, hoursUntilDue)),
+  ...overrides,
+});
+
+const patient = (patientId: string, preferredLanguage: string) => ({ patientId, preferredLanguage }) as Patient;
+
+const PATIENTS = [patient('P1', 'English'), patient('P2', 'Spanish'), patient('P3', 'Korean')];
+
+describe('assignment', () => {
+  describe('getCaseloads and countUnassignedTasks', () => {
+    it('should count open tasks only', () => {
+      const tasks = [
+        task('t1', 'P1', 1, { assignedTo: 'maria' }),
+        task('t2', 'P1', 2, { assignedTo: 'maria', status: 'completed' }),
+        task('t3', 'P2', 3),
+        task('t4', 'P2', 4, { status: 'completed' }),
+      ];
+
+      expect(getCaseloads(tasks, STAFF)).toEqual(new Map([['maria', 1], ['james', 0], ['grace', 0]]));
+      expect(countUnassignedTasks(tasks)).toBe(1);
+    });
+  });
+
+  describe('planAutoAssignment', () => {
+    it('should keep all of a patient\'s tasks with one person', () => {
+      const tasks = [task('t1', 'P1', 1), task('t2', 'P1', 5), task('t3', 'P2', 2)];
+
+      expect(planAutoAssignment(tasks, PATIENTS, STAFF, 'round_robin')).toEqual([
+        { taskId: 't1', assignedTo: 'maria' },
+        { taskId: 't2', assignedTo: 'maria' },
+        { taskId: 't3', assignedTo: 'james' },
+      ]);
+    });
+
+    it('should give new tasks to the patient\'s existing owner', () => {
+      const tasks = [task('t1', 'P1', 1, { assignedTo: 'grace' }), task('t2', 'P1', 5)];
+
+      expect(planAutoAssignment(tasks, PATIENTS, STAFF, 'caseload')).toEqual([{ taskId: 't2', assignedTo: 'grace' }]);
+    });
+
+    it('should continue round robin after the most recent assignment', () => {
+      const tasks = [
+        task('t1', 'P1', 1, { assignedTo: 'james', assignedAt: new Date('2026-01-13T10:00:00Z'), status: 'completed' }),
+        task('t2', 'P2', 2),
+        task('t3', 'P3', 3),
+      ];
+
+      expect(planAutoAssignment(tasks, PATIENTS, STAFF, 'round_robin').map((a) => a.assignedTo))
+        .toEqual(['grace', 'maria']);
+    });
+
+    it('should match preferred language, falling back to the lightest caseload', () => {
+      const tasks = [
+        task('t0', 'P0', 0, { assignedTo: 'maria' }),
+        task('t1', 'P2', 1),
+        task('t2', 'P3', 2),
+        task('t3', 'P1', 3),
+        task('t4', 'P4', 4),
+      ];
+      const patients = [...PATIENTS, patient('P4', 'Tagalog')];
+
+      expect(planAutoAssignment(tasks, patients, STAFF, 'language').map((a) => a.assignedTo))
+        .toEqual(['maria', 'grace', 'james', 'james']);
+    });
+
+    it('should balance caseloads', () => {
+      const tasks = [
+        task('t0', 'P0', 0, { assignedTo: 'maria' }),
+        task('t1', 'P1', 1),
+        task('t2', 'P2', 2),
+        task('t3', 'P3', 3),
+      ];
+
+      expect(planAutoAssignment(tasks, PATIENTS, STAFF, 'caseload').map((a) => a.assignedTo))
+        .toEqual(['james', 'grace', 'maria']);
+    });
+
+    it('should plan nothing without staff', () => {
+      expect(planAutoAssignment([task('t1', 'P1', 1)], PATIENTS, [], 'caseload')).toEqual([]);
+    });
+  });
+
+  describe('planPatientAssignment', () => {
+    it('should cover the patient\'s open tasks the owner does not already have', () => {
+      const tasks = [
+        task('t1', 'P1', 1, { assignedTo: 'maria' }),
+        task('t2', 'P1', 2, { assignedTo: 'james' }),
+        task('t3', 'P1', 3, { status: 'completed' }),
+        task('t4', 'P2', 4),
+      ];
+
+      expect(planPatientAssignment(tasks, 'P1', 'maria')).toEqual([{ taskId: 't2', assignedTo: 'maria' }]);
+      expect(planPatientAssignment(tasks, 'P1', null).map((a) => a.taskId)).toEqual(['t1', 't2']);
+    });
+  });
+});
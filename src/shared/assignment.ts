@@ -0,0 +1,135 @@
+// Task assignment: who can own tasks, caseloads and auto-assignment plans.
+// Used by both the client (localStorage) and the server (task routes).
+
+import { AssignmentStrategy, Patient, Task, TaskAssignment, User, UserRole } from './types';
+import { isOpenTask } from './taskEngine';
+
+/**
+ * Roles that carry a caseload; supervisors and admins assign work but are
+ * not given it automatically.
+ */
+export const ASSIGNABLE_ROLES: UserRole[] = ['assistant', 'nurse'];
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  round_robin: 'Round robin',
+  language: 'Preferred language',
+  caseload: 'Lightest caseload',
+};
+
+/**
+ * Check whether a user carries a caseload.
+ */
+export function isAssignableStaff(user: User): boolean {
+  return ASSIGNABLE_ROLES.includes(user.role);
+}
+
+/**
+ * Count each staff member's open tasks.
+ */
+export function getCaseloads(tasks: Task[], staff: User[]): Map<string, number> {
+  const caseloads = new Map(staff.map((member) => [member.id, 0]));
+  for (const task of tasks) {
+    if (task.assignedTo && isOpenTask(task) && caseloads.has(task.assignedTo)) {
+      caseloads.set(task.assignedTo, caseloads.get(task.assignedTo)! + 1);
+    }
+  }
+  return caseloads;
+}
+
+/**
+ * Count open tasks with no owner.
+ */
+export function countUnassignedTasks(tasks: Task[]): number {
+  return tasks.filter((task) => isOpenTask(task) && !task.assignedTo).length;
+}
+
+/**
+ * Plan giving all of a patient's open tasks to one owner (or unassigning them
+ * with null). Tasks the owner already has are left out.
+ */
+export function planPatientAssignment(tasks: Task[], patientId: string, assignedTo: string | null): TaskAssignment[] {
+  return tasks
+    .filter((task) => task.patientId === patientId && isOpenTask(task) && (task.assignedTo ?? null) !== assignedTo)
+    .map((task) => ({ taskId: task.id, assignedTo }));
+}
+
+/**
+ * Pick the staff member with the fewest open tasks (the first listed on a tie).
+ */
+function pickLightestCaseload(candidates: User[], caseloads: Map<string, number>): User {
+  return candidates.reduce((best, member) =>
+    caseloads.get(member.id)! < caseloads.get(best.id)! ? member : best);
+}
+
+function speaksLanguage(member: User, language: string): boolean {
+  return (member.languages ?? []).some((l) => l.toLowerCase() === language.toLowerCase());
+}
+
+/**
+ * Plan owners for every open, unassigned task.
+ *
+ * Tasks are planned per patient so one person handles all of a patient's
+ * outreach: a patient who already has an owner among the staff keeps them,
+ * and the others are taken in order of their most urgent deadline.
+ *
+ * - round_robin: take turns, starting after whoever was assigned most recently
+ * - language: the lightest caseload among staff who speak the patient's
+ *   preferred language, or among all staff if nobody does
+ * - caseload: the lightest caseload
+ *
+ * @param staff - Who may be given tasks, in a stable order
+ */
+export function planAutoAssignment(
+  tasks: Task[],
+  patients: Patient[],
+  staff: User[],
+  strategy: AssignmentStrategy
+): TaskAssignment[] {
+  if (staff.length === 0) {
+    return [];
+  }
+
+  const staffIds = new Set(staff.map((member) => member.id));
+  const openTasks = tasks.filter(isOpenTask);
+  const owners = new Map<string, string>();
+  for (const task of openTasks) {
+    if (task.assignedTo && staffIds.has(task.assignedTo)) {
+      owners.set(task.patientId, task.assignedTo);
+    }
+  }
+
+  const unassignedByPatient = new Map<string, Task[]>();
+  for (const task of [...openTasks].sort((a, b) => a.dueEnd.getTime() - b.dueEnd.getTime())) {
+    if (!task.assignedTo) {
+      unassignedByPatient.set(task.patientId, [...(unassignedByPatient.get(task.patientId) ?? []), task]);
+    }
+  }
+
+  const caseloads = getCaseloads(tasks, staff);
+  const patientsById = new Map(patients.map((patient) => [patient.patientId, patient]));
+  const lastAssigned = tasks
+    .filter((task) => task.assignedTo && task.assignedAt && staffIds.has(task.assignedTo))
+    .sort((a, b) => b.assignedAt!.getTime() - a.assignedAt!.getTime())[0];
+  let turn = lastAssigned ? staff.findIndex((member) => member.id === lastAssigned.assignedTo) + 1 : 0;
+
+  const assignments: TaskAssignment[] = [];
+  for (const [patientId, patientTasks] of unassignedByPatient) {
+    let owner = owners.get(patientId);
+    if (!owner) {
+      if (strategy === 'round_robin') {
+        owner = staff[turn % staff.length].id;
+        turn++;
+      } else {
+        const language = patientsById.get(patientId)?.preferredLanguage;
+        const speakers = strategy === 'language' && language
+          ? staff.filter((member) => speaksLanguage(member, language))
+          : [];
+        owner = pickLightestCaseload(speakers.length > 0 ? speakers : staff, caseloads).id;
+      }
+    }
+
+    caseloads.set(owner, caseloads.get(owner)! + patientTasks.length);
+    assignments.push(...patientTasks.map((task) => ({ taskId: task.id, assignedTo: owner })));
+  }
+  return assignments;
+}
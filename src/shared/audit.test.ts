@@ -0,0 +1,295 @@
+import { describe, it, expect } from 'vitest';
+import { AuditEntry, Patient, Task } from './types';
+import {
+  UNKNOWN_ACTOR,
+  auditEncounterChange,
+  auditPatientImport,
+  auditTaskChange,
+  createAuditEntry,
+  describeTaskChange,
+  queryAuditEntries,
+  formatAuditEntriesAsCsv,
+  serializeAuditEntry,
+  deserializeAuditEntry,
+} from './audit';
+
+const NOW = new Date('2026-01-14T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task_1',
+  patientId: 'MRN0001',
+  type: 'contact_patient',
+  status: 'pending',
+  dueStart: new Date('2026-01-14T10:00:00Z'),
+  dueEnd: new Date('2026-01-15T10:00:00Z'),
+  ...overrides,
+});
+
+const note = (id: string, text: string) => ({ id, text, author: 'nurse-1', createdAt: NOW });
+
+describe('audit', () => {
+  describe('describeTaskChange', () => {
+    it('should record status before and after a completion', () => {
+      const before = createTestTask();
+      const after = createTestTask({ status: 'completed', completedAt: NOW, completedBy: 'nurse-1' });
+
+      expect(describeTaskChange('task.completed', before, after)).toEqual({
+        before: { status: 'pending' },
+        after: { status: 'completed', completedAt: NOW, completedBy: 'nurse-1' },
+      });
+    });
+
+    it('should record the added note by ID and length, without its text', () => {
+      const before = createTestTask({ notes: [note('n1', 'First')] });
+      const after = createTestTask({ notes: [note('n1', 'First'), note('n2', 'Second')] });
+
+      expect(describeTaskChange('task.note_added', before, after)).toEqual({ after: { noteId: 'n2', length: 6 } });
+    });
+
+    it('should record the previous and new length of an edited note, without its text', () => {
+      const before = createTestTask({ notes: [note('n1', 'First'), note('n2', 'Draft')] });
+      const after = createTestTask({ notes: [note('n1', 'First'), note('n2', 'Final text')] });
+
+      expect(describeTaskChange('task.note_edited', before, after)).toEqual({
+        before: { noteId: 'n2', length: 5 },
+        after: { noteId: 'n2', length: 10 },
+      });
+    });
+
+    it('should record the reason for a redaction but not the text', () => {
+      const before = createTestTask({ notes: [note('n1', 'Wrong chart')] });
+      const after = createTestTask({
+        notes: [{
+          ...note('n1', ''),
+          redacted: true,
+          changes: [{ action: 'redacted', changedAt: NOW, changedBy: 'supervisor', reason: 'Wrong patient' }],
+        }],
+      });
+
+      const change = describeTaskChange('task.note_redacted', before, after);
+
+      expect(change.after).toEqual({ noteId: 'n1', redacted: true, reason: 'Wrong patient' });
+      expect(JSON.stringify(change)).not.toContain('Wrong chart');
+    });
+
+    it('should record the logged contact attempt', () => {
+      const attempt = {
+        id: 'contact_1',
+        attemptedAt: NOW,
+        attemptedBy: 'nurse-1',
+        channel: 'phone' as const,
+        destination: '555-1234',
+        outcome: 'no_answer' as const,
+      };
+      const after = createTestTask({ contactAttempts: [attempt] });
+
+      expect(describeTaskChange('task.contact_logged', createTestTask(), after)).toEqual({
+        after: { attemptId: 'contact_1', channel: 'phone', destination: '555-1234', outcome: 'no_answer' },
+      });
+    });
+
+    it('should record the previous and new owner with the reason', () => {
+      const before = createTestTask({ assignedTo: 'nurse-1' });
+      const after = createTestTask({ assignedTo: 'nurse-2', assignedAt: NOW, assignmentReason: 'Caseload' });
+
+      expect(describeTaskChange('task.assigned', before, after)).toEqual({
+        before: { assignedTo: 'nurse-1' },
+        after: { assignedTo: 'nurse-2', reason: 'Caseload' },
+      });
+    });
+
+    it('should record the status change with its reason and note', () => {
+      const before = createTestTask();
+      const after = createTestTask({
+        status: 'cancelled',
+        statusChanges: [{
+          action: 'cancelled',
+          reason: 'other',
+          note: 'Moved out of state',
+          fromStatus: 'pending',
+          changedAt: NOW,
+          changedBy: 'nurse-1',
+        }],
+      });
+
+      expect(describeTaskChange('task.closed', before, after)).toEqual({
+        before: { status: 'pending' },
+        after: { status: 'cancelled', reason: 'other', note: 'Moved out of state' },
+      });
+    });
+
+    it('should record the levels reached and who was notified', () => {
+      const escalation = (level: number, notify: 'assignee' | 'charge_nurse', recipients: string[]) =>
+        ({ level, notify, recipients, escalatedAt: NOW });
+      const before = createTestTask({ escalations: [escalation(1, 'assignee', ['nurse-1'])] });
+      const after = createTestTask({
+        escalations: [escalation(1, 'assignee', ['nurse-1']), escalation(2, 'charge_nurse', ['nurse-1', 'nurse-2'])],
+      });
+
+      expect(describeTaskChange('task.escalated', before, after)).toEqual({
+        before: { level: 1 },
+        after: { level: 2, notify: ['charge_nurse'], recipients: ['nurse-1', 'nurse-2'] },
+      });
+    });
+  });
+
+  describe('auditTaskChange', () => {
+    it('should identify the task, patient and actor', () => {
+      const entry = auditTaskChange('task.completed', createTestTask(), createTestTask({ status: 'completed' }), 'nurse-1', NOW);
+
+      expect(entry).toMatchObject({
+        at: NOW,
+        actor: 'nurse-1',
+        action: 'task.completed',
+        entityType: 'task',
+        entityId: 'task_1',
+        patientId: 'MRN0001',
+      });
+      expect(entry.id).toMatch(/^audit_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    });
+
+    it('should give entries recorded at the same time different IDs', () => {
+      const task = createTestTask();
+      const completed = createTestTask({ status: 'completed' });
+
+      expect(auditTaskChange('task.completed', task, completed, 'nurse-1', NOW).id)
+        .not.toBe(auditTaskChange('task.completed', task, completed, 'nurse-1', NOW).id);
+    });
+
+    it('should record an unknown actor when none is given', () => {
+      const entry = auditTaskChange('task.completed', createTestTask(), createTestTask({ status: 'completed' }), undefined);
+      expect(entry.actor).toBe(UNKNOWN_ACTOR);
+    });
+  });
+
+  describe('auditEncounterChange', () => {
+    it('should record the discharge on the encounter', () => {
+      const encounter = {
+        id: 'MRN0001-2',
+        patientId: 'MRN0001',
+        admissionDate: '2026-01-20',
+        dischargeDate: '2026-01-24',
+        dischargeTime: null,
+        dischargeDisposition: 'Home' as const,
+        primaryDiagnosis: 'Sepsis',
+      };
+
+      expect(auditEncounterChange('encounter.discharged', encounter, 'nurse-1', NOW)).toMatchObject({
+        actor: 'nurse-1',
+        entityType: 'encounter',
+        entityId: 'MRN0001-2',
+        patientId: 'MRN0001',
+        before: { dischargeDate: null },
+        after: { dischargeDate: '2026-01-24', dischargeTime: null, dischargeDisposition: 'Home' },
+      });
+    });
+  });
+
+  describe('auditPatientImport', () => {
+    const patient = {
+      patientId: 'MRN0001',
+      patientName: 'Test Patient',
+      dischargeTime: null,
+      readmissionRiskScore: 'Low',
+    } as Patient;
+
+    it('should record a new patient in full', () => {
+      expect(auditPatientImport(undefined, patient, 'supervisor', NOW)).toMatchObject({
+        action: 'patient.imported',
+        entityType: 'patient',
+        entityId: 'MRN0001',
+        patientId: 'MRN0001',
+        after: patient,
+      });
+    });
+
+    it('should record only the fields an update changed', () => {
+      const updated = { ...patient, dischargeTime: '14:00', readmissionRiskScore: 'High' } as Patient;
+
+      const entry = auditPatientImport(patient, updated, 'supervisor', NOW);
+
+      expect(entry.before).toEqual({ dischargeTime: null, readmissionRiskScore: 'Low' });
+      expect(entry.after).toEqual({ dischargeTime: '14:00', readmissionRiskScore: 'High' });
+    });
+  });
+
+  describe('queryAuditEntries', () => {
+    const entry = (id: string, hoursAgo: number, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+      ...createAuditEntry(
+        { actor: 'nurse-1', action: 'task.completed', entityType: 'task', entityId: 'task_1', patientId: 'MRN0001' },
+        new Date(NOW.getTime() - hoursAgo * HOUR)
+      ),
+      id,
+      ...overrides,
+    });
+
+    const entries = [
+      entry('a', 3),
+      entry('b', 2, { actor: 'nurse-2', patientId: 'MRN0002' }),
+      entry('c', 1, { action: 'task.note_added' }),
+    ];
+
+    it('should return entries newest first', () => {
+      expect(queryAuditEntries(entries).map((e) => e.id)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should keep the latest of entries recorded at the same time first', () => {
+      const simultaneous = [entry('x', 1), entry('y', 1)];
+      expect(queryAuditEntries(simultaneous).map((e) => e.id)).toEqual(['y', 'x']);
+    });
+
+    it('should filter by patient, actor and action', () => {
+      expect(queryAuditEntries(entries, { patientId: 'MRN0002' }).map((e) => e.id)).toEqual(['b']);
+      expect(queryAuditEntries(entries, { actor: 'nurse-1' }).map((e) => e.id)).toEqual(['c', 'a']);
+      expect(queryAuditEntries(entries, { action: 'task.note_added' }).map((e) => e.id)).toEqual(['c']);
+    });
+
+    it('should filter by a half-open time range', () => {
+      const from = new Date(NOW.getTime() - 2 * HOUR);
+      const to = new Date(NOW.getTime() - HOUR);
+      expect(queryAuditEntries(entries, { from, to }).map((e) => e.id)).toEqual(['b']);
+    });
+  });
+
+  describe('serialization', () => {
+    it('should round-trip an entry', () => {
+      const entry = auditTaskChange('task.completed', createTestTask(), createTestTask({ status: 'completed' }), 'nurse-1', NOW);
+      const restored = deserializeAuditEntry(serializeAuditEntry(entry));
+
+      expect(restored.at).toEqual(NOW);
+      expect(restored.actor).toBe('nurse-1');
+    });
+  });
+
+  describe('formatAuditEntriesAsCsv', () => {
+    it('should write a header and escape fields', () => {
+      const entry = {
+        ...auditTaskChange(
+          'task.note_added',
+          createTestTask(),
+          createTestTask({ notes: [note('n1', 'Said "call back", later')] }),
+          'Smith, "Jo"',
+          NOW
+        ),
+        id: 'audit_1',
+      };
+
+      const [header, row] = formatAuditEntriesAsCsv([entry]).split('\r\n');
+
+      expect(header).toBe('at,actor,action,entityType,entityId,patientId,before,after');
+      expect(row).toBe(
+        '2026-01-14T12:00:00.000Z,"Smith, ""Jo""",task.note_added,task,task_1,MRN0001,,' +
+        '"{""noteId"":""n1"",""length"":23}"'
+      );
+    });
+
+    it('should escape text a spreadsheet would run as a formula', () => {
+      const entry = { ...auditTaskChange('task.completed', createTestTask(), createTestTask(), '=cmd()', NOW), id: 'a1' };
+
+      const [, row] = formatAuditEntriesAsCsv([entry]).split('\r\n');
+
+      expect(row.split(',')[1]).toBe("'=cmd()");
+    });
+  });
+});
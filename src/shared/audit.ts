@@ -0,0 +1,362 @@
+// Audit trail: building, filtering and exporting audit entries.
+// Used by both the client (localStorage) and the server (AuditLog).
+
+import {
+  AuditAction,
+  AuditEntry,
+  AuditQuery,
+  BackupRestoreSummary,
+  Encounter,
+  Patient,
+  Task,
+  TaskNote,
+  TaskRuleSet,
+} from './types';
+import { escapeFormula, formatCsv } from './csv';
+
+/**
+ * Actor recorded when a change does not say who made it.
+ */
+export const UNKNOWN_ACTOR = 'Unknown';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'task.completed': 'Completed task',
+  'task.note_added': 'Added note',
+  'task.note_edited': 'Edited note',
+  'task.note_redacted': 'Redacted note',
+  'task.contact_logged': 'Logged contact attempt',
+  'task.assigned': 'Assigned task',
+  'task.escalated': 'Escalated task',
+  'task.closed': 'Closed task',
+  'task.reopened': 'Reopened task',
+  'task.rescheduled': 'Rescheduled task',
+  'encounter.admitted': 'Recorded readmission',
+  'encounter.discharged': 'Recorded discharge',
+  'patient.imported': 'Imported patient',
+  'rules.updated': 'Updated task rules',
+  'data.restored': 'Restored backup',
+};
+
+/**
+ * Build an audit entry, assigning an ID and timestamp.
+ */
+export function createAuditEntry(fields: Omit<AuditEntry, 'id' | 'at'>, now: Date = new Date()): AuditEntry {
+  return {
+    id: `audit_${crypto.randomUUID()}`,
+    at: now,
+    ...fields,
+  };
+}
+
+/**
+ * Find the note that differs between two versions of a task (the newly
+ * added note, or the one that was edited or redacted).
+ */
+function findChangedNote(before: Task, after: Task): { previous?: TaskNote; current?: TaskNote } {
+  const previousNotes = new Map((before.notes ?? []).map((note) => [note.id, note]));
+  const current = (after.notes ?? []).find((note) => {
+    const previous = previousNotes.get(note.id);
+    return !previous || JSON.stringify(previous) !== JSON.stringify(note);
+  });
+  return { previous: current && previousNotes.get(current.id), current };
+}
+
+/**
+ * Work out the changed values for a task change, from the task before and after it.
+ */
+export function describeTaskChange(
+  action: AuditAction,
+  before: Task,
+  after: Task
+): Pick<AuditEntry, 'before' | 'after'> {
+  switch (action) {
+    case 'task.completed':
+      return {
+        before: { status: before.status },
+        after: { status: after.status, completedAt: after.completedAt, completedBy: after.completedBy },
+      };
+    // Note text is left out: the log cannot be changed, so text kept here
+    // would outlive a later redaction
+    case 'task.note_added': {
+      const { current } = findChangedNote(before, after);
+      return { after: { noteId: current?.id, length: current?.text.length } };
+    }
+    case 'task.note_edited': {
+      const { previous, current } = findChangedNote(before, after);
+      return {
+        before: { noteId: previous?.id, length: previous?.text.length },
+        after: { noteId: current?.id, length: current?.text.length },
+      };
+    }
+    case 'task.note_redacted': {
+      const { current } = findChangedNote(before, after);
+      const redaction = current?.changes?.[current.changes.length - 1];
+      return {
+        before: { noteId: current?.id, redacted: false },
+        after: { noteId: current?.id, redacted: true, reason: redaction?.reason },
+      };
+    }
+    case 'task.contact_logged': {
+      const attempt = after.contactAttempts?.[after.contactAttempts.length - 1];
+      return {
+        after: {
+          attemptId: attempt?.id,
+          channel: attempt?.channel,
+          destination: attempt?.destination,
+          outcome: attempt?.outcome,
+        },
+      };
+    }
+    case 'task.assigned':
+      return {
+        before: { assignedTo: before.assignedTo },
+        after: { assignedTo: after.assignedTo, reason: after.assignmentReason },
+      };
+    case 'task.closed':
+    case 'task.reopened': {
+      const change = after.statusChanges?.[after.statusChanges.length - 1];
+      return {
+        before: { status: before.status },
+        after: { status: after.status, reason: change?.reason, note: change?.note },
+      };
+    }
+    case 'task.rescheduled':
+      return {
+        before: { dueStart: before.dueStart, dueEnd: before.dueEnd },
+        after: { dueStart: after.dueStart, dueEnd: after.dueEnd },
+      };
+    case 'task.escalated': {
+      const fired = (after.escalations ?? []).slice(before.escalations?.length ?? 0);
+      return {
+        before: { level: Math.max(0, ...(before.escalations ?? []).map((escalation) => escalation.level)) },
+        after: {
+          level: Math.max(0, ...fired.map((escalation) => escalation.level)),
+          notify: fired.map((escalation) => escalation.notify),
+          recipients: [...new Set(fired.flatMap((escalation) => escalation.recipients))],
+        },
+      };
+    }
+    case 'encounter.admitted':
+    case 'encounter.discharged':
+    case 'patient.imported':
+    case 'rules.updated':
+    case 'data.restored':
+      // Recorded on the encounter, patient, rules or dataset (see auditEncounterChange, auditPatientImport,
+      // auditRuleSetUpdate and auditBackupRestore), not on tasks
+      return {};
+  }
+}
+
+/**
+ * Build the audit entry for a change to a task.
+ *
+ * @param action - What was done
+ * @param before - The task before the change
+ * @param after - The task after the change
+ * @param actor - Who made the change (UNKNOWN_ACTOR if not given)
+ */
+export function auditTaskChange(
+  action: AuditAction,
+  before: Task,
+  after: Task,
+  actor: string | undefined,
+  now: Date = new Date()
+): AuditEntry {
+  return createAuditEntry(
+    {
+      actor: actor || UNKNOWN_ACTOR,
+      action,
+      entityType: 'task',
+      entityId: after.id,
+      patientId: after.patientId,
+      ...describeTaskChange(action, before, after),
+    },
+    now
+  );
+}
+
+/**
+ * Build the audit entry for a readmission or discharge.
+ *
+ * @param action - 'encounter.admitted' or 'encounter.discharged'
+ * @param encounter - The encounter as recorded
+ * @param actor - Who recorded it (UNKNOWN_ACTOR if not given)
+ */
+export function auditEncounterChange(
+  action: AuditAction,
+  encounter: Encounter,
+  actor: string | undefined,
+  now: Date = new Date()
+): AuditEntry {
+  const change: Pick<AuditEntry, 'before' | 'after'> = action === 'encounter.discharged'
+    ? {
+        before: { dischargeDate: null },
+        after: {
+          dischargeDate: encounter.dischargeDate,
+          dischargeTime: encounter.dischargeTime,
+          dischargeDisposition: encounter.dischargeDisposition,
+        },
+      }
+    : { after: { admissionDate: encounter.admissionDate, primaryDiagnosis: encounter.primaryDiagnosis } };
+  return createAuditEntry(
+    {
+      actor: actor || UNKNOWN_ACTOR,
+      action,
+      entityType: 'encounter',
+      entityId: encounter.id,
+      patientId: encounter.patientId,
+      ...change,
+    },
+    now
+  );
+}
+
+/**
+ * Build the audit entry for a patient added or updated by an import. An
+ * update records only the fields that changed.
+ *
+ * @param before - The patient as they were, or undefined if they are new
+ * @param after - The patient as imported
+ * @param actor - Who imported them (UNKNOWN_ACTOR if not given)
+ */
+export function auditPatientImport(
+  before: Patient | undefined,
+  after: Patient,
+  actor: string | undefined,
+  now: Date = new Date()
+): AuditEntry {
+  let change: Pick<AuditEntry, 'before' | 'after'> = { after: { ...after } };
+  if (before) {
+    const changed = (Object.keys(after) as (keyof Patient)[]).filter((field) => before[field] !== after[field]);
+    change = {
+      before: Object.fromEntries(changed.map((field) => [field, before[field]])),
+      after: Object.fromEntries(changed.map((field) => [field, after[field]])),
+    };
+  }
+  return createAuditEntry(
+    {
+      actor: actor || UNKNOWN_ACTOR,
+      action: 'patient.imported',
+      entityType: 'patient',
+      entityId: after.patientId,
+      patientId: after.patientId,
+      ...change,
+    },
+    now
+  );
+}
+
+/**
+ * Build the audit entry for replacing the task rule set.
+ *
+ * @param before - The rule set that was replaced
+ * @param after - The saved rule set
+ * @param actor - Who saved it (UNKNOWN_ACTOR if not given)
+ */
+export function auditRuleSetUpdate(
+  before: TaskRuleSet,
+  after: TaskRuleSet,
+  actor: string | undefined,
+  now: Date = new Date()
+): AuditEntry {
+  return createAuditEntry(
+    {
+      actor: actor || UNKNOWN_ACTOR,
+      action: 'rules.updated',
+      entityType: 'rules',
+      entityId: 'rules',
+      patientId: '',
+      before: { version: before.version },
+      after: { version: after.version },
+    },
+    now
+  );
+}
+
+/**
+ * Build the audit entry for restoring a backup, which replaces the whole
+ * dataset rather than one patient's records.
+ *
+ * @param exportedAt - When the backup was taken (ISO string)
+ * @param summary - What the restore put in place
+ * @param actor - Who restored it (UNKNOWN_ACTOR if not given)
+ */
+export function auditBackupRestore(
+  exportedAt: string,
+  summary: BackupRestoreSummary,
+  actor: string | undefined,
+  now: Date = new Date()
+): AuditEntry {
+  return createAuditEntry(
+    {
+      actor: actor || UNKNOWN_ACTOR,
+      action: 'data.restored',
+      entityType: 'dataset',
+      entityId: 'dataset',
+      patientId: '',
+      after: { exportedAt, ...summary },
+    },
+    now
+  );
+}
+
+/**
+ * Filter audit entries, newest first. Entries recorded in the same millisecond
+ * keep their reverse recording order.
+ */
+export function queryAuditEntries(entries: AuditEntry[], query: AuditQuery = {}): AuditEntry[] {
+  return entries
+    .filter((entry) =>
+      (query.patientId === undefined || entry.patientId === query.patientId) &&
+      (query.actor === undefined || entry.actor === query.actor) &&
+      (query.action === undefined || entry.action === query.action) &&
+      (query.from === undefined || entry.at >= query.from) &&
+      (query.to === undefined || entry.at < query.to)
+    )
+    .reverse()
+    .sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+// =============================================================================
+// Serialization and Export
+// =============================================================================
+
+/**
+ * An audit entry as it appears in storage, with its timestamp as an ISO string.
+ */
+export type StoredAuditEntry = Omit<AuditEntry, 'at'> & { at: string };
+
+/**
+ * Convert an audit entry to its stored form. Dates in the changed values
+ * become ISO strings.
+ */
+export function serializeAuditEntry(entry: AuditEntry): StoredAuditEntry {
+  return JSON.parse(JSON.stringify(entry)) as StoredAuditEntry;
+}
+
+/**
+ * Convert a stored audit entry back into an AuditEntry with a Date.
+ */
+export function deserializeAuditEntry(entry: StoredAuditEntry): AuditEntry {
+  return { ...entry, at: new Date(entry.at) };
+}
+
+const CSV_COLUMNS = ['at', 'actor', 'action', 'entityType', 'entityId', 'patientId', 'before', 'after'] as const;
+
+/**
+ * Format audit entries as CSV, one row per entry. Changed values are written as
+ * JSON. Text that a spreadsheet would run as a formula is escaped.
+ */
+export function formatAuditEntriesAsCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) => {
+    const stored = serializeAuditEntry(entry);
+    return CSV_COLUMNS.map((column) => {
+      const value = stored[column];
+      if (value === undefined) {
+        return '';
+      }
+      return escapeFormula(typeof value === 'string' ? value : JSON.stringify(value));
+    });
+  });
+  return formatCsv([[...CSV_COLUMNS], ...rows]);
+}
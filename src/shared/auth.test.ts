@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { TaskNote, User } from './types';
+import { canEditNote, hasPermission, hashPassword, toUser, validateNewUserInput, verifyPassword } from './auth';
+
+const nurse: User = { id: 'maria.lopez', displayName: 'Maria Lopez', role: 'nurse' };
+
+const note = (overrides: Partial<TaskNote> = {}): TaskNote => ({
+  id: 'note_1',
+  text: 'Left voicemail',
+  author: 'maria.lopez',
+  createdAt: new Date('2026-01-14T12:00:00Z'),
+  ...overrides,
+});
+
+describe('auth', () => {
+  describe('hasPermission', () => {
+    it('should let every role work tasks', () => {
+      for (const role of ['assistant', 'nurse', 'supervisor', 'admin'] as const) {
+        expect(hasPermission(role, 'task.complete')).toBe(true);
+        expect(hasPermission(role, 'task.note')).toBe(true);
+      }
+    });
+
+    it('should restrict closing, reopening, redaction and administration', () => {
+      expect(hasPermission('assistant', 'task.close')).toBe(false);
+      expect(hasPermission('nurse', 'task.close')).toBe(true);
+      expect(hasPermission('assistant', 'task.reopen')).toBe(false);
+      expect(hasPermission('nurse', 'task.reopen')).toBe(true);
+      expect(hasPermission('assistant', 'encounter.record')).toBe(false);
+      expect(hasPermission('nurse', 'encounter.record')).toBe(true);
+      expect(hasPermission('nurse', 'task.note_redact')).toBe(false);
+      expect(hasPermission('supervisor', 'audit.view')).toBe(true);
+      expect(hasPermission('nurse', 'patients.import')).toBe(false);
+      expect(hasPermission('supervisor', 'patients.import')).toBe(true);
+      expect(hasPermission('nurse', 'data.export')).toBe(false);
+      expect(hasPermission('supervisor', 'data.export')).toBe(true);
+      expect(hasPermission('supervisor', 'data.restore')).toBe(false);
+      expect(hasPermission('admin', 'data.restore')).toBe(true);
+      expect(hasPermission('supervisor', 'rules.edit')).toBe(false);
+      expect(hasPermission('admin', 'rules.edit')).toBe(true);
+      expect(hasPermission('admin', 'users.manage')).toBe(true);
+    });
+  });
+
+  describe('canEditNote', () => {
+    it('should only allow the author to edit their note', () => {
+      expect(canEditNote(nurse, note())).toBe(true);
+      expect(canEditNote(nurse, note({ author: 'james.wu' }))).toBe(false);
+      expect(canEditNote({ ...nurse, role: 'admin' }, note({ author: 'james.wu' }))).toBe(false);
+    });
+
+    it('should not allow editing a redacted note', () => {
+      expect(canEditNote(nurse, note({ redacted: true }))).toBe(false);
+    });
+  });
+
+  describe('validateNewUserInput', () => {
+    const input = { id: 'maria.lopez', displayName: 'Maria Lopez', role: 'nurse', password: 'long-enough' };
+
+    it('should accept valid details', () => {
+      expect(validateNewUserInput(input)).toBeNull();
+    });
+
+    it('should reject a bad id, role or short password', () => {
+      expect(validateNewUserInput({ ...input, id: 'Maria Lopez' })).toContain('id must be');
+      expect(validateNewUserInput({ ...input, role: 'doctor' })).toContain('role must be one of');
+      expect(validateNewUserInput({ ...input, password: 'short' })).toContain('at least 8 characters');
+      expect(validateNewUserInput({ ...input, displayName: ' ' })).toContain('displayName');
+    });
+
+    it('should strip the password from user details', () => {
+      expect(toUser({ ...nurse, password: 'secret-password' })).toEqual(nurse);
+    });
+  });
+
+  describe('password hashing', () => {
+    it('should verify the original password only', async () => {
+      const hash = await hashPassword('correct horse', 1000);
+
+      expect(hash).toMatch(/^pbkdf2_sha256\$1000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+      expect(hash).not.toContain('correct horse');
+      expect(await verifyPassword('correct horse', hash)).toBe(true);
+      expect(await verifyPassword('correct horsE', hash)).toBe(false);
+    });
+
+    it('should salt each hash', async () => {
+      expect(await hashPassword('same', 1000)).not.toBe(await hashPassword('same', 1000));
+    });
+
+    it('should reject a malformed hash', async () => {
+      expect(await verifyPassword('anything', 'plaintext')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+// Roles, permissions and password hashing.
+// Used by both the client (demo mode sign-in, hiding actions) and the server
+// (UserStore and route permission checks).
+
+import { NewUserInput, Permission, TaskNote, User, UserRole, USER_ROLES } from './types';
+
+const ASSISTANT_PERMISSIONS: Permission[] = ['task.complete', 'task.note', 'task.contact'];
+const NURSE_PERMISSIONS: Permission[] = [...ASSISTANT_PERMISSIONS, 'task.close', 'task.reopen', 'encounter.record'];
+const SUPERVISOR_PERMISSIONS: Permission[] = [
+  ...NURSE_PERMISSIONS,
+  'task.note_redact',
+  'task.assign',
+  'audit.view',
+  'patients.import',
+  'data.export',
+];
+
+/**
+ * A user as stored, with their password hash.
+ */
+export interface StoredUser extends User {
+  passwordHash: string;
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  assistant: ASSISTANT_PERMISSIONS,
+  nurse: NURSE_PERMISSIONS,
+  supervisor: SUPERVISOR_PERMISSIONS,
+  admin: [...SUPERVISOR_PERMISSIONS, 'rules.edit', 'users.manage', 'data.restore'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  assistant: 'Assistant',
+  nurse: 'Nurse',
+  supervisor: 'Supervisor',
+  admin: 'Admin',
+};
+
+/**
+ * Check whether a role grants a permission.
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Check whether a user may edit a note: they need note access and must have written it.
+ */
+export function canEditNote(user: User, note: TaskNote): boolean {
+  return hasPermission(user.role, 'task.note') && note.author === user.id && !note.redacted;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const USER_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Validate untrusted user details, returning the first problem or null.
+ */
+export function validateNewUserInput(input: unknown): string | null {
+  if (typeof input !== 'object' || input === null) {
+    return 'User details must be an object';
+  }
+  const { id, displayName, role, password, languages } = input as Record<string, unknown>;
+
+  if (typeof id !== 'string' || !USER_ID_PATTERN.test(id)) {
+    return 'id must be 3-32 lowercase letters, digits, ".", "_" or "-"';
+  }
+  if (typeof displayName !== 'string' || displayName.trim() === '') {
+    return 'displayName must be a non-empty string';
+  }
+  if (!USER_ROLES.includes(role as UserRole)) {
+    return `role must be one of: ${USER_ROLES.join(', ')}`;
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (languages !== undefined && (!Array.isArray(languages) || !languages.every((l) => typeof l === 'string'))) {
+    return 'languages must be an array of strings';
+  }
+  return null;
+}
+
+/**
+ * Strip the password from user details.
+ */
+export function toUser({ id, displayName, role, languages }: User | NewUserInput): User {
+  return languages ? { id, displayName, role, languages } : { id, displayName, role };
+}
+
+// =============================================================================
+// Password Hashing
+// =============================================================================
+
+// Stored as `pbkdf2_sha256$<iterations>$<salt hex>$<hash hex>`
+const HASH_SCHEME = 'pbkdf2_sha256';
+export const PASSWORD_HASH_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function deriveHash(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password with a random salt for storage.
+ *
+ * @param iterations - PBKDF2 work factor (lower it only in tests)
+ */
+export async function hashPassword(password: string, iterations: number = PASSWORD_HASH_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveHash(password, salt, iterations);
+  return [HASH_SCHEME, iterations, toHex(salt), toHex(hash)].join('$');
+}
+
+/**
+ * Check a password against a stored hash. Returns false for a malformed hash.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = storedHash.split('$');
+  if (scheme !== HASH_SCHEME || !Number(iterations) || !salt || !expected) {
+    return false;
+  }
+
+  const actual = toHex(await deriveHash(password, fromHex(salt), Number(iterations)));
+  // Compare every character so the time taken does not reveal how much matched
+  let difference = actual.length ^ expected.length;
+  for (let i = 0; i < actual.length; i++) {
+    difference |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
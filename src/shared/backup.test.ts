@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { BACKUP_FORMAT, BackupData, BackupValidationError, createBackup, parseBackup, validateBackup } from './backup';
+import { createAuditEntry } from './audit';
+import { DEFAULT_TASK_RULE_SET, Patient } from './types';
+
+const NOW = new Date('2026-02-01T12:00:00Z');
+
+const createPatient = (overrides: Partial<Patient> = {}): Patient => ({
+  patientId: 'MRN0001',
+  patientName: 'Test Patient',
+  dob: '1960-05-15',
+  gender: 'F',
+  phone: null,
+  email: null,
+  preferredLanguage: 'English',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:30',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Pneumonia',
+  dischargeDisposition: 'Home',
+  dischargeMedications: 'Amoxicillin',
+  allergies: null,
+  attendingPhysician: 'Dr. A',
+  pcpName: null,
+  pcpPhone: null,
+  readmissionRiskScore: 'Low',
+  fallRisk: null,
+  notes: null,
+  ...overrides,
+});
+
+const createData = (): BackupData => ({
+  patients: [createPatient()],
+  tasks: [{
+    id: 'task_1',
+    patientId: 'MRN0001',
+    type: 'contact_patient',
+    status: 'completed',
+    dueStart: new Date('2026-01-14T15:30:00Z'),
+    dueEnd: new Date('2026-01-15T15:30:00Z'),
+    completedAt: new Date('2026-01-14T20:00:00Z'),
+    completedBy: 'nurse-1',
+    notes: [{ id: 'note_1', text: 'Reached patient', author: 'nurse-1', createdAt: new Date('2026-01-14T20:00:00Z') }],
+    version: 2,
+  }],
+  encounters: [{
+    id: 'MRN0001-2',
+    patientId: 'MRN0001',
+    admissionDate: '2026-01-20',
+    dischargeDate: null,
+    dischargeTime: null,
+    dischargeDisposition: null,
+    primaryDiagnosis: 'Pneumonia',
+  }],
+  ruleSet: DEFAULT_TASK_RULE_SET,
+  mappingProfiles: [{ id: 'ehr', name: 'EHR export', columns: { patientId: 'MRN' }, valueSynonyms: {} }],
+  auditLog: [createAuditEntry({
+    actor: 'nurse-1',
+    action: 'task.completed',
+    entityType: 'task',
+    entityId: 'task_1',
+    patientId: 'MRN0001',
+    after: { status: 'completed' },
+  }, new Date('2026-01-14T20:00:00Z'))],
+});
+
+describe('Backup', () => {
+  it('should restore exactly what was backed up, through JSON', () => {
+    const data = createData();
+    const backup = createBackup(data, NOW);
+
+    expect(backup).toMatchObject({ format: BACKUP_FORMAT, version: 1, exportedAt: '2026-02-01T12:00:00.000Z' });
+    expect(parseBackup(JSON.parse(JSON.stringify(backup)))).toEqual({ ...data, exportedAt: backup.exportedAt });
+  });
+
+  it('should refuse files that are not backups', () => {
+    expect(validateBackup([])).toEqual(['backup: must be an object']);
+    expect(validateBackup({ patients: [] })).toEqual([`format: must be "${BACKUP_FORMAT}"`]);
+    expect(validateBackup({ ...createBackup(createData(), NOW), version: 9 }))
+      .toEqual(['version: 9 is not supported (expected 1)']);
+  });
+
+  it('should report every problem with its path', () => {
+    const backup = JSON.parse(JSON.stringify(createBackup(createData(), NOW)));
+    backup.patients.push(createPatient({ admissionDate: '2026-01-20' }));
+    backup.tasks[0].dueEnd = 'tomorrow';
+    backup.encounters[0].patientId = 'MRN9999';
+    backup.ruleSet.version = 0;
+    backup.mappingProfiles[0].name = '';
+    backup.auditLog[0].action = 'task.deleted';
+
+    expect(validateBackup(backup)).toEqual([
+      'patients[1].patientId: "MRN0001" appears more than once',
+      'patients[1].admissionDate: Admission date 2026-01-20 is after the discharge date 2026-01-14',
+      'tasks[0].dueEnd: must be an ISO date',
+      'encounters[0].patientId: no patient "MRN9999" in the backup',
+      'ruleSet.version: must be a positive whole number',
+      'mappingProfiles[0].name: must be a non-empty string',
+      'auditLog[0].action: "task.deleted" is not a known action',
+    ]);
+    expect(() => parseBackup(backup)).toThrow(BackupValidationError);
+  });
+});
@@ -0,0 +1,225 @@
+// Backups of the whole dataset as one JSON document, and the checks a backup
+// must pass before it is restored. Used by both the client (localStorage) and
+// the server (GET and POST /api/backup).
+
+import {
+  AuditAction,
+  AuditEntry,
+  Encounter,
+  Patient,
+  PatientMappingProfile,
+  Task,
+  TaskRuleSet,
+  TaskStatus,
+  AUDIT_ACTIONS,
+  TASK_STATUSES,
+} from './types';
+import { StoredTask, deserializeTask, serializeTasksForStorage } from './taskEngine';
+import { StoredAuditEntry, deserializeAuditEntry, serializeAuditEntry } from './audit';
+import { validateTaskRuleSet } from './taskRules';
+import { validateMappingProfile } from './patientMapping';
+import { validatePatient } from './patientValidation';
+
+export const BACKUP_FORMAT = 'discharge-flow-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * Everything a backup holds. Users and sessions are left out: they carry
+ * password hashes, and restoring them could lock people out.
+ */
+export interface BackupData {
+  patients: Patient[];
+  tasks: Task[];
+  encounters: Encounter[];        // Recorded readmissions; first encounters come from the patients
+  ruleSet: TaskRuleSet;
+  mappingProfiles: PatientMappingProfile[]; // Saved profiles; the standard one is built in
+  auditLog: AuditEntry[];
+}
+
+/**
+ * A backup as written to a file, with dates as ISO strings.
+ */
+export interface DataBackup extends Omit<BackupData, 'tasks' | 'auditLog'> {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  tasks: StoredTask[];
+  auditLog: StoredAuditEntry[];
+}
+
+/**
+ * A backup that passed validation, converted back to the dataset it holds.
+ */
+export interface ParsedBackup extends BackupData {
+  exportedAt: string;
+}
+
+/**
+ * Thrown when a backup fails validation. Carries every problem found, not
+ * just the first.
+ */
+export class BackupValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid backup: ${errors.join('; ')}`);
+    this.name = 'BackupValidationError';
+    this.errors = errors;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Build a backup of the dataset.
+ */
+export function createBackup(data: BackupData, now: Date = new Date()): DataBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    patients: data.patients,
+    tasks: JSON.parse(serializeTasksForStorage(data.tasks)) as StoredTask[],
+    encounters: data.encounters,
+    ruleSet: data.ruleSet,
+    mappingProfiles: data.mappingProfiles,
+    auditLog: data.auditLog.map(serializeAuditEntry),
+  };
+}
+
+/**
+ * Check a list in a backup: it must be an array of objects, each with a
+ * unique non-empty `idField`. Returns the IDs found.
+ */
+function validateRecords(
+  value: unknown,
+  path: string,
+  idField: string,
+  errors: string[],
+  check: (record: Record<string, unknown>, itemPath: string) => void
+): Set<string> {
+  const ids = new Set<string>();
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return ids;
+  }
+  value.forEach((record, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isRecord(record)) {
+      errors.push(`${itemPath}: must be an object`);
+      return;
+    }
+    const id = record[idField];
+    if (typeof id !== 'string' || id === '') {
+      errors.push(`${itemPath}.${idField}: must be a non-empty string`);
+    } else if (ids.has(id)) {
+      errors.push(`${itemPath}.${idField}: "${id}" appears more than once`);
+    } else {
+      ids.add(id);
+    }
+    check(record, itemPath);
+  });
+  return ids;
+}
+
+/**
+ * Check a backup (e.g. from an uploaded file) before it is restored:
+ * - it must be a backup of a supported version
+ * - patients must pass the patient checks without errors (warnings are allowed)
+ * - tasks and readmissions must belong to patients in the backup
+ * - the rules and mapping profiles must be valid
+ * - audit entries need an ID, a time and a known action
+ *
+ * @returns Every problem found, each prefixed with the path to the bad value;
+ *          empty if the backup can be restored
+ */
+export function validateBackup(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['backup: must be an object'];
+  }
+  if (value.format !== BACKUP_FORMAT) {
+    return [`format: must be "${BACKUP_FORMAT}"`];
+  }
+  if (value.version !== BACKUP_VERSION) {
+    return [`version: ${String(value.version)} is not supported (expected ${BACKUP_VERSION})`];
+  }
+  const errors: string[] = [];
+
+  if (!isDateString(value.exportedAt)) {
+    errors.push('exportedAt: must be an ISO date');
+  }
+  // Dates of birth are checked against the day the backup was taken
+  const today = isDateString(value.exportedAt) ? value.exportedAt.slice(0, 10) : '9999-12-31';
+
+  const patientIds = validateRecords(value.patients, 'patients', 'patientId', errors, (patient, path) => {
+    for (const issue of validatePatient(patient as unknown as Patient, today)) {
+      if (issue.severity === 'error') {
+        errors.push(`${path}.${issue.field}: ${issue.message}`);
+      }
+    }
+  });
+  const checkPatientId = (record: Record<string, unknown>, path: string) => {
+    if (typeof record.patientId !== 'string' || !patientIds.has(record.patientId)) {
+      errors.push(`${path}.patientId: no patient "${String(record.patientId)}" in the backup`);
+    }
+  };
+
+  validateRecords(value.tasks, 'tasks', 'id', errors, (task, path) => {
+    checkPatientId(task, path);
+    if (!TASK_STATUSES.includes(task.status as TaskStatus)) {
+      errors.push(`${path}.status: must be one of ${TASK_STATUSES.join(', ')}`);
+    }
+    for (const field of ['dueStart', 'dueEnd']) {
+      if (!isDateString(task[field])) {
+        errors.push(`${path}.${field}: must be an ISO date`);
+      }
+    }
+  });
+  validateRecords(value.encounters, 'encounters', 'id', errors, checkPatientId);
+
+  if (!isRecord(value.ruleSet)) {
+    errors.push('ruleSet: must be an object');
+  } else {
+    errors.push(...validateTaskRuleSet(value.ruleSet).map((error) => `ruleSet.${error}`));
+  }
+  validateRecords(value.mappingProfiles, 'mappingProfiles', 'id', errors, (profile, path) => {
+    errors.push(...validateMappingProfile(profile).map((error) => `${path}.${error}`));
+  });
+  validateRecords(value.auditLog, 'auditLog', 'id', errors, (entry, path) => {
+    if (!isDateString(entry.at)) {
+      errors.push(`${path}.at: must be an ISO date`);
+    }
+    if (!AUDIT_ACTIONS.includes(entry.action as AuditAction)) {
+      errors.push(`${path}.action: "${String(entry.action)}" is not a known action`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate a backup and convert it back to the dataset it holds, throwing
+ * BackupValidationError if it cannot be restored.
+ */
+export function parseBackup(value: unknown): ParsedBackup {
+  const errors = validateBackup(value);
+  if (errors.length > 0) {
+    throw new BackupValidationError(errors);
+  }
+  const backup = value as DataBackup;
+  return {
+    exportedAt: backup.exportedAt,
+    patients: backup.patients,
+    tasks: backup.tasks.map(deserializeTask),
+    encounters: backup.encounters,
+    ruleSet: backup.ruleSet,
+    mappingProfiles: backup.mappingProfiles,
+    auditLog: backup.auditLog.map(deserializeAuditEntry),
+  };
+}
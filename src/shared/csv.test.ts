@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { CsvParseError, CsvParser, escapeFormula, formatCsv, parseCsv } from './csv';
+
+describe('CSV', () => {
+  describe('parseCsv', () => {
+    it('should split records and fields', () => {
+      expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    it('should accept CRLF, LF and CR line breaks, with or without a final one', () => {
+      expect(parseCsv('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+      expect(parseCsv('a,b\r1,2\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    });
+
+    it('should keep delimiters, line breaks and escaped quotes inside quoted fields', () => {
+      const csv = 'id,notes\r\n1,"Said ""call back"", then hung up"\r\n2,"Line one\r\nLine two\nLine three"\r\n';
+
+      expect(parseCsv(csv)).toEqual([
+        ['id', 'notes'],
+        ['1', 'Said "call back", then hung up'],
+        ['2', 'Line one\r\nLine two\nLine three'],
+      ]);
+    });
+
+    it('should keep empty fields, including quoted and trailing ones', () => {
+      expect(parseCsv('a,,""\n,\n"",x,')).toEqual([['a', '', ''], ['', ''], ['', 'x', '']]);
+    });
+
+    it('should drop a byte order mark and skip empty lines', () => {
+      expect(parseCsv('\uFEFFid,name\n\n1,Ann\r\n\r\n')).toEqual([['id', 'name'], ['1', 'Ann']]);
+    });
+
+    it('should keep stray quotes in unquoted fields and text after a closing quote', () => {
+      expect(parseCsv('5\'10",Dr. "Bob"\n"Smith" Jr,x')).toEqual([['5\'10"', 'Dr. "Bob"'], ['Smith Jr', 'x']]);
+    });
+
+    it('should use a configured delimiter', () => {
+      expect(parseCsv('a;b,c;"d;e"\n', { delimiter: ';' })).toEqual([['a', 'b,c', 'd;e']]);
+      expect(parseCsv('a\tb\n', { delimiter: '\t' })).toEqual([['a', 'b']]);
+      expect(() => parseCsv('a', { delimiter: '"' })).toThrow('CSV delimiter must be a single character');
+    });
+
+    it('should refuse a quoted field that is never closed, naming the line it starts on', () => {
+      expect(() => parseCsv('id,notes\n1,ok\n2,"never\nclosed')).toThrow(CsvParseError);
+      expect(() => parseCsv('id,notes\n1,ok\n2,"never\nclosed')).toThrow('Quoted field is never closed (line 3)');
+    });
+  });
+
+  describe('CsvParser', () => {
+    const tricky = '\uFEFFid,notes\r\n1,"a ""quoted"" word,\r\nand a new line"\r\n2,plain\r\n';
+
+    it('should return each record once it is complete', () => {
+      const parser = new CsvParser();
+
+      expect(parser.push('id,notes\n1,"open')).toEqual([['id', 'notes']]);
+      expect(parser.push('ed"\n2,x')).toEqual([['1', 'opened']]);
+      expect(parser.end()).toEqual([['2', 'x']]);
+    });
+
+    it('should give the same records however the text is split into chunks', () => {
+      const expected = parseCsv(tricky);
+
+      for (let size = 1; size <= tricky.length; size++) {
+        const parser = new CsvParser();
+        const records: string[][] = [];
+        for (let i = 0; i < tricky.length; i += size) {
+          records.push(...parser.push(tricky.slice(i, i + size)));
+        }
+        records.push(...parser.end());
+        expect(records).toEqual(expected);
+      }
+      expect(expected).toEqual([['id', 'notes'], ['1', 'a "quoted" word,\r\nand a new line'], ['2', 'plain']]);
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('should quote only the fields that need it', () => {
+      expect(formatCsv([['id', 'note'], ['1', 'Said "hi", then left\nearly']])).toBe(
+        'id,note\r\n1,"Said ""hi"", then left\nearly"\r\n'
+      );
+      expect(formatCsv([['a;b', 'c,d']], { delimiter: ';' })).toBe('"a;b";c,d\r\n');
+    });
+
+    it('should write what parseCsv reads back', () => {
+      const records = [['name', 'meds'], ['Doe, John', 'A, "B"\r\nC']];
+      expect(parseCsv(formatCsv(records))).toEqual(records);
+    });
+  });
+
+  describe('escapeFormula', () => {
+    it('should prefix text a spreadsheet would run as a formula with an apostrophe', () => {
+      expect(['=1+1', '+1', '-1', '@SUM(A1)', '\tx', '\rx'].map(escapeFormula)).toEqual(
+        ["'=1+1", "'+1", "'-1", "'@SUM(A1)", "'\tx", "'\rx"]
+      );
+      expect(escapeFormula('Jane = Doe')).toBe('Jane = Doe');
+    });
+  });
+});
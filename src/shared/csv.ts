@@ -0,0 +1,196 @@
+// CSV reading and writing (RFC 4180). Used by both the client (patient import
+// preview, exports) and the server (patient file and import, audit export).
+
+/**
+ * Options for reading CSV.
+ */
+export interface CsvOptions {
+  delimiter?: string;             // Single character between fields (default ",")
+}
+
+/**
+ * Thrown when CSV cannot be read, e.g. a quoted field is never closed.
+ */
+export class CsvParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'CsvParseError';
+    this.line = line;
+  }
+}
+
+type CsvState =
+  | 'field_start'                 // Nothing read yet for the current field
+  | 'unquoted'                    // Inside a field that did not start with a quote
+  | 'quoted'                      // Inside a quoted field
+  | 'quoted_quote';               // Read a quote inside a quoted field: closes it, or escapes a second quote
+
+/**
+ * Incremental CSV reader: feed it text in chunks of any size (e.g. as a file
+ * streams in) and it returns each record as soon as the record is complete.
+ *
+ * Follows RFC 4180, and also accepts what common tools write:
+ * - records end with CRLF, LF or CR; a final line break is optional
+ * - quoted fields may contain delimiters, line breaks and escaped quotes ("")
+ * - a leading byte order mark is dropped
+ * - empty lines are skipped
+ *
+ * Quotes inside an unquoted field, and text after a closing quote, are kept
+ * as they are. A quoted field that is never closed is an error.
+ */
+export class CsvParser {
+  private readonly delimiter: string;
+  private state: CsvState = 'field_start';
+  private fields: string[] = [];
+  private field = '';
+  private started = false;
+  private afterCarriageReturn = false;
+  private line = 1;
+  private quoteLine = 1;
+
+  constructor(options: CsvOptions = {}) {
+    const delimiter = options.delimiter ?? ',';
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\r' || delimiter === '\n') {
+      throw new Error(`CSV delimiter must be a single character other than a quote or line break, not "${delimiter}"`);
+    }
+    this.delimiter = delimiter;
+  }
+
+  /**
+   * Read the next chunk of text.
+   *
+   * @returns The records completed by this chunk, in order
+   */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    let start = 0;
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      start = chunk.charCodeAt(0) === 0xfeff ? 1 : 0;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+      // The LF of a CRLF was already handled with the CR
+      if (this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (char === '\n') {
+          if (this.state === 'quoted') {
+            this.field += char;
+          }
+          continue;
+        }
+      }
+      const lineBreak = char === '\r' || char === '\n';
+      if (lineBreak) {
+        this.line++;
+        this.afterCarriageReturn = char === '\r';
+      }
+
+      switch (this.state) {
+        case 'field_start':
+          if (char === '"') {
+            this.state = 'quoted';
+            this.quoteLine = this.line;
+          } else {
+            this.readUnquoted(char, records);
+          }
+          break;
+        case 'unquoted':
+          this.readUnquoted(char, records);
+          break;
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quoted_quote';
+          } else {
+            this.field += char;
+          }
+          break;
+        case 'quoted_quote':
+          if (char === '"') {
+            this.field += char;
+            this.state = 'quoted';
+          } else {
+            this.readUnquoted(char, records);
+          }
+          break;
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Finish reading. Throws CsvParseError if a quoted field was never closed.
+   *
+   * @returns The last record, if the text did not end with a line break
+   */
+  end(): string[][] {
+    if (this.state === 'quoted') {
+      throw new CsvParseError('Quoted field is never closed', this.quoteLine);
+    }
+    const records: string[][] = [];
+    if (this.state !== 'field_start' || this.fields.length > 0) {
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private readUnquoted(char: string, records: string[][]): void {
+    if (char === this.delimiter) {
+      this.endField();
+    } else if (char === '\r' || char === '\n') {
+      this.endRecord(records);
+    } else {
+      this.field += char;
+      this.state = 'unquoted';
+    }
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'field_start';
+  }
+
+  private endRecord(records: string[][]): void {
+    const empty = this.fields.length === 0 && this.field === '' && this.state === 'field_start';
+    this.endField();
+    if (!empty) {
+      records.push(this.fields);
+    }
+    this.fields = [];
+  }
+}
+
+/**
+ * Parse CSV text into records (see CsvParser for what is accepted).
+ * Throws CsvParseError if a quoted field is never closed.
+ */
+export function parseCsv(text: string, options: CsvOptions = {}): string[][] {
+  const parser = new CsvParser(options);
+  return [...parser.push(text), ...parser.end()];
+}
+
+// Text starting with one of these is run as a formula when the file is opened in a spreadsheet
+export const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Keep a text cell from being read as a formula by prefixing an apostrophe,
+ * e.g. "=HYPERLINK(...)" is written as "'=HYPERLINK(...)".
+ */
+export function escapeFormula(text: string): string {
+  return FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix)) ? `'${text}` : text;
+}
+
+/**
+ * Format records as CSV with CRLF line endings. Fields containing the
+ * delimiter, a quote or a line break are quoted, with quotes doubled.
+ */
+export function formatCsv(records: string[][], options: CsvOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const formatField = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  return records.map((record) => record.map(formatField).join(delimiter)).join('\r\n') + '\r\n';
+}
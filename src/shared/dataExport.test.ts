@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatExportDateTime,
+  formatExportTableAsCsv,
+  formatPatientsForExport,
+  formatTasksForExport,
+} from './dataExport';
+import { Patient, Task } from './types';
+
+const TIME_ZONE = 'America/New_York';
+
+const createPatient = (overrides: Partial<Patient> = {}): Patient => ({
+  patientId: 'MRN0001',
+  patientName: 'Doe, John',
+  dob: '1960-05-15',
+  gender: 'M',
+  phone: '(555) 123-4567',
+  email: null,
+  preferredLanguage: 'English',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:30',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Pneumonia',
+  dischargeDisposition: 'Home',
+  dischargeMedications: 'Amoxicillin 500mg, Lisinopril 10mg',
+  allergies: 'NKDA',
+  attendingPhysician: 'Dr. Smith',
+  pcpName: null,
+  pcpPhone: null,
+  readmissionRiskScore: 'High',
+  fallRisk: null,
+  notes: 'Prefers "Johnny"',
+  ...overrides,
+});
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task_1',
+  patientId: 'MRN0001',
+  type: 'contact_patient',
+  status: 'pending',
+  dueStart: new Date('2026-01-14T15:30:00Z'),
+  dueEnd: new Date('2026-01-15T15:30:00Z'),
+  ...overrides,
+});
+
+describe('Data Export', () => {
+  describe('formatExportDateTime', () => {
+    it('should write the wall-clock time in the time zone', () => {
+      expect(formatExportDateTime(new Date('2026-07-01T03:05:00Z'), TIME_ZONE)).toBe('2026-06-30 23:05');
+      expect(formatExportDateTime(undefined, TIME_ZONE)).toBe('');
+    });
+  });
+
+  describe('formatTasksForExport', () => {
+    it('should write readable names, local times, completion and notes', () => {
+      const completed = createTask({
+        status: 'completed',
+        assignedTo: 'nurse-1',
+        completedAt: new Date('2026-01-14T20:00:00Z'),
+        completedBy: 'nurse-1',
+        contactAttempts: [{
+          id: 'attempt_1',
+          channel: 'phone',
+          destination: '555-1234',
+          outcome: 'reached',
+          attemptedAt: new Date('2026-01-14T19:55:00Z'),
+          attemptedBy: 'nurse-1',
+        }],
+        notes: [
+          { id: 'note_1', text: 'Called, all good', author: 'nurse-1', createdAt: new Date('2026-01-14T20:00:00Z') },
+          { id: 'note_2', text: '', author: 'former-nurse', createdAt: new Date('2026-01-14T21:00:00Z'), redacted: true },
+        ],
+      });
+
+      const table = formatTasksForExport([completed], [createPatient()], {
+        timeZone: TIME_ZONE,
+        staff: [{ id: 'nurse-1', displayName: 'Nurse One', role: 'nurse' }],
+      });
+
+      expect(table.columns).toContain('Status Reason');
+      expect(table.rows).toEqual([[
+        'task_1',
+        'MRN0001',
+        'Doe, John',
+        'Contact Patient',
+        'Completed',
+        '2026-01-14 10:30',
+        '2026-01-15 10:30',
+        'Nurse One',
+        '2026-01-14 15:00',
+        'Nurse One',
+        '',
+        1,
+        '2026-01-14 15:00 Nurse One: Called, all good\n2026-01-14 16:00 former-nurse: [redacted]',
+      ]]);
+    });
+
+    it('should give the reason a closed task was closed', () => {
+      const cancelled = createTask({
+        status: 'cancelled',
+        statusChanges: [{
+          action: 'cancelled',
+          reason: 'opted_out',
+          note: 'Moved out of state',
+          fromStatus: 'pending',
+          changedAt: new Date('2026-01-14T16:00:00Z'),
+          changedBy: 'nurse-1',
+        }],
+      });
+
+      const [row] = formatTasksForExport([cancelled], [], { timeZone: TIME_ZONE }).rows;
+
+      expect(row[4]).toBe('Cancelled');
+      expect(row[10]).toBe('Patient opted out: Moved out of state');
+    });
+
+    it('should escape text a spreadsheet would run as a formula', () => {
+      const patient = createPatient({ patientName: '=HYPERLINK("http://example.com","Open")' });
+      const staff = [{ id: 'nurse-1', displayName: '@Nurse', role: 'nurse' as const }];
+
+      const options = { timeZone: TIME_ZONE, staff };
+
+      const [row] = formatTasksForExport([createTask({ assignedTo: 'nurse-1' })], [patient], options).rows;
+
+      expect(row[2]).toBe('\'=HYPERLINK("http://example.com","Open")');
+      expect(row[7]).toBe("'@Nurse");
+      expect(row[11]).toBe(0);
+    });
+  });
+
+  describe('formatPatientsForExport', () => {
+    it('should write every field under the standard patient columns', () => {
+      const table = formatPatientsForExport([createPatient()]);
+
+      expect(table.columns.slice(0, 3)).toEqual(['patient_id', 'patient_name', 'dob']);
+      expect(table.rows[0].slice(0, 5)).toEqual(['MRN0001', 'Doe, John', '1960-05-15', 'M', '(555) 123-4567']);
+      expect(table.rows[0][table.columns.indexOf('email')]).toBe('');
+      expect(table.rows[0][table.columns.indexOf('length_of_stay')]).toBe(4);
+      expect(formatExportTableAsCsv(table).split('\r\n')[1]).toMatch(/^MRN0001,"Doe, John",1960-05-15,M,/);
+    });
+
+    it('should escape text a spreadsheet would run as a formula, but not numbers', () => {
+      const table = formatPatientsForExport([createPatient({
+        patientName: '=HYPERLINK("http://example.com","Open")',
+        phone: '+1 555 123 4567',
+        allergies: '-',
+        notes: '\tIndented',
+        lengthOfStay: -1,
+      })]);
+      const valueOf = (column: string) => table.rows[0][table.columns.indexOf(column)];
+
+      expect(valueOf('patient_name')).toBe('\'=HYPERLINK("http://example.com","Open")');
+      expect(valueOf('phone')).toBe("'+1 555 123 4567");
+      expect(valueOf('allergies')).toBe("'-");
+      expect(valueOf('notes')).toBe("'\tIndented");
+      expect(valueOf('length_of_stay')).toBe(-1);
+      expect(valueOf('primary_diagnosis')).toBe('Pneumonia');
+      expect(formatExportTableAsCsv(table).split('\r\n')[1])
+        .toMatch(/^MRN0001,"'=HYPERLINK\(""http:\/\/example.com"",""Open""\)",/);
+    });
+  });
+});
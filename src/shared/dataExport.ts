@@ -0,0 +1,129 @@
+// Tasks and patients as tables for download as CSV or a spreadsheet.
+// Used by the client (task list and patient roster exports).
+
+import { Patient, Task, TaskNote, TaskRule, User, TASK_RULES } from './types';
+import { PATIENT_CSV_COLUMNS } from './patientMapping';
+import { TASK_STATUS_CHANGE_REASON_LABELS, TASK_STATUS_LABELS } from './taskEngine';
+import { getTaskTypeLabel } from './taskRules';
+import { formatDateKey, getZonedDateTime } from './timeZone';
+import { escapeFormula, formatCsv } from './csv';
+
+export type ExportCell = string | number;
+
+/**
+ * Rows of values under named columns, ready to write as CSV or a sheet.
+ */
+export interface ExportTable {
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+/**
+ * How task values are turned into readable text.
+ */
+export interface TaskExportOptions {
+  timeZone: string;               // Times are written as the facility's wall-clock time
+  rules?: TaskRule[];             // Task names come from these (default: the built-in rules)
+  staff?: User[];                 // Owners and authors are written by name; unknown IDs as they are
+}
+
+const TASK_COLUMNS = [
+  'Task ID',
+  'MRN',
+  'Patient',
+  'Task',
+  'Status',
+  'Window Opens',
+  'Due',
+  'Assigned To',
+  'Completed At',
+  'Completed By',
+  'Status Reason',
+  'Contact Attempts',
+  'Notes',
+];
+
+/**
+ * Escape a text cell that a spreadsheet would run as a formula (see
+ * escapeFormula). Numbers are kept.
+ */
+function escapeCell(cell: ExportCell): ExportCell {
+  return typeof cell === 'string' ? escapeFormula(cell) : cell;
+}
+
+/**
+ * Format an instant as YYYY-MM-DD HH:MM in a time zone, or '' if there is none.
+ */
+export function formatExportDateTime(date: Date | undefined, timeZone: string): string {
+  if (!date) {
+    return '';
+  }
+  const { year, month, day, hour, minute } = getZonedDateTime(date, timeZone);
+  return `${formatDateKey(year, month, day)} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Why a closed task was closed, e.g. "Patient opted out: moved away".
+ */
+function describeClosure(task: Task): string {
+  const change = task.statusChanges?.[task.statusChanges.length - 1];
+  if (!change || (task.status !== 'cancelled' && task.status !== 'not_applicable')) {
+    return '';
+  }
+  const reason = TASK_STATUS_CHANGE_REASON_LABELS[change.reason];
+  return change.note ? `${reason}: ${change.note}` : reason;
+}
+
+/**
+ * Lay out tasks one per row, with readable task names and statuses, local
+ * times, completion details and the note thread (one note per line; redacted
+ * notes show only that they were redacted). Text that a spreadsheet would
+ * run as a formula is escaped.
+ */
+export function formatTasksForExport(tasks: Task[], patients: Patient[], options: TaskExportOptions): ExportTable {
+  const { timeZone, rules = TASK_RULES, staff = [] } = options;
+  const patientNames = new Map(patients.map((patient) => [patient.patientId, patient.patientName]));
+  const staffNames = new Map(staff.map((user) => [user.id, user.displayName]));
+  const nameOf = (userId: string | undefined) => (userId ? staffNames.get(userId) ?? userId : '');
+  const formatNote = (note: TaskNote) =>
+    `${formatExportDateTime(note.createdAt, timeZone)} ${nameOf(note.author)}: ${note.redacted ? '[redacted]' : note.text}`;
+
+  return {
+    columns: TASK_COLUMNS,
+    rows: tasks.map((task) => [
+      task.id,
+      task.patientId,
+      patientNames.get(task.patientId) ?? '',
+      getTaskTypeLabel(task.type, rules),
+      TASK_STATUS_LABELS[task.status],
+      formatExportDateTime(task.dueStart, timeZone),
+      formatExportDateTime(task.dueEnd, timeZone),
+      nameOf(task.assignedTo),
+      formatExportDateTime(task.completedAt, timeZone),
+      nameOf(task.completedBy),
+      describeClosure(task),
+      task.contactAttempts?.length ?? 0,
+      (task.notes ?? []).map(formatNote).join('\n'),
+    ].map(escapeCell)),
+  };
+}
+
+/**
+ * Lay out patients one per row under the standard patient CSV columns, so a
+ * roster exported as CSV can be imported again with the standard profile.
+ * Text that a spreadsheet would run as a formula is escaped.
+ */
+export function formatPatientsForExport(patients: Patient[]): ExportTable {
+  const fields = Object.keys(PATIENT_CSV_COLUMNS) as (keyof Patient)[];
+  return {
+    columns: fields.map((field) => PATIENT_CSV_COLUMNS[field]),
+    rows: patients.map((patient) => fields.map((field) => escapeCell(patient[field] ?? ''))),
+  };
+}
+
+/**
+ * Write a table as CSV, the column names first.
+ */
+export function formatExportTableAsCsv(table: ExportTable): string {
+  return formatCsv([table.columns, ...table.rows.map((row) => row.map(String))]);
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { Encounter, Patient, Task } from './types';
+import {
+  admitPatientInCollection,
+  dischargePatientInCollection,
+  generateTasksForEncounter,
+  getCurrentEncounter,
+  getEncounterTasks,
+  getPatientEncounters,
+  planReadmissionClosures,
+  validateDischargeInput,
+} from './encounters';
+
+const PATIENT = {
+  patientId: 'MRN0001',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Pneumonia',
+  dischargeDisposition: 'Home',
+  readmissionRiskScore: 'Low',
+  fallRisk: null,
+  preferredLanguage: 'English',
+  dob: '1960-01-01',
+} as Patient;
+
+const READMISSION: Encounter = {
+  id: 'MRN0001-2',
+  patientId: 'MRN0001',
+  admissionDate: '2026-01-20',
+  dischargeDate: null,
+  dischargeTime: null,
+  dischargeDisposition: null,
+  primaryDiagnosis: 'Sepsis',
+};
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  patientId: 'MRN0001',
+  type: 'contact_patient',
+  status: 'pending',
+  dueStart: new Date('2026-01-14T15:00:00Z'),
+  dueEnd: new Date('2026-01-15T15:00:00Z'),
+  ...overrides,
+});
+
+describe('encounters', () => {
+  describe('getPatientEncounters', () => {
+    it('should start with the stay in the patient record', () => {
+      const other = { ...READMISSION, id: 'MRN0002-2', patientId: 'MRN0002' };
+
+      expect(getPatientEncounters(PATIENT, [other, READMISSION])).toEqual([
+        {
+          id: 'MRN0001-1',
+          patientId: 'MRN0001',
+          admissionDate: '2026-01-10',
+          dischargeDate: '2026-01-14',
+          dischargeTime: '10:00',
+          dischargeDisposition: 'Home',
+          primaryDiagnosis: 'Pneumonia',
+        },
+        READMISSION,
+      ]);
+      expect(getCurrentEncounter(PATIENT, [])).toMatchObject({ id: 'MRN0001-1' });
+    });
+  });
+
+  describe('admitPatientInCollection', () => {
+    it('should start the next encounter after the last discharge', () => {
+      const { encounters, result } = admitPatientInCollection([], PATIENT, {
+        admissionDate: '2026-01-20',
+        primaryDiagnosis: ' Sepsis ',
+      });
+
+      expect(result).toEqual({ success: true, encounter: READMISSION });
+      expect(encounters).toEqual([READMISSION]);
+    });
+
+    it('should refuse while the patient is still admitted', () => {
+      const { encounters, result } = admitPatientInCollection([READMISSION], PATIENT, {
+        admissionDate: '2026-01-25',
+        primaryDiagnosis: 'Sepsis',
+      });
+
+      expect(result).toEqual({ success: false, error: 'Patient is still admitted (since 2026-01-20)' });
+      expect(encounters).toEqual([READMISSION]);
+    });
+
+    it('should refuse an admission before the last discharge', () => {
+      const { result } = admitPatientInCollection([], PATIENT, { admissionDate: '2026-01-12', primaryDiagnosis: 'Sepsis' });
+
+      expect(result.error).toBe('Readmission cannot be before the last discharge (2026-01-14)');
+    });
+  });
+
+  describe('dischargePatientInCollection', () => {
+    const discharge = { dischargeDate: '2026-01-24', dischargeTime: '', dischargeDisposition: 'Skilled nursing facility' as const };
+
+    it('should end the current encounter', () => {
+      const { encounters, result } = dischargePatientInCollection([READMISSION], PATIENT, 'MRN0001-2', {
+        ...discharge,
+        dischargeTime: null,
+      });
+
+      const discharged = {
+        ...READMISSION,
+        dischargeDate: '2026-01-24',
+        dischargeDisposition: 'Skilled nursing facility',
+      };
+      expect(result).toEqual({ success: true, encounter: discharged });
+      expect(encounters).toEqual([discharged]);
+    });
+
+    it('should refuse earlier encounters and ones already discharged', () => {
+      const input = { ...discharge, dischargeTime: null };
+
+      expect(dischargePatientInCollection([READMISSION], PATIENT, 'MRN0001-1', input).result.error)
+        .toBe("Encounter MRN0001-1 is not the patient's current encounter");
+      expect(dischargePatientInCollection([], PATIENT, 'MRN0001-1', input).result.error)
+        .toBe('Patient was already discharged on 2026-01-14');
+      expect(dischargePatientInCollection([READMISSION], PATIENT, 'MRN0001-2', {
+        ...input,
+        dischargeDate: '2026-01-19',
+      }).result.error).toBe('Discharge cannot be before the admission (2026-01-20)');
+    });
+
+    it('should validate the discharge fields', () => {
+      expect(validateDischargeInput(discharge)).toBe('dischargeTime must be a time (HH:MM) or null');
+      expect(validateDischargeInput({ ...discharge, dischargeTime: '09:30', dischargeDate: '24/01/2026' }))
+        .toBe('dischargeDate must be a date (YYYY-MM-DD)');
+      expect(validateDischargeInput({ ...discharge, dischargeTime: null, dischargeDisposition: 'Hospice' }))
+        .toMatch(/^dischargeDisposition must be one of/);
+    });
+  });
+
+  describe('planReadmissionClosures', () => {
+    it('should cancel the patient\'s open tasks only', () => {
+      const tasks = [
+        task('t1'),
+        task('t2', { status: 'completed' }),
+        task('t3', { status: 'not_applicable' }),
+        task('t4', { patientId: 'MRN0002' }),
+      ];
+
+      expect(planReadmissionClosures(tasks, READMISSION, 'nurse-1')).toEqual([{
+        taskId: 't1',
+        change: { action: 'cancelled', reason: 'readmitted', note: 'Readmitted on 2026-01-20', changedBy: 'nurse-1' },
+      }]);
+    });
+  });
+
+  describe('generateTasksForEncounter', () => {
+    it('should time tasks from the encounter\'s discharge and tag them with it', () => {
+      const discharged: Encounter = {
+        ...READMISSION,
+        dischargeDate: '2026-01-24',
+        dischargeTime: '09:00',
+        dischargeDisposition: 'Skilled nursing facility',
+      };
+
+      const tasks = generateTasksForEncounter(PATIENT, discharged);
+
+      expect(tasks.map((t) => t.type)).toContain('facility_handoff');
+      expect(tasks.every((t) => t.encounterId === 'MRN0001-2')).toBe(true);
+      expect(tasks[0].id).toBe('task_MRN0001-2_contact_patient');
+      expect(tasks[0].dueStart).toEqual(new Date('2026-01-24T14:00:00Z'));
+    });
+
+    it('should refuse an encounter that has not been discharged', () => {
+      expect(() => generateTasksForEncounter(PATIENT, READMISSION)).toThrow('Encounter MRN0001-2 has not been discharged');
+    });
+  });
+
+  describe('getEncounterTasks', () => {
+    it('should count tasks without an encounter as the first encounter\'s', () => {
+      const tasks = [task('t1'), task('t2', { encounterId: 'MRN0001-2' })];
+      const [first, second] = getPatientEncounters(PATIENT, [READMISSION]);
+
+      expect(getEncounterTasks(tasks, first).map((t) => t.id)).toEqual(['t1']);
+      expect(getEncounterTasks(tasks, second).map((t) => t.id)).toEqual(['t2']);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+// Encounters: a patient's hospital stays, and what a readmission or a new
+// discharge does to their tasks. Used by both the client and the server.
+
+import {
+  AdmissionInput,
+  DischargeInput,
+  Encounter,
+  Patient,
+  Task,
+  TaskRule,
+  TaskStatusChangeInput,
+  WorkingCalendar,
+  DISCHARGE_DISPOSITIONS,
+  DEFAULT_WORKING_CALENDAR,
+  TASK_RULES,
+} from './types';
+import { generateTaskId, generateTasksForPatient, isOpenTask } from './taskEngine';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Result of recording an admission or discharge
+ */
+export interface EncounterResult {
+  success: boolean;
+  encounter?: Encounter;
+  error?: string;
+}
+
+/**
+ * Build the ID of a patient's nth encounter (numbered from 1).
+ */
+export function getEncounterId(patientId: string, number: number): string {
+  return `${patientId}-${number}`;
+}
+
+/**
+ * Get the encounter described by the patient record itself.
+ */
+export function getFirstEncounter(patient: Patient): Encounter {
+  return {
+    id: getEncounterId(patient.patientId, 1),
+    patientId: patient.patientId,
+    admissionDate: patient.admissionDate,
+    dischargeDate: patient.dischargeDate,
+    dischargeTime: patient.dischargeTime,
+    dischargeDisposition: patient.dischargeDisposition,
+    primaryDiagnosis: patient.primaryDiagnosis,
+  };
+}
+
+/**
+ * Get all of a patient's encounters, oldest first: the one in the patient
+ * record followed by the readmissions recorded since.
+ *
+ * @param recorded - Recorded readmissions (for any patients)
+ */
+export function getPatientEncounters(patient: Patient, recorded: Encounter[]): Encounter[] {
+  return [getFirstEncounter(patient), ...recorded.filter((encounter) => encounter.patientId === patient.patientId)];
+}
+
+/**
+ * Get a patient's latest encounter.
+ */
+export function getCurrentEncounter(patient: Patient, recorded: Encounter[]): Encounter {
+  const encounters = getPatientEncounters(patient, recorded);
+  return encounters[encounters.length - 1];
+}
+
+/**
+ * Check whether the patient is still in hospital for an encounter.
+ */
+export function isInHospital(encounter: Encounter): boolean {
+  return encounter.dischargeDate === null;
+}
+
+/**
+ * Get the ID of the encounter a task belongs to. Tasks without one were
+ * generated from the patient record, so belong to the first encounter.
+ */
+export function getTaskEncounterId(task: Task): string {
+  return task.encounterId ?? getEncounterId(task.patientId, 1);
+}
+
+/**
+ * Get the tasks generated for an encounter's discharge.
+ */
+export function getEncounterTasks(tasks: Task[], encounter: Encounter): Task[] {
+  return tasks.filter((task) => task.patientId === encounter.patientId && getTaskEncounterId(task) === encounter.id);
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Validate an untrusted admission (e.g. from a request body).
+ * Returns an error message, or undefined if the admission is valid.
+ */
+export function validateAdmissionInput(input: unknown): string | undefined {
+  if (typeof input !== 'object' || input === null) {
+    return 'Admission must be an object';
+  }
+  const { admissionDate, primaryDiagnosis } = input as Record<string, unknown>;
+
+  if (!isValidDate(admissionDate)) {
+    return 'admissionDate must be a date (YYYY-MM-DD)';
+  }
+  if (typeof primaryDiagnosis !== 'string' || primaryDiagnosis.trim() === '') {
+    return 'primaryDiagnosis must be a non-empty string';
+  }
+  return undefined;
+}
+
+/**
+ * Validate an untrusted discharge (e.g. from a request body).
+ * Returns an error message, or undefined if the discharge is valid.
+ */
+export function validateDischargeInput(input: unknown): string | undefined {
+  if (typeof input !== 'object' || input === null) {
+    return 'Discharge must be an object';
+  }
+  const { dischargeDate, dischargeTime, dischargeDisposition } = input as Record<string, unknown>;
+
+  if (!isValidDate(dischargeDate)) {
+    return 'dischargeDate must be a date (YYYY-MM-DD)';
+  }
+  if (dischargeTime !== null && (typeof dischargeTime !== 'string' || !TIME_OF_DAY_PATTERN.test(dischargeTime))) {
+    return 'dischargeTime must be a time (HH:MM) or null';
+  }
+  if (!DISCHARGE_DISPOSITIONS.includes(dischargeDisposition as DischargeInput['dischargeDisposition'])) {
+    return `dischargeDisposition must be one of: ${DISCHARGE_DISPOSITIONS.join(', ')}`;
+  }
+  return undefined;
+}
+
+/**
+ * Record a readmission, starting a new encounter. The patient must have been
+ * discharged from their current encounter, no later than the new admission.
+ *
+ * @param recorded - Recorded readmissions (for any patients)
+ * @returns Object with the updated readmissions and the result
+ */
+export function admitPatientInCollection(
+  recorded: Encounter[],
+  patient: Patient,
+  input: AdmissionInput
+): { encounters: Encounter[]; result: EncounterResult } {
+  const validationError = validateAdmissionInput(input);
+  if (validationError) {
+    return { encounters: recorded, result: { success: false, error: validationError } };
+  }
+
+  const encounters = getPatientEncounters(patient, recorded);
+  const current = encounters[encounters.length - 1];
+  if (current.dischargeDate === null) {
+    return {
+      encounters: recorded,
+      result: { success: false, error: `Patient is still admitted (since ${current.admissionDate})` },
+    };
+  }
+  if (input.admissionDate < current.dischargeDate) {
+    return {
+      encounters: recorded,
+      result: { success: false, error: `Readmission cannot be before the last discharge (${current.dischargeDate})` },
+    };
+  }
+
+  const encounter: Encounter = {
+    id: getEncounterId(patient.patientId, encounters.length + 1),
+    patientId: patient.patientId,
+    admissionDate: input.admissionDate,
+    dischargeDate: null,
+    dischargeTime: null,
+    dischargeDisposition: null,
+    primaryDiagnosis: input.primaryDiagnosis.trim(),
+  };
+  return { encounters: [...recorded, encounter], result: { success: true, encounter } };
+}
+
+/**
+ * Record the discharge that ends a readmission. Only the patient's current
+ * encounter can be discharged, and not before it began.
+ *
+ * @param recorded - Recorded readmissions (for any patients)
+ * @returns Object with the updated readmissions and the result
+ */
+export function dischargePatientInCollection(
+  recorded: Encounter[],
+  patient: Patient,
+  encounterId: string,
+  input: DischargeInput
+): { encounters: Encounter[]; result: EncounterResult } {
+  const validationError = validateDischargeInput(input);
+  if (validationError) {
+    return { encounters: recorded, result: { success: false, error: validationError } };
+  }
+
+  const current = getCurrentEncounter(patient, recorded);
+  if (current.id !== encounterId) {
+    return {
+      encounters: recorded,
+      result: { success: false, error: `Encounter ${encounterId} is not the patient's current encounter` },
+    };
+  }
+  if (current.dischargeDate !== null) {
+    return {
+      encounters: recorded,
+      result: { success: false, error: `Patient was already discharged on ${current.dischargeDate}` },
+    };
+  }
+  if (input.dischargeDate < current.admissionDate) {
+    return {
+      encounters: recorded,
+      result: { success: false, error: `Discharge cannot be before the admission (${current.admissionDate})` },
+    };
+  }
+
+  const encounter: Encounter = {
+    ...current,
+    dischargeDate: input.dischargeDate,
+    dischargeTime: input.dischargeTime || null,
+    dischargeDisposition: input.dischargeDisposition,
+  };
+  return {
+    encounters: recorded.map((existing) => (existing.id === encounter.id ? encounter : existing)),
+    result: { success: true, encounter },
+  };
+}
+
+/**
+ * Plan the cancellations a readmission makes: every task still open for the
+ * patient is cancelled with the reason "readmitted", so it stops going overdue.
+ */
+export function planReadmissionClosures(
+  tasks: Task[],
+  admission: Encounter,
+  changedBy: string
+): { taskId: string; change: TaskStatusChangeInput }[] {
+  return tasks
+    .filter((task) => task.patientId === admission.patientId && isOpenTask(task))
+    .map((task) => ({
+      taskId: task.id,
+      change: {
+        action: 'cancelled',
+        reason: 'readmitted',
+        note: `Readmitted on ${admission.admissionDate}`,
+        changedBy,
+      },
+    }));
+}
+
+/**
+ * Get the patient as of a discharged encounter: the patient record with the
+ * encounter's admission, discharge and diagnosis in place of the first one's.
+ */
+export function getEncounterPatient(patient: Patient, encounter: Encounter): Patient {
+  if (encounter.dischargeDate === null || encounter.dischargeDisposition === null) {
+    throw new Error(`Encounter ${encounter.id} has not been discharged`);
+  }
+  return {
+    ...patient,
+    admissionDate: encounter.admissionDate,
+    dischargeDate: encounter.dischargeDate,
+    dischargeTime: encounter.dischargeTime,
+    dischargeDisposition: encounter.dischargeDisposition,
+    primaryDiagnosis: encounter.primaryDiagnosis,
+    lengthOfStay: Math.round((Date.parse(encounter.dischargeDate) - Date.parse(encounter.admissionDate)) / DAY_MS),
+  };
+}
+
+/**
+ * Generate the tasks that follow an encounter's discharge, tagged with the
+ * encounter (and with IDs derived from it).
+ */
+export function generateTasksForEncounter(
+  patient: Patient,
+  encounter: Encounter,
+  rules: TaskRule[] = TASK_RULES,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): Task[] {
+  return generateTasksForPatient(getEncounterPatient(patient, encounter), rules, calendar)
+    .map((task) => ({
+      ...task,
+      id: generateTaskId({ patientId: patient.patientId, type: task.type, encounterId: encounter.id }),
+      encounterId: encounter.id,
+    }));
+}
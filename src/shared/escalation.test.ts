@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { EscalationPolicy, Patient, Task, User } from './types';
+import {
+  findEscalationPolicy,
+  getEscalatedTasks,
+  getEscalationTime,
+  getNextEscalationTime,
+  planEscalations,
+  resolveEscalationRecipients,
+} from './escalation';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-01-14T00:00:00Z');
+
+const USERS: User[] = [
+  { id: 'maria', displayName: 'Maria', role: 'nurse' },
+  { id: 'james', displayName: 'James', role: 'assistant' },
+  { id: 'sam', displayName: 'Sam', role: 'supervisor' },
+];
+
+const POLICIES: EscalationPolicy[] = [
+  {
+    readmissionRiskScore: ['High'],
+    tiers: [
+      { notify: 'assignee', windowPercent: 50 },
+      { notify: 'charge_nurse', hoursAfterDue: 0 },
+      { notify: 'supervisor', hoursAfterDue: 4 },
+    ],
+  },
+  { taskTypes: ['contact_patient'], tiers: [{ notify: 'charge_nurse', hoursAfterDue: 0 }] },
+];
+
+const task = (id: string, patientId: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  patientId,
+  type: 'schedule_follow_up',
+  status: 'pending',
+  dueStart: START,
+  dueEnd: new Date(START.getTime() + 24 * HOUR),
+  assignedTo: 'james',
+  ...overrides,
+});
+
+const patient = (patientId: string, readmissionRiskScore: Patient['readmissionRiskScore']) =>
+  ({ patientId, readmissionRiskScore }) as Patient;
+
+const PATIENTS = [patient('P1', 'High'), patient('P2', 'Low')];
+const at = (hours: number) => new Date(START.getTime() + hours * HOUR);
+
+describe('escalation', () => {
+  describe('findEscalationPolicy', () => {
+    it('should pick the first policy matching both task type and risk', () => {
+      expect(findEscalationPolicy(task('t1', 'P1'), PATIENTS[0], POLICIES)).toBe(POLICIES[0]);
+      expect(findEscalationPolicy(task('t1', 'P2', { type: 'contact_patient' }), PATIENTS[1], POLICIES)).toBe(POLICIES[1]);
+      expect(findEscalationPolicy(task('t1', 'P2'), PATIENTS[1], POLICIES)).toBeUndefined();
+    });
+  });
+
+  describe('getEscalationTime', () => {
+    it('should count window percentages from dueStart and hours from dueEnd', () => {
+      expect(getEscalationTime(task('t1', 'P1'), { notify: 'assignee', windowPercent: 50 })).toEqual(at(12));
+      expect(getEscalationTime(task('t1', 'P1'), { notify: 'supervisor', hoursAfterDue: 4 })).toEqual(at(28));
+    });
+  });
+
+  describe('resolveEscalationRecipients', () => {
+    it('should notify the assignee, charge nurses or supervisors', () => {
+      expect(resolveEscalationRecipients(task('t1', 'P1'), 'assignee', USERS)).toEqual(['james']);
+      expect(resolveEscalationRecipients(task('t1', 'P1', { assignedTo: undefined }), 'assignee', USERS)).toEqual([]);
+      expect(resolveEscalationRecipients(task('t1', 'P1'), 'charge_nurse', USERS)).toEqual(['maria']);
+      expect(resolveEscalationRecipients(task('t1', 'P1'), 'supervisor', USERS)).toEqual(['sam']);
+    });
+  });
+
+  describe('planEscalations', () => {
+    it('should plan tiers that are due and not yet reached', () => {
+      const tasks = [task('t1', 'P1'), task('t2', 'P2', { type: 'contact_patient' })];
+
+      expect(planEscalations(tasks, PATIENTS, USERS, POLICIES, at(11))).toEqual([]);
+      expect(planEscalations(tasks, PATIENTS, USERS, POLICIES, at(12))).toEqual([
+        { taskId: 't1', escalations: [{ level: 1, notify: 'assignee', recipients: ['james'], escalatedAt: at(12) }] },
+      ]);
+    });
+
+    it('should fire every passed tier together after downtime', () => {
+      const [plan] = planEscalations([task('t1', 'P1')], PATIENTS, USERS, POLICIES, at(30));
+      expect(plan.escalations.map((e) => e.level)).toEqual([1, 2, 3]);
+    });
+
+    it('should not repeat a level or escalate completed tasks', () => {
+      const reached = task('t1', 'P1', {
+        escalations: [{ level: 1, notify: 'assignee', recipients: ['james'], escalatedAt: at(12) }],
+      });
+      const completed = task('t2', 'P1', { status: 'completed' });
+
+      expect(planEscalations([reached, completed], PATIENTS, USERS, POLICIES, at(20))).toEqual([]);
+      expect(planEscalations([reached], PATIENTS, USERS, POLICIES, at(24))[0].escalations.map((e) => e.level)).toEqual([2]);
+    });
+  });
+
+  describe('getNextEscalationTime', () => {
+    it('should return the earliest pending tier, or null', () => {
+      const tasks = [task('t1', 'P1'), task('t2', 'P2', { type: 'contact_patient', dueEnd: at(6) })];
+
+      expect(getNextEscalationTime(tasks, PATIENTS, POLICIES)).toEqual(at(6));
+      expect(getNextEscalationTime([task('t3', 'P2')], PATIENTS, POLICIES)).toBeNull();
+    });
+  });
+
+  describe('getEscalatedTasks', () => {
+    it('should list open escalated tasks, highest level first', () => {
+      const escalation = (level: number, hours: number) =>
+        ({ level, notify: 'assignee' as const, recipients: [], escalatedAt: at(hours) });
+      const tasks = [
+        task('low', 'P1', { escalations: [escalation(1, 12)] }),
+        task('high', 'P1', { escalations: [escalation(1, 12), escalation(2, 24)] }),
+        task('older', 'P1', { escalations: [escalation(1, 10)] }),
+        task('done', 'P1', { status: 'completed', escalations: [escalation(3, 30)] }),
+        task('none', 'P1'),
+      ];
+
+      expect(getEscalatedTasks(tasks).map((t) => t.id)).toEqual(['high', 'older', 'low']);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// Escalation: when an open task's tiers fire and who they notify.
+// Policies are part of the task rule set (validated in taskRules.ts); the
+// server scheduler, or demo mode on read, records fired tiers on the task.
+
+import {
+  EscalationPolicy,
+  EscalationRecipient,
+  EscalationTier,
+  Patient,
+  Task,
+  TaskEscalation,
+  TaskEscalationPlan,
+  User,
+  DEFAULT_ESCALATION_POLICIES,
+} from './types';
+import { isOpenTask } from './taskEngine';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const ESCALATION_RECIPIENT_LABELS: Record<EscalationRecipient, string> = {
+  assignee: 'Assigned staff',
+  charge_nurse: 'Charge nurse',
+  supervisor: 'Supervisor',
+};
+
+// =============================================================================
+// Tier Timing
+// =============================================================================
+
+/**
+ * Find the policy that applies to a task: the first whose task types and risk
+ * levels both match. Returns undefined if none does.
+ */
+export function findEscalationPolicy(
+  task: Task,
+  patient: Patient | undefined,
+  policies: EscalationPolicy[] = DEFAULT_ESCALATION_POLICIES
+): EscalationPolicy | undefined {
+  return policies.find((policy) =>
+    (!policy.taskTypes || policy.taskTypes.includes(task.type)) &&
+    (!policy.readmissionRiskScore ||
+      (patient !== undefined && policy.readmissionRiskScore.includes(patient.readmissionRiskScore))));
+}
+
+/**
+ * Get when a tier fires for a task. Window percentages count wall-clock time
+ * between dueStart and dueEnd, whichever way the window itself was counted.
+ */
+export function getEscalationTime(task: Task, tier: EscalationTier): Date {
+  if (tier.windowPercent !== undefined) {
+    const windowMs = task.dueEnd.getTime() - task.dueStart.getTime();
+    return new Date(task.dueStart.getTime() + (windowMs * tier.windowPercent) / 100);
+  }
+  return new Date(task.dueEnd.getTime() + (tier.hoursAfterDue ?? 0) * HOUR_MS);
+}
+
+/**
+ * Get the highest escalation level a task has reached (0 if none).
+ */
+export function getEscalationLevel(task: Task): number {
+  return (task.escalations ?? []).reduce((level, escalation) => Math.max(level, escalation.level), 0);
+}
+
+/**
+ * Get the user IDs a tier notifies.
+ */
+export function resolveEscalationRecipients(task: Task, notify: EscalationRecipient, users: User[]): string[] {
+  switch (notify) {
+    case 'assignee':
+      return task.assignedTo ? [task.assignedTo] : [];
+    case 'charge_nurse':
+      return users.filter((user) => user.role === 'nurse').map((user) => user.id);
+    case 'supervisor':
+      return users.filter((user) => user.role === 'supervisor').map((user) => user.id);
+  }
+}
+
+/**
+ * Plan the tiers that are due on open tasks and have not fired yet. Tiers the
+ * task has passed while no scheduler was running fire together.
+ */
+export function planEscalations(
+  tasks: Task[],
+  patients: Patient[],
+  users: User[],
+  policies: EscalationPolicy[] = DEFAULT_ESCALATION_POLICIES,
+  now: Date = new Date()
+): TaskEscalationPlan[] {
+  const patientsById = new Map(patients.map((patient) => [patient.patientId, patient]));
+  const plans: TaskEscalationPlan[] = [];
+
+  for (const task of tasks) {
+    const policy = isOpenTask(task) ? findEscalationPolicy(task, patientsById.get(task.patientId), policies) : undefined;
+    if (!policy) {
+      continue;
+    }
+
+    const reached = getEscalationLevel(task);
+    const escalations: TaskEscalation[] = policy.tiers
+      .map((tier, i) => ({ tier, level: i + 1 }))
+      .filter(({ tier, level }) => level > reached && getEscalationTime(task, tier) <= now)
+      .map(({ tier, level }) => ({
+        level,
+        notify: tier.notify,
+        recipients: resolveEscalationRecipients(task, tier.notify, users),
+        escalatedAt: now,
+      }));
+    if (escalations.length > 0) {
+      plans.push({ taskId: task.id, escalations });
+    }
+  }
+  return plans;
+}
+
+/**
+ * Get when the next tier fires on any open task, or null if none is pending.
+ */
+export function getNextEscalationTime(
+  tasks: Task[],
+  patients: Patient[],
+  policies: EscalationPolicy[] = DEFAULT_ESCALATION_POLICIES
+): Date | null {
+  const patientsById = new Map(patients.map((patient) => [patient.patientId, patient]));
+  let next: Date | null = null;
+
+  for (const task of tasks.filter(isOpenTask)) {
+    const policy = findEscalationPolicy(task, patientsById.get(task.patientId), policies);
+    const tier = policy?.tiers[getEscalationLevel(task)];
+    if (tier) {
+      const at = getEscalationTime(task, tier);
+      if (!next || at < next) {
+        next = at;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Get open tasks that have escalated, highest level first, then longest escalated.
+ */
+export function getEscalatedTasks(tasks: Task[]): Task[] {
+  const latest = (task: Task) => task.escalations![task.escalations!.length - 1].escalatedAt.getTime();
+  return tasks
+    .filter((task) => isOpenTask(task) && getEscalationLevel(task) > 0)
+    .sort((a, b) => getEscalationLevel(b) - getEscalationLevel(a) || latest(a) - latest(b));
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { AuditEntry, LiveUpdate } from './types';
+import { createChangeUpdate, deserializeLiveUpdate, formatServerSentEvent } from './liveUpdates';
+
+const NOW = new Date('2026-01-14T12:00:00Z');
+
+describe('liveUpdates', () => {
+  it('should announce a change without its before and after values', () => {
+    const entry: AuditEntry = {
+      id: 'audit_1',
+      at: NOW,
+      actor: 'nurse-1',
+      action: 'task.note_added',
+      entityType: 'task',
+      entityId: 'task_1',
+      patientId: 'MRN0001',
+      after: { text: 'Private' },
+    };
+
+    expect(createChangeUpdate(entry)).toEqual({
+      type: 'change',
+      action: 'task.note_added',
+      entityType: 'task',
+      entityId: 'task_1',
+      patientId: 'MRN0001',
+      at: NOW,
+    });
+  });
+
+  it('should round-trip updates through the server-sent event data', () => {
+    const updates: LiveUpdate[] = [
+      { type: 'tick', at: NOW },
+      {
+        type: 'task_event',
+        event: { seq: 1, type: 'task.overdue', taskId: 'task_1', patientId: 'MRN0001', at: NOW, emittedAt: NOW },
+      },
+    ];
+
+    for (const update of updates) {
+      const [name, data] = formatServerSentEvent(update).trim().split('\n');
+      expect(name).toBe(`event: ${update.type}`);
+      expect(deserializeLiveUpdate(data.slice('data: '.length))).toEqual(update);
+    }
+  });
+});
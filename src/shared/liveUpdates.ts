@@ -0,0 +1,45 @@
+// Live updates: the messages pushed to open screens, and their wire format.
+// The server sends them as server-sent events; demo mode raises them in the browser.
+
+import { AuditEntry, LiveUpdate } from './types';
+import { deserializeTaskEvent, StoredTaskEvent } from './taskEvents';
+
+/**
+ * How often a tick is sent when nothing else happens.
+ */
+export const LIVE_TICK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Build the update announcing a recorded change.
+ */
+export function createChangeUpdate(entry: AuditEntry): LiveUpdate {
+  return {
+    type: 'change',
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    patientId: entry.patientId,
+    at: entry.at,
+  };
+}
+
+/**
+ * Format an update as a server-sent event, named after its type.
+ */
+export function formatServerSentEvent(update: LiveUpdate): string {
+  return `event: ${update.type}\ndata: ${JSON.stringify(update)}\n\n`;
+}
+
+/**
+ * Convert an update from its JSON form (ISO date strings) back to Date objects.
+ */
+export function deserializeLiveUpdate(json: string): LiveUpdate {
+  const update = JSON.parse(json) as LiveUpdate;
+  switch (update.type) {
+    case 'change':
+    case 'tick':
+      return { ...update, at: new Date(update.at) };
+    case 'task_event':
+      return { ...update, event: deserializeTaskEvent(update.event as unknown as StoredTaskEvent) };
+  }
+}
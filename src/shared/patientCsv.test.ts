@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import { parsePatientCSV, previewPatientCSV } from './patientCsv';
+import { STANDARD_MAPPING_PROFILE } from './patientMapping';
+import { formatExportTableAsCsv, formatPatientsForExport } from './dataExport';
+import { PatientMappingProfile } from './types';
+
+// Sample valid CSV content
+const VALID_CSV = `patient_id,patient_name,dob,gender,phone,email,preferred_language,admission_date,discharge_date,discharge_time,length_of_stay,primary_diagnosis,discharge_disposition,discharge_medications,allergies,attending_physician,pcp_name,pcp_phone,readmission_risk_score,fall_risk,notes
+MRN001,John Doe,1960-05-15,M,555-1234,john@test.com,English,2026-01-01,2026-01-05,10:30,4,Heart failure,Home,Medication A,Penicillin,Dr. Smith,Dr. Jones,555-5678,High,Low,Test notes
+MRN002,Jane Smith,1975-08-20,F,,,Spanish,2026-01-02,2026-01-06,,4,Pneumonia,Skilled nursing facility,"Med A, Med B",NKDA,Dr. Brown,,,Very High,High,SNF patient`;
+
+describe('CSV Parser', () => {
+  describe('parsePatientCSV', () => {
+    it('should parse a valid CSV string', () => {
+      const patients = parsePatientCSV(VALID_CSV);
+
+      expect(patients).toHaveLength(2);
+      expect(patients[0].patientId).toBe('MRN001');
+      expect(patients[1].patientId).toBe('MRN002');
+    });
+
+    it('should correctly parse all patient fields', () => {
+      const patients = parsePatientCSV(VALID_CSV);
+      const patient = patients[0];
+
+      expect(patient.patientId).toBe('MRN001');
+      expect(patient.patientName).toBe('John Doe');
+      expect(patient.dob).toBe('1960-05-15');
+      expect(patient.gender).toBe('M');
+      expect(patient.phone).toBe('555-1234');
+      expect(patient.email).toBe('john@test.com');
+      expect(patient.preferredLanguage).toBe('English');
+      expect(patient.admissionDate).toBe('2026-01-01');
+      expect(patient.dischargeDate).toBe('2026-01-05');
+      expect(patient.dischargeTime).toBe('10:30');
+      expect(patient.lengthOfStay).toBe(4);
+      expect(patient.primaryDiagnosis).toBe('Heart failure');
+      expect(patient.dischargeDisposition).toBe('Home');
+      expect(patient.dischargeMedications).toBe('Medication A');
+      expect(patient.allergies).toBe('Penicillin');
+      expect(patient.attendingPhysician).toBe('Dr. Smith');
+      expect(patient.pcpName).toBe('Dr. Jones');
+      expect(patient.pcpPhone).toBe('555-5678');
+      expect(patient.readmissionRiskScore).toBe('High');
+      expect(patient.fallRisk).toBe('Low');
+      expect(patient.notes).toBe('Test notes');
+    });
+
+    it('should handle nullable fields correctly', () => {
+      const patients = parsePatientCSV(VALID_CSV);
+      const patient = patients[1]; // Jane Smith has empty nullable fields
+
+      expect(patient.phone).toBeNull();
+      expect(patient.email).toBeNull();
+      expect(patient.dischargeTime).toBeNull();
+      expect(patient.pcpName).toBeNull();
+      expect(patient.pcpPhone).toBeNull();
+    });
+
+    it('should handle quoted fields with commas', () => {
+      const patients = parsePatientCSV(VALID_CSV);
+      const patient = patients[1];
+
+      expect(patient.dischargeMedications).toBe('Med A, Med B');
+    });
+
+    it('should read CRLF files with escaped quotes and line breaks in quoted fields', () => {
+      const [header, first] = VALID_CSV.split('\n');
+      const csv = [
+        header,
+        first.replace('Test notes', '"Prefers ""Johnny"".\r\nCall after 5pm"'),
+        first.replace('MRN001', 'MRN003'),
+      ].join('\r\n') + '\r\n';
+
+      const patients = parsePatientCSV(csv);
+
+      expect(patients.map((p) => p.patientId)).toEqual(['MRN001', 'MRN003']);
+      expect(patients[0].notes).toBe('Prefers "Johnny".\r\nCall after 5pm');
+      expect(patients[1].notes).toBe('Test notes');
+    });
+
+    it('should read other delimiters', () => {
+      const semicolons = VALID_CSV.split('\n')
+        .map((line) => line.replace(/"[^"]*"|,/g, (match) => (match === ',' ? ';' : match)))
+        .join('\n');
+
+      expect(parsePatientCSV(semicolons, { ...STANDARD_MAPPING_PROFILE, delimiter: ';' })[1].dischargeMedications).toBe('Med A, Med B');
+    });
+
+    it('should parse SNF discharge disposition', () => {
+      const patients = parsePatientCSV(VALID_CSV);
+      const snfPatient = patients[1];
+
+      expect(snfPatient.dischargeDisposition).toBe('Skilled nursing facility');
+    });
+
+    it('should parse Very High risk level', () => {
+      const patients = parsePatientCSV(VALID_CSV);
+      const highRiskPatient = patients[1];
+
+      expect(highRiskPatient.readmissionRiskScore).toBe('Very High');
+    });
+
+    it('should throw error for empty CSV', () => {
+      expect(() => parsePatientCSV('')).toThrow('CSV must have a header row and at least one data row');
+    });
+
+    it('should throw error for CSV with only header', () => {
+      const headerOnly = 'patient_id,patient_name,dob';
+      expect(() => parsePatientCSV(headerOnly)).toThrow('CSV must have a header row and at least one data row');
+    });
+
+    it('should throw error for invalid discharge disposition', () => {
+      const invalidCSV = `patient_id,patient_name,dob,gender,phone,email,preferred_language,admission_date,discharge_date,discharge_time,length_of_stay,primary_diagnosis,discharge_disposition,discharge_medications,allergies,attending_physician,pcp_name,pcp_phone,readmission_risk_score,fall_risk,notes
+MRN001,Test,1960-01-01,M,,,English,2026-01-01,2026-01-05,,4,Test,Invalid Disposition,Med,NKDA,Dr. A,,,Medium,,`;
+
+      expect(() => parsePatientCSV(invalidCSV)).toThrow('Invalid discharge disposition');
+    });
+
+    it('should throw error for invalid risk level', () => {
+      const invalidCSV = `patient_id,patient_name,dob,gender,phone,email,preferred_language,admission_date,discharge_date,discharge_time,length_of_stay,primary_diagnosis,discharge_disposition,discharge_medications,allergies,attending_physician,pcp_name,pcp_phone,readmission_risk_score,fall_risk,notes
+MRN001,Test,1960-01-01,M,,,English,2026-01-01,2026-01-05,,4,Test,Home,Med,NKDA,Dr. A,,,Invalid,,`;
+
+      expect(() => parsePatientCSV(invalidCSV)).toThrow('Invalid risk level');
+    });
+
+    it('should throw error for missing required field', () => {
+      const missingField = `patient_id,patient_name,dob,gender,phone,email,preferred_language,admission_date,discharge_date,discharge_time,length_of_stay,primary_diagnosis,discharge_disposition,discharge_medications,allergies,attending_physician,pcp_name,pcp_phone,readmission_risk_score,fall_risk,notes
+,Test,1960-01-01,M,,,English,2026-01-01,2026-01-05,,4,Test,Home,Med,NKDA,Dr. A,,,High,,`;
+
+      expect(() => parsePatientCSV(missingField)).toThrow('Missing required field');
+    });
+  });
+
+  describe('previewPatientCSV', () => {
+    const HEADER = VALID_CSV.split('\n')[0];
+
+    it('should report every problem on every row instead of stopping at the first', () => {
+      const csv = [
+        HEADER,
+        ',Test,1960-01-01,M,,,English,2026-01-01,2026-01-05,,4,Test,Hospice,Med,NKDA,Dr. A,,,Unknown,,',
+        'MRN003,Short row',
+        'MRN004,Test,1960-01-01,M,,,English,2026-01-01,2026-01-05,,4,Test,Home,Med,NKDA,Dr. A,,,Low,Bad,',
+      ].join('\n');
+
+      const { rows, errors } = previewPatientCSV(csv);
+
+      expect(errors).toEqual([]);
+      expect(rows.map((row) => [row.rowNumber, row.issues.length])).toEqual([[2, 3], [3, 1], [4, 1]]);
+      expect(rows[0].issues[0]).toEqual({ field: 'patientId', severity: 'error', message: 'Missing required field "patient_id"' });
+      expect(rows[1].issues).toEqual([{ severity: 'error', message: 'Expected 21 columns but got 2' }]);
+      expect(rows.every((row) => row.patient === undefined)).toBe(true);
+    });
+
+    it('should keep valid rows and reject repeated patient IDs', () => {
+      const [header, first, second] = VALID_CSV.split('\n');
+
+      const { rows } = previewPatientCSV([header, first, second, first].join('\n'));
+
+      expect(rows.map((row) => row.patient?.patientId)).toEqual(['MRN001', 'MRN002', undefined]);
+      expect(rows[2].issues.map((issue) => issue.message)).toEqual(['Duplicate patient ID "MRN001" (first on row 2)']);
+    });
+
+    it('should number rows by record, not by line', () => {
+      const [header, first, second] = VALID_CSV.split('\n');
+      const multiline = first.replace('Test notes', '"Two\nlines"');
+
+      const { rows } = previewPatientCSV([header, multiline, second.replace('Very High', 'Extreme')].join('\n'));
+
+      expect(rows.map((row) => [row.rowNumber, row.issues.length])).toEqual([[2, 0], [3, 1]]);
+    });
+
+    it('should report a quote that is never closed', () => {
+      const [header, first] = VALID_CSV.split('\n');
+
+      expect(previewPatientCSV([header, first.replace('Test notes', '"Unfinished')].join('\n')).errors)
+        .toEqual(['Quoted field is never closed (line 2)']);
+    });
+
+    it('should report a file without data rows', () => {
+      expect(previewPatientCSV(HEADER).errors).toEqual(['CSV must have a header row and at least one data row']);
+    });
+
+    it('should check dates, times and length of stay, keeping rows with only warnings', () => {
+      const [header, first, second] = VALID_CSV.split('\n');
+      const csv = [
+        header,
+        first.replace('2026-01-01,2026-01-05,10:30,4', '2026-01-01,2026-02-30,25:00,four'),
+        second.replace('2026-01-02,2026-01-06,,4', '2026-01-02,2026-01-06,,6').replace(',F,,,', ',F,call me,jane@,'),
+      ].join('\n');
+
+      const { rows } = previewPatientCSV(csv, STANDARD_MAPPING_PROFILE, '2026-03-01');
+
+      expect(rows[0].patient).toBeUndefined();
+      expect(rows[0].issues).toEqual([
+        { field: 'lengthOfStay', severity: 'error', message: 'Invalid length of stay "four": expected a whole number of days' },
+        { field: 'dischargeDate', severity: 'error', message: 'Invalid discharge date "2026-02-30": expected a date (YYYY-MM-DD)' },
+        { field: 'dischargeTime', severity: 'error', message: 'Invalid discharge time "25:00": expected HH:MM (24-hour)' },
+      ]);
+      expect(rows[1].patient?.patientId).toBe('MRN002');
+      expect(rows[1].issues.map(({ field, severity }) => [field, severity])).toEqual([
+        ['lengthOfStay', 'warning'],
+        ['phone', 'warning'],
+        ['email', 'warning'],
+      ]);
+    });
+
+    it('should work out a missing length of stay from the dates', () => {
+      const csv = VALID_CSV.replace('2026-01-01,2026-01-05,10:30,4', '2026-01-01,2026-01-05,10:30,');
+
+      expect(parsePatientCSV(csv, STANDARD_MAPPING_PROFILE, '2026-03-01')[0].lengthOfStay).toBe(4);
+    });
+
+    it('should refuse dates out of order or in the future', () => {
+      const csv = VALID_CSV.replace('1960-05-15', '2027-01-01');
+
+      expect(() => parsePatientCSV(csv, STANDARD_MAPPING_PROFILE, '2026-03-01'))
+        .toThrow('Row 2: Date of birth 2027-01-01 is in the future');
+    });
+
+    it('should read an exported patient roster back as the same patients', () => {
+      const patients = parsePatientCSV(VALID_CSV, STANDARD_MAPPING_PROFILE, '2026-03-01');
+      const exported = formatExportTableAsCsv(formatPatientsForExport(patients));
+
+      expect(parsePatientCSV(exported, STANDARD_MAPPING_PROFILE, '2026-03-01')).toEqual(patients);
+    });
+
+    it('should read back text that was escaped as a formula on export', () => {
+      const [patient] = parsePatientCSV(VALID_CSV, STANDARD_MAPPING_PROFILE, '2026-03-01');
+      const risky = { ...patient, patientName: '=HYPERLINK("x")', notes: '-2 days post-op' };
+      const exported = formatExportTableAsCsv(formatPatientsForExport([risky]));
+
+      const { rows } = previewPatientCSV(exported, STANDARD_MAPPING_PROFILE, '2026-03-01');
+
+      expect(rows[0].patient).toEqual(risky);
+    });
+  });
+
+  describe('mapping profiles', () => {
+    const EHR_PROFILE: PatientMappingProfile = {
+      id: 'ehr',
+      name: 'EHR export',
+      columns: {
+        patientId: 'MRN',
+        patientName: 'Patient Name',
+        dischargeDate: 'Disch Date',
+        dischargeDisposition: 'Disposition',
+        readmissionRiskScore: 'Readmit Risk',
+      },
+      valueSynonyms: {
+        dischargeDisposition: { 'HOME-SELF': 'Home' },
+        riskLevel: { '4': 'Very High' },
+      },
+    };
+
+    it('should read mapped columns in any order and spelling', () => {
+      const csv = [
+        'Readmit Risk,DISPOSITION,mrn,Patient Name,Disch Date,Gender,Fall-Risk',
+        '4,HOME-SELF,E100,Ann Lee,2026-01-05,female,moderate',
+        'HIGH,SNF,E101,Bo Chan,2026-01-06,Male,',
+      ].join('\n');
+
+      const patients = parsePatientCSV(csv, EHR_PROFILE);
+
+      expect(patients.map((p) => [p.patientId, p.dischargeDisposition, p.readmissionRiskScore, p.gender, p.fallRisk]))
+        .toEqual([
+          ['E100', 'Home', 'Very High', 'F', 'Medium'],
+          ['E101', 'Skilled nursing facility', 'High', 'M', null],
+        ]);
+      expect(patients[0].dob).toBe('');
+    });
+
+    it('should accept standard values regardless of case and spacing', () => {
+      const csv = VALID_CSV.replace('Skilled nursing facility', 'SKILLED_NURSING_FACILITY').replace('Very High', 'very high');
+
+      expect(parsePatientCSV(csv)[1]).toMatchObject({
+        dischargeDisposition: 'Skilled nursing facility',
+        readmissionRiskScore: 'Very High',
+      });
+    });
+
+    it('should report required columns the file does not have, matching headers loosely', () => {
+      const { rows, errors } = previewPatientCSV(VALID_CSV, EHR_PROFILE);
+
+      expect(rows).toEqual([]);
+      expect(errors).toEqual([
+        'Missing column "MRN" for patient_id',
+        'Missing column "Disch Date" for discharge_date',
+        'Missing column "Disposition" for discharge_disposition',
+        'Missing column "Readmit Risk" for readmission_risk_score',
+      ]);
+    });
+
+    it('should name the source column of a missing value', () => {
+      const csv = 'MRN,Patient Name,Disch Date,Disposition,Readmit Risk\n,Ann Lee,2026-01-05,Home,Low';
+
+      const [row] = previewPatientCSV(csv, EHR_PROFILE).rows;
+
+      expect(row.issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message))
+        .toEqual(['Missing required field "MRN"']);
+    });
+  });
+});
@@ -0,0 +1,308 @@
+// Patient CSV reading: turning CSV records into patients through a mapping
+// profile, and previewing a file row by row before import. Used by both the
+// client (import screen, demo mode) and the server (patient file and import).
+
+import { Patient, DischargeDisposition, PatientMappingProfile, RiskLevel, DEFAULT_TIME_ZONE } from './types';
+import { CsvParseError, parseCsv } from './csv';
+import { PatientIssue, hasPatientErrors, validatePatient } from './patientValidation';
+import { toZonedDateKey } from './timeZone';
+import {
+  REQUIRED_PATIENT_FIELDS,
+  STANDARD_MAPPING_PROFILE,
+  normalizePatientText,
+  normalizePatientValue,
+  resolvePatientColumns,
+} from './patientMapping';
+
+// Valid discharge dispositions
+const VALID_DISPOSITIONS: DischargeDisposition[] = [
+  'Home',
+  'Home with home health',
+  'Skilled nursing facility',
+];
+
+// Valid risk levels
+const VALID_RISK_LEVELS: RiskLevel[] = ['Low', 'Medium', 'High', 'Very High'];
+
+/**
+ * Convert empty string to null for nullable fields
+ */
+function emptyToNull(value: string): string | null {
+  return value === '' ? null : value;
+}
+
+/**
+ * Validate and parse a discharge disposition, accepting the profile's synonyms
+ */
+function parseDischargeDisposition(value: string, profile: PatientMappingProfile): DischargeDisposition {
+  const disposition = normalizePatientValue('dischargeDisposition', value, profile);
+  if (!disposition) {
+    throw new Error(`Invalid discharge disposition: "${value}". Expected one of: ${VALID_DISPOSITIONS.join(', ')}`);
+  }
+  return disposition as DischargeDisposition;
+}
+
+/**
+ * Validate and parse a risk level, accepting the profile's synonyms
+ */
+function parseRiskLevel(value: string, profile: PatientMappingProfile): RiskLevel {
+  const riskLevel = normalizePatientValue('riskLevel', value, profile);
+  if (!riskLevel) {
+    throw new Error(`Invalid risk level: "${value}". Expected one of: ${VALID_RISK_LEVELS.join(', ')}`);
+  }
+  return riskLevel as RiskLevel;
+}
+
+/**
+ * Validate and parse a risk level that can be null
+ */
+function parseNullableRiskLevel(value: string, profile: PatientMappingProfile): RiskLevel | null {
+  if (value === '') return null;
+  return parseRiskLevel(value, profile);
+}
+
+/**
+ * One data row of a patient CSV, with the patient it parsed to and every
+ * problem found: errors stop the row from being imported, warnings do not.
+ */
+export interface PatientCsvRow {
+  rowNumber: number;              // Record in the file, counting the header as row 1 (line breaks in quotes don't count)
+  values: string[];
+  patient?: Patient;              // Set only when the row has no errors
+  issues: PatientIssue[];
+}
+
+/**
+ * A patient CSV checked row by row, for showing before anything is imported.
+ */
+export interface PatientCsvPreview {
+  headers: string[];
+  rows: PatientCsvRow[];
+  errors: string[];               // Problems with the file as a whole; no rows are read if any
+}
+
+/**
+ * Run a field parser, recording its error against the field instead of throwing it
+ */
+function collectError<T>(issues: PatientIssue[], field: keyof Patient, parse: () => T): T | undefined {
+  try {
+    return parse();
+  } catch (error) {
+    issues.push({ field, severity: 'error', message: (error as Error).message });
+    return undefined;
+  }
+}
+
+/**
+ * Parse a length of stay in whole days. An empty value is worked out from the
+ * admission and discharge dates, or 0 if either is missing.
+ */
+function parseLengthOfStay(value: string, admissionDate: string, dischargeDate: string): number {
+  if (value === '') {
+    const days = Math.round((Date.parse(dischargeDate) - Date.parse(admissionDate)) / (24 * 60 * 60 * 1000));
+    return Number.isNaN(days) || days < 0 ? 0 : days;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid length of stay "${value}": expected a whole number of days`);
+  }
+  return Number(value);
+}
+
+/**
+ * Today's date in the default facility time zone (YYYY-MM-DD)
+ */
+function getToday(): string {
+  return toZonedDateKey(new Date(), DEFAULT_TIME_ZONE);
+}
+
+/**
+ * Parse a single CSV row into a Patient object, collecting every problem
+ * with the row rather than stopping at the first
+ */
+function parsePatientRow(
+  headers: string[],
+  columns: Partial<Record<keyof Patient, number>>,
+  profile: PatientMappingProfile,
+  today: string,
+  values: string[],
+  rowNumber: number
+): PatientCsvRow {
+  const row: PatientCsvRow = { rowNumber, values, issues: [] };
+  if (values.length !== headers.length) {
+    // Without matching columns no field can be trusted
+    row.issues.push({ severity: 'error', message: `Expected ${headers.length} columns but got ${values.length}` });
+    return row;
+  }
+
+  // Read each field from its mapped column, undoing export escaping; unmapped fields are empty
+  const raw = {} as Record<keyof Patient, string>;
+  for (const field of Object.keys(columns) as (keyof Patient)[]) {
+    raw[field] = normalizePatientText(values[columns[field]!]);
+  }
+  const get = (field: keyof Patient): string => raw[field] ?? '';
+
+  // Validate required fields
+  for (const field of REQUIRED_PATIENT_FIELDS) {
+    if (!get(field)) {
+      row.issues.push({ field, severity: 'error', message: `Missing required field "${headers[columns[field]!]}"` });
+    }
+  }
+
+  const dischargeDisposition = get('dischargeDisposition')
+    ? collectError(row.issues, 'dischargeDisposition', () => parseDischargeDisposition(get('dischargeDisposition'), profile))
+    : undefined;
+  const readmissionRiskScore = get('readmissionRiskScore')
+    ? collectError(row.issues, 'readmissionRiskScore', () => parseRiskLevel(get('readmissionRiskScore'), profile))
+    : undefined;
+  const fallRisk = collectError(row.issues, 'fallRisk', () => parseNullableRiskLevel(get('fallRisk'), profile));
+  const lengthOfStay = collectError(row.issues, 'lengthOfStay', () =>
+    parseLengthOfStay(get('lengthOfStay'), get('admissionDate'), get('dischargeDate'))
+  );
+
+  // Construct the Patient object, then check its dates, times and contact details
+  const patient: Patient = {
+    patientId: get('patientId'),
+    patientName: get('patientName'),
+    dob: get('dob'),
+    gender: (normalizePatientValue('gender', get('gender'), profile) ?? get('gender')) as 'M' | 'F',
+    phone: emptyToNull(get('phone')),
+    email: emptyToNull(get('email')),
+    preferredLanguage: get('preferredLanguage'),
+    admissionDate: get('admissionDate'),
+    dischargeDate: get('dischargeDate'),
+    dischargeTime: emptyToNull(get('dischargeTime')),
+    lengthOfStay: lengthOfStay ?? 0,
+    primaryDiagnosis: get('primaryDiagnosis'),
+    dischargeDisposition: dischargeDisposition!,
+    dischargeMedications: get('dischargeMedications'),
+    allergies: emptyToNull(get('allergies')),
+    attendingPhysician: get('attendingPhysician'),
+    pcpName: emptyToNull(get('pcpName')),
+    pcpPhone: emptyToNull(get('pcpPhone')),
+    readmissionRiskScore: readmissionRiskScore!,
+    fallRisk: fallRisk ?? null,
+    notes: emptyToNull(get('notes')),
+  };
+  // A length of stay that could not be read has already been reported
+  const checks = validatePatient(patient, today);
+  row.issues.push(...checks.filter((issue) => issue.field !== 'lengthOfStay' || lengthOfStay !== undefined));
+  if (!hasPatientErrors(row.issues)) {
+    row.patient = patient;
+  }
+
+  return row;
+}
+
+/**
+ * Check every row of already-parsed CSV records (the header first), without
+ * throwing. Columns and coded values are read through the mapping profile;
+ * headers match ignoring case, spaces and punctuation. A patient ID that
+ * appears on an earlier row is an error, so each MRN is imported at most
+ * once. Blank rows are ignored and values are trimmed.
+ *
+ * Each patient is checked with validatePatient; dates are compared with
+ * today (YYYY-MM-DD), by default in the default facility time zone.
+ */
+export function previewPatientRecords(
+  records: string[][],
+  profile: PatientMappingProfile = STANDARD_MAPPING_PROFILE,
+  today: string = getToday()
+): PatientCsvPreview {
+  const nonBlank = records
+    .map(record => record.map(value => value.trim()))
+    .filter(record => record.some(value => value !== ''));
+
+  if (nonBlank.length < 2) {
+    return { headers: [], rows: [], errors: ['CSV must have a header row and at least one data row'] };
+  }
+
+  const [headers, ...data] = nonBlank;
+  const { columns, errors } = resolvePatientColumns(headers, profile);
+  if (errors.length > 0) {
+    return { headers, rows: [], errors };
+  }
+
+  const seenIds = new Map<string, number>();
+  const rows = data.map((values, i) => {
+    const row = parsePatientRow(headers, columns, profile, today, values, i + 2);
+    if (row.patient) {
+      const firstRow = seenIds.get(row.patient.patientId);
+      if (firstRow !== undefined) {
+        row.issues.push({
+          field: 'patientId',
+          severity: 'error',
+          message: `Duplicate patient ID "${row.patient.patientId}" (first on row ${firstRow})`,
+        });
+        delete row.patient;
+      } else {
+        seenIds.set(row.patient.patientId, row.rowNumber);
+      }
+    }
+    return row;
+  });
+
+  return { headers, rows, errors: [] };
+}
+
+/**
+ * Parse CSV content with the profile's delimiter and check every row, without
+ * throwing (see previewPatientRecords). A file that is not valid CSV, e.g.
+ * with an unclosed quote, is reported in the preview's errors.
+ */
+export function previewPatientCSV(
+  csvContent: string,
+  profile: PatientMappingProfile = STANDARD_MAPPING_PROFILE,
+  today: string = getToday()
+): PatientCsvPreview {
+  let records: string[][];
+  try {
+    records = parseCsv(csvContent, { delimiter: profile.delimiter });
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      return { headers: [], rows: [], errors: [error.message] };
+    }
+    throw error;
+  }
+  return previewPatientRecords(records, profile, today);
+}
+
+/**
+ * Get the patients from a preview, throwing on the first error found.
+ * Warnings are ignored.
+ */
+function getPreviewPatients({ rows, errors }: PatientCsvPreview): Patient[] {
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const invalid = rows.find((row) => !row.patient);
+  if (invalid) {
+    const error = invalid.issues.find((issue) => issue.severity === 'error')!;
+    throw new Error(`Row ${invalid.rowNumber}: ${error.message}`);
+  }
+  return rows.map((row) => row.patient!);
+}
+
+/**
+ * Turn already-parsed CSV records (the header first) into Patient objects.
+ * Throws on the first error found.
+ */
+export function parsePatientRecords(
+  records: string[][],
+  profile: PatientMappingProfile = STANDARD_MAPPING_PROFILE,
+  today: string = getToday()
+): Patient[] {
+  return getPreviewPatients(previewPatientRecords(records, profile, today));
+}
+
+/**
+ * Parse CSV content string and return an array of Patient objects.
+ * Throws on the first error found (use previewPatientCSV to see every problem).
+ */
+export function parsePatientCSV(
+  csvContent: string,
+  profile: PatientMappingProfile = STANDARD_MAPPING_PROFILE,
+  today: string = getToday()
+): Patient[] {
+  return getPreviewPatients(previewPatientCSV(csvContent, profile, today));
+}
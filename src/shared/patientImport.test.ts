@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Patient } from './types';
+import { mergePatients } from './patientImport';
+
+const createPatient = (patientId: string, overrides: Partial<Patient> = {}): Patient => ({
+  patientId,
+  patientName: 'Test Patient',
+  dischargeDate: '2026-01-14',
+  readmissionRiskScore: 'Low',
+  ...overrides,
+} as Patient);
+
+describe('mergePatients', () => {
+  const existing = [createPatient('MRN0001'), createPatient('MRN0002')];
+
+  it('should add new patients, replace changed ones in place and keep the rest', () => {
+    const changed = createPatient('MRN0002', { readmissionRiskScore: 'High' });
+
+    const { patients, result } = mergePatients(existing, [createPatient('MRN0003'), changed, createPatient('MRN0001')]);
+
+    expect(patients.map((p) => [p.patientId, p.readmissionRiskScore])).toEqual([
+      ['MRN0001', 'Low'],
+      ['MRN0002', 'High'],
+      ['MRN0003', 'Low'],
+    ]);
+    expect(result.added.map((p) => p.patientId)).toEqual(['MRN0003']);
+    expect(result.updated).toEqual([{ before: existing[1], after: changed }]);
+    expect(result.unchanged.map((p) => p.patientId)).toEqual(['MRN0001']);
+  });
+
+  it('should return the same patients when nothing changed', () => {
+    const { patients, result } = mergePatients(existing, [createPatient('MRN0001')]);
+
+    expect(patients).toBe(existing);
+    expect(result.added).toEqual([]);
+    expect(result.updated).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+// Patient import: merging imported patient records into the existing ones by
+// MRN. Used by both the client (localStorage) and the server (PatientStore).
+
+import { Patient } from './types';
+
+/**
+ * An existing patient whose details an import changed
+ */
+export interface PatientUpdate {
+  before: Patient;
+  after: Patient;
+}
+
+/**
+ * How imported patients were merged
+ */
+export interface PatientMergeResult {
+  added: Patient[];
+  updated: PatientUpdate[];
+  unchanged: Patient[];
+}
+
+function isSamePatient(a: Patient, b: Patient): boolean {
+  return (Object.keys(a) as (keyof Patient)[]).every((field) => a[field] === b[field]) &&
+    Object.keys(a).length === Object.keys(b).length;
+}
+
+/**
+ * Merge imported patients into the existing ones by MRN. An imported patient
+ * replaces the existing record with the same MRN in place; new patients are
+ * added at the end. If an MRN is imported more than once the last one wins.
+ *
+ * @returns The merged patients (the same array if nothing changed) and what happened to each import
+ */
+export function mergePatients(
+  existing: Patient[],
+  imported: Patient[]
+): { patients: Patient[]; result: PatientMergeResult } {
+  const result: PatientMergeResult = { added: [], updated: [], unchanged: [] };
+  const byId = new Map(existing.map((patient, index) => [patient.patientId, index]));
+  const patients = [...existing];
+
+  for (const patient of imported) {
+    const index = byId.get(patient.patientId);
+    if (index === undefined) {
+      byId.set(patient.patientId, patients.length);
+      patients.push(patient);
+      result.added.push(patient);
+    } else if (isSamePatient(patients[index], patient)) {
+      result.unchanged.push(patient);
+    } else {
+      result.updated.push({ before: patients[index], after: patient });
+      patients[index] = patient;
+    }
+  }
+
+  const changed = result.added.length > 0 || result.updated.length > 0;
+  return { patients: changed ? patients : existing, result };
+}
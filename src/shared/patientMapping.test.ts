@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MappingProfileValidationError,
+  STANDARD_MAPPING_PROFILE,
+  normalizePatientText,
+  normalizePatientValue,
+  parseMappingProfile,
+  resolvePatientColumns,
+  validateMappingProfile,
+} from './patientMapping';
+import { PatientMappingProfile } from './types';
+
+const PROFILE: PatientMappingProfile = {
+  id: 'epic-export',
+  name: 'Epic export',
+  delimiter: ';',
+  columns: { patientId: 'MRN', readmissionRiskScore: 'Risk' },
+  valueSynonyms: { dischargeDisposition: { 'Home/Self': 'Home' }, riskLevel: { '3': 'High' } },
+};
+
+describe('Patient Mapping', () => {
+  describe('resolvePatientColumns', () => {
+    it('should find mapped and standard columns ignoring case, spaces and punctuation', () => {
+      const headers = ['risk', 'Patient Name', 'mrn', 'DISCHARGE-DATE', 'Discharge Disposition', 'Notes'];
+
+      const { columns, errors } = resolvePatientColumns(headers, PROFILE);
+
+      expect(errors).toEqual([]);
+      expect(columns).toEqual({
+        readmissionRiskScore: 0,
+        patientName: 1,
+        patientId: 2,
+        dischargeDate: 3,
+        dischargeDisposition: 4,
+        notes: 5,
+      });
+    });
+
+    it('should report each required field without a column', () => {
+      expect(resolvePatientColumns(['patient_id', 'patient_name'], STANDARD_MAPPING_PROFILE).errors).toEqual([
+        'Missing column "discharge_date" for discharge_date',
+        'Missing column "discharge_disposition" for discharge_disposition',
+        'Missing column "readmission_risk_score" for readmission_risk_score',
+      ]);
+    });
+  });
+
+  describe('normalizePatientValue', () => {
+    it('should prefer the profile synonyms, then common spellings, then the values themselves', () => {
+      expect(normalizePatientValue('dischargeDisposition', 'home/self', PROFILE)).toBe('Home');
+      expect(normalizePatientValue('dischargeDisposition', 'SNF', PROFILE)).toBe('Skilled nursing facility');
+      expect(normalizePatientValue('dischargeDisposition', 'home_with_home_health', PROFILE))
+        .toBe('Home with home health');
+      expect(normalizePatientValue('riskLevel', '3', PROFILE)).toBe('High');
+      expect(normalizePatientValue('riskLevel', 'VERY  HIGH', PROFILE)).toBe('Very High');
+      expect(normalizePatientValue('gender', 'Female', PROFILE)).toBe('F');
+    });
+
+    it('should not recognize unknown values', () => {
+      expect(normalizePatientValue('dischargeDisposition', 'Hospice', PROFILE)).toBeUndefined();
+      expect(normalizePatientValue('riskLevel', '3', STANDARD_MAPPING_PROFILE)).toBeUndefined();
+    });
+  });
+
+  describe('normalizePatientText', () => {
+    it('should drop the apostrophe an export puts before formula text', () => {
+      expect(normalizePatientText("'=HYPERLINK(\"x\")")).toBe('=HYPERLINK("x")');
+      expect(normalizePatientText("'-2 days")).toBe('-2 days');
+      expect(normalizePatientText("''=1")).toBe("''=1");
+      expect(normalizePatientText("O'Brien")).toBe("O'Brien");
+      expect(normalizePatientText("'quoted'")).toBe("'quoted'");
+    });
+  });
+
+  describe('validateMappingProfile', () => {
+    it('should accept a valid profile', () => {
+      expect(validateMappingProfile(PROFILE)).toEqual([]);
+      expect(parseMappingProfile(PROFILE)).toBe(PROFILE);
+    });
+
+    it('should report every problem with its path', () => {
+      const errors = validateMappingProfile({
+        id: 'Bad Id',
+        name: ' ',
+        delimiter: ';;',
+        columns: { patientId: 'MRN', patientName: 'mrn', shoeSize: 'Size', notes: '' },
+        valueSynonyms: { riskLevel: { '3': 'Severe' }, bloodType: {} },
+      });
+
+      expect(errors).toEqual([
+        'id: must be lowercase letters, digits and hyphens',
+        'name: must be a non-empty string',
+        'delimiter: must be a single character other than a quote or line break',
+        'columns.patientName: column "mrn" is already mapped to patientId',
+        'columns.shoeSize: not a patient field',
+        'columns.notes: must be a non-empty column name',
+        'valueSynonyms.riskLevel["3"]: must be one of Low, Medium, High, Very High',
+        'valueSynonyms.bloodType: must be one of dischargeDisposition, riskLevel, gender',
+      ]);
+    });
+
+    it('should refuse to replace the standard profile', () => {
+      expect(validateMappingProfile(STANDARD_MAPPING_PROFILE)).toEqual([
+        'id: "standard" is built in and cannot be changed',
+      ]);
+      expect(() => parseMappingProfile(STANDARD_MAPPING_PROFILE)).toThrow(MappingProfileValidationError);
+    });
+
+    it('should refuse a profile that is not an object', () => {
+      expect(validateMappingProfile(null)).toEqual(['profile: must be an object']);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+// Patient CSV mapping profiles: which source column holds each patient field,
+// and how a source system spells coded values. Profiles are saved on the
+// server (or in localStorage in client demo mode), so they are validated
+// before use.
+
+import {
+  Patient,
+  PatientMappingProfile,
+  PatientValueSynonymField,
+  DISCHARGE_DISPOSITIONS,
+  RISK_LEVELS,
+} from './types';
+import { FORMULA_PREFIXES } from './csv';
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * The standard column for each patient field, as in data/patient_data.csv.
+ */
+export const PATIENT_CSV_COLUMNS: Record<keyof Patient, string> = {
+  patientId: 'patient_id',
+  patientName: 'patient_name',
+  dob: 'dob',
+  gender: 'gender',
+  phone: 'phone',
+  email: 'email',
+  preferredLanguage: 'preferred_language',
+  admissionDate: 'admission_date',
+  dischargeDate: 'discharge_date',
+  dischargeTime: 'discharge_time',
+  lengthOfStay: 'length_of_stay',
+  primaryDiagnosis: 'primary_diagnosis',
+  dischargeDisposition: 'discharge_disposition',
+  dischargeMedications: 'discharge_medications',
+  allergies: 'allergies',
+  attendingPhysician: 'attending_physician',
+  pcpName: 'pcp_name',
+  pcpPhone: 'pcp_phone',
+  readmissionRiskScore: 'readmission_risk_score',
+  fallRisk: 'fall_risk',
+  notes: 'notes',
+};
+
+const PATIENT_FIELDS = Object.keys(PATIENT_CSV_COLUMNS) as (keyof Patient)[];
+
+/**
+ * Fields a row cannot be imported without; the file must have a column for each.
+ */
+export const REQUIRED_PATIENT_FIELDS: (keyof Patient)[] = [
+  'patientId',
+  'patientName',
+  'dischargeDate',
+  'dischargeDisposition',
+  'readmissionRiskScore',
+];
+
+/**
+ * Reads files laid out like data/patient_data.csv. Always available; cannot
+ * be changed or deleted.
+ */
+export const STANDARD_MAPPING_PROFILE: PatientMappingProfile = {
+  id: 'standard',
+  name: 'Standard',
+  columns: {},
+  valueSynonyms: {},
+};
+
+/**
+ * The values each synonym field accepts.
+ */
+export const PATIENT_FIELD_VALUES: Record<PatientValueSynonymField, readonly string[]> = {
+  dischargeDisposition: DISCHARGE_DISPOSITIONS,
+  riskLevel: RISK_LEVELS,
+  gender: ['M', 'F'],
+};
+
+// Spellings common enough in EHR exports to accept without a profile
+const BUILT_IN_SYNONYMS: Record<PatientValueSynonymField, Record<string, string>> = {
+  dischargeDisposition: {
+    'home self care': 'Home',
+    'home health': 'Home with home health',
+    'home health care': 'Home with home health',
+    'hha': 'Home with home health',
+    'snf': 'Skilled nursing facility',
+    'skilled nursing': 'Skilled nursing facility',
+  },
+  riskLevel: {
+    'moderate': 'Medium',
+    'med': 'Medium',
+  },
+  gender: {
+    'male': 'M',
+    'female': 'F',
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reduce a column header to what matters for matching: "Patient ID",
+ * "PATIENT_ID" and "patient-id" all match.
+ */
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Reduce a coded value to what matters for matching: case, underscores,
+ * hyphens and extra spaces are ignored.
+ */
+function valueKey(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+}
+
+/**
+ * Get the source column a profile reads a patient field from.
+ */
+export function getSourceColumn(profile: PatientMappingProfile, field: keyof Patient): string {
+  return profile.columns[field] || PATIENT_CSV_COLUMNS[field];
+}
+
+/**
+ * Find the column holding each patient field in a file's headers. A required
+ * field without a column is an error; other fields read as empty.
+ */
+export function resolvePatientColumns(
+  headers: string[],
+  profile: PatientMappingProfile
+): { columns: Partial<Record<keyof Patient, number>>; errors: string[] } {
+  const columns: Partial<Record<keyof Patient, number>> = {};
+  const errors: string[] = [];
+
+  for (const field of PATIENT_FIELDS) {
+    const source = getSourceColumn(profile, field);
+    const index = headers.findIndex(header => headerKey(header) === headerKey(source));
+    if (index !== -1) {
+      columns[field] = index;
+    } else if (REQUIRED_PATIENT_FIELDS.includes(field)) {
+      errors.push(`Missing column "${source}" for ${PATIENT_CSV_COLUMNS[field]}`);
+    }
+  }
+
+  return { columns, errors };
+}
+
+/**
+ * Translate a coded value into the value the app uses, trying the profile's
+ * synonyms, then common spellings, then the accepted values themselves
+ * (ignoring case and spacing).
+ *
+ * @returns The accepted value, or undefined if the value is not recognized
+ */
+export function normalizePatientValue(
+  field: PatientValueSynonymField,
+  value: string,
+  profile: PatientMappingProfile
+): string | undefined {
+  const key = valueKey(value);
+  const profileSynonyms = profile.valueSynonyms[field] ?? {};
+  const synonym = Object.entries(profileSynonyms).find(([source]) => valueKey(source) === key)?.[1]
+    ?? BUILT_IN_SYNONYMS[field][key];
+  const candidate = valueKey(synonym ?? value);
+  return PATIENT_FIELD_VALUES[field].find(accepted => valueKey(accepted) === candidate);
+}
+
+/**
+ * Undo the formula escaping done on export (see escapeFormula): one leading
+ * apostrophe before a formula prefix is dropped, so "'=HYPERLINK(...)" reads
+ * as "=HYPERLINK(...)". Other values are kept as they are.
+ */
+export function normalizePatientText(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix, 1))
+    ? value.slice(1)
+    : value;
+}
+
+/**
+ * Thrown when a mapping profile fails validation. Carries every problem
+ * found, not just the first.
+ */
+export class MappingProfileValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid mapping profile: ${errors.join('; ')}`);
+    this.name = 'MappingProfileValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Check a mapping profile (e.g. from a request body or storage).
+ *
+ * @returns Every problem found, each prefixed with the path to the bad value;
+ *          empty if the profile is valid
+ */
+export function validateMappingProfile(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['profile: must be an object'];
+  }
+  const errors: string[] = [];
+
+  if (typeof value.id !== 'string' || !PROFILE_ID_PATTERN.test(value.id)) {
+    errors.push('id: must be lowercase letters, digits and hyphens');
+  } else if (value.id === STANDARD_MAPPING_PROFILE.id) {
+    errors.push(`id: "${STANDARD_MAPPING_PROFILE.id}" is built in and cannot be changed`);
+  }
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    errors.push('name: must be a non-empty string');
+  }
+  if (value.delimiter !== undefined &&
+      (typeof value.delimiter !== 'string' || value.delimiter.length !== 1 || /["\r\n]/.test(value.delimiter))) {
+    errors.push('delimiter: must be a single character other than a quote or line break');
+  }
+
+  if (!isRecord(value.columns)) {
+    errors.push('columns: must be an object');
+  } else {
+    const fieldsBySource = new Map<string, string>();
+    for (const [field, source] of Object.entries(value.columns)) {
+      if (!PATIENT_FIELDS.includes(field as keyof Patient)) {
+        errors.push(`columns.${field}: not a patient field`);
+      } else if (typeof source !== 'string' || source.trim() === '') {
+        errors.push(`columns.${field}: must be a non-empty column name`);
+      } else {
+        const other = fieldsBySource.get(headerKey(source));
+        if (other) {
+          errors.push(`columns.${field}: column "${source}" is already mapped to ${other}`);
+        }
+        fieldsBySource.set(headerKey(source), field);
+      }
+    }
+  }
+
+  if (!isRecord(value.valueSynonyms)) {
+    errors.push('valueSynonyms: must be an object');
+  } else {
+    for (const [field, synonyms] of Object.entries(value.valueSynonyms)) {
+      const accepted = PATIENT_FIELD_VALUES[field as PatientValueSynonymField];
+      if (!accepted) {
+        errors.push(`valueSynonyms.${field}: must be one of ${Object.keys(PATIENT_FIELD_VALUES).join(', ')}`);
+      } else if (!isRecord(synonyms)) {
+        errors.push(`valueSynonyms.${field}: must be an object`);
+      } else {
+        for (const [source, target] of Object.entries(synonyms)) {
+          if (typeof target !== 'string' || !accepted.includes(target)) {
+            errors.push(`valueSynonyms.${field}["${source}"]: must be one of ${accepted.join(', ')}`);
+          }
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate and return a mapping profile, throwing MappingProfileValidationError if invalid.
+ */
+export function parseMappingProfile(value: unknown): PatientMappingProfile {
+  const errors = validateMappingProfile(value);
+  if (errors.length > 0) {
+    throw new MappingProfileValidationError(errors);
+  }
+  return value as PatientMappingProfile;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { hasPatientErrors, isValidDateKey, validatePatient } from './patientValidation';
+import { Patient } from './types';
+
+const TODAY = '2026-01-20';
+
+const createPatient = (overrides: Partial<Patient> = {}): Patient => ({
+  patientId: 'MRN0001',
+  patientName: 'Test Patient',
+  dob: '1960-05-15',
+  gender: 'F',
+  phone: '(555) 123-4567',
+  email: 'test@example.com',
+  preferredLanguage: 'English',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:30',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Pneumonia',
+  dischargeDisposition: 'Home',
+  dischargeMedications: 'Amoxicillin',
+  allergies: null,
+  attendingPhysician: 'Dr. A',
+  pcpName: null,
+  pcpPhone: '+1 555 000 1111',
+  readmissionRiskScore: 'Low',
+  fallRisk: null,
+  notes: null,
+  ...overrides,
+});
+
+describe('Patient Validation', () => {
+  describe('isValidDateKey', () => {
+    it('should accept only dates that exist, in YYYY-MM-DD format', () => {
+      expect(isValidDateKey('2024-02-29')).toBe(true);
+      expect(isValidDateKey('2026-02-29')).toBe(false);
+      expect(isValidDateKey('2026-13-01')).toBe(false);
+      expect(isValidDateKey('01/14/2026')).toBe(false);
+    });
+  });
+
+  describe('validatePatient', () => {
+    it('should accept a consistent patient', () => {
+      expect(validatePatient(createPatient(), TODAY)).toEqual([]);
+    });
+
+    it('should refuse dates that do not exist or are out of order', () => {
+      expect(validatePatient(createPatient({ dob: '1960-02-30', dischargeDate: '2026-1-14' }), TODAY)).toEqual([
+        { field: 'dob', severity: 'error', message: 'Invalid date of birth "1960-02-30": expected a date (YYYY-MM-DD)' },
+        { field: 'dischargeDate', severity: 'error', message: 'Invalid discharge date "2026-1-14": expected a date (YYYY-MM-DD)' },
+      ]);
+      expect(validatePatient(createPatient({ dob: '2026-01-16', admissionDate: '2026-01-15' }), TODAY)).toEqual([
+        { field: 'dob', severity: 'error', message: 'Date of birth 2026-01-16 is after the admission date 2026-01-15' },
+        { field: 'admissionDate', severity: 'error', message: 'Admission date 2026-01-15 is after the discharge date 2026-01-14' },
+      ]);
+      const future = createPatient({
+        dob: '2026-02-01',
+        admissionDate: '2026-02-02',
+        dischargeDate: '2026-02-03',
+        lengthOfStay: 1,
+      });
+      expect(validatePatient(future, TODAY)).toEqual([
+        { field: 'dob', severity: 'error', message: 'Date of birth 2026-02-01 is in the future' },
+        { field: 'dischargeDate', severity: 'warning', message: 'Discharge date 2026-02-03 is in the future' },
+      ]);
+    });
+
+    it('should refuse discharge times that are not HH:MM', () => {
+      for (const dischargeTime of ['9:30', '24:00', '10:30 AM']) {
+        expect(validatePatient(createPatient({ dischargeTime }), TODAY).map((issue) => issue.field)).toEqual(['dischargeTime']);
+      }
+    });
+
+    it('should warn when the length of stay does not match the dates', () => {
+      expect(validatePatient(createPatient({ lengthOfStay: 3 }), TODAY)).toEqual([
+        {
+          field: 'lengthOfStay',
+          severity: 'warning',
+          message: 'Length of stay 3 does not match the admission and discharge dates (4 days)',
+        },
+      ]);
+    });
+
+    it('should warn about missing or unlikely details without making them errors', () => {
+      const issues = validatePatient(
+        createPatient({ dob: '', admissionDate: '', phone: '12345', pcpPhone: 'ask front desk', email: 'test@example' }),
+        TODAY
+      );
+
+      expect(issues.map(({ field, severity }) => [field, severity])).toEqual([
+        ['dob', 'warning'],
+        ['admissionDate', 'warning'],
+        ['phone', 'warning'],
+        ['pcpPhone', 'warning'],
+        ['email', 'warning'],
+      ]);
+      expect(hasPatientErrors(issues)).toBe(false);
+    });
+
+    it('should refuse an unknown gender and warn about a missing one', () => {
+      expect(validatePatient(createPatient({ gender: 'X' as Patient['gender'] }), TODAY)).toEqual([
+        { field: 'gender', severity: 'error', message: 'Invalid gender "X". Expected one of: M, F' },
+      ]);
+      expect(validatePatient(createPatient({ gender: '' as Patient['gender'] }), TODAY)).toEqual([
+        { field: 'gender', severity: 'warning', message: 'Missing gender' },
+      ]);
+    });
+  });
+});
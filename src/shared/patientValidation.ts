@@ -0,0 +1,135 @@
+// Field-level checks on patient records (e.g. from an import), so bad data is
+// caught before it sets task deadlines. Used by both the client and the server.
+
+import { Patient } from './types';
+import { formatDateKey } from './timeZone';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GENDERS: Patient['gender'][] = ['M', 'F'];
+
+/**
+ * Errors stop a record from being used; warnings are shown but do not.
+ */
+export type PatientIssueSeverity = 'error' | 'warning';
+
+/**
+ * One problem with a patient record.
+ */
+export interface PatientIssue {
+  field?: keyof Patient;          // Unset for problems with the record as a whole
+  severity: PatientIssueSeverity;
+  message: string;
+}
+
+/**
+ * Whether a calendar date (YYYY-MM-DD) exists, e.g. not 2026-02-30.
+ */
+export function isValidDateKey(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  return match !== null && formatDateKey(Number(match[1]), Number(match[2]), Number(match[3])) === value;
+}
+
+/**
+ * Whole days from one date (YYYY-MM-DD) to another.
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Whether any of the issues is an error.
+ */
+export function hasPatientErrors(issues: PatientIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+/**
+ * Check a patient's dates, times, gender and contact details:
+ * - dates must exist and be in order (birth, admission, discharge), and the
+ *   date of birth must not be after today
+ * - the discharge time must be HH:MM, and gender M or F
+ * - the length of stay should match the admission and discharge dates
+ * - phone numbers and email addresses should look valid
+ *
+ * Required fields, coded values and the length of stay's format are checked
+ * when the record is read (see patientCsv).
+ *
+ * @param today - The facility's current date (YYYY-MM-DD)
+ * @returns Every problem found; empty if the patient is valid
+ */
+export function validatePatient(patient: Patient, today: string): PatientIssue[] {
+  const issues: PatientIssue[] = [];
+  const error = (field: keyof Patient, message: string) => issues.push({ field, severity: 'error', message });
+  const warning = (field: keyof Patient, message: string) => issues.push({ field, severity: 'warning', message });
+
+  // Dates that don't exist are errors; missing optional ones are warnings
+  const checkDate = (field: keyof Patient, label: string, value: string): boolean => {
+    if (value === '') {
+      return false;
+    }
+    if (!isValidDateKey(value)) {
+      error(field, `Invalid ${label} "${value}": expected a date (YYYY-MM-DD)`);
+      return false;
+    }
+    return true;
+  };
+  const hasDob = checkDate('dob', 'date of birth', patient.dob);
+  const hasAdmission = checkDate('admissionDate', 'admission date', patient.admissionDate);
+  const hasDischarge = checkDate('dischargeDate', 'discharge date', patient.dischargeDate);
+
+  if (patient.dob === '') {
+    warning('dob', 'Missing date of birth; age-based task rules will not apply');
+  } else if (hasDob && patient.dob > today) {
+    error('dob', `Date of birth ${patient.dob} is in the future`);
+  }
+  if (patient.admissionDate === '') {
+    warning('admissionDate', 'Missing admission date');
+  }
+  if (hasDob && hasAdmission && patient.dob > patient.admissionDate) {
+    error('dob', `Date of birth ${patient.dob} is after the admission date ${patient.admissionDate}`);
+  }
+  if (hasAdmission && hasDischarge && patient.admissionDate > patient.dischargeDate) {
+    error('admissionDate', `Admission date ${patient.admissionDate} is after the discharge date ${patient.dischargeDate}`);
+  }
+  if (hasDischarge && patient.dischargeDate > today) {
+    warning('dischargeDate', `Discharge date ${patient.dischargeDate} is in the future`);
+  }
+
+  if (patient.dischargeTime !== null && !TIME_OF_DAY_PATTERN.test(patient.dischargeTime)) {
+    error('dischargeTime', `Invalid discharge time "${patient.dischargeTime}": expected HH:MM (24-hour)`);
+  }
+
+  if (hasAdmission && hasDischarge && patient.admissionDate <= patient.dischargeDate) {
+    const days = daysBetween(patient.admissionDate, patient.dischargeDate);
+    if (patient.lengthOfStay !== days) {
+      warning(
+        'lengthOfStay',
+        `Length of stay ${patient.lengthOfStay} does not match the admission and discharge dates (${days} days)`
+      );
+    }
+  }
+
+  if (!GENDERS.includes(patient.gender)) {
+    if (patient.gender) {
+      error('gender', `Invalid gender "${patient.gender}". Expected one of: ${GENDERS.join(', ')}`);
+    } else {
+      warning('gender', 'Missing gender');
+    }
+  }
+  for (const field of ['phone', 'pcpPhone'] as const) {
+    const phone = patient[field];
+    const digits = phone?.replace(/\D/g, '').length ?? 0;
+    if (phone !== null && (!PHONE_PATTERN.test(phone) || digits < 7 || digits > 15)) {
+      warning(field, `Phone number "${phone}" does not look valid`);
+    }
+  }
+  if (patient.email !== null && !EMAIL_PATTERN.test(patient.email)) {
+    warning('email', `Email address "${patient.email}" does not look valid`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { Encounter, Patient, Task } from './types';
+import { changeTaskStatusInCollection, generateTasksForPatient, rescheduleTasksInCollection } from './taskEngine';
+import { generateTasksForEncounter, getFirstEncounter } from './encounters';
+import { TaskReconciliation, hasReconciliationChanges, planTaskReconciliation } from './reconciliation';
+
+const PATIENT = {
+  patientId: 'MRN0001',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Pneumonia',
+  dischargeDisposition: 'Home',
+  readmissionRiskScore: 'Low',
+  fallRisk: null,
+  preferredLanguage: 'English',
+  dob: '1960-01-01',
+} as Patient;
+
+const NOW = new Date('2026-01-14T16:00:00Z');
+
+const plan = (tasks: Task[], patient: Patient = PATIENT, encounter: Encounter = getFirstEncounter(patient)) =>
+  planTaskReconciliation(tasks, patient, encounter, 'system');
+
+/**
+ * Apply a plan the way the stores do: add, then reschedule, then cancel.
+ */
+function applyPlan(tasks: Task[], { add, reschedule, cancel }: TaskReconciliation): Task[] {
+  let updated = rescheduleTasksInCollection([...tasks, ...add], reschedule).tasks;
+  for (const { taskId, change } of cancel) {
+    updated = changeTaskStatusInCollection(updated, taskId, change, NOW).tasks;
+  }
+  return updated;
+}
+
+describe('reconciliation', () => {
+  const tasks = generateTasksForPatient(PATIENT);
+
+  it('should plan nothing for tasks generated from the same data', () => {
+    expect(hasReconciliationChanges(plan(tasks))).toBe(false);
+  });
+
+  it('should add tasks the corrected patient now needs', () => {
+    const corrected = {
+      ...PATIENT,
+      dischargeDisposition: 'Skilled nursing facility',
+      readmissionRiskScore: 'High',
+    } as Patient;
+
+    const { add, reschedule, cancel } = plan(tasks, corrected);
+
+    expect(add.map((t) => t.type)).toEqual(['facility_handoff', 'checkin_call']);
+    expect(add[0].encounterId).toBeUndefined();
+    expect(reschedule).toEqual([]);
+    expect(cancel).toEqual([]);
+  });
+
+  it('should move open windows but leave completed tasks alone', () => {
+    const completed = tasks.map((t) => (t.type === 'contact_patient' ? { ...t, status: 'completed' as const } : t));
+
+    const { reschedule } = plan(completed, { ...PATIENT, dischargeTime: null });
+
+    expect(reschedule.map((r) => completed.find((t) => t.id === r.taskId)?.type))
+      .toEqual(['medication_reconciliation', 'followup_scheduling']);
+    expect(reschedule[0]).toMatchObject({ dueStart: new Date('2026-01-14T05:00:00Z'), dischargeTimeUnknown: true });
+  });
+
+  it('should cancel open tasks that no longer apply and not re-add closed ones', () => {
+    const highRisk = { ...PATIENT, readmissionRiskScore: 'High' } as Patient;
+    const withCheckin = generateTasksForPatient(highRisk);
+    const closedByHand = withCheckin.map((t) =>
+      (t.type === 'contact_patient' ? { ...t, status: 'not_applicable' as const } : t));
+
+    const { add, cancel } = plan(closedByHand, PATIENT);
+
+    expect(add).toEqual([]);
+    expect(cancel).toEqual([{
+      taskId: withCheckin.find((t) => t.type === 'checkin_call')!.id,
+      change: {
+        action: 'cancelled',
+        reason: 'not_indicated',
+        note: 'No longer called for by the task rules',
+        changedBy: 'system',
+      },
+    }]);
+  });
+
+  it('should plan nothing once its plan has been applied', () => {
+    const corrected = { ...PATIENT, dischargeTime: '18:30', dischargeDisposition: 'Skilled nursing facility' } as Patient;
+    const highRisk = generateTasksForPatient({ ...PATIENT, readmissionRiskScore: 'High' });
+
+    const reconciled = applyPlan(highRisk, plan(highRisk, corrected));
+
+    expect(reconciled.map((t) => [t.type, t.status])).toContainEqual(['checkin_call', 'cancelled']);
+    expect(hasReconciliationChanges(plan(reconciled, corrected))).toBe(false);
+  });
+
+  it('should only look at the current encounter, and only once it is discharged', () => {
+    const readmission: Encounter = {
+      id: 'MRN0001-2',
+      patientId: 'MRN0001',
+      admissionDate: '2026-01-20',
+      dischargeDate: null,
+      dischargeTime: null,
+      dischargeDisposition: null,
+      primaryDiagnosis: 'Sepsis',
+    };
+    const discharged: Encounter = {
+      ...readmission,
+      dischargeDate: '2026-01-24',
+      dischargeTime: '09:00',
+      dischargeDisposition: 'Home',
+    };
+    const all = [...tasks, ...generateTasksForEncounter(PATIENT, discharged)];
+    const corrected = { ...discharged, dischargeDisposition: 'Skilled nursing facility' as const };
+
+    expect(hasReconciliationChanges(plan(tasks, PATIENT, readmission))).toBe(false);
+    expect(plan(all, PATIENT, corrected).add.map((t) => [t.type, t.encounterId]))
+      .toEqual([['facility_handoff', 'MRN0001-2']]);
+  });
+});
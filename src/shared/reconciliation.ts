@@ -0,0 +1,117 @@
+// Reconciliation: bringing a patient's existing tasks in line with what the
+// task rules generate for them, after the patient's data (or the rules) changed.
+
+import {
+  Encounter,
+  Patient,
+  Task,
+  TaskReschedule,
+  TaskRule,
+  TaskStatusChangeInput,
+  WorkingCalendar,
+  DEFAULT_WORKING_CALENDAR,
+  TASK_RULES,
+} from './types';
+import { generateTasksForPatient, isOpenTask } from './taskEngine';
+import { generateTasksForEncounter, getEncounterTasks, getFirstEncounter, isInHospital } from './encounters';
+
+/**
+ * Note recorded on tasks cancelled because the rules no longer call for them.
+ */
+export const RECONCILIATION_CANCEL_NOTE = 'No longer called for by the task rules';
+
+/**
+ * The changes that bring one patient's tasks in line with the rules
+ */
+export interface TaskReconciliation {
+  add: Task[];                    // Task types the rules call for that the patient has no task of
+  reschedule: TaskReschedule[];   // Open tasks whose window the rules now put elsewhere
+  cancel: { taskId: string; change: TaskStatusChangeInput }[];  // Open tasks the rules no longer call for
+}
+
+/**
+ * Generate the tasks the rules call for after an encounter's discharge. The
+ * first encounter's come from the patient record and are not tagged with it.
+ */
+function generateExpectedTasks(
+  patient: Patient,
+  encounter: Encounter,
+  rules: TaskRule[],
+  calendar: WorkingCalendar
+): Task[] {
+  if (encounter.id === getFirstEncounter(patient).id) {
+    return generateTasksForPatient(patient, rules, calendar);
+  }
+  return generateTasksForEncounter(patient, encounter, rules, calendar);
+}
+
+function hasSameWindow(task: Task, expected: Task): boolean {
+  return task.dueStart.getTime() === expected.dueStart.getTime() &&
+    task.dueEnd.getTime() === expected.dueEnd.getTime() &&
+    (task.windowMode ?? 'calendar') === (expected.windowMode ?? 'calendar') &&
+    Boolean(task.dischargeTimeUnknown) === Boolean(expected.dischargeTimeUnknown);
+}
+
+/**
+ * Plan the changes that bring a patient's tasks for an encounter in line with
+ * what the rules generate for it:
+ *
+ * - a task type the rules call for that the patient has no task of is added
+ * - an open task whose window differs from the generated one is rescheduled
+ * - an open task of a type the rules no longer call for is cancelled as "not indicated"
+ *
+ * Completed and closed tasks are never changed, and still count as the
+ * patient's task of their type, so a task closed by hand is not added again.
+ * Nothing is planned while the patient is in hospital. Applying the plan and
+ * planning again plans nothing.
+ *
+ * @param tasks - Tasks for any patients
+ * @param encounter - The patient's current encounter; earlier ones are left alone
+ * @param changedBy - Recorded on the cancellations
+ */
+export function planTaskReconciliation(
+  tasks: Task[],
+  patient: Patient,
+  encounter: Encounter,
+  changedBy: string,
+  rules: TaskRule[] = TASK_RULES,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): TaskReconciliation {
+  const plan: TaskReconciliation = { add: [], reschedule: [], cancel: [] };
+  if (isInHospital(encounter)) {
+    return plan;
+  }
+
+  const existing = getEncounterTasks(tasks, encounter);
+  const expected = generateExpectedTasks(patient, encounter, rules, calendar);
+
+  for (const task of expected) {
+    const ofType = existing.filter((t) => t.type === task.type);
+    const open = ofType.find(isOpenTask);
+    if (ofType.length === 0) {
+      plan.add.push(task);
+    } else if (open && !hasSameWindow(open, task)) {
+      const { dueStart, dueEnd, windowMode, dischargeTimeUnknown } = task;
+      plan.reschedule.push({ taskId: open.id, dueStart, dueEnd, windowMode, dischargeTimeUnknown });
+    }
+  }
+
+  const expectedTypes = new Set(expected.map((task) => task.type));
+  for (const task of existing) {
+    if (isOpenTask(task) && !expectedTypes.has(task.type)) {
+      plan.cancel.push({
+        taskId: task.id,
+        change: { action: 'cancelled', reason: 'not_indicated', note: RECONCILIATION_CANCEL_NOTE, changedBy },
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Check whether a reconciliation plan changes anything.
+ */
+export function hasReconciliationChanges(plan: TaskReconciliation): boolean {
+  return plan.add.length > 0 || plan.reschedule.length > 0 || plan.cancel.length > 0;
+}
@@ -0,0 +1,1749 @@
+import { describe, it, expect } from 'vitest';
+import { ContactAttemptInput, Patient, Task, TaskRule, TASK_RULES, DEFAULT_WORKING_CALENDAR } from './types';
+import {
+  generateTaskId,
+  getDischargeDateTime,
+  generateTasksForPatient,
+  generateTasksForPatients,
+  addTasksToCollection,
+  calculateTaskStatus,
+  isTaskOverdue,
+  getTimeRemaining,
+  getTimeRemainingFormatted,
+  updateTaskStatuses,
+  getOverdueTasks,
+  getPendingTasks,
+  getUpcomingTasks,
+  getUrgentTasks,
+  isValidTransition,
+  canCompleteTask,
+  completeTask,
+  completeTaskInCollection,
+  createTaskNote,
+  addTaskNote,
+  editTaskNote,
+  redactTaskNote,
+  addNoteToTaskInCollection,
+  editNoteInCollection,
+  redactNoteInCollection,
+  isOutreachTask,
+  hasSuccessfulContact,
+  validateContactAttemptInput,
+  createContactAttempt,
+  logContactAttempt,
+  logContactAttemptInCollection,
+  assignTask,
+  assignTasksInCollection,
+  escalateTask,
+  escalateTasksInCollection,
+  rescheduleTask,
+  rescheduleTasksInCollection,
+  findTaskById,
+  getTasksByPatientId,
+  getCompletedTasks,
+  getTasksCompletedInRange,
+  getTasksCompletedToday,
+  serializeTasksForStorage,
+  deserializeTasksFromStorage,
+  getTaskVersion,
+  formatTaskEtag,
+  parseTaskEtag,
+  changeTaskStatus,
+  changeTaskStatusInCollection,
+  getClosingStatusChange,
+  getClosedTasks,
+  isOpenTask,
+} from './taskEngine';
+
+const createTestPatient = (overrides: Partial<Patient> = {}): Patient => ({
+  patientId: 'MRN0001',
+  patientName: 'Test Patient',
+  dob: '1980-01-01',
+  gender: 'M',
+  phone: '555-1234',
+  email: 'test@example.com',
+  preferredLanguage: 'English',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Test Diagnosis',
+  dischargeDisposition: 'Home',
+  dischargeMedications: 'Med1, Med2',
+  allergies: 'NKDA',
+  attendingPhysician: 'Dr. Test',
+  pcpName: 'Dr. Primary',
+  pcpPhone: '555-5678',
+  readmissionRiskScore: 'Low',
+  fallRisk: 'Low',
+  notes: null,
+  ...overrides,
+});
+
+const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task_test_123',
+  patientId: 'MRN0001',
+  type: 'medication_reconciliation',
+  status: 'pending',
+  dueStart: new Date('2026-01-14T10:00:00'),
+  dueEnd: new Date('2026-01-15T10:00:00'),
+  ...overrides,
+});
+
+describe('TaskEngine', () => {
+  describe('generateTaskId', () => {
+    it('should generate unique IDs', () => {
+      const id1 = generateTaskId();
+      const id2 = generateTaskId();
+      expect(id1).not.toBe(id2);
+    });
+
+    it('should generate IDs with task_ prefix', () => {
+      const id = generateTaskId();
+      expect(id.startsWith('task_')).toBe(true);
+    });
+
+    it('should derive the same ID from the same patient, encounter and type', () => {
+      expect(generateTaskId({ patientId: 'MRN0001', type: 'contact_patient' })).toBe('task_MRN0001-1_contact_patient');
+      expect(generateTaskId({ patientId: 'MRN0001', type: 'contact_patient', encounterId: 'MRN0001-2' }))
+        .toBe('task_MRN0001-2_contact_patient');
+      expect(generateTasksForPatient(createTestPatient()).map((t) => t.id))
+        .toEqual(generateTasksForPatient(createTestPatient()).map((t) => t.id));
+    });
+  });
+
+  describe('getDischargeDateTime', () => {
+    it('should interpret discharge date and time in the facility time zone', () => {
+      const patient = createTestPatient({
+        dischargeDate: '2026-01-14',
+        dischargeTime: '14:30',
+      });
+
+      expect(getDischargeDateTime(patient, 'America/New_York').toISOString()).toBe('2026-01-14T19:30:00.000Z');
+      expect(getDischargeDateTime(patient, 'America/Los_Angeles').toISOString()).toBe('2026-01-14T22:30:00.000Z');
+    });
+
+    it('should default to the built-in facility time zone', () => {
+      const patient = createTestPatient({ dischargeDate: '2026-07-14', dischargeTime: '14:30' });
+      expect(getDischargeDateTime(patient).toISOString()).toBe('2026-07-14T18:30:00.000Z');
+    });
+
+    it('should default to 00:00 facility time if no discharge time', () => {
+      const patient = createTestPatient({
+        dischargeDate: '2026-01-14',
+        dischargeTime: null,
+      });
+
+      expect(getDischargeDateTime(patient, 'America/New_York').toISOString()).toBe('2026-01-14T05:00:00.000Z');
+    });
+  });
+
+  describe('generateTasksForPatient', () => {
+    it('should generate base tasks for all patients', () => {
+      const patient = createTestPatient();
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).toContain('contact_patient');
+      expect(taskTypes).toContain('medication_reconciliation');
+      expect(taskTypes).toContain('followup_scheduling');
+    });
+
+    it('should generate facility_handoff for SNF patients', () => {
+      const patient = createTestPatient({
+        dischargeDisposition: 'Skilled nursing facility',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).toContain('facility_handoff');
+    });
+
+    it('should NOT generate facility_handoff for non-SNF patients', () => {
+      const patient = createTestPatient({
+        dischargeDisposition: 'Home',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).not.toContain('facility_handoff');
+    });
+
+    it('should NOT generate facility_handoff for home health patients', () => {
+      const patient = createTestPatient({
+        dischargeDisposition: 'Home with home health',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).not.toContain('facility_handoff');
+    });
+
+    it('should generate checkin_call for High risk patients', () => {
+      const patient = createTestPatient({
+        readmissionRiskScore: 'High',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).toContain('checkin_call');
+    });
+
+    it('should generate checkin_call for Very High risk patients', () => {
+      const patient = createTestPatient({
+        readmissionRiskScore: 'Very High',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).toContain('checkin_call');
+    });
+
+    it('should NOT generate checkin_call for Medium risk patients', () => {
+      const patient = createTestPatient({
+        readmissionRiskScore: 'Medium',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).not.toContain('checkin_call');
+    });
+
+    it('should NOT generate checkin_call for Low risk patients', () => {
+      const patient = createTestPatient({
+        readmissionRiskScore: 'Low',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const taskTypes = tasks.map((t) => t.type);
+
+      expect(taskTypes).not.toContain('checkin_call');
+    });
+
+    it('should set correct time windows for contact_patient (0-24hrs)', () => {
+      const patient = createTestPatient({
+        dischargeDate: '2026-01-14',
+        dischargeTime: '10:00',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const contactTask = tasks.find((t) => t.type === 'contact_patient');
+
+      expect(contactTask).toBeDefined();
+      const dischargeTime = new Date('2026-01-14T10:00:00-05:00'); // New York (default facility time zone)
+      expect(contactTask!.dueStart.getTime()).toBe(dischargeTime.getTime());
+      expect(contactTask!.dueEnd.getTime()).toBe(dischargeTime.getTime() + 24 * 60 * 60 * 1000);
+    });
+
+    it('should set correct time windows for medication_reconciliation (0-48hrs)', () => {
+      const patient = createTestPatient({
+        dischargeDate: '2026-01-14',
+        dischargeTime: '10:00',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const medTask = tasks.find((t) => t.type === 'medication_reconciliation');
+
+      expect(medTask).toBeDefined();
+      const dischargeTime = new Date('2026-01-14T10:00:00-05:00'); // New York (default facility time zone)
+      expect(medTask!.dueStart.getTime()).toBe(dischargeTime.getTime());
+      expect(medTask!.dueEnd.getTime()).toBe(dischargeTime.getTime() + 48 * 60 * 60 * 1000);
+    });
+
+    it('should set correct time windows for checkin_call (48-72hrs)', () => {
+      const patient = createTestPatient({
+        dischargeDate: '2026-01-14',
+        dischargeTime: '10:00',
+        readmissionRiskScore: 'High',
+      });
+
+      const tasks = generateTasksForPatient(patient);
+      const checkinTask = tasks.find((t) => t.type === 'checkin_call');
+
+      expect(checkinTask).toBeDefined();
+      const dischargeTime = new Date('2026-01-14T10:00:00-05:00'); // New York (default facility time zone)
+      expect(checkinTask!.dueStart.getTime()).toBe(dischargeTime.getTime() + 48 * 60 * 60 * 1000);
+      expect(checkinTask!.dueEnd.getTime()).toBe(dischargeTime.getTime() + 72 * 60 * 60 * 1000);
+    });
+
+    it('should set patientId on all generated tasks', () => {
+      const patient = createTestPatient({ patientId: 'MRN1234' });
+      const tasks = generateTasksForPatient(patient);
+
+      expect(tasks.every((t) => t.patientId === 'MRN1234')).toBe(true);
+    });
+
+    it('should set status to pending on all generated tasks', () => {
+      const patient = createTestPatient();
+      const tasks = generateTasksForPatient(patient);
+
+      expect(tasks.every((t) => t.status === 'pending')).toBe(true);
+    });
+
+    it('should generate unique IDs for each task', () => {
+      const patient = createTestPatient({ readmissionRiskScore: 'High' });
+      const tasks = generateTasksForPatient(patient);
+      const ids = tasks.map((t) => t.id);
+      const uniqueIds = new Set(ids);
+
+      expect(uniqueIds.size).toBe(ids.length);
+    });
+
+    it('should flag tasks generated without a discharge time', () => {
+      const unknown = generateTasksForPatient(createTestPatient({ dischargeTime: null }));
+      const known = generateTasksForPatient(createTestPatient({ dischargeTime: '10:00' }));
+
+      expect(unknown.every((t) => t.dischargeTimeUnknown === true)).toBe(true);
+      expect(known.every((t) => t.dischargeTimeUnknown === undefined)).toBe(true);
+    });
+
+    describe('across DST transitions', () => {
+      const calendar = { ...DEFAULT_WORKING_CALENDAR, timeZone: 'America/New_York' };
+
+      it('should keep 24 elapsed hours across spring forward', () => {
+        // Saturday 10:00 EST -> Sunday 11:00 EDT is 24 real hours
+        const patient = createTestPatient({ dischargeDate: '2026-03-07', dischargeTime: '10:00' });
+        const task = generateTasksForPatient(patient, TASK_RULES, calendar).find((t) => t.type === 'contact_patient');
+
+        expect(task!.dueStart.toISOString()).toBe('2026-03-07T15:00:00.000Z');
+        expect(task!.dueEnd.toISOString()).toBe('2026-03-08T15:00:00.000Z');
+      });
+
+      it('should keep 24 elapsed hours across fall back', () => {
+        const patient = createTestPatient({ dischargeDate: '2026-10-31', dischargeTime: '10:00' });
+        const task = generateTasksForPatient(patient, TASK_RULES, calendar).find((t) => t.type === 'contact_patient');
+
+        expect(task!.dueStart.toISOString()).toBe('2026-10-31T14:00:00.000Z');
+        expect(task!.dueEnd.toISOString()).toBe('2026-11-01T14:00:00.000Z');
+      });
+
+      it('should resolve a discharge inside the spring-forward gap', () => {
+        const patient = createTestPatient({ dischargeDate: '2026-03-08', dischargeTime: '02:30' });
+        const task = generateTasksForPatient(patient, TASK_RULES, calendar).find((t) => t.type === 'contact_patient');
+
+        expect(task!.dueStart.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+      });
+    });
+
+    describe('business-hour windows', () => {
+      const businessRules: TaskRule[] = TASK_RULES.map((rule) =>
+        rule.type === 'contact_patient' ? { ...rule, windowMode: 'business' } : rule
+      );
+
+      it('should not put a Friday afternoon deadline on the weekend', () => {
+        // Friday 16:00: 1h Friday + 9h Mon + 9h Tue + 5h Wed = 24 business hours
+        const patient = createTestPatient({ dischargeDate: '2026-01-16', dischargeTime: '16:00' });
+        const task = generateTasksForPatient(patient, businessRules).find((t) => t.type === 'contact_patient');
+
+        expect(task!.dueStart).toEqual(new Date('2026-01-16T16:00:00-05:00'));
+        expect(task!.dueEnd).toEqual(new Date('2026-01-21T13:00:00-05:00'));
+        expect(task!.windowMode).toBe('business');
+      });
+
+      it('should skip configured holidays', () => {
+        const calendar = { ...DEFAULT_WORKING_CALENDAR, holidays: ['2026-01-19'] };
+        const patient = createTestPatient({ dischargeDate: '2026-01-16', dischargeTime: '16:00' });
+        const task = generateTasksForPatient(patient, businessRules, calendar).find((t) => t.type === 'contact_patient');
+
+        expect(task!.dueEnd).toEqual(new Date('2026-01-22T13:00:00-05:00'));
+      });
+
+      it('should leave calendar-hour rules unchanged', () => {
+        const patient = createTestPatient({ dischargeDate: '2026-01-16', dischargeTime: '16:00' });
+        const task = generateTasksForPatient(patient, businessRules).find((t) => t.type === 'medication_reconciliation');
+
+        expect(task!.dueEnd).toEqual(new Date('2026-01-18T16:00:00-05:00'));
+        expect(task!.windowMode).toBeUndefined();
+      });
+    });
+  });
+
+  describe('generateTasksForPatients', () => {
+    it('should generate tasks for multiple patients', () => {
+      const patients = [
+        createTestPatient({ patientId: 'MRN0001' }),
+        createTestPatient({ patientId: 'MRN0002' }),
+      ];
+
+      const tasks = generateTasksForPatients(patients);
+
+      const patient1Tasks = tasks.filter((t) => t.patientId === 'MRN0001');
+      const patient2Tasks = tasks.filter((t) => t.patientId === 'MRN0002');
+
+      expect(patient1Tasks.length).toBeGreaterThan(0);
+      expect(patient2Tasks.length).toBeGreaterThan(0);
+    });
+
+    it('should return empty array for empty patient list', () => {
+      const tasks = generateTasksForPatients([]);
+      expect(tasks).toEqual([]);
+    });
+  });
+
+  describe('addTasksToCollection', () => {
+    it('should skip tasks whose ID is already taken', () => {
+      const existing = [createTestTask({ id: 'task_1' })];
+      const fresh = createTestTask({ id: 'task_2' });
+
+      const { tasks, result } = addTasksToCollection(existing, [
+        createTestTask({ id: 'task_1' }),
+        fresh,
+        createTestTask({ id: 'task_2' }),
+      ]);
+
+      expect(tasks.map((t) => t.id)).toEqual(['task_1', 'task_2']);
+      expect(result.added).toEqual([fresh]);
+      expect(result.duplicates.map((t) => t.id)).toEqual(['task_1', 'task_2']);
+      expect(addTasksToCollection(tasks, [fresh]).tasks).toBe(tasks);
+    });
+  });
+
+  describe('calculateTaskStatus', () => {
+    const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+      id: 'task_1',
+      patientId: 'MRN0001',
+      type: 'contact_patient',
+      status: 'pending',
+      dueStart: new Date('2026-01-14T10:00:00'),
+      dueEnd: new Date('2026-01-15T10:00:00'),
+      ...overrides,
+    });
+
+    it('should return completed for completed tasks', () => {
+      const task = createTestTask({ status: 'completed' });
+      const now = new Date('2026-01-14T12:00:00');
+      expect(calculateTaskStatus(task, now)).toBe('completed');
+    });
+
+    it('should return upcoming when before dueStart', () => {
+      const task = createTestTask({
+        dueStart: new Date('2026-01-14T10:00:00'),
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-14T08:00:00'); // 2 hours before window
+      expect(calculateTaskStatus(task, now)).toBe('upcoming');
+    });
+
+    it('should return pending when within time window', () => {
+      const task = createTestTask({
+        dueStart: new Date('2026-01-14T10:00:00'),
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-14T12:00:00'); // Within window
+      expect(calculateTaskStatus(task, now)).toBe('pending');
+    });
+
+    it('should return overdue when after dueEnd', () => {
+      const task = createTestTask({
+        dueStart: new Date('2026-01-14T10:00:00'),
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-15T12:00:00'); // 2 hours after window
+      expect(calculateTaskStatus(task, now)).toBe('overdue');
+    });
+
+    it('should handle checkin_call 48-72hr window correctly', () => {
+      // Check-in call window: 48-72 hours after discharge
+      const dischargeTime = new Date('2026-01-14T10:00:00-05:00'); // New York (default facility time zone)
+      const task = createTestTask({
+        type: 'checkin_call',
+        dueStart: new Date(dischargeTime.getTime() + 48 * 60 * 60 * 1000),
+        dueEnd: new Date(dischargeTime.getTime() + 72 * 60 * 60 * 1000),
+      });
+
+      // Before window (at 24 hours)
+      const before = new Date(dischargeTime.getTime() + 24 * 60 * 60 * 1000);
+      expect(calculateTaskStatus(task, before)).toBe('upcoming');
+
+      // Within window (at 60 hours)
+      const during = new Date(dischargeTime.getTime() + 60 * 60 * 60 * 1000);
+      expect(calculateTaskStatus(task, during)).toBe('pending');
+
+      // After window (at 80 hours)
+      const after = new Date(dischargeTime.getTime() + 80 * 60 * 60 * 1000);
+      expect(calculateTaskStatus(task, after)).toBe('overdue');
+    });
+  });
+
+  describe('isTaskOverdue', () => {
+    const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+      id: 'task_1',
+      patientId: 'MRN0001',
+      type: 'contact_patient',
+      status: 'pending',
+      dueStart: new Date('2026-01-14T10:00:00'),
+      dueEnd: new Date('2026-01-15T10:00:00'),
+      ...overrides,
+    });
+
+    it('should return true for overdue tasks', () => {
+      const task = createTestTask();
+      const now = new Date('2026-01-16T10:00:00');
+      expect(isTaskOverdue(task, now)).toBe(true);
+    });
+
+    it('should return false for pending tasks', () => {
+      const task = createTestTask();
+      const now = new Date('2026-01-14T12:00:00');
+      expect(isTaskOverdue(task, now)).toBe(false);
+    });
+
+    it('should return false for completed tasks', () => {
+      const task = createTestTask({ status: 'completed' });
+      const now = new Date('2026-01-16T10:00:00');
+      expect(isTaskOverdue(task, now)).toBe(false);
+    });
+  });
+
+  describe('getTimeRemaining', () => {
+    const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+      id: 'task_1',
+      patientId: 'MRN0001',
+      type: 'contact_patient',
+      status: 'pending',
+      dueStart: new Date('2026-01-14T10:00:00'),
+      dueEnd: new Date('2026-01-15T10:00:00'),
+      ...overrides,
+    });
+
+    it('should return positive milliseconds when not overdue', () => {
+      const task = createTestTask({
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-15T08:00:00'); // 2 hours before deadline
+      const remaining = getTimeRemaining(task, now);
+      expect(remaining).toBe(2 * 60 * 60 * 1000); // 2 hours in ms
+    });
+
+    it('should return negative milliseconds when overdue', () => {
+      const task = createTestTask({
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-15T12:00:00'); // 2 hours after deadline
+      const remaining = getTimeRemaining(task, now);
+      expect(remaining).toBe(-2 * 60 * 60 * 1000); // -2 hours in ms
+    });
+
+    it('should return zero at exact deadline', () => {
+      const task = createTestTask({
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-15T10:00:00');
+      const remaining = getTimeRemaining(task, now);
+      expect(remaining).toBe(0);
+    });
+  });
+
+  describe('getTimeRemainingFormatted', () => {
+    const createTestTask = (overrides: Partial<Task> = {}): Task => ({
+      id: 'task_1',
+      patientId: 'MRN0001',
+      type: 'contact_patient',
+      status: 'pending',
+      dueStart: new Date('2026-01-14T10:00:00'),
+      dueEnd: new Date('2026-01-15T10:00:00'),
+      ...overrides,
+    });
+
+    it('should format time remaining correctly', () => {
+      const task = createTestTask({
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-15T07:30:00'); // 2.5 hours before deadline
+
+      const result = getTimeRemainingFormatted(task, now);
+
+      expect(result.hours).toBe(2);
+      expect(result.minutes).toBe(30);
+      expect(result.isOverdue).toBe(false);
+      expect(result.totalMinutes).toBe(150);
+    });
+
+    it('should format overdue time correctly', () => {
+      const task = createTestTask({
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      });
+      const now = new Date('2026-01-15T11:30:00'); // 1.5 hours after deadline
+
+      const result = getTimeRemainingFormatted(task, now);
+
+      expect(result.hours).toBe(1);
+      expect(result.minutes).toBe(30);
+      expect(result.isOverdue).toBe(true);
+      expect(result.totalMinutes).toBe(90);
+    });
+
+    it('should count only business hours for business-hour tasks', () => {
+      const task = createTestTask({
+        dueEnd: new Date('2026-01-19T10:00:00-05:00'), // Monday
+        windowMode: 'business',
+      });
+      const now = new Date('2026-01-16T16:30:00-05:00'); // Friday
+
+      const result = getTimeRemainingFormatted(task, now);
+
+      expect(result.hours).toBe(2);
+      expect(result.minutes).toBe(30);
+      expect(result.isOverdue).toBe(false);
+    });
+
+    it('should report a business-hour task as overdue outside working hours', () => {
+      const task = createTestTask({
+        dueEnd: new Date('2026-01-16T17:00:00-05:00'), // Friday close
+        windowMode: 'business',
+      });
+      const now = new Date('2026-01-17T12:00:00-05:00'); // Saturday
+
+      const result = getTimeRemainingFormatted(task, now);
+
+      expect(result.isOverdue).toBe(true);
+      expect(result.totalMinutes).toBe(0);
+    });
+  });
+
+  describe('updateTaskStatuses', () => {
+    it('should update statuses based on current time', () => {
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0001',
+          type: 'medication_reconciliation',
+          status: 'pending',
+          dueStart: new Date('2026-01-16T10:00:00'),
+          dueEnd: new Date('2026-01-17T10:00:00'),
+        },
+      ];
+
+      const now = new Date('2026-01-14T12:00:00');
+      const updated = updateTaskStatuses(tasks, now);
+
+      expect(updated[0].status).toBe('pending'); // Within window
+      expect(updated[1].status).toBe('upcoming'); // Window not yet open
+    });
+  });
+
+  describe('getOverdueTasks', () => {
+    it('should return only overdue tasks', () => {
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'pending',
+          dueStart: new Date('2026-01-13T10:00:00'),
+          dueEnd: new Date('2026-01-14T10:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0001',
+          type: 'medication_reconciliation',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+        },
+      ];
+
+      const now = new Date('2026-01-14T12:00:00');
+      const overdue = getOverdueTasks(tasks, now);
+
+      expect(overdue).toHaveLength(1);
+      expect(overdue[0].id).toBe('task_1');
+    });
+  });
+
+  describe('getPendingTasks', () => {
+    it('should return only pending tasks', () => {
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0001',
+          type: 'medication_reconciliation',
+          status: 'pending',
+          dueStart: new Date('2026-01-16T10:00:00'),
+          dueEnd: new Date('2026-01-17T10:00:00'),
+        },
+      ];
+
+      const now = new Date('2026-01-14T12:00:00');
+      const pending = getPendingTasks(tasks, now);
+
+      expect(pending).toHaveLength(1);
+      expect(pending[0].id).toBe('task_1');
+    });
+  });
+
+  describe('getUpcomingTasks', () => {
+    it('should return only upcoming tasks', () => {
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0001',
+          type: 'checkin_call',
+          status: 'pending',
+          dueStart: new Date('2026-01-16T10:00:00'),
+          dueEnd: new Date('2026-01-17T10:00:00'),
+        },
+      ];
+
+      const now = new Date('2026-01-14T12:00:00');
+      const upcoming = getUpcomingTasks(tasks, now);
+
+      expect(upcoming).toHaveLength(1);
+      expect(upcoming[0].id).toBe('task_2');
+    });
+  });
+
+  describe('getUrgentTasks', () => {
+    const tasks: Task[] = [
+      {
+        id: 'task_1',
+        patientId: 'MRN0001',
+        type: 'contact_patient',
+        status: 'pending',
+        dueStart: new Date('2026-01-14T10:00:00'),
+        dueEnd: new Date('2026-01-14T14:00:00'),
+      },
+      {
+        id: 'task_2',
+        patientId: 'MRN0001',
+        type: 'medication_reconciliation',
+        status: 'pending',
+        dueStart: new Date('2026-01-14T10:00:00'),
+        dueEnd: new Date('2026-01-15T10:00:00'),
+      },
+      {
+        id: 'task_3',
+        patientId: 'MRN0001',
+        type: 'followup_scheduling',
+        status: 'completed',
+        dueStart: new Date('2026-01-14T10:00:00'),
+        dueEnd: new Date('2026-01-14T13:00:00'),
+      },
+      {
+        id: 'task_4',
+        patientId: 'MRN0001',
+        type: 'facility_handoff',
+        status: 'pending',
+        dueStart: new Date('2026-01-13T10:00:00'),
+        dueEnd: new Date('2026-01-14T11:00:00'),
+      },
+    ];
+
+    it('should return open tasks due within the default 4 hour threshold', () => {
+      const now = new Date('2026-01-14T12:00:00');
+      const urgent = getUrgentTasks(tasks, undefined, now);
+
+      expect(urgent.map((t) => t.id)).toEqual(['task_1']);
+    });
+
+    it('should respect a custom threshold', () => {
+      const now = new Date('2026-01-14T12:00:00');
+      const urgent = getUrgentTasks(tasks, 24, now);
+
+      expect(urgent.map((t) => t.id)).toEqual(['task_1', 'task_2']);
+    });
+  });
+
+  // =============================================================================
+  // Task Status Transitions
+  // =============================================================================
+
+  describe('isValidTransition', () => {
+    it('should allow pending to completed', () => {
+      expect(isValidTransition('pending', 'completed')).toBe(true);
+    });
+
+    it('should allow overdue to completed', () => {
+      expect(isValidTransition('overdue', 'completed')).toBe(true);
+    });
+
+    it('should allow pending to overdue', () => {
+      expect(isValidTransition('pending', 'overdue')).toBe(true);
+    });
+
+    it('should only leave completed by reopening', () => {
+      expect(isValidTransition('completed', 'pending')).toBe(true);
+      expect(isValidTransition('completed', 'overdue')).toBe(true);
+      expect(isValidTransition('completed', 'cancelled')).toBe(false);
+      expect(isValidTransition('completed', 'not_applicable')).toBe(false);
+    });
+
+    it('should allow closing open tasks, but not closed ones', () => {
+      expect(isValidTransition('upcoming', 'cancelled')).toBe(true);
+      expect(isValidTransition('overdue', 'not_applicable')).toBe(true);
+      expect(isValidTransition('cancelled', 'not_applicable')).toBe(false);
+      expect(isValidTransition('not_applicable', 'completed')).toBe(false);
+    });
+
+    it('should not allow upcoming to completed directly', () => {
+      expect(isValidTransition('upcoming', 'completed')).toBe(false);
+    });
+  });
+
+  describe('canCompleteTask', () => {
+    it('should return true for pending task', () => {
+      const now = new Date('2026-01-14T12:00:00');
+      const task = createTestTask({ status: 'pending' });
+      expect(canCompleteTask(task, now)).toBe(true);
+    });
+
+    it('should return true for overdue task', () => {
+      const now = new Date('2026-01-16T12:00:00'); // After dueEnd
+      const task = createTestTask({ status: 'pending' });
+      expect(canCompleteTask(task, now)).toBe(true);
+    });
+
+    it('should return false for completed task', () => {
+      const task = createTestTask({ status: 'completed' });
+      expect(canCompleteTask(task)).toBe(false);
+    });
+
+    it('should return false for upcoming task', () => {
+      const now = new Date('2026-01-14T08:00:00'); // Before dueStart
+      const task = createTestTask({ status: 'pending' });
+      expect(canCompleteTask(task, now)).toBe(false);
+    });
+  });
+
+  describe('completeTask', () => {
+    it('should complete a pending task', () => {
+      const now = new Date('2026-01-14T12:00:00');
+      const task = createTestTask({ status: 'pending' });
+
+      const result = completeTask(task, 'Nurse Smith', now);
+
+      expect(result.success).toBe(true);
+      expect(result.task?.status).toBe('completed');
+      expect(result.task?.completedAt).toEqual(now);
+      expect(result.task?.completedBy).toBe('Nurse Smith');
+    });
+
+    it('should complete an overdue task', () => {
+      const now = new Date('2026-01-16T12:00:00');
+      const task = createTestTask({ status: 'pending' });
+
+      const result = completeTask(task, 'Nurse Smith', now);
+
+      expect(result.success).toBe(true);
+      expect(result.task?.status).toBe('completed');
+    });
+
+    it('should fail for already completed task', () => {
+      const task = createTestTask({ status: 'completed' });
+
+      const result = completeTask(task);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Task is already completed');
+    });
+
+    it('should fail for upcoming task', () => {
+      const now = new Date('2026-01-14T08:00:00');
+      const task = createTestTask({ status: 'pending' });
+
+      const result = completeTask(task, undefined, now);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Cannot complete a task before its window opens');
+    });
+
+    it('should work without completedBy', () => {
+      const now = new Date('2026-01-14T12:00:00');
+      const task = createTestTask({ status: 'pending' });
+
+      const result = completeTask(task, undefined, now);
+
+      expect(result.success).toBe(true);
+      expect(result.task?.completedBy).toBeUndefined();
+    });
+  });
+
+  describe('contact attempts', () => {
+    const NOW = new Date('2026-01-14T12:00:00Z');
+    const input = (overrides: Partial<ContactAttemptInput> = {}): ContactAttemptInput => ({
+      channel: 'phone',
+      destination: '555-1234',
+      outcome: 'voicemail',
+      attemptedBy: 'Assistant Lee',
+      ...overrides,
+    });
+    const outreachTask = (overrides: Partial<Task> = {}) => createTestTask({ type: 'contact_patient', ...overrides });
+
+    it('should treat contact_patient and checkin_call as outreach', () => {
+      expect(isOutreachTask(outreachTask())).toBe(true);
+      expect(isOutreachTask(createTestTask({ type: 'checkin_call' }))).toBe(true);
+      expect(isOutreachTask(createTestTask())).toBe(false);
+    });
+
+    it('should create an attempt with an ID and timestamp', () => {
+      const attempt = createContactAttempt(input({ destination: ' 555-1234 ', notes: 'Busy signal' }), NOW);
+
+      expect(attempt.id).toMatch(/^attempt_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+      expect(attempt.attemptedAt).toEqual(NOW);
+      expect(attempt.destination).toBe('555-1234');
+      expect(attempt.notes).toBe('Busy signal');
+    });
+
+    it('should append attempts in order without modifying the original task', () => {
+      const task = outreachTask();
+      const first = logContactAttempt(task, createContactAttempt(input({ outcome: 'no_answer' }), NOW));
+      const second = logContactAttempt(first.task!, createContactAttempt(input({ outcome: 'reached' }), NOW));
+
+      expect(second.task?.contactAttempts?.map((a) => a.outcome)).toEqual(['no_answer', 'reached']);
+      expect(task.contactAttempts).toBeUndefined();
+    });
+
+    it('should refuse attempts on non-outreach or completed tasks', () => {
+      const attempt = createContactAttempt(input(), NOW);
+
+      expect(logContactAttempt(createTestTask(), attempt).error).toBe('Contact attempts can only be logged on outreach tasks');
+      expect(logContactAttempt(outreachTask({ status: 'completed' }), attempt).error).toBe(
+        'Cannot log a contact attempt on a completed task'
+      );
+    });
+
+    it('should only count reached as a successful contact', () => {
+      const attempts = ['voicemail', 'no_answer', 'wrong_number', 'refused'] as const;
+      const unsuccessful = outreachTask({
+        contactAttempts: attempts.map((outcome) => createContactAttempt(input({ outcome }), NOW)),
+      });
+
+      expect(hasSuccessfulContact(unsuccessful)).toBe(false);
+      expect(hasSuccessfulContact(logContactAttempt(unsuccessful, createContactAttempt(input({ outcome: 'reached' }), NOW)).task!)).toBe(true);
+    });
+
+    it('should block completing an outreach task until the patient is reached', () => {
+      const task = outreachTask({ contactAttempts: [createContactAttempt(input({ outcome: 'voicemail' }), NOW)] });
+
+      const blocked = completeTask(task, 'Assistant Lee', NOW);
+      expect(blocked.success).toBe(false);
+      expect(blocked.error).toBe('Log a successful contact attempt before completing this task');
+
+      const reached = logContactAttempt(task, createContactAttempt(input({ outcome: 'reached' }), NOW)).task!;
+      expect(completeTask(reached, 'Assistant Lee', NOW).success).toBe(true);
+    });
+
+    it('should log an attempt in a collection by ID', () => {
+      const tasks = [outreachTask({ id: 'task_1' }), outreachTask({ id: 'task_2' })];
+      const { tasks: updated, result } = logContactAttemptInCollection(tasks, 'task_2', createContactAttempt(input(), NOW));
+
+      expect(result.success).toBe(true);
+      expect(updated[1].contactAttempts).toHaveLength(1);
+      expect(updated[0].contactAttempts).toBeUndefined();
+      expect(logContactAttemptInCollection(tasks, 'missing', createContactAttempt(input(), NOW)).result.error).toBe(
+        "Task with ID 'missing' not found"
+      );
+    });
+
+    describe('validateContactAttemptInput', () => {
+      it('should accept a complete attempt', () => {
+        expect(validateContactAttemptInput(input({ notes: 'ok' }))).toBeUndefined();
+      });
+
+      it('should reject unknown channels and outcomes', () => {
+        expect(validateContactAttemptInput({ ...input(), channel: 'fax' })).toBe('channel must be one of: phone, sms, email');
+        expect(validateContactAttemptInput({ ...input(), outcome: 'busy' })).toBe(
+          'outcome must be one of: reached, voicemail, no_answer, wrong_number, refused'
+        );
+      });
+
+      it('should require a destination and who made the attempt', () => {
+        expect(validateContactAttemptInput(input({ destination: '  ' }))).toBe('destination must be the number or email address used');
+        expect(validateContactAttemptInput(input({ attemptedBy: '' }))).toBe('attemptedBy must be a non-empty string');
+      });
+    });
+  });
+
+  describe('task notes', () => {
+    const NOW = new Date('2026-01-14T12:00:00Z');
+    const LATER = new Date('2026-01-14T13:00:00Z');
+
+    const taskWithNote = (text = 'Called patient, left voicemail') =>
+      createTestTask({ notes: [{ ...createTaskNote(text, 'Nurse Smith', NOW), id: 'note_1' }] });
+
+    it('should build a note with author, timestamp and trimmed text', () => {
+      const note = createTaskNote('  Pharmacy closed  ', 'Nurse Smith', NOW);
+
+      expect(note.id).toMatch(/^note_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+      expect(note).toMatchObject({ text: 'Pharmacy closed', author: 'Nurse Smith', createdAt: NOW });
+    });
+
+    it('should append notes instead of replacing them', () => {
+      const task = taskWithNote();
+      const result = addTaskNote(task, createTaskNote('Patient called back', 'Nurse Jones', LATER));
+
+      expect(result.success).toBe(true);
+      expect(result.task?.notes?.map((n) => n.text)).toEqual(['Called patient, left voicemail', 'Patient called back']);
+      expect(task.notes).toHaveLength(1);
+    });
+
+    it('should reject an empty note', () => {
+      const result = addTaskNote(createTestTask(), createTaskNote('   ', 'Nurse Smith', NOW));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Note text cannot be empty');
+    });
+
+    it('should keep the previous text when a note is edited', () => {
+      const result = editTaskNote(taskWithNote(), 'note_1', 'Called patient, no answer', 'Nurse Smith', LATER);
+
+      expect(result.note?.text).toBe('Called patient, no answer');
+      expect(result.note?.changes).toEqual([
+        { action: 'edited', changedAt: LATER, changedBy: 'Nurse Smith', previousText: 'Called patient, left voicemail' },
+      ]);
+    });
+
+    it('should not record an edit that leaves the text unchanged', () => {
+      const result = editTaskNote(taskWithNote(), 'note_1', 'Called patient, left voicemail ', 'Nurse Smith', LATER);
+
+      expect(result.success).toBe(true);
+      expect(result.note?.changes).toBeUndefined();
+    });
+
+    it('should blank the text and all earlier versions when a note is redacted', () => {
+      const edited = editTaskNote(taskWithNote('Wrong patient'), 'note_1', 'Wrong patient, sorry', 'Nurse Smith', NOW).task!;
+      const result = redactTaskNote(edited, 'note_1', 'Supervisor', ' Entered on wrong chart ', LATER);
+
+      expect(result.note).toMatchObject({ text: '', redacted: true });
+      expect(result.note?.changes).toEqual([
+        { action: 'edited', changedAt: NOW, changedBy: 'Nurse Smith' },
+        { action: 'redacted', changedAt: LATER, changedBy: 'Supervisor', reason: 'Entered on wrong chart' },
+      ]);
+      expect(JSON.stringify(result.task)).not.toContain('Wrong patient');
+    });
+
+    it('should require a reason to redact', () => {
+      const result = redactTaskNote(taskWithNote(), 'note_1', 'Supervisor', ' ', LATER);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('A reason is required to redact a note');
+    });
+
+    it('should refuse to change a redacted note', () => {
+      const redacted = redactTaskNote(taskWithNote(), 'note_1', 'Supervisor', 'Wrong chart', NOW).task!;
+
+      expect(editTaskNote(redacted, 'note_1', 'New text', 'Nurse Smith').error).toBe('Note has been redacted');
+      expect(redactTaskNote(redacted, 'note_1', 'Supervisor', 'Again').error).toBe('Note has been redacted');
+    });
+
+    it('should report a missing note', () => {
+      expect(editTaskNote(createTestTask(), 'note_9', 'Text', 'Nurse Smith').error).toBe("Note with ID 'note_9' not found");
+    });
+  });
+
+  describe('completeTaskInCollection', () => {
+    it('should complete a task and update the collection', () => {
+      const now = new Date('2026-01-14T12:00:00');
+      const tasks = [
+        createTestTask({ id: 'task_1' }),
+        createTestTask({ id: 'task_2' }),
+      ];
+
+      const { tasks: updatedTasks, result } = completeTaskInCollection(
+        tasks,
+        'task_1',
+        'Nurse Smith',
+        now
+      );
+
+      expect(result.success).toBe(true);
+      expect(updatedTasks[0].status).toBe('completed');
+      expect(updatedTasks[0].completedBy).toBe('Nurse Smith');
+      expect(updatedTasks[1].status).toBe('pending');
+    });
+
+    it('should return error for non-existent task', () => {
+      const tasks = [createTestTask({ id: 'task_1' })];
+
+      const { result } = completeTaskInCollection(tasks, 'task_999');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not found');
+    });
+
+    it('should not modify original array', () => {
+      const now = new Date('2026-01-14T12:00:00');
+      const tasks = [createTestTask({ id: 'task_1' })];
+
+      completeTaskInCollection(tasks, 'task_1', 'Nurse', now);
+
+      expect(tasks[0].status).toBe('pending');
+    });
+  });
+
+  describe('closing and reopening tasks', () => {
+    const now = new Date('2026-01-14T12:00:00');
+    const cancel = { action: 'cancelled', reason: 'readmitted', changedBy: 'nurse-1' } as const;
+
+    it('should cancel a task with a reason, keeping the status whatever the window', () => {
+      const result = changeTaskStatus(createTestTask(), { ...cancel, note: ' Back in ED ' }, now);
+
+      expect(result.success).toBe(true);
+      expect(result.task?.status).toBe('cancelled');
+      expect(result.task?.statusChanges).toEqual([{
+        action: 'cancelled',
+        reason: 'readmitted',
+        note: 'Back in ED',
+        fromStatus: 'pending',
+        changedAt: now,
+        changedBy: 'nurse-1',
+      }]);
+      expect(calculateTaskStatus(result.task!, new Date('2026-01-20T12:00:00'))).toBe('cancelled');
+    });
+
+    it('should require a known reason code for the action, and a note for "other"', () => {
+      const task = createTestTask();
+
+      expect(changeTaskStatus(task, { ...cancel, reason: 'completed_in_error' }, now).error)
+        .toBe('reason must be one of: readmitted, deceased, transferred, opted_out, duplicate, not_indicated, other');
+      expect(changeTaskStatus(task, { ...cancel, action: 'reopened' }, now).error).toContain('closed_in_error');
+      expect(changeTaskStatus(task, { ...cancel, reason: 'other' }, now).error)
+        .toBe('A note is required when the reason is "other"');
+      expect(changeTaskStatus(task, { ...cancel, reason: 'other', note: 'Moved away' }, now).success).toBe(true);
+    });
+
+    it('should not close a task that is already completed or closed', () => {
+      const completed = createTestTask({ status: 'completed' });
+      const marked = changeTaskStatus(createTestTask(), { ...cancel, action: 'not_applicable' }, now).task!;
+
+      expect(changeTaskStatus(completed, cancel, now).error).toBe('Task is already completed');
+      expect(changeTaskStatus(marked, cancel, now).error).toBe('Task is already not applicable');
+      expect(completeTask(marked, 'nurse-1', now).error).toBe('Task is already not applicable');
+    });
+
+    it('should reopen a completed task to its window status, clearing the completion', () => {
+      const completed = completeTask(createTestTask(), 'nurse-1', now).task!;
+      const later = new Date('2026-01-16T12:00:00');
+
+      const result = changeTaskStatus(
+        completed,
+        { action: 'reopened', reason: 'completed_in_error', changedBy: 'supervisor' },
+        later
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.task?.status).toBe('overdue');
+      expect(result.task?.completedAt).toBeUndefined();
+      expect(result.task?.completedBy).toBeUndefined();
+      expect(result.change).toMatchObject({ action: 'reopened', fromStatus: 'completed' });
+    });
+
+    it('should only reopen completed or closed tasks', () => {
+      const result = changeTaskStatus(
+        createTestTask(),
+        { action: 'reopened', reason: 'needs_follow_up', changedBy: 'nurse-1' },
+        now
+      );
+
+      expect(result.error).toBe('Cannot reopen a task that is pending');
+    });
+
+    it('should leave closed tasks out of open-task work and metrics', () => {
+      const closed = changeTaskStatus(createTestTask(), cancel, now).task!;
+      const late = new Date('2026-01-15T09:00:00');
+
+      expect(isOpenTask(closed)).toBe(false);
+      expect(getOverdueTasks([closed], new Date('2026-01-20T12:00:00'))).toEqual([]);
+      expect(getUrgentTasks([closed], 4, late)).toEqual([]);
+      expect(getClosedTasks(updateTaskStatuses([closed]))).toHaveLength(1);
+      expect(assignTask(closed, 'nurse-1').error).toBe('Cannot assign a cancelled task');
+    });
+
+    it('should find the change that closed a task until it is reopened', () => {
+      const closed = changeTaskStatus(createTestTask(), cancel, now).task!;
+      expect(getClosingStatusChange(closed)?.reason).toBe('readmitted');
+
+      const reopened = changeTaskStatus(
+        closed,
+        { action: 'reopened', reason: 'closed_in_error', changedBy: 'nurse-1' },
+        now
+      ).task!;
+      expect(reopened.status).toBe('pending');
+      expect(reopened.statusChanges).toHaveLength(2);
+      expect(getClosingStatusChange(reopened)).toBeUndefined();
+    });
+
+    it('should change a task in a collection, bumping its version', () => {
+      const tasks = [createTestTask({ id: 'task_1' }), createTestTask({ id: 'task_2' })];
+
+      const { tasks: updated, result } = changeTaskStatusInCollection(tasks, 'task_2', cancel, now, 0);
+
+      expect(result.success).toBe(true);
+      expect(updated[1]).toMatchObject({ status: 'cancelled', version: 1 });
+      expect(changeTaskStatusInCollection(updated, 'task_2', cancel, now, 0).result.conflict).toBeDefined();
+    });
+  });
+
+  describe('note collection helpers', () => {
+    const NOW = new Date('2026-01-14T12:00:00Z');
+
+    it('should add a note to one task in the collection', () => {
+      const tasks = [
+        createTestTask({ id: 'task_1' }),
+        createTestTask({ id: 'task_2' }),
+      ];
+
+      const { tasks: updatedTasks, result } = addNoteToTaskInCollection(
+        tasks,
+        'task_1',
+        createTaskNote('Patient unreachable', 'Nurse Smith', NOW)
+      );
+
+      expect(result.success).toBe(true);
+      expect(updatedTasks[0].notes?.[0].text).toBe('Patient unreachable');
+      expect(updatedTasks[1].notes).toBeUndefined();
+    });
+
+    it('should edit and redact notes by task and note ID', () => {
+      const note = { ...createTaskNote('First', 'Nurse Smith', NOW), id: 'note_1' };
+      const tasks = [createTestTask({ id: 'task_1', notes: [note] })];
+
+      const edited = editNoteInCollection(tasks, 'task_1', 'note_1', 'Second', 'Nurse Smith', NOW);
+      const redacted = redactNoteInCollection(edited.tasks, 'task_1', 'note_1', 'Supervisor', 'Wrong chart', NOW);
+
+      expect(edited.tasks[0].notes?.[0].text).toBe('Second');
+      expect(redacted.tasks[0].notes?.[0].redacted).toBe(true);
+      expect(tasks[0].notes?.[0].text).toBe('First');
+    });
+
+    it('should return error for non-existent task', () => {
+      const tasks = [createTestTask({ id: 'task_1' })];
+
+      const { tasks: unchanged, result } = addNoteToTaskInCollection(tasks, 'task_999', createTaskNote('Notes', 'Nurse'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not found');
+      expect(unchanged).toBe(tasks);
+    });
+  });
+
+  describe('task versions', () => {
+    const NOW = new Date('2026-01-14T12:00:00Z');
+
+    it('should bump the version on each change, but not on a no-op edit', () => {
+      const note = { ...createTaskNote('First', 'Nurse Smith', NOW), id: 'note_1' };
+      const tasks = [createTestTask({ id: 'task_1', notes: [note] })];
+      expect(getTaskVersion(tasks[0])).toBe(0);
+
+      const edited = editNoteInCollection(tasks, 'task_1', 'note_1', 'Second', 'Nurse Smith', NOW);
+      expect(edited.result.task?.version).toBe(1);
+      expect(edited.tasks[0].version).toBe(1);
+
+      const unchanged = editNoteInCollection(edited.tasks, 'task_1', 'note_1', 'Second', 'Nurse Smith', NOW);
+      expect(unchanged.tasks).toBe(edited.tasks);
+
+      const completed = completeTaskInCollection(unchanged.tasks, 'task_1', 'Nurse Smith', NOW);
+      expect(completed.tasks[0].version).toBe(2);
+    });
+
+    it('should refuse a change based on an out-of-date version, returning the current task', () => {
+      const tasks = [createTestTask({ id: 'task_1', version: 3 })];
+
+      const stale = completeTaskInCollection(tasks, 'task_1', 'Nurse Smith', NOW, 2);
+      expect(stale.result).toEqual({
+        success: false,
+        error: 'Task was changed by someone else (now version 3, expected 2)',
+        conflict: tasks[0],
+      });
+      expect(stale.tasks).toBe(tasks);
+
+      const current = completeTaskInCollection(tasks, 'task_1', 'Nurse Smith', NOW, 3);
+      expect(current.result.success).toBe(true);
+    });
+
+    it('should refuse every assignment if one is out of date', () => {
+      const tasks = [createTestTask({ id: 'task_1' }), createTestTask({ id: 'task_2', version: 1 })];
+
+      const { tasks: unchanged, result } = assignTasksInCollection(tasks, [
+        { taskId: 'task_1', assignedTo: 'nurse-1', expectedVersion: 0 },
+        { taskId: 'task_2', assignedTo: 'nurse-1', expectedVersion: 0 },
+      ]);
+
+      expect(result.conflict).toBe(tasks[1]);
+      expect(unchanged).toBe(tasks);
+    });
+
+    it('should format and parse entity tags', () => {
+      expect(formatTaskEtag(4)).toBe('"4"');
+      expect(parseTaskEtag('"4"')).toBe(4);
+      expect(parseTaskEtag('W/"4"')).toBe(4);
+      expect(parseTaskEtag('4')).toBeUndefined();
+    });
+  });
+
+  // =============================================================================
+  // Task Assignment
+  // =============================================================================
+
+  describe('task assignment', () => {
+    const NOW = new Date('2026-01-14T12:00:00Z');
+
+    it('should assign an unassigned task without a reason', () => {
+      const result = assignTask(createTestTask(), 'maria.lopez', undefined, NOW);
+
+      expect(result.success).toBe(true);
+      expect(result.task).toMatchObject({ assignedTo: 'maria.lopez', assignedAt: NOW });
+      expect(result.task?.assignmentReason).toBeUndefined();
+    });
+
+    it('should require a reason to reassign or unassign', () => {
+      const task = createTestTask({ assignedTo: 'maria.lopez' });
+
+      expect(assignTask(task, 'james.wu', '  ', NOW)).toEqual({
+        success: false,
+        error: 'A reason is required to reassign a task',
+      });
+      expect(assignTask(task, null, 'On leave', NOW).task).toMatchObject({
+        assignedTo: undefined,
+        assignmentReason: 'On leave',
+      });
+    });
+
+    it('should refuse completed tasks and no-op assignments', () => {
+      expect(assignTask(createTestTask({ status: 'completed' }), 'maria.lopez').error)
+        .toBe('Cannot assign a completed task');
+      expect(assignTask(createTestTask({ assignedTo: 'maria.lopez' }), 'maria.lopez', 'Again').error)
+        .toBe('Task is already assigned to maria.lopez');
+      expect(assignTask(createTestTask(), null).error).toBe('Task is already unassigned');
+    });
+
+    it('should apply all assignments in a collection or none', () => {
+      const tasks = [
+        createTestTask({ id: 'task_1' }),
+        createTestTask({ id: 'task_2', status: 'completed' }),
+      ];
+
+      const refused = assignTasksInCollection(tasks, [
+        { taskId: 'task_1', assignedTo: 'maria.lopez' },
+        { taskId: 'task_2', assignedTo: 'maria.lopez' },
+      ], undefined, NOW);
+      const applied = assignTasksInCollection(tasks, [{ taskId: 'task_1', assignedTo: 'maria.lopez' }], undefined, NOW);
+
+      expect(refused.result).toEqual({ success: false, error: 'Cannot assign a completed task' });
+      expect(refused.tasks).toBe(tasks);
+      expect(applied.result.tasks?.map((t) => t.id)).toEqual(['task_1']);
+      expect(applied.tasks[0].assignedTo).toBe('maria.lopez');
+      expect(tasks[0].assignedTo).toBeUndefined();
+    });
+  });
+
+  describe('task escalation', () => {
+    const NOW = new Date('2026-01-14T12:00:00Z');
+    const level = (n: number) => ({ level: n, notify: 'assignee' as const, recipients: [], escalatedAt: NOW });
+
+    it('should append fired tiers to the task', () => {
+      const result = escalateTask(createTestTask({ escalations: [level(1)] }), [level(2), level(3)]);
+      expect(result.task?.escalations?.map((e) => e.level)).toEqual([1, 2, 3]);
+    });
+
+    it('should refuse completed tasks and levels already reached', () => {
+      expect(escalateTask(createTestTask({ status: 'completed' }), [level(1)]).error)
+        .toBe('Cannot escalate a completed task');
+      expect(escalateTask(createTestTask({ escalations: [level(1)] }), [level(1)]).error)
+        .toBe('Task has already escalated to level 1');
+    });
+
+    it('should apply all plans in a collection or none', () => {
+      const tasks = [createTestTask({ id: 'task_1' }), createTestTask({ id: 'task_2', status: 'completed' })];
+
+      const refused = escalateTasksInCollection(tasks, [
+        { taskId: 'task_1', escalations: [level(1)] },
+        { taskId: 'task_2', escalations: [level(1)] },
+      ]);
+      const applied = escalateTasksInCollection(tasks, [{ taskId: 'task_1', escalations: [level(1)] }]);
+
+      expect(refused.result).toEqual({ success: false, error: 'Cannot escalate a completed task' });
+      expect(refused.tasks).toBe(tasks);
+      expect(applied.result.tasks?.map((t) => t.id)).toEqual(['task_1']);
+      expect(applied.tasks[0].escalations).toEqual([level(1)]);
+    });
+  });
+
+  describe('task rescheduling', () => {
+    const dueStart = new Date('2026-01-14T16:00:00');
+    const dueEnd = new Date('2026-01-15T16:00:00');
+
+    it('should move the window and replace its flags', () => {
+      const result = rescheduleTask(createTestTask({ dischargeTimeUnknown: true }), {
+        taskId: 'task_test_123',
+        dueStart,
+        dueEnd,
+        windowMode: 'business',
+      });
+
+      expect(result.task).toMatchObject({ dueStart, dueEnd, windowMode: 'business' });
+      expect(result.task?.dischargeTimeUnknown).toBeUndefined();
+    });
+
+    it('should refuse closed tasks and apply all reschedules in a collection or none', () => {
+      const tasks = [createTestTask({ id: 'task_1' }), createTestTask({ id: 'task_2', status: 'cancelled' })];
+
+      const refused = rescheduleTasksInCollection(tasks, [
+        { taskId: 'task_1', dueStart, dueEnd },
+        { taskId: 'task_2', dueStart, dueEnd },
+      ]);
+      const applied = rescheduleTasksInCollection(tasks, [{ taskId: 'task_1', dueStart, dueEnd }]);
+
+      expect(refused.result).toEqual({ success: false, error: 'Cannot reschedule a cancelled task' });
+      expect(refused.tasks).toBe(tasks);
+      expect(applied.tasks[0]).toMatchObject({ dueStart, dueEnd, version: 1 });
+    });
+  });
+
+  // =============================================================================
+  // Task Queries
+  // =============================================================================
+
+  describe('findTaskById', () => {
+    it('should find an existing task', () => {
+      const tasks = [
+        createTestTask({ id: 'task_1' }),
+        createTestTask({ id: 'task_2' }),
+        createTestTask({ id: 'task_3' }),
+      ];
+
+      const result = findTaskById(tasks, 'task_2');
+
+      expect(result?.id).toBe('task_2');
+    });
+
+    it('should return undefined for non-existent task', () => {
+      const tasks = [createTestTask({ id: 'task_1' })];
+
+      const result = findTaskById(tasks, 'task_999');
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('getTasksByPatientId', () => {
+    it('should filter tasks by patient ID', () => {
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0002',
+          type: 'contact_patient',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+        },
+        {
+          id: 'task_3',
+          patientId: 'MRN0001',
+          type: 'medication_reconciliation',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-16T10:00:00'),
+        },
+      ];
+
+      const result = getTasksByPatientId(tasks, 'MRN0001');
+      expect(result).toHaveLength(2);
+      expect(result.every((t) => t.patientId === 'MRN0001')).toBe(true);
+    });
+  });
+
+  describe('getCompletedTasks', () => {
+    it('should return only completed tasks', () => {
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'completed',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+          completedAt: new Date('2026-01-14T12:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0001',
+          type: 'medication_reconciliation',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-16T10:00:00'),
+        },
+      ];
+
+      const result = getCompletedTasks(tasks);
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe('task_1');
+    });
+  });
+
+  describe('getTasksCompletedInRange', () => {
+    it('should return tasks completed within date range', () => {
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'completed',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+          completedAt: new Date('2026-01-14T12:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0001',
+          type: 'medication_reconciliation',
+          status: 'completed',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-16T10:00:00'),
+          completedAt: new Date('2026-01-15T12:00:00'),
+        },
+        {
+          id: 'task_3',
+          patientId: 'MRN0001',
+          type: 'followup_scheduling',
+          status: 'pending',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-16T10:00:00'),
+        },
+      ];
+
+      const result = getTasksCompletedInRange(
+        tasks,
+        new Date('2026-01-14T00:00:00'),
+        new Date('2026-01-14T23:59:59')
+      );
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe('task_1');
+    });
+  });
+
+  describe('getTasksCompletedToday', () => {
+    it('should return tasks completed today', () => {
+      const now = new Date('2026-01-14T14:00:00');
+      const tasks: Task[] = [
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'completed',
+          dueStart: new Date('2026-01-14T10:00:00'),
+          dueEnd: new Date('2026-01-15T10:00:00'),
+          completedAt: new Date('2026-01-14T12:00:00'),
+        },
+        {
+          id: 'task_2',
+          patientId: 'MRN0001',
+          type: 'medication_reconciliation',
+          status: 'completed',
+          dueStart: new Date('2026-01-13T10:00:00'),
+          dueEnd: new Date('2026-01-14T10:00:00'),
+          completedAt: new Date('2026-01-13T12:00:00'), // Yesterday
+        },
+      ];
+
+      const result = getTasksCompletedToday(tasks, now);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe('task_1');
+    });
+
+    it('should count the day in the facility time zone, not the runtime one', () => {
+      const completed = (id: string, completedAt: string): Task => ({
+        id,
+        patientId: 'MRN0001',
+        type: 'contact_patient',
+        status: 'completed',
+        dueStart: new Date('2026-01-13T10:00:00Z'),
+        dueEnd: new Date('2026-01-15T10:00:00Z'),
+        completedAt: new Date(completedAt),
+      });
+      const tasks = [
+        completed('late_yesterday', '2026-01-14T04:30:00Z'),   // 23:30 on the 13th in New York
+        completed('early_today', '2026-01-14T05:30:00Z'),      // 00:30 on the 14th
+        completed('late_today', '2026-01-15T04:30:00Z'),       // 23:30 on the 14th
+      ];
+      const now = new Date('2026-01-15T03:00:00Z');            // 22:00 on the 14th
+
+      expect(getTasksCompletedToday(tasks, now, 'America/New_York').map((t) => t.id)).toEqual([
+        'early_today',
+        'late_today',
+      ]);
+      expect(getTasksCompletedToday(tasks, now, 'Europe/Berlin').map((t) => t.id)).toEqual(['late_today']);
+    });
+  });
+
+  // =============================================================================
+  // Serialization
+  // =============================================================================
+
+  describe('serialization', () => {
+    it('should serialize tasks to JSON', () => {
+      const tasks = [
+        createTestTask({
+          id: 'task_1',
+          completedAt: new Date('2026-01-14T14:00:00'),
+        }),
+      ];
+
+      const json = serializeTasksForStorage(tasks);
+      const parsed = JSON.parse(json);
+
+      expect(parsed[0].id).toBe('task_1');
+      expect(typeof parsed[0].dueStart).toBe('string');
+      expect(parsed[0].dueStart).toContain('2026-01-14');
+    });
+
+    it('should deserialize tasks from JSON', () => {
+      const json = JSON.stringify([
+        {
+          id: 'task_1',
+          patientId: 'MRN001',
+          type: 'contact_patient',
+          status: 'completed',
+          dueStart: '2026-01-14T10:00:00.000Z',
+          dueEnd: '2026-01-15T10:00:00.000Z',
+          completedAt: '2026-01-14T14:00:00.000Z',
+          completedBy: 'Nurse Smith',
+        },
+      ]);
+
+      const tasks = deserializeTasksFromStorage(json);
+
+      expect(tasks[0].id).toBe('task_1');
+      expect(tasks[0].dueStart instanceof Date).toBe(true);
+      expect(tasks[0].completedAt instanceof Date).toBe(true);
+    });
+
+    it('should round-trip serialize and deserialize', () => {
+      const original = [
+        createTestTask({
+          id: 'task_1',
+          completedAt: new Date('2026-01-14T14:00:00'),
+          completedBy: 'Test User',
+          notes: [{
+            id: 'note_1',
+            text: 'Test notes',
+            author: 'Test User',
+            createdAt: new Date('2026-01-14T13:00:00Z'),
+            changes: [{ action: 'edited', changedAt: new Date('2026-01-14T13:30:00Z'), changedBy: 'Test User', previousText: 'Tset' }],
+          }],
+        }),
+      ];
+
+      const json = serializeTasksForStorage(original);
+      const restored = deserializeTasksFromStorage(json);
+
+      expect(restored[0].id).toBe(original[0].id);
+      expect(restored[0].status).toBe(original[0].status);
+      expect(restored[0].completedBy).toBe(original[0].completedBy);
+      expect(restored[0].notes).toEqual(original[0].notes);
+    });
+
+    it('should round-trip status changes', () => {
+      const original = [createTestTask({
+        status: 'not_applicable',
+        statusChanges: [{
+          action: 'not_applicable',
+          reason: 'not_indicated',
+          fromStatus: 'pending',
+          changedAt: new Date('2026-01-14T13:00:00Z'),
+          changedBy: 'nurse-1',
+        }],
+      })];
+
+      expect(deserializeTasksFromStorage(serializeTasksForStorage(original))).toEqual(original);
+    });
+
+    it('should migrate a single-string note to a one-entry thread', () => {
+      const json = JSON.stringify([
+        {
+          id: 'task_1',
+          patientId: 'MRN0001',
+          type: 'contact_patient',
+          status: 'pending',
+          dueStart: '2026-01-14T10:00:00.000Z',
+          dueEnd: '2026-01-15T10:00:00.000Z',
+          notes: 'Left voicemail',
+        },
+      ]);
+
+      const [first] = deserializeTasksFromStorage(json);
+      const [second] = deserializeTasksFromStorage(json);
+
+      expect(first.notes).toEqual([{
+        id: 'note_legacy_task_1',
+        text: 'Left voicemail',
+        author: 'Unknown',
+        createdAt: new Date('2026-01-14T10:00:00.000Z'),
+        legacy: true,
+      }]);
+      expect(second.notes?.[0].id).toBe(first.notes?.[0].id);
+    });
+
+    it('should drop an empty single-string note when migrating', () => {
+      const json = JSON.stringify([{ ...createTestTask(), notes: '' }]);
+      expect(deserializeTasksFromStorage(json)[0].notes).toBeUndefined();
+    });
+
+    it('should round-trip escalations with Date timestamps', () => {
+      const escalatedAt = new Date('2026-01-14T11:00:00Z');
+      const original = [createTestTask({ escalations: [{ level: 1, notify: 'assignee', recipients: ['nurse-1'], escalatedAt }] })];
+
+      const restored = deserializeTasksFromStorage(serializeTasksForStorage(original));
+
+      expect(restored[0].escalations).toEqual(original[0].escalations);
+      expect(restored[0].escalations?.[0].escalatedAt instanceof Date).toBe(true);
+    });
+
+    it('should round-trip contact attempts with Date timestamps', () => {
+      const attemptedAt = new Date('2026-01-14T11:00:00Z');
+      const original = [
+        createTestTask({
+          type: 'contact_patient',
+          contactAttempts: [
+            { id: 'attempt_1', attemptedAt, channel: 'sms', destination: '555-1234', outcome: 'no_answer', attemptedBy: 'Lee' },
+          ],
+        }),
+      ];
+
+      const restored = deserializeTasksFromStorage(serializeTasksForStorage(original));
+
+      expect(restored[0].contactAttempts?.[0].attemptedAt).toEqual(attemptedAt);
+      expect(restored[0].contactAttempts?.[0].outcome).toBe('no_answer');
+    });
+  });
+});
@@ -0,0 +1,1384 @@
+// Shared task engine: generation, status calculation, transitions and queries.
+// Used by both the client (localStorage) and the server (TaskStore).
+
+import {
+  ContactAttempt,
+  ContactAttemptInput,
+  Patient,
+  Task,
+  TaskAssignment,
+  TaskEscalation,
+  TaskEscalationPlan,
+  TaskNote,
+  TaskNoteChange,
+  TaskReschedule,
+  TaskRule,
+  TaskStatus,
+  TaskStatusChange,
+  TaskStatusChangeInput,
+  TaskStatusChangeReason,
+  TaskType,
+  WorkingCalendar,
+  TASK_RULES,
+  CLOSED_TASK_STATUSES,
+  TASK_CLOSE_REASONS,
+  TASK_REOPEN_REASONS,
+  TASK_STATUS_CHANGE_ACTIONS,
+  CONTACT_CHANNELS,
+  CONTACT_OUTCOMES,
+  OUTREACH_TASK_TYPES,
+  SUCCESSFUL_CONTACT_OUTCOMES,
+  DEFAULT_TIME_ZONE,
+  DEFAULT_WORKING_CALENDAR,
+} from './types';
+import { matchesRuleConditions } from './taskRules';
+import { addBusinessHours, getBusinessMillisecondsBetween } from './workingCalendar';
+import { getZonedStartOfDay, zonedTimeToDate } from './timeZone';
+
+// =============================================================================
+// Task Generation
+// =============================================================================
+
+/**
+ * What the ID of a task generated from the rules is derived from.
+ */
+export interface TaskIdKey {
+  patientId: string;
+  type: TaskType;
+  encounterId?: string;           // Omitted for the encounter in the patient record
+}
+
+/**
+ * Generate a task ID. A task generated from the rules gets a stable ID built
+ * from its patient, encounter and type, so generating it again gives the same
+ * ID; an ad-hoc task (no key) gets a random UUID.
+ */
+export function generateTaskId(key?: TaskIdKey): string {
+  if (!key) {
+    return `task_${crypto.randomUUID()}`;
+  }
+  // The first encounter's ID is "<patientId>-1" (see getEncounterId)
+  return `task_${key.encounterId ?? `${key.patientId}-1`}_${key.type}`;
+}
+
+/**
+ * Calculate the discharge datetime from patient data.
+ * dischargeDate and dischargeTime are wall-clock values in the facility's
+ * time zone; a missing time defaults to 00:00 (tasks are flagged, see
+ * generateTasksForPatient).
+ */
+export function getDischargeDateTime(patient: Patient, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  return zonedTimeToDate(patient.dischargeDate, patient.dischargeTime || '00:00', timeZone);
+}
+
+/**
+ * Offset a time by a rule's window hours, counting either wall-clock hours or
+ * business hours on the working calendar.
+ */
+function addWindowHours(start: Date, hours: number, rule: TaskRule, calendar: WorkingCalendar): Date {
+  if (rule.windowMode === 'business') {
+    return addBusinessHours(start, hours, calendar);
+  }
+  return new Date(start.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Generate tasks for a patient from a rule list (defaults to the built-in TASK_RULES).
+ *
+ * A task is created for every rule whose conditions the patient meets, with a
+ * window measured in hours from the discharge datetime. Rules with
+ * windowMode 'business' only count hours when the clinic is open. Tasks for
+ * a patient without a discharge time are marked dischargeTimeUnknown.
+ */
+export function generateTasksForPatient(
+  patient: Patient,
+  rules: TaskRule[] = TASK_RULES,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): Task[] {
+  const dischargeDateTime = getDischargeDateTime(patient, calendar.timeZone);
+  const tasks: Task[] = [];
+
+  for (const rule of rules) {
+    if (!matchesRuleConditions(patient, rule.conditions)) {
+      continue;
+    }
+
+    const task: Task = {
+      id: generateTaskId({ patientId: patient.patientId, type: rule.type }),
+      patientId: patient.patientId,
+      type: rule.type,
+      status: 'pending',
+      dueStart: addWindowHours(dischargeDateTime, rule.windowStartHours, rule, calendar),
+      dueEnd: addWindowHours(dischargeDateTime, rule.windowEndHours, rule, calendar),
+    };
+    if (rule.windowMode === 'business') {
+      task.windowMode = 'business';
+    }
+    if (!patient.dischargeTime) {
+      task.dischargeTimeUnknown = true;
+    }
+    tasks.push(task);
+  }
+
+  return tasks;
+}
+
+/**
+ * Generate tasks for multiple patients.
+ */
+export function generateTasksForPatients(
+  patients: Patient[],
+  rules: TaskRule[] = TASK_RULES,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): Task[] {
+  const allTasks: Task[] = [];
+  for (const patient of patients) {
+    allTasks.push(...generateTasksForPatient(patient, rules, calendar));
+  }
+  return allTasks;
+}
+
+/**
+ * Result of adding tasks to a collection
+ */
+export interface TaskAddResult {
+  added: Task[];
+  duplicates: Task[];             // Skipped: their ID is already taken, in the collection or earlier in the batch
+}
+
+/**
+ * Add tasks to a collection, skipping any whose ID is already taken, so
+ * adding the same generated tasks twice does not duplicate them.
+ *
+ * @returns Object with updated tasks array and the result
+ */
+export function addTasksToCollection(
+  tasks: Task[],
+  newTasks: Task[]
+): { tasks: Task[]; result: TaskAddResult } {
+  const ids = new Set(tasks.map((task) => task.id));
+  const added: Task[] = [];
+  const duplicates: Task[] = [];
+
+  for (const task of newTasks) {
+    if (ids.has(task.id)) {
+      duplicates.push(task);
+    } else {
+      ids.add(task.id);
+      added.push(task);
+    }
+  }
+
+  return { tasks: added.length > 0 ? [...tasks, ...added] : tasks, result: { added, duplicates } };
+}
+
+// =============================================================================
+// Task Status
+// =============================================================================
+
+/**
+ * Calculate the current status of a task based on time windows.
+ *
+ * Status logic:
+ * - 'completed', 'cancelled', 'not_applicable': Set by hand and kept until reopened
+ * - 'upcoming': Current time is before the task window opens (dueStart)
+ * - 'overdue': Current time is after the task window closes (dueEnd)
+ * - 'pending': Current time is within the task window
+ */
+export function calculateTaskStatus(task: Task, now: Date = new Date()): TaskStatus {
+  if (CLOSED_TASK_STATUSES.includes(task.status)) {
+    return task.status;
+  }
+
+  const dueStart = task.dueStart instanceof Date ? task.dueStart : new Date(task.dueStart);
+  const dueEnd = task.dueEnd instanceof Date ? task.dueEnd : new Date(task.dueEnd);
+
+  if (now < dueStart) {
+    return 'upcoming';
+  } else if (now > dueEnd) {
+    return 'overdue';
+  } else {
+    return 'pending';
+  }
+}
+
+/**
+ * Check if a task is overdue.
+ */
+export function isTaskOverdue(task: Task, now: Date = new Date()): boolean {
+  return calculateTaskStatus(task, now) === 'overdue';
+}
+
+/**
+ * Calculate time remaining until task deadline (dueEnd).
+ * Returns milliseconds remaining, or negative if overdue.
+ */
+export function getTimeRemaining(task: Task, now: Date = new Date()): number {
+  const dueEnd = task.dueEnd instanceof Date ? task.dueEnd : new Date(task.dueEnd);
+  return dueEnd.getTime() - now.getTime();
+}
+
+/**
+ * Get time remaining in a human-readable format.
+ * Returns object with hours and minutes, and whether it's overdue.
+ * For business-hour tasks, only working time on the calendar is counted.
+ */
+export function getTimeRemainingFormatted(
+  task: Task,
+  now: Date = new Date(),
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): { hours: number; minutes: number; isOverdue: boolean; totalMinutes: number } {
+  const remaining = getTimeRemaining(task, now);
+  const isOverdue = remaining < 0;
+  let absoluteRemaining = Math.abs(remaining);
+  if (task.windowMode === 'business') {
+    const dueEnd = task.dueEnd instanceof Date ? task.dueEnd : new Date(task.dueEnd);
+    absoluteRemaining = isOverdue
+      ? getBusinessMillisecondsBetween(dueEnd, now, calendar)
+      : getBusinessMillisecondsBetween(now, dueEnd, calendar);
+  }
+
+  const totalMinutes = Math.floor(absoluteRemaining / (60 * 1000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  return { hours, minutes, isOverdue, totalMinutes };
+}
+
+/**
+ * Update task statuses based on current time.
+ * Returns tasks with recalculated status.
+ */
+export function updateTaskStatuses(tasks: Task[], now: Date = new Date()): Task[] {
+  return tasks.map((task) => ({
+    ...task,
+    status: calculateTaskStatus(task, now),
+  }));
+}
+
+/**
+ * Filter tasks to get only overdue ones.
+ */
+export function getOverdueTasks(tasks: Task[], now: Date = new Date()): Task[] {
+  return tasks.filter((task) => isTaskOverdue(task, now));
+}
+
+/**
+ * Filter tasks to get only pending ones (within time window).
+ */
+export function getPendingTasks(tasks: Task[], now: Date = new Date()): Task[] {
+  return tasks.filter((task) => calculateTaskStatus(task, now) === 'pending');
+}
+
+/**
+ * Filter tasks to get upcoming ones (window not yet open).
+ */
+export function getUpcomingTasks(tasks: Task[], now: Date = new Date()): Task[] {
+  return tasks.filter((task) => calculateTaskStatus(task, now) === 'upcoming');
+}
+
+/**
+ * Filter tasks to get urgent ones (open tasks whose deadline falls within the threshold).
+ */
+export function getUrgentTasks(tasks: Task[], hoursThreshold: number = 4, now: Date = new Date()): Task[] {
+  const threshold = new Date(now.getTime() + hoursThreshold * 60 * 60 * 1000);
+
+  return tasks.filter((task) => {
+    if (!isOpenTask(task)) {
+      return false;
+    }
+    const dueEnd = task.dueEnd instanceof Date ? task.dueEnd : new Date(task.dueEnd);
+    return dueEnd >= now && dueEnd <= threshold;
+  });
+}
+
+// =============================================================================
+// Task Versions
+// =============================================================================
+
+/**
+ * Get how many changes a task has had. An update can name the version it was
+ * based on, and is refused if the task has changed since.
+ */
+export function getTaskVersion(task: Task): number {
+  return task.version ?? 0;
+}
+
+/**
+ * Thrown when an update was based on an out-of-date copy of a task. Carries
+ * the task as it is now, so the change that got there first can be shown.
+ */
+export class TaskConflictError extends Error {
+  readonly task: Task;
+
+  constructor(message: string, task: Task) {
+    super(message);
+    this.name = 'TaskConflictError';
+    this.task = task;
+  }
+}
+
+/**
+ * Format a task version as an HTTP entity tag (for ETag and If-Match).
+ */
+export function formatTaskEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Read the version from an entity tag made by formatTaskEtag (weak tags are
+ * accepted). Returns undefined if it is not one.
+ */
+export function parseTaskEtag(etag: string): number | undefined {
+  const match = /^(?:W\/)?"(\d+)"$/.exec(etag.trim());
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Check an update's expected version against the task, returning the
+ * conflict error message if the task has changed since.
+ */
+export function checkTaskVersion(task: Task, expectedVersion?: number): string | undefined {
+  if (expectedVersion === undefined || getTaskVersion(task) === expectedVersion) {
+    return undefined;
+  }
+  return `Task was changed by someone else (now version ${getTaskVersion(task)}, expected ${expectedVersion})`;
+}
+
+// =============================================================================
+// Task Status Transitions
+// =============================================================================
+
+/**
+ * Result of a task completion operation
+ */
+export interface TaskCompletionResult {
+  success: boolean;
+  task?: Task;
+  error?: string;
+  conflict?: Task;                // The current task, when refused because it changed since the expected version
+}
+
+// A closed task goes back to whichever status its window gives when reopened
+const REOPENED_STATUSES: TaskStatus[] = ['upcoming', 'pending', 'overdue'];
+
+/**
+ * Valid status transitions for tasks
+ */
+const VALID_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  upcoming: ['pending', 'overdue', 'cancelled', 'not_applicable'], // No manual completion from upcoming
+  pending: ['completed', 'overdue', 'cancelled', 'not_applicable'],
+  overdue: ['completed', 'cancelled', 'not_applicable'],
+  completed: REOPENED_STATUSES,
+  cancelled: REOPENED_STATUSES,
+  not_applicable: REOPENED_STATUSES,
+};
+
+/**
+ * Check if a status transition is valid.
+ * Only allows completing tasks that are pending or overdue, and only closed
+ * tasks can be reopened.
+ */
+export function isValidTransition(fromStatus: TaskStatus, toStatus: TaskStatus): boolean {
+  return VALID_TRANSITIONS[fromStatus]?.includes(toStatus) ?? false;
+}
+
+/**
+ * Check if a task can be completed based on its current status.
+ */
+export function canCompleteTask(task: Task, now: Date = new Date()): boolean {
+  return isValidTransition(calculateTaskStatus(task, now), 'completed');
+}
+
+/**
+ * Complete a task by setting its status to completed and recording metadata.
+ *
+ * @param task - The task to complete
+ * @param completedBy - Optional identifier of who completed the task
+ * @param now - Current timestamp (defaults to now, useful for testing)
+ * @returns TaskCompletionResult with success status and updated task or error
+ */
+export function completeTask(
+  task: Task,
+  completedBy?: string,
+  now: Date = new Date()
+): TaskCompletionResult {
+  const currentStatus = calculateTaskStatus(task, now);
+
+  // Validate the transition
+  if (!isValidTransition(currentStatus, 'completed')) {
+    return {
+      success: false,
+      error: currentStatus === 'upcoming'
+        ? 'Cannot complete a task before its window opens'
+        : `Task is already ${formatTaskStatus(currentStatus)}`,
+    };
+  }
+
+  if (isOutreachTask(task) && !hasSuccessfulContact(task)) {
+    return {
+      success: false,
+      error: 'Log a successful contact attempt before completing this task',
+    };
+  }
+
+  // Complete the task
+  const completedTask: Task = {
+    ...task,
+    status: 'completed',
+    completedAt: now,
+    completedBy,
+  };
+
+  return {
+    success: true,
+    task: completedTask,
+  };
+}
+
+/**
+ * Complete a task in a collection by ID.
+ * Returns the updated collection and the completion result.
+ *
+ * @param tasks - Collection of tasks
+ * @param taskId - ID of task to complete
+ * @param completedBy - Optional identifier of who completed the task
+ * @param now - Current timestamp
+ * @param expectedVersion - Refuse the completion if the task has changed since this version
+ * @returns Object with updated tasks array and completion result
+ */
+export function completeTaskInCollection(
+  tasks: Task[],
+  taskId: string,
+  completedBy?: string,
+  now: Date = new Date(),
+  expectedVersion?: number
+): { tasks: Task[]; result: TaskCompletionResult } {
+  return updateTaskInCollection(tasks, taskId, (task) => completeTask(task, completedBy, now), expectedVersion);
+}
+
+// =============================================================================
+// Closing and Reopening Tasks
+// =============================================================================
+
+/**
+ * Result of cancelling, marking not applicable or reopening a task
+ */
+export interface TaskStatusChangeResult {
+  success: boolean;
+  task?: Task;
+  change?: TaskStatusChange;
+  error?: string;
+  conflict?: Task;
+}
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: 'Pending',
+  completed: 'Completed',
+  overdue: 'Overdue',
+  upcoming: 'Upcoming',
+  cancelled: 'Cancelled',
+  not_applicable: 'Not Applicable',
+};
+
+export const TASK_STATUS_CHANGE_REASON_LABELS: Record<TaskStatusChangeReason, string> = {
+  readmitted: 'Patient readmitted',
+  deceased: 'Patient deceased',
+  transferred: 'Transferred to another facility',
+  opted_out: 'Patient opted out',
+  duplicate: 'Duplicate task',
+  not_indicated: 'Not clinically indicated',
+  closed_in_error: 'Closed in error',
+  completed_in_error: 'Completed in error',
+  needs_follow_up: 'Needs more follow-up',
+  other: 'Other',
+};
+
+/**
+ * Get the reason codes that can be given for a status change.
+ */
+export function getStatusChangeReasons(action: TaskStatusChange['action']): TaskStatusChangeReason[] {
+  return action === 'reopened' ? TASK_REOPEN_REASONS : TASK_CLOSE_REASONS;
+}
+
+/**
+ * Validate an untrusted status change (e.g. from a request body).
+ * Returns an error message, or undefined if the change is valid.
+ */
+export function validateTaskStatusChangeInput(input: unknown): string | undefined {
+  if (typeof input !== 'object' || input === null) {
+    return 'Status change must be an object';
+  }
+  const { action, reason, note, changedBy } = input as Record<string, unknown>;
+
+  if (!TASK_STATUS_CHANGE_ACTIONS.includes(action as TaskStatusChange['action'])) {
+    return `action must be one of: ${TASK_STATUS_CHANGE_ACTIONS.join(', ')}`;
+  }
+  const reasons = getStatusChangeReasons(action as TaskStatusChange['action']);
+  if (!reasons.includes(reason as TaskStatusChangeReason)) {
+    return `reason must be one of: ${reasons.join(', ')}`;
+  }
+  if (note !== undefined && typeof note !== 'string') {
+    return 'note must be a string';
+  }
+  if (reason === 'other' && (typeof note !== 'string' || note.trim() === '')) {
+    return 'A note is required when the reason is "other"';
+  }
+  if (typeof changedBy !== 'string' || changedBy.trim() === '') {
+    return 'changedBy must be a non-empty string';
+  }
+  return undefined;
+}
+
+/**
+ * Cancel a task, mark it not applicable, or reopen it, recording the change
+ * and its reason in the task's status history.
+ *
+ * Open tasks can be closed; closed and completed tasks can be reopened, which
+ * clears the completion and returns the task to the status its window gives.
+ */
+export function changeTaskStatus(
+  task: Task,
+  input: TaskStatusChangeInput,
+  now: Date = new Date()
+): TaskStatusChangeResult {
+  const validationError = validateTaskStatusChangeInput(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const fromStatus = calculateTaskStatus(task, now);
+  const reopening = input.action === 'reopened';
+  const toStatus = input.action === 'reopened'
+    ? calculateTaskStatus({ ...task, status: 'pending' }, now)
+    : input.action;
+  if (!isValidTransition(fromStatus, toStatus)) {
+    return {
+      success: false,
+      error: reopening
+        ? `Cannot reopen a task that is ${formatTaskStatus(fromStatus)}`
+        : `Task is already ${formatTaskStatus(fromStatus)}`,
+    };
+  }
+
+  const change: TaskStatusChange = {
+    action: input.action,
+    reason: input.reason,
+    fromStatus,
+    changedAt: now,
+    changedBy: input.changedBy,
+  };
+  if (input.note?.trim()) {
+    change.note = input.note.trim();
+  }
+
+  const updated: Task = {
+    ...task,
+    status: toStatus,
+    statusChanges: [...(task.statusChanges ?? []), change],
+  };
+  if (reopening) {
+    delete updated.completedAt;
+    delete updated.completedBy;
+  }
+  return { success: true, task: updated, change };
+}
+
+/**
+ * Change a task's status in a collection by ID.
+ *
+ * @returns Object with updated tasks array and the result
+ */
+export function changeTaskStatusInCollection(
+  tasks: Task[],
+  taskId: string,
+  input: TaskStatusChangeInput,
+  now: Date = new Date(),
+  expectedVersion?: number
+): { tasks: Task[]; result: TaskStatusChangeResult } {
+  return updateTaskInCollection(tasks, taskId, (task) => changeTaskStatus(task, input, now), expectedVersion);
+}
+
+/**
+ * Get the latest status change on a task, if it is still closed by one.
+ */
+export function getClosingStatusChange(task: Task): TaskStatusChange | undefined {
+  const latest = task.statusChanges?.[task.statusChanges.length - 1];
+  return latest && latest.action !== 'reopened' && task.status === latest.action ? latest : undefined;
+}
+
+/**
+ * Format a status for messages, e.g. "not applicable".
+ */
+export function formatTaskStatus(status: TaskStatus): string {
+  return status.replace('_', ' ');
+}
+
+// =============================================================================
+// Task Notes
+// =============================================================================
+
+/**
+ * Result of adding, editing or redacting a note
+ */
+export interface TaskNoteResult {
+  success: boolean;
+  task?: Task;
+  note?: TaskNote;
+  error?: string;
+  conflict?: Task;
+}
+
+/**
+ * Author recorded on notes migrated from the old single-string format.
+ */
+export const LEGACY_NOTE_AUTHOR = 'Unknown';
+
+/**
+ * Validate an untrusted non-empty string field (e.g. note text from a request body).
+ * Returns an error message, or undefined if the value is valid.
+ */
+export function validateRequiredText(value: unknown, field: string): string | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return `${field} must be a non-empty string`;
+  }
+  return undefined;
+}
+
+/**
+ * Build a new note, assigning an ID and timestamp.
+ */
+export function createTaskNote(text: string, author: string, now: Date = new Date()): TaskNote {
+  return {
+    id: `note_${crypto.randomUUID()}`,
+    text: text.trim(),
+    author,
+    createdAt: now,
+  };
+}
+
+/**
+ * Append a note to a task's thread.
+ */
+export function addTaskNote(task: Task, note: TaskNote): TaskNoteResult {
+  if (note.text.trim() === '') {
+    return { success: false, error: 'Note text cannot be empty' };
+  }
+  return { success: true, task: { ...task, notes: [...(task.notes ?? []), note] }, note };
+}
+
+/**
+ * Replace a note in a task's thread, or fail if it is missing or redacted.
+ */
+function reviseTaskNote(
+  task: Task,
+  noteId: string,
+  revise: (note: TaskNote) => TaskNote | string
+): TaskNoteResult {
+  const notes = task.notes ?? [];
+  const index = notes.findIndex((n) => n.id === noteId);
+  if (index === -1) {
+    return { success: false, error: `Note with ID '${noteId}' not found` };
+  }
+  if (notes[index].redacted) {
+    return { success: false, error: 'Note has been redacted' };
+  }
+
+  const revised = revise(notes[index]);
+  if (typeof revised === 'string') {
+    return { success: false, error: revised };
+  }
+
+  if (revised === notes[index]) {
+    return { success: true, task, note: revised };
+  }
+  const updatedNotes = [...notes];
+  updatedNotes[index] = revised;
+  return { success: true, task: { ...task, notes: updatedNotes }, note: revised };
+}
+
+/**
+ * Edit a note's text, keeping the previous text in its change trail.
+ */
+export function editTaskNote(
+  task: Task,
+  noteId: string,
+  text: string,
+  editedBy: string,
+  now: Date = new Date()
+): TaskNoteResult {
+  return reviseTaskNote(task, noteId, (note) => {
+    if (text.trim() === '') {
+      return 'Note text cannot be empty';
+    }
+    if (text.trim() === note.text) {
+      return note;
+    }
+    const change: TaskNoteChange = { action: 'edited', changedAt: now, changedBy: editedBy, previousText: note.text };
+    return { ...note, text: text.trim(), changes: [...(note.changes ?? []), change] };
+  });
+}
+
+/**
+ * Redact a note: blank its text and every earlier version, recording who and why.
+ */
+export function redactTaskNote(
+  task: Task,
+  noteId: string,
+  redactedBy: string,
+  reason: string,
+  now: Date = new Date()
+): TaskNoteResult {
+  return reviseTaskNote(task, noteId, (note) => {
+    if (reason.trim() === '') {
+      return 'A reason is required to redact a note';
+    }
+    const earlierChanges = (note.changes ?? []).map(({ previousText: _previousText, ...change }) => change);
+    const change: TaskNoteChange = { action: 'redacted', changedAt: now, changedBy: redactedBy, reason: reason.trim() };
+    return { ...note, text: '', redacted: true, changes: [...earlierChanges, change] };
+  });
+}
+
+/**
+ * Apply a task update to the task with the given ID in a collection, bumping
+ * its version if the update changed it.
+ *
+ * @param expectedVersion - Refuse the update, as a conflict, if the task has changed since this version
+ * @returns Object with updated tasks array (unchanged on failure) and the result
+ */
+function updateTaskInCollection<R extends { success: boolean; task?: Task; error?: string }>(
+  tasks: Task[],
+  taskId: string,
+  update: (task: Task) => R,
+  expectedVersion?: number
+): { tasks: Task[]; result: R & { conflict?: Task } } {
+  const taskIndex = tasks.findIndex((t) => t.id === taskId);
+
+  if (taskIndex === -1) {
+    return {
+      tasks,
+      result: { success: false, error: `Task with ID '${taskId}' not found` } as R,
+    };
+  }
+
+  const current = tasks[taskIndex];
+  const conflict = checkTaskVersion(current, expectedVersion);
+  if (conflict) {
+    return { tasks, result: { success: false, error: conflict, conflict: current } as R & { conflict: Task } };
+  }
+
+  const result = update(current);
+  if (!result.success || !result.task || result.task === current) {
+    return { tasks, result };
+  }
+
+  const task = { ...result.task, version: getTaskVersion(current) + 1 };
+  const updatedTasks = [...tasks];
+  updatedTasks[taskIndex] = task;
+  return { tasks: updatedTasks, result: { ...result, task } };
+}
+
+/**
+ * Append a note to a task in a collection by ID.
+ */
+export function addNoteToTaskInCollection(
+  tasks: Task[],
+  taskId: string,
+  note: TaskNote,
+  expectedVersion?: number
+): { tasks: Task[]; result: TaskNoteResult } {
+  return updateTaskInCollection(tasks, taskId, (task) => addTaskNote(task, note), expectedVersion);
+}
+
+/**
+ * Edit a note on a task in a collection by ID.
+ */
+export function editNoteInCollection(
+  tasks: Task[],
+  taskId: string,
+  noteId: string,
+  text: string,
+  editedBy: string,
+  now: Date = new Date(),
+  expectedVersion?: number
+): { tasks: Task[]; result: TaskNoteResult } {
+  return updateTaskInCollection(tasks, taskId, (task) => editTaskNote(task, noteId, text, editedBy, now), expectedVersion);
+}
+
+/**
+ * Redact a note on a task in a collection by ID.
+ */
+export function redactNoteInCollection(
+  tasks: Task[],
+  taskId: string,
+  noteId: string,
+  redactedBy: string,
+  reason: string,
+  now: Date = new Date(),
+  expectedVersion?: number
+): { tasks: Task[]; result: TaskNoteResult } {
+  return updateTaskInCollection(
+    tasks,
+    taskId,
+    (task) => redactTaskNote(task, noteId, redactedBy, reason, now),
+    expectedVersion
+  );
+}
+
+// =============================================================================
+// Contact Attempts
+// =============================================================================
+
+/**
+ * Result of logging a contact attempt
+ */
+export interface ContactAttemptResult {
+  success: boolean;
+  task?: Task;
+  attempt?: ContactAttempt;
+  error?: string;
+  conflict?: Task;
+}
+
+/**
+ * Check if a task is patient outreach (records contact attempts).
+ */
+export function isOutreachTask(task: Task): boolean {
+  return OUTREACH_TASK_TYPES.includes(task.type);
+}
+
+/**
+ * Check if any logged attempt on the task reached the patient.
+ */
+export function hasSuccessfulContact(task: Task): boolean {
+  return (task.contactAttempts ?? []).some((a) => SUCCESSFUL_CONTACT_OUTCOMES.includes(a.outcome));
+}
+
+/**
+ * Validate untrusted contact attempt fields (e.g. a request body).
+ * Returns an error message, or undefined if the input is valid.
+ */
+export function validateContactAttemptInput(input: unknown): string | undefined {
+  if (typeof input !== 'object' || input === null) {
+    return 'Contact attempt must be an object';
+  }
+  const { channel, destination, outcome, attemptedBy, notes } = input as Record<string, unknown>;
+
+  if (!CONTACT_CHANNELS.includes(channel as ContactAttempt['channel'])) {
+    return `channel must be one of: ${CONTACT_CHANNELS.join(', ')}`;
+  }
+  if (typeof destination !== 'string' || destination.trim() === '') {
+    return 'destination must be the number or email address used';
+  }
+  if (!CONTACT_OUTCOMES.includes(outcome as ContactAttempt['outcome'])) {
+    return `outcome must be one of: ${CONTACT_OUTCOMES.join(', ')}`;
+  }
+  if (typeof attemptedBy !== 'string' || attemptedBy.trim() === '') {
+    return 'attemptedBy must be a non-empty string';
+  }
+  if (notes !== undefined && typeof notes !== 'string') {
+    return 'notes must be a string';
+  }
+  return undefined;
+}
+
+/**
+ * Build a contact attempt from its input fields, assigning an ID and timestamp.
+ */
+export function createContactAttempt(input: ContactAttemptInput, now: Date = new Date()): ContactAttempt {
+  const attempt: ContactAttempt = {
+    id: `attempt_${crypto.randomUUID()}`,
+    attemptedAt: now,
+    channel: input.channel,
+    destination: input.destination.trim(),
+    outcome: input.outcome,
+    attemptedBy: input.attemptedBy,
+  };
+  if (input.notes) {
+    attempt.notes = input.notes;
+  }
+  return attempt;
+}
+
+/**
+ * Append a contact attempt to an outreach task's history.
+ */
+export function logContactAttempt(task: Task, attempt: ContactAttempt): ContactAttemptResult {
+  if (!isOutreachTask(task)) {
+    return { success: false, error: 'Contact attempts can only be logged on outreach tasks' };
+  }
+  if (!isOpenTask(task)) {
+    return { success: false, error: `Cannot log a contact attempt on a ${formatTaskStatus(task.status)} task` };
+  }
+
+  return {
+    success: true,
+    task: { ...task, contactAttempts: [...(task.contactAttempts ?? []), attempt] },
+    attempt,
+  };
+}
+
+/**
+ * Log a contact attempt on a task in a collection by ID.
+ *
+ * @returns Object with updated tasks array and the result
+ */
+export function logContactAttemptInCollection(
+  tasks: Task[],
+  taskId: string,
+  attempt: ContactAttempt,
+  expectedVersion?: number
+): { tasks: Task[]; result: ContactAttemptResult } {
+  return updateTaskInCollection(tasks, taskId, (task) => logContactAttempt(task, attempt), expectedVersion);
+}
+
+// =============================================================================
+// Task Assignment
+// =============================================================================
+
+/**
+ * Result of assigning one or more tasks
+ */
+export interface TaskAssignmentResult {
+  success: boolean;
+  tasks?: Task[];                 // The reassigned tasks, in the order given
+  error?: string;
+  conflict?: Task;                // The current task, when an assignment's expected version is out of date
+}
+
+/**
+ * Check if a task still needs doing (and so can be owned).
+ */
+export function isOpenTask(task: Task): boolean {
+  return !CLOSED_TASK_STATUSES.includes(task.status);
+}
+
+/**
+ * Give a task a new owner, or unassign it with null. Taking a task from
+ * someone (reassigning or unassigning) needs a reason.
+ */
+export function assignTask(
+  task: Task,
+  assignedTo: string | null,
+  reason?: string,
+  now: Date = new Date()
+): { success: boolean; task?: Task; error?: string } {
+  if (!isOpenTask(task)) {
+    return { success: false, error: `Cannot assign a ${formatTaskStatus(task.status)} task` };
+  }
+  if ((assignedTo ?? undefined) === task.assignedTo) {
+    return {
+      success: false,
+      error: assignedTo ? `Task is already assigned to ${assignedTo}` : 'Task is already unassigned',
+    };
+  }
+  const trimmedReason = reason?.trim();
+  if (task.assignedTo && !trimmedReason) {
+    return { success: false, error: 'A reason is required to reassign a task' };
+  }
+
+  return {
+    success: true,
+    task: {
+      ...task,
+      assignedTo: assignedTo ?? undefined,
+      assignedAt: now,
+      assignmentReason: trimmedReason || undefined,
+    },
+  };
+}
+
+/**
+ * Apply several assignments to a collection. Either every assignment is
+ * applied or, if any is refused, none are.
+ *
+ * @returns Object with updated tasks array (unchanged on failure) and the result
+ */
+export function assignTasksInCollection(
+  tasks: Task[],
+  assignments: TaskAssignment[],
+  reason?: string,
+  now: Date = new Date()
+): { tasks: Task[]; result: TaskAssignmentResult } {
+  let updatedTasks = tasks;
+  const assigned: Task[] = [];
+
+  for (const { taskId, assignedTo, expectedVersion } of assignments) {
+    const { tasks: next, result } = updateTaskInCollection(updatedTasks, taskId, (task) =>
+      assignTask(task, assignedTo, reason, now), expectedVersion);
+    if (!result.success || !result.task) {
+      return { tasks, result: { success: false, error: result.error, conflict: result.conflict } };
+    }
+    updatedTasks = next;
+    assigned.push(result.task);
+  }
+
+  return { tasks: updatedTasks, result: { success: true, tasks: assigned } };
+}
+
+// =============================================================================
+// Task Escalation
+// =============================================================================
+
+/**
+ * Result of recording escalations on one or more tasks
+ */
+export interface TaskEscalationResult {
+  success: boolean;
+  tasks?: Task[];                 // The escalated tasks, in the order planned
+  error?: string;
+}
+
+/**
+ * Record fired escalation tiers on a task. Each level is recorded once, and
+ * completed or closed tasks no longer escalate.
+ */
+export function escalateTask(
+  task: Task,
+  escalations: TaskEscalation[]
+): { success: boolean; task?: Task; error?: string } {
+  if (!isOpenTask(task)) {
+    return { success: false, error: `Cannot escalate a ${formatTaskStatus(task.status)} task` };
+  }
+  const recorded = new Set((task.escalations ?? []).map((escalation) => escalation.level));
+  const repeated = escalations.find((escalation) => recorded.has(escalation.level));
+  if (repeated) {
+    return { success: false, error: `Task has already escalated to level ${repeated.level}` };
+  }
+
+  return { success: true, task: { ...task, escalations: [...(task.escalations ?? []), ...escalations] } };
+}
+
+/**
+ * Apply escalation plans to a collection. Either every plan is applied or,
+ * if any is refused, none are.
+ *
+ * @returns Object with updated tasks array (unchanged on failure) and the result
+ */
+export function escalateTasksInCollection(
+  tasks: Task[],
+  plans: TaskEscalationPlan[]
+): { tasks: Task[]; result: TaskEscalationResult } {
+  let updatedTasks = tasks;
+  const escalated: Task[] = [];
+
+  for (const { taskId, escalations } of plans) {
+    const { tasks: next, result } = updateTaskInCollection(updatedTasks, taskId, (task) =>
+      escalateTask(task, escalations));
+    if (!result.success || !result.task) {
+      return { tasks, result: { success: false, error: result.error } };
+    }
+    updatedTasks = next;
+    escalated.push(result.task);
+  }
+
+  return { tasks: updatedTasks, result: { success: true, tasks: escalated } };
+}
+
+// =============================================================================
+// Task Rescheduling
+// =============================================================================
+
+/**
+ * Result of moving the windows of one or more tasks
+ */
+export interface TaskRescheduleResult {
+  success: boolean;
+  tasks?: Task[];                 // The rescheduled tasks, in the order planned
+  error?: string;
+}
+
+/**
+ * Move an open task's window. Completed and closed tasks keep the window they
+ * had, so their history is not rewritten.
+ */
+export function rescheduleTask(
+  task: Task,
+  reschedule: TaskReschedule
+): { success: boolean; task?: Task; error?: string } {
+  if (!isOpenTask(task)) {
+    return { success: false, error: `Cannot reschedule a ${formatTaskStatus(task.status)} task` };
+  }
+
+  const { dueStart, dueEnd, windowMode, dischargeTimeUnknown } = reschedule;
+  const rescheduled: Task = { ...task, dueStart, dueEnd };
+  delete rescheduled.windowMode;
+  delete rescheduled.dischargeTimeUnknown;
+  if (windowMode === 'business') {
+    rescheduled.windowMode = windowMode;
+  }
+  if (dischargeTimeUnknown) {
+    rescheduled.dischargeTimeUnknown = true;
+  }
+  return { success: true, task: rescheduled };
+}
+
+/**
+ * Apply reschedules to a collection. Either every one is applied or, if any
+ * is refused, none are.
+ *
+ * @returns Object with updated tasks array (unchanged on failure) and the result
+ */
+export function rescheduleTasksInCollection(
+  tasks: Task[],
+  reschedules: TaskReschedule[]
+): { tasks: Task[]; result: TaskRescheduleResult } {
+  let updatedTasks = tasks;
+  const rescheduled: Task[] = [];
+
+  for (const reschedule of reschedules) {
+    const { tasks: next, result } = updateTaskInCollection(updatedTasks, reschedule.taskId, (task) =>
+      rescheduleTask(task, reschedule));
+    if (!result.success || !result.task) {
+      return { tasks, result: { success: false, error: result.error } };
+    }
+    updatedTasks = next;
+    rescheduled.push(result.task);
+  }
+
+  return { tasks: updatedTasks, result: { success: true, tasks: rescheduled } };
+}
+
+// =============================================================================
+// Task Queries
+// =============================================================================
+
+/**
+ * Find a task by ID in a collection.
+ */
+export function findTaskById(tasks: Task[], taskId: string): Task | undefined {
+  return tasks.find((t) => t.id === taskId);
+}
+
+/**
+ * Get tasks for a specific patient.
+ */
+export function getTasksByPatientId(tasks: Task[], patientId: string): Task[] {
+  return tasks.filter((t) => t.patientId === patientId);
+}
+
+/**
+ * Get completed tasks.
+ */
+export function getCompletedTasks(tasks: Task[]): Task[] {
+  return tasks.filter((t) => t.status === 'completed');
+}
+
+/**
+ * Get tasks that were cancelled or marked not applicable.
+ */
+export function getClosedTasks(tasks: Task[]): Task[] {
+  return tasks.filter((t) => t.status === 'cancelled' || t.status === 'not_applicable');
+}
+
+/**
+ * Get tasks completed within a time range.
+ */
+export function getTasksCompletedInRange(tasks: Task[], startDate: Date, endDate: Date): Task[] {
+  return tasks.filter((t) => {
+    if (t.status !== 'completed' || !t.completedAt) {
+      return false;
+    }
+    const completedAt = t.completedAt instanceof Date ? t.completedAt : new Date(t.completedAt);
+    return completedAt >= startDate && completedAt <= endDate;
+  });
+}
+
+/**
+ * Get tasks completed today, the day running from midnight to midnight in the
+ * facility's time zone.
+ */
+export function getTasksCompletedToday(
+  tasks: Task[],
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): Task[] {
+  const startOfDay = getZonedStartOfDay(now, timeZone);
+  const endOfDay = new Date(getZonedStartOfDay(now, timeZone, 1).getTime() - 1);
+  return getTasksCompletedInRange(tasks, startOfDay, endOfDay);
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Serialize tasks for storage (convert Date objects to ISO strings).
+ */
+export function serializeTasksForStorage(tasks: Task[]): string {
+  const serializable = tasks.map((task) => ({
+    ...task,
+    dueStart: task.dueStart instanceof Date ? task.dueStart.toISOString() : task.dueStart,
+    dueEnd: task.dueEnd instanceof Date ? task.dueEnd.toISOString() : task.dueEnd,
+    completedAt: task.completedAt instanceof Date ? task.completedAt.toISOString() : task.completedAt,
+    assignedAt: task.assignedAt instanceof Date ? task.assignedAt.toISOString() : task.assignedAt,
+    notes: task.notes?.map(serializeTaskNote),
+    contactAttempts: task.contactAttempts?.map((attempt) => ({
+      ...attempt,
+      attemptedAt: attempt.attemptedAt instanceof Date ? attempt.attemptedAt.toISOString() : attempt.attemptedAt,
+    })),
+    escalations: task.escalations?.map(serializeTaskEscalation),
+    statusChanges: task.statusChanges?.map(serializeTaskStatusChange),
+  }));
+  return JSON.stringify(serializable, null, 2);
+}
+
+/**
+ * A task as it appears in storage, with dates as ISO strings.
+ */
+export interface StoredTask {
+  id: string;
+  patientId: string;
+  type: Task['type'];
+  status: Task['status'];
+  dueStart: string;
+  dueEnd: string;
+  completedAt?: string;
+  completedBy?: string;
+  notes?: StoredTaskNote[] | string;  // A plain string in data saved before note history
+  windowMode?: Task['windowMode'];
+  dischargeTimeUnknown?: boolean;
+  contactAttempts?: StoredContactAttempt[];
+  assignedTo?: string;
+  assignedAt?: string;
+  assignmentReason?: string;
+  escalations?: StoredTaskEscalation[];
+  statusChanges?: StoredTaskStatusChange[];
+  encounterId?: string;
+  version?: number;
+}
+
+/**
+ * A note as it appears in storage, with its timestamps as ISO strings.
+ */
+export type StoredTaskNote = Omit<TaskNote, 'createdAt' | 'changes'> & {
+  createdAt: string;
+  changes?: (Omit<TaskNoteChange, 'changedAt'> & { changedAt: string })[];
+};
+
+/**
+ * Convert a note to its stored form.
+ */
+export function serializeTaskNote(note: TaskNote): StoredTaskNote {
+  return {
+    ...note,
+    createdAt: note.createdAt instanceof Date ? note.createdAt.toISOString() : note.createdAt,
+    changes: note.changes?.map((change) => ({
+      ...change,
+      changedAt: change.changedAt instanceof Date ? change.changedAt.toISOString() : change.changedAt,
+    })),
+  };
+}
+
+/**
+ * Convert a stored note back into a TaskNote with Dates.
+ */
+export function deserializeTaskNote(note: StoredTaskNote): TaskNote {
+  return {
+    ...note,
+    createdAt: new Date(note.createdAt),
+    changes: note.changes?.map((change) => ({ ...change, changedAt: new Date(change.changedAt) })),
+  };
+}
+
+/**
+ * Read a stored task's notes, migrating the old single-string format to a
+ * one-entry thread. The migrated note's ID is derived from the task ID so it
+ * stays stable until the task is next saved in the new format.
+ */
+function deserializeTaskNotes(task: StoredTask): TaskNote[] | undefined {
+  if (typeof task.notes !== 'string') {
+    return task.notes?.map(deserializeTaskNote);
+  }
+  if (task.notes.trim() === '') {
+    return undefined;
+  }
+  return [{
+    id: `note_legacy_${task.id}`,
+    text: task.notes,
+    author: LEGACY_NOTE_AUTHOR,
+    createdAt: new Date(task.completedAt ?? task.dueStart),
+    legacy: true,
+  }];
+}
+
+/**
+ * A contact attempt as it appears in storage, with its timestamp as an ISO string.
+ */
+export type StoredContactAttempt = Omit<ContactAttempt, 'attemptedAt'> & { attemptedAt: string };
+
+/**
+ * Convert a stored contact attempt back into a ContactAttempt with a Date.
+ */
+export function deserializeContactAttempt(attempt: StoredContactAttempt): ContactAttempt {
+  return { ...attempt, attemptedAt: new Date(attempt.attemptedAt) };
+}
+
+/**
+ * An escalation as it appears in storage, with its timestamp as an ISO string.
+ */
+export type StoredTaskEscalation = Omit<TaskEscalation, 'escalatedAt'> & { escalatedAt: string };
+
+/**
+ * Convert an escalation to its stored form.
+ */
+export function serializeTaskEscalation(escalation: TaskEscalation): StoredTaskEscalation {
+  return {
+    ...escalation,
+    escalatedAt: escalation.escalatedAt instanceof Date ? escalation.escalatedAt.toISOString() : escalation.escalatedAt,
+  };
+}
+
+/**
+ * Convert a stored escalation back into a TaskEscalation with a Date.
+ */
+export function deserializeTaskEscalation(escalation: StoredTaskEscalation): TaskEscalation {
+  return { ...escalation, escalatedAt: new Date(escalation.escalatedAt) };
+}
+
+/**
+ * A status change as it appears in storage, with its timestamp as an ISO string.
+ */
+export type StoredTaskStatusChange = Omit<TaskStatusChange, 'changedAt'> & { changedAt: string };
+
+/**
+ * Convert a status change to its stored form.
+ */
+export function serializeTaskStatusChange(change: TaskStatusChange): StoredTaskStatusChange {
+  return {
+    ...change,
+    changedAt: change.changedAt instanceof Date ? change.changedAt.toISOString() : change.changedAt,
+  };
+}
+
+/**
+ * Convert a stored status change back into a TaskStatusChange with a Date.
+ */
+export function deserializeTaskStatusChange(change: StoredTaskStatusChange): TaskStatusChange {
+  return { ...change, changedAt: new Date(change.changedAt) };
+}
+
+/**
+ * Convert a stored task back into a Task with Date objects.
+ */
+export function deserializeTask(task: StoredTask): Task {
+  return {
+    ...task,
+    dueStart: new Date(task.dueStart),
+    dueEnd: new Date(task.dueEnd),
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+    assignedAt: task.assignedAt ? new Date(task.assignedAt) : undefined,
+    notes: deserializeTaskNotes(task),
+    contactAttempts: task.contactAttempts?.map(deserializeContactAttempt),
+    escalations: task.escalations?.map(deserializeTaskEscalation),
+    statusChanges: task.statusChanges?.map(deserializeTaskStatusChange),
+  };
+}
+
+/**
+ * Deserialize tasks from storage (convert ISO strings back to Date objects).
+ */
+export function deserializeTasksFromStorage(json: string): Task[] {
+  const parsed = JSON.parse(json) as StoredTask[];
+  return parsed.map(deserializeTask);
+}
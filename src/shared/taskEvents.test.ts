@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { Task } from './types';
+import {
+  getLatestTaskEventKeys,
+  getNextTaskEventTime,
+  getTaskEventKey,
+  getTaskEventTime,
+  planTaskEvents,
+} from './taskEvents';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-01-14T10:00:00Z');
+const at = (hours: number) => new Date(START.getTime() + hours * HOUR);
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  patientId: 'MRN0001',
+  type: 'medication_reconciliation',
+  status: 'pending',
+  dueStart: START,
+  dueEnd: at(24),
+  ...overrides,
+});
+
+describe('taskEvents', () => {
+  describe('getTaskEventTime', () => {
+    it('should open at dueStart, be due soon 4 hours before dueEnd and overdue at dueEnd', () => {
+      expect(getTaskEventTime(task('t1'), 'task.opened')).toEqual(START);
+      expect(getTaskEventTime(task('t1'), 'task.due_soon')).toEqual(at(20));
+      expect(getTaskEventTime(task('t1'), 'task.overdue')).toEqual(at(24));
+    });
+
+    it('should be due soon on opening when the window is shorter than 4 hours', () => {
+      expect(getTaskEventTime(task('t1', { dueEnd: at(2) }), 'task.due_soon')).toEqual(START);
+    });
+  });
+
+  describe('planTaskEvents', () => {
+    it('should plan the latest event each task has reached, oldest first', () => {
+      const tasks = [task('t1'), task('t2', { dueStart: at(-30), dueEnd: at(-1) }), task('t3', { dueStart: at(2) })];
+
+      expect(planTaskEvents(tasks, new Set(), at(1)).map((e) => [e.taskId, e.type])).toEqual([
+        ['t2', 'task.overdue'],
+        ['t1', 'task.opened'],
+      ]);
+    });
+
+    it('should skip emitted events and completed tasks', () => {
+      const emitted = new Set([getTaskEventKey('t1', 'task.opened', START)]);
+      const tasks = [task('t1'), task('t2', { status: 'completed' })];
+
+      expect(planTaskEvents(tasks, emitted, at(21)).map((e) => [e.taskId, e.type])).toEqual([['t1', 'task.due_soon']]);
+    });
+
+    it('should plan events again for a task moved to a new window', () => {
+      const emitted = new Set(planTaskEvents([task('t1')], new Set(), at(25))
+        .map((e) => getTaskEventKey(e.taskId, e.type, e.at)));
+      const rescheduled = task('t1', { dueStart: at(26), dueEnd: at(30) });
+
+      expect(planTaskEvents([task('t1')], emitted, at(31))).toEqual([]);
+      expect(planTaskEvents([rescheduled], emitted, at(27)).map((e) => [e.type, e.at])).toEqual([
+        ['task.due_soon', at(26)],
+      ]);
+      expect(planTaskEvents([rescheduled], emitted, at(31)).map((e) => [e.type, e.at])).toEqual([
+        ['task.overdue', at(30)],
+      ]);
+    });
+
+    it('should plan only the latest boundary already passed when a task is reopened', () => {
+      const emitted = new Set(planTaskEvents([task('t1')], new Set(), at(25))
+        .map((e) => getTaskEventKey(e.taskId, e.type, e.at)));
+      const reopened = task('t1', {
+        statusChanges: [
+          { action: 'cancelled', reason: 'duplicate', fromStatus: 'overdue', changedAt: at(25), changedBy: 'nurse-1' },
+          { action: 'reopened', reason: 'closed_in_error', fromStatus: 'cancelled', changedAt: at(27), changedBy: 'nurse-1' },
+        ],
+      });
+
+      expect(planTaskEvents([reopened], emitted, at(28)).map((e) => [e.type, e.at])).toEqual([
+        ['task.overdue', at(27)],
+      ]);
+    });
+  });
+
+  describe('getLatestTaskEventKeys', () => {
+    it('should key the latest event reached on each open task only', () => {
+      const tasks = [task('t1'), task('t2', { status: 'completed' }), task('t3', { dueStart: at(22), dueEnd: at(30) })];
+
+      expect(getLatestTaskEventKeys(tasks, at(21))).toEqual(new Set([getTaskEventKey('t1', 'task.due_soon', at(20))]));
+    });
+  });
+
+  describe('getNextTaskEventTime', () => {
+    it('should return the earliest pending boundary, or null', () => {
+      const emitted = new Set([getTaskEventKey('t1', 'task.opened', START)]);
+
+      expect(getNextTaskEventTime([task('t1')], emitted, at(1))).toEqual(at(20));
+      expect(getNextTaskEventTime([task('t1', { status: 'completed' })], emitted, at(1))).toBeNull();
+    });
+
+    it('should return an event already due but not emitted', () => {
+      expect(getNextTaskEventTime([task('t1')], new Set(), at(21))).toEqual(at(20));
+    });
+  });
+});
@@ -0,0 +1,131 @@
+// Timed task events: when a task opens, comes due soon and becomes overdue.
+// The server's TaskEventScheduler emits each event once as its time passes.
+
+import { Task, TaskEvent, TaskEventType, TASK_EVENT_TYPES } from './types';
+import { isOpenTask } from './taskEngine';
+
+/**
+ * Hours before the deadline a task counts as due soon; matches the default
+ * urgent-task threshold.
+ */
+export const DUE_SOON_HOURS = 4;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Event fields that identify it; seq and emittedAt are added when it is emitted.
+ */
+export type PlannedTaskEvent = Omit<TaskEvent, 'seq' | 'emittedAt'>;
+
+/**
+ * An event as it appears in storage, with its timestamps as ISO strings.
+ */
+export type StoredTaskEvent = Omit<TaskEvent, 'at' | 'emittedAt'> & { at: string; emittedAt: string };
+
+/**
+ * Key identifying an event by its task, type and time. A task moved to a new
+ * window, or reopened past a boundary, crosses it at a new time and so gets
+ * the event again.
+ */
+export function getTaskEventKey(taskId: string, type: TaskEventType, at: Date): string {
+  return `${taskId}:${type}:${at.toISOString()}`;
+}
+
+function getBoundaryTime(task: Task, type: TaskEventType): Date {
+  switch (type) {
+    case 'task.opened':
+      return task.dueStart;
+    case 'task.due_soon':
+      return new Date(Math.max(task.dueStart.getTime(), task.dueEnd.getTime() - DUE_SOON_HOURS * HOUR_MS));
+    case 'task.overdue':
+      return task.dueEnd;
+  }
+}
+
+/**
+ * Get when a task crosses an event's boundary. A window shorter than
+ * DUE_SOON_HOURS is due soon as soon as it opens, and a task reopened after a
+ * boundary crosses it again when it is reopened.
+ */
+export function getTaskEventTime(task: Task, type: TaskEventType): Date {
+  const boundary = getBoundaryTime(task, type);
+  const reopenedAt = task.statusChanges?.filter((change) => change.action === 'reopened').pop()?.changedAt;
+  return reopenedAt && reopenedAt > boundary ? reopenedAt : boundary;
+}
+
+/**
+ * Get the latest event a task has reached by now, or undefined before it
+ * opens. Earlier boundaries are superseded by it: a task reopened long after
+ * its deadline is overdue, not also opened and due soon.
+ */
+export function getLatestTaskEvent(task: Task, now: Date): PlannedTaskEvent | undefined {
+  let latest: PlannedTaskEvent | undefined;
+  for (const type of TASK_EVENT_TYPES) {
+    const at = getTaskEventTime(task, type);
+    if (at <= now) {
+      latest = { type, taskId: task.id, patientId: task.patientId, at };
+    }
+  }
+  return latest;
+}
+
+/**
+ * Get the keys (getTaskEventKey) of the latest event each open task has
+ * reached. Only these can still be planned; any other emitted event is on a
+ * task that has closed, or at a boundary the task has since moved past.
+ */
+export function getLatestTaskEventKeys(tasks: Task[], now: Date): Set<string> {
+  return new Set(tasks.filter(isOpenTask).flatMap((task) => {
+    const event = getLatestTaskEvent(task, now);
+    return event ? [getTaskEventKey(event.taskId, event.type, event.at)] : [];
+  }));
+}
+
+/**
+ * Plan the latest event each open task has reached, if it has not been
+ * emitted yet, oldest first. When several boundaries were crossed at once
+ * (while nothing was running, or by reopening a task) only the last is planned.
+ *
+ * @param emitted - Keys (getTaskEventKey) of events already emitted
+ */
+export function planTaskEvents(tasks: Task[], emitted: Set<string>, now: Date = new Date()): PlannedTaskEvent[] {
+  return tasks
+    .filter(isOpenTask)
+    .flatMap((task) => {
+      const event = getLatestTaskEvent(task, now);
+      return event && !emitted.has(getTaskEventKey(event.taskId, event.type, event.at)) ? [event] : [];
+    })
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Get when the next event is due on any open task (now, if one is already
+ * due and not emitted), or null if none is pending.
+ */
+export function getNextTaskEventTime(tasks: Task[], emitted: Set<string>, now: Date = new Date()): Date | null {
+  let next: Date | null = null;
+  for (const task of tasks.filter(isOpenTask)) {
+    const due = planTaskEvents([task], emitted, now)[0]?.at;
+    const upcoming = TASK_EVENT_TYPES.map((type) => getTaskEventTime(task, type)).find((at) => at > now);
+    for (const at of [due, upcoming]) {
+      if (at && (!next || at < next)) {
+        next = at;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Convert an event to its stored form.
+ */
+export function serializeTaskEvent(event: TaskEvent): StoredTaskEvent {
+  return { ...event, at: event.at.toISOString(), emittedAt: event.emittedAt.toISOString() };
+}
+
+/**
+ * Convert a stored event back into a TaskEvent with Date objects.
+ */
+export function deserializeTaskEvent(event: StoredTaskEvent): TaskEvent {
+  return { ...event, at: new Date(event.at), emittedAt: new Date(event.emittedAt) };
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { Patient, TASK_RULES, DEFAULT_TASK_RULE_SET } from './types';
+import {
+  TaskRuleValidationError,
+  getAgeOnDate,
+  matchesRuleConditions,
+  getTaskTypeLabel,
+  validateTaskRuleSet,
+  parseTaskRuleSet,
+} from './taskRules';
+import { generateTasksForPatient } from './taskEngine';
+
+const createTestPatient = (overrides: Partial<Patient> = {}): Patient => ({
+  patientId: 'MRN0001',
+  patientName: 'Test Patient',
+  dob: '1950-06-15',
+  gender: 'F',
+  phone: '555-1234',
+  email: 'test@example.com',
+  preferredLanguage: 'English',
+  admissionDate: '2026-01-10',
+  dischargeDate: '2026-01-14',
+  dischargeTime: '10:00',
+  lengthOfStay: 4,
+  primaryDiagnosis: 'Congestive Heart Failure',
+  dischargeDisposition: 'Home',
+  dischargeMedications: 'Med1',
+  allergies: 'NKDA',
+  attendingPhysician: 'Dr. Test',
+  pcpName: 'Dr. Primary',
+  pcpPhone: '555-5678',
+  readmissionRiskScore: 'Low',
+  fallRisk: 'Low',
+  notes: null,
+  ...overrides,
+});
+
+describe('taskRules', () => {
+  describe('getAgeOnDate', () => {
+    it('should count whole years', () => {
+      expect(getAgeOnDate('1950-06-15', '2026-06-15')).toBe(76);
+      expect(getAgeOnDate('1950-06-15', '2026-06-14')).toBe(75);
+    });
+  });
+
+  describe('matchesRuleConditions', () => {
+    it('should match when there are no conditions', () => {
+      expect(matchesRuleConditions(createTestPatient(), {})).toBe(true);
+    });
+
+    it('should match diagnosis keywords case-insensitively', () => {
+      const patient = createTestPatient();
+      expect(matchesRuleConditions(patient, { diagnosisKeywords: ['heart failure'] })).toBe(true);
+      expect(matchesRuleConditions(patient, { diagnosisKeywords: ['copd'] })).toBe(false);
+    });
+
+    it('should apply age bounds at the discharge date', () => {
+      const patient = createTestPatient();
+      expect(matchesRuleConditions(patient, { minAge: 75 })).toBe(true);
+      expect(matchesRuleConditions(patient, { minAge: 76 })).toBe(false);
+      expect(matchesRuleConditions(patient, { maxAge: 74 })).toBe(false);
+    });
+
+    it('should match preferred language case-insensitively', () => {
+      const patient = createTestPatient({ preferredLanguage: 'Spanish' });
+      expect(matchesRuleConditions(patient, { preferredLanguage: ['spanish'] })).toBe(true);
+      expect(matchesRuleConditions(patient, { preferredLanguage: ['English'] })).toBe(false);
+    });
+
+    it('should never match a fall risk condition when fall risk is unknown', () => {
+      const patient = createTestPatient({ fallRisk: null });
+      expect(matchesRuleConditions(patient, { fallRisk: ['Low', 'Medium', 'High'] })).toBe(false);
+    });
+
+    it('should require every condition to match', () => {
+      const patient = createTestPatient({ readmissionRiskScore: 'High' });
+      expect(matchesRuleConditions(patient, { readmissionRiskScore: ['High'], dischargeDisposition: ['Home'] })).toBe(true);
+      expect(matchesRuleConditions(patient, { readmissionRiskScore: ['High'], dischargeDisposition: ['Skilled nursing facility'] })).toBe(false);
+    });
+  });
+
+  describe('getTaskTypeLabel', () => {
+    it('should use the rule label when available', () => {
+      expect(getTaskTypeLabel('contact_patient', TASK_RULES)).toBe('Contact Patient');
+    });
+
+    it('should title-case unknown types', () => {
+      expect(getTaskTypeLabel('pharmacy_review', TASK_RULES)).toBe('Pharmacy Review');
+    });
+  });
+
+  describe('validateTaskRuleSet', () => {
+    it('should accept the default rule set', () => {
+      expect(validateTaskRuleSet(DEFAULT_TASK_RULE_SET)).toEqual([]);
+    });
+
+    it('should reject non-objects', () => {
+      expect(validateTaskRuleSet(null)).toEqual(['rule set: must be an object']);
+    });
+
+    it('should report every problem with its path', () => {
+      const errors = validateTaskRuleSet({
+        version: 0,
+        rules: [
+          TASK_RULES[0],
+          {
+            type: 'contact_patient',
+            label: 'Duplicate',
+            windowStartHours: -1,
+            windowEndHours: 24,
+            conditions: { readmissionRiskScore: ['Extreme'], minAge: 80, maxAge: 65, shoeSize: 9 },
+          },
+        ],
+      });
+
+      expect(errors).toEqual([
+        'version: must be a positive whole number',
+        'rules[1].windowStartHours: must be a non-negative number',
+        'rules[1].conditions.shoeSize: unknown condition (expected one of dischargeDisposition, readmissionRiskScore, fallRisk, diagnosisKeywords, minAge, maxAge, preferredLanguage)',
+        'rules[1].conditions.readmissionRiskScore[0]: "Extreme" is not one of Low, Medium, High, Very High',
+        'rules[1].conditions: minAge must not be greater than maxAge',
+        'rules[1].type: duplicate task type "contact_patient"',
+      ]);
+    });
+  });
+
+  describe('validateTaskRuleSet (windows and calendar)', () => {
+    it('should reject an unknown window mode', () => {
+      const errors = validateTaskRuleSet({ version: 1, rules: [{ ...TASK_RULES[0], windowMode: 'weekdays' }] });
+      expect(errors).toEqual(['rules[0].windowMode: must be one of calendar, business']);
+    });
+
+    it('should validate the working calendar', () => {
+      const errors = validateTaskRuleSet({
+        version: 1,
+        rules: TASK_RULES,
+        calendar: { timeZone: 'America/Chicago', workdays: [], openTime: '8am', closeTime: '17:00', holidays: [] },
+      });
+      expect(errors).toEqual([
+        'calendar.workdays: must be a non-empty array of days 0 (Sunday) to 6 (Saturday)',
+        'calendar.openTime: must be a time in HH:MM format',
+      ]);
+    });
+  });
+
+  describe('validateTaskRuleSet (escalations)', () => {
+    it('should validate escalation tiers and their order', () => {
+      const errors = validateTaskRuleSet({
+        version: 1,
+        rules: TASK_RULES,
+        escalations: [
+          { readmissionRiskScore: ['Extreme'], tiers: [] },
+          {
+            tiers: [
+              { notify: 'charge_nurse', hoursAfterDue: 2 },
+              { notify: 'assignee', windowPercent: 50 },
+              { notify: 'pager', windowPercent: 50, hoursAfterDue: 1 },
+            ],
+          },
+        ],
+      });
+
+      expect(errors).toEqual([
+        'escalations[0].readmissionRiskScore[0]: "Extreme" is not one of Low, Medium, High, Very High',
+        'escalations[0].tiers: must be a non-empty array',
+        'escalations[1].tiers[2].notify: must be one of assignee, charge_nurse, supervisor',
+        'escalations[1].tiers[2]: must set exactly one of windowPercent or hoursAfterDue',
+        'escalations[1].tiers: must be listed in the order they fire',
+      ]);
+    });
+  });
+
+  describe('parseTaskRuleSet', () => {
+    it('should return a valid rule set', () => {
+      expect(parseTaskRuleSet(DEFAULT_TASK_RULE_SET)).toBe(DEFAULT_TASK_RULE_SET);
+    });
+
+    it('should throw TaskRuleValidationError with all errors', () => {
+      try {
+        parseTaskRuleSet({ version: 1, rules: [] });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(TaskRuleValidationError);
+        expect((error as TaskRuleValidationError).errors).toEqual(['rules: must be a non-empty array']);
+      }
+    });
+  });
+
+  describe('custom rules', () => {
+    it('should generate tasks for a custom rule without code changes', () => {
+      const rules = [
+        ...TASK_RULES,
+        {
+          type: 'interpreter_call',
+          label: 'Interpreter Call',
+          windowStartHours: 24,
+          windowEndHours: 72,
+          conditions: { preferredLanguage: ['Spanish'] },
+        },
+      ];
+
+      const spanish = generateTasksForPatient(createTestPatient({ preferredLanguage: 'Spanish' }), rules);
+      const english = generateTasksForPatient(createTestPatient(), rules);
+
+      expect(spanish.map((t) => t.type)).toContain('interpreter_call');
+      expect(english.map((t) => t.type)).not.toContain('interpreter_call');
+    });
+  });
+});
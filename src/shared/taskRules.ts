@@ -0,0 +1,340 @@
+// Declarative task rules: condition matching and rule set validation.
+// Rule sets are loaded from data/task_rules.json (server) or localStorage
+// (client demo mode), so they are validated before use.
+
+import {
+  EscalationRecipient,
+  EscalationTier,
+  Patient,
+  TaskRule,
+  TaskRuleConditions,
+  TaskRuleSet,
+  TaskType,
+  DISCHARGE_DISPOSITIONS,
+  ESCALATION_RECIPIENTS,
+  RISK_LEVELS,
+  WINDOW_MODES,
+} from './types';
+import { validateWorkingCalendar } from './workingCalendar';
+
+const TASK_TYPE_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const CONDITION_KEYS: (keyof TaskRuleConditions)[] = [
+  'dischargeDisposition',
+  'readmissionRiskScore',
+  'fallRisk',
+  'diagnosisKeywords',
+  'minAge',
+  'maxAge',
+  'preferredLanguage',
+];
+
+/**
+ * Thrown when a rule set fails validation. Carries every problem found,
+ * not just the first.
+ */
+export class TaskRuleValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid task rules: ${errors.join('; ')}`);
+    this.name = 'TaskRuleValidationError';
+    this.errors = errors;
+  }
+}
+
+// =============================================================================
+// Condition Matching
+// =============================================================================
+
+/**
+ * Calculate a patient's age in whole years on a given date (YYYY-MM-DD strings).
+ */
+export function getAgeOnDate(dob: string, date: string): number {
+  const [birthYear, birthMonth, birthDay] = dob.split('-').map(Number);
+  const [year, month, day] = date.split('-').map(Number);
+  let age = year - birthYear;
+  if (month < birthMonth || (month === birthMonth && day < birthDay)) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Check whether a patient satisfies every condition of a rule.
+ */
+export function matchesRuleConditions(patient: Patient, conditions: TaskRuleConditions): boolean {
+  if (conditions.dischargeDisposition && !conditions.dischargeDisposition.includes(patient.dischargeDisposition)) {
+    return false;
+  }
+
+  if (conditions.readmissionRiskScore && !conditions.readmissionRiskScore.includes(patient.readmissionRiskScore)) {
+    return false;
+  }
+
+  if (conditions.fallRisk && (patient.fallRisk === null || !conditions.fallRisk.includes(patient.fallRisk))) {
+    return false;
+  }
+
+  if (conditions.diagnosisKeywords) {
+    const diagnosis = patient.primaryDiagnosis.toLowerCase();
+    if (!conditions.diagnosisKeywords.some((keyword) => diagnosis.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (conditions.minAge !== undefined || conditions.maxAge !== undefined) {
+    const age = getAgeOnDate(patient.dob, patient.dischargeDate);
+    if (conditions.minAge !== undefined && age < conditions.minAge) {
+      return false;
+    }
+    if (conditions.maxAge !== undefined && age > conditions.maxAge) {
+      return false;
+    }
+  }
+
+  if (conditions.preferredLanguage) {
+    const language = patient.preferredLanguage.toLowerCase();
+    if (!conditions.preferredLanguage.some((l) => l.toLowerCase() === language)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Get the human-readable label for a task type from a rule list.
+ * Falls back to a title-cased version of the type for unknown types.
+ */
+export function getTaskTypeLabel(type: TaskType, rules: TaskRule[]): string {
+  const rule = rules.find((r) => r.type === type);
+  if (rule) {
+    return rule.label;
+  }
+  return type
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateStringList(
+  value: unknown,
+  path: string,
+  errors: string[],
+  allowed?: readonly string[]
+): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path}: must be a non-empty array`);
+    return;
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== 'string' || item.trim() === '') {
+      errors.push(`${path}[${i}]: must be a non-empty string`);
+    } else if (allowed && !allowed.includes(item)) {
+      errors.push(`${path}[${i}]: "${item}" is not one of ${allowed.join(', ')}`);
+    }
+  });
+}
+
+function validateAge(value: unknown, path: string, errors: string[]): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    errors.push(`${path}: must be a non-negative whole number`);
+  }
+}
+
+function validateConditions(value: unknown, path: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!CONDITION_KEYS.includes(key as keyof TaskRuleConditions)) {
+      errors.push(`${path}.${key}: unknown condition (expected one of ${CONDITION_KEYS.join(', ')})`);
+    }
+  }
+
+  if (value.dischargeDisposition !== undefined) {
+    validateStringList(value.dischargeDisposition, `${path}.dischargeDisposition`, errors, DISCHARGE_DISPOSITIONS);
+  }
+  if (value.readmissionRiskScore !== undefined) {
+    validateStringList(value.readmissionRiskScore, `${path}.readmissionRiskScore`, errors, RISK_LEVELS);
+  }
+  if (value.fallRisk !== undefined) {
+    validateStringList(value.fallRisk, `${path}.fallRisk`, errors, RISK_LEVELS);
+  }
+  if (value.diagnosisKeywords !== undefined) {
+    validateStringList(value.diagnosisKeywords, `${path}.diagnosisKeywords`, errors);
+  }
+  if (value.preferredLanguage !== undefined) {
+    validateStringList(value.preferredLanguage, `${path}.preferredLanguage`, errors);
+  }
+  if (value.minAge !== undefined) {
+    validateAge(value.minAge, `${path}.minAge`, errors);
+  }
+  if (value.maxAge !== undefined) {
+    validateAge(value.maxAge, `${path}.maxAge`, errors);
+  }
+  if (typeof value.minAge === 'number' && typeof value.maxAge === 'number' && value.minAge > value.maxAge) {
+    errors.push(`${path}: minAge must not be greater than maxAge`);
+  }
+}
+
+function validateRule(value: unknown, path: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  if (typeof value.type !== 'string' || !TASK_TYPE_PATTERN.test(value.type)) {
+    errors.push(`${path}.type: must be a snake_case identifier`);
+  }
+  if (typeof value.label !== 'string' || value.label.trim() === '') {
+    errors.push(`${path}.label: must be a non-empty string`);
+  }
+
+  const { windowStartHours, windowEndHours } = value;
+  if (typeof windowStartHours !== 'number' || !Number.isFinite(windowStartHours) || windowStartHours < 0) {
+    errors.push(`${path}.windowStartHours: must be a non-negative number`);
+  }
+  if (typeof windowEndHours !== 'number' || !Number.isFinite(windowEndHours)) {
+    errors.push(`${path}.windowEndHours: must be a number`);
+  } else if (typeof windowStartHours === 'number' && windowEndHours <= windowStartHours) {
+    errors.push(`${path}.windowEndHours: must be greater than windowStartHours`);
+  }
+  if (value.windowMode !== undefined && !(WINDOW_MODES as unknown[]).includes(value.windowMode)) {
+    errors.push(`${path}.windowMode: must be one of ${WINDOW_MODES.join(', ')}`);
+  }
+
+  validateConditions(value.conditions, `${path}.conditions`, errors);
+}
+
+function validateEscalationTier(value: unknown, path: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  if (!ESCALATION_RECIPIENTS.includes(value.notify as EscalationRecipient)) {
+    errors.push(`${path}.notify: must be one of ${ESCALATION_RECIPIENTS.join(', ')}`);
+  }
+
+  const { windowPercent, hoursAfterDue } = value;
+  if ((windowPercent === undefined) === (hoursAfterDue === undefined)) {
+    errors.push(`${path}: must set exactly one of windowPercent or hoursAfterDue`);
+  }
+  if (
+    windowPercent !== undefined &&
+    (typeof windowPercent !== 'number' || !Number.isFinite(windowPercent) || windowPercent < 0 || windowPercent > 100)
+  ) {
+    errors.push(`${path}.windowPercent: must be a number from 0 to 100`);
+  }
+  if (
+    hoursAfterDue !== undefined &&
+    (typeof hoursAfterDue !== 'number' || !Number.isFinite(hoursAfterDue) || hoursAfterDue < 0)
+  ) {
+    errors.push(`${path}.hoursAfterDue: must be a non-negative number`);
+  }
+}
+
+/**
+ * Check escalation policies; each policy's tiers must be listed in firing order.
+ */
+function validateEscalationPolicies(value: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return;
+  }
+
+  value.forEach((policy, i) => {
+    const policyPath = `${path}[${i}]`;
+    if (!isRecord(policy)) {
+      errors.push(`${policyPath}: must be an object`);
+      return;
+    }
+
+    const { taskTypes, readmissionRiskScore, tiers } = policy;
+    if (taskTypes !== undefined) {
+      validateStringList(taskTypes, `${policyPath}.taskTypes`, errors);
+    }
+    if (readmissionRiskScore !== undefined) {
+      validateStringList(readmissionRiskScore, `${policyPath}.readmissionRiskScore`, errors, RISK_LEVELS);
+    }
+
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      errors.push(`${policyPath}.tiers: must be a non-empty array`);
+      return;
+    }
+    tiers.forEach((tier, j) => validateEscalationTier(tier, `${policyPath}.tiers[${j}]`, errors));
+
+    // Window tiers fire at or before the deadline and the others at or after it,
+    // so ordering by (windowPercent - 100) or hoursAfterDue orders by firing time
+    const offsets = (tiers as EscalationTier[]).map((tier) =>
+      tier.windowPercent !== undefined ? tier.windowPercent - 100 : tier.hoursAfterDue);
+    if (offsets.every((offset) => typeof offset === 'number') &&
+      offsets.some((offset, j) => j > 0 && offset! < offsets[j - 1]!)) {
+      errors.push(`${policyPath}.tiers: must be listed in the order they fire`);
+    }
+  });
+}
+
+/**
+ * Validate an untrusted rule set (e.g. parsed JSON).
+ * Returns a list of problems; an empty list means the rule set is valid.
+ */
+export function validateTaskRuleSet(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    return ['rule set: must be an object'];
+  }
+
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    errors.push('version: must be a positive whole number');
+  }
+
+  if (value.calendar !== undefined) {
+    validateWorkingCalendar(value.calendar, 'calendar', errors);
+  }
+  if (value.escalations !== undefined) {
+    validateEscalationPolicies(value.escalations, 'escalations', errors);
+  }
+
+  if (!Array.isArray(value.rules) || value.rules.length === 0) {
+    errors.push('rules: must be a non-empty array');
+    return errors;
+  }
+
+  const seenTypes = new Set<string>();
+  value.rules.forEach((rule, i) => {
+    validateRule(rule, `rules[${i}]`, errors);
+    if (isRecord(rule) && typeof rule.type === 'string') {
+      if (seenTypes.has(rule.type)) {
+        errors.push(`rules[${i}].type: duplicate task type "${rule.type}"`);
+      }
+      seenTypes.add(rule.type);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate and return a rule set, throwing TaskRuleValidationError if invalid.
+ */
+export function parseTaskRuleSet(value: unknown): TaskRuleSet {
+  const errors = validateTaskRuleSet(value);
+  if (errors.length > 0) {
+    throw new TaskRuleValidationError(errors);
+  }
+  return value as TaskRuleSet;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getZonedDateTime,
+  getZonedStartOfDay,
+  zonedTimeToDate,
+  toZonedDateKey,
+  formatDateKey,
+  isValidTimeZone,
+} from './timeZone';
+
+describe('timeZone', () => {
+  describe('zonedTimeToDate', () => {
+    it('should convert standard time', () => {
+      expect(zonedTimeToDate('2026-01-14', '14:30', 'America/New_York').toISOString()).toBe('2026-01-14T19:30:00.000Z');
+    });
+
+    it('should convert daylight saving time', () => {
+      expect(zonedTimeToDate('2026-07-14', '14:30', 'America/New_York').toISOString()).toBe('2026-07-14T18:30:00.000Z');
+    });
+
+    it('should not depend on the runtime time zone', () => {
+      expect(zonedTimeToDate('2026-01-14', '14:30', 'Asia/Kolkata').toISOString()).toBe('2026-01-14T09:00:00.000Z');
+      expect(zonedTimeToDate('2026-01-14', '14:30', 'UTC').toISOString()).toBe('2026-01-14T14:30:00.000Z');
+    });
+
+    it('should handle times just before and after the spring-forward gap', () => {
+      // New York clocks jump from 02:00 EST to 03:00 EDT on 2026-03-08
+      expect(zonedTimeToDate('2026-03-08', '01:59', 'America/New_York').toISOString()).toBe('2026-03-08T06:59:00.000Z');
+      expect(zonedTimeToDate('2026-03-08', '03:00', 'America/New_York').toISOString()).toBe('2026-03-08T07:00:00.000Z');
+    });
+
+    it('should move a skipped time forward by the gap', () => {
+      // 02:30 does not exist; it resolves to 03:30 EDT
+      expect(zonedTimeToDate('2026-03-08', '02:30', 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    });
+
+    it('should resolve a repeated time to the earlier occurrence', () => {
+      // New York clocks fall back from 02:00 EDT to 01:00 EST on 2026-11-01; 01:30 happens twice
+      expect(zonedTimeToDate('2026-11-01', '01:30', 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+      expect(zonedTimeToDate('2026-11-01', '02:30', 'America/New_York').toISOString()).toBe('2026-11-01T07:30:00.000Z');
+    });
+
+    it('should handle southern hemisphere transitions', () => {
+      // Sydney clocks fall back from 03:00 AEDT to 02:00 AEST on 2026-04-05
+      expect(zonedTimeToDate('2026-04-05', '02:30', 'Australia/Sydney').toISOString()).toBe('2026-04-04T15:30:00.000Z');
+      expect(zonedTimeToDate('2026-04-05', '12:00', 'Australia/Sydney').toISOString()).toBe('2026-04-05T02:00:00.000Z');
+    });
+  });
+
+  describe('getZonedDateTime', () => {
+    it('should return wall-clock fields and weekday', () => {
+      expect(getZonedDateTime(new Date('2026-01-17T02:00:00Z'), 'America/New_York')).toEqual({
+        year: 2026, month: 1, day: 16, hour: 21, minute: 0, weekday: 5,
+      });
+    });
+
+    it('should report midnight as hour 0', () => {
+      expect(getZonedDateTime(new Date('2026-01-14T05:00:00Z'), 'America/New_York').hour).toBe(0);
+    });
+  });
+
+  describe('toZonedDateKey', () => {
+    it('should use the zoned calendar date', () => {
+      expect(toZonedDateKey(new Date('2026-01-17T02:00:00Z'), 'America/New_York')).toBe('2026-01-16');
+      expect(toZonedDateKey(new Date('2026-01-17T02:00:00Z'), 'Europe/Berlin')).toBe('2026-01-17');
+    });
+  });
+
+  describe('getZonedStartOfDay', () => {
+    it('should return midnight of the zoned calendar date', () => {
+      const lateEvening = new Date('2026-01-17T02:00:00Z');   // 21:00 on the 16th in New York
+      expect(getZonedStartOfDay(lateEvening, 'America/New_York')).toEqual(new Date('2026-01-16T05:00:00Z'));
+      expect(getZonedStartOfDay(lateEvening, 'Europe/Berlin')).toEqual(new Date('2026-01-16T23:00:00Z'));
+    });
+
+    it('should move by calendar days, across a DST change', () => {
+      const saturday = new Date('2026-03-07T17:00:00Z');
+      expect(getZonedStartOfDay(saturday, 'America/New_York', 1)).toEqual(new Date('2026-03-08T05:00:00Z'));
+      expect(getZonedStartOfDay(saturday, 'America/New_York', 2)).toEqual(new Date('2026-03-09T04:00:00Z'));
+    });
+  });
+
+  describe('formatDateKey', () => {
+    it('should roll over out-of-range days', () => {
+      expect(formatDateKey(2026, 1, 32)).toBe('2026-02-01');
+      expect(formatDateKey(2026, 12, 32)).toBe('2027-01-01');
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should accept IANA names and reject others', () => {
+      expect(isValidTimeZone('America/Chicago')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+});
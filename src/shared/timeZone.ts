@@ -0,0 +1,135 @@
+// Time zone conversion between facility wall-clock times and instants.
+// Uses Intl only, so results do not depend on the time zone of the browser
+// or server running the code.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Wall-clock fields of an instant in a time zone.
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;                  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;                // 0 = Sunday ... 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA time zone name supported by the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a time zone.
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ * (e.g. -5h for New York in winter).
+ */
+function getOffset(epochMs: number, timeZone: string): number {
+  const zoned = getZonedDateTime(new Date(epochMs), timeZone);
+  const wallClockAsUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return wallClockAsUtc - Math.floor(epochMs / MINUTE) * MINUTE;
+}
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a time zone to an instant.
+ *
+ * Around DST transitions: a time that occurs twice (clocks fall back) resolves
+ * to the earlier occurrence; a time that is skipped (clocks spring forward)
+ * is moved forward by the length of the gap, e.g. 02:30 becomes 03:30.
+ */
+export function zonedTimeToDate(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset in effect is one of those a day either side of the wall-clock time
+  const offsetBefore = getOffset(wallClockAsUtc - DAY, timeZone);
+  const offsetAfter = getOffset(wallClockAsUtc + DAY, timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => wallClockAsUtc - offset)
+    .filter((epochMs) => getOffset(epochMs, timeZone) === wallClockAsUtc - epochMs);
+
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+  return new Date(wallClockAsUtc - offsetBefore);
+}
+
+/**
+ * Get the instant a day begins in a time zone: midnight at the start of the
+ * wall-clock date of `date`, moved by a number of days. Days follow the
+ * calendar, so one with a DST change is 23 or 25 hours long.
+ */
+export function getZonedStartOfDay(date: Date, timeZone: string, offsetDays: number = 0): Date {
+  const { year, month, day } = getZonedDateTime(date, timeZone);
+  return zonedTimeToDate(formatDateKey(year, month, day + offsetDays), '00:00', timeZone);
+}
+
+/**
+ * Format the wall-clock date of an instant in a time zone as YYYY-MM-DD.
+ */
+export function toZonedDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateTime(date, timeZone);
+  return formatDateKey(year, month, day);
+}
+
+/**
+ * Format calendar fields as YYYY-MM-DD (month is 1-12). Out-of-range days roll over.
+ */
+export function formatDateKey(year: number, month: number, day: number): string {
+  const normalized = new Date(Date.UTC(year, month - 1, day));
+  const mm = String(normalized.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(normalized.getUTCDate()).padStart(2, '0');
+  return `${normalized.getUTCFullYear()}-${mm}-${dd}`;
+}
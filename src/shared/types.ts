@@ -11,14 +11,34 @@ export type DischargeDisposition =
 
 export type RiskLevel = 'Low' | 'Medium' | 'High' | 'Very High';
 
-export type TaskType =
+export const DISCHARGE_DISPOSITIONS: DischargeDisposition[] = [
+  'Home',
+  'Home with home health',
+  'Skilled nursing facility',
+];
+
+export const RISK_LEVELS: RiskLevel[] = ['Low', 'Medium', 'High', 'Very High'];
+
+export type BuiltInTaskType =
   | 'contact_patient'
   | 'medication_reconciliation'
   | 'followup_scheduling'
   | 'facility_handoff'
   | 'checkin_call';
 
-export type TaskStatus = 'pending' | 'completed' | 'overdue' | 'upcoming';
+// Task types are defined by the task rule set, so any snake_case identifier is
+// allowed; the built-in types are listed for autocompletion.
+export type TaskType = BuiltInTaskType | (string & {});
+
+export type TaskStatus = 'pending' | 'completed' | 'overdue' | 'upcoming' | 'cancelled' | 'not_applicable';
+
+export const TASK_STATUSES: TaskStatus[] = ['pending', 'completed', 'overdue', 'upcoming', 'cancelled', 'not_applicable'];
+
+/**
+ * Statuses that are set by hand and kept until the task is reopened; the
+ * others follow from the task's window.
+ */
+export const CLOSED_TASK_STATUSES: TaskStatus[] = ['completed', 'cancelled', 'not_applicable'];
 
 // =============================================================================
 // Patient
@@ -61,6 +81,83 @@ export interface Patient {
   notes: string | null;           // Free text notes
 }
 
+/**
+ * What importing a patient CSV did, by MRN. Rows with errors are skipped and
+ * the rest imported.
+ */
+export interface PatientImportSummary {
+  added: string[];                // New patients, whose tasks were generated
+  updated: string[];              // Existing patients whose details changed; their tasks are reconciled
+  unchanged: string[];            // Existing patients imported with the same details
+  skippedRows: number[];          // CSV rows not imported because they had errors
+}
+
+/**
+ * What restoring a backup replaced: the number of records of each kind now
+ * in place, and how many audit entries from the backup were added.
+ */
+export interface BackupRestoreSummary {
+  patients: number;
+  tasks: number;
+  encounters: number;
+  mappingProfiles: number;        // Saved profiles; the standard profile is built in
+  auditEntries: number;           // Backup entries the audit log did not have yet
+}
+
+/**
+ * Coded values an import translates from a source system's spelling. Risk
+ * level synonyms apply to both readmission and fall risk.
+ */
+export type PatientValueSynonymField = 'dischargeDisposition' | 'riskLevel' | 'gender';
+
+/**
+ * How to read one hospital's patient CSV: which source column holds each
+ * patient field and what its spellings of coded values mean. Fields without
+ * a column are read from the standard column (e.g. patient_id).
+ */
+export interface PatientMappingProfile {
+  id: string;
+  name: string;
+  delimiter?: string;             // Default ","
+  columns: Partial<Record<keyof Patient, string>>;  // Patient field → source column header
+  valueSynonyms: Partial<Record<PatientValueSynonymField, Record<string, string>>>;  // Source value → value
+}
+
+// =============================================================================
+// Encounters
+// =============================================================================
+
+/**
+ * One hospital stay, from admission to discharge. A patient's first encounter
+ * is the stay described by the patient record; each readmission starts another.
+ */
+export interface Encounter {
+  id: string;                     // `<patientId>-<n>`, numbered from 1 in admission order
+  patientId: string;
+  admissionDate: string;          // YYYY-MM-DD
+  dischargeDate: string | null;   // YYYY-MM-DD; null while the patient is in hospital
+  dischargeTime: string | null;   // HH:MM - May be empty
+  dischargeDisposition: DischargeDisposition | null; // Null until discharged
+  primaryDiagnosis: string;
+}
+
+/**
+ * Fields supplied when recording a readmission.
+ */
+export interface AdmissionInput {
+  admissionDate: string;          // YYYY-MM-DD
+  primaryDiagnosis: string;
+}
+
+/**
+ * Fields supplied when recording the discharge that ends an encounter.
+ */
+export interface DischargeInput {
+  dischargeDate: string;          // YYYY-MM-DD
+  dischargeTime: string | null;   // HH:MM - May be empty
+  dischargeDisposition: DischargeDisposition;
+}
+
 // =============================================================================
 // Task
 // =============================================================================
@@ -74,65 +171,526 @@ export interface Task {
   dueEnd: Date;                   // When task window closes (deadline)
   completedAt?: Date;
   completedBy?: string;
+  notes?: TaskNote[];             // Append-only thread, oldest first
+  windowMode?: WindowMode;        // Omitted for calendar-hour windows
+  dischargeTimeUnknown?: boolean; // Window assumes 00:00 because the discharge time was missing
+  contactAttempts?: ContactAttempt[]; // Outreach history, oldest first
+  assignedTo?: string;            // User ID of the staff member who owns the task
+  assignedAt?: Date;              // When the task was last assigned, reassigned or unassigned
+  assignmentReason?: string;      // Why it was last reassigned or unassigned
+  escalations?: TaskEscalation[]; // Escalation tiers that have fired, oldest first
+  statusChanges?: TaskStatusChange[]; // Cancellations, not-applicable markings and reopenings, oldest first
+  encounterId?: string;           // Encounter whose discharge the task follows; absent for the first
+  version?: number;               // Changes made so far; absent (0) until the first change
+}
+
+// =============================================================================
+// Task Notes
+// =============================================================================
+
+/**
+ * A note on a task. Notes are never deleted: edits keep the previous text in
+ * `changes`, and a redaction blanks the text (and every earlier version) while
+ * recording who redacted it and why.
+ */
+export interface TaskNote {
+  id: string;
+  text: string;                   // Empty once redacted
+  author: string;
+  createdAt: Date;
+  redacted?: boolean;
+  legacy?: boolean;               // Migrated from a single-string note; author and time are unknown
+  changes?: TaskNoteChange[];     // Edit/redaction trail, oldest first
+}
+
+export interface TaskNoteChange {
+  action: 'edited' | 'redacted';
+  changedAt: Date;
+  changedBy: string;
+  previousText?: string;          // Text before an edit; dropped when the note is redacted
+  reason?: string;                // Required for redactions
+}
+
+// =============================================================================
+// Closing and Reopening Tasks
+// =============================================================================
+
+/**
+ * A hand-made status change other than completion: cancelling a task,
+ * marking it not applicable, or reopening a closed (or completed) one.
+ */
+export type TaskStatusChangeAction = 'cancelled' | 'not_applicable' | 'reopened';
+
+export type TaskCloseReason =
+  | 'readmitted'
+  | 'deceased'
+  | 'transferred'
+  | 'opted_out'
+  | 'duplicate'
+  | 'not_indicated'
+  | 'other';
+
+export type TaskReopenReason = 'closed_in_error' | 'completed_in_error' | 'needs_follow_up' | 'other';
+
+export type TaskStatusChangeReason = TaskCloseReason | TaskReopenReason;
+
+export const TASK_STATUS_CHANGE_ACTIONS: TaskStatusChangeAction[] = ['cancelled', 'not_applicable', 'reopened'];
+
+export const TASK_CLOSE_REASONS: TaskCloseReason[] = [
+  'readmitted',
+  'deceased',
+  'transferred',
+  'opted_out',
+  'duplicate',
+  'not_indicated',
+  'other',
+];
+
+export const TASK_REOPEN_REASONS: TaskReopenReason[] = ['closed_in_error', 'completed_in_error', 'needs_follow_up', 'other'];
+
+export interface TaskStatusChange {
+  action: TaskStatusChangeAction;
+  reason: TaskStatusChangeReason;  // A close reason, or a reopen reason when reopening
+  note?: string;                  // Required when the reason is 'other'
+  fromStatus: TaskStatus;         // Status just before the change
+  changedAt: Date;
+  changedBy: string;
+}
+
+/**
+ * Fields supplied when changing a task's status; the time and previous status are recorded.
+ */
+export type TaskStatusChangeInput = Omit<TaskStatusChange, 'changedAt' | 'fromStatus'>;
+
+/**
+ * A planned move of an open task's window, e.g. after the patient's discharge
+ * time was corrected.
+ */
+export interface TaskReschedule {
+  taskId: string;
+  dueStart: Date;
+  dueEnd: Date;
+  windowMode?: WindowMode;
+  dischargeTimeUnknown?: boolean;
+}
+
+// =============================================================================
+// Contact Attempts
+// =============================================================================
+
+export type ContactChannel = 'phone' | 'sms' | 'email';
+
+export type ContactOutcome = 'reached' | 'voicemail' | 'no_answer' | 'wrong_number' | 'refused';
+
+export const CONTACT_CHANNELS: ContactChannel[] = ['phone', 'sms', 'email'];
+
+export const CONTACT_OUTCOMES: ContactOutcome[] = ['reached', 'voicemail', 'no_answer', 'wrong_number', 'refused'];
+
+/**
+ * Outcomes that count as having successfully contacted the patient.
+ */
+export const SUCCESSFUL_CONTACT_OUTCOMES: ContactOutcome[] = ['reached'];
+
+/**
+ * Task types that are outreach to the patient: they record contact attempts
+ * and can only be completed after a successful contact.
+ */
+export const OUTREACH_TASK_TYPES: TaskType[] = ['contact_patient', 'checkin_call'];
+
+/**
+ * A single attempt to reach the patient for an outreach task.
+ */
+export interface ContactAttempt {
+  id: string;
+  attemptedAt: Date;
+  channel: ContactChannel;
+  destination: string;            // Number dialed or email address used
+  outcome: ContactOutcome;
+  attemptedBy: string;
   notes?: string;
 }
 
+/**
+ * Fields supplied when logging an attempt; the id and timestamp are assigned.
+ */
+export type ContactAttemptInput = Omit<ContactAttempt, 'id' | 'attemptedAt'>;
+
+// =============================================================================
+// Users and Roles
+// =============================================================================
+
+export type UserRole = 'assistant' | 'nurse' | 'supervisor' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['assistant', 'nurse', 'supervisor', 'admin'];
+
+/**
+ * Actions that are restricted by role.
+ */
+export type Permission =
+  | 'task.complete'
+  | 'task.close'                  // Cancel a task or mark it not applicable
+  | 'task.reopen'
+  | 'task.note'                   // Add notes and edit one's own notes
+  | 'task.note_redact'
+  | 'task.contact'
+  | 'task.assign'                 // Assign, reassign and auto-assign tasks
+  | 'encounter.record'            // Record readmissions and discharges
+  | 'patients.import'
+  | 'data.export'                 // Export tasks and patients, and download backups
+  | 'data.restore'                // Replace the dataset with a backup
+  | 'rules.edit'
+  | 'audit.view'
+  | 'users.manage';
+
+/**
+ * A staff member who can sign in. The ID is the login name and is what gets
+ * stamped on tasks, notes and audit entries.
+ */
+export interface User {
+  id: string;
+  displayName: string;
+  role: UserRole;
+  languages?: string[];           // Languages spoken with patients, for language-based assignment
+}
+
+/**
+ * Details for creating a user; the password is hashed before it is stored.
+ */
+export interface NewUserInput extends User {
+  password: string;
+}
+
+// =============================================================================
+// Task Assignment
+// =============================================================================
+
+/**
+ * How auto-assignment picks an owner for each patient's unassigned tasks.
+ */
+export type AssignmentStrategy = 'round_robin' | 'language' | 'caseload';
+
+export const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ['round_robin', 'language', 'caseload'];
+
+/**
+ * A planned change of a task's owner; null unassigns the task.
+ */
+export interface TaskAssignment {
+  taskId: string;
+  assignedTo: string | null;
+  expectedVersion?: number;       // Refuse the assignment if the task has changed since this version
+}
+
+// =============================================================================
+// Escalation
+// =============================================================================
+
+/**
+ * Who an escalation tier notifies: the task's owner, or everyone in a role
+ * (nurses act as charge nurses).
+ */
+export type EscalationRecipient = 'assignee' | 'charge_nurse' | 'supervisor';
+
+export const ESCALATION_RECIPIENTS: EscalationRecipient[] = ['assignee', 'charge_nurse', 'supervisor'];
+
+/**
+ * One step of an escalation policy. Exactly one of the timing fields is set.
+ */
+export interface EscalationTier {
+  notify: EscalationRecipient;
+  windowPercent?: number;         // Fires once this share (0-100) of the task window has passed
+  hoursAfterDue?: number;         // Fires this many hours after the deadline (0 = at the deadline)
+}
+
+/**
+ * Escalation tiers for tasks matching a task type and patient risk level.
+ * The first policy that matches a task applies; omitted filters match everything.
+ */
+export interface EscalationPolicy {
+  taskTypes?: TaskType[];
+  readmissionRiskScore?: RiskLevel[];
+  tiers: EscalationTier[];        // In the order they fire
+}
+
+/**
+ * A tier that has fired on a task.
+ */
+export interface TaskEscalation {
+  level: number;                  // 1 for the policy's first tier
+  notify: EscalationRecipient;
+  recipients: string[];           // User IDs notified (empty if nobody held the role)
+  escalatedAt: Date;
+}
+
+/**
+ * Escalations planned for one task by a scheduler run.
+ */
+export interface TaskEscalationPlan {
+  taskId: string;
+  escalations: TaskEscalation[];
+}
+
+// =============================================================================
+// Task Events
+// =============================================================================
+
+/**
+ * A moment in a task's life that happens with the passage of time rather
+ * than because someone changed the task.
+ */
+export type TaskEventType = 'task.opened' | 'task.due_soon' | 'task.overdue';
+
+export const TASK_EVENT_TYPES: TaskEventType[] = ['task.opened', 'task.due_soon', 'task.overdue'];
+
+/**
+ * A timed event, emitted once per task and type.
+ */
+export interface TaskEvent {
+  seq: number;                    // Emission order, starting at 1
+  type: TaskEventType;
+  taskId: string;
+  patientId: string;
+  at: Date;                       // The boundary the task crossed (e.g. its dueEnd)
+  emittedAt: Date;                // When the scheduler noticed; later than `at` after downtime
+}
+
+// =============================================================================
+// Audit Trail
+// =============================================================================
+
+export type AuditAction =
+  | 'task.completed'
+  | 'task.note_added'
+  | 'task.note_edited'
+  | 'task.note_redacted'
+  | 'task.contact_logged'
+  | 'task.assigned'
+  | 'task.escalated'
+  | 'task.closed'
+  | 'task.reopened'
+  | 'task.rescheduled'
+  | 'encounter.admitted'
+  | 'encounter.discharged'
+  | 'patient.imported'
+  | 'rules.updated'
+  | 'data.restored';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'task.completed',
+  'task.note_added',
+  'task.note_edited',
+  'task.note_redacted',
+  'task.contact_logged',
+  'task.assigned',
+  'task.escalated',
+  'task.closed',
+  'task.reopened',
+  'task.rescheduled',
+  'encounter.admitted',
+  'encounter.discharged',
+  'patient.imported',
+  'rules.updated',
+  'data.restored',
+];
+
+export type AuditEntityType = 'task' | 'patient' | 'encounter' | 'rules' | 'dataset';
+
+/**
+ * An immutable record of one change: who did what to which record, with the
+ * changed values before and after.
+ */
+export interface AuditEntry {
+  id: string;
+  at: Date;
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  patientId: string;              // Patient the changed record belongs to; empty for the whole dataset
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+/**
+ * Filters for reading the audit trail; all given filters must match.
+ */
+export interface AuditQuery {
+  patientId?: string;
+  actor?: string;
+  action?: AuditAction;
+  from?: Date;                    // Inclusive
+  to?: Date;                      // Exclusive
+}
+
+// =============================================================================
+// Live Updates
+// =============================================================================
+
+/**
+ * A message pushed to open screens so they can refresh without a reload:
+ * a recorded change, a timed task event, or a periodic tick so time-based
+ * statuses and counts stay current when nothing else happens.
+ */
+export type LiveUpdate =
+  | {
+      type: 'change';
+      action: AuditAction;
+      entityType: AuditEntityType;
+      entityId: string;
+      patientId: string;
+      at: Date;
+    }
+  | { type: 'task_event'; event: TaskEvent }
+  | { type: 'tick'; at: Date };
+
+// =============================================================================
+// Working Calendar
+// =============================================================================
+
+/**
+ * How a rule's window hours are counted: wall-clock hours, or only hours
+ * when the clinic is staffed according to the working calendar.
+ */
+export type WindowMode = 'calendar' | 'business';
+
+export const WINDOW_MODES: WindowMode[] = ['calendar', 'business'];
+
+/**
+ * Facility time zone and clinic staffing hours. Discharge times, working
+ * hours and holidays are all wall-clock values in `timeZone`.
+ */
+export interface WorkingCalendar {
+  timeZone: string;               // IANA time zone of the facility, e.g. America/New_York
+  workdays: number[];             // Days of the week with working hours (0 = Sunday ... 6 = Saturday)
+  openTime: string;               // HH:MM (24-hour)
+  closeTime: string;              // HH:MM (24-hour), after openTime
+  holidays: string[];             // YYYY-MM-DD dates with no working hours
+}
+
+export const DEFAULT_TIME_ZONE = 'America/New_York';
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  timeZone: DEFAULT_TIME_ZONE,
+  workdays: [1, 2, 3, 4, 5],
+  openTime: '08:00',
+  closeTime: '17:00',
+  holidays: [],
+};
+
 // =============================================================================
 // Task Generation Rules
 // =============================================================================
 
+/**
+ * Declarative conditions a patient must meet for a rule to apply.
+ * Every condition that is present must match (AND); list conditions match if
+ * the patient's value is any of the listed values (OR). No conditions means
+ * the rule applies to all patients.
+ */
+export interface TaskRuleConditions {
+  dischargeDisposition?: DischargeDisposition[];
+  readmissionRiskScore?: RiskLevel[];
+  fallRisk?: RiskLevel[];         // Patients with no fall risk recorded never match
+  diagnosisKeywords?: string[];   // Case-insensitive substring match on primaryDiagnosis
+  minAge?: number;                // Age in years at discharge, inclusive
+  maxAge?: number;
+  preferredLanguage?: string[];   // Case-insensitive
+}
+
 export interface TaskRule {
   type: TaskType;
   label: string;                  // Human-readable task name
   windowStartHours: number;       // Hours after discharge when window opens
   windowEndHours: number;         // Hours after discharge when window closes
-  condition: (patient: Patient) => boolean;
+  windowMode?: WindowMode;        // Defaults to 'calendar'
+  conditions: TaskRuleConditions;
 }
 
+/**
+ * A versioned set of task rules, as stored in data/task_rules.json.
+ */
+export interface TaskRuleSet {
+  version: number;                // Incremented on every saved edit
+  rules: TaskRule[];
+  calendar?: WorkingCalendar;     // Defaults to DEFAULT_WORKING_CALENDAR
+  escalations?: EscalationPolicy[]; // Defaults to DEFAULT_ESCALATION_POLICIES
+}
+
+/**
+ * Built-in rules, used when no rule file has been configured.
+ */
 export const TASK_RULES: TaskRule[] = [
   {
     type: 'contact_patient',
     label: 'Contact Patient',
     windowStartHours: 0,
     windowEndHours: 24,
-    condition: () => true,  // All patients
+    conditions: {},  // All patients
   },
   {
     type: 'medication_reconciliation',
     label: 'Medication Reconciliation',
     windowStartHours: 0,
     windowEndHours: 48,
-    condition: () => true,  // All patients
+    conditions: {},  // All patients
   },
   {
     type: 'followup_scheduling',
     label: 'Confirm Followup Scheduling',
     windowStartHours: 0,
     windowEndHours: 48,
-    condition: () => true,  // All patients
+    conditions: {},  // All patients
   },
   {
     type: 'facility_handoff',
     label: 'Facility Handoff Confirmation',
     windowStartHours: 0,
     windowEndHours: 24,
-    condition: (patient) => patient.dischargeDisposition === 'Skilled nursing facility',
+    conditions: { dischargeDisposition: ['Skilled nursing facility'] },
   },
   {
     type: 'checkin_call',
     label: '48hr Check-in Call',
     windowStartHours: 48,
     windowEndHours: 72,
-    condition: (patient) => ['High', 'Very High'].includes(patient.readmissionRiskScore),
+    conditions: { readmissionRiskScore: ['High', 'Very High'] },
+  },
+];
+
+/**
+ * Built-in escalation policies: high-risk patients escalate sooner.
+ */
+export const DEFAULT_ESCALATION_POLICIES: EscalationPolicy[] = [
+  {
+    readmissionRiskScore: ['High', 'Very High'],
+    tiers: [
+      { notify: 'assignee', windowPercent: 50 },
+      { notify: 'charge_nurse', hoursAfterDue: 0 },
+      { notify: 'supervisor', hoursAfterDue: 4 },
+    ],
+  },
+  {
+    tiers: [
+      { notify: 'assignee', windowPercent: 75 },
+      { notify: 'charge_nurse', hoursAfterDue: 0 },
+      { notify: 'supervisor', hoursAfterDue: 12 },
+    ],
   },
 ];
 
+export const DEFAULT_TASK_RULE_SET: TaskRuleSet = {
+  version: 1,
+  rules: TASK_RULES,
+  calendar: DEFAULT_WORKING_CALENDAR,
+  escalations: DEFAULT_ESCALATION_POLICIES,
+};
+
 // =============================================================================
 // API Response Types
 // =============================================================================
 
 export interface PatientWithTasks extends Patient {
   tasks: Task[];
+  encounters: Encounter[];        // Oldest first; the last is the current one
 }
 
 export interface DashboardStats {
@@ -140,4 +698,7 @@ export interface DashboardStats {
   pendingTasks: number;
   overdueTasks: number;
   completedToday: number;
+  closedTasks: number;            // Cancelled or not applicable; left out of every other count
+  urgentTasks: number;            // Open tasks due within the urgent threshold (4 hours)
+  unassignedTasks: number;        // Open tasks with no owner
 }
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_WORKING_CALENDAR, WorkingCalendar } from './types';
+import {
+  isWorkingDay,
+  isWithinBusinessHours,
+  addBusinessHours,
+  getBusinessMillisecondsBetween,
+  validateWorkingCalendar,
+} from './workingCalendar';
+
+const HOUR = 60 * 60 * 1000;
+
+// Mon-Fri 08:00-17:00 New York time, with Monday 2026-01-19 as a holiday
+const calendar: WorkingCalendar = {
+  ...DEFAULT_WORKING_CALENDAR,
+  timeZone: 'America/New_York',
+  holidays: ['2026-01-19'],
+};
+
+// New York wall-clock time in January (EST, UTC-5)
+const est = (dateTime: string) => new Date(`${dateTime}-05:00`);
+
+describe('workingCalendar', () => {
+  describe('isWorkingDay', () => {
+    it('should exclude weekends and holidays', () => {
+      expect(isWorkingDay(est('2026-01-16T12:00'), calendar)).toBe(true);   // Friday
+      expect(isWorkingDay(est('2026-01-17T12:00'), calendar)).toBe(false);  // Saturday
+      expect(isWorkingDay(est('2026-01-19T12:00'), calendar)).toBe(false);  // Holiday
+    });
+  });
+
+  describe('isWithinBusinessHours', () => {
+    it('should include opening time and exclude closing time', () => {
+      expect(isWithinBusinessHours(est('2026-01-16T08:00'), calendar)).toBe(true);
+      expect(isWithinBusinessHours(est('2026-01-16T17:00'), calendar)).toBe(false);
+      expect(isWithinBusinessHours(est('2026-01-16T07:59'), calendar)).toBe(false);
+    });
+  });
+
+  describe('addBusinessHours', () => {
+    it('should add hours within the same working day', () => {
+      expect(addBusinessHours(est('2026-01-14T09:00'), 3, calendar)).toEqual(est('2026-01-14T12:00'));
+    });
+
+    it('should carry a Friday afternoon window over the weekend and holiday', () => {
+      // 1h Friday, Monday is a holiday, then 9h Tuesday + 1h Wednesday
+      const result = addBusinessHours(est('2026-01-16T16:00'), 11, calendar);
+      expect(result).toEqual(est('2026-01-21T09:00'));
+    });
+
+    it('should start counting at the next opening when closed', () => {
+      expect(addBusinessHours(est('2026-01-17T10:00'), 2, calendar)).toEqual(est('2026-01-20T10:00'));
+      expect(addBusinessHours(est('2026-01-14T19:00'), 1, calendar)).toEqual(est('2026-01-15T09:00'));
+    });
+
+    it('should end exactly at closing time rather than the next opening', () => {
+      expect(addBusinessHours(est('2026-01-14T08:00'), 9, calendar)).toEqual(est('2026-01-14T17:00'));
+    });
+
+    it('should return the start unchanged for zero hours', () => {
+      const start = est('2026-01-17T10:00');
+      expect(addBusinessHours(start, 0, calendar)).toEqual(start);
+    });
+
+    it('should throw for a calendar without working days', () => {
+      const closed = { ...calendar, workdays: [] };
+      expect(() => addBusinessHours(est('2026-01-14T09:00'), 1, closed)).toThrow(/no working hours/);
+    });
+  });
+
+  describe('time zones', () => {
+    it('should use working hours in the calendar time zone', () => {
+      // 14:00 UTC is 09:00 in New York but 06:00 in Los Angeles
+      const instant = new Date('2026-01-14T14:00:00Z');
+      expect(isWithinBusinessHours(instant, calendar)).toBe(true);
+      expect(isWithinBusinessHours(instant, { ...calendar, timeZone: 'America/Los_Angeles' })).toBe(false);
+    });
+
+    it('should use the zoned day of the week', () => {
+      // Saturday 02:00 UTC is still Friday evening in New York
+      expect(isWorkingDay(new Date('2026-01-17T02:00:00Z'), calendar)).toBe(true);
+    });
+
+    it('should keep wall-clock opening hours across a DST change', () => {
+      // Clocks spring forward on Sunday 2026-03-08; Monday opens at 08:00 EDT (UTC-4)
+      const result = addBusinessHours(new Date('2026-03-06T16:00:00-05:00'), 2, calendar);
+      expect(result).toEqual(new Date('2026-03-09T09:00:00-04:00'));
+    });
+  });
+
+  describe('getBusinessMillisecondsBetween', () => {
+    it('should count only working time', () => {
+      const start = est('2026-01-16T16:00');
+      const end = est('2026-01-20T10:00');
+      expect(getBusinessMillisecondsBetween(start, end, calendar)).toBe(3 * HOUR);
+    });
+
+    it('should be zero across a closed period', () => {
+      const start = est('2026-01-16T18:00');
+      const end = est('2026-01-18T12:00');
+      expect(getBusinessMillisecondsBetween(start, end, calendar)).toBe(0);
+    });
+
+    it('should invert addBusinessHours', () => {
+      const start = est('2026-01-15T13:30');
+      const end = addBusinessHours(start, 24, calendar);
+      expect(getBusinessMillisecondsBetween(start, end, calendar)).toBe(24 * HOUR);
+    });
+  });
+
+  describe('validateWorkingCalendar', () => {
+    it('should accept the default calendar', () => {
+      const errors: string[] = [];
+      validateWorkingCalendar(DEFAULT_WORKING_CALENDAR, 'calendar', errors);
+      expect(errors).toEqual([]);
+    });
+
+    it('should report every problem', () => {
+      const errors: string[] = [];
+      validateWorkingCalendar(
+        {
+          timeZone: 'Mars/Olympus_Mons',
+          workdays: [1, 7],
+          openTime: '17:00',
+          closeTime: '08:00',
+          holidays: ['2026-13-45', 'tomorrow'],
+        },
+        'calendar',
+        errors
+      );
+      expect(errors).toEqual([
+        'calendar.timeZone: must be an IANA time zone name (e.g. America/New_York)',
+        'calendar.workdays: must be a non-empty array of days 0 (Sunday) to 6 (Saturday)',
+        'calendar.closeTime: must be after openTime',
+        'calendar.holidays[0]: must be a date in YYYY-MM-DD format',
+        'calendar.holidays[1]: must be a date in YYYY-MM-DD format',
+      ]);
+    });
+  });
+});
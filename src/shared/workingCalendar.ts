@@ -0,0 +1,157 @@
+// Working calendar: clinic hours, weekends and holidays, used to count
+// business-hour task windows. Days and hours are in the calendar's time zone.
+
+import { WorkingCalendar, DEFAULT_WORKING_CALENDAR } from './types';
+import { getZonedDateTime, zonedTimeToDate, toZonedDateKey, formatDateKey, isValidTimeZone } from './timeZone';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A calendar with at least one working day always finds one within this many days
+const MAX_DAYS_SEARCHED = 366 * 2;
+
+interface WorkingPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Midnight at the start of the next day in the calendar's time zone.
+ */
+function startOfNextDay(date: Date, calendar: WorkingCalendar): Date {
+  const { year, month, day } = getZonedDateTime(date, calendar.timeZone);
+  return zonedTimeToDate(formatDateKey(year, month, day + 1), '00:00', calendar.timeZone);
+}
+
+/**
+ * Check whether a date falls on a working day (a workday that is not a holiday).
+ */
+export function isWorkingDay(date: Date, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): boolean {
+  const { weekday } = getZonedDateTime(date, calendar.timeZone);
+  return calendar.workdays.includes(weekday) && !calendar.holidays.includes(toZonedDateKey(date, calendar.timeZone));
+}
+
+/**
+ * Get the working hours on the day containing `date`, or null on non-working days.
+ */
+function getWorkingPeriod(date: Date, calendar: WorkingCalendar): WorkingPeriod | null {
+  if (!isWorkingDay(date, calendar)) {
+    return null;
+  }
+  const dateKey = toZonedDateKey(date, calendar.timeZone);
+  return {
+    start: zonedTimeToDate(dateKey, calendar.openTime, calendar.timeZone),
+    end: zonedTimeToDate(dateKey, calendar.closeTime, calendar.timeZone),
+  };
+}
+
+/**
+ * Check whether the clinic is staffed at a given moment.
+ */
+export function isWithinBusinessHours(date: Date, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): boolean {
+  const period = getWorkingPeriod(date, calendar);
+  return period !== null && date >= period.start && date < period.end;
+}
+
+/**
+ * Add business hours to a start time, skipping closed hours, weekends and holidays.
+ * Counting starts at `start` if the clinic is open, otherwise at the next opening.
+ * Adding zero hours returns `start` unchanged.
+ */
+export function addBusinessHours(
+  start: Date,
+  hours: number,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): Date {
+  let remaining = hours * 60 * 60 * 1000;
+  if (remaining <= 0) {
+    return new Date(start);
+  }
+
+  let cursor = new Date(start);
+  for (let day = 0; day < MAX_DAYS_SEARCHED; day++) {
+    const period = getWorkingPeriod(cursor, calendar);
+    if (period && cursor < period.end) {
+      const from = cursor > period.start ? cursor : period.start;
+      const available = period.end.getTime() - from.getTime();
+      if (remaining <= available) {
+        return new Date(from.getTime() + remaining);
+      }
+      remaining -= available;
+    }
+    cursor = startOfNextDay(cursor, calendar);
+  }
+
+  throw new Error('Working calendar has no working hours');
+}
+
+/**
+ * Count the business milliseconds between two times (0 if end is not after start).
+ */
+export function getBusinessMillisecondsBetween(
+  start: Date,
+  end: Date,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): number {
+  let total = 0;
+  let cursor = new Date(start);
+  while (cursor < end) {
+    const period = getWorkingPeriod(cursor, calendar);
+    if (period) {
+      const from = Math.max(cursor.getTime(), period.start.getTime());
+      const to = Math.min(end.getTime(), period.end.getTime());
+      if (to > from) {
+        total += to - from;
+      }
+    }
+    cursor = startOfNextDay(cursor, calendar);
+  }
+  return total;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate an untrusted working calendar, appending problems to `errors`.
+ */
+export function validateWorkingCalendar(value: unknown, path: string, errors: string[]): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  const calendar = value as Record<string, unknown>;
+
+  if (typeof calendar.timeZone !== 'string' || !isValidTimeZone(calendar.timeZone)) {
+    errors.push(`${path}.timeZone: must be an IANA time zone name (e.g. America/New_York)`);
+  }
+
+  if (
+    !Array.isArray(calendar.workdays) ||
+    calendar.workdays.length === 0 ||
+    !calendar.workdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+  ) {
+    errors.push(`${path}.workdays: must be a non-empty array of days 0 (Sunday) to 6 (Saturday)`);
+  }
+
+  const { openTime, closeTime } = calendar;
+  if (typeof openTime !== 'string' || !TIME_OF_DAY_PATTERN.test(openTime)) {
+    errors.push(`${path}.openTime: must be a time in HH:MM format`);
+  }
+  if (typeof closeTime !== 'string' || !TIME_OF_DAY_PATTERN.test(closeTime)) {
+    errors.push(`${path}.closeTime: must be a time in HH:MM format`);
+  } else if (typeof openTime === 'string' && TIME_OF_DAY_PATTERN.test(openTime) && closeTime <= openTime) {
+    errors.push(`${path}.closeTime: must be after openTime`);
+  }
+
+  if (!Array.isArray(calendar.holidays)) {
+    errors.push(`${path}.holidays: must be an array`);
+  } else {
+    calendar.holidays.forEach((holiday, i) => {
+      if (typeof holiday !== 'string' || !DATE_PATTERN.test(holiday) || Number.isNaN(Date.parse(holiday))) {
+        errors.push(`${path}.holidays[${i}]: must be a date in YYYY-MM-DD format`);
+      }
+    });
+  }
+}
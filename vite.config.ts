@@ -16,5 +16,9 @@ export default defineConfig({
       // Allow serving files from the data directory
       allow: ['.', 'data'],
     },
+    proxy: {
+      // Forward API calls to the Express server (npm run dev:server)
+      '/api': 'http://localhost:3001',
+    },
   },
 });